@@ -0,0 +1,10 @@
+-- 038_parallel_branches.sql
+-- Fork/join support: a FORK workflow state spawns one task per configured
+-- branch. Branch tasks share a parallel_group_id so the join can count them.
+
+ALTER TABLE task ADD COLUMN IF NOT EXISTS branch_id TEXT;
+ALTER TABLE task ADD COLUMN IF NOT EXISTS parallel_group_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_task_parallel_group
+  ON task(parallel_group_id, status)
+  WHERE parallel_group_id IS NOT NULL;
@@ -0,0 +1,25 @@
+-- 039_sla_escalation.sql
+-- Multi-level SLA escalation. Each row records one escalation level applied
+-- to an overdue task (notify, reassign, or raise to the authority head).
+
+CREATE TABLE IF NOT EXISTS sla_escalation (
+  escalation_id              TEXT PRIMARY KEY,
+  task_id                    TEXT NOT NULL REFERENCES task(task_id),
+  arn                        TEXT NOT NULL REFERENCES application(arn),
+  authority_id               TEXT NOT NULL,
+  state_id                   TEXT NOT NULL,
+  level                      INTEGER NOT NULL,
+  action                     TEXT NOT NULL,        -- NOTIFY, REASSIGN, RAISE_TO_HEAD
+  from_system_role_id        TEXT,
+  target_system_role_id      TEXT NOT NULL,
+  previous_assignee_user_id  TEXT,
+  hours_overdue              NUMERIC(10, 2) NOT NULL,
+  notified_user_ids          TEXT[] NOT NULL DEFAULT '{}',
+  created_at                 TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (task_id, level),
+  CONSTRAINT chk_sla_escalation_action CHECK (action IN ('NOTIFY', 'REASSIGN', 'RAISE_TO_HEAD'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_escalation_target
+  ON sla_escalation(authority_id, target_system_role_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sla_escalation_arn ON sla_escalation(arn);
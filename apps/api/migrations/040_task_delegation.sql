@@ -0,0 +1,26 @@
+-- 040_task_delegation.sql
+-- Time-bounded task delegation. While a delegation is active, the delegate
+-- acts with the delegator's postings in that authority: the delegator's role
+-- pools appear in the delegate's inbox and tasks already assigned to the
+-- delegator can be picked up by the delegate.
+
+CREATE TABLE IF NOT EXISTS task_delegation (
+  delegation_id      TEXT PRIMARY KEY,
+  authority_id       TEXT NOT NULL REFERENCES authority(authority_id),
+  delegator_user_id  TEXT NOT NULL REFERENCES "user"(user_id),
+  delegate_user_id   TEXT NOT NULL REFERENCES "user"(user_id),
+  valid_from         TIMESTAMPTZ NOT NULL,
+  valid_to           TIMESTAMPTZ NOT NULL,
+  reason             TEXT,
+  created_by         TEXT NOT NULL REFERENCES "user"(user_id),
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at         TIMESTAMPTZ,
+  revoked_by         TEXT REFERENCES "user"(user_id),
+  CONSTRAINT chk_task_delegation_window CHECK (valid_to > valid_from),
+  CONSTRAINT chk_task_delegation_distinct_users CHECK (delegator_user_id <> delegate_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_delegation_delegate
+  ON task_delegation(delegate_user_id, valid_to) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_task_delegation_delegator
+  ON task_delegation(delegator_user_id, valid_to) WHERE revoked_at IS NULL;
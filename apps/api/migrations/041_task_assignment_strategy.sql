@@ -0,0 +1,11 @@
+-- 041_task_assignment_strategy.sql
+-- Automatic task assignment. assignment_strategy records the strategy that
+-- picked the assignee when a task was created (NULL for pool tasks claimed
+-- by officers); round-robin resumes after the last officer it picked.
+
+ALTER TABLE task ADD COLUMN IF NOT EXISTS assignment_strategy TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_task_round_robin
+  ON task(state_id, system_role_id, created_at DESC) WHERE assignment_strategy = 'ROUND_ROBIN';
+CREATE INDEX IF NOT EXISTS idx_task_open_assignee
+  ON task(assignee_user_id) WHERE status IN ('PENDING', 'IN_PROGRESS');
@@ -0,0 +1,31 @@
+-- 042_output_jobs.sql
+-- Certificate/order generation queued by the workflow engine. A GENERATE_OUTPUT_*
+-- action enqueues one job per application and template in the transition's
+-- transaction; the job is attempted after commit and retried with backoff by
+-- the output job worker. The unique key means a decision never produces two
+-- output numbers. application.output_status mirrors the latest job.
+
+CREATE TABLE IF NOT EXISTS output_job (
+  job_id              TEXT PRIMARY KEY,
+  arn                 TEXT NOT NULL REFERENCES application(arn),
+  template_id         TEXT NOT NULL,
+  output_action       TEXT,
+  decision_state      TEXT,
+  status              TEXT NOT NULL DEFAULT 'PENDING'
+                        CHECK (status IN ('PENDING', 'GENERATED', 'FAILED')),
+  attempts            INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error          TEXT,
+  output_id           TEXT REFERENCES output(output_id),
+  -- Locker document type set by ISSUE_LOCKER_DOCUMENT (default output_<service_key>)
+  locker_doc_type_id  TEXT,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (arn, template_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_output_job_due
+  ON output_job(next_attempt_at) WHERE status = 'PENDING';
+
+ALTER TABLE application ADD COLUMN IF NOT EXISTS output_status TEXT
+  CHECK (output_status IN ('PENDING', 'GENERATED', 'FAILED'));
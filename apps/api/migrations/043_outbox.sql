@@ -0,0 +1,25 @@
+-- 043_outbox.sql
+-- Transactional outbox for side effects of workflow transactions. Entries are
+-- written in the same transaction as the state change, dispatched right after
+-- commit and retried with backoff by the outbox worker, so a crash between
+-- COMMIT and the side effect no longer loses it. kind selects the handler
+-- (NOTIFY, OUTPUT_JOB, ...); FAILED entries can be replayed by an admin.
+
+CREATE TABLE IF NOT EXISTS outbox (
+  outbox_id        TEXT PRIMARY KEY,
+  arn              TEXT REFERENCES application(arn),
+  kind             TEXT NOT NULL,
+  payload_jsonb    JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status           TEXT NOT NULL DEFAULT 'PENDING'
+                     CHECK (status IN ('PENDING', 'DISPATCHED', 'FAILED')),
+  attempts         INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error       TEXT,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  dispatched_at    TIMESTAMPTZ,
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_due
+  ON outbox(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_outbox_arn ON outbox(arn, created_at);
@@ -0,0 +1,17 @@
+-- 044_notification_templates.sql
+-- Admin overrides of the notification templates shipped in
+-- notification-templates.ts, one row per event and language. Text uses
+-- {{variable}} placeholders; sms_body and dlt_template_id carry the
+-- DLT-registered SMS wording when it differs from the in-app/email body.
+
+CREATE TABLE IF NOT EXISTS notification_template (
+  event               TEXT NOT NULL,
+  language            TEXT NOT NULL CHECK (language IN ('en', 'hi', 'pa')),
+  title               TEXT NOT NULL,
+  body                TEXT NOT NULL,
+  sms_body            TEXT,
+  dlt_template_id     TEXT,
+  updated_by_user_id  TEXT,
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (event, language)
+);
@@ -0,0 +1,6 @@
+-- 045_notification_delivery_callbacks.sql
+-- SMS gateway and email provider delivery callbacks look up the log row by the
+-- provider's message reference; a bounce is recorded as status BOUNCED.
+
+CREATE INDEX IF NOT EXISTS idx_notification_log_provider_ref
+  ON notification_log(channel, provider_ref) WHERE provider_ref IS NOT NULL;
@@ -0,0 +1,25 @@
+-- 046_notification_deferred.sql
+-- SMS/email held back by a citizen's notification preferences: SMS during
+-- quiet hours (sent individually once they end) and low-priority events in
+-- digest mode (combined into one message per user and channel at the daily
+-- digest time). Claimed rows get sent_at; delivery itself is logged in
+-- notification_log as usual.
+
+CREATE TABLE IF NOT EXISTS notification_deferred (
+  deferred_id      TEXT PRIMARY KEY,
+  user_id          TEXT NOT NULL REFERENCES "user"(user_id),
+  arn              TEXT REFERENCES application(arn) ON DELETE SET NULL,
+  event            TEXT NOT NULL,
+  channel          TEXT NOT NULL CHECK (channel IN ('SMS', 'EMAIL')),
+  reason           TEXT NOT NULL CHECK (reason IN ('QUIET_HOURS', 'DIGEST')),
+  language         TEXT NOT NULL DEFAULT 'en',
+  title            TEXT NOT NULL,
+  message          TEXT NOT NULL,
+  metadata_jsonb   JSONB NOT NULL DEFAULT '{}'::jsonb,
+  deliver_after    TIMESTAMPTZ NOT NULL,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at          TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deferred_due
+  ON notification_deferred(deliver_after) WHERE sent_at IS NULL;
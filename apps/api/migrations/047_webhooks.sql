@@ -0,0 +1,45 @@
+-- Outbound webhooks for external department systems. An authority subscribes a
+-- target URL to application events; each matching event queues one delivery
+-- per subscription in the event's transaction. Deliveries are POSTed with an
+-- HMAC-SHA256 signature over the body, retried with exponential backoff by the
+-- webhook delivery worker, and kept as a delivery log an admin can replay.
+
+CREATE TABLE IF NOT EXISTS webhook_subscription (
+  subscription_id     TEXT PRIMARY KEY,
+  authority_id        TEXT NOT NULL REFERENCES authority(authority_id),
+  event_types         TEXT[] NOT NULL,
+  target_url          TEXT NOT NULL,
+  -- Signing key; returned once when created or rotated, never listed
+  secret              TEXT NOT NULL,
+  description         TEXT,
+  active              BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_user_id  TEXT,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscription_authority
+  ON webhook_subscription(authority_id) WHERE active;
+
+CREATE TABLE IF NOT EXISTS webhook_delivery (
+  delivery_id         TEXT PRIMARY KEY,
+  subscription_id     TEXT NOT NULL REFERENCES webhook_subscription(subscription_id),
+  event               TEXT NOT NULL,
+  arn                 TEXT REFERENCES application(arn),
+  -- The body as sent; replays resend it unchanged under the same delivery id
+  payload_jsonb       JSONB NOT NULL,
+  status              TEXT NOT NULL DEFAULT 'PENDING'
+                        CHECK (status IN ('PENDING', 'DELIVERED', 'FAILED')),
+  attempts            INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_status_code    INTEGER,
+  last_error          TEXT,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at        TIMESTAMPTZ,
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_due
+  ON webhook_delivery(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_subscription
+  ON webhook_delivery(subscription_id, created_at DESC);
@@ -0,0 +1,20 @@
+-- Personal saved views for the officer inbox: a named set of inbox filters and
+-- a sort order. Views belong to one officer and are never shared; at most one
+-- view per officer is the default the inbox opens with.
+
+CREATE TABLE IF NOT EXISTS inbox_saved_view (
+  view_id         TEXT PRIMARY KEY,
+  user_id         TEXT NOT NULL REFERENCES "user"(user_id),
+  name            TEXT NOT NULL,
+  -- InboxFilters (serviceKey, stateId, slaBucket, applicantName, locality, assignedToMe)
+  filters_jsonb   JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort_key        TEXT NOT NULL DEFAULT 'sla_due_at',
+  sort_direction  TEXT NOT NULL DEFAULT 'asc' CHECK (sort_direction IN ('asc', 'desc')),
+  is_default      BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inbox_saved_view_default
+  ON inbox_saved_view(user_id) WHERE is_default;
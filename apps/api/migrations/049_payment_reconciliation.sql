@@ -0,0 +1,57 @@
+-- Payment reconciliation against gateway settlement reports and bank
+-- statements. Each imported file is one reconciliation_import; every credit
+-- line in it becomes a reconciliation_item matched to at most one payment on
+-- gateway order/payment id, provider_transaction_id or instrument (challan)
+-- number. The match outcome drives payment.reconciliation_status; exceptions
+-- stay open until an accounts officer resolves them.
+
+CREATE TABLE IF NOT EXISTS reconciliation_import (
+  import_id           TEXT PRIMARY KEY,
+  authority_id        TEXT NOT NULL REFERENCES authority(authority_id),
+  source_type         TEXT NOT NULL CHECK (source_type IN ('GATEWAY_SETTLEMENT', 'BANK_STATEMENT')),
+  file_format         TEXT NOT NULL CHECK (file_format IN ('CSV', 'MT940')),
+  file_name           TEXT NOT NULL,
+  -- Re-importing the same file would double-count settlements
+  file_sha256         TEXT NOT NULL,
+  line_count          INTEGER NOT NULL DEFAULT 0,
+  matched_count       INTEGER NOT NULL DEFAULT 0,
+  exception_count     INTEGER NOT NULL DEFAULT 0,
+  imported_by_user_id TEXT REFERENCES "user"(user_id),
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (authority_id, file_sha256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_import_authority
+  ON reconciliation_import(authority_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS reconciliation_item (
+  item_id             TEXT PRIMARY KEY,
+  import_id           TEXT NOT NULL REFERENCES reconciliation_import(import_id),
+  line_number         INTEGER NOT NULL,
+  reference_values    TEXT[] NOT NULL DEFAULT '{}',
+  amount              NUMERIC(14,2),
+  value_date          DATE,
+  payment_id          TEXT REFERENCES payment(payment_id),
+  matched_on          TEXT CHECK (matched_on IN ('GATEWAY_ORDER_ID', 'GATEWAY_PAYMENT_ID', 'PROVIDER_TRANSACTION_ID', 'INSTRUMENT_NUMBER')),
+  status              TEXT NOT NULL
+                        CHECK (status IN ('MATCHED', 'MISMATCH', 'MANUAL_REVIEW', 'UNMATCHED', 'RESOLVED')),
+  reasons             TEXT[] NOT NULL DEFAULT '{}',
+  raw_jsonb           JSONB NOT NULL DEFAULT '{}'::jsonb,
+  resolution          TEXT CHECK (resolution IN ('ACCEPT', 'LINK', 'IGNORE')),
+  resolution_note     TEXT,
+  resolved_by_user_id TEXT REFERENCES "user"(user_id),
+  resolved_at         TIMESTAMPTZ,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_item_import
+  ON reconciliation_item(import_id, line_number);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_item_open
+  ON reconciliation_item(status, created_at)
+  WHERE status IN ('MISMATCH', 'MANUAL_REVIEW', 'UNMATCHED');
+CREATE INDEX IF NOT EXISTS idx_reconciliation_item_payment
+  ON reconciliation_item(payment_id) WHERE payment_id IS NOT NULL;
+
+-- Settled payments recorded before reconciliation existed await their first import
+UPDATE payment SET reconciliation_status = 'PENDING'
+ WHERE status IN ('SUCCESS', 'VERIFIED') AND reconciliation_status IS NULL;
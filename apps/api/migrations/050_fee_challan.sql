@@ -0,0 +1,31 @@
+-- Offline fee challans and counter posting. A challan is a printable pay-in
+-- slip for the outstanding balance of a fee demand, valid until a date; the
+-- bank quotes its number back on statements. Counter clerks post the
+-- offline payment (challan, NEFT or counter instrument) as INITIATED and the
+-- demand is only credited once the posting is verified.
+
+CREATE SEQUENCE IF NOT EXISTS challan_seq START 1;
+
+CREATE TABLE IF NOT EXISTS fee_challan (
+  challan_id           TEXT PRIMARY KEY,
+  challan_number       TEXT NOT NULL UNIQUE,
+  demand_id            TEXT NOT NULL REFERENCES fee_demand(demand_id) ON DELETE CASCADE,
+  arn                  TEXT NOT NULL REFERENCES application(arn) ON DELETE CASCADE,
+  amount               NUMERIC(14,2) NOT NULL CHECK (amount > 0),
+  status               TEXT NOT NULL DEFAULT 'ACTIVE'
+                         CHECK (status IN ('ACTIVE', 'PAID', 'EXPIRED', 'CANCELLED')),
+  valid_until          DATE NOT NULL,
+  generated_by_user_id TEXT REFERENCES "user"(user_id),
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  paid_at              TIMESTAMPTZ
+);
+
+-- At most one live challan per demand; regenerating supersedes the old one
+CREATE UNIQUE INDEX IF NOT EXISTS uq_fee_challan_active_demand
+  ON fee_challan(demand_id) WHERE status = 'ACTIVE';
+CREATE INDEX IF NOT EXISTS idx_fee_challan_arn ON fee_challan(arn, created_at DESC);
+
+ALTER TABLE payment ADD COLUMN IF NOT EXISTS challan_id        TEXT REFERENCES fee_challan(challan_id);
+ALTER TABLE payment ADD COLUMN IF NOT EXISTS posted_by_user_id TEXT REFERENCES "user"(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_payment_challan ON payment(challan_id) WHERE challan_id IS NOT NULL;
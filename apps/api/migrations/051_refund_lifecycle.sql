@@ -0,0 +1,53 @@
+-- Refund lifecycle with maker-checker approval and bank payout files.
+--
+--   REQUESTED → RECOMMENDED (maker) → APPROVED (checker, a different officer)
+--             → IN_PAYOUT (included in a payout file) → PROCESSED (bank UTR)
+--
+-- REJECTED is reachable until the refund is sent for payout; a failed payout
+-- returns the refund to APPROVED for the next file. The refundable amount is
+-- computed from payments and waivers at request time and kept as a snapshot.
+
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS recommended_by    TEXT REFERENCES "user"(user_id);
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS recommended_at    TIMESTAMPTZ;
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS approved_by       TEXT REFERENCES "user"(user_id);
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS approved_at       TIMESTAMPTZ;
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS decision_remarks  TEXT;
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS refundable_jsonb  JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS payout_batch_id   TEXT;
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS payout_reference  TEXT;
+ALTER TABLE refund_request ADD COLUMN IF NOT EXISTS payout_failure_reason TEXT;
+
+-- Rows written before the lifecycle carried the approver in processed_by
+UPDATE refund_request SET approved_by = processed_by
+ WHERE status IN ('APPROVED', 'PROCESSED') AND approved_by IS NULL
+   AND processed_by IN (SELECT user_id FROM "user");
+
+CREATE SEQUENCE IF NOT EXISTS refund_payout_batch_seq START 1;
+
+CREATE TABLE IF NOT EXISTS refund_payout_batch (
+  batch_id            TEXT PRIMARY KEY,
+  batch_number        TEXT NOT NULL UNIQUE,
+  authority_id        TEXT NOT NULL REFERENCES authority(authority_id),
+  refund_count        INTEGER NOT NULL CHECK (refund_count > 0),
+  total_amount        NUMERIC(14,2) NOT NULL,
+  file_name           TEXT NOT NULL,
+  file_sha256         TEXT NOT NULL,
+  -- Kept verbatim: refunds that fail payout move on to later files
+  file_content        TEXT NOT NULL,
+  generated_by_user_id TEXT REFERENCES "user"(user_id),
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_payout_batch_authority
+  ON refund_payout_batch(authority_id, created_at DESC);
+
+ALTER TABLE refund_request DROP CONSTRAINT IF EXISTS refund_request_payout_batch_fk;
+ALTER TABLE refund_request ADD CONSTRAINT refund_request_payout_batch_fk
+  FOREIGN KEY (payout_batch_id) REFERENCES refund_payout_batch(batch_id);
+
+CREATE INDEX IF NOT EXISTS idx_refund_request_payout_batch
+  ON refund_request(payout_batch_id) WHERE payout_batch_id IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_refund_request_status;
+CREATE INDEX IF NOT EXISTS idx_refund_request_status ON refund_request(status)
+  WHERE status IN ('REQUESTED', 'RECOMMENDED', 'APPROVED', 'IN_PAYOUT');
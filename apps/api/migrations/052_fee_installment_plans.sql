@@ -0,0 +1,64 @@
+-- Installment plans for fee demands. A plan splits the outstanding principal
+-- of one demand into installments with their own due dates. Overdue principal
+-- attracts simple interest at the plan's annual rate once the grace period
+-- after the due date ends. Interest is crystallised into interest_accrued up
+-- to accrued_until whenever a payment is allocated, so later accrual runs on
+-- the reduced principal only.
+--
+-- fee_demand.paid_amount keeps counting principal; interest collected on the
+-- plan is tracked separately in fee_demand.interest_paid.
+
+ALTER TABLE fee_demand ADD COLUMN IF NOT EXISTS interest_paid NUMERIC(14,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS fee_installment_plan (
+  plan_id                  TEXT PRIMARY KEY,
+  demand_id                TEXT NOT NULL REFERENCES fee_demand(demand_id) ON DELETE CASCADE,
+  arn                      TEXT NOT NULL REFERENCES application(arn) ON DELETE CASCADE,
+  annual_interest_rate_pct NUMERIC(6,3) NOT NULL CHECK (annual_interest_rate_pct >= 0),
+  grace_days               INTEGER NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+  allocation_order         TEXT NOT NULL DEFAULT 'INTEREST_FIRST'
+                             CHECK (allocation_order IN ('INTEREST_FIRST', 'PRINCIPAL_FIRST')),
+  status                   TEXT NOT NULL DEFAULT 'ACTIVE'
+                             CHECK (status IN ('ACTIVE', 'COMPLETED', 'CANCELLED')),
+  created_by               TEXT REFERENCES "user"(user_id),
+  created_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  cancelled_by             TEXT REFERENCES "user"(user_id),
+  cancelled_at             TIMESTAMPTZ
+);
+
+-- One live plan per demand; a cancelled plan can be replaced
+CREATE UNIQUE INDEX IF NOT EXISTS uq_fee_installment_plan_live_demand
+  ON fee_installment_plan(demand_id) WHERE status IN ('ACTIVE', 'COMPLETED');
+CREATE INDEX IF NOT EXISTS idx_fee_installment_plan_arn ON fee_installment_plan(arn, created_at);
+
+CREATE TABLE IF NOT EXISTS fee_installment (
+  installment_id      TEXT PRIMARY KEY,
+  plan_id             TEXT NOT NULL REFERENCES fee_installment_plan(plan_id) ON DELETE CASCADE,
+  installment_number  INTEGER NOT NULL CHECK (installment_number > 0),
+  due_date            DATE NOT NULL,
+  principal_amount    NUMERIC(14,2) NOT NULL CHECK (principal_amount > 0),
+  principal_paid      NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (principal_paid >= 0),
+  interest_accrued    NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (interest_accrued >= 0),
+  interest_paid       NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (interest_paid >= 0),
+  accrued_until       DATE,
+  status              TEXT NOT NULL DEFAULT 'PENDING'
+                        CHECK (status IN ('PENDING', 'PARTIALLY_PAID', 'PAID')),
+  paid_at             TIMESTAMPTZ,
+  UNIQUE (plan_id, installment_number),
+  CHECK (principal_paid <= principal_amount),
+  CHECK (interest_paid <= interest_accrued)
+);
+
+-- How each payment was split across installments (interest and principal)
+CREATE TABLE IF NOT EXISTS fee_installment_allocation (
+  allocation_id       TEXT PRIMARY KEY,
+  installment_id      TEXT NOT NULL REFERENCES fee_installment(installment_id) ON DELETE CASCADE,
+  payment_id          TEXT NOT NULL REFERENCES payment(payment_id) ON DELETE CASCADE,
+  interest_amount     NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (interest_amount >= 0),
+  principal_amount    NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (principal_amount >= 0),
+  allocated_on        DATE NOT NULL,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_installment_allocation_installment ON fee_installment_allocation(installment_id);
+CREATE INDEX IF NOT EXISTS idx_fee_installment_allocation_payment ON fee_installment_allocation(payment_id);
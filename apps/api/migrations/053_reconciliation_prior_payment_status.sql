@@ -0,0 +1,7 @@
+-- What a payment's reconciliation state was before an import moved it to
+-- MISMATCH or MANUAL_REVIEW, so that ignoring the exception can put it back.
+-- Lines flagged DUPLICATE_SETTLEMENT never touch the payment and leave these
+-- columns NULL.
+
+ALTER TABLE reconciliation_item ADD COLUMN IF NOT EXISTS payment_prior_status       TEXT;
+ALTER TABLE reconciliation_item ADD COLUMN IF NOT EXISTS payment_prior_reconciled_at TIMESTAMPTZ;
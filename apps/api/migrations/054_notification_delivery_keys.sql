@@ -0,0 +1,16 @@
+-- Notifications sent from an outbox entry carry a delivery key built from the
+-- entry id, channel and recipient. A retried NOTIFY entry skips the in-app
+-- notifications, deferrals and SMS/email already delivered under its keys and
+-- only repeats the ones that failed.
+
+ALTER TABLE notification ADD COLUMN IF NOT EXISTS delivery_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_notification_delivery_key
+  ON notification(delivery_key) WHERE delivery_key IS NOT NULL;
+
+ALTER TABLE notification_deferred ADD COLUMN IF NOT EXISTS delivery_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_notification_deferred_delivery_key
+  ON notification_deferred(delivery_key) WHERE delivery_key IS NOT NULL;
+
+ALTER TABLE notification_log ADD COLUMN IF NOT EXISTS delivery_key TEXT;
+CREATE INDEX IF NOT EXISTS idx_notification_log_delivery_key
+  ON notification_log(delivery_key) WHERE delivery_key IS NOT NULL;
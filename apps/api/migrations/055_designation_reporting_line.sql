@@ -0,0 +1,11 @@
+-- 055_designation_reporting_line.sql
+-- Reporting line between designations. A NOTIFY escalation level goes to the
+-- officers posted in the designation the task holder reports to, so it needs
+-- no target role; RAISE_TO_HEAD records the head it assigned the task to.
+
+ALTER TABLE designation ADD COLUMN IF NOT EXISTS reports_to_designation_id TEXT REFERENCES designation(designation_id);
+
+ALTER TABLE sla_escalation ALTER COLUMN target_system_role_id DROP NOT NULL;
+ALTER TABLE sla_escalation ADD COLUMN IF NOT EXISTS assigned_user_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sla_escalation_notified ON sla_escalation USING GIN (notified_user_ids);
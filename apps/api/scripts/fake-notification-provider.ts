@@ -0,0 +1,32 @@
+/**
+ * Run the local SMS gateway / SMTP stand-in. Point the API at it with:
+ *   SMS_PROVIDER=http SMS_ENABLED=true SMS_GATEWAY_URL=http://127.0.0.1:4010/sms/send
+ *   EMAIL_PROVIDER=smtp EMAIL_ENABLED=true SMTP_HOST=127.0.0.1 SMTP_PORT=2525
+ * Callbacks go to FAKE_PROVIDER_CALLBACK_BASE_URL (default http://localhost:3001),
+ * signed with NOTIFICATION_CALLBACK_SECRET.
+ */
+import { startFakeNotificationProvider } from "../src/transports/fake-provider";
+
+async function main() {
+  const provider = await startFakeNotificationProvider({
+    host: process.env.FAKE_PROVIDER_HOST || "127.0.0.1",
+    httpPort: Number(process.env.FAKE_PROVIDER_HTTP_PORT || 4010),
+    smtpPort: Number(process.env.FAKE_PROVIDER_SMTP_PORT || 2525),
+    callbackBaseUrl: process.env.FAKE_PROVIDER_CALLBACK_BASE_URL || "http://localhost:3001",
+    callbackSecret: process.env.NOTIFICATION_CALLBACK_SECRET,
+    callbackDelayMs: Number(process.env.FAKE_PROVIDER_CALLBACK_DELAY_MS || 1000),
+  });
+  console.log(`[FAKE_NOTIFICATION_PROVIDER] sms=${provider.httpUrl}/sms/send smtp=port ${provider.smtpPort}`);
+
+  const shutdown = () => {
+    provider.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[FAKE_NOTIFICATION_PROVIDER_ERROR] ${message}`);
+  process.exit(1);
+});
@@ -1,10 +1,20 @@
-import { loadServicePacks } from "../src/service-packs";
+import {
+  loadServicePacks,
+  validateAllServicePackFees,
+  validateAllServicePackForms,
+  validateAllServicePackNotifications,
+  validateAllServicePackWorkflows,
+} from "../src/service-packs";
 
 async function main() {
   const services = await loadServicePacks();
   if (services.length === 0) {
     throw new Error("No service packs found under service-packs/");
   }
+  await validateAllServicePackForms();
+  await validateAllServicePackWorkflows();
+  await validateAllServicePackNotifications();
+  await validateAllServicePackFees();
 
   const keys = services.map((service) => service.serviceKey).sort();
   console.log(`[SERVICE_PACK_PREFLIGHT_OK] Validated ${services.length} service pack(s): ${keys.join(", ")}`);
@@ -54,6 +54,7 @@ async function seedServiceVersions() {
     let documents: any = null;
     let feeSchedule: any = null;
     let rules: any = null;
+    let notifications: any = null;
 
     const yamlPath = path.join(dir, "service.yaml");
     let yamlRaw: string;
@@ -76,6 +77,7 @@ async function seedServiceVersions() {
     documents = await readOptionalJson(path.join(dir, "documents.json"));
     feeSchedule = await readOptionalJson(path.join(dir, "fees.json"));
     rules = await readOptionalJson(path.join(dir, "rules.json"));
+    notifications = await readOptionalJson(path.join(dir, "notifications.json"));
 
     const configJsonb = {
       serviceKey: service.serviceKey,
@@ -86,6 +88,7 @@ async function seedServiceVersions() {
       documents,
       feeSchedule,
       rules,
+      notifications,
     };
 
     await query(
@@ -187,6 +190,22 @@ async function seedDesignationsAndMappings() {
       [authId, desigId, roleId]
     );
   }
+  // Reporting line: NOTIFY escalations go to the designation above the task holder
+  const reportingLines: [string, string][] = [
+    ["PUDA_CLERK",     "PUDA_SUPT"],
+    ["PUDA_SR_ASST",   "PUDA_ACCT_OFF"],
+    ["PUDA_ACCT_OFF",  "PUDA_ESTATE_OFF"],
+    ["PUDA_JR_ENG",    "PUDA_SDO"],
+    ["PUDA_SDO",       "PUDA_ESTATE_OFF"],
+    ["PUDA_DRAFTSMAN", "PUDA_SUPT"],
+    ["PUDA_SUPT",      "PUDA_ESTATE_OFF"],
+  ];
+  for (const [desigId, reportsToId] of reportingLines) {
+    await query(
+      `UPDATE designation SET reports_to_designation_id = $2 WHERE designation_id = $1`,
+      [desigId, reportsToId]
+    );
+  }
   console.log("Designations and role mappings seeded (8 designations for PUDA).");
 }
 
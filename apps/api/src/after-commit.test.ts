@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from "vitest";
+import type pg from "pg";
+import { discardAfterCommit, queueAfterCommit, runAfterCommit } from "./after-commit";
+
+describe("after-commit queue", () => {
+  it("runs queued work once, and drops it after a rollback", async () => {
+    const client = {} as pg.PoolClient;
+    const task = vi.fn(async () => {});
+
+    queueAfterCommit(client, task);
+    await runAfterCommit(client);
+    await runAfterCommit(client);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    queueAfterCommit(client, task);
+    discardAfterCommit(client);
+    await runAfterCommit(client);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps running the queue when one task fails", async () => {
+    const client = {} as pg.PoolClient;
+    const next = vi.fn(async () => {});
+
+    queueAfterCommit(client, async () => {
+      throw new Error("socket closed");
+    });
+    queueAfterCommit(client, next);
+    await runAfterCommit(client);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
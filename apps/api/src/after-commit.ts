@@ -0,0 +1,39 @@
+/**
+ * Work deferred until a transaction commits.
+ *
+ * Side effects must not run while the transaction still holds its row locks
+ * (or at all if it rolls back): live events, outbox dispatch and similar work
+ * is queued on the pooled client and run by whoever commits it. Durable side
+ * effects go through the outbox, which dispatches from here.
+ *
+ *   BEGIN; discardAfterCommit(client) ... queueAfterCommit(client, task) ...
+ *   COMMIT; await runAfterCommit(client)
+ */
+import type pg from "pg";
+import { logWarn } from "./logger";
+
+const afterCommitQueues = new WeakMap<pg.PoolClient, Array<() => Promise<void>>>();
+
+export function queueAfterCommit(client: pg.PoolClient, task: () => Promise<void>): void {
+  const queue = afterCommitQueues.get(client) || [];
+  queue.push(task);
+  afterCommitQueues.set(client, queue);
+}
+
+/** Run work queued on the client; call right after the transaction commits. */
+export async function runAfterCommit(client: pg.PoolClient): Promise<void> {
+  const queue = afterCommitQueues.get(client) || [];
+  afterCommitQueues.delete(client);
+  for (const task of queue) {
+    try {
+      await task();
+    } catch (error: any) {
+      logWarn("After-commit work failed", { error: error?.message || "unknown_error" });
+    }
+  }
+}
+
+/** Drop queued work after a rollback (clients are pooled and reused). */
+export function discardAfterCommit(client: pg.PoolClient): void {
+  afterCommitQueues.delete(client);
+}
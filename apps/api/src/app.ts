@@ -12,7 +12,10 @@ import {
   isServicePackNotFoundError,
   loadServiceConfig,
   loadServicePacks,
+  validateAllServicePackFees,
   validateAllServicePackForms,
+  validateAllServicePackNotifications,
+  validateAllServicePackWorkflows,
 } from "./service-packs";
 import { isPublicRoutePath, registerAuthMiddleware } from "./middleware/auth";
 import { registerAuthRoutes } from "./routes/auth.routes";
@@ -32,6 +35,11 @@ import { registerComplaintRoutes } from "./routes/complaint.routes";
 import { registerAIRoutes } from "./routes/ai.routes";
 import { registerInternalJobRoutes } from "./routes/internal-jobs.routes";
 import { startSLAChecker } from "./sla-checker";
+import { startWorkflowTimerJob } from "./workflow-timers";
+import { startOutputJobWorker } from "./output-jobs";
+import { startWebhookDeliveryWorker } from "./webhooks";
+import { startOutboxWorker } from "./outbox";
+import { startDeferredNotificationJob } from "./notification-deferred";
 import { startClientTelemetryRetentionJob } from "./telemetry-retention";
 import { registerTransport } from "./notifications";
 import { createEmailTransport } from "./transports/email";
@@ -42,6 +50,7 @@ import { cleanupExpiredRevocations } from "./token-security";
 import { evaluateRuntimeAdapterPreflight, runRuntimeAdapterPreflightOrThrow } from "./runtime-adapter-preflight";
 import { setDistributedCache } from "./feature-flags";
 import { createRedisCache, disconnectRedis } from "./providers/redis";
+import { startLiveEventFanout, stopLiveEvents } from "./live-events";
 import { send400, sendError } from "./errors";
 import { logError } from "./logger";
 import { setLogContext } from "./log-context";
@@ -229,6 +238,8 @@ function hasStrictRouteSchemaSection(
 const GET_ROUTES_REQUIRING_STRICT_QUERY_SCHEMA = new Set([
   "/api/v1/config/services",
   "/api/v1/tasks/inbox",
+  "/api/v1/tasks/escalated",
+  "/api/v1/tasks/delegations",
   "/api/v1/applications",
   "/api/v1/applications/stats",
   "/api/v1/applications/pending-actions",
@@ -261,6 +272,9 @@ async function runServicePackPreflight(): Promise<void> {
   // Validate all form.json field types against the FormRenderer's supported types.
   // This catches "field type X is not renderable" errors at boot, not at runtime.
   await validateAllServicePackForms();
+  await validateAllServicePackWorkflows();
+  await validateAllServicePackNotifications();
+  await validateAllServicePackFees();
 }
 
 /** Build and return the Fastify app with all routes (no listen). Used by server and tests. */
@@ -822,6 +836,12 @@ export async function buildApp(logger = true): Promise<FastifyInstance> {
     } catch (error) {
       app.log.warn({ error }, "Redis connection failed — falling back to local cache only");
     }
+    // Live events reach streams on other instances through Redis pub/sub
+    try {
+      await startLiveEventFanout();
+    } catch (error) {
+      app.log.warn({ error }, "Live event fan-out unavailable — live events reach this instance's streams only");
+    }
   }
 
   // ARC-016: Periodic jobs — use setInterval fallback only when INTERNAL_JOB_SECRET
@@ -837,6 +857,26 @@ export async function buildApp(logger = true): Promise<FastifyInstance> {
     const slaIntervalMs = parseInt(process.env.SLA_CHECK_INTERVAL_MS || "1800000");
     startSLAChecker(slaIntervalMs);
 
+    // Timer-driven workflow transitions (every 15 minutes)
+    const workflowTimerIntervalMs = parseInt(process.env.WORKFLOW_TIMER_INTERVAL_MS || "900000");
+    startWorkflowTimerJob(workflowTimerIntervalMs);
+
+    // Transactional outbox dispatch retries (every 30 seconds)
+    const outboxIntervalMs = parseInt(process.env.OUTBOX_INTERVAL_MS || "30000");
+    startOutboxWorker(outboxIntervalMs);
+
+    // Queued output generation retries (every minute)
+    const outputJobIntervalMs = parseInt(process.env.OUTPUT_JOB_INTERVAL_MS || "60000");
+    startOutputJobWorker(outputJobIntervalMs);
+
+    // Outbound webhook delivery retries (every minute)
+    const webhookDeliveryIntervalMs = parseInt(process.env.WEBHOOK_DELIVERY_INTERVAL_MS || "60000");
+    startWebhookDeliveryWorker(webhookDeliveryIntervalMs);
+
+    // Quiet-hours SMS and notification digests (every 5 minutes)
+    const deferredNotificationIntervalMs = parseInt(process.env.DEFERRED_NOTIFICATION_INTERVAL_MS || "300000");
+    startDeferredNotificationJob(deferredNotificationIntervalMs);
+
     // Client telemetry retention
     if (process.env.NODE_ENV !== "test") {
       startClientTelemetryRetentionJob();
@@ -940,6 +980,11 @@ export async function buildApp(logger = true): Promise<FastifyInstance> {
     }
   }
 
+  // Open event streams would hold the server open; end them before it closes
+  app.addHook("preClose", async () => {
+    await stopLiveEvents();
+  });
+
   app.addHook("onClose", async () => {
     if (workflowBacklogTimer) {
       clearInterval(workflowBacklogTimer);
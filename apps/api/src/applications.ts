@@ -1,12 +1,17 @@
 import { query, getClient } from "./db";
 import { v4 as uuidv4 } from "uuid";
 import { executeTransition } from "./workflow";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+import { enqueueOutboxEntry } from "./outbox";
+import { enqueueWebhookEvent } from "./webhooks";
 import { validateForSubmission, CURRENT_SCHEMA_VERSION } from "@puda/shared";
 import { upsertPropertyFromApplication } from "./properties";
 import type { PoolClient } from "pg";
 import { ensureApplicantProfileComplete } from "./profile";
 import { logWarn } from "./logger";
 import { resolveActiveVersion } from "./service-version";
+import { evaluateLogic, type RuleDefinition } from "./rule-logic";
+import { csvCell } from "./csv";
 
 export interface Application {
   arn: string;
@@ -22,6 +27,8 @@ export interface Application {
   submitted_at?: Date;
   disposed_at?: Date;
   disposal_type?: string;
+  /** Queued certificate/order generation (output-jobs.ts); null when none was queued. */
+  output_status?: "PENDING" | "GENERATED" | "FAILED" | null;
   sla_due_at?: Date;
   sla_paused_at?: Date;
   submission_channel?: string;
@@ -72,12 +79,6 @@ function collectLeafKeys(value: any, prefix = ""): string[] {
   return keys;
 }
 
-type RuleDefinition = {
-  ruleId: string;
-  description?: string;
-  logic: any;
-};
-
 type SubmissionValidationMode = "warn" | "enforce";
 
 type ServiceConfig = {
@@ -101,64 +102,6 @@ function getSubmissionValidationPolicy(config: ServiceConfig): {
   };
 }
 
-function getVarValue(context: any, path: string | undefined, defaultValue?: any): any {
-  if (!path) return defaultValue;
-  const parts = path.split(".");
-  let current = context;
-  for (const part of parts) {
-    if (current == null) return defaultValue;
-    current = current[part];
-  }
-  return current === undefined ? defaultValue : current;
-}
-
-function evaluateLogic(logic: any, context: any): any {
-  if (logic === null || logic === undefined) return logic;
-  if (Array.isArray(logic)) {
-    return logic.map((item) => evaluateLogic(item, context));
-  }
-  if (typeof logic !== "object") {
-    return logic;
-  }
-  const entries = Object.entries(logic);
-  if (entries.length === 0) return false;
-  const [op, value] = entries[0];
-  switch (op) {
-    case "var": {
-      if (Array.isArray(value)) {
-        return getVarValue(context, value[0], value[1]);
-      }
-      return getVarValue(context, value as string);
-    }
-    case "==": {
-      const [a, b] = value as any[];
-      return evaluateLogic(a, context) == evaluateLogic(b, context);
-    }
-    case "!=": {
-      const [a, b] = value as any[];
-      return evaluateLogic(a, context) != evaluateLogic(b, context);
-    }
-    case "and": {
-      const list = (value as any[]).map((v) => evaluateLogic(v, context));
-      for (const item of list) {
-        if (!item) return item;
-      }
-      return list[list.length - 1];
-    }
-    case "or": {
-      const list = (value as any[]).map((v) => evaluateLogic(v, context));
-      for (const item of list) {
-        if (item) return item;
-      }
-      return list[list.length - 1];
-    }
-    case "not":
-      return !evaluateLogic(value, context);
-    default:
-      return false;
-  }
-}
-
 async function loadServiceConfig(
   serviceKey: string,
   serviceVersion: string,
@@ -300,7 +243,7 @@ export async function createApplication(
 
 export async function getApplication(arn: string): Promise<Application | null> {
   const result = await query(
-    "SELECT arn, public_arn, service_key, service_version, authority_id, applicant_user_id, state_id, data_jsonb, row_version, created_at, submitted_at, disposed_at, disposal_type, sla_due_at, sla_paused_at, submission_channel, assisted_by_user_id FROM application WHERE arn = $1 OR public_arn = $1",
+    "SELECT arn, public_arn, service_key, service_version, authority_id, applicant_user_id, state_id, data_jsonb, row_version, created_at, submitted_at, disposed_at, disposal_type, output_status, sla_due_at, sla_paused_at, submission_channel, assisted_by_user_id FROM application WHERE arn = $1 OR public_arn = $1",
     [arn]
   );
   
@@ -323,6 +266,7 @@ export async function getApplication(arn: string): Promise<Application | null> {
     submitted_at: row.submitted_at,
     disposed_at: row.disposed_at,
     disposal_type: row.disposal_type,
+    output_status: row.output_status,
     sla_due_at: row.sla_due_at,
     sla_paused_at: row.sla_paused_at,
     submission_channel: row.submission_channel,
@@ -429,6 +373,7 @@ export async function submitApplication(
   const client = await getClient();
   try {
     await client.query("BEGIN");
+    discardAfterCommit(client);
 
     await validateRequiredDocuments(app.arn, serviceConfig, { data: app.data_jsonb }, client);
 
@@ -488,8 +433,12 @@ export async function submitApplication(
     if (!assignResult.success && assignResult.error !== "TRANSITION_NOT_FOUND") {
       throw new Error(assignResult.error || "ASSIGN_CLERK_FAILED");
     }
+
+    await enqueueOutboxEntry(client, "NOTIFY", { event: "APPLICATION_SUBMITTED", arn: submittedArn }, app.arn);
+    await enqueueWebhookEvent(client, "APPLICATION_SUBMITTED", app.arn);
     
     await client.query("COMMIT");
+    await runAfterCommit(client);
     
     return { arn: app.arn, submittedArn };
   } catch (error) {
@@ -521,6 +470,7 @@ export async function respondToQuery(
   const client = await getClient();
   try {
     await client.query("BEGIN");
+    discardAfterCommit(client);
 
     const queryResult = await client.query(
       "SELECT status, unlocked_field_keys FROM query WHERE query_id = $1 AND arn = $2",
@@ -583,8 +533,19 @@ export async function respondToQuery(
     if (!routeResult.success && routeResult.error !== "TRANSITION_NOT_FOUND") {
       throw new Error(routeResult.error || "RESUBMIT_ROUTE_FAILED");
     }
+
+    const displayArn = app.public_arn || internalArn;
+    await enqueueOutboxEntry(client, "NOTIFY", { event: "QUERY_RESPONDED", arn: displayArn }, internalArn);
+    // Services that list it also tell the officers the application is back with them
+    await enqueueOutboxEntry(
+      client,
+      "NOTIFY",
+      { event: "APPLICATION_RESUBMITTED", arn: displayArn, listedOnly: true },
+      internalArn
+    );
     
     await client.query("COMMIT");
+    await runAfterCommit(client);
   } catch (error) {
     await client.query("ROLLBACK");
     throw error;
@@ -599,7 +560,7 @@ export async function getUserApplications(
   limit: number = 50,
   offset: number = 0
 ): Promise<Application[]> {
-  let sql = "SELECT arn, public_arn, service_key, service_version, authority_id, applicant_user_id, state_id, data_jsonb, row_version, created_at, submitted_at, disposed_at, disposal_type, sla_due_at, sla_paused_at FROM application WHERE applicant_user_id = $1";
+  let sql = "SELECT arn, public_arn, service_key, service_version, authority_id, applicant_user_id, state_id, data_jsonb, row_version, created_at, submitted_at, disposed_at, disposal_type, output_status, sla_due_at, sla_paused_at FROM application WHERE applicant_user_id = $1";
   const params: any[] = [userId];
   
   if (status) {
@@ -627,6 +588,7 @@ export async function getUserApplications(
     submitted_at: row.submitted_at,
     disposed_at: row.disposed_at,
     disposal_type: row.disposal_type,
+    output_status: row.output_status,
     sla_due_at: row.sla_due_at,
     sla_paused_at: row.sla_paused_at
   }));
@@ -669,7 +631,7 @@ export async function searchApplications(
     SELECT 
       arn, public_arn, service_key, service_version, authority_id, applicant_user_id, 
       state_id, data_jsonb, row_version, created_at, submitted_at, disposed_at, 
-      disposal_type, sla_due_at, sla_paused_at, submission_channel, assisted_by_user_id
+      disposal_type, output_status, sla_due_at, sla_paused_at, submission_channel, assisted_by_user_id
     FROM application
     WHERE 1=1
   `;
@@ -722,6 +684,7 @@ export async function searchApplications(
     submitted_at: row.submitted_at,
     disposed_at: row.disposed_at,
     disposal_type: row.disposal_type,
+    output_status: row.output_status,
     sla_due_at: row.sla_due_at,
     sla_paused_at: row.sla_paused_at
   }));
@@ -783,24 +746,15 @@ export async function exportApplicationsToCSV(
   const { Readable } = await import("stream");
   const headers = ["ARN","Service Key","Authority ID","Applicant Name","UPN","Plot No","Scheme Name","Status","Created At","Submitted At","Disposed At","Disposal Type"];
 
-  function esc(v: string): string {
-    const value = String(v ?? "");
-    // Prevent CSV formula execution when opened in spreadsheet software.
-    const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
-    return safeValue.includes(",") || safeValue.includes('"') || safeValue.includes("\n")
-      ? `"${safeValue.replace(/"/g, '""')}"`
-      : safeValue;
-  }
-
   function rowToCsv(row: any): string {
     return [
-      esc(row.arn), esc(row.service_key), esc(row.authority_id),
-      esc(row.applicant_name), esc(row.upn), esc(row.plot_no), esc(row.scheme_name),
-      esc(row.state_id),
+      csvCell(row.arn), csvCell(row.service_key), csvCell(row.authority_id),
+      csvCell(row.applicant_name), csvCell(row.upn), csvCell(row.plot_no), csvCell(row.scheme_name),
+      csvCell(row.state_id),
       row.created_at ? new Date(row.created_at).toISOString() : "",
       row.submitted_at ? new Date(row.submitted_at).toISOString() : "",
       row.disposed_at ? new Date(row.disposed_at).toISOString() : "",
-      esc(row.disposal_type),
+      csvCell(row.disposal_type),
     ].join(",");
   }
 
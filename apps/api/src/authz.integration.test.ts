@@ -490,6 +490,29 @@ describe("Authorization Integration - Hardened Routes", () => {
     expectBadRequest(res, "FEE_ITEMS_MISMATCH_WITH_SCHEDULE");
   });
 
+  it("previews the fee items an assessment must submit", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/v1/fees/calculate",
+      headers: authHeader(officer1Token),
+      payload: { arn: pudaArn },
+    });
+    expect(res.statusCode).toBe(200);
+    const body = JSON.parse(res.payload);
+    expect(body.items.length).toBeGreaterThan(0);
+    expect(body.items[0]).toMatchObject({ currency: "INR", calculationInputs: { method: expect.any(String) } });
+  });
+
+  it("denies cross-authority officer fee calculation", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/v1/fees/calculate",
+      headers: authHeader(officer1Token),
+      payload: { arn: gmadaArn },
+    });
+    expectForbidden(res);
+  });
+
   it("rejects malformed login payload with unknown fields", async () => {
     const res = await app.inject({
       method: "POST",
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { amountInWords, formatChallanNumber, getChallanValidityDays } from "./challans";
+
+describe("challan helpers", () => {
+  const originalValidity = process.env.CHALLAN_VALIDITY_DAYS;
+
+  afterEach(() => {
+    if (originalValidity === undefined) delete process.env.CHALLAN_VALIDITY_DAYS;
+    else process.env.CHALLAN_VALIDITY_DAYS = originalValidity;
+  });
+
+  it("formats short alphanumeric challan numbers that fit MT940 references", () => {
+    expect(formatChallanNumber(2026, 123)).toBe("CHL20260000123");
+    expect(formatChallanNumber(2026, "9876543")).toBe("CHL20269876543");
+    expect(formatChallanNumber(2026, 1).length).toBeLessThanOrEqual(16);
+  });
+
+  it("spells amounts in Indian numbering", () => {
+    expect(amountInWords(2950)).toBe("Rupees Two Thousand Nine Hundred Fifty Only");
+    expect(amountInWords(150000.5)).toBe("Rupees One Lakh Fifty Thousand and Fifty Paise Only");
+    expect(amountInWords(12_345_678)).toBe(
+      "Rupees One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight Only"
+    );
+    expect(amountInWords(0.75)).toBe("Rupees Zero and Seventy Five Paise Only");
+  });
+
+  it("reads the validity window from CHALLAN_VALIDITY_DAYS", () => {
+    delete process.env.CHALLAN_VALIDITY_DAYS;
+    expect(getChallanValidityDays()).toBe(15);
+    process.env.CHALLAN_VALIDITY_DAYS = "30";
+    expect(getChallanValidityDays()).toBe(30);
+    process.env.CHALLAN_VALIDITY_DAYS = "-2";
+    expect(getChallanValidityDays()).toBe(15);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Fee challans — printable pay-in slips for paying a fee demand offline at a
+ * bank branch or the authority's counter.
+ *
+ * A challan covers the outstanding balance of one demand (on an installment
+ * plan, what is payable now — see installments.ts) and is valid for
+ * CHALLAN_VALIDITY_DAYS (default 15). Each demand has at most one ACTIVE
+ * challan; generating again returns it while it still covers the balance,
+ * otherwise it is superseded (CANCELLED). The counter clerk posts the deposit
+ * against the challan number and the demand is credited when that posting is
+ * verified (see postOfflinePayment / verifyOfflinePayment in payments.ts).
+ *
+ * Challan numbers are CHL + year + a 7-digit sequence, e.g. CHL20260000123:
+ * alphanumeric and short enough to survive MT940 reference fields, so bank
+ * statements match them back as instrument numbers (payment-reconciliation.ts).
+ */
+import { v4 as uuidv4 } from "uuid";
+import QRCode from "qrcode";
+import { getClient, query } from "./db";
+import { getInstallmentOutstanding } from "./installments";
+import { drawAuthorityLetterhead, renderPdfDocument } from "./outputs";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ChallanStatus = "ACTIVE" | "PAID" | "EXPIRED" | "CANCELLED";
+
+export interface FeeChallan {
+  challan_id: string;
+  challan_number: string;
+  demand_id: string;
+  arn: string;
+  amount: number;
+  /** ACTIVE challans past valid_until read as EXPIRED. */
+  status: ChallanStatus;
+  valid_until: string;
+  generated_by_user_id: string | null;
+  created_at: Date;
+  paid_at: Date | null;
+}
+
+const DEFAULT_CHALLAN_VALIDITY_DAYS = 15;
+const MONEY_EPSILON = 0.000001;
+
+export function getChallanValidityDays(): number {
+  const configured = Number.parseInt(process.env.CHALLAN_VALIDITY_DAYS || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CHALLAN_VALIDITY_DAYS;
+}
+
+export function formatChallanNumber(year: number, sequence: number | string): string {
+  return `CHL${year}${String(sequence).padStart(7, "0")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Amount in words (Indian numbering)
+// ---------------------------------------------------------------------------
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function belowThousand(n: number): string {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(ONES[Math.floor(n / 100)], "Hundred");
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(TENS[Math.floor(n / 10)]);
+    n %= 10;
+  }
+  if (n > 0) words.push(ONES[n]);
+  return words.join(" ");
+}
+
+function integerInWords(n: number): string {
+  if (n === 0) return "Zero";
+  const parts: string[] = [];
+  for (const [unit, size] of [["Crore", 10_000_000], ["Lakh", 100_000], ["Thousand", 1_000]] as const) {
+    if (n >= size) {
+      parts.push(`${integerInWords(Math.floor(n / size))} ${unit}`);
+      n %= size;
+    }
+  }
+  if (n > 0) parts.push(belowThousand(n));
+  return parts.join(" ");
+}
+
+/** "Rupees Two Thousand Nine Hundred Fifty and Fifty Paise Only" */
+export function amountInWords(amount: number): string {
+  const paise = Math.round(amount * 100);
+  const rupees = Math.floor(paise / 100);
+  const remainder = paise % 100;
+  const words = `Rupees ${integerInWords(rupees)}`;
+  return remainder > 0 ? `${words} and ${belowThousand(remainder)} Paise Only` : `${words} Only`;
+}
+
+// ---------------------------------------------------------------------------
+// CRUD
+// ---------------------------------------------------------------------------
+
+const CHALLAN_SELECT = `
+  SELECT c.*, c.valid_until::text AS valid_until_text,
+         CASE WHEN c.status = 'ACTIVE' AND c.valid_until < CURRENT_DATE THEN 'EXPIRED' ELSE c.status END AS effective_status
+  FROM fee_challan c`;
+
+/**
+ * Generate (or return the still-valid) challan for a demand's outstanding
+ * balance. Fails while an offline posting against the active challan awaits
+ * verification, since the balance it covers is already spoken for.
+ */
+export async function generateChallan(
+  demandId: string,
+  generatedBy: { userId: string; actorType: "CITIZEN" | "OFFICER" }
+): Promise<FeeChallan> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+
+    const demandResult = await client.query(
+      "SELECT demand_id, arn, total_amount, paid_amount, status FROM fee_demand WHERE demand_id = $1 FOR UPDATE",
+      [demandId]
+    );
+    if (demandResult.rows.length === 0) {
+      throw new Error("DEMAND_NOT_FOUND");
+    }
+    const demand = demandResult.rows[0];
+    if (demand.status !== "PENDING" && demand.status !== "PARTIALLY_PAID") {
+      throw new Error("DEMAND_NOT_PAYABLE");
+    }
+    const plan = await getInstallmentOutstanding(client, demandId);
+    const balance = plan ? plan.payableNow : Number(demand.total_amount) - Number(demand.paid_amount);
+    if (balance <= MONEY_EPSILON) {
+      throw new Error("DEMAND_ALREADY_PAID");
+    }
+
+    const activeResult = await client.query(
+      `${CHALLAN_SELECT} WHERE c.demand_id = $1 AND c.status = 'ACTIVE' FOR UPDATE`,
+      [demandId]
+    );
+    const active = activeResult.rows[0];
+    if (active) {
+      const pending = await client.query(
+        "SELECT 1 FROM payment WHERE challan_id = $1 AND status = 'INITIATED' LIMIT 1",
+        [active.challan_id]
+      );
+      if (pending.rows.length > 0) {
+        throw new Error("CHALLAN_PAYMENT_PENDING");
+      }
+      if (active.effective_status === "ACTIVE" && Math.abs(Number(active.amount) - balance) <= MONEY_EPSILON) {
+        await client.query("COMMIT");
+        return rowToChallan(active);
+      }
+      await client.query(
+        "UPDATE fee_challan SET status = $2 WHERE challan_id = $1",
+        [active.challan_id, active.effective_status === "EXPIRED" ? "EXPIRED" : "CANCELLED"]
+      );
+    }
+
+    const seqResult = await client.query("SELECT nextval('challan_seq') AS seq, EXTRACT(YEAR FROM CURRENT_DATE)::int AS year");
+    const challanId = uuidv4();
+    const challanNumber = formatChallanNumber(seqResult.rows[0].year, seqResult.rows[0].seq);
+    await client.query(
+      `INSERT INTO fee_challan
+         (challan_id, challan_number, demand_id, arn, amount, status, valid_until, generated_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, 'ACTIVE', CURRENT_DATE + $6::int, $7)`,
+      [challanId, challanNumber, demandId, demand.arn, balance, getChallanValidityDays(), generatedBy.userId]
+    );
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, 'CHALLAN_GENERATED', $3, $4, $5)",
+      [
+        uuidv4(),
+        demand.arn,
+        generatedBy.actorType,
+        generatedBy.userId,
+        JSON.stringify({ challanId, challanNumber, demandId, amount: balance, supersededChallanId: active?.challan_id ?? null }),
+      ]
+    );
+
+    await client.query("COMMIT");
+    return (await getChallanById(challanId))!;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getChallanById(challanId: string): Promise<FeeChallan | null> {
+  const result = await query(`${CHALLAN_SELECT} WHERE c.challan_id = $1`, [challanId]);
+  return result.rows.length > 0 ? rowToChallan(result.rows[0]) : null;
+}
+
+export async function getChallansForDemand(demandId: string): Promise<FeeChallan[]> {
+  const result = await query(`${CHALLAN_SELECT} WHERE c.demand_id = $1 ORDER BY c.created_at DESC`, [demandId]);
+  return result.rows.map(rowToChallan);
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+function formatRupees(amount: number): string {
+  return `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/** Render the challan as an A4 PDF (rendered on demand, not stored). */
+export async function renderChallanPdf(challanId: string): Promise<{ challan: FeeChallan; buffer: Buffer } | null> {
+  const challan = await getChallanById(challanId);
+  if (!challan) return null;
+
+  const detailResult = await query(
+    `SELECT a.public_arn, a.data_jsonb, a.authority_id, au.name AS authority_name,
+            s.name AS service_name, a.service_key, d.demand_number
+     FROM application a
+     JOIN fee_demand d ON d.demand_id = $2
+     LEFT JOIN authority au ON au.authority_id = a.authority_id
+     LEFT JOIN service s ON s.service_key = a.service_key
+     WHERE a.arn = $1`,
+    [challan.arn, challan.demand_id]
+  );
+  const detail = detailResult.rows[0] || {};
+  const data = detail.data_jsonb || {};
+  const lineResult = await query(
+    `SELECT fli.fee_head_code, fli.description, fli.amount
+     FROM fee_line_item fli
+     JOIN fee_demand_line fdl ON fdl.line_item_id = fli.line_item_id
+     WHERE fdl.demand_id = $1 ORDER BY fli.created_at`,
+    [challan.demand_id]
+  );
+
+  let qrDataUrl = "";
+  try {
+    qrDataUrl = await QRCode.toDataURL(
+      JSON.stringify({ challanNumber: challan.challan_number, arn: detail.public_arn || challan.arn, amount: challan.amount, validUntil: challan.valid_until }),
+      { width: 120, margin: 1 }
+    );
+  } catch {}
+
+  const fields: Array<[string, string]> = [
+    ["Challan No.", challan.challan_number],
+    ["Generated On", challan.created_at.toISOString().slice(0, 10)],
+    ["Valid Until", challan.valid_until],
+    ["Application Reference", detail.public_arn || challan.arn],
+    ["Service", detail.service_name || detail.service_key || "—"],
+    ["Applicant Name", data.applicant?.full_name || data.applicant?.name || "—"],
+    ["Demand No.", detail.demand_number || challan.demand_id],
+  ];
+
+  const buffer = await renderPdfDocument((doc, pageWidth) => {
+    drawAuthorityLetterhead(doc, detail.authority_name || detail.authority_id || "PUDA", pageWidth);
+
+    doc.fontSize(14).font("Helvetica-Bold").fillColor("#0f1f33").text("FEE CHALLAN", { align: "center" });
+    doc.fontSize(9).font("Helvetica").fillColor("#334155").text("Deposit at any authorised bank branch or the authority counter", { align: "center" });
+    doc.moveDown(1);
+
+    for (const [label, value] of fields) {
+      const y = doc.y;
+      doc.fontSize(10).font("Helvetica-Bold").fillColor("#1e293b").text(`${label}:`, 50, y, { width: 160 });
+      doc.font("Helvetica").fillColor("#0f172a").text(value, 210, y, { width: pageWidth - 160 });
+      doc.moveDown(0.2);
+    }
+
+    doc.moveDown(0.8);
+    doc.fontSize(11).font("Helvetica-Bold").fillColor("#0f1f33").text("Fee Details", 50);
+    doc.moveDown(0.3);
+    doc.moveTo(50, doc.y).lineTo(50 + pageWidth, doc.y).stroke("#ccc");
+    doc.moveDown(0.3);
+    for (const line of lineResult.rows) {
+      const y = doc.y;
+      doc.fontSize(10).font("Helvetica").fillColor("#0f172a").text(line.description || line.fee_head_code, 50, y, { width: pageWidth - 130 });
+      doc.text(formatRupees(Number(line.amount)), 50 + pageWidth - 120, y, { width: 120, align: "right" });
+      doc.moveDown(0.2);
+    }
+    doc.moveTo(50, doc.y).lineTo(50 + pageWidth, doc.y).stroke("#ccc");
+    doc.moveDown(0.3);
+    const totalY = doc.y;
+    doc.font("Helvetica-Bold").text("Amount Payable", 50, totalY, { width: pageWidth - 130 });
+    doc.text(formatRupees(challan.amount), 50 + pageWidth - 120, totalY, { width: 120, align: "right" });
+    doc.moveDown(0.3);
+    doc.font("Helvetica").fontSize(9).fillColor("#334155").text(`(${amountInWords(challan.amount)})`, 50);
+
+    // Filled in by the bank or counter on receipt
+    doc.moveDown(1.5);
+    doc.fontSize(11).font("Helvetica-Bold").fillColor("#0f1f33").text("For Bank / Counter Use", 50);
+    doc.moveDown(0.5);
+    doc.fontSize(10).font("Helvetica").fillColor("#0f172a");
+    for (const label of ["Mode (Cash / DD / NEFT)", "Instrument / UTR No.", "Bank & Branch", "Date of Deposit"]) {
+      const y = doc.y;
+      doc.text(`${label}:`, 50, y, { width: 160 });
+      doc.moveTo(210, y + 10).lineTo(50 + pageWidth, y + 10).stroke("#94a3b8");
+      doc.moveDown(0.9);
+    }
+    doc.moveDown(1.5);
+    doc.moveTo(50 + pageWidth - 200, doc.y).lineTo(50 + pageWidth, doc.y).stroke("#333");
+    doc.moveDown(0.3);
+    doc.fontSize(8).fillColor("#334155").text("(Receiving Officer's Signature & Stamp)", 50 + pageWidth - 200, doc.y, { width: 200, align: "center" });
+
+    if (qrDataUrl) {
+      try {
+        doc.image(qrDataUrl, 50, doc.page.height - 140, { width: 80, height: 80 });
+      } catch {
+        // QR code rendering failed, skip
+      }
+    }
+    doc.fontSize(7).font("Helvetica").fillColor("#334155").text(
+      `Quote challan number ${challan.challan_number} on the deposit. Not valid after ${challan.valid_until}.`,
+      50, doc.page.height - 40, { width: pageWidth, align: "center" }
+    );
+  });
+
+  return { challan, buffer };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function rowToChallan(row: any): FeeChallan {
+  return {
+    challan_id: row.challan_id,
+    challan_number: row.challan_number,
+    demand_id: row.demand_id,
+    arn: row.arn,
+    amount: Number(row.amount),
+    status: (row.effective_status ?? row.status) as ChallanStatus,
+    valid_until: row.valid_until_text,
+    generated_by_user_id: row.generated_by_user_id,
+    created_at: row.created_at,
+    paid_at: row.paid_at,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * CSV cells for exports opened in spreadsheet software.
+ */
+
+/**
+ * One CSV cell: null and undefined become empty, text that a spreadsheet would
+ * run as a formula is prefixed with an apostrophe, and cells holding quotes,
+ * commas or line breaks are quoted.
+ */
+export function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
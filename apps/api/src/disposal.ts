@@ -0,0 +1,48 @@
+/**
+ * Post-decision disposal: once an application reaches APPROVED or REJECTED,
+ * run the system CLOSE_* transition. Its GENERATE_OUTPUT_* action queues the
+ * certificate/order, which output-jobs.ts generates and issues to the
+ * citizen's locker after commit.
+ *
+ * Shared by officer task actions and timer-driven transitions.
+ */
+import * as applications from "./applications";
+import * as outputs from "./outputs";
+import { executeTransition } from "./workflow";
+import { logWarn } from "./logger";
+
+export function isDecisionState(stateId?: string): stateId is "APPROVED" | "REJECTED" {
+  return stateId === "APPROVED" || stateId === "REJECTED";
+}
+
+export async function finalizeDisposal(
+  arn: string,
+  decisionState: "APPROVED" | "REJECTED"
+): Promise<void> {
+  const appRecord = await applications.getApplication(arn);
+  if (!appRecord) return;
+
+  const resolved = await outputs.resolveTemplateIdForDecisionState(
+    appRecord.service_key,
+    appRecord.service_version,
+    decisionState
+  );
+  if (!resolved.templateId) {
+    logWarn("No output will be generated: no workflow output action resolved", {
+      arn: appRecord.arn,
+      serviceKey: appRecord.service_key,
+      decision: decisionState,
+      outputAction: resolved.outputAction,
+    });
+  }
+
+  const closeTx = decisionState === "APPROVED" ? "CLOSE_APPROVED" : "CLOSE_REJECTED";
+  try {
+    const closeResult = await executeTransition(appRecord.arn, closeTx, "system", "SYSTEM", []);
+    if (!closeResult.success && closeResult.error !== "TRANSITION_NOT_FOUND") {
+      logWarn("Close transition failed", { arn, error: closeResult.error });
+    }
+  } catch (e: any) {
+    logWarn("Close transition failed", { arn, error: e?.message || "unknown_error" });
+  }
+}
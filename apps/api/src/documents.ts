@@ -1,6 +1,7 @@
 import { query, getClient } from "./db";
 import { v4 as uuidv4 } from "uuid";
 import crypto from "crypto";
+import type { PoolClient } from "pg";
 import { Readable } from "stream";
 import { getStorage, streamToStorageWithValidation } from "./storage";
 import path from "path";
@@ -576,22 +577,26 @@ export async function issueCitizenDocument(
   sizeBytes: number,
   sourceArn: string,
   validFrom?: string | null,
-  validUntil?: string | null
+  validUntil?: string | null,
+  client?: PoolClient
 ): Promise<CitizenDocument> {
-  const existingResult = await query(
+  const run = client
+    ? (text: string, params?: unknown[]) => client.query(text, params)
+    : query;
+  const existingResult = await run(
     "SELECT citizen_version FROM citizen_document WHERE user_id = $1 AND doc_type_id = $2 ORDER BY citizen_version DESC LIMIT 1",
     [userId, docTypeId]
   );
   const citizenVersion = existingResult.rows.length > 0 ? existingResult.rows[0].citizen_version + 1 : 1;
 
   // Mark previous versions as not current
-  await query(
+  await run(
     "UPDATE citizen_document SET is_current = FALSE WHERE user_id = $1 AND doc_type_id = $2",
     [userId, docTypeId]
   );
 
   const citizenDocId = uuidv4();
-  await query(
+  await run(
     `INSERT INTO citizen_document (citizen_doc_id, user_id, doc_type_id, citizen_version, storage_key, original_filename, mime_type, size_bytes, is_current, valid_from, valid_until, status, origin, source_arn)
      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, TRUE, $9, $10, 'VALID', 'issued', $11)`,
     [citizenDocId, userId, docTypeId, citizenVersion, storageKey, filename, mimeType, sizeBytes, validFrom || null, validUntil || null, sourceArn]
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateFeeLine,
+  feeLineProblems,
+  FeeFormulaError,
+  lintFeeSchedule,
+  resolveFeeInput,
+  type FeeLineConfig,
+} from "./fee-formula";
+
+const buildingPlan: FeeLineConfig = {
+  feeType: "BUILDING_PLAN_PROCESSING_FEE",
+  basis: "property.area_sqyd",
+  rate: { by: "property.usage_type", values: { RESIDENTIAL: 5, COMMERCIAL: 10 }, default: 5 },
+  minimum: 2000,
+  surcharges: [{ label: "Corner plot", percent: 10, when: { path: "application.property.is_corner", in: [true] } }],
+  gstPercent: 18,
+  roundTo: 1,
+};
+
+describe("resolveFeeInput", () => {
+  it("prefers the linked property and falls back to the application data", () => {
+    const context = {
+      application: { property: { area_sqyd: "300", usage_type: "RESIDENTIAL" }, building: { floors: 2 } },
+      property: { area_sqyd: 320.5, usage_type: null },
+    };
+    expect(resolveFeeInput("property.area_sqyd", context)).toBe(320.5);
+    expect(resolveFeeInput("property.usage_type", context)).toBe("RESIDENTIAL");
+    expect(resolveFeeInput("application.building.floors", context)).toBe(2);
+    expect(resolveFeeInput("application.building.height", context)).toBeUndefined();
+  });
+});
+
+describe("evaluateFeeLine", () => {
+  it("keeps flat lines flat", () => {
+    expect(evaluateFeeLine({ feeType: "NDC_PROCESSING_FEE", amount: 250 })).toEqual({
+      amount: 250,
+      baseAmount: 250,
+      calculationInputs: { method: "FLAT", inputs: {}, computedAmount: 250, baseAmount: 250, amount: 250 },
+    });
+    expect(evaluateFeeLine({ feeType: "AGENT_FEE", amount: 2500, gstPercent: 18 }).amount).toBe(2950);
+  });
+
+  it("multiplies a looked-up rate by the basis and records every step", () => {
+    const result = evaluateFeeLine(buildingPlan, {
+      application: { property: { is_corner: true } },
+      property: { area_sqyd: 1000, usage_type: "COMMERCIAL" },
+    });
+    expect(result).toEqual({
+      amount: 12980,
+      baseAmount: 10000,
+      calculationInputs: {
+        method: "RATE",
+        rate: 10,
+        inputs: { "property.area_sqyd": 1000, "property.usage_type": "COMMERCIAL", "application.property.is_corner": true },
+        computedAmount: 10000,
+        baseAmount: 10000,
+        surcharges: [{ label: "Corner plot", percent: 10, amount: 1000 }],
+        gstPercent: 18,
+        gstAmount: 1980,
+        amount: 12980,
+      },
+    });
+  });
+
+  it("applies the minimum, the default rate and rounding", () => {
+    const result = evaluateFeeLine(buildingPlan, { application: { property: { area_sqyd: "120.5" } } });
+    expect(result.baseAmount).toBe(2000);
+    expect(result.amount).toBe(2360);
+    expect(result.calculationInputs).toMatchObject({ rate: 5, computedAmount: 602.5, minimumApplied: 2000 });
+    expect(result.calculationInputs).not.toHaveProperty("surcharges");
+  });
+
+  it("picks the first covering slab and caps at the maximum", () => {
+    const line: FeeLineConfig = {
+      feeType: "CD_PROCESSING_FEE",
+      basis: "property.area_sqyd",
+      slabs: [{ upTo: 500, amount: 1000 }, { rate: 2 }],
+      maximum: 5000,
+    };
+    expect(evaluateFeeLine(line, { property: { area_sqyd: 500 } }).amount).toBe(1000);
+    expect(evaluateFeeLine(line, { property: { area_sqyd: 800 } }).calculationInputs).toMatchObject({
+      method: "SLAB",
+      slab: { rate: 2 },
+      computedAmount: 1600,
+    });
+    expect(evaluateFeeLine(line, { property: { area_sqyd: 4000 } })).toMatchObject({
+      amount: 5000,
+      calculationInputs: { computedAmount: 8000, maximumApplied: 5000 },
+    });
+  });
+
+  it("fails with a coded error when an input is missing or unusable", () => {
+    expect(() => evaluateFeeLine(buildingPlan, {})).toThrow(FeeFormulaError);
+    expect(() => evaluateFeeLine(buildingPlan, {})).toThrow("property.area_sqyd is required");
+    const invalid = (() => {
+      try {
+        evaluateFeeLine(buildingPlan, { property: { area_sqyd: "large" } });
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(invalid).toMatchObject({ code: "FEE_INPUT_INVALID", message: "property.area_sqyd must be a non-negative number" });
+    const noDefault = { ...buildingPlan, rate: { by: "property.usage_type", values: { RESIDENTIAL: 5 } } };
+    expect(() => evaluateFeeLine(noDefault, { property: { area_sqyd: 100, usage_type: "INDUSTRIAL" } })).toThrow(
+      "No rate configured for property.usage_type = INDUSTRIAL"
+    );
+  });
+});
+
+describe("feeLineProblems", () => {
+  it("accepts flat and formula lines", () => {
+    expect(feeLineProblems({ feeType: "BASE_FEE", amount: 100, description: "Base fee" })).toEqual([]);
+    expect(feeLineProblems(buildingPlan)).toEqual([]);
+  });
+
+  it("rejects ambiguous or malformed formulas", () => {
+    expect(feeLineProblems({ feeType: "BAD_LINE", amount: -1 })).toEqual(["amount must be a non-negative number"]);
+    expect(feeLineProblems({ feeType: "X", amount: 10, rate: 2, basis: "property.area_sqyd" })).toContain(
+      "exactly one of amount, rate or slabs is required"
+    );
+    expect(feeLineProblems({ feeType: "X", rate: 2, basis: "area_sqyd" })).toEqual([
+      "basis must be a property.* or application.* path",
+    ]);
+    expect(
+      feeLineProblems({
+        feeType: "X",
+        basis: "property.area_sqyd",
+        slabs: [{ upTo: 500, amount: 1 }, { upTo: 400, rate: 1 }, { upTo: 900, amount: 3 }],
+        minimum: 10,
+        maximum: 5,
+      })
+    ).toEqual([
+      "slab 1 upTo must increase",
+      "the last slab must be open-ended (no upTo)",
+      "minimum must not exceed maximum",
+    ]);
+  });
+
+  it("reports problems per schedule list for preflight", () => {
+    expect(
+      lintFeeSchedule({
+        default: [{ feeType: "OK", amount: 1 }],
+        byAuthority: { PUDA: [{ feeType: "", amount: 1 }] },
+      })
+    ).toEqual(["byAuthority.PUDA[0]: feeType is required"]);
+    expect(lintFeeSchedule("flat")).toEqual(["fee schedule must be an array or { default, byAuthority }"]);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Fee formulas for service-pack fees.json lines.
+ *
+ * A line is either flat (`amount`) or derived from a basis value read from the
+ * application data or the linked property row:
+ *
+ *   { "feeType": "BP_SCRUTINY_FEE", "basis": "property.area_sqyd",
+ *     "rate": { "by": "property.usage_type", "values": { "RESIDENTIAL": 10, "COMMERCIAL": 25 } },
+ *     "minimum": 2000, "maximum": 50000,
+ *     "surcharges": [{ "label": "Corner plot", "percent": 10, "when": { "path": "application.property.is_corner", "in": [true] } }],
+ *     "gstPercent": 18, "roundTo": 1 }
+ *
+ * `slabs` replaces `rate` with a bracket table: the first slab whose `upTo`
+ * covers the basis applies its flat `amount` or its `rate` × basis; the last
+ * slab is open-ended. Minimum/maximum clamp the base, surcharges are a
+ * percentage of the base and GST is charged on base + surcharges.
+ *
+ * Paths: `property.<column>` reads the linked property row and falls back to
+ * the same key in the application data (forms store `property.area_sqyd`);
+ * `application.<path>` reads the application data only.
+ */
+
+export interface FeeRateLookup {
+  by: string;
+  values: Record<string, number>;
+  default?: number;
+}
+
+export interface FeeSlab {
+  upTo?: number;
+  amount?: number;
+  rate?: number;
+}
+
+export interface FeeCondition {
+  path: string;
+  in?: Array<string | number | boolean>;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface FeeSurcharge {
+  label: string;
+  percent: number;
+  when?: FeeCondition;
+}
+
+export interface FeeLineConfig {
+  feeType: string;
+  description?: string;
+  amount?: number;
+  basis?: string;
+  rate?: number | FeeRateLookup;
+  slabs?: FeeSlab[];
+  minimum?: number;
+  maximum?: number;
+  surcharges?: FeeSurcharge[];
+  gstPercent?: number;
+  roundTo?: number;
+}
+
+export interface FeeContext {
+  application?: Record<string, unknown> | null;
+  property?: object | null;
+}
+
+export interface EvaluatedFee {
+  amount: number;
+  baseAmount: number;
+  calculationInputs: Record<string, unknown>;
+}
+
+export type FeeFormulaErrorCode = "FEE_INPUT_MISSING" | "FEE_INPUT_INVALID";
+
+export class FeeFormulaError extends Error {
+  constructor(public readonly code: FeeFormulaErrorCode, message: string) {
+    super(message);
+    this.name = "FeeFormulaError";
+  }
+}
+
+const CONDITION_OPERATORS = ["gt", "gte", "lt", "lte"] as const;
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isInputPath(value: unknown): value is string {
+  return typeof value === "string" && /^(property|application)(\.[A-Za-z0-9_]+)+$/.test(value);
+}
+
+function readPath(source: unknown, segments: string[]): unknown {
+  let current = source;
+  for (const segment of segments) {
+    if (!isRecord(current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/** Value at a formula path, or undefined when neither source has it. */
+export function resolveFeeInput(path: string, context: FeeContext): unknown {
+  const [root, ...rest] = path.split(".");
+  if (root === "property") {
+    const fromProperty = readPath(context.property, rest);
+    if (fromProperty !== undefined && fromProperty !== null && fromProperty !== "") return fromProperty;
+    return readPath(context.application, ["property", ...rest]);
+  }
+  return readPath(context.application, rest);
+}
+
+/**
+ * Problems with one fees.json line; empty when it can be evaluated.
+ * Used both when calculating (fail closed) and by service-pack preflight.
+ */
+export function feeLineProblems(line: unknown): string[] {
+  if (!isRecord(line)) return ["line must be an object"];
+  const problems: string[] = [];
+  if (typeof line.feeType !== "string" || !line.feeType.trim()) problems.push("feeType is required");
+
+  const methods = ["amount", "rate", "slabs"].filter((key) => line[key] !== undefined);
+  if (methods.length !== 1) problems.push("exactly one of amount, rate or slabs is required");
+  if (line.amount !== undefined && !isNonNegativeNumber(line.amount)) {
+    problems.push("amount must be a non-negative number");
+  }
+  if ((line.rate !== undefined || line.slabs !== undefined) && !isInputPath(line.basis)) {
+    problems.push("basis must be a property.* or application.* path");
+  }
+  if (line.amount !== undefined && line.basis !== undefined) problems.push("basis is not used with a flat amount");
+
+  if (line.rate !== undefined && !isNonNegativeNumber(line.rate)) {
+    const lookup = line.rate;
+    if (!isRecord(lookup) || !isInputPath(lookup.by) || !isRecord(lookup.values)) {
+      problems.push("rate must be a number or { by, values }");
+    } else if (
+      !Object.values(lookup.values).every(isNonNegativeNumber) ||
+      (lookup.default !== undefined && !isNonNegativeNumber(lookup.default))
+    ) {
+      problems.push("rate values must be non-negative numbers");
+    }
+  }
+
+  if (line.slabs !== undefined) {
+    if (!Array.isArray(line.slabs) || line.slabs.length === 0) {
+      problems.push("slabs must be a non-empty array");
+    } else {
+      let previousUpTo = -Infinity;
+      line.slabs.forEach((slab: unknown, index: number, slabs: unknown[]) => {
+        const isLast = index === slabs.length - 1;
+        if (!isRecord(slab)) {
+          problems.push(`slab ${index} must be an object`);
+          return;
+        }
+        if ((slab.amount === undefined) === (slab.rate === undefined)) {
+          problems.push(`slab ${index} needs exactly one of amount or rate`);
+        } else if (!isNonNegativeNumber(slab.amount ?? slab.rate)) {
+          problems.push(`slab ${index} amount or rate must be a non-negative number`);
+        }
+        if (isLast) {
+          if (slab.upTo !== undefined) problems.push("the last slab must be open-ended (no upTo)");
+        } else if (!isNonNegativeNumber(slab.upTo) || slab.upTo <= previousUpTo) {
+          problems.push(`slab ${index} upTo must increase`);
+        } else {
+          previousUpTo = slab.upTo;
+        }
+      });
+    }
+  }
+
+  for (const bound of ["minimum", "maximum"] as const) {
+    if (line[bound] !== undefined && !isNonNegativeNumber(line[bound])) {
+      problems.push(`${bound} must be a non-negative number`);
+    }
+  }
+  if (
+    isNonNegativeNumber(line.minimum) &&
+    isNonNegativeNumber(line.maximum) &&
+    line.minimum > line.maximum
+  ) {
+    problems.push("minimum must not exceed maximum");
+  }
+
+  if (line.surcharges !== undefined) {
+    if (!Array.isArray(line.surcharges)) {
+      problems.push("surcharges must be an array");
+    } else {
+      line.surcharges.forEach((surcharge: unknown, index: number) => {
+        if (!isRecord(surcharge) || typeof surcharge.label !== "string" || !isNonNegativeNumber(surcharge.percent)) {
+          problems.push(`surcharge ${index} needs a label and a non-negative percent`);
+          return;
+        }
+        if (surcharge.when !== undefined) {
+          const when = surcharge.when;
+          const operators = isRecord(when) ? CONDITION_OPERATORS.filter((op) => when[op] !== undefined) : [];
+          if (
+            !isRecord(when) ||
+            !isInputPath(when.path) ||
+            (when.in === undefined && operators.length === 0) ||
+            (when.in !== undefined && !Array.isArray(when.in)) ||
+            operators.some((op) => typeof when[op] !== "number")
+          ) {
+            problems.push(`surcharge ${index} when needs a path and in, gt, gte, lt or lte`);
+          }
+        }
+      });
+    }
+  }
+
+  if (line.gstPercent !== undefined && !isNonNegativeNumber(line.gstPercent)) {
+    problems.push("gstPercent must be a non-negative number");
+  }
+  if (line.roundTo !== undefined && !(isNonNegativeNumber(line.roundTo) && line.roundTo > 0)) {
+    problems.push("roundTo must be a positive number");
+  }
+  return problems;
+}
+
+/** Problems across a whole fees.json (array or { default, byAuthority }). */
+export function lintFeeSchedule(schedule: unknown): string[] {
+  const lists: Array<[string, unknown]> = Array.isArray(schedule)
+    ? [["lines", schedule]]
+    : isRecord(schedule)
+      ? [
+          ...(schedule.default !== undefined ? [["default", schedule.default] as [string, unknown]] : []),
+          ...Object.entries(isRecord(schedule.byAuthority) ? schedule.byAuthority : {}).map(
+            ([authorityId, lines]) => [`byAuthority.${authorityId}`, lines] as [string, unknown]
+          ),
+        ]
+      : [];
+  if (lists.length === 0) return ["fee schedule must be an array or { default, byAuthority }"];
+
+  const problems: string[] = [];
+  for (const [label, lines] of lists) {
+    if (!Array.isArray(lines) || lines.length === 0) {
+      problems.push(`${label} must be a non-empty array`);
+      continue;
+    }
+    lines.forEach((line, index) => {
+      for (const problem of feeLineProblems(line)) problems.push(`${label}[${index}]: ${problem}`);
+    });
+  }
+  return problems;
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function toPaise(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function numericInput(path: string, context: FeeContext, inputs: Record<string, unknown>): number {
+  const raw = resolveFeeInput(path, context);
+  if (raw === undefined || raw === null || raw === "") {
+    throw new FeeFormulaError("FEE_INPUT_MISSING", `${path} is required to calculate this fee`);
+  }
+  const value = typeof raw === "number" ? raw : Number(String(raw).trim());
+  if (!Number.isFinite(value) || value < 0) {
+    throw new FeeFormulaError("FEE_INPUT_INVALID", `${path} must be a non-negative number`);
+  }
+  inputs[path] = value;
+  return value;
+}
+
+function conditionHolds(condition: FeeCondition, context: FeeContext, inputs: Record<string, unknown>): boolean {
+  const value = resolveFeeInput(condition.path, context);
+  inputs[condition.path] = value ?? null;
+  if (condition.in && !condition.in.some((candidate) => candidate === value)) return false;
+  const numeric = typeof value === "number" ? value : Number(value);
+  const hasNumeric = value !== undefined && value !== null && value !== "" && Number.isFinite(numeric);
+  if (condition.gt !== undefined && !(hasNumeric && numeric > condition.gt)) return false;
+  if (condition.gte !== undefined && !(hasNumeric && numeric >= condition.gte)) return false;
+  if (condition.lt !== undefined && !(hasNumeric && numeric < condition.lt)) return false;
+  if (condition.lte !== undefined && !(hasNumeric && numeric <= condition.lte)) return false;
+  return true;
+}
+
+/**
+ * Evaluate a validated fee line. `calculationInputs` records every value the
+ * formula read and each step, so the stored line item shows how the amount
+ * was derived.
+ */
+export function evaluateFeeLine(line: FeeLineConfig, context: FeeContext = {}): EvaluatedFee {
+  const inputs: Record<string, unknown> = {};
+  const steps: Record<string, unknown> = {};
+  let computed: number;
+
+  if (line.amount !== undefined) {
+    steps.method = "FLAT";
+    computed = line.amount;
+  } else if (line.slabs) {
+    steps.method = "SLAB";
+    const basis = numericInput(line.basis!, context, inputs);
+    const slab = line.slabs.find((candidate) => candidate.upTo === undefined || basis <= candidate.upTo)!;
+    steps.slab = slab;
+    computed = slab.amount ?? slab.rate! * basis;
+  } else {
+    steps.method = "RATE";
+    const basis = numericInput(line.basis!, context, inputs);
+    let rate: number;
+    if (typeof line.rate === "number") {
+      rate = line.rate;
+    } else {
+      const lookup = line.rate!;
+      const key = resolveFeeInput(lookup.by, context);
+      inputs[lookup.by] = key ?? null;
+      const matched = key === undefined || key === null ? undefined : lookup.values[String(key)];
+      if (matched === undefined && lookup.default === undefined) {
+        throw new FeeFormulaError(
+          key === undefined || key === null ? "FEE_INPUT_MISSING" : "FEE_INPUT_INVALID",
+          `No rate configured for ${lookup.by} = ${key ?? "(empty)"}`
+        );
+      }
+      rate = matched ?? lookup.default!;
+    }
+    steps.rate = rate;
+    computed = rate * basis;
+  }
+
+  computed = toPaise(computed);
+  let baseAmount = computed;
+  if (line.minimum !== undefined && baseAmount < line.minimum) {
+    baseAmount = line.minimum;
+    steps.minimumApplied = line.minimum;
+  }
+  if (line.maximum !== undefined && baseAmount > line.maximum) {
+    baseAmount = line.maximum;
+    steps.maximumApplied = line.maximum;
+  }
+
+  const surcharges = (line.surcharges || [])
+    .filter((surcharge) => !surcharge.when || conditionHolds(surcharge.when, context, inputs))
+    .map((surcharge) => ({
+      label: surcharge.label,
+      percent: surcharge.percent,
+      amount: toPaise((baseAmount * surcharge.percent) / 100),
+    }));
+  const surchargeTotal = surcharges.reduce((sum, surcharge) => sum + surcharge.amount, 0);
+  const gstAmount = line.gstPercent ? toPaise(((baseAmount + surchargeTotal) * line.gstPercent) / 100) : 0;
+  const beforeRounding = toPaise(baseAmount + surchargeTotal + gstAmount);
+  const amount = line.roundTo ? toPaise(roundTo(beforeRounding, line.roundTo)) : beforeRounding;
+
+  return {
+    amount,
+    baseAmount,
+    calculationInputs: {
+      ...steps,
+      inputs,
+      computedAmount: computed,
+      baseAmount,
+      ...(surcharges.length > 0 ? { surcharges } : {}),
+      ...(line.gstPercent ? { gstPercent: line.gstPercent, gstAmount } : {}),
+      ...(amount !== beforeRounding ? { roundedFrom: beforeRounding } : {}),
+      amount,
+    },
+  };
+}
@@ -1,11 +1,12 @@
 /**
- * Fees DAL — fee line items, demands, and refund requests.
+ * Fees DAL — fee line items and demands.
  *
  * Lifecycle:
  *   1. assess() — create fee_line_items for an application
  *   2. createDemand() — group line items into a payable demand note
- *   3. recordPayment() — record payment against a demand (see payments.ts)
- *   4. requestRefund() — initiate a refund request
+ *   3. recordPayment() — record payment against a demand (see payments.ts),
+ *      optionally in installments (see installments.ts)
+ *   4. createRefundRequest() — refund an excess payment (see refunds.ts)
  */
 import { query, getClient } from "./db";
 import { v4 as uuidv4 } from "uuid";
@@ -35,6 +36,8 @@ export interface FeeDemand {
   demand_number: string | null;
   total_amount: number;
   paid_amount: number;
+  /** Interest collected on the demand's installment plan (see installments.ts) */
+  interest_paid: number;
   status: "PENDING" | "PARTIALLY_PAID" | "PAID" | "WAIVED" | "CANCELLED";
   due_date: Date | null;
   created_by: string | null;
@@ -46,20 +49,6 @@ export interface FeeDemandWithLines extends FeeDemand {
   lineItems: FeeLineItem[];
 }
 
-export interface RefundRequest {
-  refund_id: string;
-  payment_id: string;
-  arn: string;
-  reason: string;
-  amount: number;
-  status: "REQUESTED" | "APPROVED" | "REJECTED" | "PROCESSED";
-  bank_details_jsonb: Record<string, unknown>;
-  requested_by: string | null;
-  requested_at: Date;
-  processed_by: string | null;
-  processed_at: Date | null;
-}
-
 export interface AssessFeeInput {
   feeHeadCode: string;
   description?: string;
@@ -157,6 +146,7 @@ function rowToLineItem(row: any): FeeLineItem {
 
 /**
  * Create a fee demand by grouping existing line items.
+ * Runs in the caller's transaction when a client is given.
  */
 export async function createDemand(
   arn: string,
@@ -164,59 +154,17 @@ export async function createDemand(
   options?: {
     dueDate?: Date | string;
     createdBy?: string;
-  }
+  },
+  existingClient?: PoolClient
 ): Promise<FeeDemandWithLines> {
+  if (existingClient) return insertDemand(existingClient, arn, lineItemIds, options);
+
   const client = await getClient();
   try {
     await client.query("BEGIN");
-
-    // Verify all line items belong to this ARN
-    const lineResult = await client.query(
-      "SELECT * FROM fee_line_item WHERE line_item_id = ANY($1) AND arn = $2",
-      [lineItemIds, arn]
-    );
-    if (lineResult.rows.length !== lineItemIds.length) {
-      throw new Error("Some fee line items not found or do not belong to this application");
-    }
-
-    const lineItems = lineResult.rows.map(rowToLineItem);
-    const totalAmount = lineItems.reduce((sum, li) => sum + li.amount - li.waiver_adjustment, 0);
-
-    const demandId = uuidv4();
-    // Generate demand number
-    const seqResult = await client.query("SELECT nextval('arn_seq') as seq");
-    const seq = String(seqResult.rows[0].seq).padStart(6, "0");
-    const year = new Date().getFullYear();
-    const demandNumber = `PUDA/DEM/${year}/${seq}`;
-
-    await client.query(
-      `INSERT INTO fee_demand
-         (demand_id, arn, demand_number, total_amount, status, due_date, created_by)
-       VALUES ($1, $2, $3, $4, 'PENDING', $5, $6)`,
-      [
-        demandId,
-        arn,
-        demandNumber,
-        totalAmount,
-        options?.dueDate ? new Date(options.dueDate) : null,
-        options?.createdBy || null,
-      ]
-    );
-
-    // Link line items to demand
-    for (const liId of lineItemIds) {
-      await client.query(
-        "INSERT INTO fee_demand_line (demand_id, line_item_id) VALUES ($1, $2)",
-        [demandId, liId]
-      );
-    }
-
+    const demand = await insertDemand(client, arn, lineItemIds, options);
     await client.query("COMMIT");
-
-    return {
-      ...rowToDemand((await query("SELECT * FROM fee_demand WHERE demand_id = $1", [demandId])).rows[0]),
-      lineItems,
-    };
+    return demand;
   } catch (err) {
     await client.query("ROLLBACK");
     throw err;
@@ -225,6 +173,62 @@ export async function createDemand(
   }
 }
 
+async function insertDemand(
+  client: PoolClient,
+  arn: string,
+  lineItemIds: string[],
+  options?: {
+    dueDate?: Date | string;
+    createdBy?: string;
+  }
+): Promise<FeeDemandWithLines> {
+  // Verify all line items belong to this ARN
+  const lineResult = await client.query(
+    "SELECT * FROM fee_line_item WHERE line_item_id = ANY($1) AND arn = $2",
+    [lineItemIds, arn]
+  );
+  if (lineResult.rows.length !== lineItemIds.length) {
+    throw new Error("Some fee line items not found or do not belong to this application");
+  }
+
+  const lineItems = lineResult.rows.map(rowToLineItem);
+  const totalAmount = lineItems.reduce((sum, li) => sum + li.amount - li.waiver_adjustment, 0);
+
+  const demandId = uuidv4();
+  // Generate demand number
+  const seqResult = await client.query("SELECT nextval('arn_seq') as seq");
+  const seq = String(seqResult.rows[0].seq).padStart(6, "0");
+  const year = new Date().getFullYear();
+  const demandNumber = `PUDA/DEM/${year}/${seq}`;
+
+  await client.query(
+    `INSERT INTO fee_demand
+       (demand_id, arn, demand_number, total_amount, status, due_date, created_by)
+     VALUES ($1, $2, $3, $4, 'PENDING', $5, $6)`,
+    [
+      demandId,
+      arn,
+      demandNumber,
+      totalAmount,
+      options?.dueDate ? new Date(options.dueDate) : null,
+      options?.createdBy || null,
+    ]
+  );
+
+  // Link line items to demand
+  for (const liId of lineItemIds) {
+    await client.query(
+      "INSERT INTO fee_demand_line (demand_id, line_item_id) VALUES ($1, $2)",
+      [demandId, liId]
+    );
+  }
+
+  return {
+    ...rowToDemand((await client.query("SELECT * FROM fee_demand WHERE demand_id = $1", [demandId])).rows[0]),
+    lineItems,
+  };
+}
+
 /** Get a demand by ID with its line items. */
 export async function getDemandById(demandId: string): Promise<FeeDemandWithLines | null> {
   const result = await query("SELECT * FROM fee_demand WHERE demand_id = $1", [demandId]);
@@ -316,20 +320,28 @@ export async function updateDemandPayment(
   return result.rows.length > 0 ? rowToDemand(result.rows[0]) : null;
 }
 
-/** Waive a pending demand (set status to WAIVED). */
+/** Waive a pending demand (set status to WAIVED), cancelling its installment plan. */
 export async function waiveDemand(demandId: string): Promise<FeeDemand | null> {
   await query(
-    "UPDATE fee_demand SET status = 'WAIVED' WHERE demand_id = $1 AND status = 'PENDING'",
+    `WITH waived AS (
+       UPDATE fee_demand SET status = 'WAIVED' WHERE demand_id = $1 AND status = 'PENDING' RETURNING demand_id
+     )
+     UPDATE fee_installment_plan SET status = 'CANCELLED', cancelled_at = NOW()
+     WHERE demand_id IN (SELECT demand_id FROM waived) AND status = 'ACTIVE'`,
     [demandId]
   );
   const result = await query("SELECT * FROM fee_demand WHERE demand_id = $1", [demandId]);
   return result.rows.length > 0 ? rowToDemand(result.rows[0]) : null;
 }
 
-/** Cancel a pending demand. */
+/** Cancel a pending demand and its installment plan. */
 export async function cancelDemand(demandId: string): Promise<FeeDemand | null> {
   await query(
-    "UPDATE fee_demand SET status = 'CANCELLED' WHERE demand_id = $1 AND status = 'PENDING'",
+    `WITH cancelled AS (
+       UPDATE fee_demand SET status = 'CANCELLED' WHERE demand_id = $1 AND status = 'PENDING' RETURNING demand_id
+     )
+     UPDATE fee_installment_plan SET status = 'CANCELLED', cancelled_at = NOW()
+     WHERE demand_id IN (SELECT demand_id FROM cancelled) AND status = 'ACTIVE'`,
     [demandId]
   );
   const result = await query("SELECT * FROM fee_demand WHERE demand_id = $1", [demandId]);
@@ -343,6 +355,7 @@ function rowToDemand(row: any): FeeDemand {
     demand_number: row.demand_number,
     total_amount: Number(row.total_amount),
     paid_amount: Number(row.paid_amount),
+    interest_paid: Number(row.interest_paid ?? 0),
     status: row.status,
     due_date: row.due_date,
     created_by: row.created_by,
@@ -350,106 +363,3 @@ function rowToDemand(row: any): FeeDemand {
     paid_at: row.paid_at,
   };
 }
-
-// ---------------------------------------------------------------------------
-// Refund Requests
-// ---------------------------------------------------------------------------
-
-export interface CreateRefundInput {
-  paymentId: string;
-  reason: string;
-  amount: number;
-  bankDetails?: Record<string, unknown>;
-  requestedBy?: string;
-}
-
-/** Create a refund request against a payment. */
-export async function createRefundRequest(
-  arn: string,
-  input: CreateRefundInput
-): Promise<RefundRequest> {
-  const id = uuidv4();
-  await query(
-    `INSERT INTO refund_request
-       (refund_id, payment_id, arn, reason, amount, bank_details_jsonb, requested_by)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-    [
-      id,
-      input.paymentId,
-      arn,
-      input.reason,
-      input.amount,
-      JSON.stringify(input.bankDetails || {}),
-      input.requestedBy || null,
-    ]
-  );
-  return (await getRefundRequestById(id))!;
-}
-
-/** Approve a refund request. */
-export async function approveRefundRequest(
-  refundId: string,
-  processedBy?: string
-): Promise<RefundRequest | null> {
-  await query(
-    `UPDATE refund_request SET status = 'APPROVED', processed_by = $2
-     WHERE refund_id = $1 AND status = 'REQUESTED'`,
-    [refundId, processedBy || null]
-  );
-  return getRefundRequestById(refundId);
-}
-
-/** Mark a refund as processed (funds transferred). */
-export async function processRefundRequest(
-  refundId: string,
-  processedBy?: string
-): Promise<RefundRequest | null> {
-  await query(
-    `UPDATE refund_request SET status = 'PROCESSED', processed_by = $2, processed_at = NOW()
-     WHERE refund_id = $1 AND status = 'APPROVED'`,
-    [refundId, processedBy || null]
-  );
-  return getRefundRequestById(refundId);
-}
-
-/** Reject a refund request. */
-export async function rejectRefundRequest(
-  refundId: string,
-  processedBy?: string
-): Promise<RefundRequest | null> {
-  await query(
-    `UPDATE refund_request SET status = 'REJECTED', processed_by = $2, processed_at = NOW()
-     WHERE refund_id = $1 AND status = 'REQUESTED'`,
-    [refundId, processedBy || null]
-  );
-  return getRefundRequestById(refundId);
-}
-
-export async function getRefundRequestById(refundId: string): Promise<RefundRequest | null> {
-  const result = await query("SELECT * FROM refund_request WHERE refund_id = $1", [refundId]);
-  return result.rows.length > 0 ? rowToRefund(result.rows[0]) : null;
-}
-
-export async function getRefundsForApplication(arn: string): Promise<RefundRequest[]> {
-  const result = await query(
-    "SELECT * FROM refund_request WHERE arn = $1 ORDER BY requested_at DESC",
-    [arn]
-  );
-  return result.rows.map(rowToRefund);
-}
-
-function rowToRefund(row: any): RefundRequest {
-  return {
-    refund_id: row.refund_id,
-    payment_id: row.payment_id,
-    arn: row.arn,
-    reason: row.reason,
-    amount: Number(row.amount),
-    status: row.status,
-    bank_details_jsonb: row.bank_details_jsonb || {},
-    requested_by: row.requested_by,
-    requested_at: row.requested_at,
-    processed_by: row.processed_by,
-    processed_at: row.processed_at,
-  };
-}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { normalizeInboxFilters } from "./inbox-views";
+import { buildInboxFilterConditions, buildInboxOrderBy } from "./tasks";
+
+describe("buildInboxFilterConditions", () => {
+  it("adds nothing without filters", () => {
+    expect(buildInboxFilterConditions({}, 5, "$4")).toEqual({ conditions: [], params: [] });
+  });
+
+  it("numbers placeholders from the first free index", () => {
+    const { conditions, params } = buildInboxFilterConditions(
+      { serviceKey: "no_due_certificate", stateId: "PENDING_AT_CLERK", applicantName: "  kaur " },
+      5,
+      "$4"
+    );
+    expect(conditions).toEqual([
+      "a.service_key = $5",
+      "t.state_id = $6",
+      "a.data_jsonb->'applicant'->>'full_name' ILIKE $7",
+    ]);
+    expect(params).toEqual(["no_due_certificate", "PENDING_AT_CLERK", "%kaur%"]);
+  });
+
+  it("matches locality on the application and linked properties with one parameter", () => {
+    const { conditions, params } = buildInboxFilterConditions({ locality: "Sector 70" }, 5, "$4");
+    expect(params).toEqual(["%Sector 70%"]);
+    expect(conditions[0]).toContain("a.data_jsonb->'property'->>'scheme_name' ILIKE $5");
+    expect(conditions[0]).toContain("p.location ILIKE $5 OR p.sector ILIKE $5 OR p.scheme_name ILIKE $5");
+  });
+
+  it("uses IST day boundaries for SLA buckets and the acting-for ids for assigned-to-me", () => {
+    const overdue = buildInboxFilterConditions({ slaBucket: "OVERDUE" }, 5, "$4");
+    expect(overdue).toEqual({ conditions: ["(t.sla_due_at < NOW())"], params: [] });
+
+    const today = buildInboxFilterConditions({ slaBucket: "DUE_TODAY", assignedToMe: true }, 5, "$4");
+    expect(today.conditions[0]).toContain("date_trunc('day', NOW() AT TIME ZONE 'Asia/Kolkata')");
+    expect(today.conditions[0]).toContain("t.sla_due_at >= NOW()");
+    expect(today.conditions[1]).toBe("t.assignee_user_id = ANY($4)");
+    expect(today.params).toEqual([]);
+
+    const week = buildInboxFilterConditions({ slaBucket: "DUE_THIS_WEEK" }, 5, "$4");
+    expect(week.conditions[0]).toContain("date_trunc('week'");
+  });
+});
+
+describe("buildInboxOrderBy", () => {
+  it("defaults to SLA due date and always breaks ties", () => {
+    expect(buildInboxOrderBy()).toBe("ORDER BY t.sla_due_at ASC NULLS LAST, t.created_at ASC, t.task_id ASC");
+    expect(buildInboxOrderBy({ key: "applicant_name", direction: "desc" })).toBe(
+      "ORDER BY LOWER(a.data_jsonb->'applicant'->>'full_name') DESC NULLS LAST, t.created_at ASC, t.task_id ASC"
+    );
+  });
+
+  it("ignores unknown sort keys", () => {
+    expect(buildInboxOrderBy({ key: "1; DROP TABLE task" as any, direction: "asc" })).toContain(
+      "ORDER BY t.sla_due_at ASC"
+    );
+  });
+});
+
+describe("normalizeInboxFilters", () => {
+  it("keeps known filters and drops empty or unknown values", () => {
+    expect(
+      normalizeInboxFilters({
+        serviceKey: "no_due_certificate",
+        stateId: " ",
+        slaBucket: "NEXT_YEAR",
+        locality: " Phase 7 ",
+        assignedToMe: "yes",
+        legacyField: 1,
+      })
+    ).toEqual({ serviceKey: "no_due_certificate", locality: "Phase 7" });
+    expect(normalizeInboxFilters({ slaBucket: "OVERDUE", assignedToMe: true })).toEqual({
+      slaBucket: "OVERDUE",
+      assignedToMe: true,
+    });
+    expect(normalizeInboxFilters(null)).toEqual({});
+  });
+});
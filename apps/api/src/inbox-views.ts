@@ -0,0 +1,167 @@
+/**
+ * Personal saved views for the officer inbox.
+ *
+ * A view is a named set of inbox filters plus a sort order that an officer can
+ * re-apply with one click. Views are private to the officer who saved them;
+ * marking one as the default clears the flag on the officer's other views.
+ */
+import { getClient, query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import {
+  DEFAULT_INBOX_SORT,
+  INBOX_SLA_BUCKETS,
+  INBOX_SORT_KEYS,
+  type InboxFilters,
+  type InboxSlaBucket,
+  type InboxSort,
+} from "./tasks";
+
+export const MAX_INBOX_VIEWS_PER_USER = 20;
+
+export interface InboxSavedView {
+  view_id: string;
+  name: string;
+  filters: InboxFilters;
+  sort: InboxSort;
+  is_default: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface InboxViewInput {
+  name: string;
+  filters: InboxFilters;
+  sort?: InboxSort;
+  isDefault?: boolean;
+}
+
+/** Keep only known filter keys with usable values, so stale views stay harmless. */
+export function normalizeInboxFilters(raw: unknown): InboxFilters {
+  const source = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const filters: InboxFilters = {};
+  for (const key of ["serviceKey", "stateId", "applicantName", "locality"] as const) {
+    const value = source[key];
+    if (typeof value === "string" && value.trim()) filters[key] = value.trim();
+  }
+  if (INBOX_SLA_BUCKETS.includes(source.slaBucket as InboxSlaBucket)) {
+    filters.slaBucket = source.slaBucket as InboxSlaBucket;
+  }
+  if (source.assignedToMe === true) filters.assignedToMe = true;
+  return filters;
+}
+
+function rowToView(row: any): InboxSavedView {
+  return {
+    view_id: row.view_id,
+    name: row.name,
+    filters: normalizeInboxFilters(row.filters_jsonb),
+    sort: {
+      key: INBOX_SORT_KEYS.includes(row.sort_key) ? row.sort_key : DEFAULT_INBOX_SORT.key,
+      direction: row.sort_direction === "desc" ? "desc" : "asc",
+    },
+    is_default: row.is_default,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export async function listInboxViews(userId: string): Promise<InboxSavedView[]> {
+  const result = await query(
+    `SELECT * FROM inbox_saved_view WHERE user_id = $1 ORDER BY is_default DESC, name ASC`,
+    [userId]
+  );
+  return result.rows.map(rowToView);
+}
+
+/**
+ * Create a view, or replace one when viewId is given. Returns an error code
+ * when the name is taken, the view is not the caller's, or the per-officer
+ * limit is reached.
+ */
+export async function saveInboxView(
+  userId: string,
+  input: InboxViewInput,
+  viewId?: string
+): Promise<{ view?: InboxSavedView; error?: string }> {
+  const name = input.name.trim();
+  if (!name) return { error: "INBOX_VIEW_NAME_REQUIRED" };
+  const sort = input.sort || DEFAULT_INBOX_SORT;
+
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    // Serialise saves per officer so the limit and default flag stay consistent
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`inbox_saved_view:${userId}`]);
+
+    if (viewId) {
+      const existing = await client.query(
+        `SELECT 1 FROM inbox_saved_view WHERE view_id = $1 AND user_id = $2`,
+        [viewId, userId]
+      );
+      if (existing.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return { error: "INBOX_VIEW_NOT_FOUND" };
+      }
+    } else {
+      const count = await client.query(
+        `SELECT COUNT(*)::int AS count FROM inbox_saved_view WHERE user_id = $1`,
+        [userId]
+      );
+      if ((count.rows[0]?.count ?? 0) >= MAX_INBOX_VIEWS_PER_USER) {
+        await client.query("ROLLBACK");
+        return { error: "INBOX_VIEW_LIMIT_REACHED" };
+      }
+    }
+
+    const clash = await client.query(
+      `SELECT 1 FROM inbox_saved_view WHERE user_id = $1 AND name = $2 AND view_id <> $3`,
+      [userId, name, viewId || ""]
+    );
+    if (clash.rows.length > 0) {
+      await client.query("ROLLBACK");
+      return { error: "INBOX_VIEW_NAME_TAKEN" };
+    }
+
+    if (input.isDefault) {
+      await client.query(
+        `UPDATE inbox_saved_view SET is_default = FALSE, updated_at = NOW()
+         WHERE user_id = $1 AND is_default`,
+        [userId]
+      );
+    }
+
+    const filtersJson = JSON.stringify(normalizeInboxFilters(input.filters));
+    const saved = viewId
+      ? await client.query(
+          `UPDATE inbox_saved_view
+           SET name = $3, filters_jsonb = $4, sort_key = $5, sort_direction = $6,
+               is_default = $7, updated_at = NOW()
+           WHERE view_id = $1 AND user_id = $2
+           RETURNING *`,
+          [viewId, userId, name, filtersJson, sort.key, sort.direction, Boolean(input.isDefault)]
+        )
+      : await client.query(
+          `INSERT INTO inbox_saved_view
+             (view_id, user_id, name, filters_jsonb, sort_key, sort_direction, is_default)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [uuidv4(), userId, name, filtersJson, sort.key, sort.direction, Boolean(input.isDefault)]
+        );
+    await client.query("COMMIT");
+    return { view: rowToView(saved.rows[0]) };
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/** Delete one of the caller's views; false when it does not exist or is someone else's. */
+export async function deleteInboxView(userId: string, viewId: string): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM inbox_saved_view WHERE view_id = $1 AND user_id = $2`,
+    [viewId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
@@ -5,9 +5,11 @@
  * optionally to the task that triggered it). It records scheduling,
  * assignment, checklist findings, photos, and outcome.
  */
-import { query } from "./db";
+import { getClient, query } from "./db";
 import { v4 as uuidv4 } from "uuid";
 import type { PoolClient } from "pg";
+import { enqueueOutboxEntry } from "./outbox";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -94,22 +96,37 @@ function rowToInspection(row: any): InspectionRow {
 
 /**
  * Create a new inspection record. Typically called when a task is assigned
- * to a Junior Engineer / SDO for site verification.
+ * to a Junior Engineer / SDO for site verification. An inspection created
+ * with a date queues INSPECTION_SCHEDULED through the outbox, so without a
+ * caller's client it runs in its own transaction.
  */
 export async function createInspection(
   input: CreateInspectionInput,
   client?: PoolClient
 ): Promise<InspectionRow> {
-  const run = client
-    ? (text: string, params?: unknown[]) => client.query(text, params)
-    : query;
+  if (!client) {
+    const own = await getClient();
+    try {
+      await own.query("BEGIN");
+      discardAfterCommit(own);
+      const inspection = await createInspection(input, own);
+      await own.query("COMMIT");
+      await runAfterCommit(own);
+      return inspection;
+    } catch (error) {
+      await own.query("ROLLBACK").catch(() => {});
+      throw error;
+    } finally {
+      own.release();
+    }
+  }
 
   const id = uuidv4();
   const scheduledAt = input.scheduledAt
     ? new Date(input.scheduledAt)
     : null;
 
-  await run(
+  await client.query(
     `INSERT INTO inspection (
        inspection_id, arn, task_id, inspection_type, status,
        scheduled_at, officer_user_id, officer_role_id
@@ -124,6 +141,19 @@ export async function createInspection(
       input.officerRoleId || null,
     ]
   );
+  if (scheduledAt) {
+    const appResult = await client.query("SELECT public_arn FROM application WHERE arn = $1", [input.arn]);
+    await enqueueOutboxEntry(
+      client,
+      "NOTIFY",
+      {
+        event: "INSPECTION_SCHEDULED",
+        arn: appResult.rows[0]?.public_arn || input.arn,
+        metadata: { inspectionId: id, inspectionType: input.inspectionType, scheduledAt: scheduledAt.toISOString() },
+      },
+      input.arn
+    );
+  }
 
   return (await getInspectionById(id, client))!;
 }
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import type { PoolClient } from "pg";
+import {
+  accruedInstallmentInterest,
+  allocateInstallmentPayment,
+  buildInstallmentSchedule,
+  creditDemandPayment,
+  installmentScheduleProblem,
+  summariseInstallments,
+  type InstallmentLedgerLine,
+} from "./installments";
+
+const terms = { annualInterestRatePct: 12, graceDays: 0 };
+
+function line(overrides: Partial<InstallmentLedgerLine> = {}): InstallmentLedgerLine {
+  return {
+    installmentNumber: 1,
+    dueDate: "2026-01-31",
+    principalAmount: 36500,
+    principalPaid: 0,
+    interestAccrued: 0,
+    interestPaid: 0,
+    accruedUntil: null,
+    ...overrides,
+  };
+}
+
+describe("installment schedule", () => {
+  it("splits the amount into equal monthly parts, clamping to month ends", () => {
+    expect(buildInstallmentSchedule(1000, 3, "2026-01-31", 1)).toEqual([
+      { dueDate: "2026-01-31", amount: 333.33 },
+      { dueDate: "2026-02-28", amount: 333.33 },
+      { dueDate: "2026-03-31", amount: 333.34 },
+    ]);
+    expect(buildInstallmentSchedule(900000, 2, "2026-06-15", 6).map((entry) => entry.dueDate)).toEqual([
+      "2026-06-15",
+      "2026-12-15",
+    ]);
+  });
+
+  it("accepts a schedule that covers the outstanding amount exactly", () => {
+    const schedule = buildInstallmentSchedule(1000, 3, "2026-01-31", 1);
+    expect(installmentScheduleProblem(schedule, 1000)).toBeNull();
+  });
+
+  it("reports the first thing wrong with a schedule", () => {
+    const ok = [
+      { dueDate: "2026-01-31", amount: 500 },
+      { dueDate: "2026-02-28", amount: 500 },
+    ];
+    expect(installmentScheduleProblem(ok.slice(0, 1), 500)).toBe("INSTALLMENT_COUNT_INVALID");
+    expect(installmentScheduleProblem([ok[1], ok[0]], 1000)).toBe("INSTALLMENT_DUE_DATES_INVALID");
+    expect(installmentScheduleProblem([ok[0], { ...ok[1], dueDate: "2026-02-30" }], 1000)).toBe(
+      "INSTALLMENT_DUE_DATES_INVALID"
+    );
+    expect(installmentScheduleProblem([ok[0], { ...ok[1], amount: 499.999 }], 999.999)).toBe("INSTALLMENT_AMOUNT_INVALID");
+    expect(installmentScheduleProblem(ok, 1200)).toBe("INSTALLMENT_TOTAL_MISMATCH");
+  });
+});
+
+describe("late-payment interest", () => {
+  it("accrues simple interest on unpaid principal after the grace period", () => {
+    // 36,500 at 12% is 12 a day
+    expect(accruedInstallmentInterest(line(), terms, "2026-01-31")).toBe(0);
+    expect(accruedInstallmentInterest(line(), terms, "2026-02-10")).toBe(120);
+    expect(accruedInstallmentInterest(line(), { ...terms, graceDays: 7 }, "2026-02-10")).toBe(36);
+  });
+
+  it("runs on the reduced principal after a crystallised part payment", () => {
+    const partPaid = line({ principalPaid: 18250, interestAccrued: 120, interestPaid: 120, accruedUntil: "2026-02-10" });
+    expect(accruedInstallmentInterest(partPaid, terms, "2026-02-20")).toBe(180);
+    expect(accruedInstallmentInterest({ ...partPaid, principalPaid: 36500 }, terms, "2026-12-31")).toBe(120);
+  });
+});
+
+describe("payment allocation", () => {
+  const dues = [
+    { installmentNumber: 2, principalDue: 1000, interestDue: 0 },
+    { installmentNumber: 1, principalDue: 1000, interestDue: 50 },
+  ];
+
+  it("clears interest before principal, oldest installment first, by default", () => {
+    expect(allocateInstallmentPayment(dues, 1200, "INTEREST_FIRST")).toEqual({
+      allocations: [
+        { installmentNumber: 1, interest: 50, principal: 1000 },
+        { installmentNumber: 2, interest: 0, principal: 150 },
+      ],
+      unallocated: 0,
+    });
+  });
+
+  it("can clear principal first and leave interest for later", () => {
+    expect(allocateInstallmentPayment(dues, 1200, "PRINCIPAL_FIRST").allocations).toEqual([
+      { installmentNumber: 1, interest: 0, principal: 1000 },
+      { installmentNumber: 2, interest: 0, principal: 200 },
+    ]);
+  });
+
+  it("returns what the installments cannot absorb", () => {
+    expect(allocateInstallmentPayment(dues, 2100, "INTEREST_FIRST").unallocated).toBe(50);
+  });
+});
+
+describe("plan summary", () => {
+  it("asks for overdue installments with interest now, else the next installment", () => {
+    const lines = [
+      line(),
+      line({ installmentNumber: 2, dueDate: "2026-02-28" }),
+      line({ installmentNumber: 3, dueDate: "2026-03-31" }),
+    ];
+    const early = summariseInstallments(lines, terms, "2026-01-15");
+    expect(early.totals.payable_now).toBe(36500);
+    expect(early.nextDue).toEqual({ installmentNumber: 1, dueDate: "2026-01-31", amount: 36500 });
+
+    const late = summariseInstallments(lines, terms, "2026-03-05");
+    // 33 days on the first and 5 on the second installment
+    expect(late.lines.map((entry) => entry.interestOutstanding)).toEqual([396, 60, 0]);
+    expect(late.lines.map((entry) => entry.daysOverdue)).toEqual([33, 5, 0]);
+    expect(late.totals.payable_now).toBe(73456);
+    expect(late.totals.total_outstanding).toBe(109956);
+  });
+
+  it("has nothing payable once every installment is settled", () => {
+    const settled = summariseInstallments(
+      [line({ principalPaid: 36500, interestAccrued: 24, interestPaid: 24, accruedUntil: "2026-02-02" })],
+      terms,
+      "2026-06-01"
+    );
+    expect(settled.totals).toMatchObject({ total_outstanding: 0, payable_now: 0, interest_paid: 24 });
+    expect(settled.nextDue).toBeNull();
+  });
+});
+
+describe("crediting a payment", () => {
+  it("refuses a demand under an active plan that is no longer payable", async () => {
+    const client = {
+      query: async (text: string) =>
+        text.includes("FROM fee_demand")
+          ? { rows: [{ status: "CANCELLED" }] }
+          : { rows: [{ plan_id: "plan-1", status: "ACTIVE" }] },
+    } as unknown as PoolClient;
+
+    await expect(creditDemandPayment(client, "demand-1", "payment-1", 1000)).rejects.toThrow("DEMAND_NOT_PAYABLE");
+  });
+
+  it("refuses a demand without a plan that is no longer payable", async () => {
+    const statements: string[] = [];
+    const client = {
+      query: async (text: string) => {
+        statements.push(text);
+        return text.includes("FROM fee_demand") ? { rows: [{ status: "WAIVED" }] } : { rows: [] };
+      },
+    } as unknown as PoolClient;
+
+    await expect(creditDemandPayment(client, "demand-1", "payment-1", 1000)).rejects.toThrow("DEMAND_NOT_PAYABLE");
+    expect(statements.some((text) => text.includes("UPDATE fee_demand"))).toBe(false);
+  });
+});
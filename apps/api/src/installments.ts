@@ -0,0 +1,727 @@
+/**
+ * Installment plans — paying a large fee demand in scheduled parts.
+ *
+ * An officer splits the outstanding principal of a demand into installments,
+ * either listing each due date and amount or asking for N equal installments
+ * a fixed number of months apart. Principal still unpaid after an
+ * installment's due date plus the plan's grace days attracts simple interest
+ * at the plan's annual rate (days / 365, as on the NDC dues ledger).
+ *
+ * Every payment credited to a demand with an ACTIVE plan is split across its
+ * installments, oldest first, in the plan's allocation order:
+ *   INTEREST_FIRST   — all interest due, then principal (the default)
+ *   PRINCIPAL_FIRST  — all principal due, then interest
+ * Payments may run ahead of the schedule. Interest accrued up to the payment
+ * date is crystallised on each installment, so later interest runs on the
+ * reduced principal only. The demand's paid_amount counts principal and
+ * interest_paid the interest. The demand (and the plan) is PAID once all
+ * principal and the interest accrued on it is paid.
+ *
+ * A plan can be cancelled until a payment has been allocated to it; waiving or
+ * cancelling the demand cancels its plan.
+ */
+import { v4 as uuidv4 } from "uuid";
+import type { PoolClient } from "pg";
+import { getClient, query } from "./db";
+import { updateDemandPayment } from "./fees";
+import { enqueueOutboxEntry } from "./outbox";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const INSTALLMENT_ALLOCATION_ORDERS = ["INTEREST_FIRST", "PRINCIPAL_FIRST"] as const;
+export type InstallmentAllocationOrder = (typeof INSTALLMENT_ALLOCATION_ORDERS)[number];
+export type InstallmentPlanStatus = "ACTIVE" | "COMPLETED" | "CANCELLED";
+export type InstallmentStatus = "PENDING" | "PARTIALLY_PAID" | "PAID";
+
+export interface InstallmentTerms {
+  annualInterestRatePct: number;
+  graceDays: number;
+}
+
+export interface InstallmentScheduleLine {
+  dueDate: string;
+  amount: number;
+}
+
+/** Stored state of one installment, as the pure helpers below read it. */
+export interface InstallmentLedgerLine {
+  installmentNumber: number;
+  dueDate: string;
+  principalAmount: number;
+  principalPaid: number;
+  /** Interest crystallised up to accruedUntil */
+  interestAccrued: number;
+  interestPaid: number;
+  accruedUntil: string | null;
+}
+
+export interface InstallmentAllocation {
+  installmentNumber: number;
+  interest: number;
+  principal: number;
+}
+
+export interface FeeInstallment {
+  installment_id: string;
+  installment_number: number;
+  due_date: string;
+  principal_amount: number;
+  principal_paid: number;
+  principal_outstanding: number;
+  /** Interest accrued up to the plan's as_of date */
+  interest_accrued: number;
+  interest_paid: number;
+  interest_outstanding: number;
+  balance: number;
+  status: InstallmentStatus;
+  /** Days the principal has been unpaid past its due date (0 when not overdue) */
+  days_overdue: number;
+  paid_at: Date | null;
+}
+
+export interface InstallmentPlanTotals {
+  principal_amount: number;
+  principal_paid: number;
+  principal_outstanding: number;
+  interest_accrued: number;
+  interest_paid: number;
+  interest_outstanding: number;
+  total_outstanding: number;
+  /** What is due today: overdue and due installments with their interest, else the next installment */
+  payable_now: number;
+}
+
+export interface FeeInstallmentPlan {
+  plan_id: string;
+  demand_id: string;
+  demand_number: string | null;
+  arn: string;
+  annual_interest_rate_pct: number;
+  grace_days: number;
+  allocation_order: InstallmentAllocationOrder;
+  status: InstallmentPlanStatus;
+  created_by: string | null;
+  created_at: Date;
+  cancelled_by: string | null;
+  cancelled_at: Date | null;
+  as_of: string;
+  installments: FeeInstallment[];
+  totals: InstallmentPlanTotals;
+  next_due: { installment_number: number; due_date: string; amount: number } | null;
+}
+
+export interface CreateInstallmentPlanInput {
+  demandId: string;
+  /** Explicit schedule; otherwise count, firstDueDate and intervalMonths generate equal installments. */
+  installments?: InstallmentScheduleLine[];
+  count?: number;
+  firstDueDate?: string;
+  intervalMonths?: number;
+  annualInterestRatePct?: number;
+  graceDays?: number;
+  allocationOrder?: InstallmentAllocationOrder;
+  createdBy: string;
+}
+
+const DEFAULT_INTEREST_RATE_PCT = 12;
+const MIN_INSTALLMENTS = 2;
+const MAX_INSTALLMENTS = 120;
+const MONEY_EPSILON = 0.000001;
+
+export function getDefaultInstallmentInterestRatePct(): number {
+  const configured = Number.parseFloat(process.env.INSTALLMENT_INTEREST_RATE_PCT || "");
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_INTEREST_RATE_PCT;
+}
+
+// ---------------------------------------------------------------------------
+// Dates and money
+// ---------------------------------------------------------------------------
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/** A valid YYYY-MM-DD calendar date as UTC midnight, else null. */
+export function parseDateOnly(input: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input)) return null;
+  const date = new Date(`${input}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== input ? null : date;
+}
+
+function toDateOnly(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function todayDateOnly(): string {
+  return toDateOnly(new Date());
+}
+
+function addDays(dateOnly: string, days: number): string {
+  const date = parseDateOnly(dateOnly)!;
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateOnly(date);
+}
+
+/** Same day of month `months` later, clamped to the month's last day (31 Jan + 1 → 28/29 Feb). */
+function addMonthsClamped(dateOnly: string, months: number): string {
+  const date = parseDateOnly(dateOnly)!;
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toDateOnly(target);
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.max(0, Math.round((parseDateOnly(end)!.getTime() - parseDateOnly(start)!.getTime()) / 86_400_000));
+}
+
+// ---------------------------------------------------------------------------
+// Schedule, interest and allocation (pure)
+// ---------------------------------------------------------------------------
+
+/** N equal installments `intervalMonths` apart; the last one absorbs the paise left over. */
+export function buildInstallmentSchedule(
+  amount: number,
+  count: number,
+  firstDueDate: string,
+  intervalMonths: number
+): InstallmentScheduleLine[] {
+  const share = Math.floor((amount * 100) / count) / 100;
+  return Array.from({ length: count }, (_, index) => ({
+    dueDate: addMonthsClamped(firstDueDate, index * intervalMonths),
+    amount: index === count - 1 ? round2(amount - share * (count - 1)) : share,
+  }));
+}
+
+/** Error code for a schedule that cannot cover `outstanding`, or null when it can. */
+export function installmentScheduleProblem(lines: InstallmentScheduleLine[], outstanding: number): string | null {
+  if (lines.length < MIN_INSTALLMENTS || lines.length > MAX_INSTALLMENTS) {
+    return "INSTALLMENT_COUNT_INVALID";
+  }
+  for (const [index, line] of lines.entries()) {
+    if (!parseDateOnly(line.dueDate) || (index > 0 && line.dueDate <= lines[index - 1].dueDate)) {
+      return "INSTALLMENT_DUE_DATES_INVALID";
+    }
+    if (!Number.isFinite(line.amount) || line.amount <= 0 || round2(line.amount) !== line.amount) {
+      return "INSTALLMENT_AMOUNT_INVALID";
+    }
+  }
+  const total = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+  return Math.abs(total - round2(outstanding)) > MONEY_EPSILON ? "INSTALLMENT_TOTAL_MISMATCH" : null;
+}
+
+/**
+ * Interest accrued on an installment through `asOf`: what is already
+ * crystallised plus simple interest on the unpaid principal from the later of
+ * accruedUntil and the end of the grace period.
+ */
+export function accruedInstallmentInterest(line: InstallmentLedgerLine, terms: InstallmentTerms, asOf: string): number {
+  const principalOutstanding = round2(line.principalAmount - line.principalPaid);
+  const graceEnds = addDays(line.dueDate, terms.graceDays);
+  const from = line.accruedUntil && line.accruedUntil > graceEnds ? line.accruedUntil : graceEnds;
+  const days = daysBetween(from, asOf);
+  if (principalOutstanding <= 0 || days === 0 || terms.annualInterestRatePct <= 0) {
+    return line.interestAccrued;
+  }
+  return round2(line.interestAccrued + (principalOutstanding * (terms.annualInterestRatePct / 100) * days) / 365);
+}
+
+/**
+ * Split `amount` across installments, oldest first, in the given order.
+ * Returns only installments that receive something, and whatever the
+ * installments could not absorb.
+ */
+export function allocateInstallmentPayment(
+  lines: Array<{ installmentNumber: number; principalDue: number; interestDue: number }>,
+  amount: number,
+  order: InstallmentAllocationOrder
+): { allocations: InstallmentAllocation[]; unallocated: number } {
+  const sorted = [...lines].sort((left, right) => left.installmentNumber - right.installmentNumber);
+  const allocations = sorted.map((line) => ({ installmentNumber: line.installmentNumber, interest: 0, principal: 0 }));
+  const passes: Array<"interest" | "principal"> =
+    order === "INTEREST_FIRST" ? ["interest", "principal"] : ["principal", "interest"];
+  let remaining = round2(amount);
+  for (const pass of passes) {
+    for (const [index, line] of sorted.entries()) {
+      if (remaining <= 0) break;
+      const take = round2(Math.min(pass === "interest" ? line.interestDue : line.principalDue, remaining));
+      if (take <= 0) continue;
+      allocations[index][pass] = take;
+      remaining = round2(remaining - take);
+    }
+  }
+  return {
+    allocations: allocations.filter((allocation) => allocation.interest > 0 || allocation.principal > 0),
+    unallocated: remaining,
+  };
+}
+
+/** Per-installment balances and plan totals as of a date. */
+export function summariseInstallments(
+  lines: InstallmentLedgerLine[],
+  terms: InstallmentTerms,
+  asOf: string
+): {
+  lines: Array<{ interestAccrued: number; principalOutstanding: number; interestOutstanding: number; daysOverdue: number }>;
+  totals: InstallmentPlanTotals;
+  nextDue: { installmentNumber: number; dueDate: string; amount: number } | null;
+} {
+  const balances = lines.map((line) => {
+    const interestAccrued = accruedInstallmentInterest(line, terms, asOf);
+    const principalOutstanding = round2(line.principalAmount - line.principalPaid);
+    return {
+      interestAccrued,
+      principalOutstanding,
+      interestOutstanding: round2(interestAccrued - line.interestPaid),
+      daysOverdue: principalOutstanding > 0 ? daysBetween(line.dueDate, asOf) : 0,
+    };
+  });
+  const sum = (pick: (index: number) => number) => round2(lines.reduce((acc, _line, index) => acc + pick(index), 0));
+
+  const open = lines.findIndex((_line, index) => balances[index].principalOutstanding + balances[index].interestOutstanding > 0);
+  let payableNow = sum((index) =>
+    lines[index].dueDate <= asOf
+      ? balances[index].principalOutstanding + balances[index].interestOutstanding
+      : balances[index].interestOutstanding
+  );
+  if (payableNow <= 0 && open >= 0) {
+    payableNow = round2(balances[open].principalOutstanding + balances[open].interestOutstanding);
+  }
+
+  const totals: InstallmentPlanTotals = {
+    principal_amount: sum((index) => lines[index].principalAmount),
+    principal_paid: sum((index) => lines[index].principalPaid),
+    principal_outstanding: sum((index) => balances[index].principalOutstanding),
+    interest_accrued: sum((index) => balances[index].interestAccrued),
+    interest_paid: sum((index) => lines[index].interestPaid),
+    interest_outstanding: sum((index) => balances[index].interestOutstanding),
+    total_outstanding: sum((index) => balances[index].principalOutstanding + balances[index].interestOutstanding),
+    payable_now: payableNow,
+  };
+  return {
+    lines: balances,
+    totals,
+    nextDue:
+      open >= 0
+        ? {
+            installmentNumber: lines[open].installmentNumber,
+            dueDate: lines[open].dueDate,
+            amount: round2(balances[open].principalOutstanding + balances[open].interestOutstanding),
+          }
+        : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Plans
+// ---------------------------------------------------------------------------
+
+const PLAN_SELECT = `
+  SELECT p.*, d.demand_number
+  FROM fee_installment_plan p
+  JOIN fee_demand d ON d.demand_id = p.demand_id`;
+
+const INSTALLMENT_SELECT = `
+  SELECT i.*, i.due_date::text AS due_date_text, i.accrued_until::text AS accrued_until_text
+  FROM fee_installment i`;
+
+/** Set up an installment plan for the outstanding principal of a demand. */
+export async function createInstallmentPlan(input: CreateInstallmentPlanInput): Promise<FeeInstallmentPlan> {
+  const client = await getClient();
+  let planId: string;
+  try {
+    await client.query("BEGIN");
+    discardAfterCommit(client);
+
+    const demandResult = await client.query(
+      "SELECT demand_id, arn, total_amount, paid_amount, status FROM fee_demand WHERE demand_id = $1 FOR UPDATE",
+      [input.demandId]
+    );
+    const demand = demandResult.rows[0];
+    if (!demand) {
+      throw new Error("DEMAND_NOT_FOUND");
+    }
+    if (demand.status !== "PENDING" && demand.status !== "PARTIALLY_PAID") {
+      throw new Error("DEMAND_NOT_PAYABLE");
+    }
+    const outstanding = round2(Number(demand.total_amount) - Number(demand.paid_amount));
+    if (outstanding <= MONEY_EPSILON) {
+      throw new Error("DEMAND_ALREADY_PAID");
+    }
+    const existing = await client.query(
+      "SELECT 1 FROM fee_installment_plan WHERE demand_id = $1 AND status IN ('ACTIVE', 'COMPLETED')",
+      [input.demandId]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error("INSTALLMENT_PLAN_EXISTS");
+    }
+
+    let schedule: InstallmentScheduleLine[];
+    if (input.installments) {
+      schedule = input.installments;
+    } else if (input.count !== undefined && input.firstDueDate) {
+      if (!parseDateOnly(input.firstDueDate)) {
+        throw new Error("INSTALLMENT_DUE_DATES_INVALID");
+      }
+      if (!Number.isInteger(input.count) || input.count < MIN_INSTALLMENTS || input.count > MAX_INSTALLMENTS) {
+        throw new Error("INSTALLMENT_COUNT_INVALID");
+      }
+      schedule = buildInstallmentSchedule(outstanding, input.count, input.firstDueDate, input.intervalMonths ?? 1);
+    } else {
+      throw new Error("INSTALLMENT_SCHEDULE_REQUIRED");
+    }
+    const problem = installmentScheduleProblem(schedule, outstanding);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    planId = uuidv4();
+    const annualInterestRatePct = input.annualInterestRatePct ?? getDefaultInstallmentInterestRatePct();
+    await client.query(
+      `INSERT INTO fee_installment_plan
+         (plan_id, demand_id, arn, annual_interest_rate_pct, grace_days, allocation_order, status, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, 'ACTIVE', $7)`,
+      [
+        planId,
+        input.demandId,
+        demand.arn,
+        annualInterestRatePct,
+        input.graceDays ?? 0,
+        input.allocationOrder ?? "INTEREST_FIRST",
+        input.createdBy,
+      ]
+    );
+    for (const [index, line] of schedule.entries()) {
+      await client.query(
+        `INSERT INTO fee_installment (installment_id, plan_id, installment_number, due_date, principal_amount)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [uuidv4(), planId, index + 1, line.dueDate, line.amount]
+      );
+    }
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, 'INSTALLMENT_PLAN_CREATED', 'OFFICER', $3, $4)",
+      [
+        uuidv4(),
+        demand.arn,
+        input.createdBy,
+        JSON.stringify({
+          planId,
+          demandId: input.demandId,
+          principal: outstanding,
+          installments: schedule,
+          annualInterestRatePct,
+          graceDays: input.graceDays ?? 0,
+          allocationOrder: input.allocationOrder ?? "INTEREST_FIRST",
+        }),
+      ]
+    );
+    const appResult = await client.query("SELECT public_arn FROM application WHERE arn = $1", [demand.arn]);
+    await enqueueOutboxEntry(
+      client,
+      "NOTIFY",
+      {
+        event: "INSTALLMENT_PLAN_CREATED",
+        arn: appResult.rows[0]?.public_arn || demand.arn,
+        metadata: { planId, dueDate: schedule[0].dueDate, amount: schedule[0].amount },
+      },
+      demand.arn
+    );
+
+    await client.query("COMMIT");
+    await runAfterCommit(client);
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  return (await getInstallmentPlan(planId))!;
+}
+
+/**
+ * Cancel a demand's active plan. Fails once a payment has been allocated to
+ * it; returns null when the demand has no active plan.
+ */
+export async function cancelInstallmentPlan(demandId: string, cancelledBy: string): Promise<FeeInstallmentPlan | null> {
+  const client = await getClient();
+  let planId: string;
+  try {
+    await client.query("BEGIN");
+    await client.query("SELECT 1 FROM fee_demand WHERE demand_id = $1 FOR UPDATE", [demandId]);
+    const planResult = await client.query(
+      "SELECT plan_id, arn FROM fee_installment_plan WHERE demand_id = $1 AND status = 'ACTIVE' FOR UPDATE",
+      [demandId]
+    );
+    const plan = planResult.rows[0];
+    if (!plan) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+    const allocated = await client.query(
+      `SELECT 1 FROM fee_installment_allocation a
+       JOIN fee_installment i ON i.installment_id = a.installment_id
+       WHERE i.plan_id = $1 LIMIT 1`,
+      [plan.plan_id]
+    );
+    if (allocated.rows.length > 0) {
+      throw new Error("INSTALLMENT_PLAN_HAS_PAYMENTS");
+    }
+    await client.query(
+      "UPDATE fee_installment_plan SET status = 'CANCELLED', cancelled_by = $2, cancelled_at = NOW() WHERE plan_id = $1",
+      [plan.plan_id, cancelledBy]
+    );
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, 'INSTALLMENT_PLAN_CANCELLED', 'OFFICER', $3, $4)",
+      [uuidv4(), plan.arn, cancelledBy, JSON.stringify({ planId: plan.plan_id, demandId })]
+    );
+    await client.query("COMMIT");
+    planId = plan.plan_id;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  return getInstallmentPlan(planId);
+}
+
+// ---------------------------------------------------------------------------
+// Payment crediting (called by payments.ts inside the payment transaction)
+// ---------------------------------------------------------------------------
+
+/**
+ * What can still be paid on a demand with an active plan: all principal and
+ * interest accrued to today, and what is payable now. Null when the demand
+ * has no active plan (its balance is total_amount − paid_amount).
+ */
+export async function getInstallmentOutstanding(
+  client: PoolClient,
+  demandId: string
+): Promise<{ totalOutstanding: number; payableNow: number } | null> {
+  const planResult = await client.query(
+    "SELECT * FROM fee_installment_plan WHERE demand_id = $1 AND status = 'ACTIVE'",
+    [demandId]
+  );
+  const plan = planResult.rows[0];
+  if (!plan) return null;
+  const installments = await client.query(`${INSTALLMENT_SELECT} WHERE i.plan_id = $1 ORDER BY i.installment_number`, [
+    plan.plan_id,
+  ]);
+  const { totals } = summariseInstallments(installments.rows.map(rowToLedgerLine), planTerms(plan), todayDateOnly());
+  return { totalOutstanding: totals.total_outstanding, payableNow: totals.payable_now };
+}
+
+/**
+ * Credit a settled payment to its demand. A demand that is no longer PENDING
+ * or PARTIALLY_PAID is refused with DEMAND_NOT_PAYABLE, plan or not. Demands
+ * with an active plan have the payment allocated across installments as of
+ * `creditedOn` (the deposit date for offline instruments, never later than
+ * today); others go through updateDemandPayment.
+ */
+export async function creditDemandPayment(
+  client: PoolClient,
+  demandId: string,
+  paymentId: string,
+  amount: number,
+  creditedOn?: string | null
+): Promise<void> {
+  const demandResult = await client.query("SELECT status FROM fee_demand WHERE demand_id = $1 FOR UPDATE", [demandId]);
+  if (demandResult.rows.length === 0) {
+    throw new Error("DEMAND_NOT_FOUND");
+  }
+  const demandStatus = demandResult.rows[0].status;
+  if (demandStatus !== "PENDING" && demandStatus !== "PARTIALLY_PAID") {
+    throw new Error("DEMAND_NOT_PAYABLE");
+  }
+  const planResult = await client.query(
+    "SELECT * FROM fee_installment_plan WHERE demand_id = $1 AND status = 'ACTIVE' FOR UPDATE",
+    [demandId]
+  );
+  const plan = planResult.rows[0];
+  if (!plan) {
+    await updateDemandPayment(demandId, amount, client);
+    return;
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("PAYMENT_AMOUNT_INVALID");
+  }
+
+  const today = todayDateOnly();
+  const asOf = creditedOn && parseDateOnly(creditedOn) && creditedOn < today ? creditedOn : today;
+  const installmentResult = await client.query(
+    `${INSTALLMENT_SELECT} WHERE i.plan_id = $1 ORDER BY i.installment_number FOR UPDATE`,
+    [plan.plan_id]
+  );
+  const rows = installmentResult.rows;
+  const ledger = rows.map(rowToLedgerLine);
+  const summary = summariseInstallments(ledger, planTerms(plan), asOf);
+  if (amount > summary.totals.total_outstanding + MONEY_EPSILON) {
+    throw new Error("PAYMENT_AMOUNT_EXCEEDS_REMAINING_BALANCE");
+  }
+
+  const { allocations } = allocateInstallmentPayment(
+    ledger.map((line, index) => ({
+      installmentNumber: line.installmentNumber,
+      principalDue: summary.lines[index].principalOutstanding,
+      interestDue: summary.lines[index].interestOutstanding,
+    })),
+    amount,
+    plan.allocation_order
+  );
+
+  let planSettled = true;
+  for (const [index, line] of ledger.entries()) {
+    const allocation = allocations.find((entry) => entry.installmentNumber === line.installmentNumber);
+    const interest = allocation?.interest ?? 0;
+    const principal = allocation?.principal ?? 0;
+    const interestAccrued = summary.lines[index].interestAccrued;
+    const principalPaid = round2(line.principalPaid + principal);
+    const interestPaid = round2(line.interestPaid + interest);
+    const settled = principalPaid >= line.principalAmount && interestPaid >= interestAccrued;
+    planSettled = planSettled && settled;
+    const status: InstallmentStatus = settled ? "PAID" : principalPaid > 0 || interestPaid > 0 ? "PARTIALLY_PAID" : "PENDING";
+
+    await client.query(
+      `UPDATE fee_installment SET
+         interest_accrued = $2,
+         accrued_until = GREATEST(COALESCE(accrued_until, $3::date), $3::date),
+         principal_paid = $4,
+         interest_paid = $5,
+         status = $6,
+         paid_at = CASE WHEN $6 = 'PAID' THEN COALESCE(paid_at, NOW()) ELSE NULL END
+       WHERE installment_id = $1`,
+      [rows[index].installment_id, interestAccrued, asOf, principalPaid, interestPaid, status]
+    );
+    if (allocation) {
+      await client.query(
+        `INSERT INTO fee_installment_allocation
+           (allocation_id, installment_id, payment_id, interest_amount, principal_amount, allocated_on)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [uuidv4(), rows[index].installment_id, paymentId, interest, principal, asOf]
+      );
+    }
+  }
+
+  const principalTotal = round2(allocations.reduce((sum, entry) => sum + entry.principal, 0));
+  const interestTotal = round2(allocations.reduce((sum, entry) => sum + entry.interest, 0));
+  await client.query(
+    `UPDATE fee_demand SET
+       paid_amount = paid_amount + $2,
+       interest_paid = interest_paid + $3,
+       status = CASE WHEN $4 THEN 'PAID' ELSE 'PARTIALLY_PAID' END,
+       paid_at = CASE WHEN $4 THEN NOW() ELSE paid_at END
+     WHERE demand_id = $1`,
+    [demandId, principalTotal, interestTotal, planSettled]
+  );
+  if (planSettled) {
+    await client.query("UPDATE fee_installment_plan SET status = 'COMPLETED' WHERE plan_id = $1", [plan.plan_id]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Read operations
+// ---------------------------------------------------------------------------
+
+export async function getInstallmentPlan(planId: string, asOf = todayDateOnly()): Promise<FeeInstallmentPlan | null> {
+  const result = await query(`${PLAN_SELECT} WHERE p.plan_id = $1`, [planId]);
+  return result.rows.length > 0 ? (await withInstallments(result.rows, asOf))[0] : null;
+}
+
+/** The demand's live (active or completed) plan. */
+export async function getInstallmentPlanForDemand(demandId: string, asOf = todayDateOnly()): Promise<FeeInstallmentPlan | null> {
+  const result = await query(
+    `${PLAN_SELECT} WHERE p.demand_id = $1 AND p.status IN ('ACTIVE', 'COMPLETED')`,
+    [demandId]
+  );
+  return result.rows.length > 0 ? (await withInstallments(result.rows, asOf))[0] : null;
+}
+
+/** Live plans of an application, oldest first. */
+export async function getInstallmentPlansForApplication(arn: string, asOf = todayDateOnly()): Promise<FeeInstallmentPlan[]> {
+  const result = await query(
+    `${PLAN_SELECT} WHERE p.arn = $1 AND p.status IN ('ACTIVE', 'COMPLETED') ORDER BY p.created_at`,
+    [arn]
+  );
+  return withInstallments(result.rows, asOf);
+}
+
+async function withInstallments(planRows: any[], asOf: string): Promise<FeeInstallmentPlan[]> {
+  if (planRows.length === 0) return [];
+  const installmentResult = await query(
+    `${INSTALLMENT_SELECT} WHERE i.plan_id = ANY($1) ORDER BY i.plan_id, i.installment_number`,
+    [planRows.map((row) => row.plan_id)]
+  );
+  return planRows.map((row) => {
+    const rows = installmentResult.rows.filter((installment) => installment.plan_id === row.plan_id);
+    return rowToPlan(row, rows, asOf);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function planTerms(row: any): InstallmentTerms {
+  return { annualInterestRatePct: Number(row.annual_interest_rate_pct), graceDays: Number(row.grace_days) };
+}
+
+function rowToLedgerLine(row: any): InstallmentLedgerLine {
+  return {
+    installmentNumber: Number(row.installment_number),
+    dueDate: row.due_date_text,
+    principalAmount: Number(row.principal_amount),
+    principalPaid: Number(row.principal_paid),
+    interestAccrued: Number(row.interest_accrued),
+    interestPaid: Number(row.interest_paid),
+    accruedUntil: row.accrued_until_text ?? null,
+  };
+}
+
+function rowToPlan(row: any, installmentRows: any[], asOf: string): FeeInstallmentPlan {
+  const ledger = installmentRows.map(rowToLedgerLine);
+  // A cancelled plan stopped accruing when it was cancelled
+  const effectiveAsOf = row.status === "CANCELLED" && row.cancelled_at ? toDateOnly(new Date(row.cancelled_at)) : asOf;
+  const summary = summariseInstallments(ledger, planTerms(row), effectiveAsOf);
+  return {
+    plan_id: row.plan_id,
+    demand_id: row.demand_id,
+    demand_number: row.demand_number ?? null,
+    arn: row.arn,
+    annual_interest_rate_pct: Number(row.annual_interest_rate_pct),
+    grace_days: Number(row.grace_days),
+    allocation_order: row.allocation_order,
+    status: row.status,
+    created_by: row.created_by,
+    created_at: row.created_at,
+    cancelled_by: row.cancelled_by ?? null,
+    cancelled_at: row.cancelled_at ?? null,
+    as_of: effectiveAsOf,
+    installments: installmentRows.map((installment, index) => ({
+      installment_id: installment.installment_id,
+      installment_number: ledger[index].installmentNumber,
+      due_date: ledger[index].dueDate,
+      principal_amount: ledger[index].principalAmount,
+      principal_paid: ledger[index].principalPaid,
+      principal_outstanding: summary.lines[index].principalOutstanding,
+      interest_accrued: summary.lines[index].interestAccrued,
+      interest_paid: ledger[index].interestPaid,
+      interest_outstanding: summary.lines[index].interestOutstanding,
+      balance: round2(summary.lines[index].principalOutstanding + summary.lines[index].interestOutstanding),
+      status: installment.status,
+      days_overdue: summary.lines[index].daysOverdue,
+      paid_at: installment.paid_at ?? null,
+    })),
+    totals: summary.totals,
+    next_due: summary.nextDue
+      ? {
+          installment_number: summary.nextDue.installmentNumber,
+          due_date: summary.nextDue.dueDate,
+          amount: summary.nextDue.amount,
+        }
+      : null,
+  };
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type pg from "pg";
+
+vi.mock("./db", () => ({
+  getClient: vi.fn(),
+  query: vi.fn(async () => ({ rows: [] })),
+}));
+
+import {
+  addLiveEventSubscriber,
+  formatServerSentEvent,
+  isLiveEventVisibleTo,
+  liveEventSubscriberCount,
+  MAX_LIVE_STREAMS_PER_USER,
+  publishLiveEvent,
+  publishLiveEventAfterCommit,
+  stopLiveEvents,
+  type LiveEventSubscriber,
+} from "./live-events";
+import { runAfterCommit } from "./after-commit";
+
+function subscriber(
+  userId: string,
+  userType: LiveEventSubscriber["userType"],
+  postings: LiveEventSubscriber["postings"] = []
+) {
+  const received: Array<{ type: string; data: Record<string, unknown> }> = [];
+  const entry: LiveEventSubscriber = {
+    userId,
+    userType,
+    postings,
+    send: (type, data) => received.push({ type, data }),
+    close: vi.fn(),
+  };
+  return { entry, received };
+}
+
+const clerk = subscriber("officer-1", "OFFICER", [{ authority_id: "PUDA", system_role_ids: ["CLERK"] }]);
+
+describe("live events", () => {
+  afterEach(async () => {
+    await stopLiveEvents();
+    delete process.env.LIVE_EVENTS_ENABLED;
+  });
+
+  it("scopes events to listed users and to officers posted in the authority with the role", () => {
+    expect(isLiveEventVisibleTo({ userIds: ["citizen-1"] }, { userId: "citizen-1", userType: "CITIZEN", postings: [] })).toBe(true);
+    expect(isLiveEventVisibleTo({ userIds: ["citizen-1"] }, { userId: "citizen-2", userType: "CITIZEN", postings: [] })).toBe(false);
+    expect(isLiveEventVisibleTo({ authorityId: "PUDA" }, clerk.entry)).toBe(true);
+    expect(isLiveEventVisibleTo({ authorityId: "PUDA", systemRoleIds: ["CLERK"] }, clerk.entry)).toBe(true);
+    expect(isLiveEventVisibleTo({ authorityId: "PUDA", systemRoleIds: ["SDO"] }, clerk.entry)).toBe(false);
+    expect(isLiveEventVisibleTo({ authorityId: "GMADA" }, clerk.entry)).toBe(false);
+    // A citizen is never in an authority's audience, even with a stray posting
+    expect(
+      isLiveEventVisibleTo({ authorityId: "PUDA" }, { ...clerk.entry, userId: "citizen-1", userType: "CITIZEN" })
+    ).toBe(false);
+  });
+
+  it("delivers to matching local streams when Redis fan-out is not running", async () => {
+    const citizen = subscriber("citizen-1", "CITIZEN");
+    const sdo = subscriber("officer-2", "OFFICER", [{ authority_id: "PUDA", system_role_ids: ["SDO"] }]);
+    addLiveEventSubscriber(citizen.entry);
+    addLiveEventSubscriber(sdo.entry);
+
+    await publishLiveEvent({
+      type: "application",
+      data: { arn: "PUDA/2026/1", stateId: "PENDING_AT_SDO" },
+      audience: { userIds: ["citizen-1"], authorityId: "PUDA" },
+    });
+    await publishLiveEvent({
+      type: "task",
+      data: { action: "CREATED", taskId: "task-1" },
+      audience: { authorityId: "PUDA", systemRoleIds: ["CLERK"] },
+    });
+
+    expect(citizen.received).toEqual([{ type: "application", data: { arn: "PUDA/2026/1", stateId: "PENDING_AT_SDO" } }]);
+    expect(sdo.received.map((event) => event.type)).toEqual(["application"]);
+  });
+
+  it("publishes queued events only after commit, and nothing when disabled", async () => {
+    const citizen = subscriber("citizen-1", "CITIZEN");
+    addLiveEventSubscriber(citizen.entry);
+    const client = {} as pg.PoolClient;
+
+    publishLiveEventAfterCommit(client, { type: "notification", data: { title: "Approved" }, audience: { userIds: ["citizen-1"] } });
+    expect(citizen.received).toHaveLength(0);
+    await runAfterCommit(client);
+    expect(citizen.received).toHaveLength(1);
+
+    process.env.LIVE_EVENTS_ENABLED = "false";
+    await publishLiveEvent({ type: "notification", data: {}, audience: { userIds: ["citizen-1"] } });
+    expect(citizen.received).toHaveLength(1);
+  });
+
+  it("limits open streams per user and closes them all on shutdown", async () => {
+    const streams = Array.from({ length: MAX_LIVE_STREAMS_PER_USER }, () => subscriber("citizen-1", "CITIZEN"));
+    const unsubscribes = streams.map((stream) => addLiveEventSubscriber(stream.entry));
+    expect(unsubscribes.every(Boolean)).toBe(true);
+    expect(addLiveEventSubscriber(subscriber("citizen-1", "CITIZEN").entry)).toBeNull();
+
+    unsubscribes[0]!();
+    expect(liveEventSubscriberCount()).toBe(MAX_LIVE_STREAMS_PER_USER - 1);
+
+    await stopLiveEvents();
+    expect(streams.slice(1).every((stream) => vi.mocked(stream.entry.close).mock.calls.length === 1)).toBe(true);
+    expect(liveEventSubscriberCount()).toBe(0);
+  });
+
+  it("formats Server-Sent Events messages", () => {
+    expect(formatServerSentEvent(3, "task", { taskId: "t-1" })).toBe('id: 3\nevent: task\ndata: {"taskId":"t-1"}\n\n');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Live events for the citizen and officer apps, pushed over the
+ * GET /api/v1/events/stream Server-Sent Events endpoint.
+ *
+ *   notification  — a new in-app notification            → its user
+ *   task          — a task created, claimed, assigned or  → officers posted in the
+ *                   released                                authority with the task's
+ *                                                           role, and the assignee
+ *   application   — an application changed state          → the applicant, and officers
+ *                                                           posted in its authority
+ *
+ * Events are hints to refresh, not a durable feed: nothing is replayed after a
+ * reconnect, and the apps fall back to polling while no stream is open. With
+ * REDIS_URL configured, events are published on one Redis channel and every
+ * API instance delivers them to its own streams; without it delivery is local
+ * to the instance that published.
+ *
+ * Publish after commit (queueAfterCommit) so a stream never announces a change
+ * that was rolled back.
+ */
+import type { RedisClientType } from "redis";
+import type pg from "pg";
+import type { UserPosting } from "./auth";
+import { logInfo, logWarn } from "./logger";
+import { getRedisClient } from "./providers/redis";
+import { queueAfterCommit } from "./after-commit";
+
+export type LiveEventType = "notification" | "task" | "application";
+
+/** Who may see an event: listed users, and/or officers posted in the authority (optionally by role). */
+export interface LiveEventAudience {
+  userIds?: string[];
+  authorityId?: string;
+  systemRoleIds?: string[];
+}
+
+export interface LiveEvent {
+  type: LiveEventType;
+  data: Record<string, unknown>;
+  audience: LiveEventAudience;
+}
+
+export interface LiveEventSubscriber {
+  userId: string;
+  userType: "CITIZEN" | "OFFICER" | "ADMIN";
+  postings: Array<Pick<UserPosting, "authority_id" | "system_role_ids">>;
+  send(type: LiveEventType, data: Record<string, unknown>): void;
+  close(): void;
+}
+
+export const LIVE_EVENTS_CHANNEL = "puda:live-events";
+export const MAX_LIVE_STREAMS_PER_USER = 5;
+/** Comment line sent on idle streams so proxies and load balancers keep them open */
+export const LIVE_STREAM_HEARTBEAT_MS = 25 * 1000;
+/** Reconnect delay suggested to clients (the SSE `retry` field) */
+export const LIVE_STREAM_RETRY_MS = 10 * 1000;
+
+const subscribers = new Map<string, Set<LiveEventSubscriber>>();
+let fanoutSubscriber: RedisClientType | null = null;
+
+export function liveEventsEnabled(): boolean {
+  return process.env.LIVE_EVENTS_ENABLED !== "false";
+}
+
+export function isLiveEventVisibleTo(
+  audience: LiveEventAudience,
+  subscriber: Pick<LiveEventSubscriber, "userId" | "userType" | "postings">
+): boolean {
+  if (audience.userIds?.includes(subscriber.userId)) return true;
+  if (!audience.authorityId || subscriber.userType !== "OFFICER") return false;
+  return subscriber.postings.some(
+    (posting) =>
+      posting.authority_id === audience.authorityId &&
+      (!audience.systemRoleIds?.length ||
+        audience.systemRoleIds.some((roleId) => posting.system_role_ids.includes(roleId)))
+  );
+}
+
+/** One Server-Sent Events message. */
+export function formatServerSentEvent(id: number, type: string, data: Record<string, unknown>): string {
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Register an open stream; returns null when the user already has the maximum open. */
+export function addLiveEventSubscriber(subscriber: LiveEventSubscriber): (() => void) | null {
+  const streams = subscribers.get(subscriber.userId) || new Set<LiveEventSubscriber>();
+  if (streams.size >= MAX_LIVE_STREAMS_PER_USER) return null;
+  streams.add(subscriber);
+  subscribers.set(subscriber.userId, streams);
+  return () => {
+    streams.delete(subscriber);
+    if (streams.size === 0 && subscribers.get(subscriber.userId) === streams) {
+      subscribers.delete(subscriber.userId);
+    }
+  };
+}
+
+export function liveEventSubscriberCount(): number {
+  let count = 0;
+  for (const streams of subscribers.values()) count += streams.size;
+  return count;
+}
+
+/** Deliver an event to the matching streams open on this instance. */
+export function deliverLiveEvent(event: LiveEvent): number {
+  let delivered = 0;
+  for (const streams of subscribers.values()) {
+    for (const subscriber of streams) {
+      if (!isLiveEventVisibleTo(event.audience, subscriber)) continue;
+      try {
+        subscriber.send(event.type, event.data);
+        delivered += 1;
+      } catch (error) {
+        logWarn("Live event delivery failed", {
+          type: event.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+  return delivered;
+}
+
+/**
+ * Publish an event to every instance's streams. Never throws: a failed
+ * publish only delays the change until the apps' next refresh.
+ */
+export async function publishLiveEvent(event: LiveEvent): Promise<void> {
+  if (!liveEventsEnabled()) return;
+  const publisher = getRedisClient();
+  if (fanoutSubscriber && publisher) {
+    try {
+      await publisher.publish(LIVE_EVENTS_CHANNEL, JSON.stringify(event));
+      return;
+    } catch (error) {
+      logWarn("Live event publish to Redis failed, delivering locally", {
+        type: event.type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  deliverLiveEvent(event);
+}
+
+/** Publish once the caller's transaction commits. */
+export function publishLiveEventAfterCommit(client: pg.PoolClient, event: LiveEvent): void {
+  queueAfterCommit(client, () => publishLiveEvent(event));
+}
+
+/**
+ * Subscribe this instance to the Redis fan-out channel. Needs the connected
+ * client from createRedisCache; a subscribed connection cannot issue other
+ * commands, so a duplicate is used.
+ */
+export async function startLiveEventFanout(): Promise<boolean> {
+  const client = getRedisClient();
+  if (!client || fanoutSubscriber) return Boolean(fanoutSubscriber);
+  const subscriber = client.duplicate() as RedisClientType;
+  subscriber.on("error", (err) => {
+    logWarn("Live event subscriber error", { error: err instanceof Error ? err.message : String(err) });
+  });
+  await subscriber.connect();
+  await subscriber.subscribe(LIVE_EVENTS_CHANNEL, (message) => {
+    try {
+      deliverLiveEvent(JSON.parse(message) as LiveEvent);
+    } catch (error) {
+      logWarn("Ignoring malformed live event", { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+  fanoutSubscriber = subscriber;
+  logInfo("Live event fan-out subscribed", { channel: LIVE_EVENTS_CHANNEL });
+  return true;
+}
+
+/** Close every open stream and the fan-out subscription. Call on app shutdown. */
+export async function stopLiveEvents(): Promise<void> {
+  for (const streams of subscribers.values()) {
+    for (const subscriber of streams) subscriber.close();
+  }
+  subscribers.clear();
+  if (fanoutSubscriber) {
+    const subscriber = fanoutSubscriber;
+    fanoutSubscriber = null;
+    await subscriber.quit().catch(() => undefined);
+  }
+}
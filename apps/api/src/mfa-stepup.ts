@@ -6,8 +6,10 @@ import { createSmsTransport } from "./transports/sms";
 import { isTestRuntime } from "./runtime-safety";
 
 export const MFA_PURPOSE_TASK_DECISION = "TASK_DECISION" as const;
+/** One code for a bulk inbox action, bound to the batch's task ids */
+export const MFA_PURPOSE_BULK_TASK_DECISION = "BULK_TASK_DECISION" as const;
 
-export type MfaChallengePurpose = typeof MFA_PURPOSE_TASK_DECISION;
+export type MfaChallengePurpose = typeof MFA_PURPOSE_TASK_DECISION | typeof MFA_PURPOSE_BULK_TASK_DECISION;
 
 type DeliveryChannel = "SMS" | "EMAIL";
 
@@ -15,6 +17,7 @@ export interface IssueMfaChallengeInput {
   userId: string;
   purpose: MfaChallengePurpose;
   taskId?: string;
+  taskIds?: string[];
   metadata?: Record<string, unknown>;
 }
 
@@ -39,6 +42,8 @@ export interface VerifyMfaChallengeInput {
   purpose: MfaChallengePurpose;
   code: string;
   taskId?: string;
+  /** Every task in the batch must be one the challenge was issued for */
+  taskIds?: string[];
 }
 
 export interface VerifyMfaChallengeResult {
@@ -117,10 +122,10 @@ async function sendMfaCode(
     taskId: taskId || null,
   };
   if (channel === "SMS") {
-    await smsTransport.send(userId, title, message, metadata);
+    await smsTransport.send({ userId }, title, message, metadata);
     return;
   }
-  await emailTransport.send(userId, title, message, metadata);
+  await emailTransport.send({ userId }, title, message, metadata);
 }
 
 export async function issueMfaChallenge(
@@ -147,7 +152,7 @@ export async function issueMfaChallenge(
       expiresAt.toISOString(),
       maxAttempts,
       channels,
-      JSON.stringify(input.metadata || {}),
+      JSON.stringify({ ...input.metadata, ...(input.taskIds ? { taskIds: input.taskIds } : {}) }),
     ]
   );
 
@@ -194,7 +199,7 @@ export async function verifyMfaChallenge(
   input: VerifyMfaChallengeInput
 ): Promise<VerifyMfaChallengeResult> {
   const challengeResult = await query(
-    `SELECT challenge_id, task_id, code_hash, expires_at, consumed_at, attempt_count, max_attempts
+    `SELECT challenge_id, task_id, code_hash, expires_at, consumed_at, attempt_count, max_attempts, metadata_jsonb
      FROM auth_mfa_challenge
      WHERE challenge_id = $1 AND user_id = $2 AND purpose = $3`,
     [input.challengeId, input.userId, input.purpose]
@@ -211,11 +216,18 @@ export async function verifyMfaChallenge(
     consumed_at: Date | null;
     attempt_count: number;
     max_attempts: number;
+    metadata_jsonb: { taskIds?: string[] } | null;
   };
 
   if (row.task_id && input.taskId && row.task_id !== input.taskId) {
     return { ok: false, error: "TASK_MISMATCH" };
   }
+  if (input.taskIds) {
+    const challengeTaskIds = new Set(row.metadata_jsonb?.taskIds || []);
+    if (!input.taskIds.every((taskId) => challengeTaskIds.has(taskId))) {
+      return { ok: false, error: "TASK_MISMATCH" };
+    }
+  }
 
   if (row.consumed_at) {
     return { ok: false, error: "CHALLENGE_ALREADY_USED" };
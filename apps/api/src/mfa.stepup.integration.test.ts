@@ -148,4 +148,102 @@ describe("Officer MFA step-up integration", () => {
       expect(error).not.toMatch(/^MFA_/);
     }
   });
+
+  it("verifies one MFA challenge for a bulk APPROVE and reports each task", async () => {
+    async function submitAndFindTask(label: string): Promise<string> {
+      const createRes = await app.inject({
+        method: "POST",
+        url: "/api/v1/applications",
+        headers: authHeader(citizenToken),
+        payload: {
+          authorityId: "PUDA",
+          serviceKey: "no_due_certificate",
+          applicantUserId: "test-citizen-1",
+          data: {
+            applicant: { full_name: `MFA Bulk ${label}` },
+            property: { upn: `MFA-BULK-${label}-${Date.now()}` },
+          },
+        },
+      });
+      expect(createRes.statusCode).toBe(200);
+      const draftArn = (JSON.parse(createRes.payload) as { arn: string }).arn;
+      const submitRes = await app.inject({
+        method: "POST",
+        url: `/api/v1/applications/${draftArn}/submit`,
+        headers: authHeader(citizenToken),
+      });
+      expect(submitRes.statusCode).toBe(200);
+      const submittedArn = (JSON.parse(submitRes.payload) as { submittedArn: string }).submittedArn;
+      const inboxRes = await app.inject({
+        method: "GET",
+        url: "/api/v1/tasks/inbox?authorityId=PUDA&status=PENDING",
+        headers: authHeader(officerToken),
+      });
+      const tasks = (JSON.parse(inboxRes.payload) as { tasks?: Array<{ task_id: string; arn: string }> }).tasks || [];
+      const task = tasks.find((entry) => entry.arn === submittedArn);
+      expect(task?.task_id).toBeTruthy();
+      return task!.task_id;
+    }
+
+    const taskIds = [await submitAndFindTask("A"), await submitAndFindTask("B")];
+
+    const noMfaRes = await app.inject({
+      method: "POST",
+      url: "/api/v1/tasks/bulk-actions",
+      headers: authHeader(officerToken),
+      payload: { taskIds, action: "APPROVE", remarks: "Bulk approve without MFA should fail" },
+    });
+    expect(noMfaRes.statusCode).toBe(403);
+    expect(JSON.parse(noMfaRes.payload).error).toBe("MFA_REQUIRED");
+
+    // A challenge for one task does not cover the batch
+    const singleRes = await app.inject({
+      method: "POST",
+      url: "/api/v1/auth/mfa/challenge",
+      headers: authHeader(officerToken),
+      payload: { purpose: "BULK_TASK_DECISION", taskIds: [taskIds[0]] },
+    });
+    expect(singleRes.statusCode).toBe(200);
+    const single = JSON.parse(singleRes.payload) as { challengeId: string; debugCode: string };
+    const mismatchRes = await app.inject({
+      method: "POST",
+      url: "/api/v1/tasks/bulk-actions",
+      headers: authHeader(officerToken),
+      payload: { taskIds, action: "APPROVE", mfaChallengeId: single.challengeId, mfaCode: single.debugCode },
+    });
+    expect(mismatchRes.statusCode).toBe(403);
+    expect(JSON.parse(mismatchRes.payload).error).toBe("MFA_CHALLENGE_INVALID");
+
+    const challengeRes = await app.inject({
+      method: "POST",
+      url: "/api/v1/auth/mfa/challenge",
+      headers: authHeader(officerToken),
+      payload: { purpose: "BULK_TASK_DECISION", taskIds },
+    });
+    expect(challengeRes.statusCode).toBe(200);
+    const challenge = JSON.parse(challengeRes.payload) as { challengeId: string; debugCode: string };
+    const bulkRes = await app.inject({
+      method: "POST",
+      url: "/api/v1/tasks/bulk-actions",
+      headers: authHeader(officerToken),
+      payload: {
+        taskIds,
+        action: "APPROVE",
+        remarks: "Bulk MFA gate should pass",
+        mfaChallengeId: challenge.challengeId,
+        mfaCode: challenge.debugCode,
+      },
+    });
+    // Individual transitions may still fail for workflow reasons; the batch is reported per task
+    expect(bulkRes.statusCode).toBe(200);
+    const report = JSON.parse(bulkRes.payload) as {
+      total: number;
+      succeeded: number;
+      failed: number;
+      results: Array<{ taskId: string; success: boolean }>;
+    };
+    expect(report.total).toBe(2);
+    expect(report.results.map((result) => result.taskId)).toEqual(taskIds);
+    expect(report.succeeded + report.failed).toBe(2);
+  });
 });
@@ -38,6 +38,8 @@ export const PUBLIC_ROUTES = [
   "/api/v1/auth/forgot-password",
   "/api/v1/auth/reset-password",
   "/api/v1/payments/callback",
+  "/api/v1/notification-logs/delivery-callback/sms",  // provider callbacks: HMAC-signed
+  "/api/v1/notification-logs/delivery-callback/email",
   ...(process.env.NODE_ENV !== "production" ? DEV_ONLY_ROUTES : []),
 ];
 
@@ -0,0 +1,183 @@
+/**
+ * SMS/email held back by citizen notification preferences
+ * (notification-preferences.ts):
+ *
+ *   QUIET_HOURS  — an SMS during the user's quiet hours, sent as-is once they end
+ *   DIGEST       — a low-priority event in digest mode, combined with the user's
+ *                  other held events on that channel into one message at the
+ *                  daily digest hour (NOTIFICATION_DIGEST_HOUR, IST, default 18)
+ *
+ * Due rows are claimed (sent_at set) before sending, so a crash mid-run skips
+ * rather than repeats them; each send is logged in notification_log.
+ *
+ * Run via POST /internal/jobs/deferred-notifications or the local setInterval
+ * fallback.
+ */
+import { query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { logError, logInfo } from "./logger";
+import type { OptionalChannel } from "./notification-preferences";
+import {
+  renderNotificationTemplate,
+  resolveNotificationTemplate,
+  type NotificationLanguage,
+} from "./notification-templates";
+
+export type DeferredReason = "QUIET_HOURS" | "DIGEST";
+
+export interface DeferNotificationInput {
+  userId: string;
+  arn: string;
+  event: string;
+  channel: OptionalChannel;
+  reason: DeferredReason;
+  language: NotificationLanguage;
+  title: string;
+  message: string;
+  metadata: Record<string, unknown>;
+  deliverAfter: Date;
+  /** Outbox delivery key; deferring the same key twice keeps the first row */
+  deliveryKey?: string;
+}
+
+export interface DeferredNotificationRunResult {
+  sent: number;
+  digests: number;
+  errors: string[];
+}
+
+type DeferredRow = {
+  deferred_id: string;
+  user_id: string;
+  arn: string | null;
+  event: string;
+  channel: "SMS" | "EMAIL";
+  reason: DeferredReason;
+  language: NotificationLanguage;
+  title: string;
+  message: string;
+  metadata_jsonb: Record<string, unknown>;
+};
+
+const RUN_BATCH_SIZE = 500;
+
+export function notificationDigestHour(): number {
+  const hour = Number(process.env.NOTIFICATION_DIGEST_HOUR ?? 18);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 18;
+}
+
+export async function deferNotification(input: DeferNotificationInput): Promise<string> {
+  const deferredId = uuidv4();
+  await query(
+    `INSERT INTO notification_deferred
+       (deferred_id, user_id, arn, event, channel, reason, language, title, message, metadata_jsonb, deliver_after,
+        delivery_key)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     ON CONFLICT (delivery_key) WHERE delivery_key IS NOT NULL DO NOTHING`,
+    [
+      deferredId,
+      input.userId,
+      input.arn,
+      input.event,
+      input.channel.toUpperCase(),
+      input.reason,
+      input.language,
+      input.title,
+      input.message,
+      JSON.stringify(input.metadata),
+      input.deliverAfter.toISOString(),
+      input.deliveryKey ?? null,
+    ]
+  );
+  return deferredId;
+}
+
+/** One line per held update under the digest header, oldest first. */
+export function buildDigestText(header: string, items: Array<{ title: string; arn: string | null }>): string {
+  const lines = items.map((item) => `• ${item.title}${item.arn ? ` (${item.arn})` : ""}`);
+  return [header, ...lines].join("\n");
+}
+
+async function sendDigest(rows: DeferredRow[]): Promise<void> {
+  const { sendOnChannel } = await import("./notifications");
+  const first = rows[0];
+  const header = renderNotificationTemplate(await resolveNotificationTemplate("NOTIFICATION_DIGEST", first.language), {});
+  const items = rows.map((row) => ({ title: row.title, arn: (row.metadata_jsonb.arn as string) || row.arn }));
+  await sendOnChannel(first.channel, { userId: first.user_id }, null, "NOTIFICATION_DIGEST", header.title,
+    buildDigestText(first.channel === "SMS" ? header.smsBody : header.body, items), {
+      event: "NOTIFICATION_DIGEST",
+      language: header.language,
+      dltTemplateId: first.channel === "SMS" ? header.dltTemplateId : null,
+      count: rows.length,
+    });
+}
+
+export async function runDeferredNotifications(): Promise<DeferredNotificationRunResult> {
+  const result: DeferredNotificationRunResult = { sent: 0, digests: 0, errors: [] };
+  try {
+    const claimed = await query(
+      `UPDATE notification_deferred SET sent_at = NOW()
+        WHERE deferred_id IN (
+          SELECT deferred_id FROM notification_deferred
+           WHERE sent_at IS NULL AND deliver_after <= NOW()
+           ORDER BY deliver_after ASC
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED)
+        RETURNING deferred_id, user_id, arn, event, channel, reason, language, title, message, metadata_jsonb, created_at`,
+      [RUN_BATCH_SIZE]
+    );
+    const rows = (claimed.rows as Array<DeferredRow & { created_at: Date }>).sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+    const { sendOnChannel } = await import("./notifications");
+    const digests = new Map<string, DeferredRow[]>();
+    for (const row of rows) {
+      if (row.reason === "DIGEST") {
+        const key = `${row.user_id}:${row.channel}`;
+        digests.set(key, [...(digests.get(key) || []), row]);
+        continue;
+      }
+      try {
+        await sendOnChannel(row.channel, { userId: row.user_id }, row.arn, row.event, row.title, row.message, row.metadata_jsonb);
+        result.sent += 1;
+      } catch (err: any) {
+        result.errors.push(`${row.deferred_id}: ${err?.message || "unknown_error"}`);
+      }
+    }
+    for (const [key, group] of digests) {
+      try {
+        await sendDigest(group);
+        result.digests += 1;
+      } catch (err: any) {
+        result.errors.push(`digest ${key}: ${err?.message || "unknown_error"}`);
+      }
+    }
+  } catch (err: any) {
+    result.errors.push(`Deferred notification run failed: ${err.message}`);
+  }
+
+  if (result.sent > 0 || result.digests > 0 || result.errors.length > 0) {
+    logInfo("Deferred notification run completed", {
+      sent: result.sent,
+      digests: result.digests,
+      errors: result.errors.length,
+    });
+  }
+  return result;
+}
+
+/**
+ * Start periodic delivery of deferred notifications.
+ * Default: runs every 5 minutes.
+ */
+export function startDeferredNotificationJob(intervalMs: number = 5 * 60 * 1000): NodeJS.Timeout {
+  logInfo("Starting deferred notification job", { intervalSeconds: intervalMs / 1000 });
+  const timer = setInterval(() => {
+    runDeferredNotifications().catch((err) => {
+      logError("Periodic deferred notification run failed", { error: err instanceof Error ? err.message : String(err) });
+    });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -14,7 +14,7 @@ import { v4 as uuidv4 } from "uuid";
 // ---------------------------------------------------------------------------
 
 export type NotificationChannel = "SMS" | "EMAIL" | "IN_APP";
-export type DeliveryStatus = "SENT" | "FAILED" | "DELIVERED" | "UNKNOWN";
+export type DeliveryStatus = "SENT" | "FAILED" | "DELIVERED" | "BOUNCED" | "UNKNOWN";
 
 export interface NotificationLogEntry {
   log_id: string;
@@ -46,6 +46,8 @@ export interface CreateLogEntryInput {
   status?: DeliveryStatus;
   providerRef?: string;
   failureReason?: string;
+  /** Outbox delivery key (see notifications.ts); a retry skips keys already sent */
+  deliveryKey?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -61,8 +63,8 @@ export async function logNotificationDelivery(
     `INSERT INTO notification_log
        (log_id, arn, user_id, notification_id,
         channel, template_code, recipient_address,
-        subject, body, status, provider_ref, failure_reason)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        subject, body, status, provider_ref, failure_reason, delivery_key)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
     [
       id,
       input.arn || null,
@@ -76,6 +78,7 @@ export async function logNotificationDelivery(
       input.status || "SENT",
       input.providerRef || null,
       input.failureReason || null,
+      input.deliveryKey || null,
     ]
   );
   return (await getLogEntry(id))!;
@@ -121,6 +124,20 @@ export async function getLogEntry(logId: string): Promise<NotificationLogEntry |
   return result.rows.length > 0 ? rowToLogEntry(result.rows[0]) : null;
 }
 
+/** The latest log entry for a provider's message reference on a channel. */
+export async function findLogByProviderRef(
+  channel: NotificationChannel,
+  providerRef: string
+): Promise<NotificationLogEntry | null> {
+  const result = await query(
+    `SELECT * FROM notification_log
+     WHERE channel = $1 AND provider_ref = $2
+     ORDER BY sent_at DESC LIMIT 1`,
+    [channel, providerRef]
+  );
+  return result.rows.length > 0 ? rowToLogEntry(result.rows[0]) : null;
+}
+
 /** Get all notification logs for an application (across all channels). */
 export async function getLogsForApplication(
   arn: string,
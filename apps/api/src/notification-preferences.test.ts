@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  nextDigestAt,
+  planChannelDelivery,
+  quietHoursEnd,
+  sanitizeNotificationPreferences,
+  type NotificationPreferences,
+} from "./notification-preferences";
+
+// 23:30 IST on 19 Oct 2026
+const lateEvening = new Date("2026-10-19T18:00:00Z");
+// 14:00 IST
+const afternoon = new Date("2026-10-19T08:30:00Z");
+const quietHours = { enabled: true, start: "22:00", end: "07:00" };
+
+describe("planChannelDelivery", () => {
+  const preferences: NotificationPreferences = {
+    channels: { payments: { sms: false }, application_status: { email: false } },
+    quietHours,
+    digest: true,
+  };
+
+  it("drops opted-out channels except for mandatory events", () => {
+    expect(planChannelDelivery(preferences, "APPLICATION_APPROVED", "email", afternoon, 18)).toEqual({ action: "SKIP" });
+    expect(planChannelDelivery(preferences, "APPLICATION_APPROVED", "sms", afternoon, 18)).toEqual({ action: "SEND" });
+    // DEMAND_RAISED is mandatory, so the payments SMS opt-out does not apply
+    expect(planChannelDelivery(preferences, "DEMAND_RAISED", "sms", afternoon, 18)).toEqual({ action: "SEND" });
+    expect(planChannelDelivery(preferences, "PAYMENT_RECEIVED", "sms", afternoon, 18)).toEqual({ action: "SKIP" });
+  });
+
+  it("holds low-priority events for the next digest", () => {
+    expect(planChannelDelivery(preferences, "QUERY_RESPONDED", "sms", afternoon, 18)).toEqual({
+      action: "DEFER",
+      reason: "DIGEST",
+      until: new Date("2026-10-19T12:30:00Z"),
+    });
+    expect(planChannelDelivery({ ...preferences, digest: false }, "QUERY_RESPONDED", "sms", afternoon, 18)).toEqual({
+      action: "SEND",
+    });
+  });
+
+  it("holds SMS during quiet hours, even for mandatory events, but not email", () => {
+    expect(planChannelDelivery(preferences, "QUERY_RAISED", "sms", lateEvening, 18)).toEqual({
+      action: "DEFER",
+      reason: "QUIET_HOURS",
+      until: new Date("2026-10-20T01:30:00Z"),
+    });
+    expect(planChannelDelivery(preferences, "QUERY_RAISED", "email", lateEvening, 18)).toEqual({ action: "SEND" });
+    expect(planChannelDelivery(undefined, "QUERY_RAISED", "sms", lateEvening, 18)).toEqual({ action: "SEND" });
+  });
+});
+
+describe("quiet hours and digest times", () => {
+  it("handles same-day and overnight windows in IST", () => {
+    expect(quietHoursEnd(quietHours, afternoon)).toBeNull();
+    expect(quietHoursEnd({ enabled: true, start: "13:00", end: "15:00" }, afternoon)).toEqual(
+      new Date("2026-10-19T09:30:00Z")
+    );
+    expect(quietHoursEnd({ ...quietHours, enabled: false }, lateEvening)).toBeNull();
+  });
+
+  it("schedules the digest for today or tomorrow", () => {
+    expect(nextDigestAt(afternoon, 9)).toEqual(new Date("2026-10-20T03:30:00Z"));
+    expect(nextDigestAt(afternoon, 18)).toEqual(new Date("2026-10-19T12:30:00Z"));
+  });
+});
+
+describe("sanitizeNotificationPreferences", () => {
+  it("keeps known categories, channels and well-formed quiet hours", () => {
+    expect(
+      sanitizeNotificationPreferences({
+        channels: { queries: { sms: false, fax: true }, marketing: { sms: false } },
+        quietHours: { enabled: true, start: "22:00", end: "7:00" },
+        digest: true,
+      })
+    ).toEqual({ channels: { queries: { sms: false } }, digest: true });
+    expect(sanitizeNotificationPreferences("off")).toBeUndefined();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Citizen notification preferences — which SMS/email a user wants per event
+ * category, SMS quiet hours and a daily digest for low-priority events. Stored
+ * as `preferences.notifications` in the user's profile (see profile.ts) and
+ * applied per recipient by notify().
+ *
+ * In-app notifications are always created: the inbox is the record. Mandatory
+ * events (a query with a deadline, a rejection, a demand) ignore opt-outs and
+ * the digest; quiet hours still hold their SMS until the quiet period ends.
+ *
+ * Pure and DB-free. Times are India Standard Time (UTC+05:30, no DST).
+ */
+import type { NotificationChannelKey } from "./notification-routing";
+
+export const NOTIFICATION_CATEGORIES = ["application_status", "queries", "payments", "inspections", "updates"] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+export type OptionalChannel = Extract<NotificationChannelKey, "sms" | "email">;
+export const OPTIONAL_CHANNELS: readonly OptionalChannel[] = ["sms", "email"];
+
+export interface QuietHours {
+  enabled: boolean;
+  /** "HH:MM", IST */
+  start: string;
+  end: string;
+}
+
+export interface NotificationPreferences {
+  /** Per category; a channel left out is on */
+  channels?: Partial<Record<NotificationCategory, Partial<Record<OptionalChannel, boolean>>>>;
+  quietHours?: QuietHours;
+  /** Hold low-priority events for one daily message per channel */
+  digest?: boolean;
+}
+
+export type DeliveryPlan =
+  | { action: "SEND" }
+  | { action: "SKIP" }
+  | { action: "DEFER"; reason: "QUIET_HOURS" | "DIGEST"; until: Date };
+
+const EVENT_CATEGORIES: Record<string, NotificationCategory> = {
+  APPLICATION_SUBMITTED: "application_status",
+  APPLICATION_RESUBMITTED: "application_status",
+  QUERY_RESPONDED: "application_status",
+  APPLICATION_APPROVED: "application_status",
+  APPLICATION_REJECTED: "application_status",
+  OUTPUT_ISSUED: "application_status",
+  QUERY_RAISED: "queries",
+  DOCUMENT_REQUESTED: "queries",
+  QUERY_DEADLINE_EXPIRED: "queries",
+  DEMAND_RAISED: "payments",
+  PAYMENT_RECEIVED: "payments",
+  INSTALLMENT_PLAN_CREATED: "payments",
+  REFUND_REQUESTED: "payments",
+  REFUND_APPROVED: "payments",
+  REFUND_REJECTED: "payments",
+  REFUND_PROCESSED: "payments",
+  INSPECTION_SCHEDULED: "inspections",
+};
+
+/** Always sent on the service's configured channels, whatever the opt-outs. */
+export const MANDATORY_NOTIFICATION_EVENTS: readonly string[] = [
+  "QUERY_RAISED",
+  "DOCUMENT_REQUESTED",
+  "QUERY_DEADLINE_EXPIRED",
+  "APPLICATION_REJECTED",
+  "DEMAND_RAISED",
+  "INSTALLMENT_PLAN_CREATED",
+];
+
+/** Acknowledgements and progress updates that can wait for the daily digest. */
+export const LOW_PRIORITY_NOTIFICATION_EVENTS: readonly string[] = [
+  "APPLICATION_SUBMITTED",
+  "APPLICATION_RESUBMITTED",
+  "QUERY_RESPONDED",
+  "PAYMENT_RECEIVED",
+  "REFUND_REQUESTED",
+];
+
+const IST_OFFSET_MINUTES = 330;
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function notificationCategory(event: string): NotificationCategory {
+  return EVENT_CATEGORIES[event] || "updates";
+}
+
+export function isMandatoryNotificationEvent(event: string): boolean {
+  return MANDATORY_NOTIFICATION_EVENTS.includes(event);
+}
+
+function isLowPriorityEvent(event: string): boolean {
+  return LOW_PRIORITY_NOTIFICATION_EVENTS.includes(event) || notificationCategory(event) === "updates";
+}
+
+function parseTime(value: string): number {
+  const match = TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+}
+
+function istMinuteOfDay(now: Date): number {
+  const utcMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+  return (utcMinutes + IST_OFFSET_MINUTES) % MINUTES_PER_DAY;
+}
+
+/** `now` advanced to the start of the given IST minute of day, today or tomorrow. */
+function nextIstMinute(now: Date, minuteOfDay: number): Date {
+  const wait = (minuteOfDay - istMinuteOfDay(now) + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const next = new Date(now.getTime() + wait * 60_000);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
+
+/** When the quiet period `now` falls in ends, or null outside quiet hours. */
+export function quietHoursEnd(quietHours: QuietHours | undefined, now: Date): Date | null {
+  if (!quietHours?.enabled) return null;
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) return null;
+  const minute = istMinuteOfDay(now);
+  const quiet = start < end ? minute >= start && minute < end : minute >= start || minute < end;
+  return quiet ? nextIstMinute(now, end) : null;
+}
+
+/** The next daily digest run after `now`, at `digestHour`:00 IST. */
+export function nextDigestAt(now: Date, digestHour: number): Date {
+  return nextIstMinute(now, digestHour * 60);
+}
+
+/**
+ * Whether an event goes out on an SMS/email channel now, is dropped by the
+ * user's opt-out, or waits for quiet hours to end or the daily digest.
+ */
+export function planChannelDelivery(
+  preferences: NotificationPreferences | undefined,
+  event: string,
+  channel: OptionalChannel,
+  now: Date,
+  digestHour: number
+): DeliveryPlan {
+  const mandatory = isMandatoryNotificationEvent(event);
+  if (!mandatory && preferences?.channels?.[notificationCategory(event)]?.[channel] === false) {
+    return { action: "SKIP" };
+  }
+  if (!mandatory && preferences?.digest && isLowPriorityEvent(event)) {
+    return { action: "DEFER", reason: "DIGEST", until: nextDigestAt(now, digestHour) };
+  }
+  if (channel === "sms") {
+    const until = quietHoursEnd(preferences?.quietHours, now);
+    if (until) return { action: "DEFER", reason: "QUIET_HOURS", until };
+  }
+  return { action: "SEND" };
+}
+
+/** The notifications section of stored profile preferences, keeping only well-formed fields. */
+export function sanitizeNotificationPreferences(value: unknown): NotificationPreferences | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const input = value as Record<string, any>;
+  const sanitized: NotificationPreferences = {};
+
+  if (input.channels && typeof input.channels === "object") {
+    const channels: NonNullable<NotificationPreferences["channels"]> = {};
+    for (const category of NOTIFICATION_CATEGORIES) {
+      const entry = input.channels[category];
+      if (!entry || typeof entry !== "object") continue;
+      const choice: Partial<Record<OptionalChannel, boolean>> = {};
+      for (const channel of OPTIONAL_CHANNELS) {
+        if (typeof entry[channel] === "boolean") choice[channel] = entry[channel];
+      }
+      if (Object.keys(choice).length > 0) channels[category] = choice;
+    }
+    sanitized.channels = channels;
+  }
+
+  const quiet = input.quietHours;
+  if (
+    quiet &&
+    typeof quiet === "object" &&
+    typeof quiet.enabled === "boolean" &&
+    TIME_PATTERN.test(String(quiet.start)) &&
+    TIME_PATTERN.test(String(quiet.end))
+  ) {
+    sanitized.quietHours = { enabled: quiet.enabled, start: quiet.start, end: quiet.end };
+  }
+
+  if (typeof input.digest === "boolean") sanitized.digest = input.digest;
+  return sanitized;
+}
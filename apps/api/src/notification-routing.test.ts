@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { contactsFromApplicationData, lintNotificationsConfig, routeForEvent } from "./notification-routing";
+
+const config = {
+  events: [
+    { event: "QUERY_RAISED", channels: ["sms", "in_app"], recipients: ["applicant", "co_applicants"] },
+    { event: "SLA_BREACH", channels: ["email"], recipients: ["supervisor"] },
+  ],
+};
+
+describe("routeForEvent", () => {
+  it("uses the channels and recipients listed for the event", () => {
+    expect(routeForEvent(config, "QUERY_RAISED")).toEqual({
+      channels: ["sms", "in_app"],
+      recipients: ["applicant", "co_applicants"],
+      listed: true,
+    });
+    expect(routeForEvent(config, "SLA_BREACH").recipients).toEqual(["supervisor"]);
+  });
+
+  it("sends unlisted events and unconfigured services to the applicant on every channel", () => {
+    const fallback = { channels: ["sms", "email", "in_app"], recipients: ["applicant"], listed: false };
+    expect(routeForEvent(config, "PAYMENT_RECEIVED")).toEqual(fallback);
+    expect(routeForEvent(undefined, "PAYMENT_RECEIVED")).toEqual(fallback);
+  });
+});
+
+describe("lintNotificationsConfig", () => {
+  it("reports unknown channels, recipients and duplicate events", () => {
+    expect(lintNotificationsConfig(config)).toEqual([]);
+    expect(
+      lintNotificationsConfig({
+        events: [
+          { event: "QUERY_RAISED", channels: ["fax"], recipients: ["applicant"] },
+          { event: "QUERY_RAISED", channels: ["sms"], recipients: ["neighbour"] },
+        ],
+      })
+    ).toEqual([
+      "QUERY_RAISED: unknown channel fax",
+      "QUERY_RAISED: listed more than once",
+      "QUERY_RAISED: unknown recipient neighbour",
+    ]);
+    expect(lintNotificationsConfig({})).toEqual(["events must be an array"]);
+  });
+});
+
+describe("contactsFromApplicationData", () => {
+  const data = {
+    parties: [
+      { role: "CO_OWNER", name: "Asha", mobile: "9876500001" },
+      { role: "WITNESS", name: "Ravi", mobile: "9876500002" },
+      { role: "JOINT_ALLOTTEE", name: "No Contact" },
+    ],
+    legal_heir: { name: "Meena", mobile: "9876500003", email: "meena@example.com", relationship: "DAUGHTER" },
+    professionals: [{ role: "ARCHITECT", name: "Studio K", email: "studio@example.com" }],
+  };
+
+  it("picks co-applicants, legal heirs and professionals with a phone or email", () => {
+    expect(contactsFromApplicationData(data, "co_applicants")).toEqual([
+      { name: "Asha", phone: "9876500001", email: undefined },
+    ]);
+    expect(contactsFromApplicationData(data, "legal_heirs")).toEqual([
+      { name: "Meena", phone: "9876500003", email: "meena@example.com" },
+    ]);
+    expect(contactsFromApplicationData(data, "professional")).toEqual([
+      { name: "Studio K", phone: undefined, email: "studio@example.com" },
+    ]);
+  });
+
+  it("yields nothing for account-based recipients", () => {
+    expect(contactsFromApplicationData(data, "applicant")).toEqual([]);
+    expect(contactsFromApplicationData(null, "legal_heirs")).toEqual([]);
+  });
+});
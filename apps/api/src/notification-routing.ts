@@ -0,0 +1,145 @@
+/**
+ * Notification routing from a service version's notifications.json.
+ *
+ *   { "events": [
+ *       { "event": "QUERY_RAISED", "channels": ["sms", "in_app"],
+ *         "recipients": ["applicant", "co_applicants"] } ] }
+ *
+ * Recipients:
+ *   applicant         the applicant's account
+ *   assigned_officer  officers holding the application's open tasks
+ *   supervisor        supervisor-role officers posted in the authority
+ *   co_applicants     CO_OWNER / JOINT_ALLOTTEE parties in the application data
+ *   legal_heirs       legal heir(s) captured on the form
+ *   professional      architect/engineer/... on record in the application data
+ *
+ * Parties without an account receive SMS/email only; in-app notifications
+ * need a user. Events a service does not list (and services without
+ * notifications.json) keep the original behaviour: every channel, to the
+ * applicant.
+ *
+ * Kept free of database-backed modules so service-pack preflight can lint
+ * notifications.json; recipient lookup lives in notifications.ts.
+ */
+
+export type NotificationChannelKey = "sms" | "email" | "in_app";
+export type NotificationRecipientKind =
+  | "applicant"
+  | "assigned_officer"
+  | "supervisor"
+  | "co_applicants"
+  | "legal_heirs"
+  | "professional";
+
+export interface NotificationEventConfig {
+  event: string;
+  channels?: string[];
+  recipients?: string[];
+}
+
+export interface NotificationsConfig {
+  events?: NotificationEventConfig[];
+}
+
+export interface NotificationRoute {
+  channels: NotificationChannelKey[];
+  recipients: NotificationRecipientKind[];
+  /** Whether notifications.json lists the event (otherwise the default route applies). */
+  listed: boolean;
+}
+
+/** A party named in the application data, reached by SMS/email only. */
+export interface NotificationContact {
+  name?: string;
+  phone?: string;
+  email?: string;
+}
+
+export const NOTIFICATION_CHANNELS: NotificationChannelKey[] = ["sms", "email", "in_app"];
+export const NOTIFICATION_RECIPIENTS: NotificationRecipientKind[] = [
+  "applicant",
+  "assigned_officer",
+  "supervisor",
+  "co_applicants",
+  "legal_heirs",
+  "professional",
+];
+
+const CO_APPLICANT_PARTY_ROLES = new Set(["CO_OWNER", "JOINT_ALLOTTEE"]);
+
+function isChannel(value: string): value is NotificationChannelKey {
+  return (NOTIFICATION_CHANNELS as string[]).includes(value);
+}
+
+function isRecipient(value: string): value is NotificationRecipientKind {
+  return (NOTIFICATION_RECIPIENTS as string[]).includes(value);
+}
+
+/** Channels and recipients for an event under the service's config (if any). */
+export function routeForEvent(config: NotificationsConfig | null | undefined, event: string): NotificationRoute {
+  const events = Array.isArray(config?.events) ? config.events : [];
+  const entry = events.find((candidate) => candidate?.event === event);
+  if (!entry) {
+    return { channels: [...NOTIFICATION_CHANNELS], recipients: ["applicant"], listed: false };
+  }
+  return {
+    channels: (entry.channels || []).filter(isChannel),
+    recipients: (entry.recipients || ["applicant"]).filter(isRecipient),
+    listed: true,
+  };
+}
+
+/** Problems in a notifications.json, for service-pack preflight. */
+export function lintNotificationsConfig(config: unknown): string[] {
+  const problems: string[] = [];
+  const events = (config as NotificationsConfig | null)?.events;
+  if (!Array.isArray(events)) return ["events must be an array"];
+  const seen = new Set<string>();
+  for (const entry of events) {
+    if (!entry || typeof entry.event !== "string" || !entry.event) {
+      problems.push("every entry needs an event");
+      continue;
+    }
+    if (seen.has(entry.event)) problems.push(`${entry.event}: listed more than once`);
+    seen.add(entry.event);
+    for (const channel of entry.channels || []) {
+      if (!isChannel(channel)) problems.push(`${entry.event}: unknown channel ${channel}`);
+    }
+    for (const recipient of entry.recipients || []) {
+      if (!isRecipient(recipient)) problems.push(`${entry.event}: unknown recipient ${recipient}`);
+    }
+  }
+  return problems;
+}
+
+function toContact(value: any): NotificationContact | null {
+  if (!value || typeof value !== "object") return null;
+  const contact: NotificationContact = {
+    name: typeof value.name === "string" ? value.name : undefined,
+    phone: typeof value.mobile === "string" && value.mobile ? value.mobile : undefined,
+    email: typeof value.email === "string" && value.email ? value.email : undefined,
+  };
+  return contact.phone || contact.email ? contact : null;
+}
+
+/**
+ * Parties of a kind found in the application data. Accounts (applicant,
+ * officers) are resolved from the database instead and yield nothing here.
+ */
+export function contactsFromApplicationData(
+  data: Record<string, any> | null | undefined,
+  kind: NotificationRecipientKind
+): NotificationContact[] {
+  if (!data) return [];
+  let candidates: any[] = [];
+  if (kind === "co_applicants") {
+    candidates = (Array.isArray(data.parties) ? data.parties : []).filter((party: any) =>
+      CO_APPLICANT_PARTY_ROLES.has(party?.role)
+    );
+  } else if (kind === "legal_heirs") {
+    candidates = Array.isArray(data.legal_heirs) ? data.legal_heirs : [data.legal_heir];
+  } else if (kind === "professional") {
+    candidates = Array.isArray(data.professionals) ? data.professionals : [];
+  }
+  return candidates.map(toContact).filter((contact): contact is NotificationContact => contact !== null);
+}
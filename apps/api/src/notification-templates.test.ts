@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({ rows: [] as any[] }));
+vi.mock("./db", () => ({
+  query: vi.fn(async () => ({ rows: db.rows })),
+}));
+
+import {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  defaultNotificationTemplate,
+  invalidateNotificationTemplateCache,
+  languageFromPreferences,
+  NOTIFICATION_LANGUAGES,
+  renderNotificationTemplate,
+  renderTemplateText,
+  resolveNotificationTemplate,
+  unknownTemplateVariables,
+} from "./notification-templates";
+
+describe("notification template defaults", () => {
+  it("ship every event in every language with known variables only", () => {
+    for (const [event, set] of Object.entries(DEFAULT_NOTIFICATION_TEMPLATES)) {
+      for (const language of NOTIFICATION_LANGUAGES) {
+        const text = set[language];
+        expect(text, `${event}/${language}`).toBeDefined();
+        expect(unknownTemplateVariables(`${text.title} ${text.body}`), `${event}/${language}`).toEqual([]);
+      }
+    }
+  });
+
+  it("fall back to the generic update text for unknown events", () => {
+    expect(defaultNotificationTemplate("SOMETHING_NEW", "hi").title).toBe("आवेदन अपडेट");
+  });
+});
+
+describe("rendering", () => {
+  it("substitutes variables and leaves missing ones empty", () => {
+    expect(renderTemplateText("{{arn}} due {{ dueDate }}.{{amount}}", { arn: "PUDA/1", dueDate: "01/11/2026" })).toBe(
+      "PUDA/1 due 01/11/2026."
+    );
+    expect(unknownTemplateVariables("{{arn}} {{plotNo}} {{plotNo}}")).toEqual(["plotNo"]);
+  });
+
+  it("uses the SMS body when one is set and the body otherwise", () => {
+    const template = {
+      event: "QUERY_RAISED",
+      language: "en" as const,
+      source: "CUSTOM" as const,
+      title: "Query",
+      body: "Query on {{arn}}.",
+      smsBody: "PUDA: query on {{arn}}",
+      dltTemplateId: "1107161234567890123",
+    };
+    expect(renderNotificationTemplate(template, { arn: "A-1" })).toEqual({
+      title: "Query",
+      body: "Query on A-1.",
+      smsBody: "PUDA: query on A-1",
+      dltTemplateId: "1107161234567890123",
+      language: "en",
+    });
+    expect(renderNotificationTemplate({ ...template, smsBody: null }, { arn: "A-1" }).smsBody).toBe("Query on A-1.");
+  });
+
+  it("reads the language preference, defaulting to English", () => {
+    expect(languageFromPreferences({ language: "pa" })).toBe("pa");
+    expect(languageFromPreferences({ language: "none" })).toBe("en");
+    expect(languageFromPreferences(null)).toBe("en");
+  });
+});
+
+describe("resolveNotificationTemplate", () => {
+  beforeEach(() => {
+    db.rows = [];
+    invalidateNotificationTemplateCache();
+  });
+
+  it("prefers an admin override in the requested language", async () => {
+    db.rows = [{ event: "APPLICATION_APPROVED", language: "hi", title: "स्वीकृत", body: "{{arn}} स्वीकृत" }];
+    const template = await resolveNotificationTemplate("APPLICATION_APPROVED", "hi");
+    expect(template).toMatchObject({ source: "CUSTOM", title: "स्वीकृत" });
+    expect((await resolveNotificationTemplate("APPLICATION_APPROVED", "pa")).source).toBe("DEFAULT");
+  });
+
+  it("uses the English override of an event without shipped defaults", async () => {
+    db.rows = [{ event: "LEASE_RENEWED", language: "en", title: "Lease Renewed", body: "Lease for {{arn}} renewed." }];
+    const template = await resolveNotificationTemplate("LEASE_RENEWED", "pa");
+    expect(template).toMatchObject({ source: "CUSTOM", language: "en", title: "Lease Renewed" });
+  });
+});
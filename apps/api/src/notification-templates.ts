@@ -0,0 +1,360 @@
+/**
+ * Notification templates keyed by event and language (en/hi/pa).
+ *
+ * Defaults ship below; admins override individual event/language pairs in
+ * notification_template. Text uses {{variable}} placeholders:
+ *
+ *   arn, serviceName, applicantName, dueDate, amount, inspectionDate, stage
+ *
+ * A template may carry a separate smsBody and the DLT template id it is
+ * registered under — operators reject transactional SMS whose text does not
+ * match the registered template, so the SMS wording is kept apart from the
+ * in-app/email body. Recipients get their `language` preference from
+ * profile.ts (hi/pa); everything else falls back to English.
+ */
+import { query } from "./db";
+
+export type NotificationLanguage = "en" | "hi" | "pa";
+
+export interface NotificationTemplateText {
+  title: string;
+  body: string;
+  smsBody?: string | null;
+  dltTemplateId?: string | null;
+}
+
+export interface NotificationTemplate extends NotificationTemplateText {
+  event: string;
+  language: NotificationLanguage;
+  source: "DEFAULT" | "CUSTOM";
+  updatedAt?: Date;
+  updatedByUserId?: string | null;
+}
+
+export interface RenderedNotification {
+  title: string;
+  body: string;
+  smsBody: string;
+  dltTemplateId: string | null;
+  language: NotificationLanguage;
+}
+
+export type NotificationTemplateVariables = Partial<Record<NotificationTemplateVariable, string>>;
+
+export const NOTIFICATION_LANGUAGES: NotificationLanguage[] = ["en", "hi", "pa"];
+export const NOTIFICATION_TEMPLATE_VARIABLES = [
+  "arn",
+  "serviceName",
+  "applicantName",
+  "dueDate",
+  "amount",
+  "inspectionDate",
+  "stage",
+] as const;
+export type NotificationTemplateVariable = (typeof NOTIFICATION_TEMPLATE_VARIABLES)[number];
+
+/** Used for events without a template of their own. */
+export const FALLBACK_NOTIFICATION_EVENT = "APPLICATION_UPDATE";
+
+const TEMPLATE_CACHE_TTL_MS = 60 * 1000;
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+type TemplateSet = Record<NotificationLanguage, NotificationTemplateText>;
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<string, TemplateSet> = {
+  APPLICATION_SUBMITTED: {
+    en: { title: "Application Submitted", body: "Your application {{arn}} for {{serviceName}} has been submitted successfully." },
+    hi: { title: "आवेदन जमा हुआ", body: "{{serviceName}} के लिए आपका आवेदन {{arn}} सफलतापूर्वक जमा हो गया है।" },
+    pa: { title: "ਅਰਜ਼ੀ ਜਮ੍ਹਾਂ ਹੋਈ", body: "{{serviceName}} ਲਈ ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਸਫਲਤਾਪੂਰਵਕ ਜਮ੍ਹਾਂ ਹੋ ਗਈ ਹੈ।" },
+  },
+  QUERY_RAISED: {
+    en: { title: "Query Raised", body: "A query has been raised on your application {{arn}}. Please respond by {{dueDate}}." },
+    hi: { title: "प्रश्न उठाया गया", body: "आपके आवेदन {{arn}} पर एक प्रश्न उठाया गया है। कृपया {{dueDate}} तक उत्तर दें।" },
+    pa: { title: "ਸਵਾਲ ਉਠਾਇਆ ਗਿਆ", body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} 'ਤੇ ਇੱਕ ਸਵਾਲ ਉਠਾਇਆ ਗਿਆ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ {{dueDate}} ਤੱਕ ਜਵਾਬ ਦਿਓ।" },
+  },
+  QUERY_RESPONDED: {
+    en: { title: "Query Responded", body: "Your response to the query on {{arn}} has been received." },
+    hi: { title: "प्रश्न का उत्तर प्राप्त", body: "आवेदन {{arn}} पर प्रश्न का आपका उत्तर प्राप्त हो गया है।" },
+    pa: { title: "ਸਵਾਲ ਦਾ ਜਵਾਬ ਪ੍ਰਾਪਤ", body: "ਅਰਜ਼ੀ {{arn}} 'ਤੇ ਸਵਾਲ ਦਾ ਤੁਹਾਡਾ ਜਵਾਬ ਪ੍ਰਾਪਤ ਹੋ ਗਿਆ ਹੈ।" },
+  },
+  APPLICATION_RESUBMITTED: {
+    en: { title: "Application Resubmitted", body: "Your application {{arn}} has been resubmitted for processing." },
+    hi: { title: "आवेदन पुनः जमा हुआ", body: "आपका आवेदन {{arn}} कार्यवाही के लिए पुनः जमा हो गया है।" },
+    pa: { title: "ਅਰਜ਼ੀ ਮੁੜ ਜਮ੍ਹਾਂ ਹੋਈ", body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਕਾਰਵਾਈ ਲਈ ਮੁੜ ਜਮ੍ਹਾਂ ਹੋ ਗਈ ਹੈ।" },
+  },
+  APPLICATION_APPROVED: {
+    en: { title: "Application Approved", body: "Your application {{arn}} for {{serviceName}} has been approved." },
+    hi: { title: "आवेदन स्वीकृत", body: "{{serviceName}} के लिए आपका आवेदन {{arn}} स्वीकृत हो गया है।" },
+    pa: { title: "ਅਰਜ਼ੀ ਮਨਜ਼ੂਰ", body: "{{serviceName}} ਲਈ ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਮਨਜ਼ੂਰ ਹੋ ਗਈ ਹੈ।" },
+  },
+  APPLICATION_REJECTED: {
+    en: { title: "Application Rejected", body: "Your application {{arn}} for {{serviceName}} has been rejected." },
+    hi: { title: "आवेदन अस्वीकृत", body: "{{serviceName}} के लिए आपका आवेदन {{arn}} अस्वीकृत कर दिया गया है।" },
+    pa: { title: "ਅਰਜ਼ੀ ਰੱਦ", body: "{{serviceName}} ਲਈ ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਰੱਦ ਕਰ ਦਿੱਤੀ ਗਈ ਹੈ।" },
+  },
+  OUTPUT_ISSUED: {
+    en: { title: "Certificate Ready", body: "Your certificate for {{arn}} is ready for download." },
+    hi: { title: "प्रमाणपत्र तैयार", body: "आवेदन {{arn}} का आपका प्रमाणपत्र डाउनलोड के लिए तैयार है।" },
+    pa: { title: "ਸਰਟੀਫਿਕੇਟ ਤਿਆਰ", body: "ਅਰਜ਼ੀ {{arn}} ਦਾ ਤੁਹਾਡਾ ਸਰਟੀਫਿਕੇਟ ਡਾਊਨਲੋਡ ਲਈ ਤਿਆਰ ਹੈ।" },
+  },
+  TASK_ASSIGNED: {
+    en: { title: "Application Under Review", body: "Your application {{arn}} is now under review." },
+    hi: { title: "आवेदन की समीक्षा जारी", body: "आपके आवेदन {{arn}} की अब समीक्षा की जा रही है।" },
+    pa: { title: "ਅਰਜ਼ੀ ਦੀ ਸਮੀਖਿਆ ਜਾਰੀ", body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਦੀ ਹੁਣ ਸਮੀਖਿਆ ਕੀਤੀ ਜਾ ਰਹੀ ਹੈ।" },
+  },
+  DOCUMENT_REQUESTED: {
+    en: { title: "Document Required", body: "Additional documents are required for {{arn}}." },
+    hi: { title: "दस्तावेज़ आवश्यक", body: "आवेदन {{arn}} के लिए अतिरिक्त दस्तावेज़ आवश्यक हैं।" },
+    pa: { title: "ਦਸਤਾਵੇਜ਼ ਲੋੜੀਂਦੇ", body: "ਅਰਜ਼ੀ {{arn}} ਲਈ ਵਾਧੂ ਦਸਤਾਵੇਜ਼ ਲੋੜੀਂਦੇ ਹਨ।" },
+  },
+  DEMAND_RAISED: {
+    en: { title: "Fee Demand Raised", body: "A fee demand has been raised for your application {{arn}}. Please pay it to continue processing." },
+    hi: { title: "शुल्क मांग जारी", body: "आपके आवेदन {{arn}} के लिए शुल्क की मांग जारी की गई है। कार्यवाही जारी रखने के लिए कृपया भुगतान करें।" },
+    pa: { title: "ਫੀਸ ਦੀ ਮੰਗ ਜਾਰੀ", body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਲਈ ਫੀਸ ਦੀ ਮੰਗ ਜਾਰੀ ਕੀਤੀ ਗਈ ਹੈ। ਕਾਰਵਾਈ ਜਾਰੀ ਰੱਖਣ ਲਈ ਕਿਰਪਾ ਕਰਕੇ ਭੁਗਤਾਨ ਕਰੋ।" },
+  },
+  PAYMENT_RECEIVED: {
+    en: { title: "Payment Received", body: "Your payment of ₹{{amount}} for {{arn}} has been received." },
+    hi: { title: "भुगतान प्राप्त", body: "आवेदन {{arn}} के लिए आपका ₹{{amount}} का भुगतान प्राप्त हो गया है।" },
+    pa: { title: "ਭੁਗਤਾਨ ਪ੍ਰਾਪਤ", body: "ਅਰਜ਼ੀ {{arn}} ਲਈ ਤੁਹਾਡਾ ₹{{amount}} ਦਾ ਭੁਗਤਾਨ ਪ੍ਰਾਪਤ ਹੋ ਗਿਆ ਹੈ।" },
+  },
+  INSTALLMENT_PLAN_CREATED: {
+    en: { title: "Installment Plan Set Up", body: "Your dues for {{arn}} can now be paid in installments. The first installment of ₹{{amount}} is due on {{dueDate}}." },
+    hi: { title: "किस्त योजना बनाई गई", body: "आवेदन {{arn}} के आपके बकाया का भुगतान अब किस्तों में किया जा सकता है। ₹{{amount}} की पहली किस्त {{dueDate}} तक देय है।" },
+    pa: { title: "ਕਿਸ਼ਤ ਯੋਜਨਾ ਬਣਾਈ ਗਈ", body: "ਅਰਜ਼ੀ {{arn}} ਦੇ ਤੁਹਾਡੇ ਬਕਾਏ ਦਾ ਭੁਗਤਾਨ ਹੁਣ ਕਿਸ਼ਤਾਂ ਵਿੱਚ ਕੀਤਾ ਜਾ ਸਕਦਾ ਹੈ। ₹{{amount}} ਦੀ ਪਹਿਲੀ ਕਿਸ਼ਤ {{dueDate}} ਤੱਕ ਦੇਣਯੋਗ ਹੈ।" },
+  },
+  REFUND_REQUESTED: {
+    en: { title: "Refund Requested", body: "Your refund request of ₹{{amount}} for {{arn}} has been received and is under review." },
+    hi: { title: "धनवापसी अनुरोध प्राप्त", body: "आवेदन {{arn}} के लिए ₹{{amount}} का आपका धनवापसी अनुरोध प्राप्त हो गया है और समीक्षाधीन है।" },
+    pa: { title: "ਰਿਫੰਡ ਬੇਨਤੀ ਪ੍ਰਾਪਤ", body: "ਅਰਜ਼ੀ {{arn}} ਲਈ ₹{{amount}} ਦੀ ਤੁਹਾਡੀ ਰਿਫੰਡ ਬੇਨਤੀ ਪ੍ਰਾਪਤ ਹੋ ਗਈ ਹੈ ਅਤੇ ਸਮੀਖਿਆ ਅਧੀਨ ਹੈ।" },
+  },
+  REFUND_APPROVED: {
+    en: { title: "Refund Approved", body: "Your refund of ₹{{amount}} for {{arn}} has been approved and will be credited to your bank account." },
+    hi: { title: "धनवापसी स्वीकृत", body: "आवेदन {{arn}} के लिए ₹{{amount}} की आपकी धनवापसी स्वीकृत हो गई है और आपके बैंक खाते में जमा की जाएगी।" },
+    pa: { title: "ਰਿਫੰਡ ਮਨਜ਼ੂਰ", body: "ਅਰਜ਼ੀ {{arn}} ਲਈ ₹{{amount}} ਦਾ ਤੁਹਾਡਾ ਰਿਫੰਡ ਮਨਜ਼ੂਰ ਹੋ ਗਿਆ ਹੈ ਅਤੇ ਤੁਹਾਡੇ ਬੈਂਕ ਖਾਤੇ ਵਿੱਚ ਜਮ੍ਹਾਂ ਕੀਤਾ ਜਾਵੇਗਾ।" },
+  },
+  REFUND_REJECTED: {
+    en: { title: "Refund Rejected", body: "Your refund request of ₹{{amount}} for {{arn}} has been rejected. Please check the application for the reason." },
+    hi: { title: "धनवापसी अस्वीकृत", body: "आवेदन {{arn}} के लिए ₹{{amount}} का आपका धनवापसी अनुरोध अस्वीकार कर दिया गया है। कारण के लिए कृपया आवेदन देखें।" },
+    pa: { title: "ਰਿਫੰਡ ਰੱਦ", body: "ਅਰਜ਼ੀ {{arn}} ਲਈ ₹{{amount}} ਦੀ ਤੁਹਾਡੀ ਰਿਫੰਡ ਬੇਨਤੀ ਰੱਦ ਕਰ ਦਿੱਤੀ ਗਈ ਹੈ। ਕਾਰਨ ਲਈ ਕਿਰਪਾ ਕਰਕੇ ਅਰਜ਼ੀ ਵੇਖੋ।" },
+  },
+  REFUND_PROCESSED: {
+    en: { title: "Refund Paid", body: "Your refund of ₹{{amount}} for {{arn}} has been transferred to your bank account." },
+    hi: { title: "धनवापसी भुगतान", body: "आवेदन {{arn}} के लिए ₹{{amount}} की आपकी धनवापसी आपके बैंक खाते में भेज दी गई है।" },
+    pa: { title: "ਰਿਫੰਡ ਭੁਗਤਾਨ", body: "ਅਰਜ਼ੀ {{arn}} ਲਈ ₹{{amount}} ਦਾ ਤੁਹਾਡਾ ਰਿਫੰਡ ਤੁਹਾਡੇ ਬੈਂਕ ਖਾਤੇ ਵਿੱਚ ਭੇਜ ਦਿੱਤਾ ਗਿਆ ਹੈ।" },
+  },
+  INSPECTION_SCHEDULED: {
+    en: { title: "Inspection Scheduled", body: "A site inspection for your application {{arn}} has been scheduled on {{inspectionDate}}." },
+    hi: { title: "निरीक्षण निर्धारित", body: "आपके आवेदन {{arn}} के लिए स्थल निरीक्षण {{inspectionDate}} को निर्धारित किया गया है।" },
+    pa: { title: "ਨਿਰੀਖਣ ਨਿਰਧਾਰਤ", body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਲਈ ਸਾਈਟ ਨਿਰੀਖਣ {{inspectionDate}} ਨੂੰ ਨਿਰਧਾਰਤ ਕੀਤਾ ਗਿਆ ਹੈ।" },
+  },
+  QUERY_DEADLINE_EXPIRED: {
+    en: {
+      title: "Query Deadline Expired",
+      body: "The response deadline for the query on {{arn}} has passed and the application has been closed.",
+    },
+    hi: {
+      title: "प्रश्न की समय-सीमा समाप्त",
+      body: "आवेदन {{arn}} पर प्रश्न के उत्तर की समय-सीमा समाप्त हो गई है और आवेदन बंद कर दिया गया है।",
+    },
+    pa: {
+      title: "ਸਵਾਲ ਦੀ ਸਮਾਂ-ਸੀਮਾ ਖਤਮ",
+      body: "ਅਰਜ਼ੀ {{arn}} 'ਤੇ ਸਵਾਲ ਦੇ ਜਵਾਬ ਦੀ ਸਮਾਂ-ਸੀਮਾ ਲੰਘ ਗਈ ਹੈ ਅਤੇ ਅਰਜ਼ੀ ਬੰਦ ਕਰ ਦਿੱਤੀ ਗਈ ਹੈ।",
+    },
+  },
+  APPLICATION_ESCALATED: {
+    en: { title: "Application Escalated", body: "Your application {{arn}} has been escalated to a senior officer for faster processing." },
+    hi: { title: "आवेदन वरिष्ठ अधिकारी को भेजा गया", body: "आपका आवेदन {{arn}} शीघ्र कार्यवाही के लिए वरिष्ठ अधिकारी को भेजा गया है।" },
+    pa: { title: "ਅਰਜ਼ੀ ਸੀਨੀਅਰ ਅਧਿਕਾਰੀ ਨੂੰ ਭੇਜੀ ਗਈ", body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਤੇਜ਼ ਕਾਰਵਾਈ ਲਈ ਸੀਨੀਅਰ ਅਧਿਕਾਰੀ ਨੂੰ ਭੇਜੀ ਗਈ ਹੈ।" },
+  },
+  SLA_BREACHED: {
+    en: {
+      title: "Application SLA Breach",
+      body: "Your application {{arn}} has exceeded the expected processing time at {{stage}}. The authority has been notified.",
+    },
+    hi: {
+      title: "आवेदन समय-सीमा उल्लंघन",
+      body: "आपका आवेदन {{arn}} {{stage}} स्तर पर अपेक्षित कार्यवाही समय से अधिक हो गया है। प्राधिकरण को सूचित कर दिया गया है।",
+    },
+    pa: {
+      title: "ਅਰਜ਼ੀ ਸਮਾਂ-ਸੀਮਾ ਉਲੰਘਣਾ",
+      body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} {{stage}} ਪੜਾਅ 'ਤੇ ਉਮੀਦ ਕੀਤੇ ਕਾਰਵਾਈ ਸਮੇਂ ਤੋਂ ਵੱਧ ਗਈ ਹੈ। ਅਥਾਰਟੀ ਨੂੰ ਸੂਚਿਤ ਕਰ ਦਿੱਤਾ ਗਿਆ ਹੈ।",
+    },
+  },
+  // Officer-facing
+  SLA_BREACH: {
+    en: { title: "SLA Breached", body: "Application {{arn}} has crossed its processing deadline." },
+    hi: { title: "एसएलए उल्लंघन", body: "आवेदन {{arn}} अपनी कार्यवाही की समय-सीमा पार कर चुका है।" },
+    pa: { title: "ਐਸਐਲਏ ਉਲੰਘਣਾ", body: "ਅਰਜ਼ੀ {{arn}} ਆਪਣੀ ਕਾਰਵਾਈ ਦੀ ਸਮਾਂ-ਸੀਮਾ ਪਾਰ ਕਰ ਚੁੱਕੀ ਹੈ।" },
+  },
+  SLA_ESCALATED: {
+    en: { title: "SLA Escalation", body: "Application {{arn}} is overdue and has been escalated to you." },
+    hi: { title: "एसएलए एस्केलेशन", body: "आवेदन {{arn}} की समय-सीमा निकल चुकी है और इसे आपको भेजा गया है।" },
+    pa: { title: "ਐਸਐਲਏ ਐਸਕਲੇਸ਼ਨ", body: "ਅਰਜ਼ੀ {{arn}} ਦੀ ਸਮਾਂ-ਸੀਮਾ ਲੰਘ ਚੁੱਕੀ ਹੈ ਅਤੇ ਇਸਨੂੰ ਤੁਹਾਡੇ ਕੋਲ ਭੇਜਿਆ ਗਿਆ ਹੈ।" },
+  },
+  // Header of the daily digest (notification-deferred.ts); the held updates are listed below it
+  NOTIFICATION_DIGEST: {
+    en: { title: "Your Application Updates", body: "Updates on your applications since the last summary:" },
+    hi: { title: "आपके आवेदनों के अपडेट", body: "पिछले सारांश के बाद आपके आवेदनों पर अपडेट:" },
+    pa: { title: "ਤੁਹਾਡੀਆਂ ਅਰਜ਼ੀਆਂ ਦੇ ਅੱਪਡੇਟ", body: "ਪਿਛਲੇ ਸਾਰ ਤੋਂ ਬਾਅਦ ਤੁਹਾਡੀਆਂ ਅਰਜ਼ੀਆਂ ਬਾਰੇ ਅੱਪਡੇਟ:" },
+  },
+  [FALLBACK_NOTIFICATION_EVENT]: {
+    en: { title: "Application Update", body: "Your application {{arn}} has been updated." },
+    hi: { title: "आवेदन अपडेट", body: "आपके आवेदन {{arn}} में अपडेट हुआ है।" },
+    pa: { title: "ਅਰਜ਼ੀ ਅੱਪਡੇਟ", body: "ਤੁਹਾਡੀ ਅਰਜ਼ੀ {{arn}} ਵਿੱਚ ਅੱਪਡੇਟ ਹੋਇਆ ਹੈ।" },
+  },
+};
+
+let overrideCache: { rows: Map<string, NotificationTemplate>; expiresAt: number } | null = null;
+
+function overrideKey(event: string, language: NotificationLanguage): string {
+  return `${event}:${language}`;
+}
+
+/** The template language for a recipient's profile preferences: hi/pa, otherwise English. */
+export function languageFromPreferences(preferences: Record<string, unknown> | null | undefined): NotificationLanguage {
+  const language = preferences?.language;
+  return language === "hi" || language === "pa" ? language : "en";
+}
+
+/** Placeholders in a template text that are not known variables. */
+export function unknownTemplateVariables(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    if (!(NOTIFICATION_TEMPLATE_VARIABLES as readonly string[]).includes(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+/** Substitute {{variables}}; missing values render empty. */
+export function renderTemplateText(text: string, variables: NotificationTemplateVariables): string {
+  return text.replace(PLACEHOLDER, (_, name: string) => variables[name as NotificationTemplateVariable] ?? "");
+}
+
+/** dd/mm/yyyy, the format used on PUDA notices. */
+export function formatNotificationDate(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  return date.toLocaleDateString("en-GB", { timeZone: "Asia/Kolkata" });
+}
+
+/**
+ * Default for an event and language: the event's own text in that language,
+ * else its English text, else the generic update text.
+ */
+export function defaultNotificationTemplate(event: string, language: NotificationLanguage): NotificationTemplateText {
+  const set = DEFAULT_NOTIFICATION_TEMPLATES[event] || DEFAULT_NOTIFICATION_TEMPLATES[FALLBACK_NOTIFICATION_EVENT];
+  return set[language] || set.en;
+}
+
+async function loadOverrides(): Promise<Map<string, NotificationTemplate>> {
+  const now = Date.now();
+  if (overrideCache && now < overrideCache.expiresAt) return overrideCache.rows;
+  const result = await query(
+    `SELECT event, language, title, body, sms_body, dlt_template_id, updated_by_user_id, updated_at
+       FROM notification_template`
+  );
+  const rows = new Map<string, NotificationTemplate>();
+  for (const row of result.rows) {
+    rows.set(overrideKey(row.event, row.language), {
+      event: row.event,
+      language: row.language,
+      title: row.title,
+      body: row.body,
+      smsBody: row.sms_body,
+      dltTemplateId: row.dlt_template_id,
+      source: "CUSTOM",
+      updatedAt: row.updated_at,
+      updatedByUserId: row.updated_by_user_id,
+    });
+  }
+  overrideCache = { rows, expiresAt: now + TEMPLATE_CACHE_TTL_MS };
+  return rows;
+}
+
+export function invalidateNotificationTemplateCache(): void {
+  overrideCache = null;
+}
+
+/**
+ * The template in force for an event and language. An admin override in the
+ * requested language wins, then the shipped default in that language; an
+ * event with neither falls back to its English override or default.
+ */
+export async function resolveNotificationTemplate(
+  event: string,
+  language: NotificationLanguage
+): Promise<NotificationTemplate> {
+  const overrides = await loadOverrides();
+  const custom = overrides.get(overrideKey(event, language));
+  if (custom) return custom;
+  if (DEFAULT_NOTIFICATION_TEMPLATES[event] || language === "en") {
+    return { event, language, source: "DEFAULT", ...defaultNotificationTemplate(event, language) };
+  }
+  const english = overrides.get(overrideKey(event, "en"));
+  if (english) return english;
+  return { event, language, source: "DEFAULT", ...defaultNotificationTemplate(event, language) };
+}
+
+export function renderNotificationTemplate(
+  template: NotificationTemplate,
+  variables: NotificationTemplateVariables
+): RenderedNotification {
+  const body = renderTemplateText(template.body, variables);
+  return {
+    title: renderTemplateText(template.title, variables),
+    body,
+    smsBody: template.smsBody ? renderTemplateText(template.smsBody, variables) : body,
+    dltTemplateId: template.dltTemplateId || null,
+    language: template.language,
+  };
+}
+
+/** Every event with a default or an override, in every language, for admin listing. */
+export async function listNotificationTemplates(): Promise<NotificationTemplate[]> {
+  const overrides = await loadOverrides();
+  const events = new Set([...Object.keys(DEFAULT_NOTIFICATION_TEMPLATES), ...[...overrides.values()].map((row) => row.event)]);
+  const templates: NotificationTemplate[] = [];
+  for (const event of [...events].sort()) {
+    for (const language of NOTIFICATION_LANGUAGES) {
+      templates.push(await resolveNotificationTemplate(event, language));
+    }
+  }
+  return templates;
+}
+
+export async function upsertNotificationTemplate(
+  event: string,
+  language: NotificationLanguage,
+  text: NotificationTemplateText,
+  actorId: string
+): Promise<NotificationTemplate> {
+  await query(
+    `INSERT INTO notification_template (event, language, title, body, sms_body, dlt_template_id, updated_by_user_id, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+     ON CONFLICT (event, language) DO UPDATE SET
+       title = EXCLUDED.title,
+       body = EXCLUDED.body,
+       sms_body = EXCLUDED.sms_body,
+       dlt_template_id = EXCLUDED.dlt_template_id,
+       updated_by_user_id = EXCLUDED.updated_by_user_id,
+       updated_at = NOW()`,
+    [event, language, text.title, text.body, text.smsBody || null, text.dltTemplateId || null, actorId]
+  );
+  invalidateNotificationTemplateCache();
+  return resolveNotificationTemplate(event, language);
+}
+
+/** Stand-in values for admin previews and test-sends; callers may override any of them. */
+export function sampleTemplateVariables(now: Date = new Date()): Required<NotificationTemplateVariables> {
+  const inAWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  return {
+    arn: "PUDA/2026/000123",
+    serviceName: "No Due Certificate",
+    applicantName: "Test Applicant",
+    dueDate: formatNotificationDate(inAWeek)!,
+    amount: (1500).toLocaleString("en-IN"),
+    inspectionDate: formatNotificationDate(inAWeek)!,
+    stage: "PENDING_AT_CLERK",
+  };
+}
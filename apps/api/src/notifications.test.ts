@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  delivered: new Set<string>(),
+  logged: [] as Array<{ status: string; deliveryKey: string | null }>,
+}));
+vi.mock("./db", () => ({
+  query: vi.fn(async (text: string, params: any[] = []) => {
+    if (text.includes("FROM notification_log WHERE delivery_key")) {
+      return { rows: db.delivered.has(params[0]) ? [{ "?column?": 1 }] : [] };
+    }
+    if (text.includes("INSERT INTO notification_log")) {
+      db.logged.push({ status: params[9], deliveryKey: params[12] });
+    }
+    return { rows: [] };
+  }),
+}));
+
+import { registerTransport, sendOnChannel } from "./notifications";
+
+const sms = vi.fn(async () => ({ providerRef: "sms-1" }));
+const backupSms = vi.fn(async (): Promise<void> => {
+  throw new Error("provider down");
+});
+registerTransport({ name: "primary-sms", channel: "SMS", send: sms });
+registerTransport({ name: "backup-sms", channel: "SMS", send: backupSms });
+
+describe("sendOnChannel", () => {
+  it("tries every transport, logs the failure and then throws it", async () => {
+    await expect(
+      sendOnChannel("SMS", { userId: "citizen-1" }, "ARN-1", "QUERY_RAISED", "Query", "Reply by Friday", {}, "outbox-1:SMS:citizen-1")
+    ).rejects.toThrow("provider down");
+
+    expect(sms).toHaveBeenCalledTimes(1);
+    expect(db.logged).toEqual([
+      { status: "SENT", deliveryKey: "outbox-1:SMS:citizen-1:primary-sms" },
+      { status: "FAILED", deliveryKey: "outbox-1:SMS:citizen-1:backup-sms" },
+    ]);
+  });
+
+  it("only retries the transports that have not delivered under the key", async () => {
+    db.delivered.add("outbox-1:SMS:citizen-1:primary-sms");
+    backupSms.mockResolvedValueOnce(undefined);
+
+    await sendOnChannel("SMS", { userId: "citizen-1" }, "ARN-1", "QUERY_RAISED", "Query", "Reply by Friday", {}, "outbox-1:SMS:citizen-1");
+
+    expect(sms).toHaveBeenCalledTimes(1);
+    expect(backupSms).toHaveBeenCalledTimes(2);
+  });
+});
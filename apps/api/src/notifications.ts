@@ -3,6 +3,30 @@ import { v4 as uuidv4 } from "uuid";
 import { logNotificationDelivery, type NotificationChannel } from "./notification-log";
 import crypto from "crypto";
 import { logError, logInfo, logWarn } from "./logger";
+import { readServicePackJson } from "./service-packs";
+import { getSupervisorRoles } from "./task-delegation";
+import {
+  contactsFromApplicationData,
+  routeForEvent,
+  type NotificationRecipientKind,
+  type NotificationsConfig,
+} from "./notification-routing";
+import {
+  planChannelDelivery,
+  sanitizeNotificationPreferences,
+  type OptionalChannel,
+} from "./notification-preferences";
+import { deferNotification, notificationDigestHour } from "./notification-deferred";
+import { publishLiveEvent } from "./live-events";
+import {
+  formatNotificationDate,
+  languageFromPreferences,
+  renderNotificationTemplate,
+  resolveNotificationTemplate,
+  type NotificationLanguage,
+  type NotificationTemplateVariables,
+  type RenderedNotification,
+} from "./notification-templates";
 
 export interface Notification {
   notification_id: string;
@@ -15,16 +39,39 @@ export interface Notification {
   created_at: Date;
 }
 
+/**
+ * Who a notification goes to: an account (userId), a party from the
+ * application data reached by phone/email only, or both. Staff recipients get
+ * the officer wording of the message.
+ */
+export interface NotificationRecipient {
+  userId?: string;
+  name?: string;
+  phone?: string;
+  email?: string;
+  staff?: boolean;
+}
+
+/**
+ * What a transport reports for an accepted message: the provider's reference,
+ * matched by delivery callbacks, and the address it went to. A transport that
+ * skips a recipient (no address) or only logs returns nothing.
+ */
+export interface NotificationSendResult {
+  providerRef?: string;
+  recipientAddress?: string;
+}
+
 // C4: Pluggable notification transport (in-app + SMS + Email)
 export interface NotificationTransport {
   name: string;
   channel: Extract<NotificationChannel, "SMS" | "EMAIL">;
   send(
-    userId: string,
+    recipient: NotificationRecipient,
     title: string,
     message: string,
     metadata?: Record<string, unknown>
-  ): Promise<void>;
+  ): Promise<NotificationSendResult | void>;
 }
 
 // Default: in-app only (database). External transports (Email, SMS) are registered at startup.
@@ -52,7 +99,8 @@ async function createNotification(
   arn: string,
   eventType: string,
   title: string,
-  message: string
+  message: string,
+  deliveryKey?: string
 ): Promise<void> {
   // Guard: Validate ARN exists in application table before creating notification
   const arnCheck = await query(
@@ -69,11 +117,28 @@ async function createNotification(
   const actualArn = arnCheck.rows[0].arn;
   
   const notificationId = uuidv4();
-  await query(
-    `INSERT INTO notification (notification_id, user_id, arn, event_type, title, message, read, created_at)
-     VALUES ($1, $2, $3, $4, $5, $6, false, NOW())`,
-    [notificationId, userId, actualArn, eventType, title, message]
+  const inserted = await query(
+    `INSERT INTO notification (notification_id, user_id, arn, event_type, title, message, read, created_at, delivery_key)
+     VALUES ($1, $2, $3, $4, $5, $6, false, NOW(), $7)
+     ON CONFLICT (delivery_key) WHERE delivery_key IS NOT NULL DO NOTHING
+     RETURNING notification_id`,
+    [notificationId, userId, actualArn, eventType, title, message, deliveryKey ?? null]
   );
+  // Already created by an earlier attempt of the same outbox entry
+  if (inserted.rows.length === 0) return;
+  await publishLiveEvent({
+    type: "notification",
+    data: {
+      notification_id: notificationId,
+      arn: actualArn,
+      event_type: eventType,
+      title,
+      message,
+      read: false,
+      created_at: new Date().toISOString(),
+    },
+    audience: { userIds: [userId] },
+  });
 
   // Log the in-app delivery to notification_log
   try {
@@ -89,139 +154,342 @@ async function createNotification(
     });
   } catch (logErr: any) {
     logWarn("Failed to log in-app notification delivery", {
-      ...notificationLogContext(actualArn, userId),
+      ...notificationLogContext(actualArn ?? undefined, userId),
       error: logErr?.message || "unknown_error",
     });
   }
 }
 
+const TRANSPORT_CHANNEL_KEYS: Record<NotificationTransport["channel"], OptionalChannel> = {
+  SMS: "sms",
+  EMAIL: "email",
+};
+
+type ApplicationForRouting = {
+  arn: string;
+  applicant_user_id: string | null;
+  authority_id: string;
+  data_jsonb: Record<string, any> | null;
+};
+
 /**
- * Notification functions: create notifications and optionally send via SMS/email gateway.
+ * The version's notifications config; versions published before it was
+ * copied into config_jsonb fall back to the pack's notifications.json.
  */
-export async function notify(event: string, arn: string, userId?: string, metadata?: any): Promise<void> {
-  logInfo("Notification dispatch requested", {
-    event,
-    ...notificationLogContext(arn, userId),
-    metadata,
-  });
-  
-  if (!userId) {
-    // Try to get userId from application
-    const appResult = await query(
-      "SELECT applicant_user_id FROM application WHERE arn = $1 OR public_arn = $1",
-      [arn]
-    );
-    if (appResult.rows.length > 0 && appResult.rows[0].applicant_user_id) {
-      userId = appResult.rows[0].applicant_user_id;
+async function loadNotificationsConfig(
+  serviceKey: string,
+  versionConfig: NotificationsConfig | null
+): Promise<NotificationsConfig | undefined> {
+  if (versionConfig) return versionConfig;
+  return (await readServicePackJson(serviceKey, "notifications.json")) as NotificationsConfig | undefined;
+}
+
+async function resolveRecipients(
+  app: ApplicationForRouting,
+  kinds: NotificationRecipientKind[]
+): Promise<NotificationRecipient[]> {
+  const recipients: NotificationRecipient[] = [];
+  const seen = new Set<string>();
+  const add = (recipient: NotificationRecipient) => {
+    const key = recipient.userId || recipient.phone || recipient.email;
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    recipients.push(recipient);
+  };
+
+  for (const kind of kinds) {
+    if (kind === "applicant") {
+      if (app.applicant_user_id) add({ userId: app.applicant_user_id });
+    } else if (kind === "assigned_officer") {
+      const result = await query(
+        `SELECT DISTINCT assignee_user_id FROM task
+          WHERE arn = $1 AND status IN ('PENDING', 'IN_PROGRESS') AND assignee_user_id IS NOT NULL`,
+        [app.arn]
+      );
+      result.rows.forEach((row) => add({ userId: row.assignee_user_id, staff: true }));
+    } else if (kind === "supervisor") {
+      const result = await query(
+        `SELECT DISTINCT up.user_id
+           FROM user_posting up
+           JOIN designation_role_map drm
+             ON drm.authority_id = up.authority_id AND drm.designation_id = up.designation_id
+          WHERE up.authority_id = $1
+            AND drm.system_role_id = ANY($2)
+            AND (up.active_to IS NULL OR up.active_to > NOW())`,
+        [app.authority_id, getSupervisorRoles()]
+      );
+      result.rows.forEach((row) => add({ userId: row.user_id, staff: true }));
     } else {
-      return; // No user to notify
+      contactsFromApplicationData(app.data_jsonb, kind).forEach(add);
     }
   }
-  
-  const eventMap: Record<string, { title: string; message: string }> = {
-    APPLICATION_SUBMITTED: {
-      title: "Application Submitted",
-      message: `Your application ${arn} has been submitted successfully.`
-    },
-    QUERY_RAISED: {
-      title: "Query Raised",
-      message: `A query has been raised on your application ${arn}. Please respond.`
-    },
-    QUERY_RESPONDED: {
-      title: "Query Responded",
-      message: `Your response to the query on ${arn} has been received.`
-    },
-    APPLICATION_APPROVED: {
-      title: "Application Approved",
-      message: `Your application ${arn} has been approved.`
-    },
-    APPLICATION_REJECTED: {
-      title: "Application Rejected",
-      message: `Your application ${arn} has been rejected.`
-    },
-    OUTPUT_ISSUED: {
-      title: "Certificate Ready",
-      message: `Your certificate for ${arn} is ready for download.`
-    },
-    TASK_ASSIGNED: {
-      title: "Application Under Review",
-      message: `Your application ${arn} is now under review.`
-    },
-    DOCUMENT_REQUESTED: {
-      title: "Document Required",
-      message: `Additional documents are required for ${arn}.`
-    }
-  };
-  
-  const notification = eventMap[event] || {
-    title: "Application Update",
-    message: `Your application ${arn} has been updated.`
+  return recipients;
+}
+
+async function loadUserPreferences(userIds: string[]): Promise<Map<string, Record<string, unknown>>> {
+  const preferences = new Map<string, Record<string, unknown>>();
+  if (userIds.length === 0) return preferences;
+  const result = await query(
+    `SELECT user_id, profile_jsonb->'preferences' AS preferences FROM "user" WHERE user_id = ANY($1)`,
+    [Array.from(new Set(userIds))]
+  );
+  for (const row of result.rows) {
+    preferences.set(row.user_id, row.preferences || {});
+  }
+  return preferences;
+}
+
+async function templateVariables(
+  app: ApplicationForRouting & { service_key: string; service_name: string | null },
+  displayArn: string,
+  event: string,
+  metadata: Record<string, any>
+): Promise<NotificationTemplateVariables> {
+  const applicant = app.data_jsonb?.applicant || {};
+  let dueDate = formatNotificationDate(metadata.dueDate);
+  if (!dueDate && event === "QUERY_RAISED") {
+    const queryResult = await query(
+      `SELECT response_due_at FROM query
+        WHERE arn = $1 AND status = 'PENDING'
+        ORDER BY response_due_at DESC NULLS LAST LIMIT 1`,
+      [app.arn]
+    );
+    dueDate = formatNotificationDate(queryResult.rows[0]?.response_due_at);
+  }
+  return {
+    arn: displayArn,
+    serviceName: app.service_name || app.service_key,
+    applicantName: applicant.full_name || applicant.name || undefined,
+    dueDate,
+    amount: metadata.amount !== undefined ? Number(metadata.amount).toLocaleString("en-IN") : undefined,
+    inspectionDate: formatNotificationDate(metadata.scheduledAt),
+    stage: metadata.stateId || metadata.toState || undefined,
   };
-  
-  await createNotification(userId!, arn, event, notification.title, notification.message);
+}
 
-  // C4: Dispatch to external transports (SMS, Email, etc.)
-  // Resolve the actual ARN for logging (userId was already resolved above)
-  const arnResult = await query(
-    "SELECT arn FROM application WHERE arn = $1 OR public_arn = $1 LIMIT 1",
-    [arn]
+/** Send through one transport and log the attempt; a failure is logged, then rethrown. */
+async function sendThroughTransport(
+  transport: NotificationTransport,
+  recipient: NotificationRecipient,
+  actualArn: string | null,
+  event: string,
+  title: string,
+  message: string,
+  metadata: Record<string, unknown>,
+  deliveryKey?: string
+): Promise<void> {
+  const channel = transport.channel;
+  const userId = recipient.userId;
+  try {
+    const result = await transport.send(recipient, title, message, metadata);
+
+    // Log successful dispatch; delivery callbacks later match it by providerRef
+    try {
+      await logNotificationDelivery({
+        arn: actualArn ?? undefined,
+        userId,
+        channel,
+        templateCode: event,
+        recipientAddress: result?.recipientAddress,
+        subject: title,
+        body: message,
+        status: "SENT",
+        providerRef: result?.providerRef,
+        deliveryKey,
+      });
+    } catch (logErr: any) {
+      logWarn("Failed to log notification delivery", {
+        channel,
+        event,
+        ...notificationLogContext(actualArn ?? undefined, userId),
+        error: logErr?.message || "unknown_error",
+      });
+    }
+  } catch (err: any) {
+    logError("Notification transport error", {
+      transport: transport.name,
+      event,
+      ...notificationLogContext(actualArn ?? undefined, userId),
+      error: err?.message || "unknown_error",
+    });
+
+    // Log failed dispatch
+    try {
+      await logNotificationDelivery({
+        arn: actualArn ?? undefined,
+        userId,
+        channel,
+        templateCode: event,
+        subject: title,
+        body: message,
+        status: "FAILED",
+        failureReason: err.message,
+        deliveryKey,
+      });
+    } catch (logErr: any) {
+      logWarn("Failed to log notification delivery failure", {
+        channel,
+        event,
+        ...notificationLogContext(actualArn ?? undefined, userId),
+        error: logErr?.message || "unknown_error",
+      });
+    }
+    throw err;
+  }
+}
+
+async function alreadyDelivered(deliveryKey: string): Promise<boolean> {
+  const result = await query(
+    "SELECT 1 FROM notification_log WHERE delivery_key = $1 AND status <> 'FAILED' LIMIT 1",
+    [deliveryKey]
   );
-  const actualArn = arnResult.rows[0]?.arn || arn;
+  return result.rows.length > 0;
+}
 
+/**
+ * Send already-rendered text to one recipient through every transport of a
+ * channel, logging each attempt. Used for deferred (quiet hours, digest)
+ * deliveries; arn is null for digests spanning several applications. Every
+ * transport is tried; the first failure is thrown afterwards. With a
+ * deliveryKey, transports that already sent under it are skipped.
+ */
+export async function sendOnChannel(
+  channel: NotificationTransport["channel"],
+  recipient: NotificationRecipient,
+  arn: string | null,
+  event: string,
+  title: string,
+  message: string,
+  metadata: Record<string, unknown>,
+  deliveryKey?: string
+): Promise<void> {
+  let firstError: unknown;
   for (const transport of transports) {
-    const channel = transport.channel;
+    if (transport.channel !== channel) continue;
+    const transportKey = deliveryKey ? `${deliveryKey}:${transport.name}` : undefined;
+    if (transportKey && (await alreadyDelivered(transportKey))) continue;
     try {
-      await transport.send(userId!, notification.title, notification.message, { arn, event });
+      await sendThroughTransport(transport, recipient, arn, event, title, message, metadata, transportKey);
+    } catch (err) {
+      firstError ??= err;
+    }
+  }
+  if (firstError) throw firstError;
+}
 
-      // Log successful dispatch
-      try {
-        await logNotificationDelivery({
+/**
+ * Send an event's notification through the channels and to the recipients
+ * configured in the service version's notifications.json (see
+ * notification-routing.ts), in each recipient's language (see
+ * notification-templates.ts). Passing userId sends to that user only, still on
+ * the configured channels — e.g. escalations addressed to specific officers.
+ * `listedOnly` drops events the service does not list instead of sending them
+ * to the applicant. A citizen's own notification preferences then drop, hold
+ * (quiet hours) or batch (digest) their SMS/email — see
+ * notification-preferences.ts.
+ *
+ * Every recipient and channel is attempted; if any SMS/email fails, notify
+ * throws afterwards so the outbox retries the entry. `outboxId` keys each
+ * delivery so that the retry repeats only the failed ones.
+ */
+export async function notify(
+  event: string,
+  arn: string,
+  userId?: string,
+  metadata?: any,
+  options: { listedOnly?: boolean; outboxId?: string } = {}
+): Promise<void> {
+  logInfo("Notification dispatch requested", {
+    event,
+    ...notificationLogContext(arn, userId),
+    metadata,
+  });
+
+  const appResult = await query(
+    `SELECT a.arn, a.applicant_user_id, a.authority_id, a.data_jsonb, a.service_key,
+            sv.config_jsonb->'notifications' AS notifications, s.name AS service_name
+       FROM application a
+       LEFT JOIN service_version sv ON sv.service_key = a.service_key AND sv.version = a.service_version
+       LEFT JOIN service s ON s.service_key = a.service_key
+      WHERE a.arn = $1 OR a.public_arn = $1
+      LIMIT 1`,
+    [arn]
+  );
+  const app = appResult.rows[0];
+  if (!app) {
+    logWarn("Skipping notification because application was not found", notificationLogContext(arn, userId));
+    return;
+  }
+  const actualArn: string = app.arn;
+
+  const route = routeForEvent(await loadNotificationsConfig(app.service_key, app.notifications), event);
+  if (options.listedOnly && !route.listed) return;
+  const recipients: NotificationRecipient[] = userId
+    ? [{ userId }]
+    : await resolveRecipients(app, route.recipients);
+  if (recipients.length === 0) return; // No one to notify
+
+  const variables = await templateVariables(app, arn, event, metadata || {});
+  const preferences = await loadUserPreferences(
+    [app.applicant_user_id, ...recipients.map((recipient) => recipient.userId)].filter(Boolean) as string[]
+  );
+  const now = new Date();
+  const failures: string[] = [];
+
+  for (const recipient of recipients) {
+    const recipientKey = recipient.userId || recipient.phone || recipient.email || recipient.name || "";
+    const deliveryKey = (channel: string) =>
+      options.outboxId ? `${options.outboxId}:${channel}:${recipientKey}` : undefined;
+    // Parties without an account share the applicant's language
+    const language = languageFromPreferences(preferences.get(recipient.userId || app.applicant_user_id));
+    const rendered = renderNotificationTemplate(await resolveNotificationTemplate(event, language), variables);
+    const message = recipient.staff ? `${rendered.title}: ${arn}` : rendered.body;
+    if (recipient.userId && route.channels.includes("in_app")) {
+      await createNotification(recipient.userId, actualArn, event, rendered.title, message, deliveryKey("IN_APP"));
+    }
+    const notificationPreferences = recipient.userId && !recipient.staff
+      ? sanitizeNotificationPreferences(preferences.get(recipient.userId)?.notifications)
+      : undefined;
+
+    // C4: Dispatch to external transports (SMS, Email, etc.)
+    for (const channel of ["SMS", "EMAIL"] as const) {
+      const channelKey = TRANSPORT_CHANNEL_KEYS[channel];
+      if (!route.channels.includes(channelKey)) continue;
+      const text = channel === "SMS" && !recipient.staff ? rendered.smsBody : message;
+      const metadata = {
+        arn,
+        event,
+        language: rendered.language,
+        dltTemplateId: channel === "SMS" ? rendered.dltTemplateId : null,
+      };
+      const plan = planChannelDelivery(notificationPreferences, event, channelKey, now, notificationDigestHour());
+      if (plan.action === "SKIP") continue;
+      if (plan.action === "DEFER" && recipient.userId) {
+        await deferNotification({
+          userId: recipient.userId,
           arn: actualArn,
-          userId: userId!,
-          channel,
-          templateCode: event,
-          subject: notification.title,
-          body: notification.message,
-          status: "SENT",
-        });
-      } catch (logErr: any) {
-        logWarn("Failed to log notification delivery", {
-          channel,
           event,
-          ...notificationLogContext(actualArn, userId),
-          error: logErr?.message || "unknown_error",
+          channel: channelKey,
+          reason: plan.reason,
+          language: rendered.language,
+          title: rendered.title,
+          message: text,
+          metadata,
+          deliverAfter: plan.until,
+          deliveryKey: deliveryKey(channel),
         });
+        continue;
       }
-    } catch (err: any) {
-      logError("Notification transport error", {
-        transport: transport.name,
-        event,
-        ...notificationLogContext(actualArn, userId),
-        error: err?.message || "unknown_error",
-      });
-
-      // Log failed dispatch
       try {
-        await logNotificationDelivery({
-          arn: actualArn,
-          userId: userId!,
-          channel,
-          templateCode: event,
-          subject: notification.title,
-          body: notification.message,
-          status: "FAILED",
-          failureReason: err.message,
-        });
-      } catch (logErr: any) {
-        logWarn("Failed to log notification delivery failure", {
-          channel,
-          event,
-          ...notificationLogContext(actualArn, userId),
-          error: logErr?.message || "unknown_error",
-        });
+        await sendOnChannel(channel, recipient, actualArn, event, rendered.title, text, metadata, deliveryKey(channel));
+      } catch (err: any) {
+        failures.push(`${channel}: ${err?.message || "unknown_error"}`);
       }
     }
   }
+  if (failures.length > 0) {
+    throw new Error(`NOTIFICATION_DELIVERY_FAILED: ${failures.join("; ")}`);
+  }
 }
 
 export async function notifySubmitted(arn: string, userId?: string): Promise<void> {
@@ -283,3 +551,26 @@ export async function markNotificationRead(notificationId: string, userId: strin
     [notificationId, userId]
   );
 }
+
+/**
+ * Send rendered template text straight to a user on one channel, bypassing
+ * routing and the in-app inbox. Used by the admin test-send; returns the
+ * transports that accepted it.
+ */
+export async function sendTestNotification(
+  userId: string,
+  channel: NotificationTransport["channel"],
+  event: string,
+  rendered: RenderedNotification
+): Promise<string[]> {
+  const matching = transports.filter((transport) => transport.channel === channel);
+  for (const transport of matching) {
+    await transport.send(
+      { userId },
+      rendered.title,
+      channel === "SMS" ? rendered.smsBody : rendered.body,
+      { event, language: rendered.language, dltTemplateId: channel === "SMS" ? rendered.dltTemplateId : null, test: true }
+    );
+  }
+  return matching.map((transport) => transport.name);
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import type pg from "pg";
+
+const db = vi.hoisted(() => ({
+  client: null as unknown as pg.PoolClient,
+  query: async (_text: string, _params?: unknown[]) => ({ rows: [] as any[] }),
+}));
+vi.mock("./db", () => ({
+  getClient: vi.fn(async () => db.client),
+  query: vi.fn((text: string, params?: unknown[]) => db.query(text, params)),
+}));
+
+import {
+  dispatchOutboxEntry,
+  enqueueOutboxEntry,
+  MAX_OUTBOX_ATTEMPTS,
+  outboxBackoffMs,
+  registerOutboxHandler,
+} from "./outbox";
+import { discardAfterCommit } from "./after-commit";
+
+function fakeClient(rows: Record<string, any[]> = {}) {
+  const calls: Array<{ text: string; params?: unknown[] }> = [];
+  const client = {
+    query: vi.fn(async (text: string, params?: unknown[]) => {
+      calls.push({ text, params });
+      const key = Object.keys(rows).find((fragment) => text.includes(fragment));
+      return { rows: key ? rows[key] : [] };
+    }),
+    release: vi.fn(),
+  } as unknown as pg.PoolClient;
+  return { client, calls };
+}
+
+/** The row as the claim returns it: attempts already counts this attempt. */
+const claimedEntry = (kind: string, attempts = 1) => ({
+  outbox_id: "outbox-1",
+  arn: "ARN-1",
+  kind,
+  payload_jsonb: { registry: "land" },
+  status: "PENDING",
+  attempts,
+});
+
+function fakeOutbox(claimed: Record<string, unknown> | null) {
+  const calls: Array<{ text: string; params?: unknown[] }> = [];
+  db.query = async (text: string, params?: unknown[]) => {
+    calls.push({ text, params });
+    return { rows: text.includes("SET attempts = attempts + 1") && claimed ? [claimed] : [] };
+  };
+  return calls;
+}
+
+describe("outbox", () => {
+  it("backs off exponentially up to an hour", () => {
+    expect([1, 2, 3].map(outboxBackoffMs)).toEqual([30_000, 60_000, 120_000]);
+    expect(outboxBackoffMs(20)).toBe(60 * 60 * 1000);
+  });
+
+  it("writes the entry in the caller's transaction", async () => {
+    const { client, calls } = fakeClient();
+
+    const outboxId = await enqueueOutboxEntry(client, "NOTIFY", { event: "APPLICATION_SUBMITTED" }, "ARN-1");
+    discardAfterCommit(client);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].text).toContain("INSERT INTO outbox");
+    expect(calls[0].params).toEqual([outboxId, "ARN-1", "NOTIFY", JSON.stringify({ event: "APPLICATION_SUBMITTED" })]);
+  });
+
+  it("refuses to register a handler twice", () => {
+    expect(() => registerOutboxHandler("NOTIFY", async () => {})).toThrow("already registered");
+  });
+
+  it("marks the entry dispatched when its handler succeeds", async () => {
+    const handler = vi.fn(async () => {});
+    registerOutboxHandler("TEST_SUCCESS", handler);
+    const calls = fakeOutbox(claimedEntry("TEST_SUCCESS"));
+
+    await expect(dispatchOutboxEntry("outbox-1")).resolves.toBe("DISPATCHED");
+
+    expect(handler).toHaveBeenCalledWith({ registry: "land" }, expect.objectContaining({ outbox_id: "outbox-1" }));
+    const finish = calls.at(-1);
+    expect(finish?.text).toContain("AND attempts = $5");
+    expect(finish?.params).toEqual(["outbox-1", "DISPATCHED", null, 30_000, 1]);
+  });
+
+  it("commits the claim before the handler runs and holds no transaction", async () => {
+    const seenBeforeHandler: string[] = [];
+    let calls: Array<{ text: string }> = [];
+    registerOutboxHandler("TEST_CLAIM", async () => {
+      seenBeforeHandler.push(...calls.map((call) => call.text));
+    });
+    calls = fakeOutbox(claimedEntry("TEST_CLAIM"));
+
+    await dispatchOutboxEntry("outbox-1");
+
+    expect(seenBeforeHandler).toHaveLength(1);
+    expect(seenBeforeHandler[0]).toContain("FOR UPDATE SKIP LOCKED");
+    expect(calls.some((call) => call.text === "BEGIN")).toBe(false);
+  });
+
+  it("skips an entry that is not due or is claimed elsewhere", async () => {
+    const handler = vi.fn(async () => {});
+    registerOutboxHandler("TEST_BUSY", handler);
+    const calls = fakeOutbox(null);
+
+    await expect(dispatchOutboxEntry("outbox-1")).resolves.toBeNull();
+    expect(handler).not.toHaveBeenCalled();
+    expect(calls).toHaveLength(1);
+  });
+
+  it("schedules a retry, then fails the entry once the attempts are used up", async () => {
+    registerOutboxHandler("TEST_FAILURE", async () => {
+      throw new Error("gateway timeout");
+    });
+    const first = fakeOutbox(claimedEntry("TEST_FAILURE"));
+    await expect(dispatchOutboxEntry("outbox-1")).resolves.toBe("PENDING");
+    expect(first.at(-1)?.params).toEqual(["outbox-1", "PENDING", "gateway timeout", 30_000, 1]);
+
+    fakeOutbox(claimedEntry("TEST_FAILURE", MAX_OUTBOX_ATTEMPTS));
+    await expect(dispatchOutboxEntry("outbox-1")).resolves.toBe("FAILED");
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Transactional outbox for workflow side effects.
+ *
+ * Code running in a workflow transaction calls enqueueOutboxEntry with the
+ * transaction's client instead of performing the side effect after COMMIT.
+ * The entry commits (or rolls back) with the state change, is dispatched right
+ * after commit, and is picked up by the outbox worker if that attempt fails or
+ * the process dies first. Failed dispatches are retried with exponential
+ * backoff; after MAX_OUTBOX_ATTEMPTS the entry is FAILED until an admin
+ * replays it.
+ *
+ * A dispatch claims the entry first — counting the attempt and moving
+ * next_attempt_at out by OUTBOX_LEASE_MS — and commits that before the handler
+ * runs, so no row lock is held during network I/O. A worker that dies
+ * mid-handler leaves the entry due again once the lease runs out.
+ *
+ *   NOTIFY      { event, arn, userId?, metadata?, listedOnly? }
+ *                                                   — notify(), routed by notifications.json
+ *   OUTPUT_JOB  { jobId }                           — first attempt of an output job
+ *   WEBHOOK_DELIVERY { deliveryId }                 — first attempt of a webhook delivery
+ *
+ * Further kinds are added with registerOutboxHandler. Handlers must tolerate
+ * running more than once: delivery is at least once.
+ *
+ * Run via POST /internal/jobs/outbox or the local setInterval fallback.
+ */
+import type pg from "pg";
+import { query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { logError, logInfo, logWarn } from "./logger";
+import { queueAfterCommit } from "./after-commit";
+
+export type OutboxStatus = "PENDING" | "DISPATCHED" | "FAILED";
+
+export interface OutboxEntry {
+  outbox_id: string;
+  arn: string | null;
+  kind: string;
+  payload_jsonb: Record<string, any>;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  created_at: Date;
+  dispatched_at: Date | null;
+  updated_at: Date;
+}
+
+export type OutboxHandler = (payload: Record<string, any>, entry: OutboxEntry) => Promise<void>;
+
+export interface OutboxRunResult {
+  attempted: number;
+  dispatched: number;
+  failed: number;
+  errors: string[];
+}
+
+export const MAX_OUTBOX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const RUN_BATCH_SIZE = 100;
+const OUTBOX_LEASE_MS = 5 * 60 * 1000;
+
+const handlers = new Map<string, OutboxHandler>();
+
+export function registerOutboxHandler(kind: string, handler: OutboxHandler): void {
+  if (handlers.has(kind)) {
+    throw new Error(`Outbox handler ${kind} is already registered`);
+  }
+  handlers.set(kind, handler);
+}
+
+/** Delay before the next attempt after `attempts` failures: 30s, 1m, 2m, ... capped at an hour. */
+export function outboxBackoffMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BASE_BACKOFF_MS * 2 ** exponent, MAX_BACKOFF_MS);
+}
+
+/**
+ * Record a side effect in the caller's transaction. It is dispatched once the
+ * transaction commits; nothing is sent if it rolls back.
+ */
+export async function enqueueOutboxEntry(
+  client: pg.PoolClient,
+  kind: string,
+  payload: Record<string, unknown>,
+  arn?: string | null
+): Promise<string> {
+  const outboxId = uuidv4();
+  await client.query(
+    "INSERT INTO outbox (outbox_id, arn, kind, payload_jsonb) VALUES ($1, $2, $3, $4)",
+    [outboxId, arn ?? null, kind, JSON.stringify(payload)]
+  );
+  queueAfterCommit(client, async () => {
+    await dispatchOutboxEntry(outboxId);
+  });
+  return outboxId;
+}
+
+/**
+ * Dispatch one pending entry. Returns its status afterwards, or null when it
+ * is not pending, not yet due or claimed by another worker.
+ */
+export async function dispatchOutboxEntry(outboxId: string): Promise<OutboxStatus | null> {
+  const claimed = await query(
+    `UPDATE outbox
+        SET attempts = attempts + 1,
+            next_attempt_at = NOW() + ($2::int * INTERVAL '1 millisecond'), updated_at = NOW()
+      WHERE outbox_id = (
+        SELECT outbox_id FROM outbox
+         WHERE outbox_id = $1 AND status = 'PENDING' AND next_attempt_at <= NOW()
+         FOR UPDATE SKIP LOCKED)
+      RETURNING *`,
+    [outboxId, OUTBOX_LEASE_MS]
+  );
+  const entry: OutboxEntry | undefined = claimed.rows[0];
+  if (!entry) return null;
+
+  let status: OutboxStatus = "DISPATCHED";
+  let lastError: string | null = null;
+  const handler = handlers.get(entry.kind);
+  try {
+    if (!handler) throw new Error(`NO_OUTBOX_HANDLER: ${entry.kind}`);
+    await handler(entry.payload_jsonb || {}, entry);
+  } catch (error: any) {
+    lastError = error?.message || "unknown_error";
+    status = entry.attempts >= MAX_OUTBOX_ATTEMPTS ? "FAILED" : "PENDING";
+    logWarn("Outbox dispatch failed", {
+      outboxId,
+      kind: entry.kind,
+      attempts: entry.attempts,
+      status,
+      error: lastError,
+    });
+  }
+
+  // Only while the claim is ours: after the lease another worker may have re-claimed it
+  await query(
+    `UPDATE outbox
+        SET status = $2, last_error = $3,
+            dispatched_at = CASE WHEN $2 = 'DISPATCHED' THEN NOW() ELSE dispatched_at END,
+            next_attempt_at = NOW() + ($4::int * INTERVAL '1 millisecond'), updated_at = NOW()
+      WHERE outbox_id = $1 AND status = 'PENDING' AND attempts = $5`,
+    [outboxId, status, lastError, outboxBackoffMs(entry.attempts), entry.attempts]
+  );
+  return status;
+}
+
+/** Dispatch every pending entry that is due, oldest first. */
+export async function runOutbox(): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { attempted: 0, dispatched: 0, failed: 0, errors: [] };
+  try {
+    const due = await query(
+      `SELECT outbox_id, kind FROM outbox
+        WHERE status = 'PENDING' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at ASC
+        LIMIT $1`,
+      [RUN_BATCH_SIZE]
+    );
+    for (const row of due.rows) {
+      try {
+        const status = await dispatchOutboxEntry(row.outbox_id);
+        if (status === null) continue;
+        result.attempted += 1;
+        if (status === "DISPATCHED") result.dispatched += 1;
+        if (status === "FAILED") result.failed += 1;
+      } catch (err: any) {
+        result.errors.push(`${row.kind}/${row.outbox_id}: ${err?.message || "unknown_error"}`);
+      }
+    }
+  } catch (err: any) {
+    result.errors.push(`Outbox run failed: ${err.message}`);
+  }
+
+  if (result.attempted > 0 || result.errors.length > 0) {
+    logInfo("Outbox run completed", {
+      attempted: result.attempted,
+      dispatched: result.dispatched,
+      failed: result.failed,
+      errors: result.errors.length,
+    });
+  }
+  return result;
+}
+
+/**
+ * Entries for admin inspection, newest first. `stuck` narrows PENDING entries
+ * to those already retried at least once.
+ */
+export async function listOutboxEntries(filters: {
+  status?: OutboxStatus;
+  kind?: string;
+  arn?: string;
+  authorityId?: string;
+  stuck?: boolean;
+  limit?: number;
+}): Promise<OutboxEntry[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (filters.kind) {
+    params.push(filters.kind);
+    conditions.push(`kind = $${params.length}`);
+  }
+  if (filters.arn) {
+    params.push(filters.arn);
+    conditions.push(`arn = (SELECT arn FROM application WHERE arn = $${params.length} OR public_arn = $${params.length} LIMIT 1)`);
+  }
+  if (filters.authorityId) {
+    params.push(filters.authorityId);
+    conditions.push(`arn IN (SELECT arn FROM application WHERE authority_id = $${params.length})`);
+  }
+  if (filters.stuck) {
+    conditions.push("(status = 'FAILED' OR (status = 'PENDING' AND attempts > 0))");
+  }
+  params.push(filters.limit ?? 100);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const result = await query(
+    `SELECT * FROM outbox ${where} ORDER BY created_at DESC LIMIT $${params.length}`,
+    params
+  );
+  return result.rows;
+}
+
+/** Requeue a FAILED or PENDING entry for an immediate attempt with a fresh retry budget. */
+export async function replayOutboxEntry(outboxId: string, actorId: string, reason: string): Promise<OutboxEntry | null> {
+  const result = await query(
+    `UPDATE outbox
+        SET status = 'PENDING', attempts = 0, next_attempt_at = NOW(), updated_at = NOW()
+      WHERE outbox_id = $1 AND status IN ('PENDING', 'FAILED')
+      RETURNING *`,
+    [outboxId]
+  );
+  const entry: OutboxEntry | undefined = result.rows[0];
+  if (!entry) return null;
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [uuidv4(), entry.arn, "OUTBOX_ENTRY_REPLAYED", "ADMIN", actorId, JSON.stringify({ outboxId, kind: entry.kind, reason })]
+  );
+  return entry;
+}
+
+/**
+ * Start periodic outbox dispatch.
+ * Default: runs every 30 seconds.
+ */
+export function startOutboxWorker(intervalMs: number = 30 * 1000): NodeJS.Timeout {
+  logInfo("Starting outbox worker", { intervalSeconds: intervalMs / 1000 });
+  const timer = setInterval(() => {
+    runOutbox().catch((err) => {
+      logError("Periodic outbox run failed", { error: err instanceof Error ? err.message : String(err) });
+    });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in handlers
+// ---------------------------------------------------------------------------
+
+registerOutboxHandler("NOTIFY", async (payload, entry) => {
+  const { notify } = await import("./notifications");
+  await notify(payload.event, payload.arn, payload.userId, payload.metadata, {
+    listedOnly: payload.listedOnly,
+    outboxId: entry.outbox_id,
+  });
+});
+
+registerOutboxHandler("OUTPUT_JOB", async (payload) => {
+  // The job keeps its own retry schedule; this is only its first attempt
+  const { processOutputJob } = await import("./output-jobs");
+  await processOutputJob(payload.jobId);
+});
+
+registerOutboxHandler("WEBHOOK_DELIVERY", async (payload) => {
+  // The delivery keeps its own retry schedule; this is only its first attempt
+  const { processWebhookDelivery } = await import("./webhooks");
+  await processWebhookDelivery(payload.deliveryId);
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import type pg from "pg";
+import {
+  enqueueOutputJob,
+  MAX_OUTPUT_JOB_ATTEMPTS,
+  outputJobBackoffMs,
+  statusAfterFailure,
+} from "./output-jobs";
+import { discardAfterCommit } from "./after-commit";
+
+function fakeClient(rows: Record<string, any[]> = {}) {
+  const calls: Array<{ text: string; params?: unknown[] }> = [];
+  const client = {
+    query: vi.fn(async (text: string, params?: unknown[]) => {
+      calls.push({ text, params });
+      const key = Object.keys(rows).find((fragment) => text.includes(fragment));
+      return { rows: key ? rows[key] : [] };
+    }),
+  } as unknown as pg.PoolClient;
+  return { client, calls };
+}
+
+describe("output job retries", () => {
+  it("backs off exponentially up to an hour", () => {
+    expect([1, 2, 3, 4].map(outputJobBackoffMs)).toEqual([60_000, 120_000, 240_000, 480_000]);
+    expect(outputJobBackoffMs(10)).toBe(60 * 60 * 1000);
+  });
+
+  it("fails the job once the attempts are used up", () => {
+    expect(statusAfterFailure(1)).toBe("PENDING");
+    expect(statusAfterFailure(MAX_OUTPUT_JOB_ATTEMPTS - 1)).toBe("PENDING");
+    expect(statusAfterFailure(MAX_OUTPUT_JOB_ATTEMPTS)).toBe("FAILED");
+  });
+});
+
+describe("enqueueOutputJob", () => {
+  it("queues a job with the decision and marks the output pending", async () => {
+    const { client, calls } = fakeClient({
+      "SELECT disposal_type": [{ disposal_type: "APPROVED" }],
+      "INSERT INTO output_job": [{ job_id: "job-1" }],
+    });
+
+    const jobId = await enqueueOutputJob(client, "ARN-1", "ndc_approval", "GENERATE_OUTPUT_NDC_APPROVAL");
+    discardAfterCommit(client);
+
+    expect(jobId).toBe("job-1");
+    const insert = calls.find((call) => call.text.includes("INSERT INTO output_job"));
+    expect(insert?.params?.slice(1)).toEqual(["ARN-1", "ndc_approval", "GENERATE_OUTPUT_NDC_APPROVAL", "APPROVED"]);
+    expect(calls.some((call) => call.text.includes("output_status = 'PENDING'"))).toBe(true);
+  });
+
+  it("returns the existing job for a template already queued", async () => {
+    const { client, calls } = fakeClient({
+      "SELECT disposal_type": [{ disposal_type: "APPROVED" }],
+      "SELECT job_id FROM output_job": [{ job_id: "job-1" }],
+    });
+
+    const jobId = await enqueueOutputJob(client, "ARN-1", "ndc_approval", "GENERATE_OUTPUT_NDC_APPROVAL");
+
+    expect(jobId).toBe("job-1");
+    expect(calls.some((call) => call.text.includes("output_status"))).toBe(false);
+    expect(calls.some((call) => call.text.includes("audit_event"))).toBe(false);
+  });
+});
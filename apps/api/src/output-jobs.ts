@@ -0,0 +1,324 @@
+/**
+ * Output job queue: certificate/order generation driven by the workflow engine.
+ *
+ * A GENERATE_OUTPUT_<TEMPLATE> action enqueues one output_job per application
+ * and template inside the transition's transaction and marks the application's
+ * output_status PENDING. The job is attempted right after commit through the
+ * outbox (outbox.ts); failures are retried with exponential backoff by the
+ * output job worker until MAX_OUTPUT_JOB_ATTEMPTS, after which the job and the
+ * application are marked FAILED and an admin can requeue it.
+ *
+ * Idempotency: the (arn, template_id) key means a decision enqueues at most
+ * one job, the job row is locked while it runs, and an output already on file
+ * for the template is linked rather than generated again — so a decision never
+ * produces two output numbers. The output row, the locker document, the job
+ * status, the OUTPUT_ISSUED notification and webhooks commit together.
+ *
+ * Run via POST /internal/jobs/output-jobs or the local setInterval fallback.
+ */
+import type pg from "pg";
+import { getClient, query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { logError, logInfo, logWarn } from "./logger";
+import { generateOutput, getStoredOutputSize } from "./outputs";
+import { issueCitizenDocument } from "./documents";
+import { enqueueOutboxEntry } from "./outbox";
+import { enqueueWebhookEvent } from "./webhooks";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+
+export type OutputJobStatus = "PENDING" | "GENERATED" | "FAILED";
+
+export interface OutputJob {
+  job_id: string;
+  arn: string;
+  template_id: string;
+  output_action: string | null;
+  decision_state: string | null;
+  status: OutputJobStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  output_id: string | null;
+  locker_doc_type_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OutputJobRunResult {
+  attempted: number;
+  generated: number;
+  failed: number;
+  errors: string[];
+}
+
+export const MAX_OUTPUT_JOB_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const RUN_BATCH_SIZE = 50;
+
+/** Delay before the next attempt after `attempts` failures: 1, 2, 4, ... minutes, capped at an hour. */
+export function outputJobBackoffMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BASE_BACKOFF_MS * 2 ** exponent, MAX_BACKOFF_MS);
+}
+
+/** Status after a failed attempt that brings the job to `attempts`. */
+export function statusAfterFailure(attempts: number): OutputJobStatus {
+  return attempts >= MAX_OUTPUT_JOB_ATTEMPTS ? "FAILED" : "PENDING";
+}
+
+/**
+ * Queue generation of the template's output in the caller's transaction.
+ * Returns the existing job when the application already has one for the template.
+ */
+export async function enqueueOutputJob(
+  client: pg.PoolClient,
+  arn: string,
+  templateId: string,
+  outputAction: string | null
+): Promise<string> {
+  const appResult = await client.query("SELECT disposal_type FROM application WHERE arn = $1", [arn]);
+  const decisionState: string | null = appResult.rows[0]?.disposal_type ?? null;
+  const inserted = await client.query(
+    `INSERT INTO output_job (job_id, arn, template_id, output_action, decision_state)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (arn, template_id) DO NOTHING
+     RETURNING job_id`,
+    [uuidv4(), arn, templateId, outputAction, decisionState]
+  );
+  if (inserted.rows.length === 0) {
+    const existing = await client.query(
+      "SELECT job_id FROM output_job WHERE arn = $1 AND template_id = $2",
+      [arn, templateId]
+    );
+    return existing.rows[0].job_id;
+  }
+
+  const jobId: string = inserted.rows[0].job_id;
+  await client.query("UPDATE application SET output_status = 'PENDING' WHERE arn = $1", [arn]);
+  await client.query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [uuidv4(), arn, "OUTPUT_JOB_QUEUED", "SYSTEM", "system", JSON.stringify({ jobId, templateId, outputAction, decisionState })]
+  );
+  await enqueueOutboxEntry(client, "OUTPUT_JOB", { jobId }, arn);
+  return jobId;
+}
+
+/**
+ * Attempt one pending job. Returns the job's status afterwards, or null when
+ * it is not pending or another worker holds it.
+ */
+export async function processOutputJob(jobId: string): Promise<OutputJobStatus | null> {
+  const client = await getClient();
+  let job: any;
+  try {
+    await client.query("BEGIN");
+    discardAfterCommit(client);
+    const jobResult = await client.query(
+      `SELECT j.job_id, j.arn, j.template_id, j.attempts, j.locker_doc_type_id,
+              a.service_key, a.applicant_user_id, a.public_arn
+         FROM output_job j
+         JOIN application a ON a.arn = j.arn
+        WHERE j.job_id = $1 AND j.status = 'PENDING'
+        FOR UPDATE OF j SKIP LOCKED`,
+      [jobId]
+    );
+    job = jobResult.rows[0];
+    if (!job) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+
+    const existing = await client.query(
+      "SELECT output_id FROM output WHERE arn = $1 AND template_id = $2 ORDER BY generated_at ASC LIMIT 1",
+      [job.arn, job.template_id]
+    );
+    let outputId: string;
+    if (existing.rows.length > 0) {
+      outputId = existing.rows[0].output_id;
+    } else {
+      const output = await generateOutput(job.arn, job.template_id, job.service_key, client);
+      outputId = output.output_id;
+      if (job.applicant_user_id && output.storage_key) {
+        const sizeBytes = await getStoredOutputSize(output.storage_key);
+        await issueCitizenDocument(
+          job.applicant_user_id,
+          job.locker_doc_type_id || `output_${job.service_key}`,
+          output.storage_key,
+          output.storage_key.split("/").pop() || "certificate.pdf",
+          "application/pdf",
+          sizeBytes ?? 0,
+          job.public_arn || job.arn,
+          output.valid_from ? output.valid_from.toISOString().split("T")[0] : null,
+          output.valid_to ? output.valid_to.toISOString().split("T")[0] : null,
+          client
+        );
+      }
+    }
+
+    await client.query(
+      `UPDATE output_job
+          SET status = 'GENERATED', attempts = attempts + 1, output_id = $2, last_error = NULL, updated_at = NOW()
+        WHERE job_id = $1`,
+      [jobId, outputId]
+    );
+    await client.query("UPDATE application SET output_status = 'GENERATED' WHERE arn = $1", [job.arn]);
+    await enqueueOutboxEntry(
+      client,
+      "NOTIFY",
+      { event: "OUTPUT_ISSUED", arn: job.public_arn || job.arn, metadata: { outputId, templateId: job.template_id } },
+      job.arn
+    );
+    await enqueueWebhookEvent(client, "OUTPUT_ISSUED", job.arn, { outputId, templateId: job.template_id });
+    await client.query("COMMIT");
+    await runAfterCommit(client);
+    return "GENERATED";
+  } catch (error: any) {
+    await client.query("ROLLBACK").catch(() => {});
+    if (!job) throw error;
+    return recordFailure(job, error?.message || "unknown_error");
+  } finally {
+    client.release();
+  }
+}
+
+async function recordFailure(
+  job: { job_id: string; arn: string; template_id: string; attempts: number },
+  message: string
+): Promise<OutputJobStatus> {
+  const attempts = job.attempts + 1;
+  const status = statusAfterFailure(attempts);
+  await query(
+    `UPDATE output_job
+        SET status = $2, attempts = $3, last_error = $4,
+            next_attempt_at = NOW() + ($5::int * INTERVAL '1 millisecond'), updated_at = NOW()
+      WHERE job_id = $1`,
+    [job.job_id, status, attempts, message, outputJobBackoffMs(attempts)]
+  );
+  logWarn("Output generation failed", { arn: job.arn, jobId: job.job_id, attempts, status, error: message });
+  if (status === "FAILED") {
+    await query("UPDATE application SET output_status = 'FAILED' WHERE arn = $1", [job.arn]);
+    await query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+      [
+        uuidv4(),
+        job.arn,
+        "OUTPUT_GENERATION_FAILED",
+        "SYSTEM",
+        "system",
+        JSON.stringify({ jobId: job.job_id, templateId: job.template_id, attempts, error: message }),
+      ]
+    );
+  }
+  return status;
+}
+
+/**
+ * Generate the template's output now, through the job so it stays idempotent
+ * with the engine. Used where a caller needs the file in the same request.
+ */
+export async function generateOutputNow(arn: string, templateId: string): Promise<OutputJobStatus | null> {
+  const client = await getClient();
+  let jobId: string;
+  try {
+    await client.query("BEGIN");
+    jobId = await enqueueOutputJob(client, arn, templateId, null);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+  // Not runAfterCommit: the caller waits for the attempt
+  return processOutputJob(jobId);
+}
+
+/** Jobs by status, newest first, optionally limited to one authority. */
+export async function listOutputJobs(
+  status: OutputJobStatus,
+  authorityId?: string,
+  limit: number = 100
+): Promise<Array<OutputJob & { public_arn: string | null; service_key: string; authority_id: string }>> {
+  const result = await query(
+    `SELECT j.*, a.public_arn, a.service_key, a.authority_id
+       FROM output_job j
+       JOIN application a ON a.arn = j.arn
+      WHERE j.status = $1 AND ($2::text IS NULL OR a.authority_id = $2)
+      ORDER BY j.updated_at DESC
+      LIMIT $3`,
+    [status, authorityId ?? null, limit]
+  );
+  return result.rows;
+}
+
+/** Requeue a FAILED job for an immediate attempt with a fresh retry budget. */
+export async function requeueOutputJob(jobId: string, actorId: string, reason: string): Promise<OutputJob | null> {
+  const result = await query(
+    `UPDATE output_job
+        SET status = 'PENDING', attempts = 0, next_attempt_at = NOW(), updated_at = NOW()
+      WHERE job_id = $1 AND status = 'FAILED'
+      RETURNING *`,
+    [jobId]
+  );
+  const job: OutputJob | undefined = result.rows[0];
+  if (!job) return null;
+  await query("UPDATE application SET output_status = 'PENDING' WHERE arn = $1", [job.arn]);
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [uuidv4(), job.arn, "OUTPUT_JOB_REQUEUED", "ADMIN", actorId, JSON.stringify({ jobId, templateId: job.template_id, reason })]
+  );
+  return job;
+}
+
+/** Attempt every pending job that is due. */
+export async function runOutputJobs(): Promise<OutputJobRunResult> {
+  const result: OutputJobRunResult = { attempted: 0, generated: 0, failed: 0, errors: [] };
+  try {
+    const due = await query(
+      `SELECT job_id, arn FROM output_job
+        WHERE status = 'PENDING' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at ASC
+        LIMIT $1`,
+      [RUN_BATCH_SIZE]
+    );
+    for (const row of due.rows) {
+      try {
+        const status = await processOutputJob(row.job_id);
+        if (status === null) continue;
+        result.attempted += 1;
+        if (status === "GENERATED") result.generated += 1;
+        if (status === "FAILED") result.failed += 1;
+      } catch (err: any) {
+        result.errors.push(`${row.arn}/${row.job_id}: ${err?.message || "unknown_error"}`);
+      }
+    }
+  } catch (err: any) {
+    result.errors.push(`Output job run failed: ${err.message}`);
+  }
+
+  if (result.attempted > 0 || result.errors.length > 0) {
+    logInfo("Output job run completed", {
+      attempted: result.attempted,
+      generated: result.generated,
+      failed: result.failed,
+      errors: result.errors.length,
+    });
+  }
+  return result;
+}
+
+/**
+ * Start periodic output job processing.
+ * Default: runs every minute.
+ */
+export function startOutputJobWorker(intervalMs: number = 60 * 1000): NodeJS.Timeout {
+  logInfo("Starting output job worker", { intervalSeconds: intervalMs / 1000 });
+  const timer = setInterval(() => {
+    runOutputJobs().catch((err) => {
+      logError("Periodic output job run failed", { error: err instanceof Error ? err.message : String(err) });
+    });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
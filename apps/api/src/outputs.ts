@@ -5,6 +5,15 @@ import PDFDocument from "pdfkit";
 import QRCode from "qrcode";
 import { getStorage } from "./storage";
 import { getLatestDecision } from "./decisions";
+import type { PoolClient } from "pg";
+import type { WorkflowActionEntry } from "./workflow";
+import { GENERATE_OUTPUT_ACTION_PREFIX, templateIdFromOutputAction } from "./workflow-actions";
+import { findCloseTransition } from "./workflow-rules";
+
+// Defined with the core actions so service-pack preflight can use them without a database
+export { GENERATE_OUTPUT_ACTION_PREFIX, templateIdFromOutputAction };
+
+type QueryRunner = (text: string, params?: unknown[]) => Promise<{ rows: any[] }>;
 
 export interface OutputRecord {
   output_id: string;
@@ -38,25 +47,12 @@ const SERVICE_DISPLAY_NAME: Record<string, string> = {
   sanction_of_sewerage_connection: "Sanction of Sewerage Connection",
 };
 
-const GENERATE_OUTPUT_ACTION_PREFIX = "GENERATE_OUTPUT_";
-
-export function templateIdFromOutputAction(outputAction?: string | null): string | null {
-  if (!outputAction || !outputAction.startsWith(GENERATE_OUTPUT_ACTION_PREFIX)) {
-    return null;
-  }
-  const templateSuffix = outputAction.slice(GENERATE_OUTPUT_ACTION_PREFIX.length).trim();
-  if (!templateSuffix) {
-    return null;
-  }
-  return templateSuffix.toLowerCase();
-}
-
 interface WorkflowTransitionConfig {
   transitionId: string;
   fromStateId: string;
   toStateId: string;
   trigger?: "manual" | "system";
-  actions?: string[];
+  actions?: WorkflowActionEntry[];
 }
 
 export async function resolveTemplateIdForDecisionState(
@@ -78,24 +74,14 @@ export async function resolveTemplateIdForDecisionState(
     return { templateId: null, outputAction: null, transitionId: null };
   }
 
-  const expectedCloseTransitionId =
-    decisionState === "APPROVED" ? "CLOSE_APPROVED" : "CLOSE_REJECTED";
-
-  const closeTransition =
-    transitions.find((transition) => transition.transitionId === expectedCloseTransitionId) ||
-    transitions.find(
-      (transition) =>
-        transition.fromStateId === decisionState &&
-        transition.toStateId === "CLOSED" &&
-        transition.trigger === "system"
-    );
+  const closeTransition = findCloseTransition(transitions, decisionState);
 
   if (!closeTransition) {
     return { templateId: null, outputAction: null, transitionId: null };
   }
 
-  const outputAction = (closeTransition.actions || []).find((action) =>
-    action.startsWith(GENERATE_OUTPUT_ACTION_PREFIX)
+  const outputAction = (closeTransition.actions || []).find(
+    (action): action is string => typeof action === "string" && action.startsWith(GENERATE_OUTPUT_ACTION_PREFIX)
   );
   const templateId = templateIdFromOutputAction(outputAction);
 
@@ -106,9 +92,9 @@ export async function resolveTemplateIdForDecisionState(
   };
 }
 
-async function getOutputNumber(serviceKey: string): Promise<string> {
+async function getOutputNumber(serviceKey: string, run: QueryRunner = query): Promise<string> {
   const year = new Date().getFullYear();
-  const seqResult = await query("SELECT nextval('arn_seq') as seq");
+  const seqResult = await run("SELECT nextval('arn_seq') as seq");
   const seq = String(seqResult.rows[0].seq).padStart(6, "0");
   const prefix = SERVICE_OUTPUT_PREFIX[serviceKey] || "OUT";
   return `PUDA/${prefix}/${year}/${seq}`;
@@ -122,6 +108,42 @@ function fillTemplate(html: string, data: Record<string, string>): string {
   return out;
 }
 
+/**
+ * Render an A4 document (50pt margins) into a buffer. `draw` receives the
+ * document and the usable page width; challans reuse this (see challans.ts).
+ */
+export function renderPdfDocument(draw: (doc: PDFKit.PDFDocument, pageWidth: number) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    draw(doc, doc.page.width - 100); // margin 50 each side
+    doc.end();
+  });
+}
+
+/** PUDA logo mark, authority name and rule; leaves the cursor below the rule. */
+export function drawAuthorityLetterhead(doc: PDFKit.PDFDocument, authorityName: string, pageWidth: number): void {
+  doc.save();
+  doc.circle(76, 70, 22).lineWidth(1.5).strokeColor("#0B5FFF").stroke();
+  doc.fillColor("#0B5FFF").font("Helvetica-Bold").fontSize(11).text("PUDA", 57, 64, {
+    width: 38,
+    align: "center",
+  });
+  doc.restore();
+
+  doc.fontSize(16).font("Helvetica-Bold").fillColor("#0f1f33").text(authorityName.toUpperCase(), {
+    align: "center",
+  });
+  doc.moveDown(0.3);
+  doc.fontSize(10).font("Helvetica").fillColor("#334155").text("Government of Punjab", { align: "center" });
+  doc.moveDown(0.5);
+  doc.moveTo(50, doc.y).lineTo(50 + pageWidth, doc.y).stroke("#333");
+  doc.moveDown(0.5);
+}
+
 // B2: Generate professional A4 PDF with header, tables, QR code using PDFKit
 async function renderProfessionalPdf(params: {
   authorityName: string;
@@ -136,32 +158,8 @@ async function renderProfessionalPdf(params: {
   qrDataUrl: string;
   digitalSignature: string;
 }): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const doc = new PDFDocument({ size: "A4", margin: 50 });
-    const chunks: Buffer[] = [];
-    doc.on("data", (chunk) => chunks.push(chunk));
-    doc.on("end", () => resolve(Buffer.concat(chunks)));
-    doc.on("error", reject);
-
-    const pageWidth = doc.page.width - 100; // margin 50 each side
-
-    // PUDA logo mark + header
-    doc.save();
-    doc.circle(76, 70, 22).lineWidth(1.5).strokeColor("#0B5FFF").stroke();
-    doc.fillColor("#0B5FFF").font("Helvetica-Bold").fontSize(11).text("PUDA", 57, 64, {
-      width: 38,
-      align: "center",
-    });
-    doc.restore();
-
-    doc.fontSize(16).font("Helvetica-Bold").fillColor("#0f1f33").text(params.authorityName.toUpperCase(), {
-      align: "center",
-    });
-    doc.moveDown(0.3);
-    doc.fontSize(10).font("Helvetica").fillColor("#334155").text("Government of Punjab", { align: "center" });
-    doc.moveDown(0.5);
-    doc.moveTo(50, doc.y).lineTo(50 + pageWidth, doc.y).stroke("#333");
-    doc.moveDown(0.5);
+  return renderPdfDocument((doc, pageWidth) => {
+    drawAuthorityLetterhead(doc, params.authorityName, pageWidth);
 
     // Title
     doc.fontSize(14).font("Helvetica-Bold").text(params.serviceName, { align: "center" });
@@ -254,17 +252,23 @@ async function renderProfessionalPdf(params: {
       `This is a digitally generated certificate. Output No: ${params.outputNumber}`,
       50, doc.page.height - 40, { width: pageWidth, align: "center" }
     );
-
-    doc.end();
   });
 }
 
+/**
+ * Render, store and record an output. With a client the rows are written in
+ * the caller's transaction (see output-jobs.ts).
+ */
 export async function generateOutput(
   arn: string,
   templateId: string,
-  serviceKey: string
+  serviceKey: string,
+  client?: PoolClient
 ): Promise<OutputRecord> {
-  const appResult = await query(
+  const run: QueryRunner = client
+    ? (text: string, params?: unknown[]) => client.query(text, params)
+    : query;
+  const appResult = await run(
     "SELECT a.arn, a.public_arn, a.data_jsonb, a.disposal_type, a.authority_id, au.name as authority_name FROM application a LEFT JOIN authority au ON a.authority_id = au.authority_id WHERE a.arn = $1",
     [arn]
   );
@@ -279,7 +283,7 @@ export async function generateOutput(
   const displayArn = app.public_arn || arn;
   const decision = app.disposal_type || (templateId.includes("rejection") ? "REJECTED" : "APPROVED");
 
-  const outputNumber = await getOutputNumber(serviceKey);
+  const outputNumber = await getOutputNumber(serviceKey, run);
   const issuedAt = new Date().toISOString().slice(0, 10);
   const signaturePayload = [
     authorityName,
@@ -375,7 +379,7 @@ export async function generateOutput(
   const qrVerificationCode = outputNumber.replace(/\//g, "-");
 
   const outputId = uuidv4();
-  await query(
+  await run(
     `INSERT INTO output
        (output_id, arn, output_type, artifact_type, template_id, output_number,
         storage_key, decision_id, valid_from, valid_to, qr_verification_code, signature_certificate, generated_at)
@@ -386,12 +390,12 @@ export async function generateOutput(
     ]
   );
 
-  await query(
+  await run(
     "INSERT INTO audit_event (event_id, arn, event_type, actor_type, payload_jsonb) VALUES ($1, $2, 'OUTPUT_GENERATED', 'SYSTEM', $3)",
     [uuidv4(), arn, JSON.stringify({ outputId, templateId, outputNumber, decisionId, artifactType })]
   );
 
-  return (await getOutputByIdFull(outputId))!;
+  return (await getOutputByIdFull(outputId, run))!;
 }
 
 const OUTPUT_COLUMNS = `output_id, arn, output_type, artifact_type, template_id, output_number,
@@ -415,8 +419,8 @@ function rowToOutput(row: any): OutputRecord {
   };
 }
 
-async function getOutputByIdFull(outputId: string): Promise<OutputRecord | null> {
-  const result = await query(
+async function getOutputByIdFull(outputId: string, run: QueryRunner = query): Promise<OutputRecord | null> {
+  const result = await run(
     `SELECT ${OUTPUT_COLUMNS} FROM output WHERE output_id = $1`,
     [outputId]
   );
@@ -453,6 +457,12 @@ export async function getOutputFile(outputId: string): Promise<{ buffer: Buffer;
   return { buffer, mimeType: "application/pdf" };
 }
 
+/** Size in bytes of a stored output file, or null when storage no longer has it. */
+export async function getStoredOutputSize(storageKey: string): Promise<number | null> {
+  const buffer = await getStorage().read(storageKey);
+  return buffer ? buffer.length : null;
+}
+
 /** PERF-011: Stream version of getOutputFile for downloads. */
 export async function getOutputFileStream(outputId: string): Promise<{ stream: import("stream").Readable; mimeType: string } | null> {
   const result = await query(
@@ -0,0 +1,271 @@
+import { describe, expect, it, vi } from "vitest";
+import type pg from "pg";
+
+const db = vi.hoisted(() => ({ client: null as unknown as pg.PoolClient }));
+vi.mock("./db", () => ({
+  getClient: vi.fn(async () => db.client),
+  query: vi.fn(async () => ({ rows: [{}] })),
+}));
+
+import {
+  detectStatementFormat,
+  hasReconciliationRole,
+  importReconciliationFile,
+  parseMt940,
+  parseStatementAmount,
+  parseStatementCsv,
+  parseStatementDate,
+  reconcileStatementLines,
+  ReconciliationError,
+  resolveReconciliationItem,
+  type ReconcilablePayment,
+  type StatementLine,
+} from "./payment-reconciliation";
+
+function payment(overrides: Partial<ReconcilablePayment>): ReconcilablePayment {
+  return {
+    payment_id: "pay-1",
+    arn: "PUDA/2026/0001",
+    status: "VERIFIED",
+    amount: 2950,
+    gateway_order_id: null,
+    gateway_payment_id: null,
+    provider_transaction_id: null,
+    instrument_number: null,
+    paid_at: new Date("2026-03-01T06:30:00Z"),
+    reconciliation_status: "PENDING",
+    ...overrides,
+  };
+}
+
+function line(overrides: Partial<StatementLine>): StatementLine {
+  return { lineNumber: 2, references: [], amount: 2950, valueDate: "2026-03-02", raw: {}, ...overrides };
+}
+
+describe("statement parsing", () => {
+  it("reads amounts and dates in the formats banks and gateways export", () => {
+    expect(parseStatementAmount("1,250.50")).toBe(1250.5);
+    expect(parseStatementAmount("₹ 2950")).toBe(2950);
+    expect(parseStatementAmount("2950.00 CR")).toBe(2950);
+    expect(parseStatementAmount("-10")).toBeNull();
+    expect(parseStatementDate("2026-03-01 10:15:00")).toBe("2026-03-01");
+    expect(parseStatementDate("01/03/2026")).toBe("2026-03-01");
+    expect(parseStatementDate("1-Mar-2026")).toBe("2026-03-01");
+    expect(parseStatementDate("31/02/2026")).toBeNull();
+  });
+
+  it("maps gateway settlement CSV columns and skips debit rows", () => {
+    const lines = parseStatementCsv(
+      [
+        "Order ID,Payment ID,Settlement Date,Amount,Debit",
+        'order_1,pay_1,2026-03-02,"2,950.00",',
+        ",,2026-03-02,,150.00",
+        'order_2,,02/03/2026,500,',
+      ].join("\r\n")
+    );
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      lineNumber: 2,
+      references: ["order_1", "pay_1"],
+      amount: 2950,
+      valueDate: "2026-03-02",
+    });
+    expect(lines[1]).toMatchObject({ lineNumber: 4, references: ["order_2"], amount: 500 });
+  });
+
+  it("rejects CSVs without reference or amount columns", () => {
+    expect(() => parseStatementCsv("Narration,Balance\nNEFT,100")).toThrow(ReconciliationError);
+    expect(() => parseStatementCsv("utr,amount")).toThrow("The file has no data rows");
+  });
+
+  it("reads MT940 credit lines with their narrative references", () => {
+    const statement = [
+      ":20:STMT0301",
+      ":25:PUDA0001234",
+      ":28C:00012/001",
+      ":60F:C260228INR100000,00",
+      ":61:2603010301C5900,00NTRFCHLN0012345//HDFC998877",
+      ":86:CHALLAN CHLN0012345 PUDA FEE",
+      "DEPOSIT AT BRANCH",
+      ":61:260301D1200,00NCHGNONREF",
+      ":86:BANK CHARGES",
+      ":62F:C260301INR104700,00",
+      "-",
+    ].join("\n");
+    expect(detectStatementFormat("march.txt", statement)).toBe("MT940");
+    expect(detectStatementFormat("settlement.csv", "order_id,amount")).toBe("CSV");
+
+    const lines = parseMt940(statement);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({
+      lineNumber: 5,
+      references: ["CHLN0012345", "HDFC998877"],
+      amount: 5900,
+      valueDate: "2026-03-01",
+    });
+    expect(lines[0].raw.narrative).toBe("CHALLAN CHLN0012345 PUDA FEE DEPOSIT AT BRANCH");
+  });
+});
+
+describe("reconcileStatementLines", () => {
+  it("matches on any known reference and settles equal amounts within the date tolerance", () => {
+    const payments = [
+      payment({ payment_id: "gw", gateway_order_id: "ORDER_1" }),
+      payment({ payment_id: "challan", instrument_number: "CHLN0012345", amount: 5900 }),
+    ];
+    const outcomes = reconcileStatementLines(
+      [
+        line({ references: ["order_1"] }),
+        line({ references: ["CHLN0012345", "HDFC998877"], amount: 5900, valueDate: "2026-03-04" }),
+      ],
+      payments
+    );
+    expect(outcomes.map(({ paymentId, matchedOn, status, reasons }) => ({ paymentId, matchedOn, status, reasons }))).toEqual([
+      { paymentId: "gw", matchedOn: "GATEWAY_ORDER_ID", status: "MATCHED", reasons: [] },
+      { paymentId: "challan", matchedOn: "INSTRUMENT_NUMBER", status: "MATCHED", reasons: [] },
+    ]);
+  });
+
+  it("flags amount and date mismatches", () => {
+    const [outcome] = reconcileStatementLines(
+      [line({ references: ["UTR123"], amount: 2900, valueDate: "2026-03-10" })],
+      [payment({ provider_transaction_id: "UTR123" })]
+    );
+    expect(outcome).toMatchObject({
+      matchedOn: "PROVIDER_TRANSACTION_ID",
+      status: "MISMATCH",
+      reasons: ["AMOUNT_MISMATCH", "DATE_MISMATCH"],
+    });
+  });
+
+  it("sends duplicates, ambiguous references and unsettled payments to manual review", () => {
+    const outcomes = reconcileStatementLines(
+      [
+        line({ references: ["ORDER_1"] }),
+        line({ references: ["ORDER_1"] }),
+        line({ references: ["ORDER_2", "pay_x"] }),
+        line({ references: ["ORDER_3"] }),
+        line({ references: ["ORDER_4"] }),
+        line({ references: ["NOPE"] }),
+        line({ references: [], amount: null }),
+      ],
+      [
+        payment({ payment_id: "p1", gateway_order_id: "ORDER_1" }),
+        payment({ payment_id: "p2", gateway_order_id: "ORDER_2" }),
+        payment({ payment_id: "p3", gateway_payment_id: "PAY_X" }),
+        payment({ payment_id: "p4", gateway_order_id: "ORDER_3", status: "INITIATED" }),
+        payment({ payment_id: "p5", gateway_order_id: "ORDER_4", reconciliation_status: "RECONCILED" }),
+      ]
+    );
+    expect(outcomes.map(({ status, reasons }) => [status, reasons[0]])).toEqual([
+      ["MATCHED", undefined],
+      ["MANUAL_REVIEW", "DUPLICATE_SETTLEMENT"],
+      ["MANUAL_REVIEW", "AMBIGUOUS_MATCH"],
+      ["MANUAL_REVIEW", "PAYMENT_NOT_SUCCESSFUL"],
+      ["MANUAL_REVIEW", "DUPLICATE_SETTLEMENT"],
+      ["UNMATCHED", "NO_MATCHING_PAYMENT"],
+      ["UNMATCHED", "UNREADABLE_LINE"],
+    ]);
+    expect(outcomes[2].paymentId).toBeNull();
+  });
+});
+
+describe("hasReconciliationRole", () => {
+  it("requires an accounts role in the same authority", () => {
+    const postings = [{ authority_id: "PUDA", system_role_ids: ["CLERK", "ACCOUNT_OFFICER"] }];
+    expect(hasReconciliationRole(postings, "PUDA")).toBe(true);
+    expect(hasReconciliationRole(postings, "GMADA")).toBe(false);
+    expect(hasReconciliationRole([{ authority_id: "PUDA", system_role_ids: ["CLERK"] }], "PUDA")).toBe(false);
+  });
+});
+
+/** Just enough of the import and resolution SQL to follow one payment through several files. */
+function fakeLedger(stored: ReconcilablePayment) {
+  const state = { payment: { ...stored }, hashes: new Set<string>(), items: [] as any[], paymentUpdates: 0 };
+  const client = {
+    query: vi.fn(async (text: string, params: any[] = []) => {
+      if (text.includes("FROM reconciliation_import WHERE authority_id")) {
+        return { rows: state.hashes.has(params[1]) ? [{ import_id: "earlier" }] : [] };
+      }
+      if (text.includes("INSERT INTO reconciliation_import")) state.hashes.add(params[5]);
+      if (text.includes("FROM payment p") && text.includes("ANY($2)")) return { rows: [{ ...state.payment }] };
+      if (text.includes("INSERT INTO reconciliation_item")) {
+        state.items.push({
+          item_id: params[0],
+          import_id: params[1],
+          payment_id: params[6],
+          status: params[8],
+          reasons: params[9],
+          payment_prior_status: params[11],
+          payment_prior_reconciled_at: params[12],
+          authority_id: "PUDA",
+        });
+      }
+      if (text.includes("FROM reconciliation_item i")) {
+        return { rows: state.items.filter((item) => item.item_id === params[0]) };
+      }
+      if (text.includes("UPDATE payment")) {
+        state.paymentUpdates += 1;
+        if (params.length === 2) {
+          state.payment.reconciliation_status = params[1];
+        } else if (params.length === 1) {
+          state.payment.reconciliation_status = "RECONCILED";
+        } else if (params[1] && state.payment.reconciliation_status !== "RECONCILED") {
+          state.payment.reconciliation_status = params[2] ?? "PENDING";
+          state.payment.reconciled_at = params[3];
+        }
+        return { rows: [{ arn: state.payment.arn }] };
+      }
+      return { rows: [] };
+    }),
+    release: vi.fn(),
+  } as unknown as pg.PoolClient;
+  db.client = client;
+  return state;
+}
+
+function importCsv(csv: string, fileName = "settlement.csv") {
+  return importReconciliationFile({
+    authorityId: "PUDA",
+    sourceType: "GATEWAY_SETTLEMENT",
+    fileName,
+    content: Buffer.from(csv),
+    importedByUserId: "accounts-1",
+  });
+}
+
+describe("importing the same settlement twice", () => {
+  const settlement = "Order ID,Settlement Date,Amount\nORDER_1,2026-03-02,2950\n";
+
+  it("keeps the payment reconciled and only reviews the repeated line", async () => {
+    const ledger = fakeLedger(payment({ gateway_order_id: "ORDER_1" }));
+
+    await expect(importCsv(settlement)).resolves.toMatchObject({ outcomes: { MATCHED: 1, MANUAL_REVIEW: 0 } });
+    expect(ledger.payment.reconciliation_status).toBe("RECONCILED");
+
+    await expect(importCsv(settlement)).rejects.toThrow("This file has already been imported");
+    // The same lines re-exported under another name get past the file hash
+    await expect(importCsv(settlement.replace("\n", "\r\n"), "settlement-copy.csv")).resolves.toMatchObject({
+      outcomes: { MATCHED: 0, MANUAL_REVIEW: 1 },
+    });
+    expect(ledger.paymentUpdates).toBe(1);
+    expect(ledger.payment.reconciliation_status).toBe("RECONCILED");
+    const duplicate = ledger.items.at(-1);
+    expect(duplicate).toMatchObject({ reasons: ["DUPLICATE_SETTLEMENT"], payment_prior_status: null });
+
+    await resolveReconciliationItem(duplicate.item_id, { action: "IGNORE", note: "Repeated in the copy" }, "accounts-1");
+    expect(ledger.payment.reconciliation_status).toBe("RECONCILED");
+  });
+
+  it("puts a mismatched payment back where it was when the line is ignored", async () => {
+    const ledger = fakeLedger(payment({ gateway_order_id: "ORDER_1", reconciliation_status: "MANUAL_REVIEW" }));
+
+    await importCsv(settlement.replace("2950", "2900"));
+    expect(ledger.payment.reconciliation_status).toBe("MISMATCH");
+    const [mismatch] = ledger.items;
+    expect(mismatch.payment_prior_status).toBe("MANUAL_REVIEW");
+
+    await resolveReconciliationItem(mismatch.item_id, { action: "IGNORE", note: "Short credit, chased" }, "accounts-1");
+    expect(ledger.payment.reconciliation_status).toBe("MANUAL_REVIEW");
+  });
+});
@@ -0,0 +1,889 @@
+/**
+ * Payment reconciliation against gateway settlement reports and bank statements.
+ *
+ * An accounts officer imports a settlement file (CSV) or bank statement (CSV or
+ * SWIFT MT940) for an authority. Every credit line is matched to at most one
+ * payment of that authority on any reference it carries, tried in order:
+ *
+ *   gateway_order_id → gateway_payment_id → provider_transaction_id → instrument_number
+ *
+ * and the outcome sets payment.reconciliation_status:
+ *
+ *   RECONCILED     amount equal and value date within RECONCILIATION_DATE_TOLERANCE_DAYS
+ *   MISMATCH       matched, but AMOUNT_MISMATCH and/or DATE_MISMATCH
+ *   MANUAL_REVIEW  AMBIGUOUS_MATCH, DUPLICATE_SETTLEMENT or PAYMENT_NOT_SUCCESSFUL
+ *
+ * Lines that match nothing (or cannot be read) stay UNMATCHED. Exceptions
+ * remain open until resolved (ACCEPT, LINK to a payment, or IGNORE), and every
+ * outcome and resolution is written to audit_event. Successful payments start
+ * at PENDING (payments.ts) until a file settles them.
+ *
+ * A DUPLICATE_SETTLEMENT line never changes its payment, so re-importing an
+ * overlapping statement cannot undo an earlier reconciliation. Every other
+ * exception records the payment's prior state, which IGNORE restores.
+ */
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import type { PoolClient } from "pg";
+import { getClient, query } from "./db";
+import type { UserPosting } from "./auth";
+import { logInfo } from "./logger";
+
+export const RECONCILIATION_SOURCE_TYPES = ["GATEWAY_SETTLEMENT", "BANK_STATEMENT"] as const;
+export type ReconciliationSourceType = (typeof RECONCILIATION_SOURCE_TYPES)[number];
+export type ReconciliationFileFormat = "CSV" | "MT940";
+
+export type ReconciliationItemStatus = "MATCHED" | "MISMATCH" | "MANUAL_REVIEW" | "UNMATCHED" | "RESOLVED";
+export const RECONCILIATION_EXCEPTION_STATUSES = ["MISMATCH", "MANUAL_REVIEW", "UNMATCHED"] as const;
+export type ReconciliationExceptionStatus = (typeof RECONCILIATION_EXCEPTION_STATUSES)[number];
+
+export type ReconciliationMatchField =
+  | "GATEWAY_ORDER_ID"
+  | "GATEWAY_PAYMENT_ID"
+  | "PROVIDER_TRANSACTION_ID"
+  | "INSTRUMENT_NUMBER";
+
+export const RECONCILIATION_RESOLUTIONS = ["ACCEPT", "LINK", "IGNORE"] as const;
+export type ReconciliationResolution = (typeof RECONCILIATION_RESOLUTIONS)[number];
+
+/** Settlement is usually T+1/T+2; allow for weekends and bank holidays. */
+export const RECONCILIATION_DATE_TOLERANCE_DAYS = 3;
+export const MAX_RECONCILIATION_FILE_BYTES = 5 * 1024 * 1024;
+export const MAX_RECONCILIATION_LINES = 10_000;
+
+const DEFAULT_RECONCILIATION_ROLES = ["ACCOUNT_OFFICER", "SR_ASSISTANT_ACCOUNTS"];
+const SETTLED_PAYMENT_STATUSES = new Set(["SUCCESS", "VERIFIED", "REFUNDED"]);
+const MONEY_EPSILON = 0.005;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+export type ReconciliationErrorCode =
+  | "RECONCILIATION_FILE_EMPTY"
+  | "RECONCILIATION_FILE_INVALID"
+  | "RECONCILIATION_FILE_TOO_LARGE"
+  | "RECONCILIATION_FILE_ALREADY_IMPORTED"
+  | "RECONCILIATION_ITEM_NOT_FOUND"
+  | "RECONCILIATION_ITEM_ALREADY_RESOLVED"
+  | "RECONCILIATION_PAYMENT_REQUIRED"
+  | "RECONCILIATION_PAYMENT_NOT_FOUND"
+  | "RECONCILIATION_PAYMENT_ALREADY_RECONCILED";
+
+export class ReconciliationError extends Error {
+  constructor(public readonly code: ReconciliationErrorCode, message: string) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+export interface StatementLine {
+  lineNumber: number;
+  references: string[];
+  amount: number | null;
+  /** YYYY-MM-DD */
+  valueDate: string | null;
+  raw: Record<string, string>;
+}
+
+export interface ReconcilablePayment {
+  payment_id: string;
+  arn: string;
+  status: string;
+  amount: number;
+  gateway_order_id: string | null;
+  gateway_payment_id: string | null;
+  provider_transaction_id: string | null;
+  instrument_number: string | null;
+  paid_at: Date | null;
+  reconciliation_status: string | null;
+  reconciled_at?: Date | null;
+}
+
+export interface ReconciliationOutcome {
+  line: StatementLine;
+  paymentId: string | null;
+  matchedOn: ReconciliationMatchField | null;
+  status: Exclude<ReconciliationItemStatus, "RESOLVED">;
+  reasons: string[];
+}
+
+export interface ReconciliationImport {
+  import_id: string;
+  authority_id: string;
+  source_type: ReconciliationSourceType;
+  file_format: ReconciliationFileFormat;
+  file_name: string;
+  line_count: number;
+  matched_count: number;
+  exception_count: number;
+  imported_by_user_id: string | null;
+  created_at: Date;
+}
+
+export interface ReconciliationItem {
+  item_id: string;
+  import_id: string;
+  authority_id: string;
+  line_number: number;
+  reference_values: string[];
+  amount: number | null;
+  value_date: string | null;
+  payment_id: string | null;
+  matched_on: ReconciliationMatchField | null;
+  status: ReconciliationItemStatus;
+  reasons: string[];
+  resolution: ReconciliationResolution | null;
+  resolution_note: string | null;
+  resolved_by_user_id: string | null;
+  resolved_at: Date | null;
+  created_at: Date;
+  file_name: string;
+  source_type: ReconciliationSourceType;
+  payment: {
+    arn: string;
+    public_arn: string | null;
+    amount: number;
+    status: string;
+    mode: string | null;
+    paid_at: Date | null;
+    reconciliation_status: string | null;
+  } | null;
+}
+
+// ---------------------------------------------------------------------------
+// Access
+// ---------------------------------------------------------------------------
+
+export function getReconciliationRoles(): string[] {
+  const configured = (process.env.PAYMENT_RECONCILIATION_ROLES || "")
+    .split(",")
+    .map((role) => role.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_RECONCILIATION_ROLES;
+}
+
+/** Whether the officer holds an accounts role (PAYMENT_RECONCILIATION_ROLES) in the authority. */
+export function hasReconciliationRole(
+  postings: Pick<UserPosting, "authority_id" | "system_role_ids">[],
+  authorityId: string,
+  roles: string[] = getReconciliationRoles()
+): boolean {
+  return postings.some(
+    (posting) =>
+      posting.authority_id === authorityId &&
+      (posting.system_role_ids || []).some((role) => roles.includes(role))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const CSV_REFERENCE_COLUMNS = [
+  "gateway_order_id",
+  "order_id",
+  "merchant_order_id",
+  "gateway_payment_id",
+  "payment_id",
+  "provider_transaction_id",
+  "transaction_id",
+  "txn_id",
+  "utr",
+  "bank_reference",
+  "reference",
+  "ref_no",
+  "challan_number",
+  "challan_no",
+  "instrument_number",
+  "cheque_no",
+];
+const CSV_AMOUNT_COLUMNS = ["amount", "gross_amount", "txn_amount", "transaction_amount", "credit_amount", "credit", "settled_amount"];
+const CSV_DATE_COLUMNS = ["value_date", "settlement_date", "transaction_date", "txn_date", "payment_date", "date"];
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+export function detectStatementFormat(fileName: string, text: string): ReconciliationFileFormat {
+  if (/\.(sta|mt940|940)$/i.test(fileName) || /^:20:/m.test(text)) return "MT940";
+  return "CSV";
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/** Amount in rupees from "1,250.00", "₹ 1250", "1250.00 CR"; null when unreadable. */
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const cleaned = value.replace(/₹|INR|Rs\.?|,|\s/gi, "").replace(/(CR|C)$/i, "");
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Math.round(Number(cleaned) * 100) / 100;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/** YYYY-MM-DD from "2026-03-01", "01/03/2026", "01-03-2026" or "01-Mar-2026" (time ignored). */
+export function parseStatementDate(value: string | undefined): string | null {
+  const text = (value || "").trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+  if (match) return isoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  match = text.match(/^(\d{1,2})[ -]([A-Za-z]{3})[ -](\d{4})/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toUpperCase());
+    return month < 0 ? null : isoDate(Number(match[3]), month + 1, Number(match[1]));
+  }
+  return null;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/**
+ * Settlement or statement CSV with a header row. Reference, amount and date
+ * columns are recognised by common names; rows with a debit column filled in
+ * and no credit are skipped.
+ */
+export function parseStatementCsv(text: string): StatementLine[] {
+  const rows = parseCsvRows(text);
+  if (rows.length < 2) throw new ReconciliationError("RECONCILIATION_FILE_EMPTY", "The file has no data rows");
+  const headers = rows[0].map(normalizeHeader);
+  const referenceColumns = CSV_REFERENCE_COLUMNS.filter((column) => headers.includes(column));
+  const amountColumn = CSV_AMOUNT_COLUMNS.find((column) => headers.includes(column));
+  const dateColumn = CSV_DATE_COLUMNS.find((column) => headers.includes(column));
+  if (referenceColumns.length === 0 || !amountColumn) {
+    throw new ReconciliationError(
+      "RECONCILIATION_FILE_INVALID",
+      "The CSV needs a reference column (e.g. order_id, utr, challan_number) and an amount column"
+    );
+  }
+
+  const lines: StatementLine[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    const raw: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      if (header) raw[header] = (cells[column] ?? "").trim();
+    });
+    if (headers.includes("debit") && raw.debit && !raw[amountColumn]) return;
+    lines.push({
+      lineNumber: index + 2,
+      references: [...new Set(referenceColumns.map((column) => raw[column]).filter(Boolean))],
+      amount: parseStatementAmount(raw[amountColumn]),
+      valueDate: dateColumn ? parseStatementDate(raw[dateColumn]) : null,
+      raw,
+    });
+  });
+  return lines;
+}
+
+const MT940_STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+(?:,\d*)?)[A-Z][A-Z0-9]{3}([^/]*)(?:\/\/(.*))?$/;
+
+/**
+ * SWIFT MT940 statement: each :61: credit line with its :86: narrative.
+ * References are the customer and bank references plus any reference-like
+ * token in the narrative (challan numbers usually appear there).
+ */
+export function parseMt940(text: string): StatementLine[] {
+  const fields: Array<{ tag: string; value: string; lineNumber: number }> = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const tag = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tag) {
+      fields.push({ tag: tag[1], value: tag[2], lineNumber: index + 1 });
+    } else if (fields.length > 0 && line.trim() && line.trim() !== "-") {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+  if (!fields.some((field) => field.tag === "20")) {
+    throw new ReconciliationError("RECONCILIATION_FILE_INVALID", "Not an MT940 statement (no :20: field)");
+  }
+
+  const lines: StatementLine[] = [];
+  fields.forEach((field, index) => {
+    if (field.tag !== "61") return;
+    const [statementLine, supplementary = ""] = field.value.split("\n");
+    const narrative = fields[index + 1]?.tag === "86" ? fields[index + 1].value.replace(/\n/g, " ") : "";
+    const raw: Record<string, string> = { statement_line: statementLine };
+    if (narrative) raw.narrative = narrative;
+    const match = statementLine.trim().match(MT940_STATEMENT_LINE);
+    if (!match) {
+      lines.push({ lineNumber: field.lineNumber, references: [], amount: null, valueDate: null, raw });
+      return;
+    }
+    const [, yy, mm, dd, , mark, amount, customerRef, bankRef] = match;
+    if (mark !== "C") return;
+    const references = [customerRef.trim(), (bankRef || "").trim(), supplementary.trim()]
+      .filter((ref) => ref && ref.toUpperCase() !== "NONREF");
+    for (const token of narrative.match(/[A-Za-z0-9_-]{6,}/g) || []) {
+      if (/\d/.test(token)) references.push(token);
+    }
+    lines.push({
+      lineNumber: field.lineNumber,
+      references: [...new Set(references)],
+      amount: parseStatementAmount(amount.replace(",", ".")),
+      valueDate: isoDate(2000 + Number(yy), Number(mm), Number(dd)),
+      raw,
+    });
+  });
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+const MATCH_FIELDS: Array<[ReconciliationMatchField, keyof ReconcilablePayment]> = [
+  ["GATEWAY_ORDER_ID", "gateway_order_id"],
+  ["GATEWAY_PAYMENT_ID", "gateway_payment_id"],
+  ["PROVIDER_TRANSACTION_ID", "provider_transaction_id"],
+  ["INSTRUMENT_NUMBER", "instrument_number"],
+];
+
+function normalizeReference(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+function toIstDate(value: Date): string {
+  return new Date(value.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000;
+}
+
+/** Compare one line against a matched payment; empty when it settles it. */
+export function compareSettlement(
+  line: Pick<StatementLine, "amount" | "valueDate">,
+  payment: Pick<ReconcilablePayment, "amount" | "paid_at">,
+  toleranceDays = RECONCILIATION_DATE_TOLERANCE_DAYS
+): string[] {
+  const reasons: string[] = [];
+  if (line.amount === null || Math.abs(line.amount - payment.amount) > MONEY_EPSILON) reasons.push("AMOUNT_MISMATCH");
+  if (line.valueDate && payment.paid_at && daysBetween(line.valueDate, toIstDate(payment.paid_at)) > toleranceDays) {
+    reasons.push("DATE_MISMATCH");
+  }
+  return reasons;
+}
+
+/**
+ * Match statement lines to payments. Pure: `payments` are the authority's
+ * payments carrying any of the lines' references.
+ */
+export function reconcileStatementLines(
+  lines: StatementLine[],
+  payments: ReconcilablePayment[],
+  toleranceDays = RECONCILIATION_DATE_TOLERANCE_DAYS
+): ReconciliationOutcome[] {
+  const indexes = MATCH_FIELDS.map(([field, column]) => {
+    const byReference = new Map<string, ReconcilablePayment>();
+    for (const payment of payments) {
+      const value = payment[column];
+      if (typeof value === "string" && value.trim()) byReference.set(normalizeReference(value), payment);
+    }
+    return { field, byReference };
+  });
+  const claimed = new Set<string>();
+
+  return lines.map((line) => {
+    const candidates = new Map<string, { payment: ReconcilablePayment; field: ReconciliationMatchField }>();
+    for (const { field, byReference } of indexes) {
+      for (const reference of line.references) {
+        const payment = byReference.get(normalizeReference(reference));
+        if (payment && !candidates.has(payment.payment_id)) candidates.set(payment.payment_id, { payment, field });
+      }
+    }
+
+    if (candidates.size === 0) {
+      const reasons = line.amount === null ? ["UNREADABLE_LINE"] : ["NO_MATCHING_PAYMENT"];
+      return { line, paymentId: null, matchedOn: null, status: "UNMATCHED", reasons };
+    }
+    if (candidates.size > 1) {
+      return { line, paymentId: null, matchedOn: null, status: "MANUAL_REVIEW", reasons: ["AMBIGUOUS_MATCH"] };
+    }
+
+    const [{ payment, field }] = [...candidates.values()];
+    const outcome = { line, paymentId: payment.payment_id, matchedOn: field };
+    if (claimed.has(payment.payment_id) || payment.reconciliation_status === "RECONCILED") {
+      return { ...outcome, status: "MANUAL_REVIEW", reasons: ["DUPLICATE_SETTLEMENT"] };
+    }
+    claimed.add(payment.payment_id);
+    if (!SETTLED_PAYMENT_STATUSES.has(payment.status)) {
+      return { ...outcome, status: "MANUAL_REVIEW", reasons: ["PAYMENT_NOT_SUCCESSFUL"] };
+    }
+    const reasons = compareSettlement(line, payment, toleranceDays);
+    return { ...outcome, status: reasons.length > 0 ? "MISMATCH" : "MATCHED", reasons };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+async function insertReconciliationAudit(
+  client: PoolClient,
+  arn: string | null,
+  eventType: string,
+  actorUserId: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await client.query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [uuidv4(), arn, eventType, "OFFICER", actorUserId, JSON.stringify(payload)]
+  );
+}
+
+/** The reconciliation_status an outcome moves its payment to; null leaves the payment alone. */
+export function paymentStatusFor(outcome: Pick<ReconciliationOutcome, "status" | "reasons">): string | null {
+  if (outcome.reasons.includes("DUPLICATE_SETTLEMENT")) return null;
+  const { status } = outcome;
+  if (status === "MATCHED") return "RECONCILED";
+  if (status === "MISMATCH") return "MISMATCH";
+  if (status === "MANUAL_REVIEW") return "MANUAL_REVIEW";
+  return null;
+}
+
+async function loadCandidatePayments(
+  client: PoolClient,
+  authorityId: string,
+  references: string[]
+): Promise<ReconcilablePayment[]> {
+  if (references.length === 0) return [];
+  const result = await client.query(
+    `SELECT p.payment_id, p.arn, p.status, p.amount, p.gateway_order_id, p.gateway_payment_id,
+            p.provider_transaction_id, p.instrument_number, p.reconciliation_status, p.reconciled_at,
+            COALESCE(p.completed_at, p.instrument_date::timestamptz, p.receipt_date::timestamptz) AS paid_at
+     FROM payment p
+     JOIN application a ON a.arn = p.arn
+     WHERE a.authority_id = $1
+       AND (UPPER(p.gateway_order_id) = ANY($2)
+         OR UPPER(p.gateway_payment_id) = ANY($2)
+         OR UPPER(p.provider_transaction_id) = ANY($2)
+         OR UPPER(p.instrument_number) = ANY($2))
+     FOR UPDATE OF p`,
+    [authorityId, references.map(normalizeReference)]
+  );
+  return result.rows.map((row) => ({ ...row, amount: Number(row.amount) }));
+}
+
+export interface ImportReconciliationFileInput {
+  authorityId: string;
+  sourceType: ReconciliationSourceType;
+  fileName: string;
+  content: Buffer;
+  importedByUserId: string;
+}
+
+export async function importReconciliationFile(
+  input: ImportReconciliationFileInput
+): Promise<{ import: ReconciliationImport; outcomes: Record<ReconciliationOutcome["status"], number> }> {
+  if (input.content.length === 0) throw new ReconciliationError("RECONCILIATION_FILE_EMPTY", "The file is empty");
+  if (input.content.length > MAX_RECONCILIATION_FILE_BYTES) {
+    throw new ReconciliationError("RECONCILIATION_FILE_TOO_LARGE", "Files are limited to 5 MB");
+  }
+  const text = input.content.toString("utf-8");
+  const fileFormat = detectStatementFormat(input.fileName, text);
+  const lines = fileFormat === "MT940" ? parseMt940(text) : parseStatementCsv(text);
+  if (lines.length === 0) throw new ReconciliationError("RECONCILIATION_FILE_EMPTY", "The file has no credit lines");
+  if (lines.length > MAX_RECONCILIATION_LINES) {
+    throw new ReconciliationError(
+      "RECONCILIATION_FILE_TOO_LARGE",
+      `Files are limited to ${MAX_RECONCILIATION_LINES} lines; split the statement`
+    );
+  }
+  const fileSha256 = crypto.createHash("sha256").update(input.content).digest("hex");
+
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    const duplicate = await client.query(
+      "SELECT import_id FROM reconciliation_import WHERE authority_id = $1 AND file_sha256 = $2",
+      [input.authorityId, fileSha256]
+    );
+    if (duplicate.rows.length > 0) {
+      throw new ReconciliationError("RECONCILIATION_FILE_ALREADY_IMPORTED", "This file has already been imported");
+    }
+
+    const payments = await loadCandidatePayments(
+      client,
+      input.authorityId,
+      [...new Set(lines.flatMap((line) => line.references))]
+    );
+    const outcomes = reconcileStatementLines(lines, payments);
+    const paymentsById = new Map(payments.map((payment) => [payment.payment_id, payment]));
+    const counts = { MATCHED: 0, MISMATCH: 0, MANUAL_REVIEW: 0, UNMATCHED: 0 };
+    outcomes.forEach((outcome) => (counts[outcome.status] += 1));
+
+    const importId = uuidv4();
+    await client.query(
+      `INSERT INTO reconciliation_import
+         (import_id, authority_id, source_type, file_format, file_name, file_sha256,
+          line_count, matched_count, exception_count, imported_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        importId,
+        input.authorityId,
+        input.sourceType,
+        fileFormat,
+        input.fileName,
+        fileSha256,
+        outcomes.length,
+        counts.MATCHED,
+        outcomes.length - counts.MATCHED,
+        input.importedByUserId,
+      ]
+    );
+
+    for (const outcome of outcomes) {
+      const itemId = uuidv4();
+      const matched = outcome.paymentId ? paymentsById.get(outcome.paymentId) : undefined;
+      const paymentStatus = paymentStatusFor(outcome);
+      const prior = matched && paymentStatus ? matched : undefined;
+      await client.query(
+        `INSERT INTO reconciliation_item
+           (item_id, import_id, line_number, reference_values, amount, value_date,
+            payment_id, matched_on, status, reasons, raw_jsonb,
+            payment_prior_status, payment_prior_reconciled_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+          itemId,
+          importId,
+          outcome.line.lineNumber,
+          outcome.line.references,
+          outcome.line.amount,
+          outcome.line.valueDate,
+          outcome.paymentId,
+          outcome.matchedOn,
+          outcome.status,
+          outcome.reasons,
+          JSON.stringify(outcome.line.raw),
+          prior ? prior.reconciliation_status ?? "PENDING" : null,
+          prior?.reconciled_at ?? null,
+        ]
+      );
+      if (!outcome.paymentId) continue;
+      if (paymentStatus) {
+        await client.query(
+          `UPDATE payment
+           SET reconciliation_status = $2,
+               reconciled_at = CASE WHEN $2 = 'RECONCILED' THEN NOW() ELSE reconciled_at END
+           WHERE payment_id = $1`,
+          [outcome.paymentId, paymentStatus]
+        );
+      }
+      await insertReconciliationAudit(
+        client,
+        matched?.arn ?? null,
+        outcome.status === "MATCHED" ? "PAYMENT_RECONCILED" : "PAYMENT_RECONCILIATION_EXCEPTION",
+        input.importedByUserId,
+        {
+          paymentId: outcome.paymentId,
+          importId,
+          itemId,
+          matchedOn: outcome.matchedOn,
+          status: outcome.status,
+          reasons: outcome.reasons,
+          statementAmount: outcome.line.amount,
+          valueDate: outcome.line.valueDate,
+        }
+      );
+    }
+    await insertReconciliationAudit(client, null, "RECONCILIATION_FILE_IMPORTED", input.importedByUserId, {
+      importId,
+      authorityId: input.authorityId,
+      sourceType: input.sourceType,
+      fileFormat,
+      fileName: input.fileName,
+      ...counts,
+    });
+
+    await client.query("COMMIT");
+    logInfo("Reconciliation file imported", { importId, authorityId: input.authorityId, fileFormat, ...counts });
+    const created = await query("SELECT * FROM reconciliation_import WHERE import_id = $1", [importId]);
+    return { import: rowToImport(created.rows[0]), outcomes: counts };
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Exceptions
+// ---------------------------------------------------------------------------
+
+export async function listReconciliationImports(authorityId: string, limit = 20): Promise<ReconciliationImport[]> {
+  const result = await query(
+    `SELECT * FROM reconciliation_import WHERE authority_id = $1 ORDER BY created_at DESC LIMIT $2`,
+    [authorityId, limit]
+  );
+  return result.rows.map(rowToImport);
+}
+
+/** Payment reconciliation status counts for the authority (successful payments only). */
+export async function getReconciliationSummary(authorityId: string): Promise<Record<string, number>> {
+  const result = await query(
+    `SELECT COALESCE(p.reconciliation_status, 'PENDING') AS status, COUNT(*)::int AS count
+     FROM payment p
+     JOIN application a ON a.arn = p.arn
+     WHERE a.authority_id = $1 AND p.status IN ('SUCCESS', 'VERIFIED', 'REFUNDED')
+     GROUP BY 1`,
+    [authorityId]
+  );
+  const summary: Record<string, number> = { PENDING: 0, RECONCILED: 0, MISMATCH: 0, MANUAL_REVIEW: 0 };
+  for (const row of result.rows) summary[row.status] = row.count;
+  return summary;
+}
+
+const ITEM_SELECT = `
+  SELECT i.*, i.value_date::text AS value_date_text, ri.authority_id, ri.file_name, ri.source_type,
+         p.arn AS payment_arn, a.public_arn AS payment_public_arn, p.amount AS payment_amount,
+         p.status AS payment_status, p.mode AS payment_mode, p.reconciliation_status AS payment_reconciliation_status,
+         COALESCE(p.completed_at, p.instrument_date::timestamptz, p.receipt_date::timestamptz) AS payment_paid_at,
+         COUNT(*) OVER() AS total_count
+  FROM reconciliation_item i
+  JOIN reconciliation_import ri ON ri.import_id = i.import_id
+  LEFT JOIN payment p ON p.payment_id = i.payment_id
+  LEFT JOIN application a ON a.arn = p.arn`;
+
+export async function listReconciliationExceptions(
+  authorityId: string,
+  filters: { importId?: string; status?: ReconciliationExceptionStatus } = {},
+  limit = 50,
+  offset = 0
+): Promise<{ items: ReconciliationItem[]; total: number }> {
+  const conditions = ["ri.authority_id = $1"];
+  const params: unknown[] = [authorityId];
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`i.status = $${params.length}`);
+  } else {
+    conditions.push(`i.status IN ('MISMATCH', 'MANUAL_REVIEW', 'UNMATCHED')`);
+  }
+  if (filters.importId) {
+    params.push(filters.importId);
+    conditions.push(`i.import_id = $${params.length}`);
+  }
+  params.push(limit, offset);
+  const result = await query(
+    `${ITEM_SELECT}
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY i.created_at ASC, i.line_number ASC
+     LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    params
+  );
+  return {
+    items: result.rows.map(rowToItem),
+    total: result.rows.length > 0 ? Number(result.rows[0].total_count) : 0,
+  };
+}
+
+export async function getReconciliationItem(itemId: string): Promise<ReconciliationItem | null> {
+  const result = await query(`${ITEM_SELECT} WHERE i.item_id = $1`, [itemId]);
+  return result.rows.length > 0 ? rowToItem(result.rows[0]) : null;
+}
+
+export interface ResolveReconciliationItemInput {
+  action: ReconciliationResolution;
+  note: string;
+  /** LINK only: the payment the line settles. */
+  paymentId?: string;
+}
+
+/**
+ * Close an exception. ACCEPT settles the matched payment as is, LINK settles
+ * the payment the officer identified for an unmatched or ambiguous line, and
+ * IGNORE dismisses the line (its matched payment goes back to the state it had
+ * before the import; a duplicate line's payment is left as it is).
+ */
+export async function resolveReconciliationItem(
+  itemId: string,
+  input: ResolveReconciliationItemInput,
+  resolvedByUserId: string
+): Promise<ReconciliationItem> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    const itemResult = await client.query(
+      `SELECT i.*, ri.authority_id
+       FROM reconciliation_item i
+       JOIN reconciliation_import ri ON ri.import_id = i.import_id
+       WHERE i.item_id = $1
+       FOR UPDATE OF i`,
+      [itemId]
+    );
+    if (itemResult.rows.length === 0) {
+      throw new ReconciliationError("RECONCILIATION_ITEM_NOT_FOUND", "Reconciliation item not found");
+    }
+    const item = itemResult.rows[0];
+    if (!(RECONCILIATION_EXCEPTION_STATUSES as readonly string[]).includes(item.status)) {
+      throw new ReconciliationError("RECONCILIATION_ITEM_ALREADY_RESOLVED", "This line needs no resolution");
+    }
+
+    let paymentId: string | null = item.payment_id;
+    if (input.action === "LINK") {
+      if (!input.paymentId) {
+        throw new ReconciliationError("RECONCILIATION_PAYMENT_REQUIRED", "Choose the payment this line settles");
+      }
+      const linked = await client.query(
+        `SELECT p.payment_id, p.reconciliation_status
+         FROM payment p
+         JOIN application a ON a.arn = p.arn
+         WHERE p.payment_id = $1 AND a.authority_id = $2
+         FOR UPDATE OF p`,
+        [input.paymentId, item.authority_id]
+      );
+      if (linked.rows.length === 0) {
+        throw new ReconciliationError("RECONCILIATION_PAYMENT_NOT_FOUND", "Payment not found in this authority");
+      }
+      if (linked.rows[0].reconciliation_status === "RECONCILED" && input.paymentId !== item.payment_id) {
+        throw new ReconciliationError(
+          "RECONCILIATION_PAYMENT_ALREADY_RECONCILED",
+          "That payment is already settled by another line"
+        );
+      }
+      paymentId = input.paymentId;
+    } else if (input.action === "ACCEPT" && !paymentId) {
+      throw new ReconciliationError("RECONCILIATION_PAYMENT_REQUIRED", "Only a matched line can be accepted; link it instead");
+    }
+
+    await client.query(
+      `UPDATE reconciliation_item
+       SET status = 'RESOLVED', payment_id = $2, resolution = $3, resolution_note = $4,
+           resolved_by_user_id = $5, resolved_at = NOW()
+       WHERE item_id = $1`,
+      [itemId, paymentId, input.action, input.note, resolvedByUserId]
+    );
+
+    let arn: string | null = null;
+    if (paymentId && input.action !== "IGNORE") {
+      const updated = await client.query(
+        `UPDATE payment
+         SET reconciliation_status = 'RECONCILED', reconciled_at = NOW()
+         WHERE payment_id = $1
+         RETURNING arn`,
+        [paymentId]
+      );
+      arn = updated.rows[0]?.arn ?? null;
+    } else if (paymentId) {
+      const restore = !(item.reasons as string[]).includes("DUPLICATE_SETTLEMENT");
+      // A later file may have settled the payment since; that stands
+      const updated = await client.query(
+        `UPDATE payment
+         SET reconciliation_status = CASE WHEN $2 AND reconciliation_status <> 'RECONCILED'
+                                          THEN COALESCE($3, 'PENDING') ELSE reconciliation_status END,
+             reconciled_at = CASE WHEN $2 AND reconciliation_status <> 'RECONCILED'
+                                  THEN $4::timestamptz ELSE reconciled_at END
+         WHERE payment_id = $1
+         RETURNING arn`,
+        [paymentId, restore, item.payment_prior_status, item.payment_prior_reconciled_at]
+      );
+      arn = updated.rows[0]?.arn ?? null;
+    }
+    await insertReconciliationAudit(client, arn, "PAYMENT_RECONCILIATION_RESOLVED", resolvedByUserId, {
+      itemId,
+      importId: item.import_id,
+      paymentId,
+      action: input.action,
+      note: input.note,
+      previousStatus: item.status,
+      reasons: item.reasons,
+    });
+
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  return (await getReconciliationItem(itemId))!;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function rowToImport(row: any): ReconciliationImport {
+  return {
+    import_id: row.import_id,
+    authority_id: row.authority_id,
+    source_type: row.source_type,
+    file_format: row.file_format,
+    file_name: row.file_name,
+    line_count: row.line_count,
+    matched_count: row.matched_count,
+    exception_count: row.exception_count,
+    imported_by_user_id: row.imported_by_user_id,
+    created_at: row.created_at,
+  };
+}
+
+function rowToItem(row: any): ReconciliationItem {
+  return {
+    item_id: row.item_id,
+    import_id: row.import_id,
+    authority_id: row.authority_id,
+    line_number: row.line_number,
+    reference_values: row.reference_values || [],
+    amount: row.amount != null ? Number(row.amount) : null,
+    value_date: row.value_date_text ?? null,
+    payment_id: row.payment_id,
+    matched_on: row.matched_on,
+    status: row.status,
+    reasons: row.reasons || [],
+    resolution: row.resolution,
+    resolution_note: row.resolution_note,
+    resolved_by_user_id: row.resolved_by_user_id,
+    resolved_at: row.resolved_at,
+    created_at: row.created_at,
+    file_name: row.file_name,
+    source_type: row.source_type,
+    payment: row.payment_arn
+      ? {
+          arn: row.payment_arn,
+          public_arn: row.payment_public_arn,
+          amount: Number(row.payment_amount),
+          status: row.payment_status,
+          mode: row.payment_mode,
+          paid_at: row.payment_paid_at,
+          reconciliation_status: row.payment_reconciliation_status,
+        }
+      : null,
+  };
+}
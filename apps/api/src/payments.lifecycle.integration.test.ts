@@ -3,17 +3,20 @@ import path from "node:path";
 import dotenv from "dotenv";
 import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
 import { createApplication } from "./applications";
+import { assessFees, createDemand, getDemandById } from "./fees";
 import {
   approveRefundRequest,
-  assessFees,
-  createDemand,
+  createRefundPayoutBatch,
   createRefundRequest,
-  getDemandById,
+  getRefundableAmount,
   getRefundRequestById,
   processRefundRequest,
+  recommendRefundRequest,
   rejectRefundRequest,
-} from "./fees";
+} from "./refunds";
 import { query } from "./db";
+import { generateChallan, getChallanById } from "./challans";
+import { cancelInstallmentPlan, createInstallmentPlan, getInstallmentPlanForDemand } from "./installments";
 import {
   calculateFees,
   failPayment,
@@ -21,9 +24,12 @@ import {
   getPaymentById,
   getPaymentsForApplication,
   getPaymentsForDemand,
+  listOfflinePaymentsAwaitingVerification,
+  postOfflinePayment,
   processGatewayCallback,
   recordPayment,
   verifyGatewayPayment,
+  verifyOfflinePayment,
 } from "./payments";
 
 dotenv.config({ path: path.resolve(__dirname, "..", "..", "..", ".env") });
@@ -591,7 +597,7 @@ describe("Payments Lifecycle Integration", () => {
     await expect(calculateFees(invalidService, "PUDA")).rejects.toThrow("FEE_SCHEDULE_INVALID_LINE_0");
   });
 
-  it("enforces refund lifecycle transitions (REQUESTED -> APPROVED -> PROCESSED)", async () => {
+  it("enforces refund lifecycle transitions (REQUESTED -> RECOMMENDED -> APPROVED -> IN_PAYOUT -> PROCESSED)", async () => {
     const { arn, demandId } = await createDemandFixture(610);
     createdArns.add(arn);
     const payment = await recordPayment({
@@ -602,28 +608,260 @@ describe("Payments Lifecycle Integration", () => {
       receiptNumber: "RCT-REFUND-001",
     });
     expect(payment.status).toBe("SUCCESS");
+    // The same fee paid again at the counter without a demand
+    const duplicate = await recordPayment({ arn, mode: "COUNTER", amount: 610, receiptNumber: "RCT-REFUND-002" });
+
+    expect((await getRefundableAmount(payment.payment_id))?.refundable).toBe(610);
+    const bankDetails = { accountName: "Payment Test Citizen", accountNumber: "123456789012", ifsc: "sbin0001234" };
+    await expect(
+      createRefundRequest(arn, {
+        paymentId: duplicate.payment_id,
+        reason: "Duplicate payment recorded",
+        bankDetails: { ...bankDetails, ifsc: "SBIN1234" },
+        requestedBy: TEST_CITIZEN_ID,
+      })
+    ).rejects.toThrow("REFUND_BANK_DETAILS_INVALID");
+    await expect(
+      createRefundRequest(arn, {
+        paymentId: duplicate.payment_id,
+        reason: "Duplicate payment recorded",
+        amount: 611,
+        bankDetails,
+        requestedBy: TEST_CITIZEN_ID,
+      })
+    ).rejects.toThrow("REFUND_AMOUNT_EXCEEDS_REFUNDABLE");
 
     const refund = await createRefundRequest(arn, {
-      paymentId: payment.payment_id,
+      paymentId: duplicate.payment_id,
       reason: "Duplicate payment recorded",
-      amount: 610,
+      bankDetails,
       requestedBy: TEST_CITIZEN_ID,
     });
     expect(refund.status).toBe("REQUESTED");
+    expect(refund.amount).toBe(610);
+    expect(refund.bank_details_jsonb).toMatchObject({ ifsc: "SBIN0001234" });
+    // The excess is now spoken for
+    expect((await getRefundableAmount(payment.payment_id))?.refundable).toBe(0);
+    await expect(
+      createRefundRequest(arn, { paymentId: payment.payment_id, reason: "Again", bankDetails, requestedBy: TEST_CITIZEN_ID })
+    ).rejects.toThrow("NOTHING_TO_REFUND");
 
-    const cannotProcessEarly = await processRefundRequest(refund.refund_id, "test-officer-3");
+    const cannotProcessEarly = await processRefundRequest(refund.refund_id, "test-officer-3", {
+      outcome: "PAID",
+      payoutReference: "UTR-EARLY",
+    });
     expect(cannotProcessEarly?.status).toBe("REQUESTED");
+    const cannotApproveUnrecommended = await approveRefundRequest(refund.refund_id, "test-officer-3");
+    expect(cannotApproveUnrecommended?.status).toBe("REQUESTED");
+
+    const recommended = await recommendRefundRequest(refund.refund_id, "test-officer-2", "Receipts checked");
+    expect(recommended).toMatchObject({ status: "RECOMMENDED", recommended_by: "test-officer-2" });
+    await expect(approveRefundRequest(refund.refund_id, "test-officer-2")).rejects.toThrow("REFUND_CHECKER_MUST_DIFFER");
 
     const approved = await approveRefundRequest(refund.refund_id, "test-officer-3");
-    expect(approved?.status).toBe("APPROVED");
+    expect(approved).toMatchObject({ status: "APPROVED", approved_by: "test-officer-3" });
 
-    const cannotRejectAfterApproval = await rejectRefundRequest(refund.refund_id, "test-officer-3");
+    const cannotRejectAfterApproval = await rejectRefundRequest(refund.refund_id, "test-officer-3", "Changed mind");
     expect(cannotRejectAfterApproval?.status).toBe("APPROVED");
 
-    const processed = await processRefundRequest(refund.refund_id, "test-officer-3");
-    expect(processed?.status).toBe("PROCESSED");
+    const { batch, content } = await createRefundPayoutBatch(TEST_AUTHORITY_ID, "test-officer-3");
+    try {
+      expect(batch.batch_number).toMatch(/^RPB\d{10}$/);
+      expect(content).toContain("Payment Test Citizen,123456789012,SBIN0001234,610.00");
+      const inPayout = await getRefundRequestById(refund.refund_id);
+      expect(inPayout).toMatchObject({ status: "IN_PAYOUT", payout_batch_id: batch.batch_id });
+
+      await expect(
+        processRefundRequest(refund.refund_id, "test-officer-3", { outcome: "PAID" })
+      ).rejects.toThrow("PAYOUT_REFERENCE_REQUIRED");
+      const processed = await processRefundRequest(refund.refund_id, "test-officer-3", {
+        outcome: "PAID",
+        payoutReference: "SBIN326000123456",
+      });
+      expect(processed).toMatchObject({ status: "PROCESSED", payout_reference: "SBIN326000123456" });
+      expect(processed?.processed_at).toBeTruthy();
+      expect((await getPaymentById(duplicate.payment_id))?.status).toBe("REFUNDED");
+      expect((await getPaymentById(payment.payment_id))?.status).toBe("SUCCESS");
+    } finally {
+      await query("UPDATE refund_request SET payout_batch_id = NULL WHERE payout_batch_id = $1", [batch.batch_id]);
+      await query("DELETE FROM refund_payout_batch WHERE batch_id = $1", [batch.batch_id]);
+    }
+  });
+
+  it("returns a refund whose payout failed to APPROVED and lets it be rejected", async () => {
+    const { arn, demandId } = await createDemandFixture(300);
+    createdArns.add(arn);
+    const payment = await recordPayment({ arn, demandId, mode: "COUNTER", amount: 300, receiptNumber: "RCT-REFUND-003" });
+    await query("UPDATE fee_demand SET status = 'CANCELLED' WHERE demand_id = $1", [demandId]);
+
+    const refund = await createRefundRequest(arn, {
+      paymentId: payment.payment_id,
+      reason: "Application withdrawn",
+      amount: 200,
+      bankDetails: { accountName: "Payment Test Citizen", accountNumber: "987654321", ifsc: "HDFC0000001" },
+      requestedBy: "test-officer-1",
+      actorType: "OFFICER",
+    });
+    await expect(recommendRefundRequest(refund.refund_id, "test-officer-1")).rejects.toThrow("REFUND_SELF_REVIEW");
+    await recommendRefundRequest(refund.refund_id, "test-officer-2");
+    await expect(approveRefundRequest(refund.refund_id, "test-officer-1")).rejects.toThrow("REFUND_CHECKER_MUST_DIFFER");
+    await approveRefundRequest(refund.refund_id, "test-officer-3");
+
+    const { batch } = await createRefundPayoutBatch(TEST_AUTHORITY_ID, "test-officer-3");
+    try {
+      const failed = await processRefundRequest(refund.refund_id, "test-officer-3", {
+        outcome: "FAILED",
+        remarks: "Account closed",
+      });
+      expect(failed).toMatchObject({ status: "APPROVED", payout_batch_id: null, payout_failure_reason: "Account closed" });
+
+      const rejected = await rejectRefundRequest(refund.refund_id, "test-officer-3", "Beneficiary account closed");
+      expect(rejected).toMatchObject({ status: "REJECTED", decision_remarks: "Beneficiary account closed" });
+      expect((await getPaymentById(payment.payment_id))?.status).toBe("SUCCESS");
+      expect((await getRefundableAmount(payment.payment_id))?.refundable).toBe(300);
+    } finally {
+      await query("UPDATE refund_request SET payout_batch_id = NULL WHERE payout_batch_id = $1", [batch.batch_id]);
+      await query("DELETE FROM refund_payout_batch WHERE batch_id = $1", [batch.batch_id]);
+    }
+  });
+
+  it("settles the demand only after a challan posting is verified", async () => {
+    const { arn, demandId } = await createDemandFixture(1200);
+    createdArns.add(arn);
+
+    const challan = await generateChallan(demandId, { userId: TEST_CITIZEN_ID, actorType: "CITIZEN" });
+    expect(challan).toMatchObject({ status: "ACTIVE", amount: 1200 });
+    expect(challan.challan_number).toMatch(/^CHL\d{11}$/);
+    const again = await generateChallan(demandId, { userId: TEST_CITIZEN_ID, actorType: "CITIZEN" });
+    expect(again.challan_id).toBe(challan.challan_id);
+
+    await expect(
+      postOfflinePayment({ demandId, mode: "CHALLAN", amount: 1000, challanNumber: challan.challan_number, postedByUserId: "test-officer-1" })
+    ).rejects.toThrow("CHALLAN_AMOUNT_MISMATCH");
+
+    const posted = await postOfflinePayment({
+      demandId,
+      mode: "CHALLAN",
+      amount: 1200,
+      challanNumber: challan.challan_number.toLowerCase(),
+      instrumentBank: "State Bank of India, Sector 17",
+      postedByUserId: "test-officer-1",
+    });
+    expect(posted).toMatchObject({ status: "INITIATED", instrument_number: challan.challan_number, challan_id: challan.challan_id });
+    expect((await getDemandById(demandId))?.status).toBe("PENDING");
+    await expect(
+      generateChallan(demandId, { userId: TEST_CITIZEN_ID, actorType: "CITIZEN" })
+    ).rejects.toThrow("CHALLAN_PAYMENT_PENDING");
+
+    const queue = await listOfflinePaymentsAwaitingVerification(TEST_AUTHORITY_ID, { limit: 200 });
+    expect(queue.payments.map((payment) => payment.payment_id)).toContain(posted.payment_id);
+
+    await expect(verifyOfflinePayment(posted.payment_id, "VERIFIED", "test-officer-1")).rejects.toThrow(
+      "PAYMENT_SELF_VERIFY"
+    );
+    const verified = await verifyOfflinePayment(posted.payment_id, "VERIFIED", "test-officer-3");
+    expect(verified).toMatchObject({ status: "VERIFIED", verified_by_user_id: "test-officer-3", reconciliation_status: "PENDING" });
+    expect((await getDemandById(demandId))?.status).toBe("PAID");
+    expect((await getChallanById(challan.challan_id))?.status).toBe("PAID");
+    await expect(verifyOfflinePayment(posted.payment_id, "VERIFIED", "test-officer-3")).rejects.toThrow(
+      "PAYMENT_ALREADY_VERIFIED"
+    );
+  });
+
+  it("requires instrument details for NEFT postings and leaves the demand open when dishonoured", async () => {
+    const { arn, demandId } = await createDemandFixture(800);
+    createdArns.add(arn);
+
+    await expect(
+      postOfflinePayment({ demandId, mode: "NEFT", amount: 800, postedByUserId: "test-officer-1" })
+    ).rejects.toThrow("INSTRUMENT_NUMBER_REQUIRED");
+
+    // The deposit date sets the as-of date for interest: no backdating before the demand, no future dates
+    for (const instrumentDate of ["2020-03-01", "2999-01-01", "2026-02-31"]) {
+      await expect(
+        postOfflinePayment({
+          demandId,
+          mode: "NEFT",
+          amount: 800,
+          instrumentNumber: "SBIN226010012345",
+          instrumentDate,
+          postedByUserId: "test-officer-1",
+        })
+      ).rejects.toThrow("INSTRUMENT_DATE_INVALID");
+    }
+
+    const posted = await postOfflinePayment({
+      demandId,
+      mode: "NEFT",
+      amount: 800,
+      instrumentNumber: "SBIN226010012345",
+      postedByUserId: "test-officer-1",
+    });
+    await expect(
+      postOfflinePayment({ demandId, mode: "COUNTER", amount: 100, postedByUserId: "test-officer-1" })
+    ).rejects.toThrow("PAYMENT_AMOUNT_EXCEEDS_REMAINING_BALANCE");
+
+    const dishonoured = await verifyOfflinePayment(posted.payment_id, "DISHONOURED", "test-officer-3", "UTR not found in bank credit");
+    expect(dishonoured).toMatchObject({ status: "FAILED", failure_reason: "UTR not found in bank credit" });
+    const demand = await getDemandById(demandId);
+    expect(demand?.status).toBe("PENDING");
+    expect(demand?.paid_amount).toBe(0);
+  });
+
+  it("refuses to verify a posting once its demand has been waived", async () => {
+    const { arn, demandId } = await createDemandFixture(600);
+    createdArns.add(arn);
+    const posted = await postOfflinePayment({ demandId, mode: "COUNTER", amount: 600, postedByUserId: "test-officer-1" });
+    await query("UPDATE fee_demand SET status = 'WAIVED' WHERE demand_id = $1", [demandId]);
+
+    await expect(verifyOfflinePayment(posted.payment_id, "VERIFIED", "test-officer-3")).rejects.toThrow(
+      "DEMAND_NOT_PAYABLE"
+    );
+    expect((await getPaymentById(posted.payment_id))?.status).toBe("INITIATED");
+    expect((await getDemandById(demandId))?.paid_amount).toBe(0);
+  });
+
+  it("allocates payments on an installment plan to interest, then principal, oldest first", async () => {
+    const { arn, demandId } = await createDemandFixture(3000);
+    createdArns.add(arn);
+    const dayOffset = (days: number) => new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+    const schedule = [
+      { dueDate: dayOffset(-30), amount: 1000 },
+      { dueDate: dayOffset(30), amount: 1000 },
+      { dueDate: dayOffset(60), amount: 1000 },
+    ];
+
+    await expect(
+      createInstallmentPlan({ demandId, installments: schedule.slice(0, 2), createdBy: "test-officer-1" })
+    ).rejects.toThrow("INSTALLMENT_TOTAL_MISMATCH");
+    const plan = await createInstallmentPlan({
+      demandId,
+      installments: schedule,
+      annualInterestRatePct: 12,
+      createdBy: "test-officer-1",
+    });
+    // 30 days late on 1000 at 12%
+    expect(plan.totals).toMatchObject({ principal_outstanding: 3000, interest_outstanding: 9.86, payable_now: 1009.86 });
+    expect(plan.next_due).toMatchObject({ installment_number: 1, amount: 1009.86 });
+    await expect(
+      createInstallmentPlan({ demandId, count: 3, firstDueDate: dayOffset(0), createdBy: "test-officer-1" })
+    ).rejects.toThrow("INSTALLMENT_PLAN_EXISTS");
+
+    await recordPayment({ arn, demandId, mode: "COUNTER", amount: 1200 });
+    let demand = await getDemandById(demandId);
+    expect(demand).toMatchObject({ status: "PARTIALLY_PAID", paid_amount: 1190.14, interest_paid: 9.86 });
+    const afterFirst = await getInstallmentPlanForDemand(demandId);
+    expect(afterFirst?.installments.map((installment) => installment.status)).toEqual(["PAID", "PARTIALLY_PAID", "PENDING"]);
+    expect(afterFirst?.totals).toMatchObject({ total_outstanding: 1809.86, payable_now: 809.86 });
+
+    await expect(cancelInstallmentPlan(demandId, "test-officer-1")).rejects.toThrow("INSTALLMENT_PLAN_HAS_PAYMENTS");
+    await expect(recordPayment({ arn, demandId, mode: "COUNTER", amount: 1900 })).rejects.toThrow(
+      "PAYMENT_AMOUNT_EXCEEDS_REMAINING_BALANCE"
+    );
 
-    const latest = await getRefundRequestById(refund.refund_id);
-    expect(latest?.processed_at).toBeTruthy();
+    await recordPayment({ arn, demandId, mode: "COUNTER", amount: 1809.86 });
+    demand = await getDemandById(demandId);
+    expect(demand).toMatchObject({ status: "PAID", paid_amount: 3000, interest_paid: 9.86 });
+    expect((await getInstallmentPlanForDemand(demandId))?.status).toBe("COMPLETED");
   });
 });
@@ -2,7 +2,10 @@
  * Payments DAL — record and manage payments against fee demands.
  *
  * Supports multiple payment modes: GATEWAY, CHALLAN, NEFT, COUNTER.
- * Links to fee_demand for proper accounting.
+ * Links to fee_demand for proper accounting. Offline modes posted by a
+ * counter clerk (postOfflinePayment) only credit the demand once verified.
+ * Payments on a demand with an installment plan are split across its
+ * installments (see installments.ts).
  *
  * Gateway integration (Razorpay/PayU) is still UAT-2 scope;
  * this module provides the relational infrastructure for all modes.
@@ -10,10 +13,14 @@
 import { query, getClient } from "./db";
 import { resolveActiveVersion } from "./service-version";
 import { v4 as uuidv4 } from "uuid";
-import { updateDemandPayment } from "./fees";
+import { creditDemandPayment, getInstallmentOutstanding, parseDateOnly } from "./installments";
 import type { PoolClient } from "pg";
 import { logInfo } from "./logger";
+import { evaluateFeeLine, feeLineProblems, type FeeContext, type FeeLineConfig } from "./fee-formula";
 import { resolvePaymentGatewayAdapter } from "./providers/payment-gateway";
+import { enqueueOutboxEntry } from "./outbox";
+import { enqueueWebhookEvent } from "./webhooks";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -50,6 +57,8 @@ export interface PaymentRecord {
   failure_reason: string | null;
   reconciled_at: Date | null;
   reconciliation_status: ReconciliationStatus | null;
+  challan_id: string | null;
+  posted_by_user_id: string | null;
 }
 
 export interface RecordPaymentInput {
@@ -74,6 +83,26 @@ export interface RecordPaymentInput {
   instrumentDate?: Date | string;
 }
 
+export const OFFLINE_PAYMENT_MODES = ["CHALLAN", "NEFT", "COUNTER"] as const;
+export type OfflinePaymentMode = (typeof OFFLINE_PAYMENT_MODES)[number];
+
+export interface PostOfflinePaymentInput {
+  demandId: string;
+  mode: OfflinePaymentMode;
+  amount: number;
+  /** Required for CHALLAN; becomes the instrument number banks quote back. */
+  challanNumber?: string;
+  /** DD / cheque number or NEFT UTR (required for NEFT). */
+  instrumentNumber?: string;
+  instrumentBank?: string;
+  /** Date of deposit / instrument; defaults to today. */
+  instrumentDate?: string;
+  receiptNumber?: string;
+  postedByUserId: string;
+}
+
+export type OfflineVerificationOutcome = "VERIFIED" | "DISHONOURED";
+
 export interface GatewayCallbackInput {
   gatewayOrderId: string;
   gatewayPaymentId: string;
@@ -97,6 +126,31 @@ function assertValidPaymentAmount(amount: number): void {
   }
 }
 
+/**
+ * Balance still payable on a locked demand. On an installment plan that is
+ * the unpaid principal plus interest accrued to date.
+ */
+async function remainingDemandBalance(
+  client: PoolClient,
+  demandId: string,
+  demand: { total_amount: string | number; paid_amount: string | number }
+): Promise<number> {
+  const plan = await getInstallmentOutstanding(client, demandId);
+  return plan ? plan.totalOutstanding : Number(demand.total_amount) - Number(demand.paid_amount);
+}
+
+/** Queue PAYMENT_RECEIVED (notification and webhooks) in the payment's transaction so it is sent once the payment commits. */
+async function queuePaymentReceived(client: PoolClient, arn: string, paymentId: string, amount: number): Promise<void> {
+  const appResult = await client.query("SELECT public_arn FROM application WHERE arn = $1", [arn]);
+  await enqueueOutboxEntry(
+    client,
+    "NOTIFY",
+    { event: "PAYMENT_RECEIVED", arn: appResult.rows[0]?.public_arn || arn, metadata: { paymentId, amount } },
+    arn
+  );
+  await enqueueWebhookEvent(client, "PAYMENT_RECEIVED", arn, { paymentId, amount });
+}
+
 /**
  * Record a new payment. For COUNTER/CHALLAN/NEFT payments, immediately
  * marks as SUCCESS. For online modes (GATEWAY/UPI/CARD/NETBANKING), marks
@@ -106,6 +160,7 @@ export async function recordPayment(input: RecordPaymentInput): Promise<PaymentR
   const client = await getClient();
   try {
     await client.query("BEGIN");
+    discardAfterCommit(client);
     assertValidPaymentAmount(input.amount);
 
     if (input.demandId) {
@@ -131,7 +186,7 @@ export async function recordPayment(input: RecordPaymentInput): Promise<PaymentR
       if (demand.status !== "PENDING" && demand.status !== "PARTIALLY_PAID") {
         throw new Error("DEMAND_NOT_PAYABLE");
       }
-      const remainingBalance = Number(demand.total_amount) - Number(demand.paid_amount);
+      const remainingBalance = await remainingDemandBalance(client, input.demandId, demand);
       if (remainingBalance <= MONEY_EPSILON) {
         throw new Error("DEMAND_ALREADY_PAID");
       }
@@ -171,9 +226,10 @@ export async function recordPayment(input: RecordPaymentInput): Promise<PaymentR
           receipt_number, receipt_date, gateway_order_id, gateway_payment_id, gateway_signature,
           instrument_number, instrument_bank, instrument_date,
           provider_transaction_id, provider_name,
-          initiated_at, completed_at)
+          initiated_at, completed_at, reconciliation_status)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, NOW(),
-               CASE WHEN $6 = 'SUCCESS' THEN NOW() ELSE NULL END)`,
+               CASE WHEN $6 = 'SUCCESS' THEN NOW() ELSE NULL END,
+               CASE WHEN $6 = 'SUCCESS' THEN 'PENDING' ELSE NULL END)`,
       [
         paymentId,
         input.arn,
@@ -198,10 +254,14 @@ export async function recordPayment(input: RecordPaymentInput): Promise<PaymentR
 
     // If payment succeeded immediately and has a demand, update the demand
     if (isImmediate && input.demandId) {
-      await updateDemandPayment(input.demandId, input.amount, client);
+      await creditDemandPayment(client, input.demandId, paymentId, input.amount);
+    }
+    if (isImmediate) {
+      await queuePaymentReceived(client, input.arn, paymentId, input.amount);
     }
 
     await client.query("COMMIT");
+    await runAfterCommit(client);
     return (await getPaymentById(paymentId))!;
   } catch (err) {
     await client.query("ROLLBACK");
@@ -227,6 +287,7 @@ export async function verifyGatewayPayment(
   const client = await getClient();
   try {
     await client.query("BEGIN");
+    discardAfterCommit(client);
 
     const paymentResult = await client.query(
       "SELECT * FROM payment WHERE payment_id = $1 FOR UPDATE",
@@ -286,17 +347,248 @@ export async function verifyGatewayPayment(
          gateway_signature = COALESCE($3, gateway_signature),
          verified_by_user_id = $4,
          verified_at = NOW(),
-         completed_at = NOW()
+         completed_at = NOW(),
+         reconciliation_status = 'PENDING'
        WHERE payment_id = $1`,
       [paymentId, gatewayPaymentId, normalizedSignature, verifiedByUserId || null]
     );
 
     // Update demand if linked
     if (payment.demand_id) {
-      await updateDemandPayment(payment.demand_id, Number(payment.amount), client);
+      await creditDemandPayment(client, payment.demand_id, paymentId, Number(payment.amount));
     }
+    await queuePaymentReceived(client, payment.arn, paymentId, Number(payment.amount));
 
     await client.query("COMMIT");
+    await runAfterCommit(client);
+    return getPaymentById(paymentId);
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Post an offline (challan / NEFT / counter) payment received by a counter
+ * clerk. The payment stays INITIATED — the demand is not credited — until
+ * verifyOfflinePayment confirms the instrument was realised.
+ */
+export async function postOfflinePayment(input: PostOfflinePaymentInput): Promise<PaymentRecord> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    assertValidPaymentAmount(input.amount);
+    if (!OFFLINE_PAYMENT_MODES.includes(input.mode)) {
+      throw new Error("PAYMENT_MODE_NOT_OFFLINE");
+    }
+
+    const demandResult = await client.query(
+      `SELECT demand_id, arn, total_amount, paid_amount, status,
+              created_at::date::text AS created_on, CURRENT_DATE::text AS today
+       FROM fee_demand WHERE demand_id = $1 FOR UPDATE`,
+      [input.demandId]
+    );
+    if (demandResult.rows.length === 0) {
+      throw new Error("DEMAND_NOT_FOUND");
+    }
+    const demand = demandResult.rows[0];
+    if (demand.status !== "PENDING" && demand.status !== "PARTIALLY_PAID") {
+      throw new Error("DEMAND_NOT_PAYABLE");
+    }
+    const remainingBalance = await remainingDemandBalance(client, input.demandId, demand);
+    if (remainingBalance <= MONEY_EPSILON) {
+      throw new Error("DEMAND_ALREADY_PAID");
+    }
+    // Postings awaiting verification already claim part of the balance
+    const pendingResult = await client.query(
+      `SELECT COALESCE(SUM(amount), 0) AS pending
+       FROM payment
+       WHERE demand_id = $1 AND status = 'INITIATED' AND mode = ANY($2::text[])`,
+      [input.demandId, [...OFFLINE_PAYMENT_MODES]]
+    );
+    if (input.amount > remainingBalance - Number(pendingResult.rows[0].pending) + MONEY_EPSILON) {
+      throw new Error("PAYMENT_AMOUNT_EXCEEDS_REMAINING_BALANCE");
+    }
+
+    // The deposit date is the as-of date for installment interest: it cannot
+    // be in the future or before the demand (or challan) existed
+    const depositDate = input.instrumentDate || demand.today;
+    if (
+      input.instrumentDate &&
+      (!parseDateOnly(depositDate) || depositDate > demand.today || depositDate < demand.created_on)
+    ) {
+      throw new Error("INSTRUMENT_DATE_INVALID");
+    }
+    let challanId: string | null = null;
+    let instrumentNumber = input.instrumentNumber?.trim() || null;
+    if (input.mode === "CHALLAN") {
+      if (!input.challanNumber?.trim()) {
+        throw new Error("CHALLAN_NUMBER_REQUIRED");
+      }
+      const challanResult = await client.query(
+        `SELECT challan_id, challan_number, demand_id, amount, status, valid_until::text AS valid_until,
+                created_at::date::text AS created_on
+         FROM fee_challan WHERE challan_number = $1 FOR UPDATE`,
+        [input.challanNumber.trim().toUpperCase()]
+      );
+      const challan = challanResult.rows[0];
+      if (!challan || challan.demand_id !== input.demandId) {
+        throw new Error("CHALLAN_NOT_FOUND");
+      }
+      if (challan.status !== "ACTIVE") {
+        throw new Error("CHALLAN_NOT_ACTIVE");
+      }
+      if (depositDate < challan.created_on) {
+        throw new Error("INSTRUMENT_DATE_INVALID");
+      }
+      if (depositDate > challan.valid_until) {
+        throw new Error("CHALLAN_EXPIRED");
+      }
+      if (Math.abs(Number(challan.amount) - input.amount) > MONEY_EPSILON) {
+        throw new Error("CHALLAN_AMOUNT_MISMATCH");
+      }
+      challanId = challan.challan_id;
+      instrumentNumber = challan.challan_number;
+    } else if (input.mode === "NEFT" && !instrumentNumber) {
+      throw new Error("INSTRUMENT_NUMBER_REQUIRED");
+    }
+
+    if (instrumentNumber) {
+      const duplicate = await client.query(
+        `SELECT payment_id FROM payment
+         WHERE instrument_number = $1 AND mode = $2
+           AND status IN ('INITIATED', 'SUCCESS', 'VERIFIED')
+           AND COALESCE(instrument_bank, '') = COALESCE($3, '')
+         LIMIT 1`,
+        [instrumentNumber, input.mode, input.instrumentBank || null]
+      );
+      if (duplicate.rows.length > 0) {
+        throw new Error("INSTRUMENT_ALREADY_POSTED");
+      }
+    }
+
+    const paymentId = uuidv4();
+    await client.query(
+      `INSERT INTO payment
+         (payment_id, arn, demand_id, payment_type, mode, status, amount, currency,
+          receipt_number, receipt_date, instrument_number, instrument_bank, instrument_date,
+          challan_id, posted_by_user_id, initiated_at)
+       VALUES ($1, $2, $3, $4, $4, 'INITIATED', $5, 'INR', $6, CURRENT_DATE, $7, $8, $9, $10, $11, NOW())`,
+      [
+        paymentId,
+        demand.arn,
+        input.demandId,
+        input.mode,
+        input.amount,
+        input.receiptNumber || null,
+        instrumentNumber,
+        input.instrumentBank || null,
+        depositDate,
+        challanId,
+        input.postedByUserId,
+      ]
+    );
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, 'OFFLINE_PAYMENT_POSTED', 'OFFICER', $3, $4)",
+      [
+        uuidv4(),
+        demand.arn,
+        input.postedByUserId,
+        JSON.stringify({ paymentId, demandId: input.demandId, mode: input.mode, amount: input.amount, instrumentNumber, challanId }),
+      ]
+    );
+
+    await client.query("COMMIT");
+    return (await getPaymentById(paymentId))!;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Verify (or mark dishonoured) a posted offline payment. VERIFIED credits the
+ * demand (as of the deposit date) and marks the challan PAID; DISHONOURED fails
+ * the payment and leaves the challan usable for a fresh deposit. Returns null
+ * when the payment does not exist or is no longer awaiting verification.
+ */
+export async function verifyOfflinePayment(
+  paymentId: string,
+  outcome: OfflineVerificationOutcome,
+  verifiedByUserId: string,
+  remarks?: string
+): Promise<PaymentRecord | null> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    discardAfterCommit(client);
+
+    const paymentResult = await client.query(
+      "SELECT *, instrument_date::text AS instrument_date_text FROM payment WHERE payment_id = $1 FOR UPDATE",
+      [paymentId]
+    );
+    const payment = paymentResult.rows[0];
+    if (!payment) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+    if (!OFFLINE_PAYMENT_MODES.includes(payment.mode) || !payment.posted_by_user_id) {
+      throw new Error("PAYMENT_NOT_OFFLINE");
+    }
+    if (payment.status === "VERIFIED") {
+      throw new Error("PAYMENT_ALREADY_VERIFIED");
+    }
+    if (payment.status !== "INITIATED") {
+      await client.query("ROLLBACK");
+      return null;
+    }
+    // Counter maker-checker: the clerk who posted the deposit cannot verify it
+    if (payment.posted_by_user_id === verifiedByUserId) {
+      throw new Error("PAYMENT_SELF_VERIFY");
+    }
+
+    if (outcome === "DISHONOURED") {
+      await client.query(
+        `UPDATE payment SET status = 'FAILED', failure_reason = $2, verified_by_user_id = $3,
+                verified_at = NOW(), completed_at = NOW()
+         WHERE payment_id = $1`,
+        [paymentId, remarks || "INSTRUMENT_DISHONOURED", verifiedByUserId]
+      );
+    } else {
+      await client.query(
+        `UPDATE payment SET status = 'VERIFIED', verified_by_user_id = $2, verified_at = NOW(),
+                completed_at = NOW(), reconciliation_status = 'PENDING'
+         WHERE payment_id = $1`,
+        [paymentId, verifiedByUserId]
+      );
+      if (payment.demand_id) {
+        await creditDemandPayment(client, payment.demand_id, paymentId, Number(payment.amount), payment.instrument_date_text);
+      }
+      if (payment.challan_id) {
+        await client.query(
+          "UPDATE fee_challan SET status = 'PAID', paid_at = NOW() WHERE challan_id = $1",
+          [payment.challan_id]
+        );
+      }
+      await queuePaymentReceived(client, payment.arn, paymentId, Number(payment.amount));
+    }
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, 'OFFICER', $4, $5)",
+      [
+        uuidv4(),
+        payment.arn,
+        outcome === "VERIFIED" ? "OFFLINE_PAYMENT_VERIFIED" : "OFFLINE_PAYMENT_DISHONOURED",
+        verifiedByUserId,
+        JSON.stringify({ paymentId, demandId: payment.demand_id, amount: Number(payment.amount), remarks: remarks || null }),
+      ]
+    );
+
+    await client.query("COMMIT");
+    await runAfterCommit(client);
     return getPaymentById(paymentId);
   } catch (err) {
     await client.query("ROLLBACK");
@@ -415,8 +707,43 @@ export async function getPaymentsForDemand(demandId: string): Promise<PaymentRec
   return result.rows.map(rowToPayment);
 }
 
+export interface OfflinePaymentQueueItem extends PaymentRecord {
+  public_arn: string | null;
+  demand_number: string | null;
+}
+
+/** Counter postings still INITIATED for an authority, oldest first — the verification queue */
+export async function listOfflinePaymentsAwaitingVerification(
+  authorityId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ payments: OfflinePaymentQueueItem[]; total: number }> {
+  const where = `a.authority_id = $1 AND p.mode = ANY($2) AND p.status = 'INITIATED' AND p.posted_by_user_id IS NOT NULL`;
+  const params: unknown[] = [authorityId, [...OFFLINE_PAYMENT_MODES]];
+  const [rows, count] = await Promise.all([
+    query(
+      `SELECT p.*, a.public_arn, d.demand_number
+       FROM payment p
+       JOIN application a ON a.arn = p.arn
+       LEFT JOIN fee_demand d ON d.demand_id = p.demand_id
+       WHERE ${where}
+       ORDER BY p.initiated_at ASC, p.payment_id
+       LIMIT $3 OFFSET $4`,
+      [...params, options.limit ?? 25, options.offset ?? 0]
+    ),
+    query(`SELECT COUNT(*)::int AS total FROM payment p JOIN application a ON a.arn = p.arn WHERE ${where}`, params),
+  ]);
+  return {
+    payments: rows.rows.map((row) => ({
+      ...rowToPayment(row),
+      public_arn: row.public_arn ?? null,
+      demand_number: row.demand_number ?? null,
+    })),
+    total: count.rows[0]?.total ?? 0,
+  };
+}
+
 // ---------------------------------------------------------------------------
-// Fee calculation stub (UAT-2)
+// Fee calculation (fees.json, flat or formula lines — see fee-formula.ts)
 // ---------------------------------------------------------------------------
 
 export interface FeeSchedule {
@@ -424,14 +751,22 @@ export interface FeeSchedule {
   authority_id: string;
   fee_type: string;
   amount: number;
+  base_amount: number;
   description: string;
+  calculation_inputs: Record<string, unknown>;
 }
 
 /**
  * Calculate fees for a given service + authority from published service config.
- * Fails closed when fee schedules are missing or invalid.
+ * Formula lines are evaluated against `context` (application data and the
+ * linked property); flat lines need none. Fails closed when fee schedules are
+ * missing or invalid, and with a FeeFormulaError when an input is missing.
  */
-export async function calculateFees(serviceKey: string, authorityId: string): Promise<FeeSchedule[]> {
+export async function calculateFees(
+  serviceKey: string,
+  authorityId: string,
+  context: FeeContext = {}
+): Promise<FeeSchedule[]> {
   const activeVersion = await resolveActiveVersion(serviceKey);
   if (!activeVersion) {
     throw new Error("SERVICE_VERSION_NOT_FOUND");
@@ -449,11 +784,10 @@ export async function calculateFees(serviceKey: string, authorityId: string): Pr
     throw new Error("FEE_SCHEDULE_NOT_CONFIGURED");
   }
 
-  type RawFeeLine = { feeType?: unknown; amount?: unknown; description?: unknown };
-  type RawFeeSchedule = RawFeeLine[] | { default?: RawFeeLine[]; byAuthority?: Record<string, RawFeeLine[]> };
+  type RawFeeSchedule = unknown[] | { default?: unknown[]; byAuthority?: Record<string, unknown[]> };
 
   const scheduleConfig = rawSchedule as RawFeeSchedule;
-  let candidateLines: RawFeeLine[] | undefined;
+  let candidateLines: unknown[] | undefined;
   if (Array.isArray(scheduleConfig)) {
     candidateLines = scheduleConfig;
   } else if (scheduleConfig && typeof scheduleConfig === "object") {
@@ -464,25 +798,30 @@ export async function calculateFees(serviceKey: string, authorityId: string): Pr
     throw new Error("FEE_SCHEDULE_NOT_CONFIGURED");
   }
 
-  const normalized: FeeSchedule[] = [];
+  const lines: FeeLineConfig[] = [];
   for (const [index, line] of candidateLines.entries()) {
-    const feeType = typeof line.feeType === "string" ? line.feeType.trim() : "";
-    const amount = typeof line.amount === "number" ? line.amount : Number.NaN;
-    const description =
-      typeof line.description === "string" && line.description.trim().length > 0
-        ? line.description.trim()
-        : feeType;
-    if (!feeType || !Number.isFinite(amount) || amount < 0) {
+    if (feeLineProblems(line).length > 0) {
       throw new Error(`FEE_SCHEDULE_INVALID_LINE_${index}`);
     }
-    normalized.push({
+    lines.push(line as FeeLineConfig);
+  }
+
+  const normalized: FeeSchedule[] = lines.map((line) => {
+    const feeType = line.feeType.trim();
+    const evaluated = evaluateFeeLine(line, context);
+    return {
       service_key: serviceKey,
       authority_id: authorityId,
       fee_type: feeType,
-      amount,
-      description,
-    });
-  }
+      amount: evaluated.amount,
+      base_amount: evaluated.baseAmount,
+      description:
+        typeof line.description === "string" && line.description.trim().length > 0
+          ? line.description.trim()
+          : feeType,
+      calculation_inputs: evaluated.calculationInputs,
+    };
+  });
 
   logInfo("Fee schedule resolved", {
     serviceKey,
@@ -524,5 +863,7 @@ function rowToPayment(row: any): PaymentRecord {
     failure_reason: row.failure_reason ?? null,
     reconciled_at: row.reconciled_at ?? null,
     reconciliation_status: row.reconciliation_status as ReconciliationStatus | null ?? null,
+    challan_id: row.challan_id ?? null,
+    posted_by_user_id: row.posted_by_user_id ?? null,
   };
 }
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  mergeProductivityRows,
+  productivityReportToCsv,
+  resolveProductivityRange,
+  type ProductivityReport,
+} from "./productivity-report";
+
+const NOW = new Date("2026-03-10T20:00:00Z"); // 2026-03-11 01:30 IST
+
+describe("resolveProductivityRange", () => {
+  it("defaults to the last 30 IST days", () => {
+    expect(resolveProductivityRange(undefined, undefined, NOW)).toEqual({ from: "2026-02-10", to: "2026-03-11" });
+    expect(resolveProductivityRange("2026-03-01", undefined, NOW)).toEqual({ from: "2026-03-01", to: "2026-03-11" });
+  });
+
+  it("rejects inverted, impossible and over-long ranges", () => {
+    expect(resolveProductivityRange("2026-03-05", "2026-03-01", NOW)).toEqual({ error: "INVALID_DATE_RANGE" });
+    expect(resolveProductivityRange("2026-02-31", "2026-03-01", NOW)).toEqual({ error: "INVALID_DATE_RANGE" });
+    expect(resolveProductivityRange("2025-01-01", "2026-03-01", NOW)).toEqual({ error: "DATE_RANGE_TOO_LONG" });
+    expect(resolveProductivityRange("2025-03-01", "2026-03-01", NOW)).toEqual({ from: "2025-03-01", to: "2026-03-01" });
+  });
+});
+
+describe("mergeProductivityRows", () => {
+  const handled = [
+    { group_key: "officer-1", group_label: "A. Singh", is_total: false, handled: 8, median_seconds: 5400,
+      with_sla: 8, within_sla: 6, queried: 2, rejected: 1 },
+    { group_key: "officer-2", group_label: "B. Kaur", is_total: false, handled: 2, median_seconds: null,
+      with_sla: 0, within_sla: 0, queried: 0, rejected: 0 },
+    { group_key: null, group_label: null, is_total: true, handled: 10, median_seconds: 4000,
+      with_sla: 8, within_sla: 6, queried: 2, rejected: 1 },
+  ];
+  const pending = [
+    { group_key: "officer-2", group_label: "B. Kaur", is_total: false, pending: 3,
+      age_0_2_days: 1, age_3_7_days: 0, age_8_15_days: 0, age_16_30_days: 1, age_over_30_days: 1 },
+    { group_key: null, group_label: null, is_total: false, pending: 4,
+      age_0_2_days: 4, age_3_7_days: 0, age_8_15_days: 0, age_16_30_days: 0, age_over_30_days: 0 },
+    { group_key: null, group_label: null, is_total: true, pending: 7,
+      age_0_2_days: 5, age_3_7_days: 0, age_8_15_days: 0, age_16_30_days: 1, age_over_30_days: 1 },
+  ];
+
+  it("joins handled and open tasks per group and computes rates", () => {
+    const { rows, totals } = mergeProductivityRows(handled, pending);
+
+    expect(rows.map((row) => row.key)).toEqual(["officer-1", "officer-2", "UNASSIGNED"]);
+    expect(rows[0]).toMatchObject({
+      label: "A. Singh",
+      tasksHandled: 8,
+      medianHandlingMinutes: 90,
+      slaComplianceRate: 0.75,
+      queryRate: 0.25,
+      rejectionRate: 0.125,
+      pending: 0,
+    });
+    expect(rows[1]).toMatchObject({ tasksHandled: 2, medianHandlingMinutes: null, slaComplianceRate: null, pending: 3 });
+    expect(rows[1].pendencyAging).toEqual({
+      "0_2_DAYS": 1,
+      "3_7_DAYS": 0,
+      "8_15_DAYS": 0,
+      "16_30_DAYS": 1,
+      OVER_30_DAYS: 1,
+    });
+    expect(rows[2]).toMatchObject({ label: "UNASSIGNED", tasksHandled: 0, queryRate: null, pending: 4 });
+    expect(totals).toMatchObject({ tasksHandled: 10, medianHandlingMinutes: 66.7, pending: 7 });
+  });
+
+  it("exports one CSV line per group plus totals", () => {
+    const report: ProductivityReport = {
+      authorityId: "PUDA",
+      groupBy: "officer",
+      from: "2026-03-01",
+      to: "2026-03-10",
+      ...mergeProductivityRows(handled, pending),
+    };
+    const lines = productivityReportToCsv(report).trim().split("\n");
+
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toBe(
+      "Officer ID,Name,Tasks Handled,Median Handling Minutes,SLA Compliance %,Query Rate %,Rejection Rate %,Pending," +
+        "Pending 0 2 days,Pending 3 7 days,Pending 8 15 days,Pending 16 30 days,Pending over 30 days"
+    );
+    expect(lines[1]).toBe("officer-1,A. Singh,8,90,75.0,25.0,12.5,0,0,0,0,0,0");
+    expect(lines[4]).toBe("TOTAL,,10,66.7,75.0,20.0,10.0,7,5,0,0,1,1");
+  });
+});
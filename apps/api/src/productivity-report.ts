@@ -0,0 +1,271 @@
+/**
+ * Officer productivity and SLA performance report for supervisors.
+ *
+ * Metrics are grouped per officer, per system role or per service:
+ *
+ *   tasksHandled           tasks COMPLETED in the date range
+ *   medianHandlingMinutes  median of completed_at - started_at (claim to decision);
+ *                          tasks never claimed (no started_at) are left out
+ *   slaComplianceRate      share of handled tasks with an SLA that finished by sla_due_at
+ *   queryRate              share of handled tasks decided as QUERY
+ *   rejectionRate          share of handled tasks decided as REJECT
+ *   pendencyAging          tasks open now (PENDING/IN_PROGRESS on live applications),
+ *                          by days since the task was created
+ *
+ * The date range covers whole IST days, from `from` through `to` inclusive.
+ * Pendency is a snapshot and ignores the range. Per officer, handled tasks
+ * count for the officer who completed them and open tasks for their current
+ * assignee; open tasks nobody has claimed are grouped as UNASSIGNED.
+ */
+import { query } from "./db";
+import { csvCell } from "./csv";
+
+export type ProductivityGroupBy = "officer" | "role" | "service";
+export const PRODUCTIVITY_GROUP_BYS: ProductivityGroupBy[] = ["officer", "role", "service"];
+
+export const PENDENCY_AGE_BUCKETS = [
+  { key: "0_2_DAYS", maxDays: 2 },
+  { key: "3_7_DAYS", maxDays: 7 },
+  { key: "8_15_DAYS", maxDays: 15 },
+  { key: "16_30_DAYS", maxDays: 30 },
+  { key: "OVER_30_DAYS", maxDays: null },
+] as const;
+export type PendencyAgeBucket = (typeof PENDENCY_AGE_BUCKETS)[number]["key"];
+
+/** Longest range a report may cover, in days */
+export const MAX_PRODUCTIVITY_RANGE_DAYS = 366;
+const DEFAULT_PRODUCTIVITY_RANGE_DAYS = 30;
+
+export const UNASSIGNED_GROUP_KEY = "UNASSIGNED";
+
+export interface ProductivityMetrics {
+  tasksHandled: number;
+  medianHandlingMinutes: number | null;
+  slaComplianceRate: number | null;
+  queryRate: number | null;
+  rejectionRate: number | null;
+  pending: number;
+  pendencyAging: Record<PendencyAgeBucket, number>;
+}
+
+export interface ProductivityRow extends ProductivityMetrics {
+  key: string;
+  label: string;
+}
+
+export interface ProductivityReport {
+  authorityId: string | null;
+  groupBy: ProductivityGroupBy;
+  from: string;
+  to: string;
+  rows: ProductivityRow[];
+  totals: ProductivityMetrics;
+}
+
+export interface ProductivityReportInput {
+  authorityId?: string;
+  groupBy: ProductivityGroupBy;
+  /** YYYY-MM-DD, IST */
+  from: string;
+  /** YYYY-MM-DD, IST, inclusive */
+  to: string;
+}
+
+const GROUP_EXPRESSIONS: Record<ProductivityGroupBy, { key: string; label: string; join: string }> = {
+  officer: {
+    key: "t.assignee_user_id",
+    label: "MAX(u.name)",
+    join: `LEFT JOIN "user" u ON u.user_id = t.assignee_user_id`,
+  },
+  role: { key: "t.system_role_id", label: "t.system_role_id", join: "" },
+  service: { key: "a.service_key", label: "a.service_key", join: "" },
+};
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve the report's date range, defaulting to the last 30 days up to today
+ * (IST). Returns an error code when the range is inverted or too long.
+ */
+export function resolveProductivityRange(
+  from: string | undefined,
+  to: string | undefined,
+  now: Date = new Date()
+): { from: string; to: string } | { error: string } {
+  const todayIst = formatDate(new Date(now.getTime() + 330 * 60 * 1000));
+  const resolvedTo = to || todayIst;
+  const resolvedFrom =
+    from ||
+    formatDate(new Date(Date.parse(`${resolvedTo}T00:00:00Z`) - (DEFAULT_PRODUCTIVITY_RANGE_DAYS - 1) * 86_400_000));
+  const fromMs = Date.parse(`${resolvedFrom}T00:00:00Z`);
+  const toMs = Date.parse(`${resolvedTo}T00:00:00Z`);
+  // Round-trip rejects calendar overflow such as 2026-02-31
+  const valid = (value: string, ms: number) => Number.isFinite(ms) && formatDate(new Date(ms)) === value;
+  if (!valid(resolvedFrom, fromMs) || !valid(resolvedTo, toMs) || fromMs > toMs) {
+    return { error: "INVALID_DATE_RANGE" };
+  }
+  if ((toMs - fromMs) / 86_400_000 + 1 > MAX_PRODUCTIVITY_RANGE_DAYS) {
+    return { error: "DATE_RANGE_TOO_LONG" };
+  }
+  return { from: resolvedFrom, to: resolvedTo };
+}
+
+function emptyAging(): Record<PendencyAgeBucket, number> {
+  return Object.fromEntries(PENDENCY_AGE_BUCKETS.map((bucket) => [bucket.key, 0])) as Record<
+    PendencyAgeBucket,
+    number
+  >;
+}
+
+function rate(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null;
+}
+
+/** Turn one row of aggregated counts into metrics; exported for tests. */
+export function toProductivityMetrics(handled: any | undefined, pending: any | undefined): ProductivityMetrics {
+  const tasksHandled = Number(handled?.handled ?? 0);
+  const median = handled?.median_seconds;
+  const aging = emptyAging();
+  for (const bucket of PENDENCY_AGE_BUCKETS) {
+    aging[bucket.key] = Number(pending?.[`age_${bucket.key.toLowerCase()}`] ?? 0);
+  }
+  return {
+    tasksHandled,
+    medianHandlingMinutes: median === null || median === undefined ? null : Math.round(Number(median) / 6) / 10,
+    slaComplianceRate: rate(Number(handled?.within_sla ?? 0), Number(handled?.with_sla ?? 0)),
+    queryRate: rate(Number(handled?.queried ?? 0), tasksHandled),
+    rejectionRate: rate(Number(handled?.rejected ?? 0), tasksHandled),
+    pending: Number(pending?.pending ?? 0),
+    pendencyAging: aging,
+  };
+}
+
+/**
+ * Merge handled-task and open-task aggregates into report rows. Rows with
+ * is_total set carry the totals across all groups (the GROUPING SETS () row).
+ */
+export function mergeProductivityRows(
+  handledRows: any[],
+  pendingRows: any[]
+): { rows: ProductivityRow[]; totals: ProductivityMetrics } {
+  const isTotal = (row: any) => row.is_total === true || row.is_total === 1 || row.is_total === "1";
+  const keyOf = (row: any) => (row.group_key === null || row.group_key === undefined ? UNASSIGNED_GROUP_KEY : String(row.group_key));
+
+  const handledByKey = new Map<string, any>();
+  const pendingByKey = new Map<string, any>();
+  const labels = new Map<string, string>();
+  for (const row of handledRows.filter((candidate) => !isTotal(candidate))) {
+    handledByKey.set(keyOf(row), row);
+    labels.set(keyOf(row), row.group_label || keyOf(row));
+  }
+  for (const row of pendingRows.filter((candidate) => !isTotal(candidate))) {
+    pendingByKey.set(keyOf(row), row);
+    if (!labels.has(keyOf(row))) labels.set(keyOf(row), row.group_label || keyOf(row));
+  }
+
+  const rows = [...labels.keys()]
+    .map((key) => ({
+      key,
+      label: labels.get(key) || key,
+      ...toProductivityMetrics(handledByKey.get(key), pendingByKey.get(key)),
+    }))
+    .sort((a, b) => b.tasksHandled - a.tasksHandled || b.pending - a.pending || a.label.localeCompare(b.label));
+  return {
+    rows,
+    totals: toProductivityMetrics(handledRows.find(isTotal), pendingRows.find(isTotal)),
+  };
+}
+
+export async function getProductivityReport(input: ProductivityReportInput): Promise<ProductivityReport> {
+  const group = GROUP_EXPRESSIONS[input.groupBy];
+  const authorityId = input.authorityId || null;
+
+  const handled = await query(
+    `SELECT ${group.key} AS group_key,
+            ${group.label} AS group_label,
+            GROUPING(${group.key}) = 1 AS is_total,
+            COUNT(*)::int AS handled,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (t.completed_at - t.started_at)))
+              FILTER (WHERE t.started_at IS NOT NULL) AS median_seconds,
+            COUNT(*) FILTER (WHERE t.sla_due_at IS NOT NULL)::int AS with_sla,
+            COUNT(*) FILTER (WHERE t.sla_due_at IS NOT NULL AND t.completed_at <= t.sla_due_at)::int AS within_sla,
+            COUNT(*) FILTER (WHERE t.decision = 'QUERY')::int AS queried,
+            COUNT(*) FILTER (WHERE t.decision = 'REJECT')::int AS rejected
+       FROM task t
+       JOIN application a ON a.arn = t.arn
+       ${group.join}
+      WHERE t.status = 'COMPLETED'
+        AND t.completed_at >= ($1::date::timestamp AT TIME ZONE 'Asia/Kolkata')
+        AND t.completed_at < (($2::date + 1)::timestamp AT TIME ZONE 'Asia/Kolkata')
+        AND ($3::text IS NULL OR a.authority_id = $3)
+      GROUP BY GROUPING SETS ((${group.key}), ())`,
+    [input.from, input.to, authorityId]
+  );
+
+  const agingColumns = PENDENCY_AGE_BUCKETS.map((bucket, index) => {
+    const lower = index === 0 ? null : PENDENCY_AGE_BUCKETS[index - 1].maxDays;
+    const conditions = [
+      lower === null ? null : `NOW() - t.created_at >= INTERVAL '${lower + 1} days'`,
+      bucket.maxDays === null ? null : `NOW() - t.created_at < INTERVAL '${bucket.maxDays + 1} days'`,
+    ].filter(Boolean);
+    return `COUNT(*) FILTER (WHERE ${conditions.join(" AND ")})::int AS age_${bucket.key.toLowerCase()}`;
+  });
+  const pending = await query(
+    `SELECT ${group.key} AS group_key,
+            ${group.label} AS group_label,
+            GROUPING(${group.key}) = 1 AS is_total,
+            COUNT(*)::int AS pending,
+            ${agingColumns.join(",\n            ")}
+       FROM task t
+       JOIN application a ON a.arn = t.arn
+       ${group.join}
+      WHERE t.status IN ('PENDING', 'IN_PROGRESS')
+        AND a.disposed_at IS NULL
+        AND ($1::text IS NULL OR a.authority_id = $1)
+      GROUP BY GROUPING SETS ((${group.key}), ())`,
+    [authorityId]
+  );
+
+  const merged = mergeProductivityRows(handled.rows, pending.rows);
+  return { authorityId, groupBy: input.groupBy, from: input.from, to: input.to, ...merged };
+}
+
+function percent(value: number | null): string {
+  return value === null ? "" : (value * 100).toFixed(1);
+}
+
+/** CSV export of a report: one line per group, then a TOTAL line. */
+export function productivityReportToCsv(report: ProductivityReport): string {
+  const header = [
+    report.groupBy === "officer" ? "Officer ID" : report.groupBy === "role" ? "Role" : "Service",
+    "Name",
+    "Tasks Handled",
+    "Median Handling Minutes",
+    "SLA Compliance %",
+    "Query Rate %",
+    "Rejection Rate %",
+    "Pending",
+    ...PENDENCY_AGE_BUCKETS.map((bucket) => `Pending ${bucket.key.replace(/_/g, " ").toLowerCase()}`),
+  ];
+  const line = (key: string, label: string, metrics: ProductivityMetrics) =>
+    [
+      key,
+      label,
+      metrics.tasksHandled,
+      metrics.medianHandlingMinutes ?? "",
+      percent(metrics.slaComplianceRate),
+      percent(metrics.queryRate),
+      percent(metrics.rejectionRate),
+      metrics.pending,
+      ...PENDENCY_AGE_BUCKETS.map((bucket) => metrics.pendencyAging[bucket.key]),
+    ]
+      .map(csvCell)
+      .join(",");
+  return [
+    header.map(csvCell).join(","),
+    ...report.rows.map((row) => line(row.key, row.label, row)),
+    line("TOTAL", "", report.totals),
+  ].join("\n") + "\n";
+}
@@ -1,5 +1,6 @@
 import { query } from "./db";
 import { getApplicantSectionRequiredFields } from "./service-pack-shared";
+import { sanitizeNotificationPreferences } from "./notification-preferences";
 
 export type ApplicantProfile = Record<string, any>;
 const APPLICANT_ALLOWED_FIELDS = new Set([
@@ -197,6 +198,7 @@ const PREFERENCES_ALLOWED_FIELDS = new Set([
   "reduceAnimations",
   "language",
   "dateFormat",
+  "notifications",
 ]);
 
 const PREFERENCES_VALID_VALUES: Record<string, string[] | "boolean"> = {
@@ -212,6 +214,12 @@ function sanitizePreferencesPatch(patch: Record<string, unknown>): Record<string
   const sanitized: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(patch || {})) {
     if (!PREFERENCES_ALLOWED_FIELDS.has(key)) continue;
+    if (key === "notifications") {
+      // Replaced as a whole; see notification-preferences.ts
+      const notifications = sanitizeNotificationPreferences(value);
+      if (notifications) sanitized[key] = notifications;
+      continue;
+    }
     const allowed = PREFERENCES_VALID_VALUES[key];
     if (allowed === "boolean") {
       if (typeof value === "boolean") sanitized[key] = value;
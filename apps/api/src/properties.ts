@@ -370,6 +370,21 @@ export async function getPropertyForApplication(arn: string): Promise<PropertyRo
   return result.rows.length > 0 ? rowToProperty(result.rows[0]) : null;
 }
 
+/** Id of the property linked to an application, read in the caller's transaction when given. */
+export async function getPropertyIdForApplication(
+  arn: string,
+  client?: PoolClient
+): Promise<string | null> {
+  const run = client
+    ? (text: string, params?: unknown[]) => client.query(text, params)
+    : query;
+  const result = await run(
+    "SELECT property_id FROM application_property WHERE arn = $1 LIMIT 1",
+    [arn]
+  );
+  return result.rows[0]?.property_id ?? null;
+}
+
 /** Get all applications linked to a property. */
 export async function getApplicationsForProperty(
   propertyId: string
@@ -409,6 +424,38 @@ export async function linkPropertyToCitizen(
   );
 }
 
+/**
+ * Record a change of ownership: the allottee name is replaced and, when a new
+ * owner user is given, the property moves to that citizen's holdings.
+ * Returns the previous allottee name.
+ */
+export async function transferPropertyOwnership(
+  propertyId: string,
+  ownerName: string,
+  newOwnerUserId: string | null,
+  client?: PoolClient
+): Promise<string | null> {
+  const run = client
+    ? (text: string, params?: unknown[]) => client.query(text, params)
+    : query;
+  const previous = await run(
+    "SELECT allottee_name FROM property WHERE property_id = $1 FOR UPDATE",
+    [propertyId]
+  );
+  await run(
+    "UPDATE property SET allottee_name = $2, updated_at = NOW() WHERE property_id = $1",
+    [propertyId, ownerName]
+  );
+  if (newOwnerUserId) {
+    await run(
+      "DELETE FROM citizen_property WHERE property_id = $1 AND user_id <> $2",
+      [propertyId, newOwnerUserId]
+    );
+    await linkPropertyToCitizen(newOwnerUserId, propertyId, client);
+  }
+  return previous.rows[0]?.allottee_name ?? null;
+}
+
 /**
  * Return all properties owned/held by a citizen, ordered by UPN.
  * Used to populate the UPN picker on the citizen portal.
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRefundPayoutCsv,
+  computeRefundable,
+  formatPayoutBatchNumber,
+  validateRefundBankDetails,
+} from "./refunds";
+
+describe("refundable amount", () => {
+  const base = { paymentAmount: 1000, paymentRefunded: 0, paidTotal: 1000, dueTotal: 1000, refundedTotal: 0 };
+
+  it("is nothing while every rupee paid is still owed", () => {
+    expect(computeRefundable(base)).toBe(0);
+  });
+
+  it("is the excess over live demands, less refunds already raised", () => {
+    // A 400 demand was waived or cancelled after the payment
+    expect(computeRefundable({ ...base, dueTotal: 600 })).toBe(400);
+    expect(computeRefundable({ ...base, dueTotal: 600, refundedTotal: 150, paymentRefunded: 150 })).toBe(250);
+  });
+
+  it("never exceeds what is left of the payment", () => {
+    // 2500 paid in two payments against nothing owed; this payment is 1000 and 300 of it was refunded
+    expect(
+      computeRefundable({ paymentAmount: 1000, paymentRefunded: 300, paidTotal: 2500, dueTotal: 0, refundedTotal: 300 })
+    ).toBe(700);
+    expect(computeRefundable({ ...base, paidTotal: 1000.333, dueTotal: 0 })).toBe(1000);
+  });
+});
+
+describe("refund bank details", () => {
+  it("normalises valid details", () => {
+    expect(
+      validateRefundBankDetails({
+        accountName: "  Harpreet   Kaur ",
+        accountNumber: "1234 5678 9012",
+        ifsc: "sbin0001234",
+        bankName: "State Bank of India",
+      })
+    ).toEqual({
+      ok: true,
+      details: {
+        accountName: "Harpreet Kaur",
+        accountNumber: "123456789012",
+        ifsc: "SBIN0001234",
+        bankName: "State Bank of India",
+      },
+    });
+  });
+
+  it("reports every field a NEFT payout cannot use", () => {
+    const result = validateRefundBankDetails({ accountName: "=HYPERLINK(1)", accountNumber: "12AB", ifsc: "SBIN1234567" });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((error) => error.split(":")[0])).toEqual(["accountName", "accountNumber", "ifsc"]);
+    }
+  });
+
+  it("rejects details that do not match BankDetailsSchema", () => {
+    expect(validateRefundBankDetails({ accountNumber: 123456789 }).ok).toBe(false);
+    expect(validateRefundBankDetails(undefined).ok).toBe(false);
+  });
+});
+
+describe("payout file", () => {
+  it("writes one NEFT line per refund with quoted cells where needed", () => {
+    const csv = buildRefundPayoutCsv([
+      {
+        reference: "RPB2026000001-0001",
+        accountName: "Kaur, Harpreet",
+        accountNumber: "123456789012",
+        ifsc: "SBIN0001234",
+        amount: 610,
+        narration: "Refund PUDA/NDC/2026/000123",
+      },
+    ]);
+    expect(csv.split("\r\n")).toEqual([
+      "Sr No,Payment Mode,Beneficiary Name,Account Number,IFSC,Amount,Reference,Narration",
+      '1,NEFT,"Kaur, Harpreet",123456789012,SBIN0001234,610.00,RPB2026000001-0001,Refund PUDA/NDC/2026/000123',
+      "",
+    ]);
+  });
+
+  it("neutralises beneficiary names a spreadsheet would run as formulas", () => {
+    const csv = buildRefundPayoutCsv([
+      {
+        reference: "RPB2026000001-0001",
+        accountName: "=HYPERLINK(\"x\")",
+        accountNumber: "123456789012",
+        ifsc: "SBIN0001234",
+        amount: 610,
+        narration: "Refund PUDA/NDC/2026/000123",
+      },
+    ]);
+    expect(csv.split("\r\n")[1]).toBe(
+      '1,NEFT,"\'=HYPERLINK(""x"")",123456789012,SBIN0001234,610.00,RPB2026000001-0001,Refund PUDA/NDC/2026/000123'
+    );
+  });
+
+  it("numbers batches by year and sequence", () => {
+    expect(formatPayoutBatchNumber(2026, 42)).toBe("RPB2026000042");
+  });
+});
@@ -0,0 +1,740 @@
+/**
+ * Refunds — maker-checker approval and bank payout of fee refunds.
+ *
+ *   REQUESTED → RECOMMENDED → APPROVED → IN_PAYOUT → PROCESSED
+ *        ↘           ↘
+ *         REJECTED    REJECTED
+ *
+ * A refund is raised against one settled payment (SUCCESS/VERIFIED) by the
+ * citizen or an officer, with the beneficiary's bank details. The amount may
+ * not exceed what is refundable: what the application has paid beyond its
+ * live demands (waived and cancelled demands owe nothing), less refunds
+ * already in flight, and never more than is left of the payment itself.
+ *
+ * One officer recommends it (maker) and a different officer approves it
+ * (checker); neither may be the officer who raised it. Accounts officers then
+ * generate a bulk NEFT payout file of the authority's approved refunds, and
+ * record the bank's UTR for each line (PROCESSED) or the failure, which puts
+ * the refund back to APPROVED for the next file. A refund whose payout failed
+ * may also be rejected. A payment refunded in full becomes REFUNDED.
+ *
+ * The citizen is notified when the refund is requested, approved, rejected
+ * and paid; every transition is written to audit_event.
+ */
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import type { PoolClient } from "pg";
+import { BankDetailsSchema } from "@puda/shared";
+import { getClient, query } from "./db";
+import { enqueueOutboxEntry } from "./outbox";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+import { csvCell } from "./csv";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const REFUND_STATUSES = ["REQUESTED", "RECOMMENDED", "APPROVED", "IN_PAYOUT", "PROCESSED", "REJECTED"] as const;
+export type RefundStatus = (typeof REFUND_STATUSES)[number];
+
+export interface RefundBankDetails {
+  accountName: string;
+  accountNumber: string;
+  ifsc: string;
+  bankName?: string;
+}
+
+/** How the refundable amount of a payment was arrived at (kept on the request). */
+export interface RefundableBreakdown {
+  paymentId: string;
+  paymentAmount: number;
+  /** Refunds against this payment that are not rejected */
+  paymentRefunded: number;
+  /** Settled payments of the application */
+  paidTotal: number;
+  /** Live (pending, part-paid or paid) demands, with installment interest collected on them */
+  dueTotal: number;
+  /** Waived demands plus line-item waivers, for display */
+  waivedTotal: number;
+  /** Refunds of the application that are not rejected */
+  refundedTotal: number;
+  refundable: number;
+}
+
+export interface RefundRequest {
+  refund_id: string;
+  payment_id: string;
+  arn: string;
+  reason: string;
+  amount: number;
+  status: RefundStatus;
+  bank_details_jsonb: Record<string, unknown>;
+  refundable_jsonb: Partial<RefundableBreakdown>;
+  requested_by: string | null;
+  requested_at: Date;
+  recommended_by: string | null;
+  recommended_at: Date | null;
+  approved_by: string | null;
+  approved_at: Date | null;
+  decision_remarks: string | null;
+  payout_batch_id: string | null;
+  payout_reference: string | null;
+  payout_failure_reason: string | null;
+  processed_by: string | null;
+  processed_at: Date | null;
+}
+
+/** Refund with the application context the officer desk lists. */
+export interface RefundQueueItem extends RefundRequest {
+  public_arn: string | null;
+  service_key: string | null;
+  payment_mode: string | null;
+}
+
+export interface RefundPayoutBatch {
+  batch_id: string;
+  batch_number: string;
+  authority_id: string;
+  refund_count: number;
+  total_amount: number;
+  file_name: string;
+  file_sha256: string;
+  generated_by_user_id: string | null;
+  created_at: Date;
+}
+
+export interface CreateRefundInput {
+  paymentId: string;
+  reason: string;
+  /** Defaults to the full refundable amount. */
+  amount?: number;
+  bankDetails?: Record<string, unknown>;
+  requestedBy?: string;
+  actorType?: "CITIZEN" | "OFFICER";
+}
+
+export type RefundPayoutOutcome = "PAID" | "FAILED";
+
+export interface RefundPayoutResult {
+  outcome: RefundPayoutOutcome;
+  /** Bank UTR, required when PAID */
+  payoutReference?: string;
+  /** Failure reason, required when FAILED */
+  remarks?: string;
+}
+
+const REFUNDABLE_PAYMENT_STATUSES = new Set(["SUCCESS", "VERIFIED"]);
+const MONEY_EPSILON = 0.005;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+/** NEFT beneficiary names; also keeps spreadsheet formulas out of the payout file */
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 .&'-]{1,99}$/;
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Refundable amount of one payment: the application's excess over its live
+ * demands less refunds already raised, capped at what is left of the payment.
+ */
+export function computeRefundable(figures: Omit<RefundableBreakdown, "paymentId" | "waivedTotal" | "refundable">): number {
+  const leftOnPayment = figures.paymentAmount - figures.paymentRefunded;
+  const excess = figures.paidTotal - figures.dueTotal - figures.refundedTotal;
+  return roundMoney(Math.max(0, Math.min(leftOnPayment, excess)));
+}
+
+/**
+ * Check beneficiary bank details against BankDetailsSchema and what a NEFT
+ * payout needs: account holder, a 9–18 digit account number and an IFSC.
+ */
+export function validateRefundBankDetails(
+  raw: unknown
+): { ok: true; details: RefundBankDetails } | { ok: false; errors: string[] } {
+  const parsed = BankDetailsSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    return { ok: false, errors: parsed.error.issues.map((issue) => `${issue.path.join(".") || "bankDetails"}: ${issue.message}`) };
+  }
+  const accountName = (parsed.data.accountName || "").trim().replace(/\s+/g, " ");
+  const accountNumber = (parsed.data.accountNumber || "").replace(/\s+/g, "");
+  const ifsc = (parsed.data.ifsc || "").trim().toUpperCase();
+  const bankName = (parsed.data.bankName || "").trim();
+
+  const errors: string[] = [];
+  if (!ACCOUNT_NAME_PATTERN.test(accountName)) {
+    errors.push("accountName: 2-100 letters, digits, spaces or . & ' -, starting with a letter");
+  }
+  if (!ACCOUNT_NUMBER_PATTERN.test(accountNumber)) errors.push("accountNumber: must be 9-18 digits");
+  if (!IFSC_PATTERN.test(ifsc)) errors.push("ifsc: must be 11 characters like SBIN0001234");
+  if (errors.length > 0) return { ok: false, errors };
+
+  return { ok: true, details: { accountName, accountNumber, ifsc, ...(bankName ? { bankName } : {}) } };
+}
+
+export function formatPayoutBatchNumber(year: number, seq: number | string): string {
+  return `RPB${year}${String(seq).padStart(6, "0")}`;
+}
+
+export interface PayoutFileLine {
+  reference: string;
+  accountName: string;
+  accountNumber: string;
+  ifsc: string;
+  amount: number;
+  narration: string;
+}
+
+/** Bulk NEFT upload file: one line per refund, amounts in rupees with paise. */
+export function buildRefundPayoutCsv(lines: PayoutFileLine[]): string {
+  const header = ["Sr No", "Payment Mode", "Beneficiary Name", "Account Number", "IFSC", "Amount", "Reference", "Narration"];
+  const rows = lines.map((line, index) =>
+    [
+      String(index + 1),
+      "NEFT",
+      line.accountName,
+      line.accountNumber,
+      line.ifsc,
+      line.amount.toFixed(2),
+      line.reference,
+      line.narration,
+    ].map(csvCell).join(",")
+  );
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// Refundable amount
+// ---------------------------------------------------------------------------
+
+async function computeRefundableBreakdown(
+  client: PoolClient,
+  payment: { payment_id: string; arn: string; amount: string | number },
+  excludeRefundId: string | null
+): Promise<RefundableBreakdown> {
+  const figures = await client.query(
+    `SELECT
+       (SELECT COALESCE(SUM(amount), 0) FROM payment
+         WHERE arn = $1 AND status IN ('SUCCESS', 'VERIFIED', 'REFUNDED')) AS paid_total,
+       (SELECT COALESCE(SUM(total_amount + interest_paid), 0) FROM fee_demand
+         WHERE arn = $1 AND status IN ('PENDING', 'PARTIALLY_PAID', 'PAID')) AS due_total,
+       (SELECT COALESCE(SUM(total_amount), 0) FROM fee_demand
+         WHERE arn = $1 AND status = 'WAIVED') +
+       (SELECT COALESCE(SUM(waiver_adjustment), 0) FROM fee_line_item WHERE arn = $1) AS waived_total,
+       (SELECT COALESCE(SUM(amount), 0) FROM refund_request
+         WHERE arn = $1 AND status <> 'REJECTED' AND refund_id IS DISTINCT FROM $3) AS refunded_total,
+       (SELECT COALESCE(SUM(amount), 0) FROM refund_request
+         WHERE payment_id = $2 AND status <> 'REJECTED' AND refund_id IS DISTINCT FROM $3) AS payment_refunded`,
+    [payment.arn, payment.payment_id, excludeRefundId]
+  );
+  const row = figures.rows[0];
+  const breakdown = {
+    paymentAmount: Number(payment.amount),
+    paymentRefunded: Number(row.payment_refunded),
+    paidTotal: Number(row.paid_total),
+    dueTotal: Number(row.due_total),
+    refundedTotal: Number(row.refunded_total),
+  };
+  return {
+    paymentId: payment.payment_id,
+    ...breakdown,
+    waivedTotal: Number(row.waived_total),
+    refundable: computeRefundable(breakdown),
+  };
+}
+
+/** Lock the application's payments so concurrent refunds see each other. */
+async function lockPaymentsOfApplication(client: PoolClient, arn: string): Promise<void> {
+  await client.query("SELECT payment_id FROM payment WHERE arn = $1 ORDER BY payment_id FOR UPDATE", [arn]);
+}
+
+/** Refundable amount of a payment right now, or null if there is no such payment. */
+export async function getRefundableAmount(paymentId: string): Promise<RefundableBreakdown | null> {
+  const client = await getClient();
+  try {
+    const payment = await client.query("SELECT payment_id, arn, amount FROM payment WHERE payment_id = $1", [paymentId]);
+    if (payment.rows.length === 0) return null;
+    return await computeRefundableBreakdown(client, payment.rows[0], null);
+  } finally {
+    client.release();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+async function writeRefundAudit(
+  client: PoolClient,
+  arn: string,
+  eventType: string,
+  actorType: "CITIZEN" | "OFFICER",
+  actorId: string | null,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await client.query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [uuidv4(), arn, eventType, actorType, actorId, JSON.stringify(payload)]
+  );
+}
+
+/** Queue a citizen notification in the refund's transaction. */
+async function queueRefundNotification(
+  client: PoolClient,
+  event: "REFUND_REQUESTED" | "REFUND_APPROVED" | "REFUND_REJECTED" | "REFUND_PROCESSED",
+  refund: { refund_id: string; arn: string; amount: string | number }
+): Promise<void> {
+  const appResult = await client.query("SELECT public_arn FROM application WHERE arn = $1", [refund.arn]);
+  await enqueueOutboxEntry(
+    client,
+    "NOTIFY",
+    {
+      event,
+      arn: appResult.rows[0]?.public_arn || refund.arn,
+      metadata: { refundId: refund.refund_id, amount: Number(refund.amount) },
+    },
+    refund.arn
+  );
+}
+
+/** Run a lifecycle step in a transaction with the refund row locked. */
+async function withLockedRefund(
+  refundId: string,
+  step: (client: PoolClient, row: any) => Promise<void>
+): Promise<RefundRequest | null> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    discardAfterCommit(client);
+    const locked = await client.query("SELECT * FROM refund_request WHERE refund_id = $1 FOR UPDATE", [refundId]);
+    if (locked.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+    await step(client, locked.rows[0]);
+    await client.query("COMMIT");
+    await runAfterCommit(client);
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  return getRefundRequestById(refundId);
+}
+
+/**
+ * Raise a refund against a settled payment of the application. The amount
+ * defaults to the refundable amount and may not exceed it.
+ */
+export async function createRefundRequest(arn: string, input: CreateRefundInput): Promise<RefundRequest> {
+  const bank = validateRefundBankDetails(input.bankDetails);
+  if (!bank.ok) throw new Error("REFUND_BANK_DETAILS_INVALID");
+
+  const client = await getClient();
+  const refundId = uuidv4();
+  try {
+    await client.query("BEGIN");
+    discardAfterCommit(client);
+    await lockPaymentsOfApplication(client, arn);
+
+    const paymentResult = await client.query(
+      "SELECT payment_id, arn, amount, status FROM payment WHERE payment_id = $1",
+      [input.paymentId]
+    );
+    const payment = paymentResult.rows[0];
+    if (!payment || payment.arn !== arn) throw new Error("PAYMENT_NOT_FOUND");
+    if (payment.status === "REFUNDED") throw new Error("PAYMENT_ALREADY_REFUNDED");
+    if (!REFUNDABLE_PAYMENT_STATUSES.has(payment.status)) throw new Error("PAYMENT_NOT_REFUNDABLE");
+
+    const breakdown = await computeRefundableBreakdown(client, payment, null);
+    if (breakdown.refundable <= 0) throw new Error("NOTHING_TO_REFUND");
+    const amount = input.amount == null ? breakdown.refundable : roundMoney(input.amount);
+    if (!Number.isFinite(amount) || amount <= 0) throw new Error("INVALID_REFUND_AMOUNT");
+    if (amount > breakdown.refundable + MONEY_EPSILON) throw new Error("REFUND_AMOUNT_EXCEEDS_REFUNDABLE");
+
+    await client.query(
+      `INSERT INTO refund_request
+         (refund_id, payment_id, arn, reason, amount, bank_details_jsonb, requested_by, refundable_jsonb)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        refundId,
+        input.paymentId,
+        arn,
+        input.reason,
+        amount,
+        JSON.stringify(bank.details),
+        input.requestedBy || null,
+        JSON.stringify(breakdown),
+      ]
+    );
+    await writeRefundAudit(client, arn, "REFUND_REQUESTED", input.actorType || "CITIZEN", input.requestedBy || null, {
+      refundId,
+      paymentId: input.paymentId,
+      amount,
+      refundable: breakdown.refundable,
+    });
+    await queueRefundNotification(client, "REFUND_REQUESTED", { refund_id: refundId, arn, amount });
+
+    await client.query("COMMIT");
+    await runAfterCommit(client);
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  return (await getRefundRequestById(refundId))!;
+}
+
+/**
+ * Maker step: recommend a REQUESTED refund after re-checking that the amount
+ * is still refundable. Refunds in any other status are returned unchanged.
+ */
+export async function recommendRefundRequest(
+  refundId: string,
+  recommendedBy: string,
+  remarks?: string
+): Promise<RefundRequest | null> {
+  return withLockedRefund(refundId, async (client, row) => {
+    if (row.status !== "REQUESTED") return;
+    if (row.requested_by === recommendedBy) throw new Error("REFUND_SELF_REVIEW");
+
+    await lockPaymentsOfApplication(client, row.arn);
+    const payment = await client.query("SELECT payment_id, arn, amount, status FROM payment WHERE payment_id = $1", [
+      row.payment_id,
+    ]);
+    if (!REFUNDABLE_PAYMENT_STATUSES.has(payment.rows[0]?.status)) throw new Error("PAYMENT_NOT_REFUNDABLE");
+    const breakdown = await computeRefundableBreakdown(client, payment.rows[0], refundId);
+    if (Number(row.amount) > breakdown.refundable + MONEY_EPSILON) throw new Error("REFUND_AMOUNT_EXCEEDS_REFUNDABLE");
+
+    await client.query(
+      `UPDATE refund_request
+       SET status = 'RECOMMENDED', recommended_by = $2, recommended_at = NOW(),
+           decision_remarks = $3, refundable_jsonb = $4
+       WHERE refund_id = $1`,
+      [refundId, recommendedBy, remarks || null, JSON.stringify(breakdown)]
+    );
+    await writeRefundAudit(client, row.arn, "REFUND_RECOMMENDED", "OFFICER", recommendedBy, {
+      refundId,
+      amount: Number(row.amount),
+      refundable: breakdown.refundable,
+      remarks: remarks || null,
+    });
+  });
+}
+
+/**
+ * Checker step: approve a RECOMMENDED refund. The checker must differ from
+ * the maker and from whoever raised the refund.
+ */
+export async function approveRefundRequest(
+  refundId: string,
+  approvedBy: string,
+  remarks?: string
+): Promise<RefundRequest | null> {
+  return withLockedRefund(refundId, async (client, row) => {
+    if (row.status !== "RECOMMENDED") return;
+    if (row.recommended_by === approvedBy || row.requested_by === approvedBy) {
+      throw new Error("REFUND_CHECKER_MUST_DIFFER");
+    }
+    await client.query(
+      `UPDATE refund_request
+       SET status = 'APPROVED', approved_by = $2, approved_at = NOW(),
+           decision_remarks = COALESCE($3, decision_remarks)
+       WHERE refund_id = $1`,
+      [refundId, approvedBy, remarks || null]
+    );
+    await writeRefundAudit(client, row.arn, "REFUND_APPROVED", "OFFICER", approvedBy, {
+      refundId,
+      amount: Number(row.amount),
+      recommendedBy: row.recommended_by,
+      remarks: remarks || null,
+    });
+    await queueRefundNotification(client, "REFUND_APPROVED", row);
+  });
+}
+
+/**
+ * Reject a refund that has not been sent for payout, or an approved one whose
+ * payout failed. Refunds in any other status are returned unchanged.
+ */
+export async function rejectRefundRequest(
+  refundId: string,
+  rejectedBy: string,
+  remarks?: string
+): Promise<RefundRequest | null> {
+  return withLockedRefund(refundId, async (client, row) => {
+    const rejectable =
+      row.status === "REQUESTED" ||
+      row.status === "RECOMMENDED" ||
+      (row.status === "APPROVED" && row.payout_failure_reason);
+    if (!rejectable) return;
+    await client.query(
+      `UPDATE refund_request
+       SET status = 'REJECTED', processed_by = $2, processed_at = NOW(), decision_remarks = $3
+       WHERE refund_id = $1`,
+      [refundId, rejectedBy, remarks || null]
+    );
+    await writeRefundAudit(client, row.arn, "REFUND_REJECTED", "OFFICER", rejectedBy, {
+      refundId,
+      fromStatus: row.status,
+      remarks: remarks || null,
+    });
+    await queueRefundNotification(client, "REFUND_REJECTED", row);
+  });
+}
+
+/**
+ * Record the bank's result for a refund in a payout file: PAID with the UTR
+ * completes it, FAILED returns it to APPROVED for the next file. Refunds not
+ * IN_PAYOUT are returned unchanged.
+ */
+export async function processRefundRequest(
+  refundId: string,
+  processedBy: string,
+  result: RefundPayoutResult
+): Promise<RefundRequest | null> {
+  const payoutReference = result.payoutReference?.trim();
+  const remarks = result.remarks?.trim();
+  if (result.outcome === "PAID" && !payoutReference) throw new Error("PAYOUT_REFERENCE_REQUIRED");
+  if (result.outcome === "FAILED" && !remarks) throw new Error("PAYOUT_FAILURE_REASON_REQUIRED");
+
+  return withLockedRefund(refundId, async (client, row) => {
+    if (row.status !== "IN_PAYOUT") return;
+
+    if (result.outcome === "FAILED") {
+      await client.query(
+        `UPDATE refund_request
+         SET status = 'APPROVED', payout_batch_id = NULL, payout_failure_reason = $2
+         WHERE refund_id = $1`,
+        [refundId, remarks]
+      );
+      await writeRefundAudit(client, row.arn, "REFUND_PAYOUT_FAILED", "OFFICER", processedBy, {
+        refundId,
+        payoutBatchId: row.payout_batch_id,
+        reason: remarks,
+      });
+      return;
+    }
+
+    await client.query(
+      `UPDATE refund_request
+       SET status = 'PROCESSED', payout_reference = $2, payout_failure_reason = NULL,
+           processed_by = $3, processed_at = NOW()
+       WHERE refund_id = $1`,
+      [refundId, payoutReference, processedBy]
+    );
+    // A payment refunded in full is no longer a settled payment
+    await client.query(
+      `UPDATE payment p SET status = 'REFUNDED'
+       WHERE p.payment_id = $1 AND p.status IN ('SUCCESS', 'VERIFIED')
+         AND (SELECT COALESCE(SUM(amount), 0) FROM refund_request
+               WHERE payment_id = p.payment_id AND status = 'PROCESSED') >= p.amount - ${MONEY_EPSILON}`,
+      [row.payment_id]
+    );
+    await writeRefundAudit(client, row.arn, "REFUND_PROCESSED", "OFFICER", processedBy, {
+      refundId,
+      amount: Number(row.amount),
+      payoutBatchId: row.payout_batch_id,
+      payoutReference,
+    });
+    await queueRefundNotification(client, "REFUND_PROCESSED", row);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Payout files
+// ---------------------------------------------------------------------------
+
+/**
+ * Put every APPROVED refund of the authority into a new payout file and move
+ * them to IN_PAYOUT. Throws NO_REFUNDS_FOR_PAYOUT when there is nothing to pay.
+ */
+export async function createRefundPayoutBatch(
+  authorityId: string,
+  generatedBy: string
+): Promise<{ batch: RefundPayoutBatch; content: string }> {
+  const client = await getClient();
+  const batchId = uuidv4();
+  try {
+    await client.query("BEGIN");
+    const approved = await client.query(
+      `SELECT r.refund_id, r.arn, r.amount, r.bank_details_jsonb, a.public_arn
+       FROM refund_request r
+       JOIN application a ON a.arn = r.arn
+       WHERE a.authority_id = $1 AND r.status = 'APPROVED'
+       ORDER BY r.approved_at, r.refund_id
+       FOR UPDATE OF r`,
+      [authorityId]
+    );
+    if (approved.rows.length === 0) throw new Error("NO_REFUNDS_FOR_PAYOUT");
+
+    const seqResult = await client.query(
+      "SELECT nextval('refund_payout_batch_seq') AS seq, EXTRACT(YEAR FROM CURRENT_DATE)::int AS year"
+    );
+    const batchNumber = formatPayoutBatchNumber(seqResult.rows[0].year, seqResult.rows[0].seq);
+    const lines: PayoutFileLine[] = approved.rows.map((row: any, index: number) => ({
+      reference: `${batchNumber}-${String(index + 1).padStart(4, "0")}`,
+      accountName: row.bank_details_jsonb?.accountName ?? "",
+      accountNumber: row.bank_details_jsonb?.accountNumber ?? "",
+      ifsc: row.bank_details_jsonb?.ifsc ?? "",
+      amount: Number(row.amount),
+      narration: `Refund ${row.public_arn || row.arn}`,
+    }));
+    const content = buildRefundPayoutCsv(lines);
+    const totalAmount = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+
+    await client.query(
+      `INSERT INTO refund_payout_batch
+         (batch_id, batch_number, authority_id, refund_count, total_amount, file_name, file_sha256, file_content, generated_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        batchId,
+        batchNumber,
+        authorityId,
+        lines.length,
+        totalAmount,
+        `${batchNumber}.csv`,
+        crypto.createHash("sha256").update(content).digest("hex"),
+        content,
+        generatedBy,
+      ]
+    );
+    for (const row of approved.rows) {
+      await client.query(
+        "UPDATE refund_request SET status = 'IN_PAYOUT', payout_batch_id = $2 WHERE refund_id = $1",
+        [row.refund_id, batchId]
+      );
+      await writeRefundAudit(client, row.arn, "REFUND_PAYOUT_INITIATED", "OFFICER", generatedBy, {
+        refundId: row.refund_id,
+        payoutBatchId: batchId,
+        batchNumber,
+      });
+    }
+
+    await client.query("COMMIT");
+    return { batch: (await getRefundPayoutBatch(batchId))!, content };
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getRefundPayoutBatch(batchId: string): Promise<RefundPayoutBatch | null> {
+  const result = await query("SELECT * FROM refund_payout_batch WHERE batch_id = $1", [batchId]);
+  return result.rows.length > 0 ? rowToPayoutBatch(result.rows[0]) : null;
+}
+
+/** The payout file exactly as generated, or null if there is no such batch. */
+export async function getRefundPayoutFile(
+  batchId: string
+): Promise<{ batch: RefundPayoutBatch; content: string } | null> {
+  const result = await query("SELECT * FROM refund_payout_batch WHERE batch_id = $1", [batchId]);
+  if (result.rows.length === 0) return null;
+  return { batch: rowToPayoutBatch(result.rows[0]), content: result.rows[0].file_content };
+}
+
+export async function listRefundPayoutBatches(authorityId: string, limit = 20): Promise<RefundPayoutBatch[]> {
+  const result = await query(
+    "SELECT * FROM refund_payout_batch WHERE authority_id = $1 ORDER BY created_at DESC LIMIT $2",
+    [authorityId, limit]
+  );
+  return result.rows.map(rowToPayoutBatch);
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export async function getRefundRequestById(refundId: string): Promise<RefundRequest | null> {
+  const result = await query("SELECT * FROM refund_request WHERE refund_id = $1", [refundId]);
+  return result.rows.length > 0 ? rowToRefund(result.rows[0]) : null;
+}
+
+export async function getRefundsForApplication(arn: string): Promise<RefundRequest[]> {
+  const result = await query(
+    "SELECT * FROM refund_request WHERE arn = $1 ORDER BY requested_at DESC",
+    [arn]
+  );
+  return result.rows.map(rowToRefund);
+}
+
+/** Refunds of an authority for the officer refund desk, oldest first. */
+export async function listRefundRequests(
+  authorityId: string,
+  options: { status?: RefundStatus; limit?: number; offset?: number } = {}
+): Promise<{ refunds: RefundQueueItem[]; total: number }> {
+  const params: unknown[] = [authorityId];
+  let where = "a.authority_id = $1";
+  if (options.status) {
+    params.push(options.status);
+    where += ` AND r.status = $${params.length}`;
+  }
+  const [rows, count] = await Promise.all([
+    query(
+      `SELECT r.*, a.public_arn, a.service_key, p.mode AS payment_mode
+       FROM refund_request r
+       JOIN application a ON a.arn = r.arn
+       LEFT JOIN payment p ON p.payment_id = r.payment_id
+       WHERE ${where}
+       ORDER BY r.requested_at ASC, r.refund_id
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit ?? 25, options.offset ?? 0]
+    ),
+    query(`SELECT COUNT(*)::int AS total FROM refund_request r JOIN application a ON a.arn = r.arn WHERE ${where}`, params),
+  ]);
+  return {
+    refunds: rows.rows.map((row) => ({
+      ...rowToRefund(row),
+      public_arn: row.public_arn ?? null,
+      service_key: row.service_key ?? null,
+      payment_mode: row.payment_mode ?? null,
+    })),
+    total: count.rows[0]?.total ?? 0,
+  };
+}
+
+function rowToRefund(row: any): RefundRequest {
+  return {
+    refund_id: row.refund_id,
+    payment_id: row.payment_id,
+    arn: row.arn,
+    reason: row.reason,
+    amount: Number(row.amount),
+    status: row.status,
+    bank_details_jsonb: row.bank_details_jsonb || {},
+    refundable_jsonb: row.refundable_jsonb || {},
+    requested_by: row.requested_by,
+    requested_at: row.requested_at,
+    recommended_by: row.recommended_by ?? null,
+    recommended_at: row.recommended_at ?? null,
+    approved_by: row.approved_by ?? null,
+    approved_at: row.approved_at ?? null,
+    decision_remarks: row.decision_remarks ?? null,
+    payout_batch_id: row.payout_batch_id ?? null,
+    payout_reference: row.payout_reference ?? null,
+    payout_failure_reason: row.payout_failure_reason ?? null,
+    processed_by: row.processed_by,
+    processed_at: row.processed_at,
+  };
+}
+
+function rowToPayoutBatch(row: any): RefundPayoutBatch {
+  return {
+    batch_id: row.batch_id,
+    batch_number: row.batch_number,
+    authority_id: row.authority_id,
+    refund_count: Number(row.refund_count),
+    total_amount: Number(row.total_amount),
+    file_name: row.file_name,
+    file_sha256: row.file_sha256,
+    generated_by_user_id: row.generated_by_user_id,
+    created_at: row.created_at,
+  };
+}
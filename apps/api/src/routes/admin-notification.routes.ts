@@ -0,0 +1,191 @@
+/**
+ * Admin sub-module: notification templates (per event and language), with
+ * preview of stored or draft text and a test-send to the admin's own phone or
+ * email. Split from admin.routes.ts — shares hooks/helpers via the barrel.
+ */
+import { FastifyInstance } from "fastify";
+import { getAuthUserId, send400, sendError } from "../errors";
+import { logWarn } from "../logger";
+import { sendTestNotification } from "../notifications";
+import {
+  listNotificationTemplates,
+  NOTIFICATION_LANGUAGES,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  renderNotificationTemplate,
+  resolveNotificationTemplate,
+  sampleTemplateVariables,
+  unknownTemplateVariables,
+  upsertNotificationTemplate,
+  type NotificationLanguage,
+  type NotificationTemplate,
+  type NotificationTemplateVariables,
+} from "../notification-templates";
+
+const EVENT_PATTERN = "^[A-Z][A-Z0-9_]{1,63}$";
+
+const templateText = {
+  title: { type: "string", minLength: 1, maxLength: 200 },
+  body: { type: "string", minLength: 1, maxLength: 2000 },
+  smsBody: { type: "string", minLength: 1, maxLength: 1000 },
+  dltTemplateId: { type: "string", pattern: "^[0-9]{10,25}$" },
+};
+
+const variablesSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: Object.fromEntries(NOTIFICATION_TEMPLATE_VARIABLES.map((name) => [name, { type: "string" }])),
+};
+
+const templateListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      event: { type: "string", pattern: EVENT_PATTERN },
+      language: { type: "string", enum: NOTIFICATION_LANGUAGES },
+    },
+  },
+};
+
+const templateUpdateSchema = {
+  params: {
+    type: "object",
+    required: ["event", "language"],
+    properties: {
+      event: { type: "string", pattern: EVENT_PATTERN },
+      language: { type: "string", enum: NOTIFICATION_LANGUAGES },
+    },
+  },
+  body: {
+    type: "object",
+    required: ["title", "body"],
+    additionalProperties: false,
+    properties: templateText,
+  },
+};
+
+const templatePreviewSchema = {
+  body: {
+    type: "object",
+    required: ["event", "language"],
+    additionalProperties: false,
+    properties: {
+      event: { type: "string", pattern: EVENT_PATTERN },
+      language: { type: "string", enum: NOTIFICATION_LANGUAGES },
+      // Draft text previews an edit before it is saved
+      ...templateText,
+      variables: variablesSchema,
+    },
+  },
+};
+
+const templateTestSendSchema = {
+  body: {
+    type: "object",
+    required: ["event", "language", "channel"],
+    additionalProperties: false,
+    properties: {
+      event: { type: "string", pattern: EVENT_PATTERN },
+      language: { type: "string", enum: NOTIFICATION_LANGUAGES },
+      channel: { type: "string", enum: ["sms", "email"] },
+      variables: variablesSchema,
+    },
+  },
+};
+
+type TemplateTextBody = { title?: string; body?: string; smsBody?: string; dltTemplateId?: string };
+
+function templateTextProblems(text: TemplateTextBody): string[] {
+  return [text.title, text.body, text.smsBody]
+    .filter((value): value is string => typeof value === "string")
+    .flatMap(unknownTemplateVariables);
+}
+
+export async function registerAdminNotificationRoutes(app: FastifyInstance) {
+  app.get("/api/v1/admin/notification-templates", { schema: templateListSchema }, async (request) => {
+    const qs = request.query as { event?: string; language?: NotificationLanguage };
+    const templates = (await listNotificationTemplates()).filter(
+      (template) => (!qs.event || template.event === qs.event) && (!qs.language || template.language === qs.language)
+    );
+    return { templates, variables: NOTIFICATION_TEMPLATE_VARIABLES, languages: NOTIFICATION_LANGUAGES };
+  });
+
+  app.put(
+    "/api/v1/admin/notification-templates/:event/:language",
+    { schema: templateUpdateSchema },
+    async (request, reply) => {
+      const { event, language } = request.params as { event: string; language: NotificationLanguage };
+      const body = request.body as TemplateTextBody & { title: string; body: string };
+      const unknown = templateTextProblems(body);
+      if (unknown.length > 0) {
+        return reply.send(
+          send400(
+            reply,
+            "UNKNOWN_TEMPLATE_VARIABLE",
+            `Unknown variables: ${[...new Set(unknown)].join(", ")}. Allowed: ${NOTIFICATION_TEMPLATE_VARIABLES.join(", ")}`
+          )
+        );
+      }
+      const template = await upsertNotificationTemplate(event, language, body, getAuthUserId(request) || "admin");
+      return { template };
+    }
+  );
+
+  app.post(
+    "/api/v1/admin/notification-templates/preview",
+    { schema: templatePreviewSchema },
+    async (request, reply) => {
+      const body = request.body as TemplateTextBody & {
+        event: string;
+        language: NotificationLanguage;
+        variables?: NotificationTemplateVariables;
+      };
+      const unknown = templateTextProblems(body);
+      if (unknown.length > 0) {
+        return reply.send(
+          send400(reply, "UNKNOWN_TEMPLATE_VARIABLE", `Unknown variables: ${[...new Set(unknown)].join(", ")}`)
+        );
+      }
+      const stored = await resolveNotificationTemplate(body.event, body.language);
+      const template: NotificationTemplate = {
+        ...stored,
+        title: body.title ?? stored.title,
+        body: body.body ?? stored.body,
+        smsBody: body.smsBody ?? stored.smsBody,
+        dltTemplateId: body.dltTemplateId ?? stored.dltTemplateId,
+      };
+      const variables = { ...sampleTemplateVariables(), ...body.variables };
+      return { template, variables, rendered: renderNotificationTemplate(template, variables) };
+    }
+  );
+
+  app.post(
+    "/api/v1/admin/notification-templates/test-send",
+    { schema: templateTestSendSchema },
+    async (request, reply) => {
+      const body = request.body as {
+        event: string;
+        language: NotificationLanguage;
+        channel: "sms" | "email";
+        variables?: NotificationTemplateVariables;
+      };
+      const userId = getAuthUserId(request) || "";
+      const template = await resolveNotificationTemplate(body.event, body.language);
+      const rendered = renderNotificationTemplate(template, { ...sampleTemplateVariables(), ...body.variables });
+      let transports: string[];
+      try {
+        transports = await sendTestNotification(userId, body.channel === "sms" ? "SMS" : "EMAIL", body.event, rendered);
+      } catch (error: any) {
+        logWarn("Notification template test-send failed", { event: body.event, channel: body.channel, error: error?.message });
+        return reply.send(sendError(reply, 502, "TEST_SEND_FAILED", error?.message || "Transport rejected the message"));
+      }
+      if (transports.length === 0) {
+        return reply.send(
+          send400(reply, "NO_TRANSPORT_FOR_CHANNEL", `No ${body.channel} transport is registered`)
+        );
+      }
+      // Sent to the requesting admin's own phone/email
+      return { sent: true, transports, rendered };
+    }
+  );
+}
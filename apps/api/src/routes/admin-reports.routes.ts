@@ -2,10 +2,20 @@
  * Admin sub-module: reports & analytics routes (stats, telemetry).
  * Split from admin.routes.ts — shares hooks/helpers via the barrel.
  */
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { query } from "../db";
-import { send400 } from "../errors";
+import { send400, send403 } from "../errors";
 import { requireValidAuthorityId } from "../route-access";
+import { isSupervisorInAuthority } from "../task-delegation";
+import {
+  getProductivityReport,
+  MAX_PRODUCTIVITY_RANGE_DAYS,
+  PRODUCTIVITY_GROUP_BYS,
+  productivityReportToCsv,
+  resolveProductivityRange,
+  type ProductivityGroupBy,
+  type ProductivityReport,
+} from "../productivity-report";
 import { resolveOfficerAuthorityScope, parsePositiveInteger } from "./admin.routes";
 
 const authorityScopedReadSchema = {
@@ -18,6 +28,19 @@ const authorityScopedReadSchema = {
   },
 };
 
+const productivityReadSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      groupBy: { type: "string", enum: [...PRODUCTIVITY_GROUP_BYS] },
+      from: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+      to: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+    },
+  },
+};
+
 const cacheTelemetryReadSchema = {
   querystring: {
     type: "object",
@@ -33,6 +56,47 @@ const cacheTelemetryReadSchema = {
   },
 };
 
+/**
+ * Shared by the productivity report and its CSV export. Officers must supervise
+ * the authority (TASK_SUPERVISOR_ROLES); admins may report across authorities.
+ * Returns null when a response has already been sent.
+ */
+async function loadProductivityReport(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ProductivityReport | null> {
+  const qs = request.query as { authorityId?: string; groupBy?: ProductivityGroupBy; from?: string; to?: string };
+  const scopedAuthorityId = resolveOfficerAuthorityScope(request, reply, qs.authorityId, "view productivity reports");
+  if (scopedAuthorityId === null) return null;
+  if (request.authUser?.userType === "ADMIN" && scopedAuthorityId) {
+    const authorityExists = await requireValidAuthorityId(reply, scopedAuthorityId);
+    if (!authorityExists) return null;
+  }
+  if (
+    request.authUser?.userType === "OFFICER" &&
+    !isSupervisorInAuthority(request.authUser.postings || [], scopedAuthorityId as string)
+  ) {
+    reply.send(send403(reply, "FORBIDDEN", "SUPERVISOR_ROLE_REQUIRED"));
+    return null;
+  }
+  const range = resolveProductivityRange(qs.from, qs.to);
+  if ("error" in range) {
+    reply.send(
+      send400(
+        reply,
+        range.error,
+        `from must be on or before to, and the range cannot exceed ${MAX_PRODUCTIVITY_RANGE_DAYS} days`
+      )
+    );
+    return null;
+  }
+  return getProductivityReport({
+    authorityId: scopedAuthorityId,
+    groupBy: qs.groupBy || "officer",
+    ...range,
+  });
+}
+
 export async function registerAdminReportRoutes(app: FastifyInstance) {
   // --- System Stats ---
   app.get("/api/v1/admin/stats", { schema: authorityScopedReadSchema }, async (request, reply) => {
@@ -98,6 +162,24 @@ export async function registerAdminReportRoutes(app: FastifyInstance) {
     };
   });
 
+  // --- Officer productivity & SLA performance ---
+  app.get("/api/v1/admin/stats/productivity", { schema: productivityReadSchema }, async (request, reply) => {
+    const report = await loadProductivityReport(request, reply);
+    if (!report) return;
+    return report;
+  });
+
+  app.get("/api/v1/admin/stats/productivity/export", { schema: productivityReadSchema }, async (request, reply) => {
+    const report = await loadProductivityReport(request, reply);
+    if (!report) return;
+    reply.type("text/csv");
+    reply.header(
+      "Content-Disposition",
+      `attachment; filename="productivity_${report.groupBy}_${report.from}_${report.to}.csv"`
+    );
+    return productivityReportToCsv(report);
+  });
+
   app.get("/api/v1/admin/telemetry/cache", { schema: cacheTelemetryReadSchema }, async (request, reply) => {
     const queryParams = request.query as {
       authorityId?: string;
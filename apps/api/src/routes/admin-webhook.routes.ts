@@ -0,0 +1,225 @@
+/**
+ * Admin sub-module: outbound webhook subscriptions for external department
+ * systems, and their delivery log with replay.
+ * Split from admin.routes.ts — shares hooks/helpers via the barrel.
+ *
+ * A subscription's signing secret is returned only when it is created or
+ * rotated; listings never include it.
+ */
+import { FastifyInstance } from "fastify";
+import { getAuthUserId, send400, send404 } from "../errors";
+import { requireValidAuthorityId } from "../route-access";
+import {
+  createWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  replayFailedWebhookDeliveries,
+  replayWebhookDelivery,
+  rotateWebhookSecret,
+  updateWebhookSubscription,
+  validateWebhookTargetUrl,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+} from "../webhooks";
+import { resolveOfficerAuthorityScope } from "./admin.routes";
+
+const subscriptionFields = {
+  eventTypes: {
+    type: "array",
+    minItems: 1,
+    items: { type: "string", enum: [...WEBHOOK_EVENT_TYPES] },
+  },
+  targetUrl: { type: "string", minLength: 1, maxLength: 2000 },
+  description: { type: "string", maxLength: 500 },
+};
+
+const subscriptionParams = {
+  type: "object",
+  required: ["subscriptionId"],
+  properties: { subscriptionId: { type: "string", minLength: 1 } },
+};
+
+const reasonBody = {
+  type: "object",
+  required: ["reason"],
+  additionalProperties: false,
+  properties: { reason: { type: "string", minLength: 1, maxLength: 500 } },
+};
+
+const subscriptionListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: { authorityId: { type: "string", minLength: 1 } },
+  },
+};
+
+const subscriptionCreateSchema = {
+  body: {
+    type: "object",
+    required: ["authorityId", "eventTypes", "targetUrl"],
+    additionalProperties: false,
+    properties: { authorityId: { type: "string", minLength: 1 }, ...subscriptionFields },
+  },
+};
+
+const subscriptionUpdateSchema = {
+  params: subscriptionParams,
+  body: {
+    type: "object",
+    required: ["eventTypes", "targetUrl", "active"],
+    additionalProperties: false,
+    properties: { ...subscriptionFields, active: { type: "boolean" } },
+  },
+};
+
+const secretRotateSchema = { params: subscriptionParams, body: reasonBody };
+
+const subscriptionReplaySchema = {
+  params: subscriptionParams,
+  body: {
+    type: "object",
+    required: ["reason"],
+    additionalProperties: false,
+    properties: {
+      reason: { type: "string", minLength: 1, maxLength: 500 },
+      since: { type: "string", format: "date-time" },
+    },
+  },
+};
+
+const deliveryListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      subscriptionId: { type: "string", minLength: 1 },
+      status: { type: "string", enum: ["PENDING", "DELIVERED", "FAILED"] },
+      arn: { type: "string", minLength: 1 },
+      limit: { type: "integer", minimum: 1, maximum: 500 },
+    },
+  },
+};
+
+const deliveryReplaySchema = {
+  params: {
+    type: "object",
+    required: ["deliveryId"],
+    properties: { deliveryId: { type: "string", minLength: 1 } },
+  },
+  body: reasonBody,
+};
+
+export async function registerAdminWebhookRoutes(app: FastifyInstance) {
+  // --- Subscriptions ---
+  app.get("/api/v1/admin/webhooks", { schema: subscriptionListSchema }, async (request, reply) => {
+    const qs = request.query as { authorityId?: string };
+    const authorityId = resolveOfficerAuthorityScope(request, reply, qs.authorityId, "view webhooks");
+    if (authorityId === null) return;
+    const subscriptions = await listWebhookSubscriptions(authorityId);
+    return { subscriptions, eventTypes: WEBHOOK_EVENT_TYPES };
+  });
+
+  app.post("/api/v1/admin/webhooks", { schema: subscriptionCreateSchema }, async (request, reply) => {
+    const body = request.body as {
+      authorityId: string;
+      eventTypes: WebhookEventType[];
+      targetUrl: string;
+      description?: string;
+    };
+    const urlError = validateWebhookTargetUrl(body.targetUrl);
+    if (urlError) {
+      return reply.send(send400(reply, urlError, "targetUrl must be an absolute https URL without credentials"));
+    }
+    const validAuthority = await requireValidAuthorityId(reply, body.authorityId);
+    if (!validAuthority) return;
+    const created = await createWebhookSubscription(body, getAuthUserId(request) || "admin");
+    reply.code(201);
+    return created;
+  });
+
+  app.put("/api/v1/admin/webhooks/:subscriptionId", { schema: subscriptionUpdateSchema }, async (request, reply) => {
+    const { subscriptionId } = request.params as { subscriptionId: string };
+    const body = request.body as {
+      eventTypes: WebhookEventType[];
+      targetUrl: string;
+      description?: string;
+      active: boolean;
+    };
+    const urlError = validateWebhookTargetUrl(body.targetUrl);
+    if (urlError) {
+      return reply.send(send400(reply, urlError, "targetUrl must be an absolute https URL without credentials"));
+    }
+    const subscription = await updateWebhookSubscription(
+      subscriptionId,
+      { ...body, description: body.description ?? null },
+      getAuthUserId(request) || "admin"
+    );
+    if (!subscription) {
+      return reply.send(send404(reply, "WEBHOOK_NOT_FOUND", "No webhook subscription with this id"));
+    }
+    return { subscription };
+  });
+
+  app.post(
+    "/api/v1/admin/webhooks/:subscriptionId/rotate-secret",
+    { schema: secretRotateSchema },
+    async (request, reply) => {
+      const { subscriptionId } = request.params as { subscriptionId: string };
+      const { reason } = request.body as { reason: string };
+      const rotated = await rotateWebhookSecret(subscriptionId, getAuthUserId(request) || "admin", reason);
+      if (!rotated) {
+        return reply.send(send404(reply, "WEBHOOK_NOT_FOUND", "No webhook subscription with this id"));
+      }
+      return rotated;
+    }
+  );
+
+  app.post(
+    "/api/v1/admin/webhooks/:subscriptionId/replay",
+    { schema: subscriptionReplaySchema },
+    async (request, reply) => {
+      const { subscriptionId } = request.params as { subscriptionId: string };
+      const { reason, since } = request.body as { reason: string; since?: string };
+      if (!(await getWebhookSubscription(subscriptionId))) {
+        return reply.send(send404(reply, "WEBHOOK_NOT_FOUND", "No webhook subscription with this id"));
+      }
+      const replayed = await replayFailedWebhookDeliveries(subscriptionId, getAuthUserId(request) || "admin", reason, since);
+      // Sent by the next worker run
+      return { replayed };
+    }
+  );
+
+  // --- Delivery log ---
+  app.get("/api/v1/admin/webhook-deliveries", { schema: deliveryListSchema }, async (request, reply) => {
+    const qs = request.query as {
+      authorityId?: string;
+      subscriptionId?: string;
+      status?: WebhookDeliveryStatus;
+      arn?: string;
+      limit?: number;
+    };
+    const authorityId = resolveOfficerAuthorityScope(request, reply, qs.authorityId, "view webhook deliveries");
+    if (authorityId === null) return;
+    const deliveries = await listWebhookDeliveries({ ...qs, authorityId });
+    return { deliveries };
+  });
+
+  app.post(
+    "/api/v1/admin/webhook-deliveries/:deliveryId/replay",
+    { schema: deliveryReplaySchema },
+    async (request, reply) => {
+      const { deliveryId } = request.params as { deliveryId: string };
+      const { reason } = request.body as { reason: string };
+      const delivery = await replayWebhookDelivery(deliveryId, getAuthUserId(request) || "admin", reason);
+      if (!delivery) {
+        return reply.send(send404(reply, "WEBHOOK_DELIVERY_NOT_FOUND", "No failed or delivered webhook delivery with this id"));
+      }
+      // Sent by the next worker run
+      return { delivery };
+    }
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * Admin sub-module: workflow simulation (dry run) for service-pack authors,
+ * the output job queue (failed certificate/order generation) and the
+ * transactional outbox (stuck notifications and other side effects).
+ * Split from admin.routes.ts — shares hooks/helpers via the barrel.
+ *
+ * The simulation runs in memory; the only queries are reads of the service
+ * version and the authority's holiday calendar.
+ */
+import { FastifyInstance } from "fastify";
+import { query } from "../db";
+import { getAuthUserId, send400, send404 } from "../errors";
+import { listOutputJobs, requeueOutputJob, type OutputJobStatus } from "../output-jobs";
+import { listOutboxEntries, replayOutboxEntry, type OutboxStatus } from "../outbox";
+import { requireValidAuthorityId } from "../route-access";
+import { isServicePackNotFoundError, loadServiceConfig, readServicePackJson } from "../service-packs";
+import { loadAuthorityHolidays } from "../sla";
+import { simulateWorkflow, type SimulationStep } from "../workflow-simulation";
+import type { WorkflowConfig } from "../workflow";
+import { resolveOfficerAuthorityScope } from "./admin.routes";
+
+const MAX_SIMULATION_STEPS = 100;
+// Holiday window loaded for SLA dates; simulations rarely span more than a year
+const HOLIDAY_WINDOW_WORKING_DAYS = 365;
+
+const stringList = { type: "array", items: { type: "string", minLength: 1 } };
+
+const simulationSchema = {
+  body: {
+    type: "object",
+    required: ["serviceKey", "steps"],
+    additionalProperties: false,
+    properties: {
+      serviceKey: { type: "string", pattern: "^[a-z0-9_]+$" },
+      version: { type: "string", pattern: "^[0-9]+\\.[0-9]+\\.[0-9]+$" },
+      authorityId: { type: "string", minLength: 1 },
+      startAt: { type: "string", format: "date-time" },
+      data: { type: "object" },
+      guardContext: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          inspection: { type: ["object", "null"] },
+          inspections: { type: "object" },
+          fees: { type: "object" },
+        },
+      },
+      steps: {
+        type: "array",
+        maxItems: MAX_SIMULATION_STEPS,
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            transitionId: { type: "string", minLength: 1 },
+            action: { type: "string", enum: ["FORWARD", "QUERY", "APPROVE", "REJECT"] },
+            actorType: { type: "string", enum: ["CITIZEN", "OFFICER", "SYSTEM"] },
+            systemRoles: stringList,
+            branchId: { type: "string", minLength: 1 },
+            afterHours: { type: "number", minimum: 0 },
+            queryMessage: { type: "string" },
+            unlockedFields: stringList,
+            unlockedDocuments: stringList,
+            checklist: { type: "object" },
+          },
+        },
+      },
+    },
+  },
+};
+
+const outputJobListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      status: { type: "string", enum: ["PENDING", "GENERATED", "FAILED"] },
+      authorityId: { type: "string", minLength: 1 },
+    },
+  },
+};
+
+const outputJobRequeueSchema = {
+  params: {
+    type: "object",
+    required: ["jobId"],
+    properties: { jobId: { type: "string", minLength: 1 } },
+  },
+  body: {
+    type: "object",
+    required: ["reason"],
+    additionalProperties: false,
+    properties: { reason: { type: "string", minLength: 1, maxLength: 500 } },
+  },
+};
+
+const outboxListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      status: { type: "string", enum: ["PENDING", "DISPATCHED", "FAILED"] },
+      kind: { type: "string", minLength: 1 },
+      arn: { type: "string", minLength: 1 },
+      authorityId: { type: "string", minLength: 1 },
+      stuck: { type: "boolean" },
+      limit: { type: "integer", minimum: 1, maximum: 500 },
+    },
+  },
+};
+
+const outboxReplaySchema = {
+  params: {
+    type: "object",
+    required: ["outboxId"],
+    properties: { outboxId: { type: "string", minLength: 1 } },
+  },
+  body: {
+    type: "object",
+    required: ["reason"],
+    additionalProperties: false,
+    properties: { reason: { type: "string", minLength: 1, maxLength: 500 } },
+  },
+};
+
+export async function registerAdminWorkflowRoutes(app: FastifyInstance) {
+  // --- Workflow simulation (no database writes) ---
+  app.post("/api/v1/admin/workflow-simulations", { schema: simulationSchema }, async (request, reply) => {
+    const body = request.body as {
+      serviceKey: string;
+      version?: string;
+      authorityId?: string;
+      startAt?: string;
+      data?: Record<string, any>;
+      guardContext?: Record<string, any>;
+      steps: SimulationStep[];
+    };
+
+    let config: { workflow?: WorkflowConfig; rules?: { rules?: any[] } } | undefined;
+    if (body.version) {
+      const result = await query(
+        "SELECT config_jsonb FROM service_version WHERE service_key = $1 AND version = $2",
+        [body.serviceKey, body.version]
+      );
+      if (result.rows.length === 0) {
+        return reply.send(
+          send404(reply, "VERSION_NOT_FOUND", `Version '${body.version}' not found for service '${body.serviceKey}'`)
+        );
+      }
+      const raw = result.rows[0].config_jsonb;
+      config = typeof raw === "string" ? JSON.parse(raw) : raw;
+    } else {
+      try {
+        const packConfig = await loadServiceConfig(body.serviceKey);
+        const rules = await readServicePackJson(body.serviceKey, "rules.json");
+        config = { workflow: packConfig.workflow, rules: rules as { rules?: any[] } | undefined };
+      } catch (error) {
+        if (!isServicePackNotFoundError(error)) throw error;
+        return reply.send(send404(reply, "SERVICE_NOT_FOUND", `Service pack '${body.serviceKey}' not found`));
+      }
+    }
+    const workflow = config?.workflow;
+    if (!workflow || !Array.isArray(workflow.states) || !Array.isArray(workflow.transitions)) {
+      return reply.send(send400(reply, "WORKFLOW_NOT_CONFIGURED", "The service has no workflow to simulate"));
+    }
+
+    const startAt = body.startAt ? new Date(body.startAt) : new Date();
+    let holidays: Set<string> | undefined;
+    if (body.authorityId) {
+      const scopedAuthorityId = resolveOfficerAuthorityScope(
+        request,
+        reply,
+        body.authorityId,
+        "simulate workflows"
+      );
+      if (scopedAuthorityId === null) return;
+      if (request.authUser?.userType === "ADMIN") {
+        const authorityExists = await requireValidAuthorityId(reply, body.authorityId);
+        if (!authorityExists) return;
+      }
+      holidays = await loadAuthorityHolidays(body.authorityId, startAt, HOLIDAY_WINDOW_WORKING_DAYS);
+    }
+
+    let notificationEvents: Array<{ event: string; channels?: string[]; recipients?: string[] }> | undefined;
+    try {
+      const notifications = (await readServicePackJson(body.serviceKey, "notifications.json")) as
+        | { events?: typeof notificationEvents }
+        | undefined;
+      notificationEvents = Array.isArray(notifications?.events) ? notifications.events : undefined;
+    } catch {
+      notificationEvents = undefined;
+    }
+
+    const result = simulateWorkflow({
+      serviceKey: body.serviceKey,
+      workflow,
+      rules: config?.rules?.rules || [],
+      notificationEvents,
+      steps: body.steps,
+      startAt,
+      authorityId: body.authorityId,
+      holidays,
+      data: body.data,
+      guardContext: body.guardContext,
+    });
+
+    return {
+      serviceKey: body.serviceKey,
+      version: body.version || null,
+      source: body.version ? "SERVICE_VERSION" : "SERVICE_PACK",
+      startAt: startAt.toISOString(),
+      ...result,
+    };
+  });
+
+  // --- Output job queue ---
+  app.get("/api/v1/admin/output-jobs", { schema: outputJobListSchema }, async (request, reply) => {
+    const qs = request.query as { status?: OutputJobStatus; authorityId?: string };
+    const authorityId = resolveOfficerAuthorityScope(request, reply, qs.authorityId, "view output jobs");
+    if (authorityId === null) return;
+    const jobs = await listOutputJobs(qs.status || "FAILED", authorityId);
+    return { jobs };
+  });
+
+  app.post("/api/v1/admin/output-jobs/:jobId/requeue", { schema: outputJobRequeueSchema }, async (request, reply) => {
+    const { jobId } = request.params as { jobId: string };
+    const { reason } = request.body as { reason: string };
+    const job = await requeueOutputJob(jobId, getAuthUserId(request) || "admin", reason);
+    if (!job) {
+      return reply.send(send404(reply, "OUTPUT_JOB_NOT_FOUND", "No failed output job with this id"));
+    }
+    // Attempted by the next worker run
+    return { job };
+  });
+
+  // --- Transactional outbox ---
+  app.get("/api/v1/admin/outbox", { schema: outboxListSchema }, async (request, reply) => {
+    const qs = request.query as {
+      status?: OutboxStatus;
+      kind?: string;
+      arn?: string;
+      authorityId?: string;
+      stuck?: boolean;
+      limit?: number;
+    };
+    const authorityId = resolveOfficerAuthorityScope(request, reply, qs.authorityId, "view the outbox");
+    if (authorityId === null) return;
+    const entries = await listOutboxEntries({ ...qs, authorityId });
+    return { entries };
+  });
+
+  app.post("/api/v1/admin/outbox/:outboxId/replay", { schema: outboxReplaySchema }, async (request, reply) => {
+    const { outboxId } = request.params as { outboxId: string };
+    const { reason } = request.body as { reason: string };
+    const entry = await replayOutboxEntry(outboxId, getAuthUserId(request) || "admin", reason);
+    if (!entry) {
+      return reply.send(send404(reply, "OUTBOX_ENTRY_NOT_FOUND", "No pending or failed outbox entry with this id"));
+    }
+    // Dispatched by the next worker run
+    return { entry };
+  });
+}
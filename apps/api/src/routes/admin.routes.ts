@@ -1,7 +1,8 @@
 /**
  * C8: Admin API routes — barrel file.
  * Registers shared hooks (schema enforcement, admin guard) then delegates
- * to sub-modules for user, service, and report routes.
+ * to sub-modules for user, service, report, workflow, notification and webhook
+ * routes.
  *
  * Shared helpers are exported so the sub-modules can import them.
  */
@@ -13,6 +14,9 @@ import {
 import { registerAdminUserRoutes } from "./admin-user.routes";
 import { registerAdminServiceRoutes } from "./admin-service.routes";
 import { registerAdminReportRoutes } from "./admin-reports.routes";
+import { registerAdminWorkflowRoutes } from "./admin-workflow.routes";
+import { registerAdminNotificationRoutes } from "./admin-notification.routes";
+import { registerAdminWebhookRoutes } from "./admin-webhook.routes";
 
 // ---------------------------------------------------------------------------
 // Shared helpers — exported for sub-modules
@@ -141,6 +145,9 @@ export function parsePositiveInteger(rawValue: unknown, fallback: number): numbe
 // Barrel registration
 // ---------------------------------------------------------------------------
 
+// POST routes that only compute a result (no writes) and stay open to officers.
+const READ_ONLY_ADMIN_POST_ROUTES = new Set(["/api/v1/admin/workflow-simulations"]);
+
 export async function registerAdminRoutes(app: FastifyInstance) {
   // Enforce strict JSON body schema for all admin mutation routes.
   app.addHook("onRoute", (routeOptions) => {
@@ -165,7 +172,9 @@ export async function registerAdminRoutes(app: FastifyInstance) {
       await requireAdminOrOfficer(request, reply);
       if (reply.sent) return;
       // Mutating admin routes are ADMIN-only.
-      if (request.method !== "GET") {
+      const readOnlyPost =
+        request.method === "POST" && READ_ONLY_ADMIN_POST_ROUTES.has(request.routeOptions.url || "");
+      if (request.method !== "GET" && !readOnlyPost) {
         await requireAdminOnly(request, reply);
       }
     }
@@ -175,4 +184,7 @@ export async function registerAdminRoutes(app: FastifyInstance) {
   await registerAdminUserRoutes(app);
   await registerAdminServiceRoutes(app);
   await registerAdminReportRoutes(app);
+  await registerAdminWorkflowRoutes(app);
+  await registerAdminNotificationRoutes(app);
+  await registerAdminWebhookRoutes(app);
 }
@@ -2,6 +2,7 @@ import { FastifyInstance } from "fastify";
 import * as applications from "../applications";
 import * as documents from "../documents";
 import * as outputs from "../outputs";
+import * as outputJobs from "../output-jobs";
 import * as notifications from "../notifications";
 import * as ndcPaymentStatus from "../ndc-payment-status";
 import { getAuthUserId, send400, send404 } from "../errors";
@@ -157,24 +158,8 @@ export async function registerApplicationDetailRoutes(app: FastifyInstance) {
           };
         }
         if (!existingOutput && application.disposal_type !== "REJECTED") {
-          const outputRecord = await outputs.generateOutput(internalArn, "ndc_approval", application.service_key);
-          // Issue document to citizen's locker
-          try {
-            if (application.applicant_user_id && outputRecord.storage_key) {
-              const basename = outputRecord.storage_key.split("/").pop() || "certificate.pdf";
-              await documents.issueCitizenDocument(
-                application.applicant_user_id,
-                `output_${application.service_key}`,
-                outputRecord.storage_key,
-                basename,
-                "application/pdf",
-                0,
-                application.public_arn || application.arn,
-                outputRecord.valid_from ? outputRecord.valid_from.toISOString().split("T")[0] : null,
-                outputRecord.valid_to ? outputRecord.valid_to.toISOString().split("T")[0] : null
-              );
-            }
-          } catch (e) { request.log.warn(e, "Issuing document to locker failed"); }
+          // Through the output job, so it cannot race the engine into a second number
+          await outputJobs.generateOutputNow(internalArn, "ndc_approval");
         }
       }
 
@@ -213,7 +198,7 @@ export async function registerApplicationDetailRoutes(app: FastifyInstance) {
     const [docs, queriesResult, tasksResult, auditResult] = await Promise.all([
       documents.getApplicationDocuments(internalArn),
       dbQuery("SELECT query_id, query_number, message, status, raised_at, response_due_at, responded_at, response_remarks, unlocked_field_keys, unlocked_doc_type_ids FROM query WHERE arn = $1 ORDER BY query_number DESC", [internalArn]),
-      dbQuery("SELECT task_id, state_id, system_role_id, status, assignee_user_id, sla_due_at, created_at, completed_at, decision, remarks FROM task WHERE arn = $1 ORDER BY created_at DESC", [internalArn]),
+      dbQuery("SELECT task_id, state_id, system_role_id, branch_id, parallel_group_id, status, assignee_user_id, sla_due_at, created_at, completed_at, decision, remarks FROM task WHERE arn = $1 ORDER BY created_at DESC", [internalArn]),
       dbQuery("SELECT ae.event_type, ae.actor_type, ae.actor_id, u.name as actor_name, ae.payload_jsonb, ae.created_at FROM audit_event ae LEFT JOIN \"user\" u ON ae.actor_id = u.user_id WHERE ae.arn = $1 ORDER BY ae.created_at DESC LIMIT 50", [internalArn]),
     ]);
 
@@ -229,9 +214,40 @@ export async function registerApplicationDetailRoutes(app: FastifyInstance) {
         const config = configResult.rows[0].config_jsonb;
         const workflow = config?.workflow;
         if (workflow?.states) {
-          const taskStates = workflow.states.filter((s: any) => s.type === "TASK" && s.taskRequired);
+          const taskStates = workflow.states.filter((s: any) => (s.type === "TASK" || s.type === "FORK") && s.taskRequired);
           const tasks = tasksResult.rows;
           workflowStages = taskStates.map((state: any) => {
+            if (state.type === "FORK") {
+              // Parallel review: report each branch of the most recent fork
+              const latestGroupId = tasks.find((t: any) => t.state_id === state.stateId && t.parallel_group_id)?.parallel_group_id;
+              const branchTasks = tasks.filter((t: any) => latestGroupId && t.parallel_group_id === latestGroupId);
+              const branches = (state.branches || []).map((branch: any) => {
+                const branchTask = branchTasks.find((t: any) => t.branch_id === branch.branchId);
+                return {
+                  branchId: branch.branchId,
+                  systemRoleId: branch.systemRoleId,
+                  status: branchTask?.status || null,
+                  completedAt: branchTask?.completed_at || null,
+                };
+              });
+              const open = branchTasks.some((t: any) => t.status === "PENDING" || t.status === "IN_PROGRESS");
+              let status: "completed" | "current" | "upcoming" = "upcoming";
+              if (open || application.state_id === state.stateId) status = "current";
+              else if (branchTasks.length > 0) status = "completed";
+              const lastCompletedAt = branchTasks
+                .map((t: any) => t.completed_at)
+                .filter(Boolean)
+                .reduce((latest: any, value: any) => (!latest || new Date(value) > new Date(latest) ? value : latest), null);
+              return {
+                stateId: state.stateId,
+                systemRoleId: null,
+                slaDays: state.slaDays || null,
+                status,
+                enteredAt: branchTasks[branchTasks.length - 1]?.created_at || null,
+                completedAt: status === "completed" ? lastCompletedAt : null,
+                branches,
+              };
+            }
             const completedTask = tasks.find((t: any) => t.state_id === state.stateId && t.status === "COMPLETED");
             const currentTask = tasks.find((t: any) => t.state_id === state.stateId && (t.status === "PENDING" || t.status === "IN_PROGRESS"));
             let status: "completed" | "current" | "upcoming" = "upcoming";
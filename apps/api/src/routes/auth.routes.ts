@@ -5,8 +5,8 @@ import { generateToken } from "../middleware/auth";
 import { query } from "../db";
 import { send400, send401, send403 } from "../errors";
 import { revokeAllUserTokens, revokeToken } from "../token-security";
-import { issueMfaChallenge, MFA_PURPOSE_TASK_DECISION } from "../mfa-stepup";
-import { validateOfficerCanActOnTask } from "../tasks";
+import { issueMfaChallenge, MFA_PURPOSE_BULK_TASK_DECISION, MFA_PURPOSE_TASK_DECISION } from "../mfa-stepup";
+import { MAX_BULK_TASK_ACTIONS, validateOfficerCanActOnTask } from "../tasks";
 
 /** M3: Set HttpOnly auth cookie on the reply */
 function setAuthCookie(reply: FastifyReply, token: string): void {
@@ -140,8 +140,15 @@ const mfaChallengeSchema = {
     required: ["purpose"],
     additionalProperties: false,
     properties: {
-      purpose: { type: "string", enum: [MFA_PURPOSE_TASK_DECISION] },
+      purpose: { type: "string", enum: [MFA_PURPOSE_TASK_DECISION, MFA_PURPOSE_BULK_TASK_DECISION] },
       taskId: { type: "string", minLength: 1 },
+      taskIds: {
+        type: "array",
+        minItems: 1,
+        maxItems: MAX_BULK_TASK_ACTIONS,
+        uniqueItems: true,
+        items: { type: "string", minLength: 1 },
+      },
     },
   },
 };
@@ -334,12 +341,28 @@ export async function registerAuthRoutes(app: FastifyInstance) {
         return send403(reply, "FORBIDDEN", "MFA challenge is only available for officer/admin users");
       }
       const body = request.body as {
-        purpose: typeof MFA_PURPOSE_TASK_DECISION;
+        purpose: typeof MFA_PURPOSE_TASK_DECISION | typeof MFA_PURPOSE_BULK_TASK_DECISION;
         taskId?: string;
+        taskIds?: string[];
       };
       if (body.purpose === MFA_PURPOSE_TASK_DECISION && !body.taskId) {
         return send400(reply, "TASK_ID_REQUIRED", "taskId is required for task decision MFA");
       }
+      if (body.purpose === MFA_PURPOSE_BULK_TASK_DECISION && !body.taskIds) {
+        return send400(reply, "TASK_IDS_REQUIRED", "taskIds is required for bulk task decision MFA");
+      }
+      if (body.taskIds && request.authUser.userType === "OFFICER") {
+        for (const taskId of body.taskIds) {
+          const canAct = await validateOfficerCanActOnTask(request.authUser.userId, taskId);
+          if (!canAct.authorized) {
+            return send403(
+              reply,
+              "FORBIDDEN",
+              `You are not allowed to request MFA challenge for task ${taskId}`
+            );
+          }
+        }
+      }
       if (body.taskId && request.authUser.userType === "OFFICER") {
         const canAct = await validateOfficerCanActOnTask(request.authUser.userId, body.taskId);
         if (!canAct.authorized) {
@@ -355,6 +378,7 @@ export async function registerAuthRoutes(app: FastifyInstance) {
         userId: request.authUser.userId,
         purpose: body.purpose,
         taskId: body.taskId,
+        taskIds: body.taskIds,
         metadata: {
           actorType: request.authUser.userType,
           route: "/api/v1/auth/mfa/challenge",
@@ -368,6 +392,7 @@ export async function registerAuthRoutes(app: FastifyInstance) {
         payload: {
           purpose: body.purpose,
           taskId: body.taskId || null,
+          taskIds: body.taskIds || null,
           challengeId: challenge.challengeId,
           deliveryChannels: challenge.deliveryChannels,
         },
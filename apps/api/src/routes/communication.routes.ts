@@ -3,9 +3,12 @@
  *
  * Provides endpoints for:
  * - Notification delivery logs (multi-channel audit trail)
+ * - Delivery-status callbacks from the SMS gateway / email provider
+ * - Live events (Server-Sent Events stream for the citizen and officer apps)
  * - Notice letters (formal notices/letters for queries, decisions, etc.)
  * - Enhanced query information
  */
+import type { OutgoingHttpHeaders } from "node:http";
 import { FastifyInstance } from "fastify";
 import {
   getLogsForApplication,
@@ -21,7 +24,24 @@ import {
   markDispatched,
 } from "../notices";
 import type { NoticeType, DispatchMode } from "../notices";
-import { getAuthUserId, send400, send403, send404 } from "../errors";
+import { getAuthUserId, send400, send401, send403, send404, sendError } from "../errors";
+import {
+  assertDeliveryCallbackSignature,
+  DELIVERY_CALLBACK_SIGNATURE_HEADER,
+  DeliveryCallbackError,
+  recordDeliveryCallback,
+  type DeliveryCallbackChannel,
+  type DeliveryCallbackPayload,
+} from "../transports/delivery-callback";
+import {
+  addLiveEventSubscriber,
+  formatServerSentEvent,
+  LIVE_STREAM_HEARTBEAT_MS,
+  LIVE_STREAM_RETRY_MS,
+  liveEventsEnabled,
+  MAX_LIVE_STREAMS_PER_USER,
+  type LiveEventSubscriber,
+} from "../live-events";
 import {
   requireApplicationReadAccess,
   requireAuthorityStaffAccess,
@@ -109,6 +129,39 @@ const notificationStatsSchema = {
   params: arnWildcardParamsSchema,
 };
 
+const deliveryCallbackSchema = {
+  params: {
+    type: "object",
+    required: ["channel"],
+    additionalProperties: false,
+    properties: {
+      channel: { type: "string", enum: ["sms", "email"] },
+    },
+  },
+  body: {
+    type: "object",
+    required: ["providerRef", "status"],
+    additionalProperties: false,
+    properties: {
+      providerRef: { type: "string", minLength: 1, maxLength: 256 },
+      status: { type: "string", minLength: 1, maxLength: 64 },
+      reason: { type: "string", maxLength: 1000 },
+      deliveredAt: { type: "string", format: "date-time" },
+    },
+  },
+};
+
+const liveEventStreamSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {},
+  },
+};
+
+// setTimeout delays above 2^31-1 ms overflow and fire immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 const noticesForApplicationSchema = {
   params: arnWildcardParamsSchema,
   querystring: {
@@ -272,6 +325,103 @@ export async function registerCommunicationRoutes(app: FastifyInstance) {
     }
   );
 
+  /**
+   * POST /api/v1/notification-logs/delivery-callback/:channel
+   * Public, signature-verified delivery report (delivered / failed / bounced)
+   * from the SMS gateway or email provider.
+   */
+  app.post(
+    "/api/v1/notification-logs/delivery-callback/:channel",
+    { schema: deliveryCallbackSchema },
+    async (request, reply) => {
+      const { channel } = request.params as { channel: DeliveryCallbackChannel };
+      const payload = request.body as DeliveryCallbackPayload;
+      const signature = request.headers[DELIVERY_CALLBACK_SIGNATURE_HEADER];
+      try {
+        assertDeliveryCallbackSignature(payload, Array.isArray(signature) ? signature[0] : signature);
+        const log = await recordDeliveryCallback(channel, payload);
+        return { accepted: true, logId: log.log_id, status: log.status };
+      } catch (err) {
+        if (!(err instanceof DeliveryCallbackError)) throw err;
+        if (err.code === "INVALID_DELIVERY_SIGNATURE") return send401(reply, err.code, err.message);
+        if (err.code === "DELIVERY_CALLBACK_SECRET_NOT_CONFIGURED") return sendError(reply, 503, err.code, err.message);
+        if (err.code === "NOTIFICATION_LOG_NOT_FOUND") return send404(reply, err.code, err.message);
+        return send400(reply, err.code, err.message);
+      }
+    }
+  );
+
+  // =======================================================================
+  // LIVE EVENTS
+  // =======================================================================
+
+  /**
+   * GET /api/v1/events/stream
+   * Server-Sent Events: the user's new notifications, task changes in an
+   * officer's postings and state changes of their applications (see
+   * live-events.ts). The stream ends when the token expires; a 503 or 429
+   * tells the apps to keep polling instead.
+   */
+  app.get("/api/v1/events/stream", { schema: liveEventStreamSchema }, async (request, reply) => {
+    const authUser = request.authUser;
+    if (!authUser) return send401(reply, "AUTHENTICATION_REQUIRED");
+    if (!liveEventsEnabled()) {
+      return sendError(reply, 503, "LIVE_EVENTS_DISABLED", "Live events are turned off; poll for updates instead");
+    }
+
+    const raw = reply.raw;
+    let eventId = 0;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let expiry: NodeJS.Timeout | undefined;
+    let unsubscribe: (() => void) | null = null;
+    const write = (chunk: string) => {
+      if (!raw.writableEnded) raw.write(chunk);
+    };
+    const end = () => {
+      clearInterval(heartbeat);
+      clearTimeout(expiry);
+      unsubscribe?.();
+      unsubscribe = null;
+      if (!raw.writableEnded) raw.end();
+    };
+    const subscriber: LiveEventSubscriber = {
+      userId: authUser.userId,
+      userType: authUser.userType,
+      postings: authUser.postings || [],
+      send(type, data) {
+        eventId += 1;
+        write(formatServerSentEvent(eventId, type, data));
+      },
+      close: end,
+    };
+    unsubscribe = addLiveEventSubscriber(subscriber);
+    if (!unsubscribe) {
+      return sendError(
+        reply,
+        429,
+        "LIVE_STREAM_LIMIT",
+        `At most ${MAX_LIVE_STREAMS_PER_USER} live event streams may be open per user`
+      );
+    }
+
+    // Written directly: compression and the JSON serializer would buffer the stream
+    reply.hijack();
+    raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+      "x-accel-buffering": "no",
+    });
+    write(`retry: ${LIVE_STREAM_RETRY_MS}\n`);
+    write(formatServerSentEvent(eventId, "ready", { userId: authUser.userId }));
+    heartbeat = setInterval(() => write(": ping\n\n"), LIVE_STREAM_HEARTBEAT_MS);
+    if (authUser.exp) {
+      expiry = setTimeout(end, Math.min(Math.max(0, authUser.exp * 1000 - Date.now()), MAX_TIMER_DELAY_MS));
+    }
+    request.raw.on("close", end);
+  });
+
   // =======================================================================
   // NOTICE LETTERS
   // =======================================================================
@@ -0,0 +1,93 @@
+/**
+ * Fee Challan sub-module — offline challan generation and download.
+ *
+ * Endpoints:
+ * - POST   /api/v1/fees/demands/:demandId/challan
+ * - GET    /api/v1/fees/demands/:demandId/challans
+ * - GET    /api/v1/fees/challans/:challanId/pdf
+ */
+import { FastifyInstance } from "fastify";
+import { getDemandById } from "../fees";
+import { generateChallan, getChallanById, getChallansForDemand, renderChallanPdf } from "../challans";
+import { getAuthUserId, send400, send404 } from "../errors";
+import { requireApplicationReadAccess } from "../route-access";
+import { challanIdParamsSchema, demandIdParamsSchema, demandStateChangeSchema } from "./fee.routes";
+
+export async function registerFeeChallanRoutes(app: FastifyInstance) {
+  /** POST /api/v1/fees/demands/:demandId/challan — generate (or reuse) a challan for the balance */
+  app.post(
+    "/api/v1/fees/demands/:demandId/challan",
+    { schema: demandStateChangeSchema },
+    async (request, reply) => {
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+      const { demandId } = request.params as { demandId: string };
+      const demand = await getDemandById(demandId);
+      if (!demand) return send404(reply, "Demand not found");
+      const arn = await requireApplicationReadAccess(
+        request,
+        reply,
+        demand.arn,
+        "You are not allowed to generate a challan for this demand"
+      );
+      if (!arn) return;
+
+      try {
+        const challan = await generateChallan(demandId, {
+          userId,
+          actorType: request.authUser?.userType === "CITIZEN" ? "CITIZEN" : "OFFICER",
+        });
+        reply.code(201);
+        return { challan };
+      } catch (err: any) {
+        const code = err?.message;
+        const knownClientErrors = new Set([
+          "DEMAND_NOT_PAYABLE",
+          "DEMAND_ALREADY_PAID",
+          "CHALLAN_PAYMENT_PENDING",
+        ]);
+        if (knownClientErrors.has(code)) {
+          return send400(reply, code);
+        }
+        throw err;
+      }
+    }
+  );
+
+  /** GET /api/v1/fees/demands/:demandId/challans — challans issued for a demand, newest first */
+  app.get("/api/v1/fees/demands/:demandId/challans", { schema: { params: demandIdParamsSchema } }, async (request, reply) => {
+    const { demandId } = request.params as { demandId: string };
+    const demand = await getDemandById(demandId);
+    if (!demand) return send404(reply, "Demand not found");
+    const arn = await requireApplicationReadAccess(
+      request,
+      reply,
+      demand.arn,
+      "You are not allowed to access challans for this demand"
+    );
+    if (!arn) return;
+    const challans = await getChallansForDemand(demandId);
+    return { challans };
+  });
+
+  /** GET /api/v1/fees/challans/:challanId/pdf — printable challan */
+  app.get("/api/v1/fees/challans/:challanId/pdf", { schema: { params: challanIdParamsSchema } }, async (request, reply) => {
+    const { challanId } = request.params as { challanId: string };
+    const existing = await getChallanById(challanId);
+    if (!existing) return send404(reply, "CHALLAN_NOT_FOUND");
+    const arn = await requireApplicationReadAccess(
+      request,
+      reply,
+      existing.arn,
+      "You are not allowed to access this challan"
+    );
+    if (!arn) return;
+
+    const rendered = await renderChallanPdf(challanId);
+    if (!rendered) return send404(reply, "CHALLAN_NOT_FOUND");
+    reply.type("application/pdf");
+    reply.header("Content-Disposition", `attachment; filename="${rendered.challan.challan_number}.pdf"`);
+    return rendered.buffer;
+  });
+}
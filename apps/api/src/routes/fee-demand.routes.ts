@@ -2,6 +2,7 @@
  * Fee Demand sub-module — fee assessment and demand management routes.
  *
  * Endpoints:
+ * - POST   /api/v1/fees/calculate
  * - POST   /api/v1/fees/assess
  * - GET    /api/v1/fees/line-items/*
  * - POST   /api/v1/fees/demands
@@ -11,7 +12,7 @@
  * - PATCH  /api/v1/fees/demands/:demandId/waive
  * - PATCH  /api/v1/fees/demands/:demandId/cancel
  */
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply } from "fastify";
 import {
   assessFees,
   getFeeLineItems,
@@ -22,7 +23,9 @@ import {
   waiveDemand,
   cancelDemand,
 } from "../fees";
-import { calculateFees } from "../payments";
+import { calculateFees, type FeeSchedule } from "../payments";
+import { FeeFormulaError } from "../fee-formula";
+import { getPropertyForApplication } from "../properties";
 import { query as dbQuery } from "../db";
 import { getAuthUserId, send400, send404 } from "../errors";
 import {
@@ -31,17 +34,88 @@ import {
 } from "../route-access";
 import {
   assessFeesSchema,
+  calculateFeesSchema,
   createDemandSchema,
   arnWildcardParamsSchema,
   demandIdParamsSchema,
   demandStateChangeSchema,
 } from "./fee.routes";
 
+/**
+ * The fee schedule an application's assessment must match, evaluated against
+ * its data and linked property. Sends the 400/404 and returns undefined when
+ * it cannot be computed.
+ */
+async function expectedFeeSchedule(reply: FastifyReply, resolvedArn: string): Promise<FeeSchedule[] | undefined> {
+  const appResult = await dbQuery(
+    "SELECT service_key, authority_id, data_jsonb FROM application WHERE arn = $1",
+    [resolvedArn]
+  );
+  if (appResult.rows.length === 0) {
+    send404(reply, "APPLICATION_NOT_FOUND", "Application not found");
+    return undefined;
+  }
+  const serviceKey = appResult.rows[0].service_key as string;
+  const authorityId = appResult.rows[0].authority_id as string;
+
+  try {
+    return await calculateFees(serviceKey, authorityId, {
+      application: appResult.rows[0].data_jsonb,
+      property: await getPropertyForApplication(resolvedArn),
+    });
+  } catch (error: any) {
+    if (error instanceof FeeFormulaError) {
+      send400(reply, error.code, error.message);
+      return undefined;
+    }
+    const code = typeof error?.message === "string" ? error.message : "FEE_SCHEDULE_NOT_CONFIGURED";
+    const knownClientErrors = new Set([
+      "SERVICE_VERSION_NOT_FOUND",
+      "FEE_SCHEDULE_NOT_CONFIGURED",
+    ]);
+    if (knownClientErrors.has(code) || /^FEE_SCHEDULE_INVALID_LINE_/.test(code)) {
+      send400(reply, code);
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 export async function registerFeeDemandRoutes(app: FastifyInstance) {
   // -----------------------------------------------------------------------
   // FEE LINE ITEMS
   // -----------------------------------------------------------------------
 
+  /**
+   * POST /api/v1/fees/calculate — preview the fee items an assessment must
+   * submit, with how each amount was derived. Nothing is stored.
+   */
+  app.post("/api/v1/fees/calculate", { schema: calculateFeesSchema }, async (request, reply) => {
+    const { arn } = request.body as { arn: string };
+    const resolvedArn = await requireApplicationReadAccess(
+      request,
+      reply,
+      arn,
+      "You are not allowed to calculate fees for this application"
+    );
+    if (!resolvedArn) return;
+
+    const schedule = await expectedFeeSchedule(reply, resolvedArn);
+    if (!schedule) return;
+    return {
+      arn: resolvedArn,
+      items: schedule.map((line) => ({
+        feeHeadCode: line.fee_type,
+        description: line.description,
+        baseAmount: line.base_amount,
+        calculationInputs: line.calculation_inputs,
+        amount: line.amount,
+        currency: "INR",
+      })),
+      totalAmount: schedule.reduce((sum, line) => sum + line.amount, 0),
+    };
+  });
+
   /** POST /api/v1/fees/assess — create fee line items for an application */
   app.post("/api/v1/fees/assess", { schema: assessFeesSchema }, async (request, reply) => {
     const userId = getAuthUserId(request, "userId");
@@ -63,30 +137,8 @@ export async function registerFeeDemandRoutes(app: FastifyInstance) {
     );
     if (!resolvedArn) return;
 
-    const appResult = await dbQuery(
-      "SELECT service_key, authority_id FROM application WHERE arn = $1",
-      [resolvedArn]
-    );
-    if (appResult.rows.length === 0) {
-      return send404(reply, "APPLICATION_NOT_FOUND", "Application not found");
-    }
-    const serviceKey = appResult.rows[0].service_key as string;
-    const authorityId = appResult.rows[0].authority_id as string;
-
-    let expectedSchedule;
-    try {
-      expectedSchedule = await calculateFees(serviceKey, authorityId);
-    } catch (error: any) {
-      const code = typeof error?.message === "string" ? error.message : "FEE_SCHEDULE_NOT_CONFIGURED";
-      const knownClientErrors = new Set([
-        "SERVICE_VERSION_NOT_FOUND",
-        "FEE_SCHEDULE_NOT_CONFIGURED",
-      ]);
-      if (knownClientErrors.has(code) || /^FEE_SCHEDULE_INVALID_LINE_/.test(code)) {
-        return send400(reply, code);
-      }
-      throw error;
-    }
+    const expectedSchedule = await expectedFeeSchedule(reply, resolvedArn);
+    if (!expectedSchedule) return;
 
     const submittedItems = items.map((i) => ({
       feeHeadCode: String(i.feeHeadCode || "").trim(),
@@ -112,8 +164,8 @@ export async function registerFeeDemandRoutes(app: FastifyInstance) {
       expectedSchedule.map((line) => ({
         feeHeadCode: line.fee_type,
         description: line.description,
-        baseAmount: line.amount,
-        calculationInputs: {},
+        baseAmount: line.base_amount,
+        calculationInputs: line.calculation_inputs,
         amount: line.amount,
         currency: "INR",
         waiverAdjustment: 0,
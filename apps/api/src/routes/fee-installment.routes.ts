@@ -0,0 +1,159 @@
+/**
+ * Fee Installment sub-module — installment plans for fee demands.
+ *
+ * Endpoints:
+ * - POST   /api/v1/fees/demands/:demandId/installment-plan
+ * - GET    /api/v1/fees/demands/:demandId/installment-plan
+ * - PATCH  /api/v1/fees/demands/:demandId/installment-plan/cancel
+ * - GET    /api/v1/fees/installment-plans/for-application/*
+ */
+import { FastifyInstance } from "fastify";
+import { getDemandById } from "../fees";
+import {
+  cancelInstallmentPlan,
+  createInstallmentPlan,
+  getInstallmentPlanForDemand,
+  getInstallmentPlansForApplication,
+  type InstallmentAllocationOrder,
+  type InstallmentScheduleLine,
+} from "../installments";
+import { getAuthUserId, send400, send404 } from "../errors";
+import {
+  requireApplicationReadAccess,
+  requireApplicationStaffMutationAccess,
+} from "../route-access";
+import {
+  arnWildcardParamsSchema,
+  createInstallmentPlanSchema,
+  demandIdParamsSchema,
+  demandStateChangeSchema,
+} from "./fee.routes";
+
+export async function registerFeeInstallmentRoutes(app: FastifyInstance) {
+  /** POST /api/v1/fees/demands/:demandId/installment-plan — split the outstanding principal into installments */
+  app.post(
+    "/api/v1/fees/demands/:demandId/installment-plan",
+    { schema: createInstallmentPlanSchema },
+    async (request, reply) => {
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+      const { demandId } = request.params as { demandId: string };
+      const demand = await getDemandById(demandId);
+      if (!demand) return send404(reply, "Demand not found");
+      const arn = await requireApplicationStaffMutationAccess(
+        request,
+        reply,
+        demand.arn,
+        "You are not allowed to set up an installment plan for this demand"
+      );
+      if (!arn) return;
+
+      const body = request.body as {
+        installments?: InstallmentScheduleLine[];
+        count?: number;
+        firstDueDate?: string;
+        intervalMonths?: number;
+        annualInterestRatePct?: number;
+        graceDays?: number;
+        allocationOrder?: InstallmentAllocationOrder;
+      };
+      try {
+        const plan = await createInstallmentPlan({ demandId, ...body, createdBy: userId });
+        reply.code(201);
+        return { plan };
+      } catch (err: any) {
+        const code = err?.message;
+        const knownClientErrors = new Set([
+          "DEMAND_NOT_PAYABLE",
+          "DEMAND_ALREADY_PAID",
+          "INSTALLMENT_PLAN_EXISTS",
+          "INSTALLMENT_SCHEDULE_REQUIRED",
+          "INSTALLMENT_COUNT_INVALID",
+          "INSTALLMENT_DUE_DATES_INVALID",
+          "INSTALLMENT_AMOUNT_INVALID",
+          "INSTALLMENT_TOTAL_MISMATCH",
+        ]);
+        if (knownClientErrors.has(code)) {
+          return send400(reply, code);
+        }
+        throw err;
+      }
+    }
+  );
+
+  /** GET /api/v1/fees/demands/:demandId/installment-plan — the demand's plan with interest accrued to today */
+  app.get(
+    "/api/v1/fees/demands/:demandId/installment-plan",
+    { schema: { params: demandIdParamsSchema } },
+    async (request, reply) => {
+      const { demandId } = request.params as { demandId: string };
+      const demand = await getDemandById(demandId);
+      if (!demand) return send404(reply, "Demand not found");
+      const arn = await requireApplicationReadAccess(
+        request,
+        reply,
+        demand.arn,
+        "You are not allowed to access this demand"
+      );
+      if (!arn) return;
+      const plan = await getInstallmentPlanForDemand(demandId);
+      if (!plan) return send404(reply, "INSTALLMENT_PLAN_NOT_FOUND");
+      return { plan };
+    }
+  );
+
+  /** PATCH /api/v1/fees/demands/:demandId/installment-plan/cancel — cancel a plan no payment has reached */
+  app.patch(
+    "/api/v1/fees/demands/:demandId/installment-plan/cancel",
+    { schema: demandStateChangeSchema },
+    async (request, reply) => {
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+      const { demandId } = request.params as { demandId: string };
+      const demand = await getDemandById(demandId);
+      if (!demand) return send404(reply, "Demand not found");
+      const arn = await requireApplicationStaffMutationAccess(
+        request,
+        reply,
+        demand.arn,
+        "You are not allowed to cancel this installment plan"
+      );
+      if (!arn) return;
+
+      try {
+        const plan = await cancelInstallmentPlan(demandId, userId);
+        if (!plan) return send404(reply, "INSTALLMENT_PLAN_NOT_FOUND");
+        return { plan };
+      } catch (err: any) {
+        if (err?.message === "INSTALLMENT_PLAN_HAS_PAYMENTS") {
+          return send400(reply, err.message);
+        }
+        throw err;
+      }
+    }
+  );
+
+  /** GET /api/v1/fees/installment-plans/for-application/* — live plans of an application */
+  app.get(
+    "/api/v1/fees/installment-plans/for-application/*",
+    { schema: { params: arnWildcardParamsSchema } },
+    async (request, reply) => {
+      const params = request.params as Record<string, string | undefined>;
+      const arnOrPublic = (params["*"] ?? "").replace(/^\//, "");
+      if (!arnOrPublic) return send400(reply, "ARN is required");
+
+      const arn = await requireApplicationReadAccess(
+        request,
+        reply,
+        arnOrPublic,
+        "You are not allowed to access installment plans for this application"
+      );
+      if (!arn) return;
+
+      const plans = await getInstallmentPlansForApplication(arn);
+      return { plans };
+    }
+  );
+}
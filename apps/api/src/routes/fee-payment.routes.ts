@@ -3,13 +3,16 @@
  *
  * Endpoints:
  * - POST   /api/v1/payments
+ * - POST   /api/v1/payments/offline
+ * - GET    /api/v1/payments/offline/pending                    (officer counter desk: authorityId)
  * - GET    /api/v1/payments/for-application/*
  * - GET    /api/v1/payments/for-demand/:demandId
  * - GET    /api/v1/payments/:paymentId
  * - POST   /api/v1/payments/:paymentId/verify
+ * - POST   /api/v1/payments/:paymentId/verify-offline
  * - POST   /api/v1/payments/callback
  */
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { getDemandById } from "../fees";
 import {
   recordPayment,
@@ -18,21 +21,68 @@ import {
   getPaymentsForApplication,
   getPaymentsForDemand,
   verifyGatewayPayment,
+  postOfflinePayment,
+  verifyOfflinePayment,
+  listOfflinePaymentsAwaitingVerification,
+  type OfflinePaymentMode,
+  type OfflineVerificationOutcome,
 } from "../payments";
-import { getAuthUserId, send400, send404 } from "../errors";
+import { getAuthUserId, send400, send403, send404 } from "../errors";
 import {
   requireApplicationReadAccess,
   requireApplicationStaffMutationAccess,
+  requireValidAuthorityId,
 } from "../route-access";
+import { resolveOfficerAuthorityScope } from "./admin.routes";
 import {
   recordPaymentSchema,
   verifyPaymentSchema,
+  postOfflinePaymentSchema,
+  verifyOfflinePaymentSchema,
   paymentCallbackSchema,
   arnWildcardParamsSchema,
   demandIdParamsSchema,
   paymentIdParamsSchema,
 } from "./fee.routes";
 
+const pendingOfflinePaymentsSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      limit: { type: "integer", minimum: 1, maximum: 200 },
+      offset: { type: "integer", minimum: 0 },
+    },
+  },
+};
+
+/**
+ * Authority whose counter desk the caller may see: admins name one, officers
+ * need a posting there. Returns null once a reply has been sent.
+ */
+async function resolveCounterAuthority(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  requestedAuthorityId: string | undefined
+): Promise<string | null> {
+  const userType = request.authUser?.userType;
+  if (userType !== "ADMIN" && userType !== "OFFICER") {
+    reply.send(send403(reply, "FORBIDDEN", "Only officers can verify counter payments"));
+    return null;
+  }
+  const authorityId = resolveOfficerAuthorityScope(request, reply, requestedAuthorityId, "verify counter payments");
+  if (authorityId === null) return null;
+  if (!authorityId) {
+    reply.send(send400(reply, "AUTHORITY_ID_REQUIRED", "authorityId is required"));
+    return null;
+  }
+  if (userType === "ADMIN") {
+    return (await requireValidAuthorityId(reply, authorityId)) ? authorityId : null;
+  }
+  return authorityId;
+}
+
 export async function registerFeePaymentRoutes(app: FastifyInstance) {
   // -----------------------------------------------------------------------
   // PAYMENTS
@@ -95,6 +145,70 @@ export async function registerFeePaymentRoutes(app: FastifyInstance) {
     return { payment };
   });
 
+  /** POST /api/v1/payments/offline — counter clerk posts a challan / NEFT / counter deposit for verification */
+  app.post("/api/v1/payments/offline", { schema: postOfflinePaymentSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+    const body = request.body as {
+      demandId: string;
+      mode: OfflinePaymentMode;
+      amount: number;
+      challanNumber?: string;
+      instrumentNumber?: string;
+      instrumentBank?: string;
+      instrumentDate?: string;
+      receiptNumber?: string;
+    };
+    const demand = await getDemandById(body.demandId);
+    if (!demand) return send404(reply, "Demand not found");
+    const arn = await requireApplicationStaffMutationAccess(
+      request,
+      reply,
+      demand.arn,
+      "You are not allowed to post payments for this application"
+    );
+    if (!arn) return;
+
+    try {
+      const payment = await postOfflinePayment({ ...body, postedByUserId: userId });
+      reply.code(201);
+      return { payment };
+    } catch (err: any) {
+      const code = err?.message;
+      const knownClientErrors = new Set([
+        "PAYMENT_AMOUNT_INVALID",
+        "DEMAND_NOT_PAYABLE",
+        "DEMAND_ALREADY_PAID",
+        "PAYMENT_AMOUNT_EXCEEDS_REMAINING_BALANCE",
+        "CHALLAN_NUMBER_REQUIRED",
+        "CHALLAN_NOT_FOUND",
+        "CHALLAN_NOT_ACTIVE",
+        "CHALLAN_EXPIRED",
+        "CHALLAN_AMOUNT_MISMATCH",
+        "INSTRUMENT_NUMBER_REQUIRED",
+        "INSTRUMENT_DATE_INVALID",
+        "INSTRUMENT_ALREADY_POSTED",
+      ]);
+      if (knownClientErrors.has(code)) {
+        return send400(reply, code);
+      }
+      throw err;
+    }
+  });
+
+  /** GET /api/v1/payments/offline/pending — counter postings awaiting a second officer's verification */
+  app.get("/api/v1/payments/offline/pending", { schema: pendingOfflinePaymentsSchema }, async (request, reply) => {
+    const qs = request.query as { authorityId?: string; limit?: number; offset?: number };
+    const authorityId = await resolveCounterAuthority(request, reply, qs.authorityId);
+    if (!authorityId) return;
+    const { payments, total } = await listOfflinePaymentsAwaitingVerification(authorityId, {
+      limit: qs.limit,
+      offset: qs.offset,
+    });
+    return { authorityId, payments, total };
+  });
+
   /** GET /api/v1/payments/for-application/* — list payments for an application */
   app.get("/api/v1/payments/for-application/*", { schema: { params: arnWildcardParamsSchema } }, async (request, reply) => {
     const params = request.params as Record<string, string | undefined>;
@@ -195,6 +309,48 @@ export async function registerFeePaymentRoutes(app: FastifyInstance) {
     }
   );
 
+  /** POST /api/v1/payments/:paymentId/verify-offline — confirm or dishonour a posted offline payment */
+  app.post(
+    "/api/v1/payments/:paymentId/verify-offline",
+    { schema: verifyOfflinePaymentSchema },
+    async (request, reply) => {
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+      const { paymentId } = request.params as { paymentId: string };
+      const body = request.body as { outcome: OfflineVerificationOutcome; remarks?: string };
+      const existing = await getPaymentById(paymentId);
+      if (!existing) return send404(reply, "Payment not found or not awaiting verification");
+      const arn = await requireApplicationStaffMutationAccess(
+        request,
+        reply,
+        existing.arn,
+        "You are not allowed to verify this payment"
+      );
+      if (!arn) return;
+
+      try {
+        const payment = await verifyOfflinePayment(paymentId, body.outcome, userId, body.remarks?.trim() || undefined);
+        if (!payment) return send404(reply, "Payment not found or not awaiting verification");
+        return { payment };
+      } catch (err: any) {
+        const code = err?.message;
+        const knownClientErrors = new Set([
+          "PAYMENT_NOT_OFFLINE",
+          "PAYMENT_ALREADY_VERIFIED",
+          "PAYMENT_SELF_VERIFY",
+          "DEMAND_NOT_FOUND",
+          "DEMAND_NOT_PAYABLE",
+          "PAYMENT_AMOUNT_EXCEEDS_REMAINING_BALANCE",
+        ]);
+        if (knownClientErrors.has(code)) {
+          return send400(reply, code);
+        }
+        throw err;
+      }
+    }
+  );
+
   /** POST /api/v1/payments/callback — public gateway callback endpoint (signature-verified) */
   app.post(
     "/api/v1/payments/callback",
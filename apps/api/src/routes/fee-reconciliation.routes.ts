@@ -0,0 +1,213 @@
+/**
+ * Fee Reconciliation sub-module — settlement file import and exception routes
+ * for accounts officers (PAYMENT_RECONCILIATION_ROLES) and admins.
+ *
+ * Endpoints:
+ * - GET    /api/v1/payments/reconciliation/imports
+ * - POST   /api/v1/payments/reconciliation/imports            (multipart: authorityId, sourceType, file)
+ * - GET    /api/v1/payments/reconciliation/exceptions
+ * - POST   /api/v1/payments/reconciliation/items/:itemId/resolve
+ */
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { getAuthUserId, send400, send403, send404 } from "../errors";
+import { requireValidAuthorityId } from "../route-access";
+import {
+  getReconciliationItem,
+  getReconciliationSummary,
+  hasReconciliationRole,
+  importReconciliationFile,
+  listReconciliationExceptions,
+  listReconciliationImports,
+  RECONCILIATION_EXCEPTION_STATUSES,
+  RECONCILIATION_RESOLUTIONS,
+  RECONCILIATION_SOURCE_TYPES,
+  ReconciliationError,
+  resolveReconciliationItem,
+  type ReconciliationExceptionStatus,
+  type ReconciliationResolution,
+  type ReconciliationSourceType,
+} from "../payment-reconciliation";
+import { resolveOfficerAuthorityScope } from "./admin.routes";
+
+const authorityQuerySchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: { authorityId: { type: "string", minLength: 1 } },
+  },
+};
+
+const exceptionListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      importId: { type: "string", minLength: 1 },
+      status: { type: "string", enum: [...RECONCILIATION_EXCEPTION_STATUSES] },
+      limit: { type: "integer", minimum: 1, maximum: 200 },
+      offset: { type: "integer", minimum: 0 },
+    },
+  },
+};
+
+const resolveItemSchema = {
+  params: {
+    type: "object",
+    required: ["itemId"],
+    properties: { itemId: { type: "string", minLength: 1 } },
+  },
+  body: {
+    type: "object",
+    required: ["action", "note"],
+    additionalProperties: false,
+    properties: {
+      action: { type: "string", enum: [...RECONCILIATION_RESOLUTIONS] },
+      note: { type: "string", minLength: 1, maxLength: 1000 },
+      paymentId: { type: "string", minLength: 1 },
+    },
+  },
+};
+
+/**
+ * Authority the caller may reconcile: admins name one, officers need an
+ * accounts role there. Returns null once a reply has been sent.
+ */
+async function resolveReconciliationAuthority(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  requestedAuthorityId: string | undefined
+): Promise<string | null> {
+  const userType = request.authUser?.userType;
+  if (userType !== "ADMIN" && userType !== "OFFICER") {
+    reply.send(send403(reply, "FORBIDDEN", "Only accounts officers can reconcile payments"));
+    return null;
+  }
+  const authorityId = resolveOfficerAuthorityScope(request, reply, requestedAuthorityId, "reconcile payments");
+  if (authorityId === null) return null;
+  if (!authorityId) {
+    reply.send(send400(reply, "AUTHORITY_ID_REQUIRED", "authorityId is required"));
+    return null;
+  }
+  if (userType === "ADMIN") {
+    return (await requireValidAuthorityId(reply, authorityId)) ? authorityId : null;
+  }
+  if (!hasReconciliationRole(request.authUser?.postings || [], authorityId)) {
+    reply.send(send403(reply, "FORBIDDEN", "ACCOUNTS_ROLE_REQUIRED"));
+    return null;
+  }
+  return authorityId;
+}
+
+export async function registerFeeReconciliationRoutes(app: FastifyInstance) {
+  /** GET /api/v1/payments/reconciliation/imports — recent imports and status counts */
+  app.get("/api/v1/payments/reconciliation/imports", { schema: authorityQuerySchema }, async (request, reply) => {
+    const qs = request.query as { authorityId?: string };
+    const authorityId = await resolveReconciliationAuthority(request, reply, qs.authorityId);
+    if (!authorityId) return;
+    const [imports, summary] = await Promise.all([
+      listReconciliationImports(authorityId),
+      getReconciliationSummary(authorityId),
+    ]);
+    return { authorityId, imports, summary };
+  });
+
+  /** POST /api/v1/payments/reconciliation/imports — import a settlement report or bank statement */
+  app.post(
+    "/api/v1/payments/reconciliation/imports",
+    { config: { skipStrictMutationBodySchema: true } },
+    async (request, reply) => {
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+      const data = await request.file();
+      if (!data) return send400(reply, "NO_FILE");
+      const fields = (data as any).fields as Record<string, { value: string }> | undefined;
+      const allowedFieldNames = new Set(["authorityId", "sourceType", data.fieldname]);
+      const unexpectedFieldNames = Object.keys(fields || {}).filter(
+        (fieldName) => !allowedFieldNames.has(fieldName)
+      );
+      if (unexpectedFieldNames.length > 0) {
+        return send400(reply, "INVALID_FIELDS", `Unexpected form field(s): ${unexpectedFieldNames.join(", ")}`);
+      }
+      const sourceType = fields?.sourceType?.value as ReconciliationSourceType | undefined;
+      if (!sourceType || !RECONCILIATION_SOURCE_TYPES.includes(sourceType)) {
+        return send400(reply, "INVALID_SOURCE_TYPE", `sourceType must be one of ${RECONCILIATION_SOURCE_TYPES.join(", ")}`);
+      }
+
+      const authorityId = await resolveReconciliationAuthority(request, reply, fields?.authorityId?.value || undefined);
+      if (!authorityId) return;
+
+      try {
+        const result = await importReconciliationFile({
+          authorityId,
+          sourceType,
+          fileName: (data.filename || "statement").slice(0, 255),
+          content: await data.toBuffer(),
+          importedByUserId: userId,
+        });
+        reply.code(201);
+        return result;
+      } catch (err) {
+        if (err instanceof ReconciliationError) return send400(reply, err.code, err.message);
+        throw err;
+      }
+    }
+  );
+
+  /** GET /api/v1/payments/reconciliation/exceptions — open mismatches, reviews and unmatched lines */
+  app.get("/api/v1/payments/reconciliation/exceptions", { schema: exceptionListSchema }, async (request, reply) => {
+    const qs = request.query as {
+      authorityId?: string;
+      importId?: string;
+      status?: ReconciliationExceptionStatus;
+      limit?: number;
+      offset?: number;
+    };
+    const authorityId = await resolveReconciliationAuthority(request, reply, qs.authorityId);
+    if (!authorityId) return;
+    const limit = qs.limit ?? 50;
+    const offset = qs.offset ?? 0;
+    const { items, total } = await listReconciliationExceptions(
+      authorityId,
+      { importId: qs.importId, status: qs.status },
+      limit,
+      offset
+    );
+    return { items, total, limit, offset };
+  });
+
+  /** POST /api/v1/payments/reconciliation/items/:itemId/resolve — accept, link or ignore an exception */
+  app.post(
+    "/api/v1/payments/reconciliation/items/:itemId/resolve",
+    { schema: resolveItemSchema },
+    async (request, reply) => {
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+      const { itemId } = request.params as { itemId: string };
+      const body = request.body as { action: ReconciliationResolution; note: string; paymentId?: string };
+      if (!body.note.trim()) return send400(reply, "NOTE_REQUIRED", "Explain how the line was resolved");
+      const item = await getReconciliationItem(itemId);
+      if (!item) return send404(reply, "RECONCILIATION_ITEM_NOT_FOUND");
+      const authorityId = await resolveReconciliationAuthority(request, reply, item.authority_id);
+      if (!authorityId) return;
+
+      try {
+        const resolved = await resolveReconciliationItem(
+          itemId,
+          { action: body.action, note: body.note.trim(), paymentId: body.paymentId },
+          userId
+        );
+        return { item: resolved };
+      } catch (err) {
+        if (err instanceof ReconciliationError) {
+          return err.code === "RECONCILIATION_ITEM_NOT_FOUND"
+            ? send404(reply, err.code, err.message)
+            : send400(reply, err.code, err.message);
+        }
+        throw err;
+      }
+    }
+  );
+}
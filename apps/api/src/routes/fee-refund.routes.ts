@@ -1,33 +1,196 @@
 /**
- * Fee Refund sub-module — refund request management routes.
+ * Fee Refund sub-module — refund requests, maker-checker decisions and bank
+ * payout files (see refunds.ts for the lifecycle).
  *
  * Endpoints:
  * - POST   /api/v1/refunds
+ * - GET    /api/v1/refunds                                    (officer desk: authorityId, status)
  * - GET    /api/v1/refunds/for-application/*
- * - PATCH  /api/v1/refunds/:refundId/approve
+ * - GET    /api/v1/payments/:paymentId/refundable
+ * - PATCH  /api/v1/refunds/:refundId/recommend                (maker)
+ * - PATCH  /api/v1/refunds/:refundId/approve                  (checker)
  * - PATCH  /api/v1/refunds/:refundId/reject
- * - PATCH  /api/v1/refunds/:refundId/process
+ * - PATCH  /api/v1/refunds/:refundId/process                  (accounts role; bank result: PAID with UTR, or FAILED)
+ * - GET    /api/v1/refunds/payout-batches
+ * - POST   /api/v1/refunds/payout-batches                     (accounts role)
+ * - GET    /api/v1/refunds/payout-batches/:batchId/file
  */
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import {
+  approveRefundRequest,
+  createRefundPayoutBatch,
   createRefundRequest,
-  getRefundsForApplication,
+  getRefundableAmount,
+  getRefundPayoutBatch,
+  getRefundPayoutFile,
   getRefundRequestById,
-  approveRefundRequest,
-  rejectRefundRequest,
+  getRefundsForApplication,
+  listRefundPayoutBatches,
+  listRefundRequests,
   processRefundRequest,
-} from "../fees";
-import { getAuthUserId, send400, send404 } from "../errors";
+  recommendRefundRequest,
+  rejectRefundRequest,
+  REFUND_STATUSES,
+  validateRefundBankDetails,
+  type RefundPayoutOutcome,
+  type RefundRequest,
+  type RefundStatus,
+} from "../refunds";
+import { getPaymentById } from "../payments";
+import { hasReconciliationRole } from "../payment-reconciliation";
+import { getAuthUserId, send400, send403, send404 } from "../errors";
 import {
   requireApplicationReadAccess,
   requireApplicationStaffMutationAccess,
+  requireValidAuthorityId,
 } from "../route-access";
+import { resolveOfficerAuthorityScope } from "./admin.routes";
 import {
   createRefundSchema,
   arnWildcardParamsSchema,
-  refundStateChangeSchema,
+  paymentIdParamsSchema,
+  processRefundSchema,
+  refundDecisionSchema,
 } from "./fee.routes";
 
+const refundListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      status: { type: "string", enum: [...REFUND_STATUSES] },
+      limit: { type: "integer", minimum: 1, maximum: 200 },
+      offset: { type: "integer", minimum: 0 },
+    },
+  },
+};
+
+const payoutBatchListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: { authorityId: { type: "string", minLength: 1 } },
+  },
+};
+
+const createPayoutBatchSchema = {
+  body: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      userId: { type: "string", minLength: 1 }, // test-mode fallback only
+    },
+  },
+};
+
+const payoutBatchFileSchema = {
+  params: {
+    type: "object",
+    required: ["batchId"],
+    additionalProperties: false,
+    properties: { batchId: { type: "string", minLength: 1 } },
+  },
+};
+
+const knownRefundErrors = new Set([
+  "PAYMENT_NOT_FOUND",
+  "PAYMENT_ALREADY_REFUNDED",
+  "PAYMENT_NOT_REFUNDABLE",
+  "NOTHING_TO_REFUND",
+  "INVALID_REFUND_AMOUNT",
+  "REFUND_AMOUNT_EXCEEDS_REFUNDABLE",
+  "REFUND_BANK_DETAILS_INVALID",
+  "REFUND_SELF_REVIEW",
+  "REFUND_CHECKER_MUST_DIFFER",
+  "PAYOUT_REFERENCE_REQUIRED",
+  "PAYOUT_FAILURE_REASON_REQUIRED",
+  "NO_REFUNDS_FOR_PAYOUT",
+]);
+
+/**
+ * Authority whose refund desk the caller may see: admins name one, officers
+ * need a posting there. Payout files and their bank results also need an
+ * accounts role (PAYMENT_RECONCILIATION_ROLES). Returns null once a reply has
+ * been sent.
+ */
+async function resolveRefundAuthority(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  requestedAuthorityId: string | undefined,
+  requireAccountsRole: boolean
+): Promise<string | null> {
+  const userType = request.authUser?.userType;
+  if (userType !== "ADMIN" && userType !== "OFFICER") {
+    reply.send(send403(reply, "FORBIDDEN", "Only officers can manage refunds"));
+    return null;
+  }
+  const authorityId = resolveOfficerAuthorityScope(request, reply, requestedAuthorityId, "manage refunds");
+  if (authorityId === null) return null;
+  if (!authorityId) {
+    reply.send(send400(reply, "AUTHORITY_ID_REQUIRED", "authorityId is required"));
+    return null;
+  }
+  if (userType === "ADMIN") {
+    return (await requireValidAuthorityId(reply, authorityId)) ? authorityId : null;
+  }
+  if (requireAccountsRole && !hasReconciliationRole(request.authUser?.postings || [], authorityId)) {
+    reply.send(send403(reply, "FORBIDDEN", "ACCOUNTS_ROLE_REQUIRED"));
+    return null;
+  }
+  return authorityId;
+}
+
+/**
+ * Shared handler for the officer transitions: staff access to the refund's
+ * application, then the step; a refund not in the step's starting status is
+ * returned unchanged by the DAL and reported as REFUND_INVALID_STATE. Steps on
+ * a payout line also need the accounts role in the payout batch's authority.
+ */
+async function handleRefundTransition(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  action: string,
+  fromStatuses: RefundStatus[],
+  requireAccountsRole: boolean,
+  step: (refundId: string, userId: string) => Promise<RefundRequest | null>
+) {
+  const userId = getAuthUserId(request, "userId");
+  if (!userId) { reply.code(401); return { error: "Authentication required" }; }
+
+  const { refundId } = request.params as { refundId: string };
+  const existing = await getRefundRequestById(refundId);
+  if (!existing) return send404(reply, "REFUND_NOT_FOUND");
+  const arn = await requireApplicationStaffMutationAccess(
+    request,
+    reply,
+    existing.arn,
+    `You are not allowed to ${action} this refund request`
+  );
+  if (!arn) return;
+  if (!fromStatuses.includes(existing.status)) {
+    return send400(reply, "REFUND_INVALID_STATE", `Refund is ${existing.status}`);
+  }
+  if (requireAccountsRole) {
+    const batch = existing.payout_batch_id ? await getRefundPayoutBatch(existing.payout_batch_id) : null;
+    if (!batch) return send400(reply, "REFUND_INVALID_STATE", "Refund is not in a payout batch");
+    if (!(await resolveRefundAuthority(request, reply, batch.authority_id, true))) return;
+  }
+
+  try {
+    const refund = await step(refundId, userId);
+    if (!refund) return send404(reply, "REFUND_NOT_FOUND");
+    if (refund.status === existing.status) {
+      return send400(reply, "REFUND_INVALID_STATE", `Refund is ${refund.status}`);
+    }
+    return { refund };
+  } catch (err: any) {
+    if (knownRefundErrors.has(err?.message)) return send400(reply, err.message);
+    throw err;
+  }
+}
+
 export async function registerFeeRefundRoutes(app: FastifyInstance) {
   // -----------------------------------------------------------------------
   // REFUND REQUESTS
@@ -38,34 +201,53 @@ export async function registerFeeRefundRoutes(app: FastifyInstance) {
     const userId = getAuthUserId(request, "userId");
     if (!userId) { reply.code(401); return { error: "Authentication required" }; }
 
-    const body = request.body as Record<string, unknown>;
-    const arn = body.arn as string | undefined;
-    const paymentId = body.paymentId as string | undefined;
-    const reason = body.reason as string | undefined;
-    const amount = body.amount as number | undefined;
-
-    if (!arn || !paymentId || !reason || amount == null) {
-      return send400(reply, "arn, paymentId, reason, and amount are required");
-    }
+    const body = request.body as {
+      arn: string;
+      paymentId: string;
+      reason: string;
+      amount?: number;
+      bankDetails: Record<string, unknown>;
+    };
 
     const resolvedArn = await requireApplicationReadAccess(
       request,
       reply,
-      arn,
+      body.arn,
       "You are not allowed to create refund requests for this application"
     );
     if (!resolvedArn) return;
 
-    const refund = await createRefundRequest(resolvedArn, {
-      paymentId,
-      reason,
-      amount,
-      bankDetails: body.bankDetails as Record<string, unknown> | undefined,
-      requestedBy: userId,
-    });
+    const bank = validateRefundBankDetails(body.bankDetails);
+    if (!bank.ok) return send400(reply, "REFUND_BANK_DETAILS_INVALID", bank.errors.join("; "));
 
-    reply.code(201);
-    return { refund };
+    try {
+      const refund = await createRefundRequest(resolvedArn, {
+        paymentId: body.paymentId,
+        reason: body.reason,
+        amount: body.amount,
+        bankDetails: body.bankDetails,
+        requestedBy: userId,
+        actorType: request.authUser?.userType === "CITIZEN" ? "CITIZEN" : "OFFICER",
+      });
+      reply.code(201);
+      return { refund };
+    } catch (err: any) {
+      if (knownRefundErrors.has(err?.message)) return send400(reply, err.message);
+      throw err;
+    }
+  });
+
+  /** GET /api/v1/refunds — the authority's refund desk, oldest first */
+  app.get("/api/v1/refunds", { schema: refundListSchema }, async (request, reply) => {
+    const qs = request.query as { authorityId?: string; status?: RefundStatus; limit?: number; offset?: number };
+    const authorityId = await resolveRefundAuthority(request, reply, qs.authorityId, false);
+    if (!authorityId) return;
+    const { refunds, total } = await listRefundRequests(authorityId, {
+      status: qs.status,
+      limit: qs.limit,
+      offset: qs.offset,
+    });
+    return { authorityId, refunds, total };
   });
 
   /** GET /api/v1/refunds/for-application/* — list refunds for an application */
@@ -86,75 +268,112 @@ export async function registerFeeRefundRoutes(app: FastifyInstance) {
     return { refunds };
   });
 
-  /** PATCH /api/v1/refunds/:refundId/approve */
-  app.patch(
-    "/api/v1/refunds/:refundId/approve",
-    { schema: refundStateChangeSchema },
-    async (request, reply) => {
-    const userId = getAuthUserId(request, "userId");
-    if (!userId) { reply.code(401); return { error: "Authentication required" }; }
-
-    const { refundId } = request.params as { refundId: string };
-    const existing = await getRefundRequestById(refundId);
-    if (!existing) return send404(reply, "Refund not found or not in REQUESTED status");
-    const arn = await requireApplicationStaffMutationAccess(
+  /** GET /api/v1/payments/:paymentId/refundable — refundable amount and how it was computed */
+  app.get("/api/v1/payments/:paymentId/refundable", { schema: { params: paymentIdParamsSchema } }, async (request, reply) => {
+    const { paymentId } = request.params as { paymentId: string };
+    const payment = await getPaymentById(paymentId);
+    if (!payment) return send404(reply, "PAYMENT_NOT_FOUND");
+    const arn = await requireApplicationReadAccess(
       request,
       reply,
-      existing.arn,
-      "You are not allowed to approve this refund request"
+      payment.arn,
+      "You are not allowed to access this payment"
     );
     if (!arn) return;
-    const refund = await approveRefundRequest(refundId, userId);
-    if (!refund) return send404(reply, "Refund not found or not in REQUESTED status");
-    return { refund };
+    const refundable = await getRefundableAmount(paymentId);
+    if (!refundable) return send404(reply, "PAYMENT_NOT_FOUND");
+    return { refundable };
+  });
+
+  /** PATCH /api/v1/refunds/:refundId/recommend — maker */
+  app.patch(
+    "/api/v1/refunds/:refundId/recommend",
+    { schema: refundDecisionSchema(false) },
+    async (request, reply) => {
+      const remarks = (request.body as { remarks?: string } | null)?.remarks;
+      return handleRefundTransition(request, reply, "recommend", ["REQUESTED"], false, (refundId, userId) =>
+        recommendRefundRequest(refundId, userId, remarks)
+      );
+    }
+  );
+
+  /** PATCH /api/v1/refunds/:refundId/approve — checker, a different officer from the maker */
+  app.patch(
+    "/api/v1/refunds/:refundId/approve",
+    { schema: refundDecisionSchema(false) },
+    async (request, reply) => {
+      const remarks = (request.body as { remarks?: string } | null)?.remarks;
+      return handleRefundTransition(request, reply, "approve", ["RECOMMENDED"], false, (refundId, userId) =>
+        approveRefundRequest(refundId, userId, remarks)
+      );
     }
   );
 
   /** PATCH /api/v1/refunds/:refundId/reject */
   app.patch(
     "/api/v1/refunds/:refundId/reject",
-    { schema: refundStateChangeSchema },
+    { schema: refundDecisionSchema(true) },
     async (request, reply) => {
-    const userId = getAuthUserId(request, "userId");
-    if (!userId) { reply.code(401); return { error: "Authentication required" }; }
-
-    const { refundId } = request.params as { refundId: string };
-    const existing = await getRefundRequestById(refundId);
-    if (!existing) return send404(reply, "Refund not found or not in REQUESTED status");
-    const arn = await requireApplicationStaffMutationAccess(
-      request,
-      reply,
-      existing.arn,
-      "You are not allowed to reject this refund request"
-    );
-    if (!arn) return;
-    const refund = await rejectRefundRequest(refundId, userId);
-    if (!refund) return send404(reply, "Refund not found or not in REQUESTED status");
-    return { refund };
+      const { remarks } = request.body as { remarks: string };
+      return handleRefundTransition(request, reply, "reject", ["REQUESTED", "RECOMMENDED", "APPROVED"], false, (refundId, userId) =>
+        rejectRefundRequest(refundId, userId, remarks)
+      );
     }
   );
 
-  /** PATCH /api/v1/refunds/:refundId/process */
+  /** PATCH /api/v1/refunds/:refundId/process — record the bank's result for a payout line (accounts role) */
   app.patch(
     "/api/v1/refunds/:refundId/process",
-    { schema: refundStateChangeSchema },
+    { schema: processRefundSchema },
     async (request, reply) => {
+      const body = request.body as { outcome: RefundPayoutOutcome; payoutReference?: string; remarks?: string };
+      return handleRefundTransition(request, reply, "process", ["IN_PAYOUT"], true, (refundId, userId) =>
+        processRefundRequest(refundId, userId, body)
+      );
+    }
+  );
+
+  // -----------------------------------------------------------------------
+  // PAYOUT FILES
+  // -----------------------------------------------------------------------
+
+  /** GET /api/v1/refunds/payout-batches — recent payout files of the authority */
+  app.get("/api/v1/refunds/payout-batches", { schema: payoutBatchListSchema }, async (request, reply) => {
+    const qs = request.query as { authorityId?: string };
+    const authorityId = await resolveRefundAuthority(request, reply, qs.authorityId, false);
+    if (!authorityId) return;
+    const batches = await listRefundPayoutBatches(authorityId);
+    return { authorityId, batches };
+  });
+
+  /** POST /api/v1/refunds/payout-batches — bundle every APPROVED refund into a new NEFT file */
+  app.post("/api/v1/refunds/payout-batches", { schema: createPayoutBatchSchema }, async (request, reply) => {
     const userId = getAuthUserId(request, "userId");
     if (!userId) { reply.code(401); return { error: "Authentication required" }; }
-
-    const { refundId } = request.params as { refundId: string };
-    const existing = await getRefundRequestById(refundId);
-    if (!existing) return send404(reply, "Refund not found or not in APPROVED status");
-    const arn = await requireApplicationStaffMutationAccess(
-      request,
-      reply,
-      existing.arn,
-      "You are not allowed to process this refund request"
-    );
-    if (!arn) return;
-    const refund = await processRefundRequest(refundId, userId);
-    if (!refund) return send404(reply, "Refund not found or not in APPROVED status");
-    return { refund };
+    const body = (request.body || {}) as { authorityId?: string };
+    const authorityId = await resolveRefundAuthority(request, reply, body.authorityId, true);
+    if (!authorityId) return;
+    try {
+      const { batch } = await createRefundPayoutBatch(authorityId, userId);
+      reply.code(201);
+      return { batch };
+    } catch (err: any) {
+      if (knownRefundErrors.has(err?.message)) return send400(reply, err.message);
+      throw err;
     }
-  );
+  });
+
+  /** GET /api/v1/refunds/payout-batches/:batchId/file — the payout CSV as generated */
+  app.get("/api/v1/refunds/payout-batches/:batchId/file", { schema: payoutBatchFileSchema }, async (request, reply) => {
+    const { batchId } = request.params as { batchId: string };
+    const existing = await getRefundPayoutBatch(batchId);
+    if (!existing) return send404(reply, "PAYOUT_BATCH_NOT_FOUND");
+    const authorityId = await resolveRefundAuthority(request, reply, existing.authority_id, true);
+    if (!authorityId) return;
+    const file = await getRefundPayoutFile(batchId);
+    if (!file) return send404(reply, "PAYOUT_BATCH_NOT_FOUND");
+    reply.type("text/csv; charset=utf-8");
+    reply.header("Content-Disposition", `attachment; filename="${file.batch.file_name}"`);
+    return file.content;
+  });
 }
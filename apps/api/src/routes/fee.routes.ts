@@ -2,15 +2,21 @@
  * Fee & Payment API routes — barrel file.
  *
  * Keeps shared schemas and helper constants, then delegates route
- * registration to three sub-modules:
- *   - fee-demand.routes.ts   (fee assessment + demand management)
- *   - fee-payment.routes.ts  (payment recording + verification)
- *   - fee-refund.routes.ts   (refund request management)
+ * registration to six sub-modules:
+ *   - fee-demand.routes.ts          (fee assessment + demand management)
+ *   - fee-installment.routes.ts     (installment plans for demands)
+ *   - fee-challan.routes.ts         (offline challan generation + PDF)
+ *   - fee-payment.routes.ts         (payment recording + verification)
+ *   - fee-refund.routes.ts          (refund maker-checker + payout files)
+ *   - fee-reconciliation.routes.ts  (settlement file import + exceptions)
  */
 import { FastifyInstance } from "fastify";
 import { registerFeeDemandRoutes } from "./fee-demand.routes";
+import { registerFeeInstallmentRoutes } from "./fee-installment.routes";
+import { registerFeeChallanRoutes } from "./fee-challan.routes";
 import { registerFeePaymentRoutes } from "./fee-payment.routes";
 import { registerFeeRefundRoutes } from "./fee-refund.routes";
+import { registerFeeReconciliationRoutes } from "./fee-reconciliation.routes";
 
 // ---------------------------------------------------------------------------
 // Shared schemas — exported for sub-modules
@@ -45,6 +51,17 @@ export const assessFeesSchema = {
   },
 };
 
+export const calculateFeesSchema = {
+  body: {
+    type: "object",
+    required: ["arn"],
+    additionalProperties: false,
+    properties: {
+      arn: { type: "string", minLength: 1 },
+    },
+  },
+};
+
 export const createDemandSchema = {
   body: {
     type: "object",
@@ -115,6 +132,47 @@ export const verifyPaymentSchema = {
   },
 };
 
+export const postOfflinePaymentSchema = {
+  body: {
+    type: "object",
+    required: ["demandId", "mode", "amount"],
+    additionalProperties: false,
+    properties: {
+      demandId: { type: "string", minLength: 1 },
+      mode: { type: "string", enum: ["CHALLAN", "NEFT", "COUNTER"] },
+      amount: { type: "number", exclusiveMinimum: 0 },
+      challanNumber: { type: "string", minLength: 1, maxLength: 32 },
+      instrumentNumber: { type: "string", minLength: 1, maxLength: 64 },
+      instrumentBank: { type: "string", minLength: 1, maxLength: 200 },
+      instrumentDate: {
+        type: "string",
+        pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+      },
+      receiptNumber: { type: "string", minLength: 1, maxLength: 64 },
+    },
+  },
+};
+
+export const verifyOfflinePaymentSchema = {
+  params: {
+    type: "object",
+    required: ["paymentId"],
+    additionalProperties: false,
+    properties: {
+      paymentId: { type: "string", minLength: 1 },
+    },
+  },
+  body: {
+    type: "object",
+    required: ["outcome"],
+    additionalProperties: false,
+    properties: {
+      outcome: { type: "string", enum: ["VERIFIED", "DISHONOURED"] },
+      remarks: { type: "string", minLength: 1, maxLength: 1000 },
+    },
+  },
+};
+
 export const paymentCallbackSchema = {
   body: {
     type: "object",
@@ -134,14 +192,23 @@ export const paymentCallbackSchema = {
 export const createRefundSchema = {
   body: {
     type: "object",
-    required: ["arn", "paymentId", "reason", "amount"],
+    required: ["arn", "paymentId", "reason", "bankDetails"],
     additionalProperties: false,
     properties: {
       arn: { type: "string", minLength: 1 },
       paymentId: { type: "string", minLength: 1 },
-      reason: { type: "string", minLength: 1 },
-      amount: { type: "number" },
-      bankDetails: { type: "object" },
+      reason: { type: "string", minLength: 1, maxLength: 1000 },
+      amount: { type: "number", exclusiveMinimum: 0 }, // defaults to the refundable amount
+      bankDetails: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          accountName: { type: "string" },
+          accountNumber: { type: "string" },
+          ifsc: { type: "string" },
+          bankName: { type: "string" },
+        },
+      },
     },
   },
 };
@@ -173,6 +240,15 @@ export const paymentIdParamsSchema = {
   },
 };
 
+export const challanIdParamsSchema = {
+  type: "object",
+  required: ["challanId"],
+  additionalProperties: false,
+  properties: {
+    challanId: { type: "string", minLength: 1 },
+  },
+};
+
 export const refundIdParamsSchema = {
   type: "object",
   required: ["refundId"],
@@ -202,9 +278,72 @@ export const demandStateChangeSchema = {
   ...stateChangeMutationSchema,
 };
 
-export const refundStateChangeSchema = {
+/** Either an explicit installments[] schedule or count + firstDueDate (+ intervalMonths) */
+export const createInstallmentPlanSchema = {
+  params: demandIdParamsSchema,
+  body: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      installments: {
+        type: "array",
+        minItems: 2,
+        maxItems: 120,
+        items: {
+          type: "object",
+          required: ["dueDate", "amount"],
+          additionalProperties: false,
+          properties: {
+            dueDate: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+            amount: { type: "number", exclusiveMinimum: 0 },
+          },
+        },
+      },
+      count: { type: "integer", minimum: 2, maximum: 120 },
+      firstDueDate: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+      intervalMonths: { type: "integer", minimum: 1, maximum: 12 },
+      annualInterestRatePct: { type: "number", minimum: 0, maximum: 36 },
+      graceDays: { type: "integer", minimum: 0, maximum: 365 },
+      allocationOrder: { type: "string", enum: ["INTEREST_FIRST", "PRINCIPAL_FIRST"] },
+    },
+    oneOf: [{ required: ["installments"] }, { required: ["count", "firstDueDate"] }],
+  },
+};
+
+/** Maker/checker decisions; reject requires remarks */
+export function refundDecisionSchema(remarksRequired: boolean) {
+  return {
+    params: refundIdParamsSchema,
+    body: {
+      anyOf: [
+        {
+          type: "object",
+          required: remarksRequired ? ["remarks"] : [],
+          additionalProperties: false,
+          properties: {
+            remarks: { type: "string", minLength: 1, maxLength: 1000 },
+            userId: { type: "string", minLength: 1 }, // test-mode fallback only
+          },
+        },
+        ...(remarksRequired ? [] : [{ type: "null" }]),
+      ],
+    },
+  };
+}
+
+export const processRefundSchema = {
   params: refundIdParamsSchema,
-  ...stateChangeMutationSchema,
+  body: {
+    type: "object",
+    required: ["outcome"],
+    additionalProperties: false,
+    properties: {
+      outcome: { type: "string", enum: ["PAID", "FAILED"] },
+      payoutReference: { type: "string", minLength: 1, maxLength: 64 },
+      remarks: { type: "string", minLength: 1, maxLength: 1000 },
+      userId: { type: "string", minLength: 1 }, // test-mode fallback only
+    },
+  },
 };
 
 // ---------------------------------------------------------------------------
@@ -213,6 +352,9 @@ export const refundStateChangeSchema = {
 
 export async function registerFeeRoutes(app: FastifyInstance) {
   await registerFeeDemandRoutes(app);
+  await registerFeeInstallmentRoutes(app);
+  await registerFeeChallanRoutes(app);
   await registerFeePaymentRoutes(app);
   await registerFeeRefundRoutes(app);
+  await registerFeeReconciliationRoutes(app);
 }
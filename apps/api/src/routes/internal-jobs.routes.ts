@@ -7,6 +7,11 @@
  */
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { detectSLABreaches } from "../sla-checker";
+import { runWorkflowTimers } from "../workflow-timers";
+import { runOutputJobs } from "../output-jobs";
+import { runWebhookDeliveries } from "../webhooks";
+import { runOutbox } from "../outbox";
+import { runDeferredNotifications } from "../notification-deferred";
 import { cleanupClientTelemetryEvents } from "../telemetry-retention";
 import { cleanupExpiredRevocations } from "../token-security";
 import { cleanupExpiredMfaChallenges } from "../mfa-stepup";
@@ -37,6 +42,41 @@ export function registerInternalJobRoutes(app: FastifyInstance): void {
     return { ok: true, ...result };
   });
 
+  // Timer-driven workflow transitions (query deadlines, SLA escalation)
+  app.post("/internal/jobs/workflow-timers", async (request, reply) => {
+    if (!verifyInternalSecret(request, reply)) return;
+    const result = await runWorkflowTimers();
+    return { ok: true, ...result };
+  });
+
+  // Transactional outbox dispatch (notifications, output jobs; retries with backoff)
+  app.post("/internal/jobs/outbox", async (request, reply) => {
+    if (!verifyInternalSecret(request, reply)) return;
+    const result = await runOutbox();
+    return { ok: true, ...result };
+  });
+
+  // SMS held for quiet hours and daily digests (citizen notification preferences)
+  app.post("/internal/jobs/deferred-notifications", async (request, reply) => {
+    if (!verifyInternalSecret(request, reply)) return;
+    const result = await runDeferredNotifications();
+    return { ok: true, ...result };
+  });
+
+  // Queued certificate/order generation (retries with backoff)
+  app.post("/internal/jobs/output-jobs", async (request, reply) => {
+    if (!verifyInternalSecret(request, reply)) return;
+    const result = await runOutputJobs();
+    return { ok: true, ...result };
+  });
+
+  // Outbound webhook deliveries to department systems (retries with backoff)
+  app.post("/internal/jobs/webhook-deliveries", async (request, reply) => {
+    if (!verifyInternalSecret(request, reply)) return;
+    const result = await runWebhookDeliveries();
+    return { ok: true, ...result };
+  });
+
   // Client telemetry retention cleanup
   app.post("/internal/jobs/cleanup-telemetry", async (request, reply) => {
     if (!verifyInternalSecret(request, reply)) return;
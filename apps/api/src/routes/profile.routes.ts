@@ -15,6 +15,7 @@ import {
 } from "../profile";
 import { resolveAadhaarEkycAdapter } from "../providers/aadhaar-ekyc";
 import { resolvePanVerifyAdapter } from "../providers/pan-verify";
+import { NOTIFICATION_CATEGORIES } from "../notification-preferences";
 
 const profileMeSchema = {
   querystring: {
@@ -53,6 +54,36 @@ const communicationAddressSchema = {
   },
 };
 
+const hhmmSchema = { type: "string", pattern: "^([01][0-9]|2[0-3]):[0-5][0-9]$" };
+
+const notificationPreferencesSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    channels: {
+      type: "object",
+      additionalProperties: false,
+      properties: Object.fromEntries(
+        NOTIFICATION_CATEGORIES.map((category) => [
+          category,
+          {
+            type: "object",
+            additionalProperties: false,
+            properties: { sms: { type: "boolean" }, email: { type: "boolean" } },
+          },
+        ])
+      ),
+    },
+    quietHours: {
+      type: "object",
+      required: ["enabled", "start", "end"],
+      additionalProperties: false,
+      properties: { enabled: { type: "boolean" }, start: hhmmSchema, end: hhmmSchema },
+    },
+    digest: { type: "boolean" },
+  },
+};
+
 const patchProfileSchema = {
   body: {
     type: "object",
@@ -95,6 +126,7 @@ const patchProfileSchema = {
           reduceAnimations: { type: "boolean" },
           language: { type: "string", enum: ["hi", "pa", "none"] },
           dateFormat: { type: "string", enum: ["DD/MM/YYYY", "YYYY-MM-DD"] },
+          notifications: notificationPreferencesSchema,
         },
       },
       verification: {
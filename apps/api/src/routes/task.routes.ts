@@ -1,13 +1,19 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import * as tasks from "../tasks";
-import * as applications from "../applications";
-import * as outputs from "../outputs";
-import * as documents from "../documents";
-import { executeTransition } from "../workflow";
-import { getAuthUserId, send400, send403 } from "../errors";
+import { finalizeDisposal, isDecisionState } from "../disposal";
+import { getEscalatedTasksForOfficer } from "../sla-escalation";
+import {
+  createDelegation,
+  getDelegation,
+  isSupervisorInAuthority,
+  listDelegations,
+  revokeDelegation,
+} from "../task-delegation";
+import { getAuthUserId, send400, send403, send404 } from "../errors";
 import { requireAuthorityStaffAccess } from "../route-access";
+import { deleteInboxView, listInboxViews, saveInboxView, type InboxViewInput } from "../inbox-views";
 import { isFeatureEnabled } from "../feature-flags";
-import { MFA_PURPOSE_TASK_DECISION, verifyMfaChallenge } from "../mfa-stepup";
+import { MFA_PURPOSE_BULK_TASK_DECISION, MFA_PURPOSE_TASK_DECISION, verifyMfaChallenge } from "../mfa-stepup";
 
 async function isOfficerDecisionMfaRequired(
   userId: string,
@@ -30,6 +36,15 @@ function isDecisionAction(action: "FORWARD" | "QUERY" | "APPROVE" | "REJECT"): b
   return action === "APPROVE" || action === "REJECT";
 }
 
+const MFA_ERROR_CODES: Record<string, string> = {
+  CHALLENGE_NOT_FOUND: "MFA_CHALLENGE_INVALID",
+  CHALLENGE_EXPIRED: "MFA_CHALLENGE_EXPIRED",
+  CHALLENGE_ALREADY_USED: "MFA_CHALLENGE_ALREADY_USED",
+  CHALLENGE_LOCKED: "MFA_CHALLENGE_LOCKED",
+  TASK_MISMATCH: "MFA_CHALLENGE_INVALID",
+  INVALID_CODE: "MFA_CODE_INVALID",
+};
+
 const taskActionSchema = {
   params: {
     type: "object",
@@ -57,6 +72,28 @@ const taskActionSchema = {
   },
 };
 
+// Queries need a message per application, so only these run in bulk
+const taskBulkActionSchema = {
+  body: {
+    type: "object",
+    required: ["taskIds", "action"],
+    additionalProperties: false,
+    properties: {
+      taskIds: {
+        type: "array",
+        minItems: 1,
+        maxItems: tasks.MAX_BULK_TASK_ACTIONS,
+        uniqueItems: true,
+        items: { type: "string", minLength: 1 },
+      },
+      action: { type: "string", enum: ["FORWARD", "APPROVE", "REJECT"] },
+      remarks: { type: "string" },
+      mfaChallengeId: { type: "string", minLength: 1 },
+      mfaCode: { type: "string", pattern: "^\\d{6}$" },
+    },
+  },
+};
+
 const taskAssignSchema = {
   params: {
     type: "object",
@@ -89,17 +126,209 @@ const taskInboxSchema = {
       status: { type: "string", minLength: 1 },
       limit: { type: "string", pattern: "^(0|[1-9][0-9]*)$" },
       offset: { type: "string", pattern: "^(0|[1-9][0-9]*)$" },
+      serviceKey: { type: "string", minLength: 1 },
+      stateId: { type: "string", minLength: 1 },
+      slaBucket: { type: "string", enum: [...tasks.INBOX_SLA_BUCKETS] },
+      applicantName: { type: "string", minLength: 1, maxLength: 200 },
+      locality: { type: "string", minLength: 1, maxLength: 200 },
+      assignedToMe: { type: "string", enum: ["true", "false"] },
+      sortBy: { type: "string", enum: [...tasks.INBOX_SORT_KEYS] },
+      sortDir: { type: "string", enum: ["asc", "desc"] },
+      userId: { type: "string", minLength: 1 }, // test-mode fallback only
+    },
+  },
+};
+
+const inboxViewBody = {
+  type: "object",
+  required: ["name", "filters"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 100 },
+    filters: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        serviceKey: { type: "string", minLength: 1 },
+        stateId: { type: "string", minLength: 1 },
+        slaBucket: { type: "string", enum: [...tasks.INBOX_SLA_BUCKETS] },
+        applicantName: { type: "string", minLength: 1, maxLength: 200 },
+        locality: { type: "string", minLength: 1, maxLength: 200 },
+        assignedToMe: { type: "boolean" },
+      },
+    },
+    sort: {
+      type: "object",
+      required: ["key", "direction"],
+      additionalProperties: false,
+      properties: {
+        key: { type: "string", enum: [...tasks.INBOX_SORT_KEYS] },
+        direction: { type: "string", enum: ["asc", "desc"] },
+      },
+    },
+    isDefault: { type: "boolean" },
+  },
+};
+
+const inboxViewParamsSchema = {
+  type: "object",
+  required: ["viewId"],
+  additionalProperties: false,
+  properties: {
+    viewId: { type: "string", minLength: 1 },
+  },
+};
+
+const inboxViewListSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
       userId: { type: "string", minLength: 1 }, // test-mode fallback only
     },
   },
 };
 
+const inboxViewCreateSchema = { body: inboxViewBody };
+
+const inboxViewUpdateSchema = { params: inboxViewParamsSchema, body: inboxViewBody };
+
+const inboxViewDeleteSchema = {
+  params: inboxViewParamsSchema,
+  body: {
+    anyOf: [
+      { type: "object", additionalProperties: false, properties: {} },
+      { type: "null" },
+    ],
+  },
+};
+
+const taskEscalatedSchema = {
+  querystring: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      limit: { type: "integer", minimum: 1, maximum: 200 },
+      offset: { type: "integer", minimum: 0 },
+    },
+  },
+};
+
+const taskIdParamsSchema = {
+  type: "object",
+  required: ["taskId"],
+  additionalProperties: false,
+  properties: {
+    taskId: { type: "string", minLength: 1 },
+  },
+};
+
+const taskReleaseSchema = {
+  params: taskIdParamsSchema,
+  body: {
+    anyOf: [
+      {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          remarks: { type: "string" },
+        },
+      },
+      { type: "null" },
+    ],
+  },
+};
+
+const taskReassignSchema = {
+  params: taskIdParamsSchema,
+  body: {
+    type: "object",
+    required: ["reason"],
+    additionalProperties: false,
+    properties: {
+      // Omit to return the task to its role pool
+      targetUserId: { type: "string", minLength: 1 },
+      reason: { type: "string", minLength: 1 },
+    },
+  },
+};
+
+const taskEligibleAssigneesSchema = {
+  params: taskIdParamsSchema,
+};
+
+const delegationListSchema = {
+  querystring: {
+    type: "object",
+    required: ["authorityId"],
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+    },
+  },
+};
+
+const delegationCreateSchema = {
+  body: {
+    type: "object",
+    required: ["authorityId", "delegateUserId", "validFrom", "validTo"],
+    additionalProperties: false,
+    properties: {
+      authorityId: { type: "string", minLength: 1 },
+      // Defaults to the caller; delegating for someone else requires supervision
+      delegatorUserId: { type: "string", minLength: 1 },
+      delegateUserId: { type: "string", minLength: 1 },
+      validFrom: { type: "string", format: "date-time" },
+      validTo: { type: "string", format: "date-time" },
+      reason: { type: "string" },
+    },
+  },
+};
+
+const delegationRevokeSchema = {
+  params: {
+    type: "object",
+    required: ["delegationId"],
+    additionalProperties: false,
+    properties: {
+      delegationId: { type: "string", minLength: 1 },
+    },
+  },
+  body: {
+    anyOf: [
+      { type: "object", additionalProperties: false, properties: {} },
+      { type: "null" },
+    ],
+  },
+};
+
+/** Saved inbox views belong to officers and admins; citizens have no inbox. */
+function rejectCitizenInboxViews(request: FastifyRequest, reply: FastifyReply): boolean {
+  if (request.authUser?.userType !== "CITIZEN") return false;
+  send403(reply, "FORBIDDEN", "Inbox views are available to officers only");
+  return true;
+}
+
 export async function registerTaskRoutes(app: FastifyInstance) {
   app.get("/api/v1/tasks/inbox", { schema: taskInboxSchema }, async (request, reply) => {
     // H1: Derive userId from JWT token
     const userId = getAuthUserId(request, "userId");
     if (!userId) return send400(reply, "USER_ID_REQUIRED");
-    const q = request.query as { authorityId?: string; status?: string; limit?: string; offset?: string };
+    const q = request.query as {
+      authorityId?: string;
+      status?: string;
+      limit?: string;
+      offset?: string;
+      serviceKey?: string;
+      stateId?: string;
+      slaBucket?: tasks.InboxSlaBucket;
+      applicantName?: string;
+      locality?: string;
+      assignedToMe?: string;
+      sortBy?: tasks.InboxSortKey;
+      sortDir?: "asc" | "desc";
+    };
     if (request.authUser?.userType === "OFFICER") {
       const officerAuthorities = Array.from(
         new Set(
@@ -127,8 +356,82 @@ export async function registerTaskRoutes(app: FastifyInstance) {
     }
     const limit = Math.min(parseInt(q.limit || "100", 10), 200);
     const offset = parseInt(q.offset || "0", 10);
-    const inboxTasks = await tasks.getInboxTasks(userId, q.authorityId, q.status || "PENDING", limit, offset);
-    return { tasks: inboxTasks, total: inboxTasks.length };
+    const filters: tasks.InboxFilters = {
+      serviceKey: q.serviceKey,
+      stateId: q.stateId,
+      slaBucket: q.slaBucket,
+      applicantName: q.applicantName,
+      locality: q.locality,
+      assignedToMe: q.assignedToMe === "true",
+    };
+    const sort: tasks.InboxSort = q.sortBy
+      ? { key: q.sortBy, direction: q.sortDir || "asc" }
+      : tasks.DEFAULT_INBOX_SORT;
+    const page = await tasks.getInboxTasks(
+      userId,
+      q.authorityId,
+      q.status || "PENDING",
+      limit,
+      offset,
+      filters,
+      sort
+    );
+    return { tasks: page.tasks, total: page.total, limit, offset };
+  });
+
+  app.get("/api/v1/tasks/inbox/views", { schema: inboxViewListSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    if (rejectCitizenInboxViews(request, reply)) return;
+    const views = await listInboxViews(userId);
+    return { views };
+  });
+
+  app.post("/api/v1/tasks/inbox/views", { schema: inboxViewCreateSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    if (rejectCitizenInboxViews(request, reply)) return;
+    const result = await saveInboxView(userId, request.body as InboxViewInput);
+    if (!result.view) return send400(reply, result.error || "INBOX_VIEW_SAVE_FAILED");
+    reply.code(201);
+    return { view: result.view };
+  });
+
+  app.put("/api/v1/tasks/inbox/views/:viewId", { schema: inboxViewUpdateSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    if (rejectCitizenInboxViews(request, reply)) return;
+    const params = request.params as { viewId: string };
+    const result = await saveInboxView(userId, request.body as InboxViewInput, params.viewId);
+    if (result.error === "INBOX_VIEW_NOT_FOUND") return send404(reply, result.error);
+    if (!result.view) return send400(reply, result.error || "INBOX_VIEW_SAVE_FAILED");
+    return { view: result.view };
+  });
+
+  app.delete("/api/v1/tasks/inbox/views/:viewId", { schema: inboxViewDeleteSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    if (rejectCitizenInboxViews(request, reply)) return;
+    const params = request.params as { viewId: string };
+    const deleted = await deleteInboxView(userId, params.viewId);
+    if (!deleted) return send404(reply, "INBOX_VIEW_NOT_FOUND");
+    return { success: true };
+  });
+
+  app.get("/api/v1/tasks/escalated", { schema: taskEscalatedSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    const q = request.query as { authorityId?: string; limit?: number; offset?: number };
+    if (q.authorityId) {
+      const allowed = requireAuthorityStaffAccess(
+        request,
+        reply,
+        q.authorityId,
+        "You are not allowed to access escalated tasks in this authority"
+      );
+      if (!allowed) return;
+    }
+    return getEscalatedTasksForOfficer(userId, q.authorityId, q.limit ?? 100, q.offset ?? 0);
   });
 
   app.post("/api/v1/tasks/:taskId/assign", { schema: taskAssignSchema }, async (request, reply) => {
@@ -148,6 +451,137 @@ export async function registerTaskRoutes(app: FastifyInstance) {
     }
   });
 
+  app.post("/api/v1/tasks/:taskId/release", { schema: taskReleaseSchema }, async (request, reply) => {
+    const params = request.params as { taskId: string };
+    const body = (request.body || {}) as { remarks?: string };
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    const result = await tasks.releaseTask(params.taskId, userId, body.remarks);
+    if (!result.success) return send400(reply, result.error || "RELEASE_FAILED");
+    return { success: true };
+  });
+
+  app.get(
+    "/api/v1/tasks/:taskId/eligible-assignees",
+    { schema: taskEligibleAssigneesSchema },
+    async (request, reply) => {
+      const params = request.params as { taskId: string };
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) return send400(reply, "USER_ID_REQUIRED");
+      if (request.authUser?.userType !== "ADMIN") {
+        const supervisorCheck = await tasks.validateSupervisorForTask(userId, params.taskId);
+        if (!supervisorCheck.authorized) {
+          return send403(reply, "FORBIDDEN", supervisorCheck.error);
+        }
+      }
+      const assignees = await tasks.getEligibleAssignees(params.taskId);
+      return { assignees };
+    }
+  );
+
+  app.post("/api/v1/tasks/:taskId/reassign", { schema: taskReassignSchema }, async (request, reply) => {
+    const params = request.params as { taskId: string };
+    const body = request.body as { targetUserId?: string; reason: string };
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    if (request.authUser?.userType !== "ADMIN") {
+      const supervisorCheck = await tasks.validateSupervisorForTask(userId, params.taskId);
+      if (!supervisorCheck.authorized) {
+        return send403(reply, "FORBIDDEN", supervisorCheck.error);
+      }
+    }
+    const result = await tasks.reassignTask(params.taskId, userId, body.targetUserId, body.reason);
+    if (!result.success) return send400(reply, result.error || "REASSIGN_FAILED");
+    return { success: true };
+  });
+
+  app.get("/api/v1/tasks/delegations", { schema: delegationListSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    const q = request.query as { authorityId: string };
+    const allowed = requireAuthorityStaffAccess(
+      request,
+      reply,
+      q.authorityId,
+      "You are not allowed to view delegations in this authority"
+    );
+    if (!allowed) return;
+    const supervises =
+      request.authUser?.userType === "ADMIN" ||
+      isSupervisorInAuthority(request.authUser?.postings || [], q.authorityId);
+    const delegations = await listDelegations(q.authorityId, supervises ? undefined : userId);
+    return { delegations, canManageOthers: supervises };
+  });
+
+  app.post("/api/v1/tasks/delegations", { schema: delegationCreateSchema }, async (request, reply) => {
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+    const body = request.body as {
+      authorityId: string;
+      delegatorUserId?: string;
+      delegateUserId: string;
+      validFrom: string;
+      validTo: string;
+      reason?: string;
+    };
+    const allowed = requireAuthorityStaffAccess(
+      request,
+      reply,
+      body.authorityId,
+      "You are not allowed to manage delegations in this authority"
+    );
+    if (!allowed) return;
+    const delegatorUserId = body.delegatorUserId || userId;
+    if (
+      delegatorUserId !== userId &&
+      request.authUser?.userType !== "ADMIN" &&
+      !isSupervisorInAuthority(request.authUser?.postings || [], body.authorityId)
+    ) {
+      return send403(reply, "FORBIDDEN", "SUPERVISOR_ROLE_REQUIRED");
+    }
+    const result = await createDelegation({
+      authorityId: body.authorityId,
+      delegatorUserId,
+      delegateUserId: body.delegateUserId,
+      validFrom: new Date(body.validFrom),
+      validTo: new Date(body.validTo),
+      reason: body.reason,
+      createdBy: userId,
+    });
+    if (!result.delegation) return send400(reply, result.error || "DELEGATION_FAILED");
+    reply.code(201);
+    return { delegation: result.delegation };
+  });
+
+  app.post(
+    "/api/v1/tasks/delegations/:delegationId/revoke",
+    { schema: delegationRevokeSchema },
+    async (request, reply) => {
+      const userId = getAuthUserId(request, "userId");
+      if (!userId) return send400(reply, "USER_ID_REQUIRED");
+      const params = request.params as { delegationId: string };
+      const delegation = await getDelegation(params.delegationId);
+      if (!delegation) return send404(reply, "DELEGATION_NOT_FOUND");
+      const allowed = requireAuthorityStaffAccess(
+        request,
+        reply,
+        delegation.authority_id,
+        "You are not allowed to manage delegations in this authority"
+      );
+      if (!allowed) return;
+      if (
+        delegation.delegator_user_id !== userId &&
+        request.authUser?.userType !== "ADMIN" &&
+        !isSupervisorInAuthority(request.authUser?.postings || [], delegation.authority_id)
+      ) {
+        return send403(reply, "FORBIDDEN", "SUPERVISOR_ROLE_REQUIRED");
+      }
+      const result = await revokeDelegation(params.delegationId, userId);
+      if (!result.success) return send400(reply, result.error || "REVOKE_FAILED");
+      return { success: true };
+    }
+  );
+
   app.post("/api/v1/tasks/:taskId/actions", { schema: taskActionSchema }, async (request, reply) => {
     const params = request.params as { taskId: string };
     const body = request.body as {
@@ -186,16 +620,7 @@ export async function registerTaskRoutes(app: FastifyInstance) {
         taskId: params.taskId,
       });
       if (!mfaResult.ok) {
-        const code = mfaResult.error || "INVALID_CODE";
-        const errorMap: Record<string, string> = {
-          CHALLENGE_NOT_FOUND: "MFA_CHALLENGE_INVALID",
-          CHALLENGE_EXPIRED: "MFA_CHALLENGE_EXPIRED",
-          CHALLENGE_ALREADY_USED: "MFA_CHALLENGE_ALREADY_USED",
-          CHALLENGE_LOCKED: "MFA_CHALLENGE_LOCKED",
-          TASK_MISMATCH: "MFA_CHALLENGE_INVALID",
-          INVALID_CODE: "MFA_CODE_INVALID",
-        };
-        return send403(reply, errorMap[code] || "MFA_VERIFICATION_FAILED");
+        return send403(reply, MFA_ERROR_CODES[mfaResult.error || "INVALID_CODE"] || "MFA_VERIFICATION_FAILED");
       }
     }
     try {
@@ -205,67 +630,110 @@ export async function registerTaskRoutes(app: FastifyInstance) {
         body.verificationData
       );
       if (!result.success) {
+        if (result.error === "GUARD_FAILED") {
+          return {
+            ...send400(
+              reply,
+              "GUARD_FAILED",
+              `Transition blocked by: ${(result.failedGuards || []).map((guard) => guard.ruleId).join(", ")}`
+            ),
+            failedGuards: result.failedGuards || [],
+          };
+        }
         return send400(reply, result.error || "ACTION_FAILED");
       }
-      if (result.arn && (result.newStateId === "APPROVED" || result.newStateId === "REJECTED")) {
-        const appRecord = await applications.getApplication(result.arn);
-        if (appRecord) {
-          const decision = result.newStateId === "APPROVED" ? "APPROVED" : "REJECTED";
-          let resolvedOutputAction: string | null = result.outputAction || null;
-          let templateId = outputs.templateIdFromOutputAction(resolvedOutputAction);
-          if (!templateId) {
-            const resolved = await outputs.resolveTemplateIdForDecisionState(
-              appRecord.service_key,
-              appRecord.service_version,
-              decision
-            );
-            templateId = resolved.templateId;
-            resolvedOutputAction = resolved.outputAction;
-          }
-          try {
-            if (templateId) {
-              const outputRecord = await outputs.generateOutput(appRecord.arn, templateId, appRecord.service_key);
-              // Issue document to citizen's locker
-              try {
-                if (appRecord.applicant_user_id && outputRecord.storage_key) {
-                  const basename = outputRecord.storage_key.split("/").pop() || "certificate.pdf";
-                  await documents.issueCitizenDocument(
-                    appRecord.applicant_user_id,
-                    `output_${appRecord.service_key}`,
-                    outputRecord.storage_key,
-                    basename,
-                    "application/pdf",
-                    0,
-                    appRecord.public_arn || appRecord.arn,
-                    outputRecord.valid_from ? outputRecord.valid_from.toISOString().split("T")[0] : null,
-                    outputRecord.valid_to ? outputRecord.valid_to.toISOString().split("T")[0] : null
-                  );
-                }
-              } catch (e) { request.log.warn(e, "Issuing document to locker failed"); }
-            } else {
-              request.log.warn(
-                {
-                  arn: appRecord.arn,
-                  serviceKey: appRecord.service_key,
-                  decision,
-                  outputAction: resolvedOutputAction,
-                },
-                "Skipping output generation: no workflow output action resolved"
-              );
-            }
-          } catch (e) { request.log.warn(e, "Output generation failed"); }
-          const closeTx = result.newStateId === "APPROVED" ? "CLOSE_APPROVED" : "CLOSE_REJECTED";
-          try {
-            const closeResult = await executeTransition(appRecord.arn, closeTx, "system", "SYSTEM", []);
-            if (!closeResult.success && closeResult.error !== "TRANSITION_NOT_FOUND") {
-              request.log.warn({ error: closeResult.error }, "Close transition failed");
-            }
-          } catch (e) { request.log.warn(e, "Close transition failed"); }
-        }
+      if (result.arn && isDecisionState(result.newStateId)) {
+        await finalizeDisposal(result.arn, result.newStateId);
       }
       return { success: true, newStateId: result.newStateId, arn: result.arn };
     } catch (error: any) {
       return send400(reply, error.message);
     }
   });
+
+  // Bulk inbox action: one MFA step-up for the batch, then each task's
+  // transition runs on its own so one failure does not block the rest.
+  app.post("/api/v1/tasks/bulk-actions", { schema: taskBulkActionSchema }, async (request, reply) => {
+    const body = request.body as {
+      taskIds: string[];
+      action: "FORWARD" | "APPROVE" | "REJECT";
+      remarks?: string;
+      mfaChallengeId?: string;
+      mfaCode?: string;
+    };
+    const userId = getAuthUserId(request, "userId");
+    if (!userId) return send400(reply, "USER_ID_REQUIRED");
+
+    const results = new Map<string, tasks.BulkTaskActionResult>();
+    const authorized: Array<{ taskId: string; systemRoles: string[]; authorityId?: string }> = [];
+    for (const taskId of body.taskIds) {
+      const rbacCheck = await tasks.validateOfficerCanActOnTask(userId, taskId);
+      if (rbacCheck.authorized) {
+        authorized.push({ taskId, systemRoles: rbacCheck.systemRoles, authorityId: rbacCheck.authorityId });
+      } else {
+        results.set(taskId, { taskId, success: false, error: rbacCheck.error || "FORBIDDEN" });
+      }
+    }
+
+    let mfaRequired = false;
+    if (request.authUser?.userType === "OFFICER" && isDecisionAction(body.action)) {
+      for (const task of authorized) {
+        if (await isOfficerDecisionMfaRequired(userId, task.authorityId, task.systemRoles)) {
+          mfaRequired = true;
+          break;
+        }
+      }
+    }
+    if (mfaRequired) {
+      if (!body.mfaChallengeId || !body.mfaCode) {
+        return send403(
+          reply,
+          "MFA_REQUIRED",
+          "MFA verification is required for approval and rejection actions"
+        );
+      }
+      const mfaResult = await verifyMfaChallenge({
+        challengeId: body.mfaChallengeId,
+        userId,
+        purpose: MFA_PURPOSE_BULK_TASK_DECISION,
+        code: body.mfaCode,
+        taskIds: authorized.map((task) => task.taskId),
+      });
+      if (!mfaResult.ok) {
+        return send403(reply, MFA_ERROR_CODES[mfaResult.error || "INVALID_CODE"] || "MFA_VERIFICATION_FAILED");
+      }
+    }
+
+    for (const task of authorized) {
+      try {
+        const result = await tasks.takeActionOnTask(task.taskId, body.action, userId, task.systemRoles, body.remarks);
+        if (!result.success) {
+          results.set(task.taskId, {
+            taskId: task.taskId,
+            success: false,
+            arn: result.arn,
+            error: result.error || "ACTION_FAILED",
+            ...(result.failedGuards ? { failedGuards: result.failedGuards } : {}),
+          });
+          continue;
+        }
+        if (result.arn && isDecisionState(result.newStateId)) {
+          await finalizeDisposal(result.arn, result.newStateId);
+        }
+        results.set(task.taskId, { taskId: task.taskId, success: true, arn: result.arn, newStateId: result.newStateId });
+      } catch (error: any) {
+        results.set(task.taskId, { taskId: task.taskId, success: false, error: error?.message || "ACTION_FAILED" });
+      }
+    }
+
+    const report = body.taskIds.map((taskId) => results.get(taskId)!);
+    const succeeded = report.filter((result) => result.success).length;
+    return {
+      action: body.action,
+      total: report.length,
+      succeeded,
+      failed: report.length - succeeded,
+      results: report,
+    };
+  });
 }
@@ -0,0 +1,92 @@
+/**
+ * Minimal JSON-logic evaluator for service-pack rules.json.
+ *
+ * Shared by conditional-document checks at submission and by workflow
+ * transition guards. Only the operators used by service packs are supported;
+ * unknown operators evaluate to false so a misconfigured rule never passes.
+ */
+
+export type RuleDefinition = {
+  ruleId: string;
+  description?: string;
+  logic: any;
+};
+
+function getVarValue(context: any, path: string | undefined, defaultValue?: any): any {
+  if (!path) return defaultValue;
+  const parts = path.split(".");
+  let current = context;
+  for (const part of parts) {
+    if (current == null) return defaultValue;
+    current = current[part];
+  }
+  return current === undefined ? defaultValue : current;
+}
+
+export function evaluateLogic(logic: any, context: any): any {
+  if (logic === null || logic === undefined) return logic;
+  if (Array.isArray(logic)) {
+    return logic.map((item) => evaluateLogic(item, context));
+  }
+  if (typeof logic !== "object") {
+    return logic;
+  }
+  const entries = Object.entries(logic);
+  if (entries.length === 0) return false;
+  const [op, value] = entries[0];
+  switch (op) {
+    case "var": {
+      if (Array.isArray(value)) {
+        return getVarValue(context, value[0], value[1]);
+      }
+      return getVarValue(context, value as string);
+    }
+    case "==": {
+      const [a, b] = value as any[];
+      return evaluateLogic(a, context) == evaluateLogic(b, context);
+    }
+    case "!=": {
+      const [a, b] = value as any[];
+      return evaluateLogic(a, context) != evaluateLogic(b, context);
+    }
+    case ">":
+    case ">=":
+    case "<":
+    case "<=": {
+      const [a, b] = (value as any[]).map((v) => evaluateLogic(v, context));
+      if (a === null || a === undefined || b === null || b === undefined) return false;
+      if (op === ">") return a > b;
+      if (op === ">=") return a >= b;
+      if (op === "<") return a < b;
+      return a <= b;
+    }
+    case "in": {
+      const [needle, haystack] = (value as any[]).map((v) => evaluateLogic(v, context));
+      if (Array.isArray(haystack) || typeof haystack === "string") {
+        return haystack.includes(needle);
+      }
+      return false;
+    }
+    case "and": {
+      const list = (value as any[]).map((v) => evaluateLogic(v, context));
+      for (const item of list) {
+        if (!item) return item;
+      }
+      return list[list.length - 1];
+    }
+    case "or": {
+      const list = (value as any[]).map((v) => evaluateLogic(v, context));
+      for (const item of list) {
+        if (item) return item;
+      }
+      return list[list.length - 1];
+    }
+    case "not":
+    case "!":
+      return !evaluateLogic(Array.isArray(value) ? value[0] : value, context);
+    case "!!":
+      return Boolean(evaluateLogic(Array.isArray(value) ? value[0] : value, context));
+    default:
+      return false;
+  }
+}
@@ -84,6 +84,20 @@ describe("runtime adapter preflight", () => {
     expect(() => runRuntimeAdapterPreflightOrThrow(env)).not.toThrow();
   });
 
+  it("requires a gateway URL for the HTTP SMS provider and warns without a callback secret", () => {
+    const result = evaluateRuntimeAdapterPreflight(
+      envFixture({
+        NODE_ENV: "production",
+        PAYMENT_GATEWAY_WEBHOOK_SECRET: "webhook-secret",
+        ALLOW_STUB_PAYMENT_PROVIDER_IN_PRODUCTION: "true",
+        SMS_PROVIDER: "http",
+        SMS_ENABLED: "true",
+      })
+    );
+    expect(result.errors.map((issue) => issue.code)).toEqual(["MISSING_SMS_GATEWAY_URL"]);
+    expect(result.warnings.some((issue) => issue.code === "MISSING_NOTIFICATION_CALLBACK_SECRET")).toBe(true);
+  });
+
   it("emits warnings in non-production when MFA relies on stub providers", () => {
     const result = evaluateRuntimeAdapterPreflight(
       envFixture({
@@ -15,7 +15,7 @@ type EnvMap = NodeJS.ProcessEnv;
 
 const PAYMENT_PROVIDERS = new Set(["stub", "razorpay"]);
 const EMAIL_PROVIDERS = new Set(["stub", "smtp"]);
-const SMS_PROVIDERS = new Set(["stub"]);
+const SMS_PROVIDERS = new Set(["stub", "http"]);
 const MFA_CHANNELS = new Set(["sms", "email"]);
 
 function normalize(value: string | undefined, fallback = ""): string {
@@ -104,7 +104,7 @@ export function evaluateRuntimeAdapterPreflight(env: EnvMap = process.env): Runt
       result,
       "error",
       "UNKNOWN_SMS_PROVIDER",
-      `Unsupported SMS_PROVIDER=${smsProvider}. Supported: stub`
+      `Unsupported SMS_PROVIDER=${smsProvider}. Supported: stub, http`
     );
   }
 
@@ -140,6 +140,19 @@ export function evaluateRuntimeAdapterPreflight(env: EnvMap = process.env): Runt
     requirePair(result.errors, env, "SMTP_USER", "SMTP_PASS");
   }
 
+  if (smsProvider === "http" && !normalize(env.SMS_GATEWAY_URL)) {
+    addIssue(result, "error", "MISSING_SMS_GATEWAY_URL", "SMS_GATEWAY_URL is required when SMS_PROVIDER=http");
+  }
+
+  if (production && (smsProvider === "http" || emailProvider === "smtp") && !normalize(env.NOTIFICATION_CALLBACK_SECRET)) {
+    addIssue(
+      result,
+      "warning",
+      "MISSING_NOTIFICATION_CALLBACK_SECRET",
+      "NOTIFICATION_CALLBACK_SECRET is not set; SMS/email delivery callbacks will be refused and notifications stay at SENT"
+    );
+  }
+
   for (const channel of mfaChannels) {
     if (!MFA_CHANNELS.has(channel)) {
       addIssue(
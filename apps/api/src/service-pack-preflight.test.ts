@@ -92,6 +92,37 @@ unexpectedKey: true
     await expect(buildApp(false)).rejects.toThrow(/unsupported type "richtext"/);
   });
 
+  it("buildApp fails when workflow.json has an unreachable state", async () => {
+    const originalReadFile = fs.readFile.bind(fs);
+    const targetWorkflowPath = path.resolve(
+      __dirname,
+      "..",
+      "..",
+      "..",
+      "service-packs",
+      "no_due_certificate",
+      "workflow.json"
+    );
+
+    vi.spyOn(fs, "readFile").mockImplementation(async (filePath, options) => {
+      const resolvedPath = path.resolve(String(filePath));
+      if (resolvedPath === targetWorkflowPath) {
+        const workflow = JSON.parse(String(await originalReadFile(filePath, "utf-8")));
+        workflow.states.push({
+          stateId: "PENDING_AT_NOBODY",
+          type: "TASK",
+          taskRequired: true,
+          systemRoleId: "CLERK",
+        });
+        return JSON.stringify(workflow);
+      }
+      return originalReadFile(filePath, options as any);
+    });
+
+    await expect(buildApp(false)).rejects.toThrow(/SERVICE_PACK_PREFLIGHT_FAILED/);
+    await expect(buildApp(false)).rejects.toThrow(/UNREACHABLE_STATE: state PENDING_AT_NOBODY/);
+  });
+
   it("buildApp succeeds with all valid field types", async () => {
     // No mocks — validates the real service packs in the repo.
     // If this fails, a form.json was committed with an unsupported field type.
@@ -2,6 +2,10 @@ import { promises as fs } from "fs";
 import path from "path";
 import { applySharedFormSections } from "./service-pack-shared";
 import { parseServiceMetadataYaml, ServiceMetadata } from "./service-metadata";
+import { lintWorkflow } from "./workflow-lint";
+import { lintNotificationsConfig } from "./notification-routing";
+import { lintFeeSchedule } from "./fee-formula";
+import type { WorkflowConfig } from "./workflow";
 
 type ServiceSummary = ServiceMetadata;
 
@@ -101,6 +105,86 @@ export async function validateAllServicePackForms(): Promise<void> {
   }
 }
 
+/** Read an optional JSON file (e.g. rules.json, notifications.json) from a service pack. */
+export async function readServicePackJson(serviceKey: string, fileName: string): Promise<unknown | undefined> {
+  return readOptionalJson(path.join(servicePackRoot, serviceKey, fileName));
+}
+
+async function listTemplateIds(pack: string): Promise<Set<string>> {
+  try {
+    const files = await fs.readdir(path.join(servicePackRoot, pack, "templates"));
+    return new Set(files.filter((file) => file.endsWith(".html")).map((file) => file.slice(0, -".html".length)));
+  } catch (error) {
+    if (isErrnoException(error) && error.code === "ENOENT") {
+      return new Set();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lint every workflow.json (reachability, dead ends, roles, duplicate actions,
+ * close transitions, output templates). Called at boot-time preflight so a
+ * broken graph fails the deploy instead of stranding applications.
+ */
+export async function validateAllServicePackWorkflows(): Promise<void> {
+  const entries = await fs.readdir(servicePackRoot, { withFileTypes: true });
+  const packs = entries
+    .filter((e) => e.isDirectory() && !IGNORED_SERVICE_PACK_DIRECTORIES.has(e.name))
+    .map((e) => e.name);
+
+  for (const pack of packs) {
+    const workflow = await readOptionalJson(path.join(servicePackRoot, pack, "workflow.json"));
+    if (workflow === undefined) continue;
+    const issues = lintWorkflow(workflow as WorkflowConfig, await listTemplateIds(pack));
+    if (issues.length > 0) {
+      throw new Error(
+        `[SERVICE_PACK_INVALID] ${pack}/workflow.json: ${issues.map((issue) => `${issue.code}: ${issue.message}`).join("; ")}`
+      );
+    }
+  }
+}
+
+/**
+ * Check every notifications.json names known channels and recipients, so a
+ * typo does not silently drop a notification at runtime.
+ */
+export async function validateAllServicePackNotifications(): Promise<void> {
+  const entries = await fs.readdir(servicePackRoot, { withFileTypes: true });
+  const packs = entries
+    .filter((e) => e.isDirectory() && !IGNORED_SERVICE_PACK_DIRECTORIES.has(e.name))
+    .map((e) => e.name);
+
+  for (const pack of packs) {
+    const notifications = await readOptionalJson(path.join(servicePackRoot, pack, "notifications.json"));
+    if (notifications === undefined) continue;
+    const problems = lintNotificationsConfig(notifications);
+    if (problems.length > 0) {
+      throw new Error(`[SERVICE_PACK_INVALID] ${pack}/notifications.json: ${problems.join("; ")}`);
+    }
+  }
+}
+
+/**
+ * Check every fees.json line is a flat amount or a formula that can be
+ * evaluated, so a bad rate table fails the deploy instead of fee assessment.
+ */
+export async function validateAllServicePackFees(): Promise<void> {
+  const entries = await fs.readdir(servicePackRoot, { withFileTypes: true });
+  const packs = entries
+    .filter((e) => e.isDirectory() && !IGNORED_SERVICE_PACK_DIRECTORIES.has(e.name))
+    .map((e) => e.name);
+
+  for (const pack of packs) {
+    const fees = await readOptionalJson(path.join(servicePackRoot, pack, "fees.json"));
+    if (fees === undefined) continue;
+    const problems = lintFeeSchedule(fees);
+    if (problems.length > 0) {
+      throw new Error(`[SERVICE_PACK_INVALID] ${pack}/fees.json: ${problems.join("; ")}`);
+    }
+  }
+}
+
 export async function loadServicePacks(): Promise<ServiceSummary[]> {
   const now = Date.now();
   if (packsCache && now < packsCache.expiresAt) {
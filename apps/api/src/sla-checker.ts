@@ -9,10 +9,19 @@
 import { getClient, query } from "./db";
 import { v4 as uuidv4 } from "uuid";
 import { logError, logInfo } from "./logger";
+import { processSLAEscalations } from "./sla-escalation";
+import { publishLiveEvent } from "./live-events";
+import {
+  formatNotificationDate,
+  languageFromPreferences,
+  renderNotificationTemplate,
+  resolveNotificationTemplate,
+} from "./notification-templates";
 
 export interface SLABreachResult {
   breachedTasks: number;
   notificationsCreated: number;
+  escalationsApplied: number;
   errors: string[];
 }
 
@@ -20,15 +29,18 @@ export interface SLABreachResult {
  * Check all open tasks for SLA breaches and create notifications.
  */
 export async function detectSLABreaches(): Promise<SLABreachResult> {
-  const result: SLABreachResult = { breachedTasks: 0, notificationsCreated: 0, errors: [] };
+  const result: SLABreachResult = { breachedTasks: 0, notificationsCreated: 0, escalationsApplied: 0, errors: [] };
 
   try {
     // Find tasks that are past SLA but not yet flagged as breached
     const breachedTasksResult = await query(
       `SELECT t.task_id, t.arn, t.state_id, t.system_role_id, t.sla_due_at,
-              a.service_key, a.authority_id, a.applicant_user_id, a.public_arn
+              a.service_key, a.authority_id, a.applicant_user_id, a.public_arn,
+              s.name AS service_name, u.profile_jsonb->'preferences' AS applicant_preferences
        FROM task t
        JOIN application a ON t.arn = a.arn
+       LEFT JOIN service s ON s.service_key = a.service_key
+       LEFT JOIN "user" u ON u.user_id = a.applicant_user_id
        WHERE t.status IN ('PENDING', 'IN_PROGRESS')
          AND t.sla_due_at IS NOT NULL
          AND t.sla_due_at < NOW()
@@ -41,92 +53,132 @@ export async function detectSLABreaches(): Promise<SLABreachResult> {
     );
 
     result.breachedTasks = breachedTasksResult.rows.length;
-    if (result.breachedTasks === 0) return result;
-
-    // PERF-017: Set-based processing — single transaction for all breached tasks
-    const client = await getClient();
-    try {
-      await client.query("BEGIN");
-
-      // Prepare arrays for batch operations
-      const auditIds: string[] = [];
-      const auditArns: string[] = [];
-      const auditPayloads: string[] = [];
-      const notifIds: string[] = [];
-      const notifUserIds: string[] = [];
-      const notifArns: string[] = [];
-      const notifMessages: string[] = [];
-      const taskIds: string[] = [];
-      const breachedAt = new Date().toISOString();
-
-      for (const task of breachedTasksResult.rows) {
-        auditIds.push(uuidv4());
-        auditArns.push(task.arn);
-        auditPayloads.push(JSON.stringify({
-          taskId: task.task_id,
-          stateId: task.state_id,
-          systemRoleId: task.system_role_id,
-          slaDueAt: task.sla_due_at,
-          breachedAt,
-        }));
-        taskIds.push(task.task_id);
-
-        if (task.applicant_user_id) {
-          notifIds.push(uuidv4());
-          notifUserIds.push(task.applicant_user_id);
-          notifArns.push(task.arn);
-          notifMessages.push(
-            `Your application ${task.public_arn || task.arn} has exceeded the expected processing time at ${task.state_id}. The authority has been notified.`
-          );
-        }
-      }
-
-      // Bulk insert audit events
-      await client.query(
-        `INSERT INTO audit_event (event_id, arn, event_type, actor_type, payload_jsonb)
-         SELECT unnest($1::text[]), unnest($2::text[]), 'SLA_BREACHED', 'SYSTEM', unnest($3::jsonb[])`,
-        [auditIds, auditArns, auditPayloads]
-      );
-
-      // Bulk insert notifications
-      if (notifIds.length > 0) {
-        await client.query(
-          `INSERT INTO notification (notification_id, user_id, arn, event_type, title, message, read, created_at)
-           SELECT unnest($1::text[]), unnest($2::text[]), unnest($3::text[]),
-                  'SLA_BREACHED', 'Application SLA Breach', unnest($4::text[]), false, NOW()`,
-          [notifIds, notifUserIds, notifArns, notifMessages]
-        );
-        result.notificationsCreated = notifIds.length;
-      }
-
-      // Bulk update task remarks
-      await client.query(
-        `UPDATE task SET remarks = COALESCE(remarks || '; ', '') || 'SLA_BREACHED at ' || NOW()::text
-         WHERE task_id = ANY($1::text[])`,
-        [taskIds]
-      );
-
-      await client.query("COMMIT");
-    } catch (err: any) {
-      await client.query("ROLLBACK").catch(() => {});
-      result.errors.push(`Set-based SLA processing failed: ${err.message}`);
-    } finally {
-      client.release();
+    if (result.breachedTasks > 0) {
+      await recordNewBreaches(breachedTasksResult.rows, result);
     }
   } catch (err: any) {
     result.errors.push(`SLA check failed: ${err.message}`);
   }
 
+  // Escalation ladders from workflow.json (notify / reassign / raise to head)
+  try {
+    const escalation = await processSLAEscalations();
+    result.escalationsApplied = escalation.escalationsApplied;
+    result.errors.push(...escalation.errors);
+  } catch (err: any) {
+    result.errors.push(`SLA escalation failed: ${err.message}`);
+  }
+
   if (result.breachedTasks > 0) {
     logInfo("SLA breach scan completed", {
       breachedTasks: result.breachedTasks,
       notificationsCreated: result.notificationsCreated,
+      escalationsApplied: result.escalationsApplied,
     });
   }
 
   return result;
 }
 
+/** Record audit events, citizen notifications and task remarks for newly breached tasks. */
+async function recordNewBreaches(breachedTasks: any[], result: SLABreachResult): Promise<void> {
+  // PERF-017: Set-based processing — single transaction for all breached tasks
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+
+    // Prepare arrays for batch operations
+    const auditIds: string[] = [];
+    const auditArns: string[] = [];
+    const auditPayloads: string[] = [];
+    const notifIds: string[] = [];
+    const notifUserIds: string[] = [];
+    const notifArns: string[] = [];
+    const notifTitles: string[] = [];
+    const notifMessages: string[] = [];
+    const taskIds: string[] = [];
+    const breachedAt = new Date().toISOString();
+
+    for (const task of breachedTasks) {
+      auditIds.push(uuidv4());
+      auditArns.push(task.arn);
+      auditPayloads.push(JSON.stringify({
+        taskId: task.task_id,
+        stateId: task.state_id,
+        systemRoleId: task.system_role_id,
+        slaDueAt: task.sla_due_at,
+        breachedAt,
+      }));
+      taskIds.push(task.task_id);
+
+      if (task.applicant_user_id) {
+        const template = await resolveNotificationTemplate(
+          "SLA_BREACHED",
+          languageFromPreferences(task.applicant_preferences)
+        );
+        const rendered = renderNotificationTemplate(template, {
+          arn: task.public_arn || task.arn,
+          serviceName: task.service_name || task.service_key,
+          stage: task.state_id,
+          dueDate: formatNotificationDate(task.sla_due_at),
+        });
+        notifIds.push(uuidv4());
+        notifUserIds.push(task.applicant_user_id);
+        notifArns.push(task.arn);
+        notifTitles.push(rendered.title);
+        notifMessages.push(rendered.body);
+      }
+    }
+
+    // Bulk insert audit events
+    await client.query(
+      `INSERT INTO audit_event (event_id, arn, event_type, actor_type, payload_jsonb)
+       SELECT unnest($1::text[]), unnest($2::text[]), 'SLA_BREACHED', 'SYSTEM', unnest($3::jsonb[])`,
+      [auditIds, auditArns, auditPayloads]
+    );
+
+    // Bulk insert notifications
+    if (notifIds.length > 0) {
+      await client.query(
+        `INSERT INTO notification (notification_id, user_id, arn, event_type, title, message, read, created_at)
+         SELECT unnest($1::text[]), unnest($2::text[]), unnest($3::text[]),
+                'SLA_BREACHED', unnest($4::text[]), unnest($5::text[]), false, NOW()`,
+        [notifIds, notifUserIds, notifArns, notifTitles, notifMessages]
+      );
+      result.notificationsCreated = notifIds.length;
+    }
+
+    // Bulk update task remarks
+    await client.query(
+      `UPDATE task SET remarks = COALESCE(remarks || '; ', '') || 'SLA_BREACHED at ' || NOW()::text
+       WHERE task_id = ANY($1::text[])`,
+      [taskIds]
+    );
+
+    await client.query("COMMIT");
+    for (let i = 0; i < notifIds.length; i += 1) {
+      await publishLiveEvent({
+        type: "notification",
+        data: {
+          notification_id: notifIds[i],
+          arn: notifArns[i],
+          event_type: "SLA_BREACHED",
+          title: notifTitles[i],
+          message: notifMessages[i],
+          read: false,
+          created_at: new Date().toISOString(),
+        },
+        audience: { userIds: [notifUserIds[i]] },
+      });
+    }
+  } catch (err: any) {
+    await client.query("ROLLBACK").catch(() => {});
+    result.errors.push(`Set-based SLA processing failed: ${err.message}`);
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Start periodic SLA breach checking.
  * Default: runs every 30 minutes.
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  rule: null as unknown,
+  taskUpdates: [] as unknown[][],
+  escalations: [] as unknown[][],
+  notified: [] as string[],
+}));
+
+vi.mock("./db", () => {
+  const run = async (text: string, params: unknown[] = []) => {
+    if (text.includes("FROM task t")) {
+      return {
+        rows: [
+          {
+            task_id: "task-1",
+            arn: "ARN-1",
+            state_id: "PENDING_AT_JUNIOR_ENGINEER",
+            system_role_id: "JUNIOR_ENGINEER",
+            assignee_user_id: "je-1",
+            hours_overdue: 200,
+            service_key: "sanction_of_water_supply",
+            service_version: "1.0.0",
+            authority_id: "PUDA",
+            public_arn: "PUDA/2026/1",
+            applied_levels: [1, 2],
+          },
+        ],
+      };
+    }
+    if (text.includes("config_jsonb->'workflow'")) {
+      return { rows: [{ workflow: { states: [{ stateId: "PENDING_AT_JUNIOR_ENGINEER", escalation: [db.rule] }] } }] };
+    }
+    if (text.includes("WITH holder AS")) return { rows: [{ user_id: "sdo-1" }] };
+    if (text.includes("GROUP BY up.user_id")) return { rows: [{ user_id: "eo-1" }, { user_id: "eo-2" }] };
+    if (text.includes("INSERT INTO sla_escalation")) {
+      db.escalations.push(params);
+      return { rows: [{ escalation_id: "esc-1" }] };
+    }
+    if (text.includes("UPDATE task")) {
+      db.taskUpdates.push(params);
+      return { rows: [], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 0 };
+  };
+  return {
+    query: vi.fn(run),
+    getClient: vi.fn(async () => ({ query: vi.fn(run), release: vi.fn() })),
+  };
+});
+vi.mock("./notifications", () => ({
+  notify: vi.fn(async (_event: string, _arn: string, userId: string) => {
+    db.notified.push(userId);
+  }),
+}));
+
+import { processSLAEscalations, selectDueEscalations } from "./sla-escalation";
+import type { EscalationRule } from "./workflow";
+
+const LADDER: EscalationRule[] = [
+  { level: 3, afterHours: 120, action: "RAISE_TO_HEAD", targetSystemRoleId: "ESTATE_OFFICER" },
+  { level: 1, afterHours: 24, action: "NOTIFY" },
+  { level: 2, afterHours: 72, action: "REASSIGN", targetSystemRoleId: "SDO" },
+];
+
+describe("selectDueEscalations", () => {
+  it("returns nothing before the first level is due", () => {
+    expect(selectDueEscalations(LADDER, 10, [])).toEqual([]);
+  });
+
+  it("returns every due level in level order", () => {
+    expect(selectDueEscalations(LADDER, 80, []).map((rule) => rule.level)).toEqual([1, 2]);
+    expect(selectDueEscalations(LADDER, 200, []).map((rule) => rule.level)).toEqual([1, 2, 3]);
+  });
+
+  it("skips levels already applied to the task", () => {
+    expect(selectDueEscalations(LADDER, 200, [1, 2]).map((rule) => rule.level)).toEqual([3]);
+    expect(selectDueEscalations(LADDER, 200, [1, 2, 3])).toEqual([]);
+  });
+
+  it("ignores malformed rules and states without a ladder", () => {
+    const malformed = [
+      { level: 1, afterHours: 1, action: "EMAIL", targetSystemRoleId: "SDO" },
+      { level: 2, afterHours: -5, action: "NOTIFY", targetSystemRoleId: "SDO" },
+      { level: 3, afterHours: 1, action: "REASSIGN", targetSystemRoleId: "" },
+      { level: 4, afterHours: 1, action: "RAISE_TO_HEAD" },
+    ] as unknown as EscalationRule[];
+    expect(selectDueEscalations(malformed, 100, [])).toEqual([]);
+    expect(selectDueEscalations(undefined, 100, [])).toEqual([]);
+  });
+});
+
+describe("processSLAEscalations", () => {
+  beforeEach(() => {
+    db.taskUpdates = [];
+    db.escalations = [];
+    db.notified = [];
+  });
+
+  it("notifies the task holder's reporting officer without moving the task", async () => {
+    db.rule = { level: 3, afterHours: 24, action: "NOTIFY" };
+    const result = await processSLAEscalations();
+
+    expect(result).toMatchObject({ escalationsApplied: 1, tasksReassigned: 0, officersNotified: 1 });
+    expect(db.notified).toEqual(["sdo-1"]);
+    expect(db.taskUpdates).toEqual([]);
+    expect(db.escalations[0][8]).toBeNull();
+  });
+
+  it("assigns the task to the head when raised", async () => {
+    db.rule = { level: 3, afterHours: 120, action: "RAISE_TO_HEAD", targetSystemRoleId: "ESTATE_OFFICER" };
+    const result = await processSLAEscalations();
+
+    expect(result).toMatchObject({ escalationsApplied: 1, tasksReassigned: 1, officersNotified: 1 });
+    expect(db.taskUpdates).toEqual([["ESTATE_OFFICER", "eo-1", "task-1"]]);
+    expect(db.notified).toEqual(["eo-1"]);
+    expect(db.escalations[0][12]).toBe("eo-1");
+  });
+});
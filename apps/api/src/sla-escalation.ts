@@ -0,0 +1,390 @@
+/**
+ * Multi-level SLA escalation.
+ *
+ * A TASK state may declare an `escalation` ladder in workflow.json:
+ *
+ *   "escalation": [
+ *     { "level": 1, "afterHours": 24, "action": "NOTIFY" },
+ *     { "level": 2, "afterHours": 72, "action": "REASSIGN", "targetSystemRoleId": "SDO" },
+ *     { "level": 3, "afterHours": 120, "action": "RAISE_TO_HEAD", "targetSystemRoleId": "ESTATE_OFFICER" }
+ *   ]
+ *
+ * Levels apply once the open task is `afterHours` past its SLA due date.
+ * NOTIFY tells the reporting officers of whoever holds the task (the officers
+ * posted in the designation their designation reports to). REASSIGN moves the
+ * task into the target role's pool and notifies that role. RAISE_TO_HEAD
+ * assigns the task to the officer holding the target (head) role. Applied
+ * levels are recorded in sla_escalation (one row per task + level), which backs
+ * the officer "escalated to me" view.
+ *
+ * Runs as part of detectSLABreaches (the escalate-sla job).
+ */
+import type pg from "pg";
+import { getClient, query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { getUserPostings } from "./auth";
+import { logInfo, logWarn } from "./logger";
+import type { EscalationRule, WorkflowConfig } from "./workflow";
+
+const ESCALATION_ACTIONS: EscalationRule["action"][] = ["NOTIFY", "REASSIGN", "RAISE_TO_HEAD"];
+
+export interface EscalationRunResult {
+  escalationsApplied: number;
+  tasksReassigned: number;
+  officersNotified: number;
+  errors: string[];
+}
+
+export interface EscalatedTask {
+  task_id: string;
+  arn: string;
+  state_id: string;
+  system_role_id: string;
+  assignee_user_id?: string;
+  status: string;
+  sla_due_at?: Date;
+  created_at: Date;
+  service_key: string;
+  authority_id: string;
+  applicant_name?: string;
+  escalation_id: string;
+  escalation_level: number;
+  escalation_action: EscalationRule["action"];
+  from_system_role_id?: string;
+  hours_overdue: number;
+  escalated_at: Date;
+}
+
+/**
+ * Escalation levels that are due for a task and not yet applied, in level order.
+ * Malformed rules (unknown action, REASSIGN/RAISE_TO_HEAD without a target,
+ * negative hours) are ignored.
+ */
+export function selectDueEscalations(
+  rules: EscalationRule[] | undefined,
+  hoursOverdue: number,
+  appliedLevels: number[]
+): EscalationRule[] {
+  if (!Array.isArray(rules) || hoursOverdue < 0) return [];
+  const applied = new Set(appliedLevels.map(Number));
+  return rules
+    .filter(
+      (rule) =>
+        Number.isInteger(rule.level) &&
+        ESCALATION_ACTIONS.includes(rule.action) &&
+        (rule.action === "NOTIFY" || (typeof rule.targetSystemRoleId === "string" && rule.targetSystemRoleId.length > 0)) &&
+        Number.isFinite(rule.afterHours) &&
+        rule.afterHours >= 0
+    )
+    .filter((rule) => !applied.has(rule.level) && rule.afterHours <= hoursOverdue)
+    .sort((a, b) => a.level - b.level);
+}
+
+/**
+ * Officers the task's holder reports to: through the assignee's designations,
+ * or through the designations mapped to the task's role while it sits in a pool.
+ */
+async function findReportingOfficers(
+  client: pg.PoolClient,
+  task: { authority_id: string; system_role_id: string; assignee_user_id: string | null }
+): Promise<string[]> {
+  const result = await client.query(
+    `WITH holder AS (
+       SELECT up.designation_id
+         FROM user_posting up
+        WHERE $3::text IS NOT NULL
+          AND up.user_id = $3 AND up.authority_id = $1
+          AND (up.active_to IS NULL OR up.active_to > NOW())
+       UNION
+       SELECT drm.designation_id
+         FROM designation_role_map drm
+        WHERE $3::text IS NULL
+          AND drm.authority_id = $1 AND drm.system_role_id = $2
+     )
+     SELECT DISTINCT rp.user_id
+       FROM holder h
+       JOIN designation d ON d.designation_id = h.designation_id
+       JOIN user_posting rp
+         ON rp.designation_id = d.reports_to_designation_id AND rp.authority_id = $1
+      WHERE (rp.active_to IS NULL OR rp.active_to > NOW())
+        AND rp.user_id IS DISTINCT FROM $3`,
+    [task.authority_id, task.system_role_id, task.assignee_user_id]
+  );
+  return result.rows.map((row) => row.user_id);
+}
+
+/** Officers posted with a role in the authority, longest-serving first */
+async function findRoleHolders(client: pg.PoolClient, authorityId: string, systemRoleId: string): Promise<string[]> {
+  const result = await client.query(
+    `SELECT up.user_id
+       FROM user_posting up
+       JOIN designation_role_map drm
+         ON drm.authority_id = up.authority_id AND drm.designation_id = up.designation_id
+      WHERE up.authority_id = $1
+        AND drm.system_role_id = $2
+        AND (up.active_to IS NULL OR up.active_to > NOW())
+      GROUP BY up.user_id
+      ORDER BY MIN(up.active_from), up.user_id`,
+    [authorityId, systemRoleId]
+  );
+  return result.rows.map((row) => row.user_id);
+}
+
+async function applyEscalation(
+  task: {
+    task_id: string;
+    arn: string;
+    state_id: string;
+    system_role_id: string;
+    assignee_user_id: string | null;
+    authority_id: string;
+    public_arn: string | null;
+  },
+  rule: EscalationRule,
+  hoursOverdue: number
+): Promise<{ applied: boolean; reassigned: boolean; assignedUserId: string | null; notifyUserIds: string[] }> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+
+    const targetRoleId = rule.action === "NOTIFY" ? null : rule.targetSystemRoleId!;
+    const roleHolders = targetRoleId ? await findRoleHolders(client, task.authority_id, targetRoleId) : [];
+    // The head of the authority is the longest-serving holder of the head role
+    const assignedUserId = rule.action === "RAISE_TO_HEAD" ? roleHolders[0] ?? null : null;
+    const notifyUserIds =
+      rule.action === "NOTIFY"
+        ? await findReportingOfficers(client, task)
+        : rule.action === "RAISE_TO_HEAD"
+          ? (assignedUserId ? [assignedUserId] : roleHolders)
+          : roleHolders;
+
+    const inserted = await client.query(
+      `INSERT INTO sla_escalation
+         (escalation_id, task_id, arn, authority_id, state_id, level, action,
+          from_system_role_id, target_system_role_id, previous_assignee_user_id,
+          hours_overdue, notified_user_ids, assigned_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (task_id, level) DO NOTHING
+       RETURNING escalation_id`,
+      [
+        uuidv4(),
+        task.task_id,
+        task.arn,
+        task.authority_id,
+        task.state_id,
+        rule.level,
+        rule.action,
+        task.system_role_id,
+        targetRoleId,
+        task.assignee_user_id,
+        Math.round(hoursOverdue * 100) / 100,
+        notifyUserIds,
+        assignedUserId,
+      ]
+    );
+    if (inserted.rows.length === 0) {
+      // Another run already applied this level
+      await client.query("ROLLBACK");
+      return { applied: false, reassigned: false, assignedUserId: null, notifyUserIds: [] };
+    }
+
+    let reassigned = false;
+    if (rule.action === "REASSIGN" && targetRoleId !== task.system_role_id) {
+      const update = await client.query(
+        `UPDATE task
+            SET system_role_id = $1, assignee_user_id = NULL, assignment_strategy = NULL, status = 'PENDING', started_at = NULL
+          WHERE task_id = $2 AND status IN ('PENDING', 'IN_PROGRESS')`,
+        [targetRoleId, task.task_id]
+      );
+      reassigned = (update.rowCount || 0) > 0;
+    } else if (rule.action === "RAISE_TO_HEAD" && (targetRoleId !== task.system_role_id || assignedUserId !== task.assignee_user_id)) {
+      // Straight into the head's inbox; into the head role's pool if nobody holds it
+      const update = await client.query(
+        `UPDATE task
+            SET system_role_id = $1, assignee_user_id = $2, assignment_strategy = NULL, status = 'PENDING', started_at = NULL
+          WHERE task_id = $3 AND status IN ('PENDING', 'IN_PROGRESS')`,
+        [targetRoleId, assignedUserId, task.task_id]
+      );
+      reassigned = (update.rowCount || 0) > 0;
+    }
+
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+      [
+        uuidv4(),
+        task.arn,
+        "SLA_ESCALATED",
+        "SYSTEM",
+        "system",
+        JSON.stringify({
+          taskId: task.task_id,
+          stateId: task.state_id,
+          level: rule.level,
+          action: rule.action,
+          fromSystemRoleId: task.system_role_id,
+          targetSystemRoleId: targetRoleId,
+          previousAssigneeUserId: task.assignee_user_id,
+          assignedUserId,
+          notifiedUserIds: notifyUserIds,
+          hoursOverdue: Math.round(hoursOverdue * 100) / 100,
+          reassigned,
+        }),
+      ]
+    );
+
+    await client.query("COMMIT");
+    return { applied: true, reassigned, assignedUserId, notifyUserIds };
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/** Apply every due escalation level to open overdue tasks. */
+export async function processSLAEscalations(): Promise<EscalationRunResult> {
+  const result: EscalationRunResult = { escalationsApplied: 0, tasksReassigned: 0, officersNotified: 0, errors: [] };
+
+  const overdueResult = await query(
+    `SELECT t.task_id, t.arn, t.state_id, t.system_role_id, t.assignee_user_id,
+            EXTRACT(EPOCH FROM (NOW() - t.sla_due_at)) / 3600 AS hours_overdue,
+            a.service_key, a.service_version, a.authority_id, a.public_arn,
+            COALESCE(
+              (SELECT array_agg(e.level) FROM sla_escalation e WHERE e.task_id = t.task_id),
+              '{}'
+            ) AS applied_levels
+       FROM task t
+       JOIN application a ON a.arn = t.arn
+      WHERE t.status IN ('PENDING', 'IN_PROGRESS')
+        AND t.sla_due_at IS NOT NULL
+        AND t.sla_due_at < NOW()
+        AND a.disposed_at IS NULL`
+  );
+  if (overdueResult.rows.length === 0) return result;
+
+  const workflows = new Map<string, WorkflowConfig | undefined>();
+  const { notify } = await import("./notifications");
+
+  for (const task of overdueResult.rows) {
+    const versionKey = `${task.service_key}:${task.service_version}`;
+    if (!workflows.has(versionKey)) {
+      const configResult = await query(
+        "SELECT config_jsonb->'workflow' AS workflow FROM service_version WHERE service_key = $1 AND version = $2",
+        [task.service_key, task.service_version]
+      );
+      workflows.set(versionKey, configResult.rows[0]?.workflow || undefined);
+    }
+    const state = workflows.get(versionKey)?.states?.find((candidate) => candidate.stateId === task.state_id);
+    const hoursOverdue = Number(task.hours_overdue || 0);
+    const dueRules = selectDueEscalations(state?.escalation, hoursOverdue, task.applied_levels || []);
+
+    for (const rule of dueRules) {
+      try {
+        const outcome = await applyEscalation(task, rule, hoursOverdue);
+        if (!outcome.applied) continue;
+        result.escalationsApplied += 1;
+        if (outcome.reassigned) {
+          result.tasksReassigned += 1;
+          // Later levels see the reassigned role and holder
+          task.system_role_id = rule.targetSystemRoleId!;
+          task.assignee_user_id = outcome.assignedUserId;
+        }
+        for (const officerUserId of outcome.notifyUserIds) {
+          try {
+            await notify("SLA_ESCALATED", task.public_arn || task.arn, officerUserId, {
+              level: rule.level,
+              action: rule.action,
+              stateId: task.state_id,
+            });
+            result.officersNotified += 1;
+          } catch (notifyErr: any) {
+            logWarn("Failed to notify officer of SLA escalation", {
+              taskId: task.task_id,
+              error: notifyErr?.message || "unknown_error",
+            });
+          }
+        }
+      } catch (err: any) {
+        result.errors.push(`Escalation ${task.task_id}/L${rule.level} failed: ${err.message}`);
+      }
+    }
+  }
+
+  if (result.escalationsApplied > 0) {
+    logInfo("SLA escalation run completed", {
+      escalationsApplied: result.escalationsApplied,
+      tasksReassigned: result.tasksReassigned,
+      officersNotified: result.officersNotified,
+    });
+  }
+  return result;
+}
+
+/**
+ * Open tasks escalated to one of the officer's roles or notified to the
+ * officer (latest level per task), scoped to the officer's active postings.
+ */
+export async function getEscalatedTasksForOfficer(
+  userId: string,
+  authorityId?: string,
+  limit: number = 100,
+  offset: number = 0
+): Promise<{ tasks: EscalatedTask[]; total: number }> {
+  const postings = await getUserPostings(userId);
+  const scopedPostings = postings.filter((posting) => !authorityId || posting.authority_id === authorityId);
+  const authorityIds = Array.from(new Set(scopedPostings.map((posting) => posting.authority_id).filter(Boolean)));
+  const systemRoles = Array.from(
+    new Set(scopedPostings.flatMap((posting) => posting.system_role_ids).filter(Boolean))
+  );
+  if (authorityIds.length === 0) {
+    return { tasks: [], total: 0 };
+  }
+
+  const latest = `
+       SELECT DISTINCT ON (e.task_id)
+              t.task_id, t.arn, t.state_id, t.system_role_id, t.assignee_user_id, t.status,
+              t.sla_due_at, t.created_at,
+              a.service_key, a.authority_id, a.public_arn,
+              a.data_jsonb->'applicant'->>'full_name' AS applicant_name,
+              e.escalation_id, e.level, e.action, e.from_system_role_id,
+              e.hours_overdue, e.created_at AS escalated_at
+         FROM sla_escalation e
+         JOIN task t ON t.task_id = e.task_id
+         JOIN application a ON a.arn = e.arn
+        WHERE (e.target_system_role_id = ANY($1) OR $3 = ANY(e.notified_user_ids))
+          AND e.authority_id = ANY($2)
+          AND t.status IN ('PENDING', 'IN_PROGRESS')
+          AND a.disposed_at IS NULL
+        ORDER BY e.task_id, e.level DESC`;
+  const [result, count] = await Promise.all([
+    query(
+      `SELECT * FROM (${latest}) latest
+        ORDER BY escalated_at DESC
+        LIMIT $4 OFFSET $5`,
+      [systemRoles, authorityIds, userId, limit, offset]
+    ),
+    query(`SELECT COUNT(*)::int AS total FROM (${latest}) latest`, [systemRoles, authorityIds, userId]),
+  ]);
+
+  const tasks = result.rows.map((row) => ({
+    task_id: row.task_id,
+    arn: row.public_arn || row.arn,
+    state_id: row.state_id,
+    system_role_id: row.system_role_id,
+    assignee_user_id: row.assignee_user_id || undefined,
+    status: row.status,
+    sla_due_at: row.sla_due_at,
+    created_at: row.created_at,
+    service_key: row.service_key,
+    authority_id: row.authority_id,
+    applicant_name: row.applicant_name || undefined,
+    escalation_id: row.escalation_id,
+    escalation_level: Number(row.level),
+    escalation_action: row.action,
+    from_system_role_id: row.from_system_role_id || undefined,
+    hours_overdue: Number(row.hours_overdue),
+    escalated_at: row.escalated_at,
+  }));
+  return { tasks, total: count.rows[0]?.total ?? 0 };
+}
@@ -8,6 +8,16 @@ export async function calculateSLADueDate(
   workingDays: number,
   authorityId: string
 ): Promise<Date> {
+  const holidays = await loadAuthorityHolidays(authorityId, startDate, workingDays);
+  return addWorkingDays(startDate, workingDays, holidays);
+}
+
+/** Holidays (YYYY-MM-DD) of an authority in the window a working-day count can span from startDate. */
+export async function loadAuthorityHolidays(
+  authorityId: string,
+  startDate: Date,
+  workingDays: number
+): Promise<Set<string>> {
   // Load holidays for this authority in the relevant window (up to 2x working days + buffer for weekends)
   const windowEnd = new Date(startDate);
   windowEnd.setDate(windowEnd.getDate() + workingDays * 3 + 15); // generous buffer
@@ -18,12 +28,15 @@ export async function calculateSLADueDate(
     [authorityId, startDate.toISOString().slice(0, 10), windowEnd.toISOString().slice(0, 10)]
   );
 
-  const holidays = new Set(result.rows.map((r: any) => {
+  return new Set(result.rows.map((r: any) => {
     const d = new Date(r.holiday_date);
     return d.toISOString().slice(0, 10);
   }));
+}
 
-  let dueDate = new Date(startDate);
+/** Add working days to a date, skipping weekends and the given YYYY-MM-DD holidays. */
+export function addWorkingDays(startDate: Date, workingDays: number, holidays: Set<string>): Date {
+  const dueDate = new Date(startDate);
   let daysAdded = 0;
 
   while (daysAdded < workingDays) {
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { normalizeAssignmentConfig, pickLeastOpen, pickRoundRobin } from "./task-assignment";
+import type { TaskAssignmentConfig } from "./workflow";
+
+describe("pickRoundRobin", () => {
+  const officers = ["officer-a", "officer-b", "officer-c"];
+
+  it("starts with the first officer and moves to the next one", () => {
+    expect(pickRoundRobin(officers, null)).toBe("officer-a");
+    expect(pickRoundRobin(officers, "officer-a")).toBe("officer-b");
+  });
+
+  it("wraps around after the last officer", () => {
+    expect(pickRoundRobin(officers, "officer-c")).toBe("officer-a");
+  });
+
+  it("continues after an officer who is no longer a candidate", () => {
+    expect(pickRoundRobin(["officer-a", "officer-c"], "officer-b")).toBe("officer-c");
+    expect(pickRoundRobin([], "officer-b")).toBeNull();
+  });
+});
+
+describe("pickLeastOpen", () => {
+  it("picks the officer with the fewest open tasks, breaking ties by user id", () => {
+    expect(
+      pickLeastOpen([
+        { userId: "officer-b", openTasks: 2 },
+        { userId: "officer-c", openTasks: 0 },
+        { userId: "officer-a", openTasks: 0 },
+      ])
+    ).toBe("officer-a");
+    expect(pickLeastOpen([])).toBeNull();
+  });
+});
+
+describe("normalizeAssignmentConfig", () => {
+  it("defaults to the pool and a least-open-tasks fallback", () => {
+    expect(normalizeAssignmentConfig(undefined)).toEqual({
+      strategy: "POOL",
+      fallbackStrategy: "LEAST_OPEN_TASKS",
+      fallbackSystemRoleId: undefined,
+    });
+  });
+
+  it("ignores unknown strategies and a sticky fallback", () => {
+    const config = { strategy: "RANDOM", fallbackStrategy: "STICKY" } as unknown as TaskAssignmentConfig;
+    expect(normalizeAssignmentConfig(config)).toMatchObject({ strategy: "POOL", fallbackStrategy: "LEAST_OPEN_TASKS" });
+    expect(
+      normalizeAssignmentConfig({ strategy: "STICKY", fallbackStrategy: "ROUND_ROBIN", fallbackSystemRoleId: "SDO" })
+    ).toEqual({ strategy: "STICKY", fallbackStrategy: "ROUND_ROBIN", fallbackSystemRoleId: "SDO" });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Automatic task assignment at task creation.
+ *
+ * A TASK (or FORK) state may declare how its tasks are assigned:
+ *
+ *   "assignment": { "strategy": "STICKY", "fallbackStrategy": "LEAST_OPEN_TASKS",
+ *                   "fallbackSystemRoleId": "SENIOR_ASSISTANT" }
+ *
+ *   POOL             — unassigned; officers holding the role claim it (default)
+ *   ROUND_ROBIN      — next officer after the one picked last for this state/role
+ *   LEAST_OPEN_TASKS — officer with the fewest open tasks
+ *   STICKY           — the officer who last handled this application in this
+ *                      state (e.g. on resubmission), else `fallbackStrategy`
+ *
+ * Candidates are officers with an active posting holding the task's role in
+ * the application's authority, excluding officers who have delegated their
+ * postings for the moment (on leave). When nobody is available the task is
+ * assigned from `fallbackSystemRoleId`, and otherwise stays in the pool.
+ */
+import type pg from "pg";
+import type { AssignmentStrategy, TaskAssignmentConfig } from "./workflow";
+
+type FallbackStrategy = Exclude<AssignmentStrategy, "STICKY">;
+
+const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ["POOL", "ROUND_ROBIN", "LEAST_OPEN_TASKS", "STICKY"];
+const FALLBACK_STRATEGIES: FallbackStrategy[] = ["POOL", "ROUND_ROBIN", "LEAST_OPEN_TASKS"];
+
+export interface AssignmentDecision {
+  assigneeUserId: string | null;
+  systemRoleId: string;
+  /** Strategy that picked the assignee; null when the task stays in the pool. */
+  strategy: Exclude<AssignmentStrategy, "POOL"> | null;
+  fallbackUsed: boolean;
+  candidateCount: number;
+}
+
+/** Next candidate after the last one picked, wrapping around. Candidates must be sorted. */
+export function pickRoundRobin(candidates: string[], lastAssigneeUserId?: string | null): string | null {
+  if (candidates.length === 0) return null;
+  if (!lastAssigneeUserId) return candidates[0];
+  const next = candidates.find((userId) => userId > lastAssigneeUserId);
+  return next ?? candidates[0];
+}
+
+/** Candidate with the fewest open tasks; ties go to the lowest user id. */
+export function pickLeastOpen(openTaskCounts: { userId: string; openTasks: number }[]): string | null {
+  if (openTaskCounts.length === 0) return null;
+  const sorted = [...openTaskCounts].sort(
+    (a, b) => a.openTasks - b.openTasks || (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0)
+  );
+  return sorted[0].userId;
+}
+
+/** Normalise a state's assignment config; unknown strategies fall back to the pool. */
+export function normalizeAssignmentConfig(config: TaskAssignmentConfig | undefined): {
+  strategy: AssignmentStrategy;
+  fallbackStrategy: FallbackStrategy;
+  fallbackSystemRoleId?: string;
+} {
+  const strategy = config && ASSIGNMENT_STRATEGIES.includes(config.strategy) ? config.strategy : "POOL";
+  const fallbackStrategy =
+    config?.fallbackStrategy && FALLBACK_STRATEGIES.includes(config.fallbackStrategy)
+      ? config.fallbackStrategy
+      : "LEAST_OPEN_TASKS";
+  return {
+    strategy,
+    fallbackStrategy,
+    fallbackSystemRoleId: config?.fallbackSystemRoleId || undefined,
+  };
+}
+
+async function findCandidates(client: pg.PoolClient, authorityId: string, systemRoleId: string): Promise<string[]> {
+  const result = await client.query(
+    `SELECT DISTINCT up.user_id
+       FROM user_posting up
+       JOIN designation_role_map drm
+         ON drm.authority_id = up.authority_id AND drm.designation_id = up.designation_id
+      WHERE up.authority_id = $1
+        AND drm.system_role_id = $2
+        AND (up.active_to IS NULL OR up.active_to > NOW())
+        AND NOT EXISTS (
+          SELECT 1 FROM task_delegation d
+           WHERE d.delegator_user_id = up.user_id
+             AND d.authority_id = up.authority_id
+             AND d.revoked_at IS NULL
+             AND d.valid_from <= NOW()
+             AND d.valid_to > NOW()
+        )
+      ORDER BY up.user_id`,
+    [authorityId, systemRoleId]
+  );
+  return result.rows.map((row) => row.user_id);
+}
+
+async function pickByStrategy(
+  client: pg.PoolClient,
+  strategy: Exclude<AssignmentStrategy, "POOL" | "STICKY">,
+  candidates: string[],
+  context: { authorityId: string; stateId: string; systemRoleId: string }
+): Promise<string | null> {
+  if (strategy === "ROUND_ROBIN") {
+    // Serialise concurrent round-robin picks for the same pool
+    await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [
+      `task-rr:${context.authorityId}:${context.stateId}:${context.systemRoleId}`,
+    ]);
+    const last = await client.query(
+      `SELECT t.assignee_user_id
+         FROM task t
+         JOIN application a ON a.arn = t.arn
+        WHERE t.state_id = $1 AND t.system_role_id = $2 AND a.authority_id = $3
+          AND t.assignment_strategy = 'ROUND_ROBIN'
+        ORDER BY t.created_at DESC
+        LIMIT 1`,
+      [context.stateId, context.systemRoleId, context.authorityId]
+    );
+    return pickRoundRobin(candidates, last.rows[0]?.assignee_user_id);
+  }
+  const counts = await client.query(
+    `SELECT c.user_id, COUNT(t.task_id)::int AS open_tasks
+       FROM unnest($1::text[]) AS c(user_id)
+       LEFT JOIN task t ON t.assignee_user_id = c.user_id AND t.status IN ('PENDING', 'IN_PROGRESS')
+      GROUP BY c.user_id`,
+    [candidates]
+  );
+  return pickLeastOpen(counts.rows.map((row) => ({ userId: row.user_id, openTasks: Number(row.open_tasks) })));
+}
+
+/** Officer who last completed this application's task in the state, if any. */
+async function findPreviousHandler(client: pg.PoolClient, arn: string, stateId: string): Promise<string | null> {
+  const result = await client.query(
+    `SELECT assignee_user_id FROM task
+      WHERE arn = $1 AND state_id = $2 AND status = 'COMPLETED' AND assignee_user_id IS NOT NULL
+      ORDER BY completed_at DESC NULLS LAST
+      LIMIT 1`,
+    [arn, stateId]
+  );
+  return result.rows[0]?.assignee_user_id || null;
+}
+
+/** Decide the assignee for a task about to be created in `stateId`. */
+export async function resolveTaskAssignee(
+  client: pg.PoolClient,
+  params: {
+    arn: string;
+    authorityId: string | undefined;
+    stateId: string;
+    systemRoleId: string;
+    config: TaskAssignmentConfig | undefined;
+  }
+): Promise<AssignmentDecision> {
+  const pool: AssignmentDecision = {
+    assigneeUserId: null,
+    systemRoleId: params.systemRoleId,
+    strategy: null,
+    fallbackUsed: false,
+    candidateCount: 0,
+  };
+  const config = normalizeAssignmentConfig(params.config);
+  if (config.strategy === "POOL" || !params.authorityId) return pool;
+
+  const roleOrder = [params.systemRoleId];
+  if (config.fallbackSystemRoleId && config.fallbackSystemRoleId !== params.systemRoleId) {
+    roleOrder.push(config.fallbackSystemRoleId);
+  }
+
+  for (const systemRoleId of roleOrder) {
+    const candidates = await findCandidates(client, params.authorityId, systemRoleId);
+    if (candidates.length === 0) continue;
+    const fallbackRole = systemRoleId !== params.systemRoleId;
+
+    if (config.strategy === "STICKY" && !fallbackRole) {
+      const previous = await findPreviousHandler(client, params.arn, params.stateId);
+      if (previous && candidates.includes(previous)) {
+        return {
+          assigneeUserId: previous,
+          systemRoleId,
+          strategy: "STICKY",
+          fallbackUsed: false,
+          candidateCount: candidates.length,
+        };
+      }
+    }
+
+    const strategy = config.strategy === "STICKY" ? config.fallbackStrategy : config.strategy;
+    if (strategy === "POOL") {
+      return {
+        ...pool,
+        systemRoleId,
+        fallbackUsed: fallbackRole || config.strategy === "STICKY",
+        candidateCount: candidates.length,
+      };
+    }
+    const assigneeUserId = await pickByStrategy(client, strategy, candidates, {
+      authorityId: params.authorityId,
+      stateId: params.stateId,
+      systemRoleId,
+    });
+    return {
+      assigneeUserId,
+      systemRoleId,
+      strategy: assigneeUserId ? strategy : null,
+      fallbackUsed: fallbackRole || config.strategy === "STICKY",
+      candidateCount: candidates.length,
+    };
+  }
+
+  // Nobody posted with the task's role or the fallback role
+  return { ...pool, fallbackUsed: true };
+}
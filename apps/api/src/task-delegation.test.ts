@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  getSupervisorRoles,
+  isDelegationActive,
+  isSupervisorInAuthority,
+  validateDelegationWindow,
+} from "./task-delegation";
+
+const NOW = new Date("2026-03-10T10:00:00Z");
+
+describe("isDelegationActive", () => {
+  const window = {
+    valid_from: new Date("2026-03-09T00:00:00Z"),
+    valid_to: new Date("2026-03-12T00:00:00Z"),
+  };
+
+  it("is active inside the window and inactive at its end", () => {
+    expect(isDelegationActive(window, NOW)).toBe(true);
+    expect(isDelegationActive(window, new Date("2026-03-12T00:00:00Z"))).toBe(false);
+    expect(isDelegationActive(window, new Date("2026-03-08T23:59:59Z"))).toBe(false);
+  });
+
+  it("is inactive once revoked", () => {
+    expect(isDelegationActive({ ...window, revoked_at: new Date("2026-03-10T09:00:00Z") }, NOW)).toBe(false);
+  });
+});
+
+describe("validateDelegationWindow", () => {
+  it("rejects empty, inverted and past windows", () => {
+    const from = new Date("2026-03-11T00:00:00Z");
+    expect(validateDelegationWindow(from, from, NOW)).toBe("INVALID_DELEGATION_WINDOW");
+    expect(validateDelegationWindow(from, new Date("2026-03-10T12:00:00Z"), NOW)).toBe("INVALID_DELEGATION_WINDOW");
+    expect(validateDelegationWindow(new Date("invalid"), from, NOW)).toBe("INVALID_DELEGATION_WINDOW");
+    expect(
+      validateDelegationWindow(new Date("2026-03-01T00:00:00Z"), new Date("2026-03-05T00:00:00Z"), NOW)
+    ).toBe("DELEGATION_WINDOW_IN_PAST");
+  });
+
+  it("accepts a window that has already started", () => {
+    expect(
+      validateDelegationWindow(new Date("2026-03-09T00:00:00Z"), new Date("2026-03-15T00:00:00Z"), NOW)
+    ).toBeNull();
+  });
+});
+
+describe("supervision", () => {
+  const original = process.env.TASK_SUPERVISOR_ROLES;
+  afterEach(() => {
+    if (original === undefined) delete process.env.TASK_SUPERVISOR_ROLES;
+    else process.env.TASK_SUPERVISOR_ROLES = original;
+  });
+
+  it("reads supervisor roles from the environment with a default", () => {
+    delete process.env.TASK_SUPERVISOR_ROLES;
+    expect(getSupervisorRoles()).toEqual(["SUPERINTENDENT", "ESTATE_OFFICER", "SDO"]);
+    process.env.TASK_SUPERVISOR_ROLES = " SDO , ACCOUNT_OFFICER,";
+    expect(getSupervisorRoles()).toEqual(["SDO", "ACCOUNT_OFFICER"]);
+  });
+
+  it("requires a supervisor role in the same authority", () => {
+    const postings = [
+      { authority_id: "PUDA", system_role_ids: ["CLERK"] },
+      { authority_id: "GMADA", system_role_ids: ["SDO"] },
+    ];
+    expect(isSupervisorInAuthority(postings, "PUDA", ["SDO"])).toBe(false);
+    expect(isSupervisorInAuthority(postings, "GMADA", ["SDO"])).toBe(true);
+  });
+});
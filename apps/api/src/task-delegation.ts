@@ -0,0 +1,281 @@
+/**
+ * Time-bounded task delegation and task supervision.
+ *
+ * A delegation lets the delegate act with the delegator's postings in one
+ * authority between valid_from and valid_to (e.g. while the delegator is on
+ * leave): the delegator's role pools appear in the delegate's inbox, and tasks
+ * already assigned to the delegator can be picked up by the delegate.
+ * Delegations are not transitive — only the delegator's own postings are lent.
+ *
+ * Supervisors (officers holding one of TASK_SUPERVISOR_ROLES in the authority,
+ * or ADMIN users) may reassign tasks and manage delegations for other officers.
+ */
+import { query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { getUserPostings, type UserPosting } from "./auth";
+
+const DEFAULT_SUPERVISOR_ROLES = ["SUPERINTENDENT", "ESTATE_OFFICER", "SDO"];
+
+export interface TaskDelegation {
+  delegation_id: string;
+  authority_id: string;
+  delegator_user_id: string;
+  delegator_name?: string;
+  delegate_user_id: string;
+  delegate_name?: string;
+  valid_from: Date;
+  valid_to: Date;
+  reason?: string;
+  created_by: string;
+  created_at: Date;
+  revoked_at?: Date;
+  revoked_by?: string;
+}
+
+export type DelegatedPosting = UserPosting & { delegated_from_user_id?: string };
+
+export interface CreateDelegationInput {
+  authorityId: string;
+  delegatorUserId: string;
+  delegateUserId: string;
+  validFrom: Date;
+  validTo: Date;
+  reason?: string;
+  createdBy: string;
+}
+
+/** System roles that grant supervision, from TASK_SUPERVISOR_ROLES (comma-separated). */
+export function getSupervisorRoles(): string[] {
+  const configured = (process.env.TASK_SUPERVISOR_ROLES || "")
+    .split(",")
+    .map((role) => role.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_SUPERVISOR_ROLES;
+}
+
+export function isSupervisorInAuthority(
+  postings: Pick<UserPosting, "authority_id" | "system_role_ids">[],
+  authorityId: string,
+  supervisorRoles: string[] = getSupervisorRoles()
+): boolean {
+  return postings.some(
+    (posting) =>
+      posting.authority_id === authorityId &&
+      (posting.system_role_ids || []).some((role) => supervisorRoles.includes(role))
+  );
+}
+
+export function isDelegationActive(
+  delegation: Pick<TaskDelegation, "valid_from" | "valid_to" | "revoked_at">,
+  at: Date = new Date()
+): boolean {
+  if (delegation.revoked_at) return false;
+  const from = new Date(delegation.valid_from).getTime();
+  const to = new Date(delegation.valid_to).getTime();
+  return from <= at.getTime() && at.getTime() < to;
+}
+
+/** Validate a delegation window. Returns an error code or null. */
+export function validateDelegationWindow(validFrom: Date, validTo: Date, now: Date = new Date()): string | null {
+  if (Number.isNaN(validFrom.getTime()) || Number.isNaN(validTo.getTime())) {
+    return "INVALID_DELEGATION_WINDOW";
+  }
+  if (validTo.getTime() <= validFrom.getTime()) return "INVALID_DELEGATION_WINDOW";
+  if (validTo.getTime() <= now.getTime()) return "DELEGATION_WINDOW_IN_PAST";
+  return null;
+}
+
+function mapDelegationRow(row: any): TaskDelegation {
+  return {
+    delegation_id: row.delegation_id,
+    authority_id: row.authority_id,
+    delegator_user_id: row.delegator_user_id,
+    delegator_name: row.delegator_name || undefined,
+    delegate_user_id: row.delegate_user_id,
+    delegate_name: row.delegate_name || undefined,
+    valid_from: row.valid_from,
+    valid_to: row.valid_to,
+    reason: row.reason || undefined,
+    created_by: row.created_by,
+    created_at: row.created_at,
+    revoked_at: row.revoked_at || undefined,
+    revoked_by: row.revoked_by || undefined,
+  };
+}
+
+/** Active delegations in which the user is the delegate. */
+async function getActiveDelegationsForDelegate(userId: string): Promise<TaskDelegation[]> {
+  const result = await query(
+    `SELECT * FROM task_delegation
+      WHERE delegate_user_id = $1
+        AND revoked_at IS NULL
+        AND valid_from <= NOW()
+        AND valid_to > NOW()`,
+    [userId]
+  );
+  return result.rows.map(mapDelegationRow);
+}
+
+/**
+ * Users whose tasks the given user may act on through an active delegation,
+ * optionally scoped to one authority.
+ */
+export async function getActiveDelegatorIds(userId: string, authorityId?: string): Promise<string[]> {
+  const delegations = await getActiveDelegationsForDelegate(userId);
+  return Array.from(
+    new Set(
+      delegations
+        .filter((delegation) => !authorityId || delegation.authority_id === authorityId)
+        .map((delegation) => delegation.delegator_user_id)
+    )
+  );
+}
+
+/**
+ * The user's own active postings plus the postings lent to them by active
+ * delegations (restricted to each delegation's authority).
+ */
+export async function getEffectivePostings(userId: string): Promise<DelegatedPosting[]> {
+  const own = await getUserPostings(userId);
+  const delegations = await getActiveDelegationsForDelegate(userId);
+  if (delegations.length === 0) return own;
+
+  const lent: DelegatedPosting[] = [];
+  for (const delegation of delegations) {
+    const delegatorPostings = await getUserPostings(delegation.delegator_user_id);
+    for (const posting of delegatorPostings) {
+      if (posting.authority_id !== delegation.authority_id) continue;
+      lent.push({ ...posting, delegated_from_user_id: delegation.delegator_user_id });
+    }
+  }
+  return [...own, ...lent];
+}
+
+export async function createDelegation(
+  input: CreateDelegationInput
+): Promise<{ delegation?: TaskDelegation; error?: string }> {
+  if (input.delegatorUserId === input.delegateUserId) {
+    return { error: "DELEGATE_SAME_AS_DELEGATOR" };
+  }
+  const windowError = validateDelegationWindow(input.validFrom, input.validTo);
+  if (windowError) return { error: windowError };
+
+  const delegatorPostings = await getUserPostings(input.delegatorUserId);
+  if (!delegatorPostings.some((posting) => posting.authority_id === input.authorityId)) {
+    return { error: "DELEGATOR_NOT_POSTED_IN_AUTHORITY" };
+  }
+  const delegatePostings = await getUserPostings(input.delegateUserId);
+  if (!delegatePostings.some((posting) => posting.authority_id === input.authorityId)) {
+    return { error: "DELEGATE_NOT_POSTED_IN_AUTHORITY" };
+  }
+
+  const overlap = await query(
+    `SELECT 1 FROM task_delegation
+      WHERE authority_id = $1 AND delegator_user_id = $2 AND delegate_user_id = $3
+        AND revoked_at IS NULL
+        AND valid_from < $5 AND valid_to > $4
+      LIMIT 1`,
+    [input.authorityId, input.delegatorUserId, input.delegateUserId, input.validFrom, input.validTo]
+  );
+  if (overlap.rows.length > 0) {
+    return { error: "DELEGATION_OVERLAP" };
+  }
+
+  const delegationId = uuidv4();
+  const inserted = await query(
+    `INSERT INTO task_delegation
+       (delegation_id, authority_id, delegator_user_id, delegate_user_id, valid_from, valid_to, reason, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      delegationId,
+      input.authorityId,
+      input.delegatorUserId,
+      input.delegateUserId,
+      input.validFrom,
+      input.validTo,
+      input.reason || null,
+      input.createdBy,
+    ]
+  );
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [
+      uuidv4(),
+      null,
+      "DELEGATION_CREATED",
+      "OFFICER",
+      input.createdBy,
+      JSON.stringify({
+        delegationId,
+        authorityId: input.authorityId,
+        delegatorUserId: input.delegatorUserId,
+        delegateUserId: input.delegateUserId,
+        validFrom: input.validFrom,
+        validTo: input.validTo,
+        reason: input.reason,
+      }),
+    ]
+  );
+  return { delegation: mapDelegationRow(inserted.rows[0]) };
+}
+
+export async function getDelegation(delegationId: string): Promise<TaskDelegation | null> {
+  const result = await query("SELECT * FROM task_delegation WHERE delegation_id = $1", [delegationId]);
+  return result.rows[0] ? mapDelegationRow(result.rows[0]) : null;
+}
+
+export async function revokeDelegation(
+  delegationId: string,
+  revokedBy: string
+): Promise<{ success: boolean; error?: string }> {
+  const result = await query(
+    `UPDATE task_delegation
+        SET revoked_at = NOW(), revoked_by = $2
+      WHERE delegation_id = $1 AND revoked_at IS NULL AND valid_to > NOW()
+      RETURNING authority_id, delegator_user_id, delegate_user_id`,
+    [delegationId, revokedBy]
+  );
+  if (result.rows.length === 0) {
+    return { success: false, error: "DELEGATION_NOT_ACTIVE" };
+  }
+  const row = result.rows[0];
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [
+      uuidv4(),
+      null,
+      "DELEGATION_REVOKED",
+      "OFFICER",
+      revokedBy,
+      JSON.stringify({
+        delegationId,
+        authorityId: row.authority_id,
+        delegatorUserId: row.delegator_user_id,
+        delegateUserId: row.delegate_user_id,
+      }),
+    ]
+  );
+  return { success: true };
+}
+
+/**
+ * Current and upcoming delegations in an authority. Without `userId` all of
+ * the authority's delegations are returned (supervisor view); otherwise only
+ * those the user gave or received.
+ */
+export async function listDelegations(authorityId: string, userId?: string): Promise<TaskDelegation[]> {
+  const result = await query(
+    `SELECT d.*, dr.name AS delegator_name, de.name AS delegate_name
+       FROM task_delegation d
+       JOIN "user" dr ON dr.user_id = d.delegator_user_id
+       JOIN "user" de ON de.user_id = d.delegate_user_id
+      WHERE d.authority_id = $1
+        AND d.revoked_at IS NULL
+        AND d.valid_to > NOW()
+        AND ($2::text IS NULL OR d.delegator_user_id = $2 OR d.delegate_user_id = $2)
+      ORDER BY d.valid_from ASC`,
+    [authorityId, userId || null]
+  );
+  return result.rows.map(mapDelegationRow);
+}
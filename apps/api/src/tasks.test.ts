@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  statements: [] as string[],
+  transition: { success: false, error: "GUARD_FAILED" } as { success: boolean; newStateId?: string; error?: string },
+}));
+
+const client = vi.hoisted(() => ({
+  query: vi.fn(async (text: string) => {
+    db.statements.push(text.trim().split(/\s+/).slice(0, 3).join(" "));
+    return { rows: [], rowCount: 1 };
+  }),
+  release: vi.fn(),
+}));
+
+vi.mock("./db", () => ({
+  getClient: vi.fn(async () => client),
+  query: vi.fn(async (text: string) => {
+    if (text.includes("FROM task t JOIN application a")) {
+      return {
+        rows: [
+          {
+            arn: "ARN-1",
+            state_id: "DRAFTSMAN_REVIEW",
+            system_role_id: "DRAFTSMAN",
+            assignee_user_id: "officer-on-leave",
+            status: "IN_PROGRESS",
+            parallel_group_id: null,
+            service_key: "registration_of_architect",
+            authority_id: "PUDA",
+          },
+        ],
+      };
+    }
+    if (text.includes("SELECT config_jsonb")) {
+      return {
+        rows: [
+          {
+            config_jsonb: {
+              workflow: {
+                states: [{ stateId: "DRAFTSMAN_REVIEW", systemRoleId: "DRAFTSMAN" }],
+                transitions: [{ transitionId: "DRAFTSMAN_FORWARD", fromStateId: "DRAFTSMAN_REVIEW", action: "FORWARD" }],
+              },
+            },
+          },
+        ],
+      };
+    }
+    return { rows: [], rowCount: 0 };
+  }),
+}));
+vi.mock("./task-delegation", () => ({
+  getActiveDelegatorIds: vi.fn(async () => ["officer-on-leave"]),
+  getEffectivePostings: vi.fn(),
+  isSupervisorInAuthority: vi.fn(),
+}));
+vi.mock("./workflow", () => ({
+  executeTransition: vi.fn(async () => db.transition),
+  enqueueTransitionNotification: vi.fn(async () => {}),
+}));
+
+import { takeActionOnTask } from "./tasks";
+
+describe("delegate takeover", () => {
+  beforeEach(() => {
+    db.statements = [];
+  });
+
+  it("rolls the takeover back when the transition fails", async () => {
+    db.transition = { success: false, error: "GUARD_FAILED" };
+    const result = await takeActionOnTask("task-1", "FORWARD", "delegate-1", ["DRAFTSMAN"]);
+
+    expect(result).toMatchObject({ success: false, error: "GUARD_FAILED" });
+    expect(db.statements).toEqual(["BEGIN", "UPDATE task SET", "INSERT INTO audit_event", "ROLLBACK"]);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("commits the takeover with the transition", async () => {
+    db.transition = { success: true, newStateId: "SDO_REVIEW" };
+    const result = await takeActionOnTask("task-1", "FORWARD", "delegate-1", ["DRAFTSMAN"]);
+
+    expect(result).toEqual({ success: true, newStateId: "SDO_REVIEW", arn: "ARN-1" });
+    expect(db.statements).toEqual(["BEGIN", "UPDATE task SET", "INSERT INTO audit_event", "COMMIT"]);
+  });
+});
@@ -1,7 +1,15 @@
-import { query } from "./db";
-import { executeTransition } from "./workflow";
+import type pg from "pg";
+import { getClient, query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { enqueueTransitionNotification, executeTransition, type WorkflowConfig } from "./workflow";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+import { completeBranchTask } from "./workflow-parallel";
+import { actingRolesForTask, findActionTransition } from "./workflow-rules";
 import { getUserPostings } from "./auth";
+import { getActiveDelegatorIds, getEffectivePostings, isSupervisorInAuthority } from "./task-delegation";
 import { logInfo, logWarn } from "./logger";
+import { publishLiveEvent } from "./live-events";
+import type { GuardFailure } from "./workflow-guards";
 
 export interface Task {
   task_id: string;
@@ -15,17 +23,128 @@ export interface Task {
   completed_at?: Date;
   decision?: string;
   remarks?: string;
+  branch_id?: string;
+  parallel_group_id?: string;
 }
 
+export type InboxSlaBucket = "OVERDUE" | "DUE_TODAY" | "DUE_THIS_WEEK";
+export const INBOX_SLA_BUCKETS: InboxSlaBucket[] = ["OVERDUE", "DUE_TODAY", "DUE_THIS_WEEK"];
+
+export type InboxSortKey = "sla_due_at" | "created_at" | "service_key" | "state_id" | "applicant_name";
+export const INBOX_SORT_KEYS: InboxSortKey[] = [
+  "sla_due_at",
+  "created_at",
+  "service_key",
+  "state_id",
+  "applicant_name",
+];
+
+export interface InboxFilters {
+  serviceKey?: string;
+  stateId?: string;
+  slaBucket?: InboxSlaBucket;
+  /** Case-insensitive substring of the applicant's full name */
+  applicantName?: string;
+  /** Case-insensitive substring of the property's scheme, sector or location */
+  locality?: string;
+  /** Only tasks assigned to the officer (or to an officer they act for) */
+  assignedToMe?: boolean;
+}
+
+export interface InboxSort {
+  key: InboxSortKey;
+  direction: "asc" | "desc";
+}
+
+export const DEFAULT_INBOX_SORT: InboxSort = { key: "sla_due_at", direction: "asc" };
+
+const INBOX_SORT_COLUMNS: Record<InboxSortKey, string> = {
+  sla_due_at: "t.sla_due_at",
+  created_at: "t.created_at",
+  service_key: "a.service_key",
+  state_id: "t.state_id",
+  applicant_name: "LOWER(a.data_jsonb->'applicant'->>'full_name')",
+};
+
+// SLA buckets follow the IST calendar: "today" ends at the next IST midnight,
+// "this week" at the IST midnight starting next Monday. Both exclude overdue tasks.
+const IST_DAY_START = "(date_trunc('day', NOW() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata')";
+const IST_WEEK_START = "(date_trunc('week', NOW() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata')";
+const INBOX_SLA_BUCKET_CONDITIONS: Record<InboxSlaBucket, string> = {
+  OVERDUE: "t.sla_due_at < NOW()",
+  DUE_TODAY: `t.sla_due_at >= NOW() AND t.sla_due_at < ${IST_DAY_START} + INTERVAL '1 day'`,
+  DUE_THIS_WEEK: `t.sla_due_at >= NOW() AND t.sla_due_at < ${IST_WEEK_START} + INTERVAL '7 days'`,
+};
+
+/**
+ * SQL conditions and parameters for the optional inbox filters. Placeholders
+ * start at firstParamIndex; actingForParam is the placeholder already bound to
+ * the officer's acting-for user ids.
+ */
+export function buildInboxFilterConditions(
+  filters: InboxFilters,
+  firstParamIndex: number,
+  actingForParam: string
+): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const next = (value: unknown) => {
+    params.push(value);
+    return `$${firstParamIndex + params.length - 1}`;
+  };
+
+  if (filters.serviceKey) {
+    conditions.push(`a.service_key = ${next(filters.serviceKey)}`);
+  }
+  if (filters.stateId) {
+    conditions.push(`t.state_id = ${next(filters.stateId)}`);
+  }
+  if (filters.slaBucket) {
+    conditions.push(`(${INBOX_SLA_BUCKET_CONDITIONS[filters.slaBucket]})`);
+  }
+  if (filters.applicantName?.trim()) {
+    conditions.push(`a.data_jsonb->'applicant'->>'full_name' ILIKE ${next(`%${filters.applicantName.trim()}%`)}`);
+  }
+  if (filters.locality?.trim()) {
+    const term = next(`%${filters.locality.trim()}%`);
+    conditions.push(
+      `(a.data_jsonb->'property'->>'scheme_name' ILIKE ${term}
+        OR EXISTS (
+          SELECT 1 FROM application_property ap
+          JOIN property p ON p.property_id = ap.property_id
+          WHERE ap.arn = a.arn
+            AND (p.location ILIKE ${term} OR p.sector ILIKE ${term} OR p.scheme_name ILIKE ${term})
+        ))`
+    );
+  }
+  if (filters.assignedToMe) {
+    conditions.push(`t.assignee_user_id = ANY(${actingForParam})`);
+  }
+  return { conditions, params };
+}
+
+/** ORDER BY clause for a whitelisted inbox sort, with a stable tie-break. */
+export function buildInboxOrderBy(sort: InboxSort = DEFAULT_INBOX_SORT): string {
+  const column = INBOX_SORT_COLUMNS[sort.key] || INBOX_SORT_COLUMNS.sla_due_at;
+  const direction = sort.direction === "desc" ? "DESC" : "ASC";
+  return `ORDER BY ${column} ${direction} NULLS LAST, t.created_at ASC, t.task_id ASC`;
+}
+
+/**
+ * One page of the officer's inbox plus the total number of tasks matching the
+ * filters, for pagination.
+ */
 export async function getInboxTasks(
   userId: string,
   authorityId?: string,
   status: string = "PENDING",
   limit: number = 100,
-  offset: number = 0
-): Promise<Task[]> {
-  // Scope roles AND authorities to active postings.
-  const postings = await getUserPostings(userId);
+  offset: number = 0,
+  filters: InboxFilters = {},
+  sort: InboxSort = DEFAULT_INBOX_SORT
+): Promise<{ tasks: Task[]; total: number }> {
+  // Scope roles AND authorities to active postings (own + delegated).
+  const postings = await getEffectivePostings(userId);
   const scopedPostings = postings.filter((posting) => !authorityId || posting.authority_id === authorityId);
   const authorityIds = Array.from(
     new Set(scopedPostings.map((posting) => posting.authority_id).filter(Boolean))
@@ -35,8 +154,21 @@ export async function getInboxTasks(
   );
   
   if (systemRoles.length === 0 || authorityIds.length === 0) {
-    return [];
+    return { tasks: [], total: 0 };
   }
+  // Tasks already assigned (claimed or auto-assigned) show only for their
+  // assignee and anyone acting for the assignee under delegation
+  const actingForUserIds = [userId, ...(await getActiveDelegatorIds(userId, authorityId))];
+  const filterSql = buildInboxFilterConditions(filters, 5, "$4");
+  const whereClause = [
+    "t.status = $1",
+    "t.system_role_id = ANY($2)",
+    "(a.disposed_at IS NULL)",
+    "a.authority_id = ANY($3)",
+    "(t.assignee_user_id IS NULL OR t.assignee_user_id = ANY($4))",
+    ...filterSql.conditions,
+  ].join("\n      AND ");
+  const params = [status, systemRoles, authorityIds, actingForUserIds, ...filterSql.params];
   
   const result = await query(
     `SELECT 
@@ -51,23 +183,36 @@ export async function getInboxTasks(
       t.completed_at,
       t.decision,
       t.remarks,
+      t.branch_id,
+      t.parallel_group_id,
       a.service_key,
       a.authority_id,
       a.applicant_user_id,
       a.public_arn,
-      a.data_jsonb->'applicant'->>'full_name' as applicant_name
+      a.data_jsonb->'applicant'->>'full_name' as applicant_name,
+      COUNT(*) OVER() AS total_count
     FROM task t
     JOIN application a ON t.arn = a.arn
-    WHERE t.status = $1 
-      AND t.system_role_id = ANY($2)
-      AND (a.disposed_at IS NULL)
-      AND a.authority_id = ANY($3)
-    ORDER BY t.sla_due_at ASC NULLS LAST, t.created_at ASC
-    LIMIT $4 OFFSET $5`,
-    [status, systemRoles, authorityIds, limit, offset]
+    WHERE ${whereClause}
+    ${buildInboxOrderBy(sort)}
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
   );
+
+  let total = result.rows.length > 0 ? Number(result.rows[0].total_count) : 0;
+  if (result.rows.length === 0 && offset > 0) {
+    // Paged past the end: no row carries the window count, so count separately
+    const counted = await query(
+      `SELECT COUNT(*)::int AS total
+       FROM task t
+       JOIN application a ON t.arn = a.arn
+       WHERE ${whereClause}`,
+      params
+    );
+    total = counted.rows[0]?.total ?? 0;
+  }
   
-  return result.rows.map(row => ({
+  const tasks = result.rows.map(row => ({
     task_id: row.task_id,
     arn: row.public_arn || row.arn,
     state_id: row.state_id,
@@ -79,11 +224,14 @@ export async function getInboxTasks(
     completed_at: row.completed_at,
     decision: row.decision,
     remarks: row.remarks,
+    branch_id: row.branch_id || undefined,
+    parallel_group_id: row.parallel_group_id || undefined,
     // Enrichment fields for officer UI
     service_key: row.service_key,
     applicant_name: row.applicant_name,
     authority_id: row.authority_id,
   }));
+  return { tasks, total };
 }
 
 /**
@@ -107,8 +255,8 @@ export async function validateOfficerCanActOnTask(
   }
   const task = taskResult.rows[0];
 
-  // 2. Get officer's roles scoped to this application's authority
-  const postings = await getUserPostings(userId);
+  // 2. Get officer's roles scoped to this application's authority (own + delegated)
+  const postings = await getEffectivePostings(userId);
   const authorityRoles = postings
     .filter(p => p.authority_id === task.authority_id)
     .flatMap(p => p.system_role_ids);
@@ -135,14 +283,211 @@ export async function validateOfficerCanActOnTask(
   return { authorized: true, systemRoles: authorityRoles, authorityId: task.authority_id };
 }
 
+/** Let officers working the task's role queue, and the users it moved between, refresh their inbox. */
+async function publishTaskChange(
+  action: "CLAIMED" | "RELEASED" | "REASSIGNED",
+  taskId: string,
+  task: { arn: string; state_id: string; system_role_id: string; authority_id: string },
+  assigneeUserId: string | null,
+  previousAssigneeUserId?: string | null
+): Promise<void> {
+  await publishLiveEvent({
+    type: "task",
+    data: {
+      action,
+      taskId,
+      arn: task.arn,
+      stateId: task.state_id,
+      systemRoleId: task.system_role_id,
+      assigneeUserId,
+    },
+    audience: {
+      userIds: [assigneeUserId, previousAssigneeUserId].filter((id): id is string => Boolean(id)),
+      authorityId: task.authority_id,
+      systemRoleIds: [task.system_role_id],
+    },
+  });
+}
+
 export async function assignTask(taskId: string, userId: string): Promise<void> {
   const result = await query(
-    "UPDATE task SET assignee_user_id = $1, status = 'IN_PROGRESS', started_at = NOW() WHERE task_id = $2 AND status = 'PENDING'",
+    `UPDATE task t SET assignee_user_id = $1, status = 'IN_PROGRESS', started_at = NOW()
+       FROM application a
+      WHERE t.task_id = $2 AND a.arn = t.arn AND t.status = 'PENDING'
+        AND (t.assignee_user_id IS NULL OR t.assignee_user_id = $1)
+      RETURNING t.arn, t.state_id, t.system_role_id, a.authority_id`,
     [userId, taskId]
   );
   if (result.rowCount === 0) {
     throw new Error("TASK_NOT_FOUND_OR_ALREADY_ASSIGNED");
   }
+  await publishTaskChange("CLAIMED", taskId, result.rows[0], userId);
+}
+
+async function writeTaskAuditEvent(
+  arn: string,
+  eventType: string,
+  actorUserId: string,
+  payload: Record<string, unknown>,
+  client?: pg.PoolClient
+): Promise<void> {
+  const text =
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)";
+  const params = [uuidv4(), arn, eventType, "OFFICER", actorUserId, JSON.stringify(payload)];
+  if (client) await client.query(text, params);
+  else await query(text, params);
+}
+
+/**
+ * Validate that the user supervises the task's authority (holds one of the
+ * TASK_SUPERVISOR_ROLES there). ADMIN users are authorised by the route.
+ */
+export async function validateSupervisorForTask(
+  userId: string,
+  taskId: string
+): Promise<{ authorized: boolean; authorityId?: string; error?: string }> {
+  const taskResult = await query(
+    "SELECT a.authority_id FROM task t JOIN application a ON t.arn = a.arn WHERE t.task_id = $1",
+    [taskId]
+  );
+  if (taskResult.rows.length === 0) {
+    return { authorized: false, error: "TASK_NOT_FOUND" };
+  }
+  const authorityId = taskResult.rows[0].authority_id;
+  const postings = await getUserPostings(userId);
+  if (!isSupervisorInAuthority(postings, authorityId)) {
+    return { authorized: false, authorityId, error: "SUPERVISOR_ROLE_REQUIRED" };
+  }
+  return { authorized: true, authorityId };
+}
+
+/** Officers posted in the task's authority with the role the task requires. */
+export async function getEligibleAssignees(
+  taskId: string
+): Promise<{ user_id: string; name: string; login: string }[]> {
+  const result = await query(
+    `SELECT DISTINCT u.user_id, u.name, u.login
+       FROM task t
+       JOIN application a ON a.arn = t.arn
+       JOIN user_posting up ON up.authority_id = a.authority_id
+       JOIN designation_role_map drm
+         ON drm.authority_id = up.authority_id AND drm.designation_id = up.designation_id
+       JOIN "user" u ON u.user_id = up.user_id
+      WHERE t.task_id = $1
+        AND drm.system_role_id = t.system_role_id
+        AND (up.active_to IS NULL OR up.active_to > NOW())
+      ORDER BY u.name`,
+    [taskId]
+  );
+  return result.rows;
+}
+
+/** Release an assigned task back to its role pool. Only the assignee may release. */
+export async function releaseTask(
+  taskId: string,
+  userId: string,
+  remarks?: string
+): Promise<{ success: boolean; error?: string }> {
+  const result = await query(
+    `UPDATE task t SET assignee_user_id = NULL, assignment_strategy = NULL, status = 'PENDING', started_at = NULL
+       FROM application a
+      WHERE t.task_id = $1 AND a.arn = t.arn AND t.assignee_user_id = $2 AND t.status IN ('PENDING', 'IN_PROGRESS')
+      RETURNING t.arn, t.state_id, t.system_role_id, a.authority_id`,
+    [taskId, userId]
+  );
+  if (result.rows.length === 0) {
+    return { success: false, error: "TASK_NOT_ASSIGNED_TO_USER" };
+  }
+  const task = result.rows[0];
+  await writeTaskAuditEvent(task.arn, "TASK_RELEASED", userId, {
+    taskId,
+    stateId: task.state_id,
+    systemRoleId: task.system_role_id,
+    remarks,
+  });
+  await publishTaskChange("RELEASED", taskId, task, null, userId);
+  return { success: true };
+}
+
+/**
+ * Supervisor reassignment of an open task. With a target user the task is
+ * assigned to them (they must hold the task's role in the authority);
+ * without one it returns to the role pool.
+ */
+export async function reassignTask(
+  taskId: string,
+  supervisorUserId: string,
+  targetUserId: string | undefined,
+  reason: string
+): Promise<{ success: boolean; error?: string }> {
+  const taskResult = await query(
+    `SELECT t.arn, t.state_id, t.system_role_id, t.assignee_user_id, t.status, a.authority_id
+       FROM task t JOIN application a ON t.arn = a.arn
+      WHERE t.task_id = $1`,
+    [taskId]
+  );
+  if (taskResult.rows.length === 0) {
+    return { success: false, error: "TASK_NOT_FOUND" };
+  }
+  const task = taskResult.rows[0];
+  if (task.status !== "PENDING" && task.status !== "IN_PROGRESS") {
+    return { success: false, error: "TASK_NOT_OPEN" };
+  }
+  if (targetUserId && targetUserId === task.assignee_user_id) {
+    return { success: false, error: "TASK_ALREADY_ASSIGNED_TO_USER" };
+  }
+
+  if (targetUserId) {
+    const targetPostings = await getUserPostings(targetUserId);
+    const targetHoldsRole = targetPostings.some(
+      (posting) =>
+        posting.authority_id === task.authority_id && posting.system_role_ids.includes(task.system_role_id)
+    );
+    if (!targetHoldsRole) {
+      return { success: false, error: "TARGET_LACKS_TASK_ROLE" };
+    }
+  }
+
+  // Guard against a concurrent claim/action since the task was read
+  const update = targetUserId
+    ? await query(
+        `UPDATE task SET assignee_user_id = $1, assignment_strategy = NULL, status = 'IN_PROGRESS', started_at = NOW()
+          WHERE task_id = $2 AND status IN ('PENDING', 'IN_PROGRESS')
+            AND assignee_user_id IS NOT DISTINCT FROM $3`,
+        [targetUserId, taskId, task.assignee_user_id]
+      )
+    : await query(
+        `UPDATE task SET assignee_user_id = NULL, assignment_strategy = NULL, status = 'PENDING', started_at = NULL
+          WHERE task_id = $1 AND status IN ('PENDING', 'IN_PROGRESS')
+            AND assignee_user_id IS NOT DISTINCT FROM $2`,
+        [taskId, task.assignee_user_id]
+      );
+  if (update.rowCount === 0) {
+    return { success: false, error: "TASK_CHANGED_CONCURRENTLY" };
+  }
+
+  await writeTaskAuditEvent(task.arn, "TASK_REASSIGNED", supervisorUserId, {
+    taskId,
+    stateId: task.state_id,
+    fromUserId: task.assignee_user_id,
+    toUserId: targetUserId || null,
+    reason,
+  });
+  await publishTaskChange("REASSIGNED", taskId, task, targetUserId || null, task.assignee_user_id);
+  return { success: true };
+}
+
+/** Most tasks one bulk inbox action (and its MFA challenge) may cover */
+export const MAX_BULK_TASK_ACTIONS = 50;
+
+/** Outcome of one task in a bulk inbox action. */
+export interface BulkTaskActionResult {
+  taskId: string;
+  success: boolean;
+  arn?: string;
+  newStateId?: string;
+  error?: string;
+  failedGuards?: GuardFailure[];
 }
 
 export async function takeActionOnTask(
@@ -160,11 +505,11 @@ export async function takeActionOnTask(
   newStateId?: string;
   arn?: string;
   error?: string;
-  outputAction?: string;
+  failedGuards?: GuardFailure[];
 }> {
   // Get task
   const taskResult = await query(
-    "SELECT t.arn, t.state_id, t.assignee_user_id, t.status, a.service_key FROM task t JOIN application a ON t.arn = a.arn WHERE t.task_id = $1",
+    "SELECT t.arn, t.state_id, t.system_role_id, t.assignee_user_id, t.status, t.parallel_group_id, a.service_key, a.authority_id FROM task t JOIN application a ON t.arn = a.arn WHERE t.task_id = $1",
     [taskId]
   );
   
@@ -236,25 +581,16 @@ export async function takeActionOnTask(
     }
   }
 
+  // A delegate may take over tasks already assigned to their delegator
+  let takeoverFromUserId: string | null = null;
   if (task.assignee_user_id && task.assignee_user_id !== userId) {
-    return { success: false, error: "TASK_NOT_ASSIGNED_TO_USER" };
-  }
-
-  if (!task.assignee_user_id) {
-    const assignResult = await query(
-      "UPDATE task SET assignee_user_id = $1, status = 'IN_PROGRESS', started_at = NOW() WHERE task_id = $2 AND assignee_user_id IS NULL",
-      [userId, taskId]
-    );
-    if (assignResult.rowCount === 0) {
+    const delegatorIds = await getActiveDelegatorIds(userId, task.authority_id);
+    if (!delegatorIds.includes(task.assignee_user_id)) {
       return { success: false, error: "TASK_NOT_ASSIGNED_TO_USER" };
     }
-  } else if (task.assignee_user_id === userId && task.status === "PENDING") {
-    await query(
-      "UPDATE task SET status = 'IN_PROGRESS', started_at = NOW() WHERE task_id = $1",
-      [taskId]
-    );
+    takeoverFromUserId = task.assignee_user_id;
   }
-  
+
   // Load workflow config to resolve transition ID by (fromStateId, action)
   const configResult = await query(
     "SELECT config_jsonb FROM service_version sv JOIN application a ON a.service_key = sv.service_key AND a.service_version = sv.version WHERE a.arn = $1",
@@ -263,50 +599,108 @@ export async function takeActionOnTask(
   if (configResult.rows.length === 0) {
     return { success: false, error: "CONFIG_NOT_FOUND" };
   }
-  const workflow = configResult.rows[0].config_jsonb?.workflow;
+  const workflow: WorkflowConfig | undefined = configResult.rows[0].config_jsonb?.workflow;
   if (!workflow?.transitions) {
     return { success: false, error: "WORKFLOW_NOT_FOUND" };
   }
-  // M1: Use explicit action-type matching via transition metadata or suffix map
-  // Prefer transitions that declare an "action" field; fall back to suffix matching as last resort
-  const transition = workflow.transitions.find(
-    (t: { fromStateId: string; transitionId: string; action?: string; actions?: string[] }) => {
-      if (t.fromStateId !== task.state_id) return false;
-      // Best: workflow declares action on the transition
-      if (t.action) return t.action === action;
-      // Fallback: suffix matching (case-insensitive, underscore-prefixed)
-      const id = t.transitionId.toUpperCase();
-      return id.endsWith(`_${action}`) || id === action;
+
+  // The takeover, the claim and the transition commit together: a transition
+  // that fails leaves the task with whoever held it before.
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    discardAfterCommit(client);
+
+    if (takeoverFromUserId) {
+      const takeover = await client.query(
+        "UPDATE task SET assignee_user_id = $1 WHERE task_id = $2 AND assignee_user_id = $3",
+        [userId, taskId, takeoverFromUserId]
+      );
+      if (takeover.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return { success: false, error: "TASK_NOT_ASSIGNED_TO_USER" };
+      }
+      await writeTaskAuditEvent(arn, "TASK_REASSIGNED", userId, {
+        taskId,
+        stateId: task.state_id,
+        fromUserId: takeoverFromUserId,
+        toUserId: userId,
+        reason: "DELEGATION",
+      }, client);
+      task.assignee_user_id = userId;
     }
-  );
-  if (!transition) {
-    return { success: false, error: "TRANSITION_NOT_FOUND" };
-  }
-  const transitionId = transition.transitionId;
-  const outputAction = Array.isArray(transition.actions)
-    ? transition.actions.find(
-        (candidate: unknown): candidate is string =>
-          typeof candidate === "string" && candidate.startsWith("GENERATE_OUTPUT_")
-      )
-    : undefined;
-  
-  const result = await executeTransition(
-    task.arn,
-    transitionId,
-    userId,
-    "OFFICER",
-    systemRoles,
-    remarks,
-    {
-      decision: action,
-      queryMessage,
-      unlockedFields,
-      unlockedDocuments
+
+    if (!task.assignee_user_id) {
+      const assignResult = await client.query(
+        "UPDATE task SET assignee_user_id = $1, status = 'IN_PROGRESS', started_at = NOW() WHERE task_id = $2 AND assignee_user_id IS NULL",
+        [userId, taskId]
+      );
+      if (assignResult.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return { success: false, error: "TASK_NOT_ASSIGNED_TO_USER" };
+      }
+    } else if (task.assignee_user_id === userId && task.status === "PENDING") {
+      await client.query(
+        "UPDATE task SET status = 'IN_PROGRESS', started_at = NOW() WHERE task_id = $1",
+        [taskId]
+      );
     }
-  );
-  
-  if (result.success) {
-    return { success: true, newStateId: result.newStateId, arn, outputAction };
+
+    // Parallel review: forwarding a branch task completes that branch only;
+    // the application advances once the join quorum is reached.
+    if (task.parallel_group_id && action === "FORWARD") {
+      const branchResult = await completeBranchTask(taskId, userId, remarks, verificationData, client);
+      if (!branchResult.success) {
+        await client.query("ROLLBACK");
+        return { success: false, error: branchResult.error };
+      }
+      await client.query("COMMIT");
+      await runAfterCommit(client);
+      return { success: true, newStateId: branchResult.newStateId, arn };
+    }
+
+    // The declared transition action, else the transitionId suffix; timer
+    // transitions are fired only by the workflow timer job
+    const transition = findActionTransition(workflow, task.state_id, action);
+    if (!transition) {
+      await client.query("ROLLBACK");
+      return { success: false, error: "TRANSITION_NOT_FOUND" };
+    }
+    const transitionId = transition.transitionId;
+    const actingRoles = actingRolesForTask(
+      workflow,
+      { stateId: task.state_id, systemRoleId: task.system_role_id },
+      systemRoles
+    );
+
+    const result = await executeTransition(
+      task.arn,
+      transitionId,
+      userId,
+      "OFFICER",
+      actingRoles,
+      remarks,
+      {
+        decision: action,
+        queryMessage,
+        unlockedFields,
+        unlockedDocuments,
+        verificationData
+      },
+      client
+    );
+    if (!result.success) {
+      await client.query("ROLLBACK");
+      return result;
+    }
+    await enqueueTransitionNotification(client, task.arn, transitionId, result.newStateId!);
+    await client.query("COMMIT");
+    await runAfterCommit(client);
+    return { success: true, newStateId: result.newStateId, arn };
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
   }
-  return result;
 }
@@ -0,0 +1,154 @@
+/**
+ * Delivery-status callbacks from the SMS gateway and the email provider.
+ *
+ * Providers POST { providerRef, status, reason? } to
+ * /api/v1/notification-logs/delivery-callback/{sms|email} with an
+ * X-Delivery-Signature header: hex HMAC-SHA256 of "providerRef|status" keyed by
+ * NOTIFICATION_CALLBACK_SECRET. The matching notification_log row (by
+ * provider_ref) is updated through updateDeliveryStatus.
+ *
+ * Configuration via environment variables:
+ *   NOTIFICATION_CALLBACK_SECRET    — shared secret for callback signatures
+ *   NOTIFICATION_CALLBACK_SIGNATURE_REQUIRED
+ *                                   — "false" accepts unsigned callbacks while no
+ *                                     secret is set, outside production only;
+ *                                     any other value (or none) refuses them
+ *   NOTIFICATION_CALLBACK_BASE_URL  — public API base URL; when set, SMS sends
+ *                                     carry their callback URL to the gateway
+ */
+import crypto from "crypto";
+import {
+  findLogByProviderRef,
+  updateDeliveryStatus,
+  type DeliveryStatus,
+  type NotificationChannel,
+  type NotificationLogEntry,
+} from "../notification-log";
+
+export type DeliveryCallbackChannel = "sms" | "email";
+
+export const DELIVERY_CALLBACK_SIGNATURE_HEADER = "x-delivery-signature";
+
+export const DELIVERY_CALLBACK_CHANNELS: Record<DeliveryCallbackChannel, Extract<NotificationChannel, "SMS" | "EMAIL">> = {
+  sms: "SMS",
+  email: "EMAIL",
+};
+
+export interface DeliveryCallbackPayload {
+  providerRef: string;
+  status: string;
+  reason?: string;
+  deliveredAt?: string;
+}
+
+export type DeliveryCallbackErrorCode =
+  | "INVALID_DELIVERY_SIGNATURE"
+  | "DELIVERY_CALLBACK_SECRET_NOT_CONFIGURED"
+  | "UNKNOWN_DELIVERY_STATUS"
+  | "NOTIFICATION_LOG_NOT_FOUND";
+
+export class DeliveryCallbackError extends Error {
+  constructor(public readonly code: DeliveryCallbackErrorCode, message: string) {
+    super(message);
+    this.name = "DeliveryCallbackError";
+  }
+}
+
+// Gateway vocabularies vary (DLR codes, bounce types); everything maps onto notification_log statuses.
+const PROVIDER_STATUSES: Record<string, DeliveryStatus> = {
+  DELIVERED: "DELIVERED",
+  DELIVRD: "DELIVERED",
+  SUCCESS: "DELIVERED",
+  FAILED: "FAILED",
+  UNDELIVERED: "FAILED",
+  UNDELIV: "FAILED",
+  REJECTED: "FAILED",
+  REJECTD: "FAILED",
+  EXPIRED: "FAILED",
+  BOUNCED: "BOUNCED",
+  BOUNCE: "BOUNCED",
+  HARD_BOUNCE: "BOUNCED",
+  SOFT_BOUNCE: "BOUNCED",
+  COMPLAINT: "BOUNCED",
+};
+
+export function normalizeDeliveryStatus(providerStatus: string): DeliveryStatus | null {
+  return PROVIDER_STATUSES[providerStatus.trim().toUpperCase()] ?? null;
+}
+
+/** SMTP Message-IDs arrive with or without angle brackets; store and match them bare. */
+export function normalizeProviderRef(providerRef: string): string {
+  return providerRef.trim().replace(/^<(.*)>$/, "$1");
+}
+
+export function deliveryCallbackPath(channel: DeliveryCallbackChannel): string {
+  return `/api/v1/notification-logs/delivery-callback/${channel}`;
+}
+
+export function deliveryCallbackUrl(channel: DeliveryCallbackChannel): string | undefined {
+  const base = process.env.NOTIFICATION_CALLBACK_BASE_URL?.trim();
+  return base ? `${base.replace(/\/+$/, "")}${deliveryCallbackPath(channel)}` : undefined;
+}
+
+export function signDeliveryCallback(providerRef: string, status: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(`${providerRef}|${status}`).digest("hex");
+}
+
+export function verifyDeliveryCallbackSignature(
+  payload: Pick<DeliveryCallbackPayload, "providerRef" | "status">,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  const received = (signature || "").replace(/^sha256=/i, "").trim().toLowerCase();
+  if (!/^[0-9a-f]+$/.test(received) || received.length % 2 !== 0) return false;
+  const expected = Buffer.from(signDeliveryCallback(payload.providerRef, payload.status, secret), "hex");
+  const actual = Buffer.from(received, "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function callbackSecret(): string | null {
+  const secret = process.env.NOTIFICATION_CALLBACK_SECRET;
+  return secret && secret.trim().length > 0 ? secret.trim() : null;
+}
+
+function shouldRequireCallbackSignature(): boolean {
+  return process.env.NOTIFICATION_CALLBACK_SIGNATURE_REQUIRED !== "false" || process.env.NODE_ENV === "production";
+}
+
+/** Throws DeliveryCallbackError when the signature is missing, wrong, or cannot be checked. */
+export function assertDeliveryCallbackSignature(payload: DeliveryCallbackPayload, signature: string | undefined): void {
+  const secret = callbackSecret();
+  if (!secret) {
+    if (shouldRequireCallbackSignature()) {
+      throw new DeliveryCallbackError(
+        "DELIVERY_CALLBACK_SECRET_NOT_CONFIGURED",
+        "NOTIFICATION_CALLBACK_SECRET must be configured to accept delivery callbacks"
+      );
+    }
+    return;
+  }
+  if (!verifyDeliveryCallbackSignature(payload, signature, secret)) {
+    throw new DeliveryCallbackError("INVALID_DELIVERY_SIGNATURE", "Delivery callback signature is invalid");
+  }
+}
+
+/** Apply a verified provider callback to its notification_log row. */
+export async function recordDeliveryCallback(
+  channel: DeliveryCallbackChannel,
+  payload: DeliveryCallbackPayload
+): Promise<NotificationLogEntry> {
+  const status = normalizeDeliveryStatus(payload.status);
+  if (!status) {
+    throw new DeliveryCallbackError("UNKNOWN_DELIVERY_STATUS", `Unknown delivery status: ${payload.status}`);
+  }
+  const entry = await findLogByProviderRef(DELIVERY_CALLBACK_CHANNELS[channel], normalizeProviderRef(payload.providerRef));
+  if (!entry) {
+    throw new DeliveryCallbackError("NOTIFICATION_LOG_NOT_FOUND", "No notification was sent with this provider reference");
+  }
+  const deliveredAt = payload.deliveredAt ? new Date(payload.deliveredAt) : undefined;
+  const updated = await updateDeliveryStatus(entry.log_id, status, {
+    failureReason: status === "DELIVERED" ? undefined : payload.reason || payload.status,
+    deliveredAt: deliveredAt && !Number.isNaN(deliveredAt.getTime()) ? deliveredAt : undefined,
+  });
+  return updated ?? entry;
+}
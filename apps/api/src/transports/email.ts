@@ -10,14 +10,19 @@
  *   SMTP_PASS        — SMTP authentication password
  *   SMTP_FROM        — From address (default: "PUDA <noreply@puda.gov.in>")
  *   EMAIL_ENABLED    — Set to "true" to enable actual email sending (default: false)
+ *   EMAIL_RATE_LIMIT_PER_SECOND — SMTP send rate (default: 5; 0 disables)
  *
  * In development/test, emails are logged to console when EMAIL_ENABLED !== "true".
+ * Sent mail is logged with its Message-ID as provider_ref, which bounce and
+ * delivery callbacks from the mail provider match (see delivery-callback.ts).
  */
 import nodemailer from "nodemailer";
 import type { Transporter } from "nodemailer";
-import { NotificationTransport } from "../notifications";
+import type { NotificationRecipient, NotificationSendResult, NotificationTransport } from "../notifications";
 import { query } from "../db";
 import { logError, logInfo, logWarn } from "../logger";
+import { normalizeProviderRef } from "./delivery-callback";
+import { createSendRateLimiter, rateLimitFromEnv, type SendRateLimiter } from "./rate-limit";
 
 /** Escape user-controlled strings before interpolation into HTML email body. */
 function escapeHtml(str: string): string {
@@ -30,6 +35,7 @@ function escapeHtml(str: string): string {
 }
 
 let transporter: Transporter | null = null;
+let smtpLimiter: SendRateLimiter | null = null;
 
 function getTransporter(): Transporter {
   if (transporter) return transporter;
@@ -59,14 +65,24 @@ function maskEmail(email: string): string {
   return `${localPart.slice(0, 2)}***@${domain}`;
 }
 
+async function lookupUserEmail(userId: string | undefined): Promise<string | undefined> {
+  if (!userId) return undefined;
+  const userResult = await query('SELECT email FROM "user" WHERE user_id = $1', [userId]);
+  return userResult.rows[0]?.email as string | undefined;
+}
+
 const stubEmailTransport: NotificationTransport = {
   name: "EMAIL_STUB",
   channel: "EMAIL",
-  async send(userId: string, title: string, _message: string, metadata?: Record<string, unknown>): Promise<void> {
-    const userResult = await query('SELECT email FROM "user" WHERE user_id = $1', [userId]);
-    const email = userResult.rows[0]?.email as string | undefined;
+  async send(
+    recipient: NotificationRecipient,
+    title: string,
+    _message: string,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    const email = recipient.email || (await lookupUserEmail(recipient.userId));
     if (!email) {
-      logWarn("Skipping email notification: recipient has no email", { userId });
+      logWarn("Skipping email notification: recipient has no email", { userId: recipient.userId });
       return;
     }
     logInfo("Email stub adapter accepted notification", {
@@ -83,17 +99,16 @@ const smtpEmailTransport: NotificationTransport = {
   channel: "EMAIL",
 
   async send(
-    userId: string,
+    recipient: NotificationRecipient,
     title: string,
     message: string,
     metadata?: Record<string, unknown>
-  ): Promise<void> {
-    // Look up user email address
-    const userResult = await query('SELECT email, name FROM "user" WHERE user_id = $1', [userId]);
-    const email = userResult.rows[0]?.email as string | undefined;
+  ): Promise<NotificationSendResult | void> {
+    // Contacts from the application data carry their address; accounts are looked up
+    const email = recipient.email || (await lookupUserEmail(recipient.userId));
 
     if (!email) {
-      logWarn("Skipping email notification: recipient has no email", { userId });
+      logWarn("Skipping email notification: recipient has no email", { userId: recipient.userId });
       return;
     }
 
@@ -134,16 +149,20 @@ const smtpEmailTransport: NotificationTransport = {
       return;
     }
 
+    smtpLimiter ??= createSendRateLimiter(rateLimitFromEnv("EMAIL_RATE_LIMIT_PER_SECOND", 5));
+    await smtpLimiter.acquire();
     try {
       const transport = getTransporter();
-      await transport.sendMail({
+      const info = await transport.sendMail({
         from,
         to: email,
         subject: `PUDA: ${title}`,
         text: `${title}\n\n${message}\n\nApplication Reference: ${arn}`,
         html: htmlBody,
       });
-      logInfo("Email sent", { to: maskEmail(email), subject: title, arn, event });
+      const providerRef = info.messageId ? normalizeProviderRef(info.messageId) : undefined;
+      logInfo("Email sent", { to: maskEmail(email), subject: title, arn, event, providerRef });
+      return { providerRef, recipientAddress: email };
     } catch (err) {
       logError("Email send failed", {
         to: maskEmail(email),
@@ -152,7 +171,8 @@ const smtpEmailTransport: NotificationTransport = {
         event,
         error: err instanceof Error ? err.message : String(err),
       });
-      // Don't throw — notification failures should not break the main flow
+      // Callers record the failure (notification_log FAILED, MFA channel not delivered)
+      throw err;
     }
   },
 };
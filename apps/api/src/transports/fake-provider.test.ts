@@ -0,0 +1,128 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ query: vi.fn(async () => ({ rows: [] })) }));
+
+import {
+  assertDeliveryCallbackSignature,
+  DELIVERY_CALLBACK_SIGNATURE_HEADER,
+  normalizeDeliveryStatus,
+  verifyDeliveryCallbackSignature,
+} from "./delivery-callback";
+import { startFakeNotificationProvider, type FakeNotificationProvider } from "./fake-provider";
+import { createEmailTransport } from "./email";
+import { createSmsTransport } from "./sms";
+
+const SECRET = "callback-secret";
+
+type ReceivedCallback = { path: string; body: { providerRef: string; status: string; reason?: string }; signed: boolean };
+
+describe("fake notification provider delivery cycle", () => {
+  let provider: FakeNotificationProvider;
+  let receiver: http.Server;
+  const callbacks: ReceivedCallback[] = [];
+
+  async function callbackFor(providerRef: string | undefined): Promise<ReceivedCallback> {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const found = callbacks.find((callback) => callback.body.providerRef === providerRef);
+      if (found) return found;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error(`no callback for ${providerRef}`);
+  }
+
+  beforeAll(async () => {
+    receiver = http.createServer((request, response) => {
+      let raw = "";
+      request.on("data", (chunk) => (raw += chunk));
+      request.on("end", () => {
+        const body = JSON.parse(raw);
+        const signature = request.headers[DELIVERY_CALLBACK_SIGNATURE_HEADER] as string | undefined;
+        callbacks.push({ path: request.url || "", body, signed: verifyDeliveryCallbackSignature(body, signature, SECRET) });
+        response.writeHead(200).end("{}");
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    const callbackBaseUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+    provider = await startFakeNotificationProvider({ callbackBaseUrl, callbackSecret: SECRET, callbackDelayMs: 0 });
+
+    vi.stubEnv("NOTIFICATION_CALLBACK_BASE_URL", callbackBaseUrl);
+    vi.stubEnv("SMS_PROVIDER", "http");
+    vi.stubEnv("SMS_ENABLED", "true");
+    vi.stubEnv("SMS_GATEWAY_URL", `${provider.httpUrl}/sms/send`);
+    vi.stubEnv("EMAIL_PROVIDER", "smtp");
+    vi.stubEnv("EMAIL_ENABLED", "true");
+    vi.stubEnv("SMTP_HOST", "127.0.0.1");
+    vi.stubEnv("SMTP_PORT", String(provider.smtpPort));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await provider.close();
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  it("sends SMS through the HTTP gateway and reports delivery and failure", async () => {
+    const sms = createSmsTransport();
+    const delivered = await sms.send({ phone: "9876543210" }, "Approved", "PUDA/2026/000123 approved", {
+      dltTemplateId: "1107161234567890123",
+    });
+    const failed = await sms.send({ phone: "9876540000" }, "Approved", "PUDA/2026/000124 approved");
+
+    expect(delivered).toMatchObject({ recipientAddress: "9876543210" });
+    expect(provider.messages.find((message) => message.providerRef === delivered?.providerRef)).toMatchObject({
+      channel: "SMS",
+      body: "PUDA/2026/000123 approved",
+      dltTemplateId: "1107161234567890123",
+    });
+    const deliveredCallback = await callbackFor(delivered?.providerRef);
+    expect(deliveredCallback).toMatchObject({ path: "/api/v1/notification-logs/delivery-callback/sms", signed: true });
+    expect(normalizeDeliveryStatus(deliveredCallback.body.status)).toBe("DELIVERED");
+    expect(normalizeDeliveryStatus((await callbackFor(failed?.providerRef)).body.status)).toBe("FAILED");
+  });
+
+  it("sends email over SMTP and reports bounces by Message-ID", async () => {
+    const email = createEmailTransport();
+    const delivered = await email.send({ email: "citizen@example.com" }, "Approved", "Your application is approved");
+    const bounced = await email.send({ email: "bounce.me@example.com" }, "Approved", "Your application is approved");
+
+    expect(delivered?.providerRef).toMatch(/@/);
+    expect(delivered?.providerRef).not.toMatch(/[<>]/);
+    const bounceCallback = await callbackFor(bounced?.providerRef);
+    expect(bounceCallback).toMatchObject({ path: "/api/v1/notification-logs/delivery-callback/email", signed: true });
+    expect(normalizeDeliveryStatus(bounceCallback.body.status)).toBe("BOUNCED");
+    expect(bounceCallback.body.reason).toMatch(/^550/);
+    expect(normalizeDeliveryStatus((await callbackFor(delivered?.providerRef)).body.status)).toBe("DELIVERED");
+  });
+
+  it("rejects callbacks signed with another secret", () => {
+    const payload = { providerRef: "SMS-1", status: "DELIVERED" };
+    expect(verifyDeliveryCallbackSignature(payload, "sha256=abcd", SECRET)).toBe(false);
+    expect(verifyDeliveryCallbackSignature(payload, undefined, SECRET)).toBe(false);
+  });
+});
+
+describe("assertDeliveryCallbackSignature without a secret", () => {
+  const payload = { providerRef: "SMS-1", status: "DELIVERED" };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("refuses unsigned callbacks unless the signature requirement is switched off", () => {
+    vi.stubEnv("NOTIFICATION_CALLBACK_SECRET", "");
+    vi.stubEnv("NODE_ENV", "development");
+    expect(() => assertDeliveryCallbackSignature(payload, undefined)).toThrow(/must be configured/);
+
+    vi.stubEnv("NOTIFICATION_CALLBACK_SIGNATURE_REQUIRED", "false");
+    expect(() => assertDeliveryCallbackSignature(payload, undefined)).not.toThrow();
+  });
+
+  it("refuses unsigned callbacks in production even when the requirement is switched off", () => {
+    vi.stubEnv("NOTIFICATION_CALLBACK_SECRET", "");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("NOTIFICATION_CALLBACK_SIGNATURE_REQUIRED", "false");
+    expect(() => assertDeliveryCallbackSignature(payload, undefined)).toThrow(/must be configured/);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Local stand-in for the SMS gateway and the SMTP relay, so the send →
+ * delivery-report → bounce cycle runs offline (dev, CI, integration tests).
+ *
+ *   HTTP  POST /sms/send    — the SMS_PROVIDER=http contract; answers { messageId }
+ *         GET  /messages    — everything accepted so far (DELETE clears)
+ *   SMTP  plain, no auth    — accepts any mail; the Message-ID is the provider reference
+ *
+ * After accepting a message it POSTs a signed delivery callback (see
+ * delivery-callback.ts): SMS to numbers ending in 0000 are UNDELIVERED, mail to
+ * local parts starting with "bounce" BOUNCES, everything else is DELIVERED. The
+ * callback goes to the SMS request's callbackUrl, else to callbackBaseUrl.
+ *
+ * Run standalone with `npm run fake:notification-provider`.
+ */
+import http from "node:http";
+import net from "node:net";
+import { randomUUID } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import {
+  DELIVERY_CALLBACK_SIGNATURE_HEADER,
+  deliveryCallbackPath,
+  normalizeProviderRef,
+  signDeliveryCallback,
+  type DeliveryCallbackChannel,
+} from "./delivery-callback";
+
+export interface FakeProviderOptions {
+  host?: string;
+  /** 0 picks a free port */
+  httpPort?: number;
+  smtpPort?: number;
+  /** API base URL for callbacks, e.g. http://localhost:3001; no callbacks when unset */
+  callbackBaseUrl?: string;
+  callbackSecret?: string;
+  callbackDelayMs?: number;
+}
+
+export interface FakeProviderMessage {
+  channel: "SMS" | "EMAIL";
+  providerRef: string;
+  to: string;
+  body: string;
+  dltTemplateId?: string;
+  outcome: "DELIVERED" | "UNDELIVERED" | "BOUNCED";
+  callbackStatus?: number;
+  receivedAt: string;
+}
+
+export interface FakeNotificationProvider {
+  httpUrl: string;
+  smtpPort: number;
+  messages: FakeProviderMessage[];
+  close(): Promise<void>;
+}
+
+function smsOutcome(to: string): FakeProviderMessage["outcome"] {
+  return to.endsWith("0000") ? "UNDELIVERED" : "DELIVERED";
+}
+
+function emailOutcome(to: string): FakeProviderMessage["outcome"] {
+  return /^bounce/i.test(to) ? "BOUNCED" : "DELIVERED";
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+function listen(server: net.Server, port: number, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function closeServer(server: net.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+export async function startFakeNotificationProvider(
+  options: FakeProviderOptions = {}
+): Promise<FakeNotificationProvider> {
+  const host = options.host || "127.0.0.1";
+  const messages: FakeProviderMessage[] = [];
+  const sockets = new Set<net.Socket>();
+  const pendingCallbacks = new Set<NodeJS.Timeout>();
+
+  function scheduleCallback(message: FakeProviderMessage, channel: DeliveryCallbackChannel, callbackUrl?: string) {
+    const url = callbackUrl || (options.callbackBaseUrl
+      ? `${options.callbackBaseUrl.replace(/\/+$/, "")}${deliveryCallbackPath(channel)}`
+      : undefined);
+    if (!url) return;
+    const timer = setTimeout(async () => {
+      pendingCallbacks.delete(timer);
+      const payload = {
+        providerRef: message.providerRef,
+        status: message.outcome,
+        ...(message.outcome === "DELIVERED"
+          ? { deliveredAt: new Date().toISOString() }
+          : { reason: message.outcome === "BOUNCED" ? "550 5.1.1 Mailbox does not exist" : "Handset unreachable" }),
+      };
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (options.callbackSecret) {
+        headers[DELIVERY_CALLBACK_SIGNATURE_HEADER] = signDeliveryCallback(
+          payload.providerRef,
+          payload.status,
+          options.callbackSecret
+        );
+      }
+      try {
+        const response = await fetch(url, { method: "POST", headers, body: JSON.stringify(payload) });
+        message.callbackStatus = response.status;
+      } catch {
+        message.callbackStatus = 0;
+      }
+    }, options.callbackDelayMs ?? 500);
+    pendingCallbacks.add(timer);
+  }
+
+  const httpServer = http.createServer(async (request, response) => {
+    const respond = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+    try {
+      if (request.method === "POST" && request.url === "/sms/send") {
+        const body = JSON.parse((await readBody(request)) || "{}");
+        if (typeof body.to !== "string" || typeof body.message !== "string") {
+          return respond(400, { error: "to and message are required" });
+        }
+        const message: FakeProviderMessage = {
+          channel: "SMS",
+          providerRef: `SMS-${randomUUID()}`,
+          to: body.to,
+          body: body.message,
+          dltTemplateId: body.dltTemplateId,
+          outcome: smsOutcome(body.to),
+          receivedAt: new Date().toISOString(),
+        };
+        messages.push(message);
+        scheduleCallback(message, "sms", body.callbackUrl);
+        return respond(202, { messageId: message.providerRef, status: "ACCEPTED" });
+      }
+      if (request.url === "/messages" && request.method === "GET") return respond(200, { messages });
+      if (request.url === "/messages" && request.method === "DELETE") {
+        messages.length = 0;
+        return respond(200, { cleared: true });
+      }
+      return respond(404, { error: "NOT_FOUND" });
+    } catch (error) {
+      return respond(400, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // Just enough SMTP for nodemailer: EHLO/HELO, MAIL, RCPT, DATA, RSET, NOOP, QUIT.
+  const smtpServer = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.setEncoding("utf8");
+    let buffer = "";
+    let recipients: string[] = [];
+    let dataLines: string[] | null = null;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    function acceptMail() {
+      const raw = dataLines!.join("\r\n");
+      const headerBlock = raw.split(/\r\n\r\n/)[0];
+      const messageId = /^message-id:\s*(.+)$/im.exec(headerBlock)?.[1];
+      const providerRef = messageId ? normalizeProviderRef(messageId) : `${randomUUID()}@fake-provider`;
+      for (const to of recipients) {
+        const message: FakeProviderMessage = {
+          channel: "EMAIL",
+          providerRef,
+          to,
+          body: raw,
+          outcome: emailOutcome(to),
+          receivedAt: new Date().toISOString(),
+        };
+        messages.push(message);
+        scheduleCallback(message, "email");
+      }
+      recipients = [];
+      dataLines = null;
+      reply(`250 2.0.0 OK queued as ${providerRef}`);
+    }
+
+    function handleLine(line: string) {
+      if (dataLines) {
+        if (line === ".") return acceptMail();
+        dataLines.push(line.startsWith("..") ? line.slice(1) : line);
+        return;
+      }
+      const verb = line.slice(0, 4).toUpperCase();
+      if (verb === "EHLO") {
+        reply("250-fake-provider");
+        return reply("250 8BITMIME");
+      }
+      if (verb === "HELO" || verb === "NOOP") return reply("250 OK");
+      if (verb === "MAIL") return reply("250 2.1.0 OK");
+      if (verb === "RCPT") {
+        const address = /<([^>]*)>/.exec(line)?.[1];
+        if (!address) return reply("501 5.1.3 Bad recipient address");
+        recipients.push(address);
+        return reply("250 2.1.5 OK");
+      }
+      if (verb === "DATA") {
+        if (recipients.length === 0) return reply("503 5.5.1 RCPT first");
+        dataLines = [];
+        return reply("354 End data with <CR><LF>.<CR><LF>");
+      }
+      if (verb === "RSET") {
+        recipients = [];
+        return reply("250 OK");
+      }
+      if (verb === "QUIT") {
+        reply("221 Bye");
+        return socket.end();
+      }
+      return reply("502 5.5.2 Command not implemented");
+    }
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        handleLine(line);
+      }
+    });
+    socket.on("error", () => socket.destroy());
+    reply("220 fake-provider ESMTP");
+  });
+
+  const httpPort = await listen(httpServer, options.httpPort ?? 0, host);
+  const smtpPort = await listen(smtpServer, options.smtpPort ?? 0, host);
+
+  return {
+    httpUrl: `http://${host}:${httpPort}`,
+    smtpPort,
+    messages,
+    async close() {
+      for (const timer of pendingCallbacks) clearTimeout(timer);
+      for (const socket of sockets) socket.destroy();
+      httpServer.closeAllConnections();
+      await Promise.all([closeServer(httpServer), closeServer(smtpServer)]);
+    },
+  };
+}
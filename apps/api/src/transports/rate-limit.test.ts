@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createSendRateLimiter, rateLimitFromEnv } from "./rate-limit";
+
+function fakeClock() {
+  const clock = {
+    time: 0,
+    slept: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.slept.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
+
+describe("createSendRateLimiter", () => {
+  it("allows a one-second burst, then spaces sends at the configured rate", async () => {
+    const clock = fakeClock();
+    const limiter = createSendRateLimiter(2, clock);
+    await Promise.all([limiter.acquire(), limiter.acquire()]);
+    expect(clock.slept).toEqual([]);
+    await Promise.all([limiter.acquire(), limiter.acquire()]);
+    expect(clock.slept).toEqual([500, 500]);
+    expect(clock.time).toBe(1000);
+  });
+
+  it("does not wait when disabled", async () => {
+    const clock = fakeClock();
+    const limiter = createSendRateLimiter(0, clock);
+    await Promise.all(Array.from({ length: 50 }, () => limiter.acquire()));
+    expect(clock.slept).toEqual([]);
+  });
+
+  it("reads the rate from the environment with a fallback", () => {
+    process.env.TEST_SEND_RATE = "3.5";
+    expect(rateLimitFromEnv("TEST_SEND_RATE", 10)).toBe(3.5);
+    process.env.TEST_SEND_RATE = "fast";
+    expect(rateLimitFromEnv("TEST_SEND_RATE", 10)).toBe(10);
+    delete process.env.TEST_SEND_RATE;
+    expect(rateLimitFromEnv("TEST_SEND_RATE", 10)).toBe(10);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Per-provider send rate limiting for notification transports.
+ *
+ * A token bucket holding up to one second's worth of sends; callers await
+ * acquire() and are released in arrival order as tokens refill. A rate of 0
+ * (or less) disables the limit.
+ */
+
+export interface SendRateLimiter {
+  readonly perSecond: number;
+  acquire(): Promise<void>;
+}
+
+type Clock = { now(): number; sleep(ms: number): Promise<void> };
+
+const realClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export function createSendRateLimiter(perSecond: number, clock: Clock = realClock): SendRateLimiter {
+  const capacity = Math.max(1, perSecond);
+  let tokens = capacity;
+  let refilledAt = clock.now();
+  let tail: Promise<void> = Promise.resolve();
+
+  function refill(): void {
+    const now = clock.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * perSecond);
+    refilledAt = now;
+  }
+
+  async function take(): Promise<void> {
+    refill();
+    while (tokens < 1) {
+      await clock.sleep(Math.ceil(((1 - tokens) / perSecond) * 1000));
+      refill();
+    }
+    tokens -= 1;
+  }
+
+  return {
+    perSecond,
+    acquire() {
+      if (!(perSecond > 0)) return Promise.resolve();
+      const turn = tail.then(take);
+      tail = turn.catch(() => undefined);
+      return turn;
+    },
+  };
+}
+
+/** Rate from an env var such as SMS_RATE_LIMIT_PER_SECOND, falling back when unset or invalid. */
+export function rateLimitFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
@@ -1,6 +1,26 @@
+/**
+ * SMS notification transport.
+ *
+ * Configuration via environment variables:
+ *   SMS_PROVIDER               — "stub" (default) or "http" (generic HTTP SMS gateway)
+ *   SMS_ENABLED                — Set to "true" to actually send (default: false, log only)
+ *   SMS_GATEWAY_URL            — Gateway send endpoint (required for "http")
+ *   SMS_GATEWAY_API_KEY        — Sent as a Bearer token when set
+ *   SMS_SENDER_ID              — DLT-registered sender header (default: PUDAGV)
+ *   SMS_DLT_ENTITY_ID          — DLT principal entity id, sent with every message
+ *   SMS_RATE_LIMIT_PER_SECOND  — Gateway send rate (default: 10; 0 disables)
+ *
+ * The gateway receives JSON { to, message, senderId, dltTemplateId, dltEntityId,
+ * reference, callbackUrl } and answers { messageId }; delivery reports come
+ * back through the delivery callback (see delivery-callback.ts).
+ */
+import { randomUUID } from "node:crypto";
 import { query } from "../db";
+import { resilientFetch } from "../http-client";
 import { logInfo, logWarn } from "../logger";
-import type { NotificationTransport } from "../notifications";
+import type { NotificationRecipient, NotificationSendResult, NotificationTransport } from "../notifications";
+import { deliveryCallbackUrl } from "./delivery-callback";
+import { createSendRateLimiter, rateLimitFromEnv } from "./rate-limit";
 
 function maskPhone(phone: string): string {
   if (!phone) return "***";
@@ -8,19 +28,24 @@ function maskPhone(phone: string): string {
   return `${"*".repeat(phone.length - 4)}${phone.slice(-4)}`;
 }
 
+async function lookupUserPhone(userId: string | undefined): Promise<string | undefined> {
+  if (!userId) return undefined;
+  const userResult = await query('SELECT phone FROM "user" WHERE user_id = $1', [userId]);
+  return userResult.rows[0]?.phone as string | undefined;
+}
+
 const stubSmsTransport: NotificationTransport = {
   name: "SMS_STUB",
   channel: "SMS",
   async send(
-    userId: string,
+    recipient: NotificationRecipient,
     title: string,
     message: string,
     metadata?: Record<string, unknown>
   ): Promise<void> {
-    const userResult = await query('SELECT phone FROM "user" WHERE user_id = $1', [userId]);
-    const phone = userResult.rows[0]?.phone as string | undefined;
+    const phone = recipient.phone || (await lookupUserPhone(recipient.userId));
     if (!phone) {
-      logWarn("Skipping SMS notification: recipient has no phone", { userId });
+      logWarn("Skipping SMS notification: recipient has no phone", { userId: recipient.userId });
       return;
     }
 
@@ -35,18 +60,89 @@ const stubSmsTransport: NotificationTransport = {
       return;
     }
 
-    // Runtime stub: keeps production call surface stable until a real SMS provider is integrated.
+    // Runtime stub: logs what a real gateway would receive.
     logInfo("SMS stub adapter accepted notification", {
       to: maskPhone(phone),
       preview: payloadPreview,
       arn: metadata?.arn,
       event: metadata?.event,
+      dltTemplateId: metadata?.dltTemplateId,
     });
   },
 };
 
+export function createHttpSmsTransport(): NotificationTransport {
+  const limiter = createSendRateLimiter(rateLimitFromEnv("SMS_RATE_LIMIT_PER_SECOND", 10));
+
+  return {
+    name: "SMS_HTTP",
+    channel: "SMS",
+    async send(
+      recipient: NotificationRecipient,
+      _title: string,
+      message: string,
+      metadata?: Record<string, unknown>
+    ): Promise<NotificationSendResult | void> {
+      const phone = recipient.phone || (await lookupUserPhone(recipient.userId));
+      if (!phone) {
+        logWarn("Skipping SMS notification: recipient has no phone", { userId: recipient.userId });
+        return;
+      }
+      if (process.env.SMS_ENABLED !== "true") {
+        logInfo("SMS dispatch suppressed (SMS_ENABLED=false)", {
+          to: maskPhone(phone),
+          arn: metadata?.arn,
+          event: metadata?.event,
+        });
+        return;
+      }
+      const url = process.env.SMS_GATEWAY_URL;
+      if (!url) throw new Error("SMS_GATEWAY_URL must be configured for SMS_PROVIDER=http");
+
+      await limiter.acquire();
+      const reference = randomUUID();
+      const apiKey = process.env.SMS_GATEWAY_API_KEY;
+      // Sends are not idempotent at every gateway — no retries, a failure is logged as FAILED.
+      const response = await resilientFetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          to: phone,
+          message,
+          senderId: process.env.SMS_SENDER_ID || "PUDAGV",
+          dltTemplateId: metadata?.dltTemplateId || undefined,
+          dltEntityId: process.env.SMS_DLT_ENTITY_ID || undefined,
+          reference,
+          callbackUrl: deliveryCallbackUrl("sms"),
+        }),
+        timeoutMs: 10_000,
+        maxRetries: 0,
+        retryOn5xx: false,
+      });
+      if (!response.ok) {
+        const errBody = await response.text().catch(() => "");
+        throw new Error(`SMS gateway rejected message (${response.status}): ${errBody.slice(0, 200)}`);
+      }
+      const data = (await response.json().catch(() => ({}))) as { messageId?: string; id?: string };
+      const providerRef = data.messageId || data.id || reference;
+      logInfo("SMS sent via gateway", {
+        to: maskPhone(phone),
+        providerRef,
+        arn: metadata?.arn,
+        event: metadata?.event,
+        dltTemplateId: metadata?.dltTemplateId,
+      });
+      return { providerRef, recipientAddress: phone };
+    },
+  };
+}
+
 export function createSmsTransport(): NotificationTransport {
   const provider = (process.env.SMS_PROVIDER || "stub").trim().toLowerCase();
+  if (provider === "http") return createHttpSmsTransport();
   if (provider !== "stub") {
     logWarn("Unknown SMS_PROVIDER configured, using stub adapter", { provider });
   }
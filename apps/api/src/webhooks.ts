@@ -0,0 +1,577 @@
+/**
+ * Outbound webhooks for external department systems.
+ *
+ * An authority subscribes a target URL to application events:
+ *
+ *   APPLICATION_SUBMITTED  — submitted by the citizen
+ *   APPLICATION_APPROVED   — approved (any decision reaching APPROVED)
+ *   APPLICATION_REJECTED   — rejected
+ *   OUTPUT_ISSUED          — certificate/order generated         data: { outputId, templateId }
+ *   PAYMENT_RECEIVED       — payment recorded as successful      data: { paymentId, amount }
+ *
+ * enqueueWebhookEvent runs in the event's transaction and queues one
+ * webhook_delivery per active matching subscription; the first attempt goes
+ * through the outbox right after commit, and failures are retried with
+ * exponential backoff by the webhook delivery worker until
+ * MAX_WEBHOOK_DELIVERY_ATTEMPTS. Every delivery stays in the log and an admin
+ * can replay it.
+ *
+ * Each request is a JSON POST signed like the payment gateway callbacks
+ * (providers/payment-gateway.ts): hex HMAC-SHA256 with the subscription's
+ * secret over `${timestamp}|${body}`, sent as
+ *
+ *   X-Webhook-Id         delivery id — the same on every retry and replay
+ *   X-Webhook-Event      event type
+ *   X-Webhook-Timestamp  unix seconds at the attempt
+ *   X-Webhook-Signature  sha256=<hex>
+ *
+ * Delivery is at least once; receivers should de-duplicate on X-Webhook-Id.
+ * Payloads carry the application reference and status only, no applicant data.
+ *
+ * Run via POST /internal/jobs/webhook-deliveries or the local setInterval fallback.
+ */
+import crypto from "crypto";
+import type pg from "pg";
+import { query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { resilientFetch } from "./http-client";
+import { logError, logInfo, logWarn } from "./logger";
+import { enqueueOutboxEntry } from "./outbox";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "APPLICATION_SUBMITTED",
+  "APPLICATION_APPROVED",
+  "APPLICATION_REJECTED",
+  "OUTPUT_ISSUED",
+  "PAYMENT_RECEIVED",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export type WebhookDeliveryStatus = "PENDING" | "DELIVERED" | "FAILED";
+
+export interface WebhookSubscription {
+  subscription_id: string;
+  authority_id: string;
+  event_types: WebhookEventType[];
+  target_url: string;
+  description: string | null;
+  active: boolean;
+  created_by_user_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WebhookDelivery {
+  delivery_id: string;
+  subscription_id: string;
+  event: WebhookEventType;
+  arn: string | null;
+  payload_jsonb: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+  updated_at: Date;
+}
+
+export interface WebhookDeliveryRunResult {
+  attempted: number;
+  delivered: number;
+  failed: number;
+  errors: string[];
+}
+
+export const MAX_WEBHOOK_DELIVERY_ATTEMPTS = 10;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const RUN_BATCH_SIZE = 50;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Well past DELIVERY_TIMEOUT_MS, so a live attempt always records its result first
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+// Kept in last_error for diagnosis, not the receiver's whole response
+const MAX_ERROR_LENGTH = 500;
+
+const SUBSCRIPTION_COLUMNS =
+  "subscription_id, authority_id, event_types, target_url, description, active, created_by_user_id, created_at, updated_at";
+
+export function isWebhookEventType(event: string): event is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(event);
+}
+
+/** Decision event for a transition into `stateId`, whichever flow made it. */
+export function webhookEventForState(stateId: string): WebhookEventType | null {
+  if (stateId === "APPROVED") return "APPLICATION_APPROVED";
+  if (stateId === "REJECTED") return "APPLICATION_REJECTED";
+  return null;
+}
+
+/** Delay before the next attempt after `attempts` failures: 1, 2, 4, ... minutes, capped at six hours. */
+export function webhookBackoffMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BASE_BACKOFF_MS * 2 ** exponent, MAX_BACKOFF_MS);
+}
+
+/** Status after a failed attempt that brings the delivery to `attempts`. */
+export function statusAfterFailure(attempts: number): WebhookDeliveryStatus {
+  return attempts >= MAX_WEBHOOK_DELIVERY_ATTEMPTS ? "FAILED" : "PENDING";
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function signWebhookPayload(timestamp: string, body: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}|${body}`).digest("hex");
+}
+
+/** For receivers and tests: check an X-Webhook-Signature header against the body. */
+export function verifyWebhookSignature(timestamp: string, body: string, signature: string, secret: string): boolean {
+  const received = signature.replace(/^sha256=/i, "").trim().toLowerCase();
+  if (!/^[0-9a-f]+$/.test(received) || received.length % 2 !== 0) return false;
+  const expected = Buffer.from(signWebhookPayload(timestamp, body, secret), "hex");
+  const actual = Buffer.from(received, "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Error code for an unusable target URL, or null. Plain http is allowed
+ * outside production for local receivers.
+ */
+export function validateWebhookTargetUrl(targetUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(targetUrl);
+  } catch {
+    return "WEBHOOK_URL_INVALID";
+  }
+  if (url.username || url.password) return "WEBHOOK_URL_INVALID";
+  if (url.protocol === "https:") return null;
+  if (url.protocol === "http:" && process.env.NODE_ENV !== "production") return null;
+  return "WEBHOOK_URL_HTTPS_REQUIRED";
+}
+
+/**
+ * Queue the event for every active subscription of the application's authority,
+ * in the caller's transaction. Events outside WEBHOOK_EVENT_TYPES are ignored.
+ * Returns the number of deliveries queued.
+ */
+export async function enqueueWebhookEvent(
+  client: pg.PoolClient,
+  event: string,
+  arn: string,
+  data: Record<string, unknown> = {}
+): Promise<number> {
+  if (!isWebhookEventType(event)) return 0;
+  const appResult = await client.query(
+    "SELECT arn, public_arn, authority_id, service_key, state_id, disposal_type FROM application WHERE arn = $1",
+    [arn]
+  );
+  const app = appResult.rows[0];
+  if (!app) return 0;
+  const subscriptions = await client.query(
+    `SELECT subscription_id FROM webhook_subscription
+      WHERE authority_id = $1 AND active AND $2 = ANY(event_types)`,
+    [app.authority_id, event]
+  );
+  if (subscriptions.rows.length === 0) return 0;
+
+  const payload = {
+    event,
+    occurredAt: new Date().toISOString(),
+    authorityId: app.authority_id,
+    application: {
+      arn: app.public_arn || app.arn,
+      serviceKey: app.service_key,
+      stateId: app.state_id,
+      disposalType: app.disposal_type ?? null,
+    },
+    data,
+  };
+  for (const row of subscriptions.rows) {
+    const deliveryId = uuidv4();
+    await client.query(
+      `INSERT INTO webhook_delivery (delivery_id, subscription_id, event, arn, payload_jsonb)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [deliveryId, row.subscription_id, event, app.arn, JSON.stringify(payload)]
+    );
+    await enqueueOutboxEntry(client, "WEBHOOK_DELIVERY", { deliveryId }, app.arn);
+  }
+  return subscriptions.rows.length;
+}
+
+async function postWebhook(
+  delivery: { delivery_id: string; event: string; payload_jsonb: unknown; target_url: string; secret: string }
+): Promise<{ ok: boolean; statusCode: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload_jsonb);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  try {
+    const response = await resilientFetch(delivery.target_url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery.delivery_id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(timestamp, body, delivery.secret)}`,
+      },
+      body,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+      // The delivery keeps its own retry schedule
+      maxRetries: 0,
+      redirect: "manual",
+    });
+    if (response.ok) return { ok: true, statusCode: response.status, error: null };
+    const text = await response.text().catch(() => "");
+    return {
+      ok: false,
+      statusCode: response.status,
+      error: `HTTP ${response.status}${text ? `: ${text}` : ""}`.slice(0, MAX_ERROR_LENGTH),
+    };
+  } catch (error: any) {
+    return { ok: false, statusCode: null, error: (error?.message || "unknown_error").slice(0, MAX_ERROR_LENGTH) };
+  }
+}
+
+/**
+ * Attempt one pending delivery that is due. Returns its status afterwards, or
+ * null when it is not due or another worker holds it.
+ *
+ * The claim counts the attempt and pushes next_attempt_at out by
+ * DELIVERY_LEASE_MS, and commits before the POST: no transaction, row lock or
+ * pooled connection is held while the receiver responds, and a worker that
+ * dies mid-request leaves the delivery due again once the lease runs out.
+ */
+export async function processWebhookDelivery(deliveryId: string): Promise<WebhookDeliveryStatus | null> {
+  const claimed = await query(
+    `UPDATE webhook_delivery d
+        SET attempts = d.attempts + 1,
+            next_attempt_at = NOW() + ($2::int * INTERVAL '1 millisecond'), updated_at = NOW()
+       FROM webhook_subscription s
+      WHERE d.delivery_id = (
+              SELECT delivery_id FROM webhook_delivery
+               WHERE delivery_id = $1 AND status = 'PENDING' AND next_attempt_at <= NOW()
+               FOR UPDATE SKIP LOCKED)
+        AND s.subscription_id = d.subscription_id
+      RETURNING d.delivery_id, d.event, d.arn, d.payload_jsonb, d.attempts,
+                s.subscription_id, s.target_url, s.secret, s.active`,
+    [deliveryId, DELIVERY_LEASE_MS]
+  );
+  const delivery = claimed.rows[0];
+  if (!delivery) return null;
+  const attempts: number = delivery.attempts;
+
+  if (!delivery.active) {
+    const recorded = await query(
+      `UPDATE webhook_delivery
+          SET status = 'FAILED', last_error = 'SUBSCRIPTION_INACTIVE', updated_at = NOW()
+        WHERE delivery_id = $1 AND status = 'PENDING' AND attempts = $2`,
+      [deliveryId, attempts]
+    );
+    return recorded.rowCount ? "FAILED" : null;
+  }
+
+  const outcome = await postWebhook(delivery);
+
+  // Only while the claim is ours: after the lease another worker may have re-claimed it
+  if (outcome.ok) {
+    const recorded = await query(
+      `UPDATE webhook_delivery
+          SET status = 'DELIVERED', last_status_code = $3, last_error = NULL,
+              delivered_at = NOW(), updated_at = NOW()
+        WHERE delivery_id = $1 AND status = 'PENDING' AND attempts = $2`,
+      [deliveryId, attempts, outcome.statusCode]
+    );
+    return recorded.rowCount ? "DELIVERED" : null;
+  }
+
+  const status = statusAfterFailure(attempts);
+  const recorded = await query(
+    `UPDATE webhook_delivery
+        SET status = $3, last_status_code = $4, last_error = $5,
+            next_attempt_at = NOW() + ($6::int * INTERVAL '1 millisecond'), updated_at = NOW()
+      WHERE delivery_id = $1 AND status = 'PENDING' AND attempts = $2`,
+    [deliveryId, attempts, status, outcome.statusCode, outcome.error, webhookBackoffMs(attempts)]
+  );
+  if (!recorded.rowCount) return null;
+  logWarn("Webhook delivery failed", {
+    deliveryId,
+    subscriptionId: delivery.subscription_id,
+    event: delivery.event,
+    attempts,
+    status,
+    error: outcome.error,
+  });
+  if (status === "FAILED") {
+    await query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+      [
+        uuidv4(),
+        delivery.arn,
+        "WEBHOOK_DELIVERY_FAILED",
+        "SYSTEM",
+        "system",
+        JSON.stringify({ deliveryId, subscriptionId: delivery.subscription_id, event: delivery.event, attempts }),
+      ]
+    );
+  }
+  return status;
+}
+
+// ---------------------------------------------------------------------------
+// Subscriptions
+// ---------------------------------------------------------------------------
+
+export async function listWebhookSubscriptions(authorityId?: string): Promise<WebhookSubscription[]> {
+  const result = await query(
+    `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscription
+      WHERE ($1::text IS NULL OR authority_id = $1)
+      ORDER BY authority_id, created_at`,
+    [authorityId ?? null]
+  );
+  return result.rows;
+}
+
+export async function getWebhookSubscription(subscriptionId: string): Promise<WebhookSubscription | null> {
+  const result = await query(`SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscription WHERE subscription_id = $1`, [
+    subscriptionId,
+  ]);
+  return result.rows[0] ?? null;
+}
+
+/** Create a subscription; the generated secret is returned only here and on rotation. */
+export async function createWebhookSubscription(
+  input: { authorityId: string; eventTypes: WebhookEventType[]; targetUrl: string; description?: string },
+  actorId: string
+): Promise<{ subscription: WebhookSubscription; secret: string }> {
+  const subscriptionId = uuidv4();
+  const secret = generateWebhookSecret();
+  const result = await query(
+    `INSERT INTO webhook_subscription
+       (subscription_id, authority_id, event_types, target_url, secret, description, created_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING ${SUBSCRIPTION_COLUMNS}`,
+    [
+      subscriptionId,
+      input.authorityId,
+      Array.from(new Set(input.eventTypes)),
+      input.targetUrl,
+      secret,
+      input.description ?? null,
+      actorId,
+    ]
+  );
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [
+      uuidv4(),
+      null,
+      "WEBHOOK_SUBSCRIPTION_CREATED",
+      "ADMIN",
+      actorId,
+      JSON.stringify({ subscriptionId, authorityId: input.authorityId, eventTypes: input.eventTypes, targetUrl: input.targetUrl }),
+    ]
+  );
+  return { subscription: result.rows[0], secret };
+}
+
+/** Replace a subscription's settings (not its authority or secret). */
+export async function updateWebhookSubscription(
+  subscriptionId: string,
+  changes: { eventTypes: WebhookEventType[]; targetUrl: string; description: string | null; active: boolean },
+  actorId: string
+): Promise<WebhookSubscription | null> {
+  const result = await query(
+    `UPDATE webhook_subscription
+        SET event_types = $2, target_url = $3, description = $4, active = $5, updated_at = NOW()
+      WHERE subscription_id = $1
+      RETURNING ${SUBSCRIPTION_COLUMNS}`,
+    [subscriptionId, Array.from(new Set(changes.eventTypes)), changes.targetUrl, changes.description, changes.active]
+  );
+  const subscription: WebhookSubscription | undefined = result.rows[0];
+  if (!subscription) return null;
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [uuidv4(), null, "WEBHOOK_SUBSCRIPTION_UPDATED", "ADMIN", actorId, JSON.stringify({ subscriptionId, changes })]
+  );
+  return subscription;
+}
+
+/** Replace the signing secret. Pending retries are signed with the new one. */
+export async function rotateWebhookSecret(
+  subscriptionId: string,
+  actorId: string,
+  reason: string
+): Promise<{ subscription: WebhookSubscription; secret: string } | null> {
+  const secret = generateWebhookSecret();
+  const result = await query(
+    `UPDATE webhook_subscription SET secret = $2, updated_at = NOW()
+      WHERE subscription_id = $1
+      RETURNING ${SUBSCRIPTION_COLUMNS}`,
+    [subscriptionId, secret]
+  );
+  const subscription: WebhookSubscription | undefined = result.rows[0];
+  if (!subscription) return null;
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [uuidv4(), null, "WEBHOOK_SECRET_ROTATED", "ADMIN", actorId, JSON.stringify({ subscriptionId, reason })]
+  );
+  return { subscription, secret };
+}
+
+// ---------------------------------------------------------------------------
+// Delivery log
+// ---------------------------------------------------------------------------
+
+/** Deliveries newest first, optionally limited to one authority, subscription, status or application. */
+export async function listWebhookDeliveries(filters: {
+  authorityId?: string;
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+  arn?: string;
+  limit?: number;
+}): Promise<Array<WebhookDelivery & { authority_id: string; target_url: string }>> {
+  const result = await query(
+    `SELECT d.*, s.authority_id, s.target_url
+       FROM webhook_delivery d
+       JOIN webhook_subscription s ON s.subscription_id = d.subscription_id
+       LEFT JOIN application a ON a.arn = d.arn
+      WHERE ($1::text IS NULL OR s.authority_id = $1)
+        AND ($2::text IS NULL OR d.subscription_id = $2)
+        AND ($3::text IS NULL OR d.status = $3)
+        AND ($4::text IS NULL OR d.arn = $4 OR a.public_arn = $4)
+      ORDER BY d.created_at DESC
+      LIMIT $5`,
+    [
+      filters.authorityId ?? null,
+      filters.subscriptionId ?? null,
+      filters.status ?? null,
+      filters.arn ?? null,
+      filters.limit ?? 100,
+    ]
+  );
+  return result.rows;
+}
+
+/**
+ * Send a delivery again with a fresh retry budget: a FAILED one, or a
+ * DELIVERED one the receiver lost. The payload and delivery id are unchanged.
+ */
+export async function replayWebhookDelivery(
+  deliveryId: string,
+  actorId: string,
+  reason: string
+): Promise<WebhookDelivery | null> {
+  const result = await query(
+    `UPDATE webhook_delivery
+        SET status = 'PENDING', attempts = 0, next_attempt_at = NOW(), delivered_at = NULL, updated_at = NOW()
+      WHERE delivery_id = $1 AND status IN ('FAILED', 'DELIVERED')
+      RETURNING *`,
+    [deliveryId]
+  );
+  const delivery: WebhookDelivery | undefined = result.rows[0];
+  if (!delivery) return null;
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [
+      uuidv4(),
+      delivery.arn,
+      "WEBHOOK_DELIVERY_REPLAYED",
+      "ADMIN",
+      actorId,
+      JSON.stringify({ deliveryId, subscriptionId: delivery.subscription_id, event: delivery.event, reason }),
+    ]
+  );
+  return delivery;
+}
+
+/**
+ * Replay every FAILED delivery of a subscription, optionally only those
+ * created since a time — e.g. after the receiver's outage is fixed.
+ */
+export async function replayFailedWebhookDeliveries(
+  subscriptionId: string,
+  actorId: string,
+  reason: string,
+  since?: string
+): Promise<number> {
+  const result = await query(
+    `UPDATE webhook_delivery
+        SET status = 'PENDING', attempts = 0, next_attempt_at = NOW(), updated_at = NOW()
+      WHERE subscription_id = $1 AND status = 'FAILED'
+        AND ($2::timestamptz IS NULL OR created_at >= $2)
+      RETURNING delivery_id`,
+    [subscriptionId, since ?? null]
+  );
+  await query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [
+      uuidv4(),
+      null,
+      "WEBHOOK_DELIVERIES_REPLAYED",
+      "ADMIN",
+      actorId,
+      JSON.stringify({ subscriptionId, since: since ?? null, count: result.rows.length, reason }),
+    ]
+  );
+  return result.rows.length;
+}
+
+// ---------------------------------------------------------------------------
+// Worker
+// ---------------------------------------------------------------------------
+
+/** Attempt every pending delivery that is due. */
+export async function runWebhookDeliveries(): Promise<WebhookDeliveryRunResult> {
+  const result: WebhookDeliveryRunResult = { attempted: 0, delivered: 0, failed: 0, errors: [] };
+  try {
+    const due = await query(
+      `SELECT delivery_id FROM webhook_delivery
+        WHERE status = 'PENDING' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at ASC
+        LIMIT $1`,
+      [RUN_BATCH_SIZE]
+    );
+    for (const row of due.rows) {
+      try {
+        const status = await processWebhookDelivery(row.delivery_id);
+        if (status === null) continue;
+        result.attempted += 1;
+        if (status === "DELIVERED") result.delivered += 1;
+        if (status === "FAILED") result.failed += 1;
+      } catch (err: any) {
+        result.errors.push(`${row.delivery_id}: ${err?.message || "unknown_error"}`);
+      }
+    }
+  } catch (err: any) {
+    result.errors.push(`Webhook delivery run failed: ${err.message}`);
+  }
+
+  if (result.attempted > 0 || result.errors.length > 0) {
+    logInfo("Webhook delivery run completed", {
+      attempted: result.attempted,
+      delivered: result.delivered,
+      failed: result.failed,
+      errors: result.errors.length,
+    });
+  }
+  return result;
+}
+
+/**
+ * Start periodic webhook delivery.
+ * Default: runs every minute.
+ */
+export function startWebhookDeliveryWorker(intervalMs: number = 60 * 1000): NodeJS.Timeout {
+  logInfo("Starting webhook delivery worker", { intervalSeconds: intervalMs / 1000 });
+  const timer = setInterval(() => {
+    runWebhookDeliveries().catch((err) => {
+      logError("Periodic webhook delivery run failed", { error: err instanceof Error ? err.message : String(err) });
+    });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import type pg from "pg";
+
+vi.mock("./outbox", () => ({
+  enqueueOutboxEntry: vi.fn(async () => "outbox-1"),
+}));
+vi.mock("./outputs", () => ({
+  getStoredOutputSize: vi.fn(async () => 48213),
+}));
+vi.mock("./documents", () => ({
+  issueCitizenDocument: vi.fn(async () => ({ citizen_doc_id: "doc-1" })),
+}));
+
+import { issueCitizenDocument } from "./documents";
+import { enqueueOutboxEntry } from "./outbox";
+import { registerTransitionAction, runTransitionAction, validateTransitionAction } from "./workflow-actions";
+
+function fakeClient(rows: Record<string, any[]> = {}) {
+  const calls: Array<{ text: string; params?: unknown[] }> = [];
+  const client = {
+    query: vi.fn(async (text: string, params?: unknown[]) => {
+      calls.push({ text, params });
+      const key = Object.keys(rows).find((fragment) => text.includes(fragment));
+      return { rows: key ? rows[key] : [] };
+    }),
+  } as unknown as pg.PoolClient;
+  return { client, calls };
+}
+
+const context = (client: pg.PoolClient) => ({
+  client,
+  arn: "ARN-1",
+  transitionId: "CLERK_FORWARD",
+  stateId: "PENDING_AT_SDO",
+  actorType: "OFFICER" as const,
+  actorUserId: "officer-1",
+  actorSystemRoles: ["CLERK"],
+});
+
+describe("validateTransitionAction", () => {
+  it("accepts core actions without params and rejects params on them", () => {
+    expect(validateTransitionAction("ASSIGN_NEXT_TASK")).toEqual([]);
+    expect(validateTransitionAction("GENERATE_OUTPUT_NDC_APPROVAL")).toEqual([]);
+    expect(validateTransitionAction({ type: "RAISE_QUERY", params: { days: 3 } })).toEqual([
+      "RAISE_QUERY takes no params",
+    ]);
+  });
+
+  it("reports unknown actions and invalid registered params", () => {
+    expect(validateTransitionAction("SEND_FAX")).toEqual(["unknown action SEND_FAX"]);
+    expect(
+      validateTransitionAction({ type: "CREATE_FEE_DEMAND", params: { feeHeadCode: "SCRUTINY_FEE", amount: 0, dueDays: 3 } })
+    ).toEqual(["CREATE_FEE_DEMAND: unknown param dueDays", "CREATE_FEE_DEMAND: amount must be a positive number"]);
+    expect(validateTransitionAction("NOTIFY")).toEqual(["NOTIFY: template is required"]);
+    expect(
+      validateTransitionAction({ type: "SCHEDULE_INSPECTION", params: { inspectionType: "SITE_VISIT", scheduleInDays: 2 } })
+    ).toEqual([]);
+  });
+
+  it("refuses to register an action twice", () => {
+    expect(() => registerTransitionAction("NOTIFY", { validate: () => [], execute: async () => ({}) })).toThrow(
+      "already registered"
+    );
+    expect(() =>
+      registerTransitionAction("RECORD_DECISION", { validate: () => [], execute: async () => ({}) })
+    ).toThrow("already registered");
+  });
+});
+
+describe("runTransitionAction", () => {
+  it("runs a registered action in the transaction and audits it", async () => {
+    const execute = vi.fn(async () => ({ reference: "EXT-42" }));
+    registerTransitionAction("TEST_PUSH_TO_REGISTRY", { validate: () => [], execute });
+    const { client, calls } = fakeClient();
+
+    await runTransitionAction(context(client), { type: "TEST_PUSH_TO_REGISTRY", params: { registry: "land" } });
+
+    expect(execute).toHaveBeenCalledWith(expect.objectContaining({ arn: "ARN-1", client }), { registry: "land" });
+    const audit = calls.find((call) => call.text.includes("INSERT INTO audit_event"));
+    expect(audit?.params?.[2]).toBe("WORKFLOW_ACTION_EXECUTED");
+    expect(JSON.parse(audit?.params?.[5] as string)).toEqual({
+      transitionId: "CLERK_FORWARD",
+      stateId: "PENDING_AT_SDO",
+      action: "TEST_PUSH_TO_REGISTRY",
+      params: { registry: "land" },
+      result: { reference: "EXT-42" },
+    });
+  });
+
+  it("throws on invalid params so the transition rolls back", async () => {
+    const { client, calls } = fakeClient();
+    await expect(runTransitionAction(context(client), { type: "NOTIFY", params: {} })).rejects.toThrow(
+      "INVALID_ACTION_PARAMS"
+    );
+    expect(calls).toHaveLength(0);
+  });
+
+  it("queues NOTIFY in the outbox on the transition's client", async () => {
+    vi.mocked(enqueueOutboxEntry).mockClear();
+    const { client } = fakeClient({
+      "FROM application": [{ applicant_user_id: "citizen-1", public_arn: "PUDA/2026/000001", data_jsonb: {} }],
+    });
+
+    await runTransitionAction(context(client), { type: "NOTIFY", params: { template: "DEMAND_RAISED" } });
+
+    expect(enqueueOutboxEntry).toHaveBeenCalledWith(
+      client,
+      "NOTIFY",
+      { event: "DEMAND_RAISED", arn: "PUDA/2026/000001" },
+      "ARN-1"
+    );
+  });
+
+  it("issues the stored output to the locker with its real size", async () => {
+    const { client } = fakeClient({
+      "FROM application": [{ applicant_user_id: "citizen-1", public_arn: "PUDA/2026/000001", data_jsonb: {} }],
+      "FROM output": [{ output_id: "output-1", storage_key: "outputs/ARN-1/ARN-1_ndc_approval.pdf" }],
+    });
+
+    await runTransitionAction(context(client), { type: "ISSUE_LOCKER_DOCUMENT", params: { docTypeId: "NDC" } });
+
+    expect(issueCitizenDocument).toHaveBeenCalledWith(
+      "citizen-1",
+      "NDC",
+      "outputs/ARN-1/ARN-1_ndc_approval.pdf",
+      "ARN-1_ndc_approval.pdf",
+      "application/pdf",
+      48213,
+      "PUDA/2026/000001",
+      expect.any(String),
+      null,
+      client
+    );
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Declarative transition actions.
+ *
+ * A transition's `actions` list in workflow.json holds the engine's core
+ * actions as plain strings and registered actions either as a string or as an
+ * object with parameters:
+ *
+ *   "actions": [
+ *     "ASSIGN_NEXT_TASK",
+ *     { "type": "CREATE_FEE_DEMAND", "params": { "feeHeadCode": "SCRUTINY_FEE", "amount": 500, "dueInDays": 15 } },
+ *     { "type": "NOTIFY", "params": { "template": "DEMAND_RAISED" } }
+ *   ]
+ *
+ *   CREATE_FEE_DEMAND      feeHeadCode, amount, description?, dueInDays?
+ *   SCHEDULE_INSPECTION    inspectionType, officerRoleId?, scheduleInDays?
+ *   UPDATE_PROPERTY_OWNER  ownerNameField (path in application data), transferToApplicant?
+ *   ISSUE_LOCKER_DOCUMENT  docTypeId, templateId?, validForDays? (hands off to a
+ *                          pending output job when the output is not generated yet)
+ *   NOTIFY                 template (notification event), routed by notifications.json via the outbox
+ *
+ * Registered actions run inside the transition's transaction: a failing action
+ * rolls the transition back. Each run writes a WORKFLOW_ACTION_EXECUTED audit
+ * event. Params are validated at service-pack preflight (workflow-lint.ts), so
+ * this module loads its database-backed helpers lazily.
+ */
+import type pg from "pg";
+import { v4 as uuidv4 } from "uuid";
+import type { WorkflowActionEntry } from "./workflow";
+
+export type TransitionActionParams = Record<string, unknown>;
+
+export interface TransitionActionContext {
+  client: pg.PoolClient;
+  arn: string;
+  transitionId: string;
+  /** State the transition entered. */
+  stateId: string;
+  actorType: "CITIZEN" | "OFFICER" | "SYSTEM";
+  /** Undefined for system actors (no user row). */
+  actorUserId?: string;
+  actorSystemRoles: string[];
+}
+
+export interface TransitionActionDefinition {
+  /** Problems with the declared params; empty when they are valid. */
+  validate(params: TransitionActionParams): string[];
+  /** Runs in the transition's transaction; the returned summary goes into the audit event. */
+  execute(context: TransitionActionContext, params: TransitionActionParams): Promise<Record<string, unknown>>;
+}
+
+/** Actions implemented by executeAction in workflow.ts; they take no params. */
+export const CORE_TRANSITION_ACTIONS = ["ASSIGN_NEXT_TASK", "RAISE_QUERY", "RECORD_DECISION"];
+/** Core GENERATE_OUTPUT_<TEMPLATE> actions queue the output rendered from templates/<template>.html. */
+export const GENERATE_OUTPUT_ACTION_PREFIX = "GENERATE_OUTPUT_";
+
+const registry = new Map<string, TransitionActionDefinition>();
+
+export function registerTransitionAction(name: string, definition: TransitionActionDefinition): void {
+  if (isCoreAction(name) || registry.has(name)) {
+    throw new Error(`Transition action ${name} is already registered`);
+  }
+  registry.set(name, definition);
+}
+
+export function getTransitionAction(name: string): TransitionActionDefinition | undefined {
+  return registry.get(name);
+}
+
+/** Core or registered action name. */
+export function isKnownTransitionAction(name: string): boolean {
+  return isCoreAction(name) || registry.has(name);
+}
+
+function isCoreAction(name: string): boolean {
+  return CORE_TRANSITION_ACTIONS.includes(name) || name.startsWith(GENERATE_OUTPUT_ACTION_PREFIX);
+}
+
+/** Template id (lower-cased suffix) of a GENERATE_OUTPUT_* action; null for any other action. */
+export function templateIdFromOutputAction(outputAction?: string | null): string | null {
+  if (!outputAction || !outputAction.startsWith(GENERATE_OUTPUT_ACTION_PREFIX)) {
+    return null;
+  }
+  const templateSuffix = outputAction.slice(GENERATE_OUTPUT_ACTION_PREFIX.length).trim();
+  if (!templateSuffix) {
+    return null;
+  }
+  return templateSuffix.toLowerCase();
+}
+
+export function transitionActionName(entry: WorkflowActionEntry): string {
+  return typeof entry === "string" ? entry : entry?.type ?? "";
+}
+
+export function transitionActionParams(entry: WorkflowActionEntry): TransitionActionParams {
+  return typeof entry === "string" ? {} : entry?.params ?? {};
+}
+
+/** Action names of a transition, in declaration order. */
+export function transitionActionNames(actions: WorkflowActionEntry[] | undefined): string[] {
+  return (actions || []).map(transitionActionName);
+}
+
+/** Validation problems for one declared action; empty when it can run. */
+export function validateTransitionAction(entry: WorkflowActionEntry): string[] {
+  const name = transitionActionName(entry);
+  if (!name) return ["action has no type"];
+  const params = transitionActionParams(entry);
+  if (typeof params !== "object" || Array.isArray(params)) return [`${name} params must be an object`];
+  if (isCoreAction(name)) {
+    return Object.keys(params).length > 0 ? [`${name} takes no params`] : [];
+  }
+  const definition = registry.get(name);
+  if (!definition) return [`unknown action ${name}`];
+  return definition.validate(params).map((problem) => `${name}: ${problem}`);
+}
+
+/** Run a registered action and audit it. Throws to roll the transition back. */
+export async function runTransitionAction(
+  context: TransitionActionContext,
+  entry: WorkflowActionEntry
+): Promise<void> {
+  const name = transitionActionName(entry);
+  const definition = registry.get(name);
+  if (!definition) throw new Error(`UNKNOWN_TRANSITION_ACTION: ${name}`);
+  const params = transitionActionParams(entry);
+  const problems = definition.validate(params);
+  if (problems.length > 0) {
+    throw new Error(`INVALID_ACTION_PARAMS: ${name}: ${problems.join("; ")}`);
+  }
+
+  const result = await definition.execute(context, params);
+  await context.client.query(
+    "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+    [
+      uuidv4(),
+      context.arn,
+      "WORKFLOW_ACTION_EXECUTED",
+      context.actorType,
+      context.actorUserId || "system",
+      JSON.stringify({
+        transitionId: context.transitionId,
+        stateId: context.stateId,
+        action: name,
+        params,
+        result,
+      }),
+    ]
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Param helpers
+// ---------------------------------------------------------------------------
+
+function requireString(params: TransitionActionParams, key: string, problems: string[]): void {
+  if (typeof params[key] !== "string" || !(params[key] as string).trim()) {
+    problems.push(`${key} is required`);
+  }
+}
+
+function optionalString(params: TransitionActionParams, key: string, problems: string[]): void {
+  if (params[key] !== undefined && typeof params[key] !== "string") problems.push(`${key} must be a string`);
+}
+
+function optionalInteger(params: TransitionActionParams, key: string, min: number, problems: string[]): void {
+  const value = params[key];
+  if (value === undefined) return;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    problems.push(`${key} must be an integer >= ${min}`);
+  }
+}
+
+function rejectUnknownParams(params: TransitionActionParams, allowed: string[], problems: string[]): void {
+  for (const key of Object.keys(params)) {
+    if (!allowed.includes(key)) problems.push(`unknown param ${key}`);
+  }
+}
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+/** Dotted path lookup in application data, e.g. "transferee.name". */
+function readDataPath(data: Record<string, any> | null | undefined, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+async function loadApplicant(client: pg.PoolClient, arn: string) {
+  const result = await client.query(
+    "SELECT applicant_user_id, public_arn, data_jsonb FROM application WHERE arn = $1",
+    [arn]
+  );
+  const row = result.rows[0];
+  return {
+    applicantUserId: (row?.applicant_user_id as string | null) ?? null,
+    displayArn: (row?.public_arn as string | null) || arn,
+    data: (row?.data_jsonb as Record<string, any> | null) ?? {},
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Built-in registered actions
+// ---------------------------------------------------------------------------
+
+registerTransitionAction("CREATE_FEE_DEMAND", {
+  validate(params) {
+    const problems: string[] = [];
+    rejectUnknownParams(params, ["feeHeadCode", "amount", "description", "dueInDays"], problems);
+    requireString(params, "feeHeadCode", problems);
+    if (typeof params.amount !== "number" || !(params.amount > 0)) problems.push("amount must be a positive number");
+    optionalString(params, "description", problems);
+    optionalInteger(params, "dueInDays", 0, problems);
+    return problems;
+  },
+  async execute(context, params) {
+    const { assessFees, createDemand } = await import("./fees");
+    const [lineItem] = await assessFees(
+      context.arn,
+      [
+        {
+          feeHeadCode: params.feeHeadCode as string,
+          description: params.description as string | undefined,
+          amount: params.amount as number,
+        },
+      ],
+      context.actorUserId,
+      context.client
+    );
+    const demand = await createDemand(
+      context.arn,
+      [lineItem.line_item_id],
+      {
+        dueDate: params.dueInDays !== undefined ? daysFromNow(params.dueInDays as number) : undefined,
+        createdBy: context.actorUserId,
+      },
+      context.client
+    );
+    return { demandId: demand.demand_id, demandNumber: demand.demand_number, totalAmount: demand.total_amount };
+  },
+});
+
+registerTransitionAction("SCHEDULE_INSPECTION", {
+  validate(params) {
+    const problems: string[] = [];
+    rejectUnknownParams(params, ["inspectionType", "officerRoleId", "scheduleInDays"], problems);
+    requireString(params, "inspectionType", problems);
+    optionalString(params, "officerRoleId", problems);
+    optionalInteger(params, "scheduleInDays", 0, problems);
+    return problems;
+  },
+  async execute(context, params) {
+    const { createInspection } = await import("./inspections");
+    // Link to the task of the state just entered (created by an earlier ASSIGN_NEXT_TASK)
+    const taskResult = await context.client.query(
+      `SELECT task_id, system_role_id FROM task
+       WHERE arn = $1 AND state_id = $2 AND status IN ('PENDING', 'IN_PROGRESS')
+       ORDER BY created_at DESC LIMIT 1`,
+      [context.arn, context.stateId]
+    );
+    const task = taskResult.rows[0];
+    const inspection = await createInspection(
+      {
+        arn: context.arn,
+        taskId: task?.task_id,
+        inspectionType: params.inspectionType as string,
+        scheduledAt: params.scheduleInDays !== undefined ? daysFromNow(params.scheduleInDays as number) : undefined,
+        officerRoleId: (params.officerRoleId as string | undefined) || task?.system_role_id,
+      },
+      context.client
+    );
+    return { inspectionId: inspection.inspection_id, taskId: inspection.task_id };
+  },
+});
+
+registerTransitionAction("UPDATE_PROPERTY_OWNER", {
+  validate(params) {
+    const problems: string[] = [];
+    rejectUnknownParams(params, ["ownerNameField", "transferToApplicant"], problems);
+    requireString(params, "ownerNameField", problems);
+    if (params.transferToApplicant !== undefined && typeof params.transferToApplicant !== "boolean") {
+      problems.push("transferToApplicant must be a boolean");
+    }
+    return problems;
+  },
+  async execute(context, params) {
+    const { getPropertyIdForApplication, transferPropertyOwnership } = await import("./properties");
+    const applicant = await loadApplicant(context.client, context.arn);
+    const ownerName = readDataPath(applicant.data, params.ownerNameField as string);
+    if (typeof ownerName !== "string" || !ownerName.trim()) {
+      throw new Error(`OWNER_NAME_MISSING: ${params.ownerNameField}`);
+    }
+    const propertyId = await getPropertyIdForApplication(context.arn, context.client);
+    if (!propertyId) throw new Error("PROPERTY_NOT_LINKED");
+    const newOwnerUserId = params.transferToApplicant ? applicant.applicantUserId : null;
+    const previousOwnerName = await transferPropertyOwnership(propertyId, ownerName.trim(), newOwnerUserId, context.client);
+    return { propertyId, previousOwnerName, ownerName: ownerName.trim(), newOwnerUserId };
+  },
+});
+
+registerTransitionAction("ISSUE_LOCKER_DOCUMENT", {
+  validate(params) {
+    const problems: string[] = [];
+    rejectUnknownParams(params, ["docTypeId", "templateId", "validForDays"], problems);
+    requireString(params, "docTypeId", problems);
+    optionalString(params, "templateId", problems);
+    optionalInteger(params, "validForDays", 1, problems);
+    return problems;
+  },
+  async execute(context, params) {
+    const { issueCitizenDocument } = await import("./documents");
+    const { getStoredOutputSize } = await import("./outputs");
+    const applicant = await loadApplicant(context.client, context.arn);
+    if (!applicant.applicantUserId) return { skipped: "NO_APPLICANT" };
+    const outputResult = await context.client.query(
+      `SELECT output_id, storage_key FROM output
+       WHERE arn = $1 AND ($2::text IS NULL OR template_id = $2) AND storage_key IS NOT NULL
+       ORDER BY generated_at DESC LIMIT 1`,
+      [context.arn, (params.templateId as string | undefined) ?? null]
+    );
+    const output = outputResult.rows[0];
+    if (!output) {
+      // Output still queued by GENERATE_OUTPUT_* in this transition: the job issues it
+      const jobResult = await context.client.query(
+        `UPDATE output_job SET locker_doc_type_id = $3, updated_at = NOW()
+         WHERE arn = $1 AND ($2::text IS NULL OR template_id = $2) AND status = 'PENDING'
+         RETURNING job_id`,
+        [context.arn, (params.templateId as string | undefined) ?? null, params.docTypeId]
+      );
+      if (jobResult.rows.length === 0) throw new Error("OUTPUT_NOT_FOUND");
+      return { deferredToJobId: jobResult.rows[0].job_id };
+    }
+    const sizeBytes = await getStoredOutputSize(output.storage_key);
+    if (sizeBytes === null) throw new Error("OUTPUT_NOT_FOUND");
+    const validFrom = new Date();
+    const validUntil = params.validForDays !== undefined ? daysFromNow(params.validForDays as number) : null;
+    const document = await issueCitizenDocument(
+      applicant.applicantUserId,
+      params.docTypeId as string,
+      output.storage_key,
+      output.storage_key.split("/").pop() || "certificate.pdf",
+      "application/pdf",
+      sizeBytes,
+      applicant.displayArn,
+      validFrom.toISOString().split("T")[0],
+      validUntil ? validUntil.toISOString().split("T")[0] : null,
+      context.client
+    );
+    return { citizenDocId: document.citizen_doc_id, outputId: output.output_id };
+  },
+});
+
+registerTransitionAction("NOTIFY", {
+  validate(params) {
+    const problems: string[] = [];
+    rejectUnknownParams(params, ["template"], problems);
+    requireString(params, "template", problems);
+    return problems;
+  },
+  async execute(context, params) {
+    const applicant = await loadApplicant(context.client, context.arn);
+    const template = params.template as string;
+    const { enqueueOutboxEntry } = await import("./outbox");
+    const outboxId = await enqueueOutboxEntry(
+      context.client,
+      "NOTIFY",
+      { event: template, arn: applicant.displayArn },
+      context.arn
+    );
+    return { template, outboxId };
+  },
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { evaluateTransitionGuards, type GuardContext } from "./workflow-guards";
+
+function buildContext(overrides: Partial<GuardContext> = {}): GuardContext {
+  return {
+    data: {},
+    application: { stateId: "PENDING_AT_SDO", serviceKey: "test", authorityId: "PUDA", queryCount: 0 },
+    checklist: {},
+    inspection: null,
+    inspections: { total: 0, completed: 0, passed: 0, failed: 0, open: 0 },
+    fees: { demandCount: 0, totalDue: 0, totalPaid: 0, outstanding: 0, pendingDemands: 0, allPaid: true },
+    ...overrides,
+  };
+}
+
+const PHYSICAL_VERIFICATION_RULE = {
+  ruleId: "PHYSICAL_VERIFICATION_REQUIRED_BEFORE_APPROVAL",
+  description: "Physical verification must be completed before approval",
+  logic: {
+    or: [
+      { "==": [{ var: "data.physical_verification_completed" }, true] },
+      { "==": [{ var: "inspection.outcome" }, "PASS"] },
+    ],
+  },
+};
+
+const FEES_PAID_RULE = {
+  ruleId: "FEES_PAID",
+  description: "All fee demands must be paid",
+  logic: { "==": [{ var: "fees.allPaid" }, true] },
+};
+
+describe("evaluateTransitionGuards", () => {
+  it("passes when the transition declares no guards", () => {
+    expect(evaluateTransitionGuards(undefined, [PHYSICAL_VERIFICATION_RULE], buildContext())).toEqual([]);
+    expect(evaluateTransitionGuards([], [PHYSICAL_VERIFICATION_RULE], buildContext())).toEqual([]);
+  });
+
+  it("reports an unsatisfied rule with its description", () => {
+    const failures = evaluateTransitionGuards(
+      [PHYSICAL_VERIFICATION_RULE.ruleId],
+      [PHYSICAL_VERIFICATION_RULE],
+      buildContext()
+    );
+    expect(failures).toEqual([
+      {
+        ruleId: PHYSICAL_VERIFICATION_RULE.ruleId,
+        description: PHYSICAL_VERIFICATION_RULE.description,
+        reason: "RULE_NOT_SATISFIED",
+      },
+    ]);
+  });
+
+  it("does not take the acting officer's own checklist as physical verification", () => {
+    const failures = evaluateTransitionGuards(
+      [PHYSICAL_VERIFICATION_RULE.ruleId],
+      [PHYSICAL_VERIFICATION_RULE],
+      buildContext({ checklist: { physical_verification_completed: true } })
+    );
+    expect(failures.map((failure) => failure.reason)).toEqual(["RULE_NOT_SATISFIED"]);
+  });
+
+  it("passes when the latest inspection outcome is PASS", () => {
+    const failures = evaluateTransitionGuards(
+      [PHYSICAL_VERIFICATION_RULE.ruleId],
+      [PHYSICAL_VERIFICATION_RULE],
+      buildContext({
+        inspection: { type: "SITE_VISIT", status: "COMPLETED", outcome: "PASS", checklist: {} },
+      })
+    );
+    expect(failures).toEqual([]);
+  });
+
+  it("fails closed when a referenced rule is not defined", () => {
+    const failures = evaluateTransitionGuards(["MISSING_RULE"], [], buildContext());
+    expect(failures).toEqual([{ ruleId: "MISSING_RULE", reason: "RULE_NOT_FOUND" }]);
+  });
+
+  it("lists every failing rule", () => {
+    const failures = evaluateTransitionGuards(
+      [PHYSICAL_VERIFICATION_RULE.ruleId, FEES_PAID_RULE.ruleId],
+      [PHYSICAL_VERIFICATION_RULE, FEES_PAID_RULE],
+      buildContext({
+        fees: { demandCount: 1, totalDue: 500, totalPaid: 0, outstanding: 500, pendingDemands: 1, allPaid: false },
+      })
+    );
+    expect(failures.map((failure) => failure.ruleId)).toEqual([
+      PHYSICAL_VERIFICATION_RULE.ruleId,
+      FEES_PAID_RULE.ruleId,
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Workflow transition guards.
+ *
+ * A transition may declare `guardRuleIds` referencing rules in the service
+ * pack's rules.json. Each rule's JSON-logic is evaluated against a guard
+ * context built from the application row, inspections, fee demands and the
+ * officer's submitted checklist. The transition is refused with GUARD_FAILED
+ * when any rule is missing or evaluates falsy.
+ *
+ * Guard context shape:
+ *   data        — application.data_jsonb
+ *   application — { stateId, serviceKey, authorityId, queryCount }
+ *   checklist   — verification checklist submitted with the officer action;
+ *                 self-attested by the acting officer, so it must not on its
+ *                 own satisfy a verification guard
+ *   inspection  — latest inspection { type, status, outcome, checklist } or null
+ *   inspections — { total, completed, passed, failed, open }
+ *   fees        — { demandCount, totalDue, totalPaid, outstanding, pendingDemands, allPaid }
+ */
+import type { PoolClient } from "pg";
+import { evaluateLogic, type RuleDefinition } from "./rule-logic";
+
+export interface GuardFailure {
+  ruleId: string;
+  description?: string;
+  reason: "RULE_NOT_FOUND" | "RULE_NOT_SATISFIED";
+}
+
+export interface GuardContext {
+  data: Record<string, any>;
+  application: {
+    stateId: string;
+    serviceKey: string;
+    authorityId: string;
+    queryCount: number;
+  };
+  checklist: Record<string, unknown>;
+  inspection: {
+    type: string;
+    status: string;
+    outcome: string | null;
+    checklist: Record<string, unknown>;
+  } | null;
+  inspections: {
+    total: number;
+    completed: number;
+    passed: number;
+    failed: number;
+    open: number;
+  };
+  fees: {
+    demandCount: number;
+    totalDue: number;
+    totalPaid: number;
+    outstanding: number;
+    pendingDemands: number;
+    allPaid: boolean;
+  };
+}
+
+/**
+ * Evaluate the given guard rule IDs. Returns the list of failures (empty = pass).
+ * Unknown rule IDs fail closed so a typo in workflow.json cannot bypass a guard.
+ */
+export function evaluateTransitionGuards(
+  guardRuleIds: string[] | undefined,
+  rules: RuleDefinition[] | undefined,
+  context: GuardContext
+): GuardFailure[] {
+  if (!guardRuleIds || guardRuleIds.length === 0) return [];
+  const rulesById = new Map((rules || []).map((rule) => [rule.ruleId, rule]));
+  const failures: GuardFailure[] = [];
+  for (const ruleId of guardRuleIds) {
+    const rule = rulesById.get(ruleId);
+    if (!rule) {
+      failures.push({ ruleId, reason: "RULE_NOT_FOUND" });
+      continue;
+    }
+    let passed = false;
+    try {
+      passed = Boolean(evaluateLogic(rule.logic, context));
+    } catch {
+      passed = false;
+    }
+    if (!passed) {
+      failures.push({ ruleId, description: rule.description, reason: "RULE_NOT_SATISFIED" });
+    }
+  }
+  return failures;
+}
+
+/** Build the guard evaluation context inside the transition transaction. */
+export async function loadGuardContext(
+  client: PoolClient,
+  app: {
+    arn: string;
+    state_id: string;
+    service_key: string;
+    authority_id: string;
+    query_count?: number | null;
+    data_jsonb?: Record<string, any> | null;
+  },
+  actionPayload?: any
+): Promise<GuardContext> {
+  const inspectionResult = await client.query(
+    `SELECT inspection_type, status, outcome, checklist_jsonb
+       FROM inspection
+      WHERE arn = $1
+      ORDER BY created_at DESC`,
+    [app.arn]
+  );
+  const inspectionRows = inspectionResult.rows;
+  const latest = inspectionRows[0];
+
+  const feeResult = await client.query(
+    `SELECT
+       COUNT(*)::int AS demand_count,
+       COALESCE(SUM(total_amount), 0) AS total_due,
+       COALESCE(SUM(paid_amount), 0) AS total_paid,
+       COUNT(*) FILTER (WHERE status IN ('PENDING', 'PARTIALLY_PAID'))::int AS pending_demands
+     FROM fee_demand
+     WHERE arn = $1 AND status <> 'CANCELLED'`,
+    [app.arn]
+  );
+  const fee = feeResult.rows[0] || {};
+  const totalDue = Number(fee.total_due || 0);
+  const totalPaid = Number(fee.total_paid || 0);
+  const pendingDemands = Number(fee.pending_demands || 0);
+
+  const checklist = actionPayload?.verificationData?.checklist;
+
+  return {
+    data: app.data_jsonb || {},
+    application: {
+      stateId: app.state_id,
+      serviceKey: app.service_key,
+      authorityId: app.authority_id,
+      queryCount: Number(app.query_count || 0),
+    },
+    checklist: checklist && typeof checklist === "object" ? checklist : {},
+    inspection: latest
+      ? {
+          type: latest.inspection_type,
+          status: latest.status,
+          outcome: latest.outcome,
+          checklist: latest.checklist_jsonb || {},
+        }
+      : null,
+    inspections: {
+      total: inspectionRows.length,
+      completed: inspectionRows.filter((row) => row.status === "COMPLETED").length,
+      passed: inspectionRows.filter((row) => row.outcome === "PASS").length,
+      failed: inspectionRows.filter((row) => row.outcome === "FAIL").length,
+      open: inspectionRows.filter((row) => row.status === "SCHEDULED" || row.status === "IN_PROGRESS").length,
+    },
+    fees: {
+      demandCount: Number(fee.demand_count || 0),
+      totalDue,
+      totalPaid,
+      outstanding: Math.max(0, totalDue - totalPaid),
+      pendingDemands,
+      allPaid: pendingDemands === 0,
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { lintWorkflow } from "./workflow-lint";
+import { resolveTransitionActions } from "./workflow-rules";
+import type { WorkflowConfig } from "./workflow";
+
+function baseWorkflow(): WorkflowConfig {
+  return {
+    workflowId: "WF_TEST",
+    version: "1.0.0",
+    states: [
+      { stateId: "DRAFT", type: "DRAFT", taskRequired: false },
+      { stateId: "SUBMITTED", type: "SYSTEM", taskRequired: false },
+      { stateId: "PENDING_AT_CLERK", type: "TASK", taskRequired: true, systemRoleId: "CLERK" },
+      { stateId: "QUERY_PENDING", type: "QUERY", taskRequired: false },
+      { stateId: "APPROVED", type: "SYSTEM", taskRequired: false },
+      { stateId: "REJECTED", type: "SYSTEM", taskRequired: false },
+      { stateId: "CLOSED", type: "END", taskRequired: false },
+    ],
+    transitions: [
+      { transitionId: "SUBMIT", fromStateId: "DRAFT", toStateId: "SUBMITTED", trigger: "manual" },
+      {
+        transitionId: "ASSIGN_CLERK",
+        fromStateId: "SUBMITTED",
+        toStateId: "PENDING_AT_CLERK",
+        trigger: "system",
+        actions: ["ASSIGN_NEXT_TASK"],
+      },
+      { transitionId: "CLERK_QUERY", fromStateId: "PENDING_AT_CLERK", toStateId: "QUERY_PENDING", trigger: "manual" },
+      { transitionId: "CLERK_APPROVE", fromStateId: "PENDING_AT_CLERK", toStateId: "APPROVED", trigger: "manual" },
+      { transitionId: "CLERK_REJECT", fromStateId: "PENDING_AT_CLERK", toStateId: "REJECTED", trigger: "manual" },
+      { transitionId: "QUERY_RESPOND", fromStateId: "QUERY_PENDING", toStateId: "PENDING_AT_CLERK", trigger: "manual" },
+      {
+        transitionId: "CLOSE_APPROVED",
+        fromStateId: "APPROVED",
+        toStateId: "CLOSED",
+        trigger: "system",
+        actions: ["GENERATE_OUTPUT_TEST_APPROVAL"],
+      },
+      {
+        transitionId: "CLOSE_REJECTED",
+        fromStateId: "REJECTED",
+        toStateId: "CLOSED",
+        trigger: "system",
+        actions: ["GENERATE_OUTPUT_TEST_REJECTION"],
+      },
+    ],
+  } as WorkflowConfig;
+}
+
+const TEMPLATES = new Set(["test_approval", "test_rejection"]);
+
+function codes(workflow: WorkflowConfig, templates = TEMPLATES): string[] {
+  return lintWorkflow(workflow, templates).map((issue) => issue.code);
+}
+
+describe("lintWorkflow", () => {
+  it("accepts a well-formed workflow", () => {
+    expect(lintWorkflow(baseWorkflow(), TEMPLATES)).toEqual([]);
+  });
+
+  it("reports unreachable and dead-end states", () => {
+    const workflow = baseWorkflow();
+    workflow.states.push({ stateId: "ORPHAN", type: "TASK", taskRequired: true, systemRoleId: "SDO" });
+    workflow.transitions = workflow.transitions.filter((t) => t.transitionId !== "QUERY_RESPOND");
+
+    const issues = lintWorkflow(workflow, TEMPLATES);
+    expect(issues).toContainEqual(expect.objectContaining({ code: "UNREACHABLE_STATE", stateId: "ORPHAN" }));
+    expect(issues).toContainEqual(expect.objectContaining({ code: "DEAD_END_STATE", stateId: "ORPHAN" }));
+    expect(issues).toContainEqual(expect.objectContaining({ code: "DEAD_END_STATE", stateId: "QUERY_PENDING" }));
+  });
+
+  it("reports transitions to undeclared states and TASK states without a role", () => {
+    const workflow = baseWorkflow();
+    workflow.transitions[2] = { ...workflow.transitions[2], toStateId: "QUERY_PENDNG" };
+    delete workflow.states[2].systemRoleId;
+
+    const issues = lintWorkflow(workflow, TEMPLATES);
+    expect(issues).toContainEqual(
+      expect.objectContaining({ code: "UNKNOWN_STATE", transitionId: "CLERK_QUERY" })
+    );
+    expect(issues).toContainEqual(expect.objectContaining({ code: "TASK_WITHOUT_ROLE", stateId: "PENDING_AT_CLERK" }));
+  });
+
+  it("reports transitions that resolve to the same officer action", () => {
+    const workflow = baseWorkflow();
+    workflow.transitions.push({
+      transitionId: "CLERK_SEND_BACK",
+      fromStateId: "PENDING_AT_CLERK",
+      toStateId: "QUERY_PENDING",
+      trigger: "manual",
+      action: "QUERY",
+    });
+
+    const issues = lintWorkflow(workflow, TEMPLATES).filter((issue) => issue.code === "DUPLICATE_ACTION");
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain("CLERK_QUERY, CLERK_SEND_BACK");
+  });
+
+  it("ignores timer transitions when matching officer actions", () => {
+    expect(
+      resolveTransitionActions({ transitionId: "AUTO_REJECT", trigger: "timer" })
+    ).toEqual([]);
+    expect(resolveTransitionActions({ transitionId: "clerk_forward", trigger: "manual" })).toEqual(["FORWARD"]);
+    expect(
+      resolveTransitionActions({ transitionId: "CLERK_FORWARD", trigger: "manual", action: "APPROVE" })
+    ).toEqual(["APPROVE"]);
+  });
+
+  it("reports missing close transitions and output templates", () => {
+    const workflow = baseWorkflow();
+    workflow.transitions = workflow.transitions.filter((t) => t.transitionId !== "CLOSE_REJECTED");
+
+    expect(codes(workflow)).toContain("MISSING_CLOSE_TRANSITION");
+    expect(codes(baseWorkflow(), new Set(["test_approval"]))).toEqual(["MISSING_OUTPUT_TEMPLATE"]);
+  });
+
+  it("checks FORK/JOIN routes and timer configuration", () => {
+    const workflow = baseWorkflow();
+    workflow.states.push(
+      { stateId: "PARALLEL_REVIEW", type: "FORK", taskRequired: true, branches: [], joinStateId: "PENDING_AT_CLERK" },
+    );
+    workflow.transitions.push(
+      { transitionId: "START_PARALLEL", fromStateId: "SUBMITTED", toStateId: "PARALLEL_REVIEW", trigger: "system" },
+      { transitionId: "PARALLEL_DONE", fromStateId: "PARALLEL_REVIEW", toStateId: "PENDING_AT_CLERK", trigger: "system" },
+      {
+        transitionId: "QUERY_EXPIRED",
+        fromStateId: "QUERY_PENDING",
+        toStateId: "REJECTED",
+        trigger: "timer",
+        timer: { basis: "NEVER" as never, afterHours: 24 },
+      }
+    );
+
+    const issues = lintWorkflow(workflow, TEMPLATES);
+    expect(issues.filter((issue) => issue.code === "INVALID_FORK").map((issue) => issue.message)).toEqual([
+      "FORK state PARALLEL_REVIEW declares no branches",
+      expect.stringContaining("needs joinStateId naming a JOIN state"),
+    ]);
+    expect(issues).toContainEqual(expect.objectContaining({ code: "INVALID_TIMER", transitionId: "QUERY_EXPIRED" }));
+  });
+
+  it("validates declared transition actions and their params", () => {
+    const workflow = baseWorkflow();
+    const assign = workflow.transitions.find((t) => t.transitionId === "ASSIGN_CLERK")!;
+    assign.actions = [
+      "ASSIGN_NEXT_TASK",
+      { type: "SCHEDULE_INSPECTION", params: { inspectionType: "SITE_VISIT" } },
+      { type: "CREATE_FEE_DEMAND", params: { feeHeadCode: "SCRUTINY_FEE" } },
+      "SEND_FAX",
+    ];
+
+    expect(lintWorkflow(workflow, TEMPLATES)).toEqual([
+      {
+        code: "INVALID_ACTION_PARAMS",
+        transitionId: "ASSIGN_CLERK",
+        message: "transition ASSIGN_CLERK: CREATE_FEE_DEMAND: amount must be a positive number",
+      },
+      { code: "UNKNOWN_ACTION", transitionId: "ASSIGN_CLERK", message: "transition ASSIGN_CLERK declares unknown action SEND_FAX" },
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Static analysis of workflow.json graphs, run during service-pack preflight.
+ *
+ * Checks:
+ *   UNKNOWN_STATE              transition references a state that is not declared
+ *   UNREACHABLE_STATE          no path from the initial (DRAFT) state
+ *   DEAD_END_STATE             non-END state without outgoing transitions
+ *   TASK_WITHOUT_ROLE          TASK state (or FORK branch) without systemRoleId
+ *   INVALID_FORK               FORK without branches or a FORK → JOIN → next route
+ *   INVALID_TIMER              timer transition without a supported timer basis
+ *   DUPLICATE_ACTION           two transitions from one state resolve to the same
+ *                              officer action in takeActionOnTask
+ *   MISSING_CLOSE_TRANSITION   APPROVED/REJECTED state without its system close
+ *                              transition to CLOSED
+ *   MISSING_OUTPUT_TEMPLATE    GENERATE_OUTPUT_* action without templates/<id>.html
+ *   UNKNOWN_ACTION             action that is neither a core nor a registered
+ *                              transition action (workflow-actions.ts)
+ *   INVALID_ACTION_PARAMS      registered action whose params fail validation
+ *
+ * Kept free of database-backed modules so scripts/preflight-service-packs.ts
+ * can run it without DATABASE_URL. The rules it checks against (officer
+ * action matching, FORK → JOIN route, timer bases, close transitions, output
+ * template ids) are the engine's own, from workflow-rules.ts and
+ * workflow-actions.ts.
+ */
+import type { WorkflowConfig, WorkflowState, WorkflowTransition } from "./workflow";
+import {
+  GENERATE_OUTPUT_ACTION_PREFIX,
+  isKnownTransitionAction,
+  templateIdFromOutputAction,
+  transitionActionName,
+  validateTransitionAction,
+} from "./workflow-actions";
+import {
+  findCloseTransition,
+  findJoinRoute,
+  resolveTransitionActions,
+  TIMER_BASES,
+  timerAfterHours,
+} from "./workflow-rules";
+
+export type WorkflowLintCode =
+  | "UNKNOWN_STATE"
+  | "UNREACHABLE_STATE"
+  | "DEAD_END_STATE"
+  | "TASK_WITHOUT_ROLE"
+  | "INVALID_FORK"
+  | "INVALID_TIMER"
+  | "DUPLICATE_ACTION"
+  | "MISSING_CLOSE_TRANSITION"
+  | "MISSING_OUTPUT_TEMPLATE"
+  | "UNKNOWN_ACTION"
+  | "INVALID_ACTION_PARAMS";
+
+export interface WorkflowLintIssue {
+  code: WorkflowLintCode;
+  message: string;
+  stateId?: string;
+  transitionId?: string;
+}
+
+/**
+ * Lint a workflow definition. `templateIds` lists the template files present
+ * in the pack's templates/ directory (without the .html extension).
+ */
+export function lintWorkflow(workflow: WorkflowConfig, templateIds: Set<string>): WorkflowLintIssue[] {
+  const issues: WorkflowLintIssue[] = [];
+  const states: WorkflowState[] = Array.isArray(workflow?.states) ? workflow.states : [];
+  const transitions: WorkflowTransition[] = Array.isArray(workflow?.transitions) ? workflow.transitions : [];
+  const stateIds = new Set(states.map((state) => state.stateId));
+
+  for (const transition of transitions) {
+    for (const [end, stateId] of [["fromStateId", transition.fromStateId], ["toStateId", transition.toStateId]]) {
+      if (!stateIds.has(stateId)) {
+        issues.push({
+          code: "UNKNOWN_STATE",
+          transitionId: transition.transitionId,
+          message: `transition ${transition.transitionId} ${end} "${stateId}" is not a declared state`,
+        });
+      }
+    }
+  }
+
+  // Reachability from the initial state over every transition (manual, system, timer)
+  const initial = states.find((state) => state.type === "DRAFT") || states[0];
+  if (initial) {
+    const reachable = new Set<string>([initial.stateId]);
+    const queue = [initial.stateId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const transition of transitions) {
+        if (transition.fromStateId !== current || reachable.has(transition.toStateId)) continue;
+        reachable.add(transition.toStateId);
+        queue.push(transition.toStateId);
+      }
+    }
+    for (const state of states) {
+      if (!reachable.has(state.stateId)) {
+        issues.push({
+          code: "UNREACHABLE_STATE",
+          stateId: state.stateId,
+          message: `state ${state.stateId} cannot be reached from ${initial.stateId}`,
+        });
+      }
+    }
+  }
+
+  for (const state of states) {
+    if (state.type !== "END" && !transitions.some((transition) => transition.fromStateId === state.stateId)) {
+      issues.push({
+        code: "DEAD_END_STATE",
+        stateId: state.stateId,
+        message: `state ${state.stateId} (${state.type}) has no outgoing transitions and is not an END state`,
+      });
+    }
+  }
+
+  for (const state of states) {
+    if (state.type === "TASK" && !state.systemRoleId) {
+      issues.push({
+        code: "TASK_WITHOUT_ROLE",
+        stateId: state.stateId,
+        message: `TASK state ${state.stateId} has no systemRoleId`,
+      });
+    }
+    if (state.type !== "FORK") continue;
+    const branches = Array.isArray(state.branches) ? state.branches : [];
+    if (branches.length === 0) {
+      issues.push({
+        code: "INVALID_FORK",
+        stateId: state.stateId,
+        message: `FORK state ${state.stateId} declares no branches`,
+      });
+    }
+    for (const branch of branches) {
+      if (!branch.systemRoleId) {
+        issues.push({
+          code: "TASK_WITHOUT_ROLE",
+          stateId: state.stateId,
+          message: `FORK state ${state.stateId} branch ${branch.branchId || "?"} has no systemRoleId`,
+        });
+      }
+    }
+    if (!findJoinRoute({ states, transitions }, state)) {
+      issues.push({
+        code: "INVALID_FORK",
+        stateId: state.stateId,
+        message: `FORK state ${state.stateId} needs joinStateId naming a JOIN state, a system transition into it and a system exit transition from it`,
+      });
+    }
+  }
+
+  for (const transition of transitions) {
+    if (transition.trigger === "timer" && timerAfterHours(transition.timer) === null) {
+      issues.push({
+        code: "INVALID_TIMER",
+        transitionId: transition.transitionId,
+        message: `timer transition ${transition.transitionId} needs timer.basis ${TIMER_BASES.join(", ")} and a non-negative afterHours`,
+      });
+    }
+  }
+
+  for (const state of states) {
+    const byAction = new Map<string, string[]>();
+    for (const transition of transitions) {
+      if (transition.fromStateId !== state.stateId) continue;
+      for (const action of resolveTransitionActions(transition)) {
+        byAction.set(action, [...(byAction.get(action) || []), transition.transitionId]);
+      }
+    }
+    for (const [action, transitionIds] of byAction) {
+      if (transitionIds.length < 2) continue;
+      issues.push({
+        code: "DUPLICATE_ACTION",
+        stateId: state.stateId,
+        message: `state ${state.stateId} has ${transitionIds.length} transitions for action ${action} (${transitionIds.join(", ")}); only ${transitionIds[0]} can ever run`,
+      });
+    }
+  }
+
+  for (const decisionState of ["APPROVED", "REJECTED"] as const) {
+    if (!stateIds.has(decisionState)) continue;
+    const close = findCloseTransition(transitions, decisionState);
+    if (!close) {
+      issues.push({
+        code: "MISSING_CLOSE_TRANSITION",
+        stateId: decisionState,
+        message: `state ${decisionState} has no ${decisionState === "APPROVED" ? "CLOSE_APPROVED" : "CLOSE_REJECTED"} system transition to CLOSED`,
+      });
+    }
+  }
+
+  for (const transition of transitions) {
+    for (const entry of transition.actions || []) {
+      const action = transitionActionName(entry);
+      if (!isKnownTransitionAction(action)) {
+        issues.push({
+          code: "UNKNOWN_ACTION",
+          transitionId: transition.transitionId,
+          message: `transition ${transition.transitionId} declares unknown action ${action || "(no type)"}`,
+        });
+        continue;
+      }
+      const problems = validateTransitionAction(entry);
+      if (problems.length > 0) {
+        issues.push({
+          code: "INVALID_ACTION_PARAMS",
+          transitionId: transition.transitionId,
+          message: `transition ${transition.transitionId}: ${problems.join("; ")}`,
+        });
+      }
+      if (!action.startsWith(GENERATE_OUTPUT_ACTION_PREFIX)) continue;
+      const templateId = templateIdFromOutputAction(action);
+      if (!templateId || !templateIds.has(templateId)) {
+        issues.push({
+          code: "MISSING_OUTPUT_TEMPLATE",
+          transitionId: transition.transitionId,
+          message: `transition ${transition.transitionId} action ${action} has no matching templates/${templateId || "?"}.html`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from "vitest";
+import type pg from "pg";
+import { completeBranchTask, isQuorumReached, resolveQuorum } from "./workflow-parallel";
+import { findJoinRoute } from "./workflow-rules";
+import type { WorkflowConfig } from "./workflow";
+
+const WORKFLOW: WorkflowConfig = {
+  workflowId: "WF_TEST_PARALLEL",
+  version: "1.0.0",
+  states: [
+    { stateId: "PENDING_AT_CLERK", type: "TASK", taskRequired: true, systemRoleId: "CLERK", slaDays: 2 },
+    {
+      stateId: "PARALLEL_REVIEW",
+      type: "FORK",
+      taskRequired: true,
+      slaDays: 3,
+      branches: [
+        { branchId: "ENGINEERING", systemRoleId: "JUNIOR_ENGINEER" },
+        { branchId: "ACCOUNTS", systemRoleId: "ACCOUNT_OFFICER" },
+        { branchId: "PLANNING", systemRoleId: "DRAFTSMAN" },
+      ],
+      joinStateId: "PARALLEL_REVIEW_DONE",
+    },
+    { stateId: "PARALLEL_REVIEW_DONE", type: "JOIN", taskRequired: false, quorum: 2 },
+    { stateId: "PENDING_AT_SDO", type: "TASK", taskRequired: true, systemRoleId: "SDO", slaDays: 2 },
+  ],
+  transitions: [
+    {
+      transitionId: "CLERK_FORWARD",
+      fromStateId: "PENDING_AT_CLERK",
+      toStateId: "PARALLEL_REVIEW",
+      trigger: "manual",
+      actions: ["ASSIGN_NEXT_TASK"],
+    },
+    { transitionId: "PARALLEL_REVIEW_JOIN", fromStateId: "PARALLEL_REVIEW", toStateId: "PARALLEL_REVIEW_DONE", trigger: "system" },
+    {
+      transitionId: "PARALLEL_REVIEW_ROUTE",
+      fromStateId: "PARALLEL_REVIEW_DONE",
+      toStateId: "PENDING_AT_SDO",
+      trigger: "system",
+      actions: ["ASSIGN_NEXT_TASK"],
+    },
+  ],
+};
+
+describe("resolveQuorum / isQuorumReached", () => {
+  it("requires every branch when no quorum is configured", () => {
+    expect(resolveQuorum(3)).toBe(3);
+    expect(isQuorumReached(2, 3)).toBe(false);
+    expect(isQuorumReached(3, 3)).toBe(true);
+  });
+
+  it("honours a configured quorum", () => {
+    expect(isQuorumReached(1, 3, 2)).toBe(false);
+    expect(isQuorumReached(2, 3, 2)).toBe(true);
+  });
+
+  it("caps the quorum at the number of branches and ignores invalid values", () => {
+    expect(resolveQuorum(2, 5)).toBe(2);
+    expect(resolveQuorum(3, 0)).toBe(3);
+    expect(resolveQuorum(3, 1.5)).toBe(3);
+  });
+});
+
+describe("findJoinRoute", () => {
+  it("resolves the FORK → JOIN and JOIN → next system transitions", () => {
+    const forkState = WORKFLOW.states.find((state) => state.stateId === "PARALLEL_REVIEW")!;
+    const route = findJoinRoute(WORKFLOW, forkState);
+    expect(route?.joinState.stateId).toBe("PARALLEL_REVIEW_DONE");
+    expect(route?.joinTransitionId).toBe("PARALLEL_REVIEW_JOIN");
+    expect(route?.exitTransitionId).toBe("PARALLEL_REVIEW_ROUTE");
+  });
+
+  it("returns null when the join exit transition is missing", () => {
+    const forkState = WORKFLOW.states.find((state) => state.stateId === "PARALLEL_REVIEW")!;
+    const workflow = {
+      ...WORKFLOW,
+      transitions: WORKFLOW.transitions.filter((t) => t.transitionId !== "PARALLEL_REVIEW_ROUTE"),
+    };
+    expect(findJoinRoute(workflow, forkState)).toBeNull();
+  });
+});
+
+describe("completeBranchTask", () => {
+  // The last open branch of a two-branch review whose join exits straight to APPROVED
+  const joinWorkflow: WorkflowConfig = {
+    workflowId: "WF_TEST_JOIN",
+    version: "1.0.0",
+    states: [
+      {
+        stateId: "PARALLEL_REVIEW",
+        type: "FORK",
+        taskRequired: true,
+        branches: [
+          { branchId: "ENGINEERING", systemRoleId: "JUNIOR_ENGINEER" },
+          { branchId: "ACCOUNTS", systemRoleId: "ACCOUNT_OFFICER" },
+        ],
+        joinStateId: "PARALLEL_REVIEW_DONE",
+      },
+      { stateId: "PARALLEL_REVIEW_DONE", type: "JOIN", taskRequired: false },
+      { stateId: "APPROVED", type: "END", taskRequired: false },
+    ],
+    transitions: [
+      { transitionId: "PARALLEL_REVIEW_JOIN", fromStateId: "PARALLEL_REVIEW", toStateId: "PARALLEL_REVIEW_DONE", trigger: "system" },
+      { transitionId: "PARALLEL_REVIEW_ROUTE", fromStateId: "PARALLEL_REVIEW_DONE", toStateId: "APPROVED", trigger: "system" },
+    ],
+  };
+
+  function callerClient() {
+    let stateId = "PARALLEL_REVIEW";
+    const statements: Array<{ text: string; params?: unknown[] }> = [];
+    const client = {
+      query: vi.fn(async (text: string, params?: unknown[]) => {
+        statements.push({ text, params });
+        if (text.includes("FROM task WHERE task_id")) {
+          return {
+            rows: [
+              {
+                task_id: "task-2",
+                arn: "ARN-1",
+                state_id: "PARALLEL_REVIEW",
+                branch_id: "ACCOUNTS",
+                parallel_group_id: "group-1",
+                assignee_user_id: "officer-1",
+                status: "IN_PROGRESS",
+              },
+            ],
+          };
+        }
+        if (text.includes("FROM application WHERE arn = $1 FOR UPDATE")) {
+          return {
+            rows: [
+              {
+                arn: "ARN-1",
+                public_arn: "PUDA/2026/000001",
+                applicant_user_id: "citizen-1",
+                state_id: stateId,
+                service_key: "registration_of_architect",
+                service_version: "1.0.0",
+                authority_id: "PUDA",
+                query_count: 0,
+                data_jsonb: {},
+                row_version: 1,
+              },
+            ],
+          };
+        }
+        if (text.includes("SELECT config_jsonb")) return { rows: [{ config_jsonb: { workflow: joinWorkflow } }] };
+        if (text.includes("COUNT(*)::int AS total")) return { rows: [{ total: 2, completed: 2 }] };
+        if (text.includes("UPDATE application SET state_id")) stateId = params?.[0] as string;
+        if (text.includes("SELECT public_arn FROM application")) return { rows: [{ public_arn: "PUDA/2026/000001" }] };
+        return { rows: [], rowCount: 1 };
+      }),
+    } as unknown as pg.PoolClient;
+    return { client, statements };
+  }
+
+  it("joins on the caller's transaction and queues the applicant notification there", async () => {
+    const { client, statements } = callerClient();
+
+    const result = await completeBranchTask("task-2", "officer-1", "Accounts cleared", undefined, client);
+
+    expect(result).toEqual({ success: true, arn: "ARN-1", newStateId: "APPROVED", joined: true });
+    const notify = statements.find((statement) => statement.text.includes("INSERT INTO outbox"));
+    expect(notify?.params?.slice(1, 3)).toEqual(["ARN-1", "NOTIFY"]);
+    expect(JSON.parse(notify?.params?.[3] as string)).toEqual({ event: "APPLICATION_APPROVED", arn: "PUDA/2026/000001" });
+    // The caller owns the transaction: nothing here begins, commits or rolls it back
+    expect(statements.map((statement) => statement.text)).not.toContain("COMMIT");
+    expect(statements.map((statement) => statement.text)).not.toContain("BEGIN");
+  });
+});
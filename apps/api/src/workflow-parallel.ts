@@ -0,0 +1,208 @@
+/**
+ * Parallel review branches (fork/join).
+ *
+ * A FORK state lists `branches`; entering it via ASSIGN_NEXT_TASK spawns one
+ * task per branch sharing a parallel_group_id while the application stays in
+ * the FORK state. Forwarding a branch task completes only that branch. Once
+ * the JOIN state's quorum of branches is complete, the remaining branch tasks
+ * are cancelled and the engine runs the system transitions FORK → JOIN → next.
+ *
+ * QUERY / REJECT from a branch task use the FORK state's ordinary manual
+ * transitions; leaving the FORK state cancels the other open branches.
+ */
+import type pg from "pg";
+import { getClient } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { logError, logInfo } from "./logger";
+import { enqueueTransitionNotification, executeTransition, type WorkflowConfig } from "./workflow";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+import { findJoinRoute } from "./workflow-rules";
+
+/** Branch completions needed to join. Invalid or missing quorum means "all branches". */
+export function resolveQuorum(totalBranches: number, quorum?: number): number {
+  if (!quorum || !Number.isInteger(quorum) || quorum < 1) return totalBranches;
+  return Math.min(quorum, totalBranches);
+}
+
+export function isQuorumReached(completedBranches: number, totalBranches: number, quorum?: number): boolean {
+  if (totalBranches === 0) return true;
+  return completedBranches >= resolveQuorum(totalBranches, quorum);
+}
+
+export interface BranchCompletionResult {
+  success: boolean;
+  arn?: string;
+  newStateId?: string;
+  joined?: boolean;
+  error?: string;
+}
+
+/**
+ * Complete one branch task of a parallel review. Joins the application when
+ * the branch quorum is reached. The caller has already claimed the task; when
+ * it passes its own client, it also commits or rolls back.
+ */
+export async function completeBranchTask(
+  taskId: string,
+  userId: string,
+  remarks?: string,
+  verificationData?: Record<string, any>,
+  existingClient?: pg.PoolClient
+): Promise<BranchCompletionResult> {
+  const owned = !existingClient;
+  const client = existingClient ?? await getClient();
+  try {
+    if (owned) {
+      await client.query("BEGIN");
+      discardAfterCommit(client);
+    }
+    await client.query("SET LOCAL lock_timeout = '5s'");
+
+    const taskResult = await client.query(
+      "SELECT task_id, arn, state_id, branch_id, parallel_group_id, assignee_user_id, status FROM task WHERE task_id = $1",
+      [taskId]
+    );
+    const task = taskResult.rows[0];
+    if (!task || !task.parallel_group_id) {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: "TASK_NOT_FOUND" };
+    }
+
+    // Lock the application so concurrent branch completions join exactly once
+    const appResult = await client.query(
+      "SELECT arn, state_id, service_key, service_version FROM application WHERE arn = $1 FOR UPDATE",
+      [task.arn]
+    );
+    const app = appResult.rows[0];
+    if (!app || app.state_id !== task.state_id) {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: "INVALID_STATE" };
+    }
+    if (task.status !== "PENDING" && task.status !== "IN_PROGRESS") {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: "TASK_NOT_OPEN" };
+    }
+    if (task.assignee_user_id && task.assignee_user_id !== userId) {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: "TASK_NOT_ASSIGNED_TO_USER" };
+    }
+
+    const configResult = await client.query(
+      "SELECT config_jsonb FROM service_version WHERE service_key = $1 AND version = $2",
+      [app.service_key, app.service_version]
+    );
+    const workflow: WorkflowConfig | undefined = configResult.rows[0]?.config_jsonb?.workflow;
+    const forkState = workflow?.states.find((state) => state.stateId === task.state_id);
+    if (!workflow || !forkState || forkState.type !== "FORK") {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: "WORKFLOW_NOT_FOUND" };
+    }
+    const route = findJoinRoute(workflow, forkState);
+    if (!route) {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: "JOIN_NOT_CONFIGURED" };
+    }
+
+    await client.query(
+      "UPDATE task SET status = 'COMPLETED', completed_at = NOW(), decision = 'FORWARD', remarks = $1, verification_data = COALESCE($2, verification_data) WHERE task_id = $3",
+      [remarks || null, verificationData ? JSON.stringify(verificationData) : null, taskId]
+    );
+
+    const groupResult = await client.query(
+      `SELECT COUNT(*)::int AS total,
+              COUNT(*) FILTER (WHERE status = 'COMPLETED')::int AS completed
+         FROM task
+        WHERE parallel_group_id = $1`,
+      [task.parallel_group_id]
+    );
+    const total = Number(groupResult.rows[0]?.total || 0);
+    const completed = Number(groupResult.rows[0]?.completed || 0);
+    const quorum = resolveQuorum(total, route.joinState.quorum);
+
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+      [
+        uuidv4(),
+        task.arn,
+        "BRANCH_TASK_COMPLETED",
+        "OFFICER",
+        userId,
+        JSON.stringify({
+          stateId: task.state_id,
+          branchId: task.branch_id,
+          taskId,
+          parallelGroupId: task.parallel_group_id,
+          completed,
+          quorum,
+          remarks,
+        }),
+      ]
+    );
+
+    if (!isQuorumReached(completed, total, route.joinState.quorum)) {
+      if (owned) await client.query("COMMIT");
+      return { success: true, arn: task.arn, newStateId: task.state_id, joined: false };
+    }
+
+    // Quorum reached: FORK → JOIN (cancels open branches) → next state
+    const joinResult = await executeTransition(
+      task.arn, route.joinTransitionId, "system", "SYSTEM", [], remarks, undefined, client
+    );
+    if (!joinResult.success) {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: joinResult.error };
+    }
+    const exitResult = await executeTransition(
+      task.arn, route.exitTransitionId, "system", "SYSTEM", [], undefined, undefined, client
+    );
+    if (!exitResult.success) {
+      if (owned) await client.query("ROLLBACK");
+      return { success: false, error: exitResult.error };
+    }
+    // Nested transitions leave the applicant notification to their caller:
+    // queue it for the state the join ended in, on whichever transaction commits it
+    await enqueueTransitionNotification(client, task.arn, route.exitTransitionId, exitResult.newStateId!);
+
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+      [
+        uuidv4(),
+        task.arn,
+        "PARALLEL_REVIEW_JOINED",
+        "SYSTEM",
+        "system",
+        JSON.stringify({
+          stateId: task.state_id,
+          joinStateId: route.joinState.stateId,
+          parallelGroupId: task.parallel_group_id,
+          completed,
+          total,
+          quorum,
+          toState: exitResult.newStateId,
+        }),
+      ]
+    );
+
+    if (owned) {
+      await client.query("COMMIT");
+      await runAfterCommit(client);
+    }
+    logInfo("Parallel review joined", {
+      arn: task.arn,
+      parallelGroupId: task.parallel_group_id,
+      completed,
+      total,
+      newStateId: exitResult.newStateId,
+    });
+    return { success: true, arn: task.arn, newStateId: exitResult.newStateId, joined: true };
+  } catch (error: any) {
+    if (owned) await client.query("ROLLBACK");
+    logError("Branch task completion failed", {
+      taskId,
+      error: error?.message || "unknown_error",
+    });
+    return { success: false, error: error?.message || "unknown_error" };
+  } finally {
+    if (owned) client.release();
+  }
+}
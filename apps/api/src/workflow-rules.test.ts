@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  actingRolesForTask,
+  findActionTransition,
+  findCloseTransition,
+  needsFallbackTask,
+  plannedTasksForState,
+  transitionRefusal,
+} from "./workflow-rules";
+import type { WorkflowConfig, WorkflowTransition } from "./workflow";
+
+const WORKFLOW: WorkflowConfig = {
+  workflowId: "WF_TEST_RULES",
+  version: "1.0.0",
+  states: [
+    { stateId: "PENDING_AT_CLERK", type: "TASK", taskRequired: true, systemRoleId: "CLERK", slaDays: 2 },
+    {
+      stateId: "PARALLEL_REVIEW",
+      type: "FORK",
+      taskRequired: true,
+      slaDays: 5,
+      branches: [
+        { branchId: "ENGINEERING", systemRoleId: "JUNIOR_ENGINEER", slaDays: 3 },
+        { branchId: "ACCOUNTS", systemRoleId: "ACCOUNT_OFFICER" },
+      ],
+    },
+    { stateId: "APPROVED", type: "TASK", taskRequired: false },
+  ],
+  transitions: [
+    { transitionId: "AUTO_FORWARD", fromStateId: "PENDING_AT_CLERK", toStateId: "PARALLEL_REVIEW", trigger: "timer" },
+    {
+      transitionId: "CLERK_FORWARD",
+      fromStateId: "PENDING_AT_CLERK",
+      toStateId: "PARALLEL_REVIEW",
+      trigger: "manual",
+      allowedActorTypes: ["OFFICER"],
+      allowedSystemRoleIds: ["CLERK"],
+    },
+    { transitionId: "CLERK_SEND_BACK", fromStateId: "PENDING_AT_CLERK", toStateId: "PENDING_AT_CLERK", trigger: "manual", action: "QUERY" },
+    { transitionId: "CLOSE_APPROVED", fromStateId: "APPROVED", toStateId: "CLOSED", trigger: "system" },
+  ],
+};
+
+const forward = WORKFLOW.transitions[1];
+
+describe("transitionRefusal", () => {
+  it("allows an officer holding an allowed role in the source state", () => {
+    expect(transitionRefusal(forward, "PENDING_AT_CLERK", "OFFICER", ["CLERK"])).toBeNull();
+  });
+
+  it("returns the engine's error codes", () => {
+    expect(transitionRefusal(forward, "APPROVED", "OFFICER", ["CLERK"])).toBe("INVALID_STATE");
+    expect(transitionRefusal(forward, "PENDING_AT_CLERK", "SYSTEM", [])).toBe("INVALID_TRIGGER");
+    expect(transitionRefusal(WORKFLOW.transitions[0], "PENDING_AT_CLERK", "OFFICER", ["CLERK"])).toBe("INVALID_TRIGGER");
+    expect(transitionRefusal(forward, "PENDING_AT_CLERK", "CITIZEN", [])).toBe("UNAUTHORIZED_ACTOR_TYPE");
+    expect(transitionRefusal(forward, "PENDING_AT_CLERK", "OFFICER", ["SDO"])).toBe("UNAUTHORIZED_ROLE");
+  });
+});
+
+describe("findActionTransition / actingRolesForTask", () => {
+  it("matches the declared action, then the suffix, skipping timers", () => {
+    expect(findActionTransition(WORKFLOW, "PENDING_AT_CLERK", "FORWARD")?.transitionId).toBe("CLERK_FORWARD");
+    expect(findActionTransition(WORKFLOW, "PENDING_AT_CLERK", "QUERY")?.transitionId).toBe("CLERK_SEND_BACK");
+    expect(findActionTransition(WORKFLOW, "PENDING_AT_CLERK", "APPROVE")).toBeUndefined();
+  });
+
+  it("adds the state's role for a holder of an escalated task's role", () => {
+    const task = { stateId: "PENDING_AT_CLERK", systemRoleId: "SDO" };
+    expect(actingRolesForTask(WORKFLOW, task, ["SDO"])).toEqual(["SDO", "CLERK"]);
+    expect(actingRolesForTask(WORKFLOW, task, ["JUNIOR_ENGINEER"])).toEqual(["JUNIOR_ENGINEER"]);
+  });
+});
+
+describe("plannedTasksForState / needsFallbackTask", () => {
+  it("plans one task per FORK branch with the branch SLA, else the state's", () => {
+    expect(plannedTasksForState(WORKFLOW.states[1])).toEqual([
+      { systemRoleId: "JUNIOR_ENGINEER", slaDays: 3, branchId: "ENGINEERING" },
+      { systemRoleId: "ACCOUNT_OFFICER", slaDays: 5, branchId: "ACCOUNTS" },
+    ]);
+    expect(plannedTasksForState(WORKFLOW.states[0])).toEqual([{ systemRoleId: "CLERK", slaDays: 2 }]);
+    expect(plannedTasksForState(WORKFLOW.states[2])).toEqual([]);
+  });
+
+  it("only applies the safety net when ASSIGN_NEXT_TASK is missing", () => {
+    expect(needsFallbackTask(WORKFLOW.states[0], ["RAISE_QUERY"])).toBe(true);
+    expect(needsFallbackTask(WORKFLOW.states[0], ["ASSIGN_NEXT_TASK"])).toBe(false);
+    expect(needsFallbackTask(WORKFLOW.states[2], [])).toBe(false);
+  });
+});
+
+describe("findCloseTransition", () => {
+  it("prefers CLOSE_* and falls back to a system move to CLOSED", () => {
+    expect(findCloseTransition(WORKFLOW.transitions, "APPROVED")?.transitionId).toBe("CLOSE_APPROVED");
+    const transitions: WorkflowTransition[] = [
+      { transitionId: "FINISH_REJECTED", fromStateId: "REJECTED", toStateId: "CLOSED", trigger: "system" },
+    ];
+    expect(findCloseTransition(transitions, "REJECTED")?.transitionId).toBe("FINISH_REJECTED");
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Pure workflow engine rules.
+ *
+ * The decisions the engine makes from a workflow definition alone — whether
+ * an actor may run a transition, which transition an officer action resolves
+ * to, which tasks a state spawns, how a FORK joins, how a decision state
+ * closes and how a timer transition behaves — without reading the database.
+ * workflow.ts, tasks.ts, workflow-parallel.ts and workflow-timers.ts apply
+ * them to stored applications; workflow-simulation.ts applies them to its
+ * in-memory one.
+ */
+import type {
+  WorkflowConfig,
+  WorkflowState,
+  WorkflowTimer,
+  WorkflowTransition,
+  WorkflowActionEntry,
+} from "./workflow";
+import { transitionActionName } from "./workflow-actions";
+
+export const OFFICER_ACTIONS = ["FORWARD", "QUERY", "APPROVE", "REJECT"] as const;
+export type OfficerAction = (typeof OFFICER_ACTIONS)[number];
+
+export type WorkflowActorType = "CITIZEN" | "OFFICER" | "SYSTEM";
+
+export const TIMER_BASES: WorkflowTimer["basis"][] = ["QUERY_RESPONSE_DUE", "TASK_SLA_DUE", "STATE_ENTERED"];
+
+/**
+ * Why the actor may not run the transition from the current state, or null
+ * when it may. Guards (guardRuleIds) are evaluated separately.
+ */
+export function transitionRefusal(
+  transition: WorkflowTransition,
+  currentStateId: string,
+  actorType: WorkflowActorType,
+  actorSystemRoles: string[]
+): string | null {
+  if (transition.fromStateId !== currentStateId) return "INVALID_STATE";
+  if (transition.trigger === "manual" && actorType === "SYSTEM") return "INVALID_TRIGGER";
+  if (transition.trigger === "timer" && actorType !== "SYSTEM") return "INVALID_TRIGGER";
+  if (transition.allowedActorTypes && !transition.allowedActorTypes.includes(actorType)) {
+    return "UNAUTHORIZED_ACTOR_TYPE";
+  }
+  if (transition.allowedSystemRoleIds && actorType === "OFFICER") {
+    if (!transition.allowedSystemRoleIds.some((role) => actorSystemRoles.includes(role))) {
+      return "UNAUTHORIZED_ROLE";
+    }
+  }
+  return null;
+}
+
+/**
+ * Officer actions a transition answers to: the declared `action`, else the
+ * transitionId suffix. Timer transitions never match.
+ */
+export function resolveTransitionActions(transition: Pick<WorkflowTransition, "transitionId" | "trigger" | "action">): string[] {
+  if (transition.trigger === "timer") return [];
+  if (transition.action) return [transition.action];
+  const id = transition.transitionId.toUpperCase();
+  return OFFICER_ACTIONS.filter((action) => id.endsWith(`_${action}`) || id === action);
+}
+
+/** The transition an officer task action runs from a state: the first one answering to the action. */
+export function findActionTransition(
+  workflow: Pick<WorkflowConfig, "transitions">,
+  stateId: string,
+  action: string
+): WorkflowTransition | undefined {
+  return (workflow.transitions || []).find(
+    (transition) => transition.fromStateId === stateId && resolveTransitionActions(transition).includes(action)
+  );
+}
+
+/**
+ * Roles an officer acts with on a task. Escalated or reassigned tasks carry a
+ * different role than their state; holding the task's role entitles the
+ * officer to act for the state's configured role too.
+ */
+export function actingRolesForTask(
+  workflow: Pick<WorkflowConfig, "states">,
+  task: { stateId: string; systemRoleId: string },
+  systemRoles: string[]
+): string[] {
+  const stateRoleId = (workflow.states || []).find((state) => state.stateId === task.stateId)?.systemRoleId;
+  return stateRoleId && stateRoleId !== task.systemRoleId && systemRoles.includes(task.systemRoleId)
+    ? [...systemRoles, stateRoleId]
+    : systemRoles;
+}
+
+export interface PlannedTask {
+  systemRoleId: string;
+  slaDays?: number;
+  branchId?: string;
+}
+
+/**
+ * Tasks ASSIGN_NEXT_TASK creates on entering a state: one per branch of a
+ * FORK (branch SLA, else the state's), one for the role of any other
+ * task-required state, none otherwise.
+ */
+export function plannedTasksForState(state: WorkflowState | undefined): PlannedTask[] {
+  if (!state?.taskRequired) return [];
+  if (state.type === "FORK") {
+    return (state.branches || []).map((branch) => ({
+      systemRoleId: branch.systemRoleId,
+      slaDays: branch.slaDays ?? state.slaDays,
+      branchId: branch.branchId,
+    }));
+  }
+  return state.systemRoleId ? [{ systemRoleId: state.systemRoleId, slaDays: state.slaDays }] : [];
+}
+
+/**
+ * Whether entering the target state needs the ASSIGN_NEXT_TASK safety net: a
+ * task-required state reached by a transition that forgot the action. The
+ * engine only applies it when the state has no open task yet.
+ */
+export function needsFallbackTask(targetState: WorkflowState | undefined, actions: WorkflowActionEntry[] = []): boolean {
+  return Boolean(
+    targetState?.taskRequired &&
+      (targetState.systemRoleId || targetState.type === "FORK") &&
+      !actions.some((entry) => transitionActionName(entry) === "ASSIGN_NEXT_TASK")
+  );
+}
+
+/** Leaving a FORK state withdraws the branch tasks that are still open. */
+export function leavesFork(workflow: Pick<WorkflowConfig, "states">, fromStateId: string, toStateId: string): boolean {
+  const source = (workflow.states || []).find((state) => state.stateId === fromStateId);
+  return source?.type === "FORK" && toStateId !== fromStateId;
+}
+
+/**
+ * Find the system transitions that move a FORK state through its JOIN state.
+ * Returns null when the workflow is missing either transition.
+ */
+export function findJoinRoute(
+  workflow: Pick<WorkflowConfig, "states" | "transitions">,
+  forkState: WorkflowState
+): { joinState: WorkflowState; joinTransitionId: string; exitTransitionId: string } | null {
+  if (!forkState.joinStateId) return null;
+  const joinState = workflow.states.find((state) => state.stateId === forkState.joinStateId);
+  if (!joinState || joinState.type !== "JOIN") return null;
+  const joinTransition = workflow.transitions.find(
+    (t) => t.fromStateId === forkState.stateId && t.toStateId === joinState.stateId && t.trigger === "system"
+  );
+  const exitTransition = workflow.transitions.find(
+    (t) => t.fromStateId === joinState.stateId && t.trigger === "system"
+  );
+  if (!joinTransition || !exitTransition) return null;
+  return {
+    joinState,
+    joinTransitionId: joinTransition.transitionId,
+    exitTransitionId: exitTransition.transitionId,
+  };
+}
+
+/** The system transition that closes a decision state: CLOSE_APPROVED / CLOSE_REJECTED, else any system move to CLOSED. */
+export function findCloseTransition<T extends Pick<WorkflowTransition, "transitionId" | "fromStateId" | "toStateId"> & { trigger?: string }>(
+  transitions: T[],
+  decisionState: "APPROVED" | "REJECTED"
+): T | undefined {
+  const expectedId = decisionState === "APPROVED" ? "CLOSE_APPROVED" : "CLOSE_REJECTED";
+  return (
+    transitions.find((transition) => transition.transitionId === expectedId) ||
+    transitions.find(
+      (transition) =>
+        transition.fromStateId === decisionState &&
+        transition.toStateId === "CLOSED" &&
+        transition.trigger === "system"
+    )
+  );
+}
+
+/** Grace period of a timer with a supported basis, or null when the timer cannot fire. */
+export function timerAfterHours(timer: WorkflowTimer | undefined): number | null {
+  if (!timer || !TIMER_BASES.includes(timer.basis)) return null;
+  const afterHours = Number(timer.afterHours ?? 0);
+  return Number.isFinite(afterHours) && afterHours >= 0 ? afterHours : null;
+}
+
+/** Decision recorded when a timer moves the application into a decision state. */
+export function timerDecision(toStateId: string): "APPROVE" | "REJECT" | undefined {
+  if (toStateId === "APPROVED") return "APPROVE";
+  if (toStateId === "REJECTED") return "REJECT";
+  return undefined;
+}
+
+/** Citizen notification sent after a timer transition fires. */
+export function timerNotificationEvent(timer: WorkflowTimer): string {
+  return timer.notificationEvent || (timer.basis === "QUERY_RESPONSE_DUE" ? "QUERY_DEADLINE_EXPIRED" : "APPLICATION_ESCALATED");
+}
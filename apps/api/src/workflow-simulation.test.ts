@@ -0,0 +1,236 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { simulateWorkflow } from "./workflow-simulation";
+import type { WorkflowConfig } from "./workflow";
+
+const ndcWorkflow: WorkflowConfig = JSON.parse(
+  readFileSync(
+    path.resolve(__dirname, "..", "..", "..", "service-packs", "no_due_certificate", "workflow.json"),
+    "utf-8"
+  )
+);
+
+function loadPackFile<T>(serviceKey: string, file: string): T {
+  return JSON.parse(
+    readFileSync(path.resolve(__dirname, "..", "..", "..", "service-packs", serviceKey, file), "utf-8")
+  );
+}
+
+// Friday, so a one-working-day SLA lands on Monday
+const START_AT = new Date("2026-10-16T06:00:00.000Z");
+
+describe("simulateWorkflow", () => {
+  it("walks the happy path through disposal without a database", () => {
+    const result = simulateWorkflow({
+      serviceKey: "no_due_certificate",
+      workflow: ndcWorkflow,
+      startAt: START_AT,
+      steps: [
+        { transitionId: "SUBMIT" },
+        { action: "FORWARD", systemRoles: ["CLERK"] },
+        { action: "FORWARD", systemRoles: ["SENIOR_ASSISTANT"] },
+        { action: "APPROVE", systemRoles: ["ACCOUNT_OFFICER"] },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.finalStateId).toBe("CLOSED");
+    expect(result.steps[0].transitions.map((t) => t.transitionId)).toEqual(["SUBMIT", "ASSIGN_CLERK"]);
+    expect(result.steps[0].tasksCreated[0]).toMatchObject({
+      stateId: "PENDING_AT_CLERK",
+      systemRoleId: "CLERK",
+      assignmentStrategy: "STICKY",
+      slaDueAt: "2026-10-19T06:00:00.000Z",
+    });
+    const approval = result.steps[3];
+    expect(approval.transitions.map((t) => t.transitionId)).toEqual(["ACCOUNT_OFFICER_APPROVE", "CLOSE_APPROVED"]);
+    expect(approval.tasksClosed).toEqual([expect.objectContaining({ systemRoleId: "ACCOUNT_OFFICER", status: "COMPLETED" })]);
+    expect(approval.decisions).toEqual([{ decisionType: "APPROVE", transitionId: "ACCOUNT_OFFICER_APPROVE" }]);
+    expect(approval.notices).toEqual([{ noticeType: "APPROVAL", templateCode: "APPROVAL_NOTICE" }]);
+    expect(approval.outputs).toEqual([
+      { templateId: "ndc_approval", outputAction: "GENERATE_OUTPUT_NDC_APPROVAL", decisionState: "APPROVED" },
+    ]);
+    expect(result.openTasks).toEqual([]);
+    expect(result.availableTransitions).toEqual([]);
+  });
+
+  it("fires the query timer at its deadline and rejects the application", () => {
+    const result = simulateWorkflow({
+      serviceKey: "no_due_certificate",
+      workflow: ndcWorkflow,
+      startAt: START_AT,
+      notificationEvents: [{ event: "QUERY_RAISED", channels: ["sms"], recipients: ["applicant"] }],
+      steps: [
+        { transitionId: "SUBMIT" },
+        { action: "QUERY", systemRoles: ["CLERK"], queryMessage: "Upload the allotment letter" },
+        { transitionId: "QUERY_EXPIRED" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    const query = result.steps[1];
+    expect(query.stateId).toBe("QUERY_PENDING");
+    expect(query.queries[0]).toMatchObject({ queryNumber: 1, responseDueAt: "2026-10-26T06:00:00.000Z" });
+    expect(query.notifications).toEqual([{ event: "QUERY_RAISED", channels: ["sms"], recipients: ["applicant"] }]);
+
+    const expiry = result.steps[2];
+    expect(expiry.at).toBe("2026-10-26T06:00:00.000Z");
+    expect(expiry.transitions.map((t) => t.transitionId)).toEqual(["QUERY_EXPIRED", "CLOSE_REJECTED"]);
+    expect(expiry.decisions).toEqual([{ decisionType: "REJECT", transitionId: "QUERY_EXPIRED" }]);
+    expect(expiry.outputs[0]).toMatchObject({ templateId: "ndc_rejection" });
+    expect(expiry.notifications.map((n) => n.event)).toContain("QUERY_DEADLINE_EXPIRED");
+    expect(result.finalStateId).toBe("CLOSED");
+  });
+
+  it("stops at the first failing step and rolls it back", () => {
+    const result = simulateWorkflow({
+      serviceKey: "no_due_certificate",
+      workflow: ndcWorkflow,
+      startAt: START_AT,
+      steps: [
+        { transitionId: "SUBMIT" },
+        { action: "FORWARD", systemRoles: ["ACCOUNT_OFFICER"] },
+        { action: "FORWARD", systemRoles: ["CLERK"] },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[1]).toMatchObject({ success: false, error: "TASK_NOT_FOUND", stateId: "PENDING_AT_CLERK" });
+    expect(result.openTasks.map((task) => task.systemRoleId)).toEqual(["CLERK"]);
+    expect(result.availableTransitions.map((t) => t.transitionId)).toEqual([
+      "CLERK_FORWARD",
+      "CLERK_QUERY",
+      "CLERK_REJECT",
+    ]);
+  });
+
+  it("reports failed guards and joins parallel branches at the quorum", () => {
+    const workflow: WorkflowConfig = {
+      workflowId: "WF_FORK",
+      version: "1.0.0",
+      states: [
+        { stateId: "DRAFT", type: "DRAFT", taskRequired: false },
+        {
+          stateId: "REVIEW",
+          type: "FORK",
+          taskRequired: true,
+          slaDays: 2,
+          branches: [
+            { branchId: "ENGINEERING", systemRoleId: "JUNIOR_ENGINEER" },
+            { branchId: "ACCOUNTS", systemRoleId: "ACCOUNT_OFFICER" },
+          ],
+          joinStateId: "REVIEW_DONE",
+        },
+        { stateId: "REVIEW_DONE", type: "JOIN", taskRequired: false, quorum: 1 },
+        { stateId: "PENDING_AT_SDO", type: "TASK", taskRequired: true, systemRoleId: "SDO" },
+      ],
+      transitions: [
+        {
+          transitionId: "START",
+          fromStateId: "DRAFT",
+          toStateId: "REVIEW",
+          trigger: "manual",
+          guardRuleIds: ["FEES_PAID"],
+          actions: ["ASSIGN_NEXT_TASK"],
+        },
+        { transitionId: "REVIEW_JOIN", fromStateId: "REVIEW", toStateId: "REVIEW_DONE", trigger: "system" },
+        {
+          transitionId: "REVIEW_ROUTE",
+          fromStateId: "REVIEW_DONE",
+          toStateId: "PENDING_AT_SDO",
+          trigger: "system",
+          actions: ["ASSIGN_NEXT_TASK"],
+        },
+      ],
+    };
+    const rules = [{ ruleId: "FEES_PAID", description: "Fees paid", logic: { "==": [{ var: "fees.allPaid" }, true] } }];
+
+    const blocked = simulateWorkflow({
+      serviceKey: "test",
+      workflow,
+      rules,
+      guardContext: { fees: { allPaid: false } as any },
+      steps: [{ transitionId: "START" }],
+    });
+    expect(blocked.steps[0]).toMatchObject({ success: false, error: "GUARD_FAILED" });
+    expect(blocked.steps[0].failedGuards?.map((failure) => failure.ruleId)).toEqual(["FEES_PAID"]);
+
+    const joined = simulateWorkflow({
+      serviceKey: "test",
+      workflow,
+      rules,
+      steps: [
+        { transitionId: "START" },
+        { action: "FORWARD", systemRoles: ["ACCOUNT_OFFICER"], branchId: "ACCOUNTS" },
+      ],
+    });
+    expect(joined.steps[0].tasksCreated.map((task) => task.branchId)).toEqual(["ENGINEERING", "ACCOUNTS"]);
+    expect(joined.steps[1].transitions.map((t) => t.transitionId)).toEqual(["REVIEW_JOIN", "REVIEW_ROUTE"]);
+    expect(joined.steps[1].tasksClosed.map((task) => [task.branchId, task.status])).toEqual([
+      ["ACCOUNTS", "COMPLETED"],
+      ["ENGINEERING", "CANCELLED"],
+    ]);
+    expect(joined.openTasks.map((task) => task.stateId)).toEqual(["PENDING_AT_SDO"]);
+  });
+
+  it("reports registered actions and fails the step on invalid params", () => {
+    const workflow: WorkflowConfig = JSON.parse(JSON.stringify(ndcWorkflow));
+    const assign = workflow.transitions.find((t) => t.transitionId === "ASSIGN_CLERK")!;
+    assign.actions = [
+      "ASSIGN_NEXT_TASK",
+      { type: "CREATE_FEE_DEMAND", params: { feeHeadCode: "PROCESSING_FEE", amount: 500 } },
+      { type: "NOTIFY", params: { template: "DEMAND_RAISED" } },
+    ];
+
+    const result = simulateWorkflow({
+      serviceKey: "no_due_certificate",
+      workflow,
+      startAt: START_AT,
+      steps: [{ transitionId: "SUBMIT" }],
+    });
+    expect(result.steps[0].registeredActions).toEqual([
+      { transitionId: "ASSIGN_CLERK", action: "CREATE_FEE_DEMAND", params: { feeHeadCode: "PROCESSING_FEE", amount: 500 } },
+      { transitionId: "ASSIGN_CLERK", action: "NOTIFY", params: { template: "DEMAND_RAISED" } },
+    ]);
+    expect(result.steps[0].notifications.map((n) => n.event)).toEqual(["DEMAND_RAISED", "APPLICATION_SUBMITTED"]);
+
+    assign.actions = [{ type: "NOTIFY", params: {} }];
+    const invalid = simulateWorkflow({ serviceKey: "no_due_certificate", workflow, steps: [{ transitionId: "SUBMIT" }] });
+    expect(invalid.steps[0]).toMatchObject({ success: false, error: "INVALID_ACTION_PARAMS", stateId: "DRAFT" });
+  });
+
+  it("refuses an approval whose physical verification is only self-attested in the officer's checklist", () => {
+    const serviceKey = "completion_certificate_above_1000";
+    const workflow = loadPackFile<WorkflowConfig>(serviceKey, "workflow.json");
+    const { rules } = loadPackFile<{ rules: any[] }>(serviceKey, "rules.json");
+    const steps = [
+      { transitionId: "SUBMIT" },
+      { action: "FORWARD" as const, systemRoles: ["CLERK"] },
+      { action: "FORWARD" as const, systemRoles: ["JUNIOR_ENGINEER"] },
+      { action: "FORWARD" as const, systemRoles: ["SENIOR_ASSISTANT"] },
+      { action: "FORWARD" as const, systemRoles: ["SDO"] },
+      {
+        action: "APPROVE" as const,
+        systemRoles: ["ESTATE_OFFICER"],
+        checklist: { inspection_report_reviewed: true, physical_verification_completed: true, all_documents_verified: true },
+      },
+    ];
+
+    const selfAttested = simulateWorkflow({ serviceKey, workflow, rules, steps });
+    expect(selfAttested.steps[5]).toMatchObject({ success: false, error: "GUARD_FAILED" });
+    expect(selfAttested.steps[5].failedGuards?.map((failure) => failure.ruleId)).toEqual([
+      "PHYSICAL_VERIFICATION_REQUIRED_BEFORE_APPROVAL",
+    ]);
+
+    const inspected = simulateWorkflow({
+      serviceKey,
+      workflow,
+      rules,
+      steps,
+      guardContext: { inspection: { type: "SITE_VISIT", status: "COMPLETED", outcome: "PASS", checklist: {} } },
+    });
+    expect(inspected.steps[5]).toMatchObject({ success: true });
+  });
+});
@@ -0,0 +1,589 @@
+/**
+ * In-memory workflow simulation (dry run) for service-pack authors.
+ *
+ * Walks an application through a service version's workflow without touching
+ * the database: each step is either a transition by an actor (citizen,
+ * officer, system or timer) or an officer task action (FORWARD / QUERY /
+ * APPROVE / REJECT) matched the way takeActionOnTask matches it. The
+ * simulator mirrors the engine's side effects and reports, per step, the
+ * guards evaluated, tasks created and closed with their SLA dates, queries,
+ * decisions, notices, outputs and notifications.
+ *
+ * The decisions the engine takes from the definition alone (transition
+ * checks, officer action matching and acting roles, planned tasks and their
+ * SLA days, the FORK → JOIN route, close transitions, timer decisions and
+ * notifications) come from workflow-rules.ts and workflow-guards.ts, so the
+ * simulator and the engine cannot drift apart on them. The simulator itself
+ * only replays their effects on an in-memory application:
+ *   - executeTransition checks (state, trigger, actor type, role, guards)
+ *   - ASSIGN_NEXT_TASK and the task-required safety net, FORK branch tasks
+ *   - RAISE_QUERY / RECORD_DECISION records and notice letters
+ *   - registered actions (workflow-actions.ts) are reported with their params,
+ *     NOTIFY as an applicant notification; invalid params fail the step
+ *   - submit and query-response flows (SUBMIT → ASSIGN_CLERK, QUERY_RESPOND → RESUBMIT_ROUTE)
+ *   - branch completion and FORK → JOIN → next once the quorum is reached
+ *   - timer firing (due time, withdrawn tasks, expired queries, timer notification)
+ *   - disposal on APPROVED / REJECTED: output generation then CLOSE_*
+ *
+ * Officer identities and automatic assignment are not resolved; tasks report
+ * their configured assignment strategy instead.
+ */
+import type { RuleDefinition } from "./rule-logic";
+import { evaluateTransitionGuards, type GuardContext, type GuardFailure } from "./workflow-guards";
+import { GENERATE_OUTPUT_ACTION_PREFIX, templateIdFromOutputAction } from "./outputs";
+import { isQuorumReached } from "./workflow-parallel";
+import {
+  actingRolesForTask,
+  findActionTransition,
+  findCloseTransition,
+  findJoinRoute,
+  leavesFork,
+  needsFallbackTask,
+  plannedTasksForState,
+  resolveTransitionActions,
+  timerDecision,
+  timerNotificationEvent,
+  transitionRefusal,
+  type OfficerAction,
+  type WorkflowActorType,
+} from "./workflow-rules";
+import { routeForEvent } from "./notification-routing";
+import {
+  getTransitionAction,
+  transitionActionName,
+  transitionActionNames,
+  transitionActionParams,
+  validateTransitionAction,
+} from "./workflow-actions";
+import { addWorkingDays } from "./sla";
+import {
+  notificationEventForTransition,
+  queryResponseDays,
+  type WorkflowConfig,
+  type WorkflowState,
+  type WorkflowTransition,
+} from "./workflow";
+
+export type SimulationActorType = WorkflowActorType;
+export type SimulationOfficerAction = OfficerAction;
+
+export interface SimulationStep {
+  /** Run this transition directly (citizen, system and timer transitions). */
+  transitionId?: string;
+  /** Officer task action, resolved against the current state's transitions. */
+  action?: SimulationOfficerAction;
+  actorType?: SimulationActorType;
+  systemRoles?: string[];
+  /** FORK states: the branch whose task the officer acts on. */
+  branchId?: string;
+  /** Hours to advance the simulated clock before this step. */
+  afterHours?: number;
+  queryMessage?: string;
+  unlockedFields?: string[];
+  unlockedDocuments?: string[];
+  checklist?: Record<string, unknown>;
+}
+
+export interface SimulationInput {
+  serviceKey: string;
+  workflow: WorkflowConfig;
+  rules?: RuleDefinition[];
+  /** notifications.json events, used to report channels and recipients. */
+  notificationEvents?: Array<{ event: string; channels?: string[]; recipients?: string[] }>;
+  steps: SimulationStep[];
+  startAt?: Date;
+  authorityId?: string;
+  holidays?: Set<string>;
+  /** Application data (data_jsonb) seen by guards. */
+  data?: Record<string, any>;
+  /** Overrides for the inspection / fee parts of the guard context. */
+  guardContext?: Partial<Pick<GuardContext, "inspection" | "inspections" | "fees">>;
+}
+
+export interface SimulatedTask {
+  taskId: string;
+  stateId: string;
+  systemRoleId: string;
+  branchId?: string;
+  parallelGroupId?: string;
+  slaDays?: number;
+  slaDueAt: string | null;
+  assignmentStrategy: string;
+  status: "PENDING" | "COMPLETED" | "CANCELLED";
+}
+
+export interface SimulatedTransition {
+  transitionId: string;
+  fromStateId: string;
+  toStateId: string;
+  trigger: WorkflowTransition["trigger"];
+  actorType: SimulationActorType;
+  at: string;
+  guards: Array<{ ruleId: string; passed: boolean; reason?: GuardFailure["reason"] }>;
+}
+
+export interface SimulationStepResult {
+  index: number;
+  success: boolean;
+  error?: string;
+  failedGuards?: GuardFailure[];
+  fromStateId: string;
+  stateId: string;
+  at: string;
+  transitions: SimulatedTransition[];
+  tasksCreated: SimulatedTask[];
+  tasksClosed: SimulatedTask[];
+  queries: Array<{ queryNumber: number; message: string; responseDueAt: string; unlockedFields: string[]; unlockedDocuments: string[] }>;
+  decisions: Array<{ decisionType: "APPROVE" | "REJECT"; transitionId: string }>;
+  notices: Array<{ noticeType: string; templateCode: string }>;
+  outputs: Array<{ templateId: string | null; outputAction: string | null; decisionState: "APPROVED" | "REJECTED" }>;
+  notifications: Array<{ event: string; channels: string[]; recipients: string[] }>;
+  /** Registered actions (fee demands, inspections, ...) the engine would run. */
+  registeredActions: Array<{ transitionId: string; action: string; params: Record<string, unknown> }>;
+  warnings: string[];
+}
+
+export interface SimulationResult {
+  success: boolean;
+  finalStateId: string;
+  steps: SimulationStepResult[];
+  openTasks: SimulatedTask[];
+  availableTransitions: Array<{
+    transitionId: string;
+    toStateId: string;
+    trigger: WorkflowTransition["trigger"];
+    officerActions: string[];
+    allowedActorTypes?: string[];
+    allowedSystemRoleIds?: string[];
+    guardRuleIds?: string[];
+    actions: string[];
+  }>;
+}
+
+// Engine flows that run a system transition right after the citizen's one
+// (applications.ts submitApplication / respondToQuery).
+const FLOW_FOLLOW_UPS: Record<string, string> = {
+  SUBMIT: "ASSIGN_CLERK",
+  QUERY_RESPOND: "RESUBMIT_ROUTE",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type DecisionState = "APPROVED" | "REJECTED";
+
+interface SimulatedQuery {
+  queryNumber: number;
+  responseDueAt: Date;
+  status: "PENDING" | "EXPIRED" | "RESPONDED";
+}
+
+interface SimulationState {
+  stateId: string;
+  clock: Date;
+  enteredAt: Date;
+  queryCount: number;
+  tasks: SimulatedTask[];
+  queries: SimulatedQuery[];
+  nextTaskNumber: number;
+  nextGroupNumber: number;
+}
+
+class StepFailure extends Error {
+  constructor(public readonly code: string, public readonly failedGuards?: GuardFailure[]) {
+    super(code);
+  }
+}
+
+function isDecisionState(stateId: string): stateId is DecisionState {
+  return stateId === "APPROVED" || stateId === "REJECTED";
+}
+
+function outputActionOf(transition: WorkflowTransition | undefined): string | null {
+  return transitionActionNames(transition?.actions).find((action) => action.startsWith(GENERATE_OUTPUT_ACTION_PREFIX)) || null;
+}
+
+
+export function simulateWorkflow(input: SimulationInput): SimulationResult {
+  const { workflow } = input;
+  const states = workflow.states || [];
+  const transitions = workflow.transitions || [];
+  const holidays = input.holidays || new Set<string>();
+  const startAt = input.startAt || new Date();
+  const initial = states.find((state) => state.type === "DRAFT") || states[0];
+
+  const sim: SimulationState = {
+    stateId: initial?.stateId || "DRAFT",
+    clock: new Date(startAt),
+    enteredAt: new Date(startAt),
+    queryCount: 0,
+    tasks: [],
+    queries: [],
+    nextTaskNumber: 1,
+    nextGroupNumber: 1,
+  };
+
+  const findState = (stateId: string): WorkflowState | undefined => states.find((state) => state.stateId === stateId);
+  const findTransition = (transitionId: string) => transitions.find((t) => t.transitionId === transitionId);
+  const openTasks = (stateId?: string) =>
+    sim.tasks.filter((task) => task.status === "PENDING" && (!stateId || task.stateId === stateId));
+
+  const results: SimulationStepResult[] = [];
+  let success = true;
+
+  input.steps.forEach((step, index) => {
+    if (!success) return;
+    if (step.afterHours && step.afterHours > 0) {
+      sim.clock = new Date(sim.clock.getTime() + step.afterHours * HOUR_MS);
+    }
+    const result: SimulationStepResult = {
+      index,
+      success: true,
+      fromStateId: sim.stateId,
+      stateId: sim.stateId,
+      at: sim.clock.toISOString(),
+      transitions: [],
+      tasksCreated: [],
+      tasksClosed: [],
+      queries: [],
+      decisions: [],
+      notices: [],
+      outputs: [],
+      notifications: [],
+      registeredActions: [],
+      warnings: [],
+    };
+    results.push(result);
+    // A failed step rolls back like the engine's transaction
+    const snapshot: SimulationState = {
+      ...sim,
+      clock: new Date(sim.clock),
+      enteredAt: new Date(sim.enteredAt),
+      tasks: sim.tasks.map((task) => ({ ...task })),
+      queries: sim.queries.map((query) => ({ ...query })),
+    };
+
+    const recordNotification = (event: string | null) => {
+      if (!event) return;
+      const route = routeForEvent(input.notificationEvents ? { events: input.notificationEvents } : undefined, event);
+      if (input.notificationEvents && !route.listed) {
+        result.warnings.push(`Notification ${event} is not configured in notifications.json`);
+      }
+      result.notifications.push({ event, channels: route.channels, recipients: route.recipients });
+    };
+
+    const closeTask = (task: SimulatedTask, status: "COMPLETED" | "CANCELLED") => {
+      task.status = status;
+      result.tasksClosed.push({ ...task });
+    };
+
+    /** Mirror of ASSIGN_NEXT_TASK: the state's planned tasks, FORK branches sharing one group. */
+    const assignNextTask = (state: WorkflowState | undefined) => {
+      if (!state) return;
+      const parallelGroupId = state.type === "FORK" ? `SIM-GROUP-${sim.nextGroupNumber++}` : undefined;
+      for (const planned of plannedTasksForState(state)) {
+        const task: SimulatedTask = {
+          taskId: `SIM-TASK-${sim.nextTaskNumber++}`,
+          stateId: state.stateId,
+          systemRoleId: planned.systemRoleId,
+          branchId: planned.branchId,
+          parallelGroupId,
+          slaDays: planned.slaDays,
+          slaDueAt: planned.slaDays ? addWorkingDays(sim.clock, planned.slaDays, holidays).toISOString() : null,
+          assignmentStrategy: state.assignment?.strategy || "POOL",
+          status: "PENDING",
+        };
+        sim.tasks.push(task);
+        result.tasksCreated.push({ ...task });
+      }
+    };
+
+    const guardContextFor = (step: SimulationStep): GuardContext => ({
+      data: input.data || {},
+      application: {
+        stateId: sim.stateId,
+        serviceKey: input.serviceKey,
+        authorityId: input.authorityId || "",
+        queryCount: sim.queryCount,
+      },
+      checklist: step.checklist || {},
+      inspection: input.guardContext?.inspection ?? null,
+      inspections: {
+        total: 0,
+        completed: 0,
+        passed: 0,
+        failed: 0,
+        open: 0,
+        ...input.guardContext?.inspections,
+      },
+      fees: {
+        demandCount: 0,
+        totalDue: 0,
+        totalPaid: 0,
+        outstanding: 0,
+        pendingDemands: 0,
+        allPaid: true,
+        ...input.guardContext?.fees,
+      },
+    });
+
+    /** Mirror of executeTransition. Throws StepFailure with the engine's error code. */
+    const runTransition = (
+      transitionId: string,
+      actorType: SimulationActorType,
+      actorRoles: string[],
+      payload: { decision?: string; queryMessage?: string; unlockedFields?: string[]; unlockedDocuments?: string[] },
+      options: { standalone: boolean; completeTask?: SimulatedTask }
+    ): WorkflowTransition => {
+      const transition = findTransition(transitionId);
+      if (!transition) throw new StepFailure("TRANSITION_NOT_FOUND");
+      const refusal = transitionRefusal(transition, sim.stateId, actorType, actorRoles);
+      if (refusal) throw new StepFailure(refusal);
+
+      const guardRuleIds = transition.guardRuleIds || [];
+      const failedGuards = evaluateTransitionGuards(guardRuleIds, input.rules, guardContextFor(step));
+      const guards = guardRuleIds.map((ruleId) => {
+        const failure = failedGuards.find((entry) => entry.ruleId === ruleId);
+        return { ruleId, passed: !failure, reason: failure?.reason };
+      });
+      if (failedGuards.length > 0) throw new StepFailure("GUARD_FAILED", failedGuards);
+
+      const fromStateId = sim.stateId;
+      sim.stateId = transition.toStateId;
+      sim.enteredAt = new Date(sim.clock);
+      result.transitions.push({
+        transitionId,
+        fromStateId,
+        toStateId: transition.toStateId,
+        trigger: transition.trigger,
+        actorType,
+        at: sim.clock.toISOString(),
+        guards,
+      });
+
+      for (const entry of transition.actions || []) {
+        const action = transitionActionName(entry);
+        if (getTransitionAction(action)) {
+          if (validateTransitionAction(entry).length > 0) throw new StepFailure("INVALID_ACTION_PARAMS");
+          const params = transitionActionParams(entry);
+          result.registeredActions.push({ transitionId, action, params });
+          if (action === "NOTIFY") recordNotification(params.template as string);
+        } else if (action === "ASSIGN_NEXT_TASK") {
+          assignNextTask(findState(sim.stateId));
+        } else if (action === "RAISE_QUERY") {
+          if (!payload.queryMessage) {
+            result.warnings.push(`${transitionId}: RAISE_QUERY records no query without a query message`);
+            continue;
+          }
+          sim.queryCount += 1;
+          const responseDueAt = new Date(sim.clock.getTime() + queryResponseDays(input.serviceKey) * 24 * HOUR_MS);
+          sim.queries.push({ queryNumber: sim.queryCount, responseDueAt, status: "PENDING" });
+          result.queries.push({
+            queryNumber: sim.queryCount,
+            message: payload.queryMessage,
+            responseDueAt: responseDueAt.toISOString(),
+            unlockedFields: payload.unlockedFields || [],
+            unlockedDocuments: payload.unlockedDocuments || [],
+          });
+          result.notices.push({ noticeType: "QUERY", templateCode: "QUERY_NOTICE" });
+        } else if (action === "RECORD_DECISION") {
+          const decisionType = payload.decision === "APPROVE" ? "APPROVE" : "REJECT";
+          result.decisions.push({ decisionType, transitionId });
+          const noticeType = decisionType === "APPROVE" ? "APPROVAL" : "REJECTION";
+          result.notices.push({ noticeType, templateCode: `${noticeType}_NOTICE` });
+        } else if (!action.startsWith(GENERATE_OUTPUT_ACTION_PREFIX)) {
+          result.warnings.push(`${transitionId}: action ${action} is not handled by the engine`);
+        }
+      }
+
+      // Safety net for task-required states reached without ASSIGN_NEXT_TASK
+      const targetState = findState(sim.stateId);
+      if (needsFallbackTask(targetState, transition.actions) && openTasks(sim.stateId).length === 0) {
+        assignNextTask(targetState);
+      }
+
+      if (options.completeTask && options.completeTask.status === "PENDING") {
+        closeTask(options.completeTask, "COMPLETED");
+      }
+      if (leavesFork(workflow, fromStateId, sim.stateId)) {
+        for (const task of openTasks(fromStateId)) closeTask(task, "CANCELLED");
+      }
+      if (transitionId === "QUERY_RESPOND") {
+        for (const query of sim.queries) if (query.status === "PENDING") query.status = "RESPONDED";
+      }
+
+      if (options.standalone) {
+        recordNotification(notificationEventForTransition(transitionId, sim.stateId));
+      }
+      return transition;
+    };
+
+    /** Mirror of finalizeDisposal: output for the decision, then the CLOSE_* transition. */
+    const dispose = (decisionState: DecisionState, decisionTransition?: WorkflowTransition) => {
+      const closeId = decisionState === "APPROVED" ? "CLOSE_APPROVED" : "CLOSE_REJECTED";
+      const closeTransition = findCloseTransition(transitions, decisionState);
+      const outputAction = outputActionOf(decisionTransition) || outputActionOf(closeTransition);
+      const templateId = templateIdFromOutputAction(outputAction);
+      if (!templateId) {
+        result.warnings.push(`No output generated for ${decisionState}: no GENERATE_OUTPUT_* action resolved`);
+      }
+      result.outputs.push({ templateId, outputAction, decisionState });
+      try {
+        runTransition(closeId, "SYSTEM", [], {}, { standalone: true });
+      } catch (error) {
+        if (error instanceof StepFailure && error.code !== "TRANSITION_NOT_FOUND") {
+          result.warnings.push(`${closeId} failed: ${error.code}`);
+        }
+      }
+    };
+
+    /** Mirror of submitApplication / respondToQuery: system follow-up, then one notification for the flow. */
+    const runFollowUp = (transitionId: string) => {
+      const followUpId = FLOW_FOLLOW_UPS[transitionId];
+      if (!followUpId) return;
+      try {
+        runTransition(followUpId, "SYSTEM", [], {}, { standalone: false });
+      } catch (error) {
+        if (!(error instanceof StepFailure) || error.code !== "TRANSITION_NOT_FOUND") throw error;
+      }
+      recordNotification(notificationEventForTransition(transitionId, sim.stateId));
+    };
+
+    const timerDueAt = (transition: WorkflowTransition): Date => {
+      const afterMs = Number(transition.timer?.afterHours ?? 0) * HOUR_MS;
+      const basis = transition.timer?.basis;
+      if (basis === "QUERY_RESPONSE_DUE") {
+        const dueDates = sim.queries
+          .filter((query) => query.status === "PENDING")
+          .map((query) => query.responseDueAt.getTime());
+        if (dueDates.length === 0) throw new StepFailure("TIMER_NOT_DUE");
+        return new Date(Math.min(...dueDates) + afterMs);
+      }
+      if (basis === "TASK_SLA_DUE") {
+        const dueDates = openTasks(sim.stateId)
+          .map((task) => task.slaDueAt)
+          .filter((due): due is string => Boolean(due))
+          .map((due) => new Date(due).getTime());
+        if (dueDates.length === 0) throw new StepFailure("TIMER_NOT_DUE");
+        return new Date(Math.min(...dueDates) + afterMs);
+      }
+      return new Date(sim.enteredAt.getTime() + afterMs);
+    };
+
+    try {
+      if (step.action) {
+        // Officer task action (takeActionOnTask)
+        const roles = step.systemRoles || [];
+        const candidates = openTasks(sim.stateId).filter(
+          (task) => roles.includes(task.systemRoleId) && (!step.branchId || task.branchId === step.branchId)
+        );
+        const task = candidates[0];
+        if (!task) throw new StepFailure("TASK_NOT_FOUND");
+        const state = findState(sim.stateId);
+
+        if (state?.type === "FORK" && task.parallelGroupId && step.action === "FORWARD") {
+          closeTask(task, "COMPLETED");
+          const group = sim.tasks.filter((entry) => entry.parallelGroupId === task.parallelGroupId);
+          const completed = group.filter((entry) => entry.status === "COMPLETED").length;
+          const route = findJoinRoute({ states, transitions }, state);
+          if (!route) throw new StepFailure("JOIN_NOT_CONFIGURED");
+          if (isQuorumReached(completed, group.length, route.joinState.quorum)) {
+            runTransition(route.joinTransitionId, "SYSTEM", [], {}, { standalone: false });
+            runTransition(route.exitTransitionId, "SYSTEM", [], {}, { standalone: false });
+          }
+        } else {
+          const transition = findActionTransition({ transitions }, sim.stateId, step.action);
+          if (!transition) throw new StepFailure("TRANSITION_NOT_FOUND");
+          runTransition(
+            transition.transitionId,
+            "OFFICER",
+            actingRolesForTask({ states }, task, roles),
+            {
+              decision: step.action,
+              queryMessage: step.queryMessage,
+              unlockedFields: step.unlockedFields,
+              unlockedDocuments: step.unlockedDocuments,
+            },
+            { standalone: true, completeTask: task }
+          );
+          if (isDecisionState(sim.stateId)) dispose(sim.stateId, transition);
+        }
+      } else if (step.transitionId) {
+        const transition = findTransition(step.transitionId);
+        if (transition?.trigger === "timer" && transition.fromStateId === sim.stateId) {
+          // Timer job: fires once the deadline has passed
+          const dueAt = timerDueAt(transition);
+          if (dueAt > sim.clock) {
+            result.warnings.push(`Clock advanced to the timer deadline ${dueAt.toISOString()}`);
+            sim.clock = dueAt;
+            result.at = dueAt.toISOString();
+          }
+          const fromStateId = sim.stateId;
+          const decision = timerDecision(transition.toStateId);
+          runTransition(transition.transitionId, "SYSTEM", [], { decision }, { standalone: false });
+          if (transition.timer?.basis === "QUERY_RESPONSE_DUE") {
+            for (const query of sim.queries) if (query.status === "PENDING") query.status = "EXPIRED";
+          }
+          for (const task of openTasks(fromStateId)) closeTask(task, "CANCELLED");
+          if (transition.timer) recordNotification(timerNotificationEvent(transition.timer));
+          if (isDecisionState(sim.stateId)) dispose(sim.stateId);
+        } else {
+          const actorType = step.actorType || (transition?.trigger === "system" ? "SYSTEM" : "CITIZEN");
+          const roles = step.systemRoles || [];
+          const completeTask =
+            actorType === "OFFICER"
+              ? openTasks(sim.stateId).find((task) => roles.includes(task.systemRoleId))
+              : undefined;
+          const flow = Boolean(FLOW_FOLLOW_UPS[step.transitionId]);
+          const ran = runTransition(
+            step.transitionId,
+            actorType,
+            roles,
+            { queryMessage: step.queryMessage, unlockedFields: step.unlockedFields, unlockedDocuments: step.unlockedDocuments },
+            { standalone: !flow, completeTask }
+          );
+          runFollowUp(step.transitionId);
+          if (actorType === "OFFICER" && isDecisionState(sim.stateId)) dispose(sim.stateId, ran);
+        }
+      } else {
+        throw new StepFailure("STEP_REQUIRES_TRANSITION_OR_ACTION");
+      }
+    } catch (error) {
+      if (!(error instanceof StepFailure)) throw error;
+      success = false;
+      Object.assign(sim, snapshot);
+      Object.assign(result, {
+        success: false,
+        transitions: [],
+        tasksCreated: [],
+        tasksClosed: [],
+        queries: [],
+        decisions: [],
+        notices: [],
+        outputs: [],
+        notifications: [],
+        registeredActions: [],
+      });
+      result.error = error.code;
+      if (error.failedGuards) result.failedGuards = error.failedGuards;
+    }
+    result.stateId = sim.stateId;
+  });
+
+  const finalTransitions = transitions.filter((t) => t.fromStateId === sim.stateId);
+  return {
+    success,
+    finalStateId: sim.stateId,
+    steps: results,
+    openTasks: openTasks().map((task) => ({ ...task })),
+    availableTransitions: finalTransitions.map((t) => ({
+      transitionId: t.transitionId,
+      toStateId: t.toStateId,
+      trigger: t.trigger,
+      officerActions: resolveTransitionActions(t),
+      allowedActorTypes: t.allowedActorTypes,
+      allowedSystemRoleIds: t.allowedSystemRoleIds,
+      guardRuleIds: t.guardRuleIds,
+      actions: transitionActionNames(t.actions),
+    })),
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { listTimerTransitions } from "./workflow-timers";
+import type { WorkflowTransition } from "./workflow";
+
+function transitions(...items: WorkflowTransition[]) {
+  return { transitions: items };
+}
+
+describe("listTimerTransitions", () => {
+  it("ignores manual and system transitions", () => {
+    expect(
+      listTimerTransitions(
+        transitions(
+          { transitionId: "CLERK_FORWARD", fromStateId: "PENDING_AT_CLERK", toStateId: "PENDING_AT_SDO", trigger: "manual" },
+          { transitionId: "RESUBMIT_ROUTE", fromStateId: "RESUBMITTED", toStateId: "PENDING_AT_CLERK", trigger: "system" }
+        )
+      )
+    ).toEqual([]);
+  });
+
+  it("defaults the grace period and picks the notification event from the basis", () => {
+    const timers = listTimerTransitions(
+      transitions(
+        {
+          transitionId: "QUERY_EXPIRED",
+          fromStateId: "QUERY_PENDING",
+          toStateId: "REJECTED",
+          trigger: "timer",
+          timer: { basis: "QUERY_RESPONSE_DUE" },
+        },
+        {
+          transitionId: "JE_SLA_ESCALATE",
+          fromStateId: "PENDING_AT_JUNIOR_ENGINEER",
+          toStateId: "PENDING_AT_SDO",
+          trigger: "timer",
+          timer: { basis: "TASK_SLA_DUE", afterHours: 24 },
+        }
+      )
+    );
+    expect(timers).toEqual([
+      {
+        transitionId: "QUERY_EXPIRED",
+        fromStateId: "QUERY_PENDING",
+        toStateId: "REJECTED",
+        basis: "QUERY_RESPONSE_DUE",
+        afterHours: 0,
+        notificationEvent: "QUERY_DEADLINE_EXPIRED",
+      },
+      {
+        transitionId: "JE_SLA_ESCALATE",
+        fromStateId: "PENDING_AT_JUNIOR_ENGINEER",
+        toStateId: "PENDING_AT_SDO",
+        basis: "TASK_SLA_DUE",
+        afterHours: 24,
+        notificationEvent: "APPLICATION_ESCALATED",
+      },
+    ]);
+  });
+
+  it("skips timers with an unknown basis or negative grace period", () => {
+    const timers = listTimerTransitions(
+      transitions(
+        {
+          transitionId: "BAD_BASIS",
+          fromStateId: "QUERY_PENDING",
+          toStateId: "REJECTED",
+          trigger: "timer",
+          timer: { basis: "NEXT_TUESDAY" as any },
+        },
+        {
+          transitionId: "NEGATIVE",
+          fromStateId: "QUERY_PENDING",
+          toStateId: "REJECTED",
+          trigger: "timer",
+          timer: { basis: "STATE_ENTERED", afterHours: -1 },
+        },
+        { transitionId: "NO_TIMER", fromStateId: "QUERY_PENDING", toStateId: "REJECTED", trigger: "timer" }
+      )
+    );
+    expect(timers).toEqual([]);
+  });
+
+  it("keeps an explicit notification event", () => {
+    const [timer] = listTimerTransitions(
+      transitions({
+        transitionId: "AUTO_CLOSE",
+        fromStateId: "PENDING_AT_CLERK",
+        toStateId: "REJECTED",
+        trigger: "timer",
+        timer: { basis: "STATE_ENTERED", afterHours: 720, notificationEvent: "APPLICATION_REJECTED" },
+      })
+    );
+    expect(timer.notificationEvent).toBe("APPLICATION_REJECTED");
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Timer-driven workflow transitions.
+ *
+ * A transition with `trigger: "timer"` fires automatically once its timer
+ * deadline passes while the application is still in `fromStateId`:
+ *
+ *   QUERY_RESPONSE_DUE — the pending query's response_due_at
+ *   TASK_SLA_DUE       — the open task's sla_due_at in that state
+ *   STATE_ENTERED      — when the application entered the state
+ *
+ * plus an optional `afterHours` grace period. Each automatic move writes a
+ * TIMER_TRANSITION_FIRED audit event alongside the engine's STATE_CHANGED
+ * event and notifies the citizen through the outbox.
+ *
+ * Run via POST /internal/jobs/workflow-timers or the local setInterval fallback.
+ */
+import { getClient, query } from "./db";
+import { v4 as uuidv4 } from "uuid";
+import { logError, logInfo } from "./logger";
+import { executeTransition, type WorkflowConfig, type WorkflowTimer } from "./workflow";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+import { enqueueOutboxEntry } from "./outbox";
+import { finalizeDisposal, isDecisionState } from "./disposal";
+import { timerAfterHours, timerDecision, timerNotificationEvent } from "./workflow-rules";
+
+export interface TimerTransition {
+  transitionId: string;
+  fromStateId: string;
+  toStateId: string;
+  basis: WorkflowTimer["basis"];
+  afterHours: number;
+  notificationEvent: string;
+}
+
+export interface TimerRunResult {
+  checkedTransitions: number;
+  fired: number;
+  errors: string[];
+}
+
+/** Normalise the timer transitions of a workflow, skipping ones with an invalid timer. */
+export function listTimerTransitions(workflow: Pick<WorkflowConfig, "transitions"> | undefined): TimerTransition[] {
+  const timers: TimerTransition[] = [];
+  for (const transition of workflow?.transitions || []) {
+    if (transition.trigger !== "timer" || !transition.timer) continue;
+    const afterHours = timerAfterHours(transition.timer);
+    if (afterHours === null) continue;
+    timers.push({
+      transitionId: transition.transitionId,
+      fromStateId: transition.fromStateId,
+      toStateId: transition.toStateId,
+      basis: transition.timer.basis,
+      afterHours,
+      notificationEvent: timerNotificationEvent(transition.timer),
+    });
+  }
+  return timers;
+}
+
+async function findDueApplications(
+  serviceKey: string,
+  version: string,
+  timer: TimerTransition
+): Promise<{ arn: string; due_at: Date }[]> {
+  const params = [serviceKey, version, timer.fromStateId, timer.afterHours];
+  if (timer.basis === "QUERY_RESPONSE_DUE") {
+    const result = await query(
+      `SELECT a.arn, MIN(q.response_due_at) AS due_at
+         FROM application a
+         JOIN query q ON q.arn = a.arn AND q.status = 'PENDING'
+        WHERE a.service_key = $1 AND a.service_version = $2 AND a.state_id = $3
+          AND a.disposed_at IS NULL
+          AND q.response_due_at IS NOT NULL
+        GROUP BY a.arn
+       HAVING MIN(q.response_due_at) + $4::numeric * INTERVAL '1 hour' < NOW()`,
+      params
+    );
+    return result.rows;
+  }
+  if (timer.basis === "TASK_SLA_DUE") {
+    const result = await query(
+      `SELECT a.arn, MIN(t.sla_due_at) AS due_at
+         FROM application a
+         JOIN task t ON t.arn = a.arn AND t.state_id = a.state_id AND t.status IN ('PENDING', 'IN_PROGRESS')
+        WHERE a.service_key = $1 AND a.service_version = $2 AND a.state_id = $3
+          AND a.disposed_at IS NULL
+          AND t.sla_due_at IS NOT NULL
+        GROUP BY a.arn
+       HAVING MIN(t.sla_due_at) + $4::numeric * INTERVAL '1 hour' < NOW()`,
+      params
+    );
+    return result.rows;
+  }
+  const result = await query(
+    `SELECT arn, entered_at AS due_at FROM (
+       SELECT a.arn,
+              COALESCE(
+                (SELECT MAX(ae.created_at) FROM audit_event ae
+                  WHERE ae.arn = a.arn
+                    AND ae.event_type = 'STATE_CHANGED'
+                    AND ae.payload_jsonb->>'toState' = a.state_id),
+                a.updated_at
+              ) AS entered_at
+         FROM application a
+        WHERE a.service_key = $1 AND a.service_version = $2 AND a.state_id = $3
+          AND a.disposed_at IS NULL
+     ) entered
+     WHERE entered_at + $4::numeric * INTERVAL '1 hour' < NOW()`,
+    params
+  );
+  return result.rows;
+}
+
+async function fireTimerTransition(
+  arn: string,
+  timer: TimerTransition,
+  dueAt: Date
+): Promise<{ fired: boolean; error?: string }> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    discardAfterCommit(client);
+    const remarks = `Automatic transition: ${timer.basis} deadline passed`;
+    const result = await executeTransition(
+      arn,
+      timer.transitionId,
+      "system",
+      "SYSTEM",
+      [],
+      remarks,
+      { decision: timerDecision(timer.toStateId), reasonCodes: [timer.basis] },
+      client
+    );
+    if (!result.success) {
+      await client.query("ROLLBACK");
+      // Another actor moved the application first — nothing to do
+      if (result.error === "INVALID_STATE") return { fired: false };
+      return { fired: false, error: result.error };
+    }
+
+    if (timer.basis === "QUERY_RESPONSE_DUE") {
+      await client.query(
+        "UPDATE query SET status = 'EXPIRED' WHERE arn = $1 AND status = 'PENDING'",
+        [arn]
+      );
+    }
+    // Withdraw the tasks left open in the state the timer moved away from
+    await client.query(
+      "UPDATE task SET status = 'CANCELLED', completed_at = NOW(), remarks = COALESCE(remarks || '; ', '') || $3 WHERE arn = $1 AND state_id = $2 AND status IN ('PENDING', 'IN_PROGRESS')",
+      [arn, timer.fromStateId, `Withdrawn by timer transition ${timer.transitionId}`]
+    );
+
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+      [
+        uuidv4(),
+        arn,
+        "TIMER_TRANSITION_FIRED",
+        "SYSTEM",
+        "system",
+        JSON.stringify({
+          transitionId: timer.transitionId,
+          fromState: timer.fromStateId,
+          toState: result.newStateId,
+          basis: timer.basis,
+          afterHours: timer.afterHours,
+          dueAt,
+        }),
+      ]
+    );
+
+    const appResult = await client.query("SELECT public_arn FROM application WHERE arn = $1", [arn]);
+    await enqueueOutboxEntry(
+      client,
+      "NOTIFY",
+      {
+        event: timer.notificationEvent,
+        arn: appResult.rows[0]?.public_arn || arn,
+        metadata: { transitionId: timer.transitionId, toState: timer.toStateId },
+      },
+      arn
+    );
+    await client.query("COMMIT");
+    await runAfterCommit(client);
+  } catch (error: any) {
+    await client.query("ROLLBACK").catch(() => {});
+    return { fired: false, error: error?.message || "unknown_error" };
+  } finally {
+    client.release();
+  }
+
+  if (isDecisionState(timer.toStateId)) {
+    await finalizeDisposal(arn, timer.toStateId);
+  }
+  return { fired: true };
+}
+
+/** Fire every timer transition whose deadline has passed. */
+export async function runWorkflowTimers(): Promise<TimerRunResult> {
+  const result: TimerRunResult = { checkedTransitions: 0, fired: 0, errors: [] };
+  try {
+    const configs = await query(
+      `SELECT service_key, version, config_jsonb->'workflow' AS workflow
+         FROM service_version
+        WHERE config_jsonb->'workflow'->'transitions' @> '[{"trigger": "timer"}]'::jsonb`
+    );
+    for (const row of configs.rows) {
+      for (const timer of listTimerTransitions(row.workflow)) {
+        result.checkedTransitions += 1;
+        const due = await findDueApplications(row.service_key, row.version, timer);
+        for (const candidate of due) {
+          const outcome = await fireTimerTransition(candidate.arn, timer, candidate.due_at);
+          if (outcome.fired) result.fired += 1;
+          if (outcome.error) {
+            result.errors.push(`${candidate.arn}/${timer.transitionId}: ${outcome.error}`);
+          }
+        }
+      }
+    }
+  } catch (err: any) {
+    result.errors.push(`Workflow timer run failed: ${err.message}`);
+  }
+
+  if (result.fired > 0 || result.errors.length > 0) {
+    logInfo("Workflow timer run completed", {
+      checkedTransitions: result.checkedTransitions,
+      fired: result.fired,
+      errors: result.errors.length,
+    });
+  }
+  return result;
+}
+
+/**
+ * Start periodic workflow timer processing.
+ * Default: runs every 15 minutes.
+ */
+export function startWorkflowTimerJob(intervalMs: number = 15 * 60 * 1000): NodeJS.Timeout {
+  logInfo("Starting workflow timer job", { intervalSeconds: intervalMs / 1000 });
+  const timer = setInterval(() => {
+    runWorkflowTimers().catch((err) => {
+      logError("Periodic workflow timer run failed", { error: err instanceof Error ? err.message : String(err) });
+    });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
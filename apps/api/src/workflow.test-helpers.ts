@@ -1,3 +1,4 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import { expect } from "vitest";
@@ -19,6 +20,7 @@ export interface WorkflowState {
   taskRequired: boolean;
   systemRoleId?: string;
   slaDays?: number;
+  taskUi?: { checklist?: Array<{ key: string; required?: boolean }> };
 }
 
 export interface WorkflowTransition {
@@ -29,6 +31,7 @@ export interface WorkflowTransition {
   allowedActorTypes?: string[];
   allowedSystemRoleIds?: string[];
   actions?: string[];
+  guardRuleIds?: string[];
 }
 
 export interface WorkflowConfig {
@@ -45,6 +48,10 @@ export interface OfficerLevel {
   approveTransitionId?: string;
   rejectTransitionId: string;
   queryTransitionId?: string;
+  /** Required checklist keys at this state, submitted as ticked */
+  checklistKeys?: string[];
+  /** The APPROVE transition has guardRuleIds (physical verification) */
+  approveGuarded?: boolean;
 }
 
 export interface PathStep {
@@ -58,6 +65,8 @@ export interface PathStep {
   assignTask?: boolean;
   /** State whose pending task to assign (for the UPDATE query) */
   taskStateId?: string;
+  /** Record a passed site inspection before executing, for physical verification guards */
+  recordPassedInspection?: boolean;
 }
 
 export interface ParsedWorkflow {
@@ -148,6 +157,10 @@ export function parseOfficerChain(workflow: WorkflowConfig, serviceKey: string):
       approveTransitionId: approve?.transitionId,
       rejectTransitionId: reject.transitionId,
       queryTransitionId: queryTrans?.transitionId,
+      checklistKeys: (state.taskUi?.checklist || [])
+        .filter((item) => item.required)
+        .map((item) => item.key),
+      approveGuarded: Boolean(approve?.guardRuleIds?.length),
     });
 
     if (forward) {
@@ -204,11 +217,17 @@ export function buildApprovalTail(lastLevel: OfficerLevel): PathStep[] {
       transitionId: lastLevel.approveTransitionId!,
       actorType: "OFFICER",
       actorSystemRoles: [lastLevel.systemRoleId],
-      actionPayload: { decision: "APPROVE" },
+      actionPayload: {
+        decision: "APPROVE",
+        verificationData: {
+          checklist: Object.fromEntries((lastLevel.checklistKeys || []).map((key) => [key, true])),
+        },
+      },
       remarks: `Approved by ${lastLevel.systemRoleId}`,
       expectedNewState: "APPROVED",
       assignTask: true,
       taskStateId: lastLevel.stateId,
+      recordPassedInspection: lastLevel.approveGuarded,
     },
     {
       transitionId: "CLOSE_APPROVED",
@@ -336,6 +355,14 @@ export async function executeStep(arn: string, step: PathStep): Promise<void> {
     }
   }
 
+  if (step.recordPassedInspection) {
+    await dbQuery(
+      `INSERT INTO inspection (inspection_id, arn, inspection_type, status, actual_at, outcome)
+       VALUES ($1, $2, 'SITE_VISIT', 'COMPLETED', NOW(), 'PASS')`,
+      [crypto.randomUUID(), arn]
+    );
+  }
+
   const actorUserId =
     step.actorType === "CITIZEN"
       ? TEST_CITIZEN_ID
@@ -2,6 +2,17 @@ import { query, getClient } from "./db";
 import { v4 as uuidv4 } from "uuid";
 import pg from "pg";
 import { logError, logInfo, logWarn } from "./logger";
+import type { RuleDefinition } from "./rule-logic";
+import { evaluateTransitionGuards, loadGuardContext, type GuardFailure } from "./workflow-guards";
+import { resolveTaskAssignee } from "./task-assignment";
+import { templateIdFromOutputAction } from "./outputs";
+import { enqueueOutputJob } from "./output-jobs";
+import { enqueueOutboxEntry } from "./outbox";
+import { enqueueWebhookEvent, webhookEventForState } from "./webhooks";
+import { publishLiveEventAfterCommit } from "./live-events";
+import { discardAfterCommit, runAfterCommit } from "./after-commit";
+import { getTransitionAction, runTransitionAction, transitionActionName } from "./workflow-actions";
+import { leavesFork, needsFallbackTask, plannedTasksForState, transitionRefusal } from "./workflow-rules";
 
 export interface WorkflowState {
   stateId: string;
@@ -9,16 +20,75 @@ export interface WorkflowState {
   taskRequired: boolean;
   systemRoleId?: string;
   slaDays?: number;
+  /** FORK states: one task is spawned per branch when the state is entered. */
+  branches?: WorkflowBranch[];
+  /** FORK states: the JOIN state entered once enough branches complete. */
+  joinStateId?: string;
+  /** JOIN states: branch completions required to advance (defaults to all branches). */
+  quorum?: number;
+  /** TASK states: escalation ladder applied once the task's SLA is breached. */
+  escalation?: EscalationRule[];
+  /** TASK/FORK states: how new tasks are assigned (defaults to the role pool). */
+  assignment?: TaskAssignmentConfig;
+}
+
+export type AssignmentStrategy = "POOL" | "ROUND_ROBIN" | "LEAST_OPEN_TASKS" | "STICKY";
+
+export interface TaskAssignmentConfig {
+  strategy: AssignmentStrategy;
+  /** Used when STICKY finds no eligible previous handler (defaults to LEAST_OPEN_TASKS). */
+  fallbackStrategy?: Exclude<AssignmentStrategy, "STICKY">;
+  /** Role to assign from when nobody holding the task's role is available. */
+  fallbackSystemRoleId?: string;
+}
+
+export interface EscalationRule {
+  level: number;
+  /** Hours past the task's SLA due date before this level applies. */
+  afterHours: number;
+  action: "NOTIFY" | "REASSIGN" | "RAISE_TO_HEAD";
+  /** Role the task moves to (REASSIGN) or whose holder it is raised to (RAISE_TO_HEAD). NOTIFY goes to the reporting officers. */
+  targetSystemRoleId?: string;
+}
+
+export interface WorkflowBranch {
+  branchId: string;
+  systemRoleId: string;
+  slaDays?: number;
 }
 
 export interface WorkflowTransition {
   transitionId: string;
   fromStateId: string;
   toStateId: string;
-  trigger: "manual" | "system";
+  trigger: "manual" | "system" | "timer";
   allowedActorTypes?: string[];
   allowedSystemRoleIds?: string[];
-  actions?: string[];
+  /** Officer action this transition handles; otherwise inferred from the transitionId suffix. */
+  action?: "FORWARD" | "QUERY" | "APPROVE" | "REJECT";
+  /** Core actions (ASSIGN_NEXT_TASK, RAISE_QUERY, ...) and registered actions; see workflow-actions.ts. */
+  actions?: WorkflowActionEntry[];
+  /** Rule IDs from rules.json that must all evaluate truthy before the transition runs. */
+  guardRuleIds?: string[];
+  /** Timer transitions: when the workflow timer job fires this transition. */
+  timer?: WorkflowTimer;
+}
+
+/** A registered transition action declared with parameters. */
+export interface WorkflowActionConfig {
+  type: string;
+  params?: Record<string, unknown>;
+}
+
+export type WorkflowActionEntry = string | WorkflowActionConfig;
+
+export interface WorkflowTimer {
+  /** Deadline the timer counts from: pending query response, open task SLA, or state entry. */
+  basis: "QUERY_RESPONSE_DUE" | "TASK_SLA_DUE" | "STATE_ENTERED";
+  /** Grace period added to the basis deadline (default 0). */
+  afterHours?: number;
+  /** Citizen notification event sent after the automatic move. */
+  notificationEvent?: string;
 }
 
 export interface WorkflowConfig {
@@ -28,6 +98,45 @@ export interface WorkflowConfig {
   transitions: WorkflowTransition[];
 }
 
+export interface TransitionResult {
+  success: boolean;
+  newStateId?: string;
+  error?: string;
+  failedGuards?: GuardFailure[];
+}
+
+// L5: Query response deadline is configurable per service (default 15 days)
+const QUERY_RESPONSE_DAYS: Record<string, number> = {
+  no_due_certificate: 10,
+  registration_of_architect: 15,
+  sanction_of_water_supply: 15,
+  sanction_of_sewerage_connection: 15,
+};
+
+export function queryResponseDays(serviceKey: string | undefined): number {
+  return (serviceKey && QUERY_RESPONSE_DAYS[serviceKey]) || 15;
+}
+
+/**
+ * Applicant notification for a standalone (non-nested) transition, if any.
+ * Submission and query-response flows notify for their whole transaction.
+ */
+export function notificationEventForTransition(transitionId: string, newStateId: string): string | null {
+  const eventMap: Record<string, string> = {
+    SUBMIT: "APPLICATION_SUBMITTED",
+    QUERY_RESPOND: "QUERY_RESPONDED",
+    APPROVE: "APPLICATION_APPROVED",
+    REJECT: "APPLICATION_REJECTED",
+  };
+  if (eventMap[transitionId]) return eventMap[transitionId];
+  // Decisions are modelled per role (e.g. ACCOUNT_OFFICER_APPROVE)
+  if (newStateId === "APPROVED") return "APPLICATION_APPROVED";
+  if (newStateId === "REJECTED") return "APPLICATION_REJECTED";
+  if (newStateId === "QUERY_PENDING") return "QUERY_RAISED";
+  if (newStateId === "IN_PROGRESS") return "TASK_ASSIGNED";
+  return null;
+}
+
 export async function executeTransition(
   arn: string,
   transitionId: string,
@@ -37,17 +146,21 @@ export async function executeTransition(
   remarks?: string,
   actionPayload?: any,
   existingClient?: pg.PoolClient
-): Promise<{ success: boolean; newStateId?: string; error?: string }> {
+): Promise<TransitionResult> {
   const owned = !existingClient;
   const client = existingClient ?? await getClient();
   
   try {
-    if (owned) await client.query("BEGIN");
+    if (owned) {
+      await client.query("BEGIN");
+      // Pooled clients may still carry work queued by a rolled-back transaction
+      discardAfterCommit(client);
+    }
     await client.query("SET LOCAL lock_timeout = '5s'");
     
     // Load application with lock
     const appResult = await client.query(
-      "SELECT arn, state_id, service_key, service_version, row_version FROM application WHERE arn = $1 FOR UPDATE",
+      "SELECT arn, public_arn, applicant_user_id, state_id, service_key, service_version, authority_id, query_count, data_jsonb, row_version FROM application WHERE arn = $1 FOR UPDATE",
       [arn]
     );
     
@@ -79,26 +192,25 @@ export async function executeTransition(
       return { success: false, error: "TRANSITION_NOT_FOUND" };
     }
     
-    if (transition.fromStateId !== app.state_id) {
-      if (owned) await client.query("ROLLBACK");
-      return { success: false, error: "INVALID_STATE" };
-    }
-    
-    if (transition.trigger === "manual" && actorType === "SYSTEM") {
-      if (owned) await client.query("ROLLBACK");
-      return { success: false, error: "INVALID_TRIGGER" };
-    }
-    
-    if (transition.allowedActorTypes && !transition.allowedActorTypes.includes(actorType)) {
+    const refusal = transitionRefusal(transition, app.state_id, actorType, actorSystemRoles);
+    if (refusal) {
       if (owned) await client.query("ROLLBACK");
-      return { success: false, error: "UNAUTHORIZED_ACTOR_TYPE" };
+      return { success: false, error: refusal };
     }
-    
-    if (transition.allowedSystemRoleIds && actorType === "OFFICER") {
-      const hasRole = transition.allowedSystemRoleIds.some(role => actorSystemRoles.includes(role));
-      if (!hasRole) {
+
+    // Guard conditions: every referenced rules.json rule must pass
+    if (transition.guardRuleIds && transition.guardRuleIds.length > 0) {
+      const rules: RuleDefinition[] = serviceConfig.rules?.rules || [];
+      const guardContext = await loadGuardContext(client, app, actionPayload);
+      const failedGuards = evaluateTransitionGuards(transition.guardRuleIds, rules, guardContext);
+      if (failedGuards.length > 0) {
         if (owned) await client.query("ROLLBACK");
-        return { success: false, error: "UNAUTHORIZED_ROLE" };
+        logInfo("Workflow transition blocked by guard", {
+          arn,
+          transitionId,
+          failedRuleIds: failedGuards.map((failure) => failure.ruleId),
+        });
+        return { success: false, error: "GUARD_FAILED", failedGuards };
       }
     }
     
@@ -111,6 +223,17 @@ export async function executeTransition(
       "UPDATE application SET state_id = $1, row_version = $2, updated_at = NOW() WHERE arn = $3",
       [newStateId, newRowVersion, arn]
     );
+    publishLiveEventAfterCommit(client, {
+      type: "application",
+      data: {
+        arn: app.public_arn || arn,
+        serviceKey: app.service_key,
+        fromStateId: app.state_id,
+        stateId: newStateId,
+        transitionId,
+      },
+      audience: { userIds: app.applicant_user_id ? [app.applicant_user_id] : [], authorityId: app.authority_id },
+    });
 
     // Append status change to data_jsonb.application.statusHistory (canonical audit trail)
     const statusChange = {
@@ -152,19 +275,24 @@ export async function executeTransition(
     
     // Handle transition actions
     const transitionActions = transition.actions || [];
-    for (const action of transitionActions) {
-      await executeAction(client, action, arn, newStateId, workflow, actionPayload, actorUserId, actorSystemRoles, remarks);
+    // System actors have no user row; keep user FKs (decided_by, raised_by, issued_by) null
+    const actionActorUserId = actorType === "SYSTEM" ? undefined : actorUserId;
+    for (const entry of transitionActions) {
+      const action = transitionActionName(entry);
+      if (getTransitionAction(action)) {
+        await runTransitionAction(
+          { client, arn, transitionId, stateId: newStateId, actorType, actorUserId: actionActorUserId, actorSystemRoles },
+          entry
+        );
+      } else {
+        await executeAction(client, action, arn, newStateId, workflow, actionPayload, actionActorUserId, actorSystemRoles, remarks);
+      }
     }
 
     // Safety net: if config forgets ASSIGN_NEXT_TASK but target state is task-required,
     // auto-create the pending task once to avoid workflow dead-ends.
     const targetState = workflow.states.find((state) => state.stateId === newStateId);
-    const hasAssignNextTaskAction = transitionActions.includes("ASSIGN_NEXT_TASK");
-    if (
-      targetState?.taskRequired &&
-      targetState.systemRoleId &&
-      !hasAssignNextTaskAction
-    ) {
+    if (needsFallbackTask(targetState, transitionActions)) {
       const openTaskResult = await client.query(
         "SELECT 1 FROM task WHERE arn = $1 AND state_id = $2 AND status IN ('PENDING', 'IN_PROGRESS') LIMIT 1",
         [arn, newStateId]
@@ -177,7 +305,7 @@ export async function executeTransition(
           newStateId,
           workflow,
           actionPayload,
-          actorUserId,
+          actionActorUserId,
           actorSystemRoles,
           remarks
         );
@@ -191,6 +319,15 @@ export async function executeTransition(
         [actionPayload?.decision || "FORWARD", remarks || null, arn, actorUserId]
       );
     }
+
+    // Leaving a FORK state (query/reject from one branch, or the join itself)
+    // withdraws the branch tasks that are still open.
+    if (leavesFork(workflow, app.state_id, newStateId)) {
+      await client.query(
+        "UPDATE task SET status = 'CANCELLED', completed_at = NOW() WHERE arn = $1 AND state_id = $2 AND status IN ('PENDING', 'IN_PROGRESS')",
+        [arn, app.state_id]
+      );
+    }
     
     // Create audit event
     await client.query(
@@ -210,36 +347,22 @@ export async function executeTransition(
       ]
     );
     
-    // Capture notification info BEFORE commit (while we still have the client)
-    let pendingNotification: { applicantUserId: string; displayArn: string } | null = null;
+    // Department webhooks hear about decisions whichever flow made them
+    const webhookEvent = webhookEventForState(newStateId);
+    if (webhookEvent) {
+      await enqueueWebhookEvent(client, webhookEvent, arn, { transitionId });
+    }
+
+    // Notification, routed by the service's notifications.json: written to the
+    // outbox so it commits with the transition. Callers passing their own
+    // client queue it themselves once their transaction has the final state.
     if (owned) {
-      const applicantResult = await client.query("SELECT applicant_user_id, public_arn FROM application WHERE arn = $1", [arn]);
-      const applicantUserId = applicantResult.rows[0]?.applicant_user_id;
-      const displayArn = applicantResult.rows[0]?.public_arn || arn;
-      if (applicantUserId) {
-        pendingNotification = { applicantUserId, displayArn };
-      }
+      await enqueueTransitionNotification(client, arn, transitionId, newStateId);
     }
     
-    if (owned) await client.query("COMMIT");
-    
-    // Send notifications AFTER commit to avoid deadlock
-    // (notify uses a separate pool connection that would block on the locked row)
-    if (owned && pendingNotification) {
-      const { notify } = await import("./notifications");
-      const eventMap: Record<string, string> = {
-        SUBMIT: "APPLICATION_SUBMITTED",
-        APPROVE: "APPLICATION_APPROVED",
-        REJECT: "APPLICATION_REJECTED",
-      };
-      const eventType = eventMap[transitionId];
-      if (eventType) {
-        await notify(eventType, pendingNotification.displayArn, pendingNotification.applicantUserId);
-      } else if (newStateId === "QUERY_PENDING") {
-        await notify("QUERY_RAISED", pendingNotification.displayArn, pendingNotification.applicantUserId);
-      } else if (newStateId === "IN_PROGRESS") {
-        await notify("TASK_ASSIGNED", pendingNotification.displayArn, pendingNotification.applicantUserId);
-      }
+    if (owned) {
+      await client.query("COMMIT");
+      await runAfterCommit(client);
     }
     
     return { success: true, newStateId };
@@ -257,6 +380,138 @@ export async function executeTransition(
   }
 }
 
+/**
+ * Queue the applicant notification for a transition on the transaction that
+ * made it, so the message only goes out if the transition commits.
+ */
+export async function enqueueTransitionNotification(
+  client: pg.PoolClient,
+  arn: string,
+  transitionId: string,
+  newStateId: string
+): Promise<void> {
+  const eventType = notificationEventForTransition(transitionId, newStateId);
+  if (!eventType) return;
+  const appResult = await client.query("SELECT public_arn FROM application WHERE arn = $1", [arn]);
+  const displayArn = appResult.rows[0]?.public_arn || arn;
+  await enqueueOutboxEntry(client, "NOTIFY", { event: eventType, arn: displayArn }, arn);
+}
+
+async function createWorkflowTask(
+  client: pg.PoolClient,
+  arn: string,
+  state: WorkflowState,
+  systemRoleId: string,
+  slaDays?: number,
+  branch?: { branchId?: string; parallelGroupId: string }
+): Promise<string> {
+  const taskId = uuidv4();
+  const appRow = await client.query("SELECT authority_id FROM application WHERE arn = $1", [arn]);
+  const authorityId: string | undefined = appRow.rows[0]?.authority_id;
+  let slaDueAt: Date | null = null;
+  if (slaDays) {
+    // B6: Calculate SLA using working days (exclude weekends + authority holidays)
+    try {
+      if (authorityId) {
+        const { calculateSLADueDate } = await import("./sla");
+        slaDueAt = await calculateSLADueDate(new Date(), slaDays, authorityId);
+      } else {
+        slaDueAt = new Date(Date.now() + slaDays * 24 * 60 * 60 * 1000);
+      }
+    } catch {
+      // Fallback to calendar days if SLA calculation fails
+      slaDueAt = new Date(Date.now() + slaDays * 24 * 60 * 60 * 1000);
+    }
+  }
+
+  const assignment = await resolveTaskAssignee(client, {
+    arn,
+    authorityId,
+    stateId: state.stateId,
+    systemRoleId,
+    config: state.assignment,
+  });
+
+  await client.query(
+    `INSERT INTO task (task_id, arn, state_id, system_role_id, assignee_user_id, assignment_strategy, status, sla_due_at, branch_id, parallel_group_id)
+     VALUES ($1, $2, $3, $4, $5, $6, 'PENDING', $7, $8, $9)`,
+    [
+      taskId,
+      arn,
+      state.stateId,
+      assignment.systemRoleId,
+      assignment.assigneeUserId,
+      assignment.strategy,
+      slaDueAt,
+      branch?.branchId ?? null,
+      branch?.parallelGroupId ?? null,
+    ]
+  );
+  publishLiveEventAfterCommit(client, {
+    type: "task",
+    data: {
+      action: "CREATED",
+      taskId,
+      arn,
+      stateId: state.stateId,
+      systemRoleId: assignment.systemRoleId,
+      assigneeUserId: assignment.assigneeUserId,
+    },
+    audience: {
+      userIds: assignment.assigneeUserId ? [assignment.assigneeUserId] : [],
+      authorityId,
+      systemRoleIds: [assignment.systemRoleId],
+    },
+  });
+
+  if (state.assignment && state.assignment.strategy !== "POOL") {
+    await client.query(
+      "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+      [
+        uuidv4(),
+        arn,
+        assignment.assigneeUserId ? "TASK_AUTO_ASSIGNED" : "TASK_AUTO_ASSIGNMENT_FAILED",
+        "SYSTEM",
+        "system",
+        JSON.stringify({
+          taskId,
+          stateId: state.stateId,
+          configuredStrategy: state.assignment.strategy,
+          strategy: assignment.strategy,
+          systemRoleId: assignment.systemRoleId,
+          assigneeUserId: assignment.assigneeUserId,
+          fallbackUsed: assignment.fallbackUsed,
+          candidateCount: assignment.candidateCount,
+        }),
+      ]
+    );
+  }
+
+  // Auto-create inspection record if the state requires site verification
+  try {
+    const { maybeCreateInspectionForTask } = await import("./inspections");
+    const inspection = await maybeCreateInspectionForTask(
+      arn, taskId, state.stateId, assignment.systemRoleId, state, client
+    );
+    if (inspection) {
+      logInfo("Auto-created inspection for workflow task", {
+        arn,
+        taskId,
+        stateId: state.stateId,
+        inspectionId: inspection.inspection_id,
+      });
+    }
+  } catch (inspErr: any) {
+    logWarn("Failed to auto-create inspection for workflow task", {
+      arn,
+      taskId,
+      stateId: state.stateId,
+      error: inspErr?.message || "unknown_error",
+    });
+  }
+  return taskId;
+}
+
 async function executeAction(
   client: pg.PoolClient,
   action: string,
@@ -271,52 +526,41 @@ async function executeAction(
   switch (action) {
     case "ASSIGN_NEXT_TASK":
       const state = workflow.states.find(s => s.stateId === stateId);
-      if (state && state.taskRequired && state.systemRoleId) {
-        const taskId = uuidv4();
-        let slaDueAt: Date | null = null;
-        if (state.slaDays) {
-          // B6: Calculate SLA using working days (exclude weekends + authority holidays)
-          try {
-            const appRow = await client.query("SELECT authority_id FROM application WHERE arn = $1", [arn]);
-            const authorityId = appRow.rows[0]?.authority_id;
-            if (authorityId) {
-              const { calculateSLADueDate } = await import("./sla");
-              slaDueAt = await calculateSLADueDate(new Date(), state.slaDays, authorityId);
-            } else {
-              slaDueAt = new Date(Date.now() + state.slaDays * 24 * 60 * 60 * 1000);
-            }
-          } catch {
-            // Fallback to calendar days if SLA calculation fails
-            slaDueAt = new Date(Date.now() + state.slaDays * 24 * 60 * 60 * 1000);
-          }
+      const plannedTasks = plannedTasksForState(state);
+      if (state && state.taskRequired && state.type === "FORK") {
+        // Fork: one task per branch, grouped so the join can count completions
+        const parallelGroupId = uuidv4();
+        const taskIds: string[] = [];
+        for (const planned of plannedTasks) {
+          taskIds.push(
+            await createWorkflowTask(client, arn, state, planned.systemRoleId, planned.slaDays, {
+              branchId: planned.branchId,
+              parallelGroupId,
+            })
+          );
         }
-        
         await client.query(
-          "INSERT INTO task (task_id, arn, state_id, system_role_id, status, sla_due_at) VALUES ($1, $2, $3, $4, 'PENDING', $5)",
-          [taskId, arn, stateId, state.systemRoleId, slaDueAt]
-        );
-
-        // Auto-create inspection record if the state requires site verification
-        try {
-          const { maybeCreateInspectionForTask } = await import("./inspections");
-          const inspection = await maybeCreateInspectionForTask(
-            arn, taskId, stateId, state.systemRoleId, state, client
-          );
-          if (inspection) {
-            logInfo("Auto-created inspection for workflow task", {
-              arn,
-              taskId,
-              stateId,
-              inspectionId: inspection.inspection_id,
-            });
-          }
-        } catch (inspErr: any) {
-          logWarn("Failed to auto-create inspection for workflow task", {
+          "INSERT INTO audit_event (event_id, arn, event_type, actor_type, actor_id, payload_jsonb) VALUES ($1, $2, $3, $4, $5, $6)",
+          [
+            uuidv4(),
             arn,
-            taskId,
-            stateId,
-            error: inspErr?.message || "unknown_error",
-          });
+            "PARALLEL_REVIEW_STARTED",
+            "SYSTEM",
+            "system",
+            JSON.stringify({
+              stateId,
+              parallelGroupId,
+              branches: plannedTasks.map((planned, index) => ({
+                branchId: planned.branchId,
+                systemRoleId: planned.systemRoleId,
+                taskId: taskIds[index],
+              })),
+            }),
+          ]
+        );
+      } else if (state) {
+        for (const planned of plannedTasks) {
+          await createWorkflowTask(client, arn, state, planned.systemRoleId, planned.slaDays);
         }
       }
       break;
@@ -326,14 +570,7 @@ async function executeAction(
         const appResult = await client.query("SELECT query_count, service_key FROM application WHERE arn = $1", [arn]);
         const queryNumber = (appResult.rows[0]?.query_count || 0) + 1;
         const queryId = uuidv4();
-        // L5: Query response deadline is configurable per service (default 15 days)
-        const QUERY_RESPONSE_DAYS: Record<string, number> = {
-          no_due_certificate: 10,
-          registration_of_architect: 15,
-          sanction_of_water_supply: 15,
-          sanction_of_sewerage_connection: 15,
-        };
-        const deadlineDays = QUERY_RESPONSE_DAYS[appResult.rows[0]?.service_key] ?? 15;
+        const deadlineDays = queryResponseDays(appResult.rows[0]?.service_key);
         const responseDueAt = new Date(Date.now() + deadlineDays * 24 * 60 * 60 * 1000);
         
         await client.query(
@@ -474,9 +711,13 @@ async function executeAction(
       }
       break;
       
-    case "GENERATE_OUTPUT_NDC_APPROVAL":
-    case "GENERATE_OUTPUT_NDC_REJECTION":
-      // Output generation will be handled separately
+    default: {
+      // GENERATE_OUTPUT_<TEMPLATE>: queued here, generated after commit (output-jobs.ts)
+      const templateId = templateIdFromOutputAction(action);
+      if (templateId) {
+        await enqueueOutputJob(client, arn, templateId, action);
+      }
       break;
+    }
   }
 }
@@ -67,6 +67,7 @@ type Application = {
   created_at: string;
   submitted_at?: string;
   disposal_type?: string;
+  output_status?: "PENDING" | "GENERATED" | "FAILED" | null;
   documents?: { doc_id: string; doc_type_id: string; original_filename: string }[];
   /** Optimistic concurrency token — must be sent back on updates. */
   rowVersion?: number;
@@ -2099,6 +2100,7 @@ export default function App() {
             created_at: appData.created_at,
             submitted_at: appData.submitted_at,
             disposal_type: appData.disposal_type,
+            output_status: appData.output_status,
             documents: appData.documents,
             rowVersion: appData.rowVersion
           });
@@ -2125,6 +2127,7 @@ export default function App() {
           created_at: appData.created_at,
           submitted_at: appData.submitted_at,
           disposal_type: appData.disposal_type,
+          output_status: appData.output_status,
           documents: appData.documents,
           rowVersion: appData.rowVersion
         });
@@ -6,6 +6,10 @@ import { getStatusBadgeClass, getStatusLabel, formatDateTime } from "@puda/share
 import { Bilingual } from "./Bilingual";
 import DocumentUploadPanel from "./DocumentUploadPanel";
 import DeclarationFormPanel from "./DeclarationFormPanel";
+import RefundsPanel from "./RefundsPanel";
+import PaymentPlanPanel from "./PaymentPlanPanel";
+import FeesPanel from "./FeesPanel";
+import ChallanPanel from "./ChallanPanel";
 import "./application-detail.css";
 
 interface ApplicationDetailProps {
@@ -18,6 +22,7 @@ interface ApplicationDetailProps {
     submitted_at?: string;
     disposed_at?: string;
     disposal_type?: string;
+    output_status?: "PENDING" | "GENERATED" | "FAILED" | null;
   };
   serviceConfig: any;
   detail: {
@@ -1058,6 +1063,11 @@ export default function ApplicationDetail({
         )}
       </div>
 
+      {application.state_id !== "DRAFT" && <FeesPanel arn={application.arn} isOffline={isOffline} />}
+      {application.state_id !== "DRAFT" && <ChallanPanel arn={application.arn} isOffline={isOffline} />}
+      {application.state_id !== "DRAFT" && <PaymentPlanPanel arn={application.arn} isOffline={isOffline} />}
+      {application.state_id !== "DRAFT" && <RefundsPanel arn={application.arn} isOffline={isOffline} />}
+
       {/* Timeline */}
       <div className="detail-section">
         <h2 className="section-title"><Bilingual tKey="app_detail.timeline" /> ({timelineEvents.length})</h2>
@@ -1100,17 +1110,25 @@ export default function ApplicationDetail({
         application.disposal_type === "REJECTED" ||
         (application.service_key === "no_due_certificate" && ndcPaymentStatus?.certificateEligible)) && (
         <div className="detail-section">
-          {downloadError && <p className="error-message" style={{ marginBottom: "0.5rem" }}>{downloadError}</p>}
-          <button
-            className="download-cert-link-large"
-            onClick={() => handleDownload(
-              outputDownloadUrl,
-              `${application.disposal_type === "REJECTED" ? "Order" : "Certificate"}-${application.arn.replace(/\//g, "-")}.pdf`
-            )}
-            disabled={downloading}
-          >
-            {downloading ? t("ndc.downloading") : (application.disposal_type === "REJECTED" ? t("download_order") : t("download_certificate"))}
-          </button>
+          {application.output_status === "PENDING" ? (
+            <Alert variant="info">{t("app_detail.output_pending")}</Alert>
+          ) : application.output_status === "FAILED" ? (
+            <Alert variant="warning">{t("app_detail.output_failed")}</Alert>
+          ) : (
+            <>
+              {downloadError && <p className="error-message" style={{ marginBottom: "0.5rem" }}>{downloadError}</p>}
+              <button
+                className="download-cert-link-large"
+                onClick={() => handleDownload(
+                  outputDownloadUrl,
+                  `${application.disposal_type === "REJECTED" ? "Order" : "Certificate"}-${application.arn.replace(/\//g, "-")}.pdf`
+                )}
+                disabled={downloading}
+              >
+                {downloading ? t("ndc.downloading") : (application.disposal_type === "REJECTED" ? t("download_order") : t("download_certificate"))}
+              </button>
+            </>
+          )}
         </div>
       )}
       {/* Declaration feedback */}
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Card } from "@puda/shared";
+import { useAuth } from "./AuthContext";
+import { Bilingual } from "./Bilingual";
+
+const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+
+type Demand = {
+  demand_id: string;
+  demand_number: string | null;
+  total_amount: number;
+  paid_amount: number;
+  status: "PENDING" | "PARTIALLY_PAID" | "PAID" | "WAIVED" | "CANCELLED";
+  due_date: string | null;
+};
+
+type Challan = {
+  challan_id: string;
+  challan_number: string;
+  demand_id: string;
+  amount: number;
+  status: "ACTIVE" | "PAID" | "EXPIRED" | "CANCELLED";
+  valid_until: string;
+};
+
+function formatAmount(value: number): string {
+  return `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+interface ChallanPanelProps {
+  arn: string;
+  isOffline?: boolean;
+}
+
+/** Bank challans for the application's unpaid demands: generate one for the balance and download it */
+export default function ChallanPanel({ arn, isOffline = false }: ChallanPanelProps) {
+  const { t } = useTranslation();
+  const { authHeaders } = useAuth();
+  const [demands, setDemands] = useState<Demand[]>([]);
+  const [challans, setChallans] = useState<Record<string, Challan[]>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyDemandId, setBusyDemandId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (isOffline) return;
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/demands/for-application/${arn}`, { headers: authHeaders() });
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      const payable: Demand[] = ((await res.json()).demands || []).filter(
+        (demand: Demand) => demand.status === "PENDING" || demand.status === "PARTIALLY_PAID"
+      );
+      const entries = await Promise.all(
+        payable.map(async (demand) => {
+          const challansRes = await fetch(
+            `${apiBaseUrl}/api/v1/fees/demands/${encodeURIComponent(demand.demand_id)}/challans`,
+            { headers: authHeaders() }
+          );
+          return [demand.demand_id, challansRes.ok ? (await challansRes.json()).challans || [] : []] as const;
+        })
+      );
+      setDemands(payable);
+      setChallans(Object.fromEntries(entries));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load challans");
+    }
+  }, [arn, authHeaders, isOffline]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const download = async (challan: Challan) => {
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/challans/${encodeURIComponent(challan.challan_id)}/pdf`, {
+        headers: authHeaders(),
+      });
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${challan.challan_number}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      setNotice(t("challan.download_failed"));
+    }
+  };
+
+  const generate = async (demand: Demand) => {
+    setBusyDemandId(demand.demand_id);
+    setNotice(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/demands/${encodeURIComponent(demand.demand_id)}/challan`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({}),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const code = body?.error as string | undefined;
+        const known = code ? t(`challan.error.${code}`, { defaultValue: "" }) : "";
+        throw new Error(known || body?.message || code || `API error ${res.status}`);
+      }
+      await load();
+      void download(body.challan as Challan);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Failed to generate challan");
+    } finally {
+      setBusyDemandId(null);
+    }
+  };
+
+  if (demands.length === 0 && !loadError) return null;
+
+  return (
+    <div className="detail-section" id="challans">
+      <h2 className="section-title"><Bilingual tKey="challan.title" /></h2>
+      <p className="timeline-note">{t("challan.hint")}</p>
+      {loadError ? <Alert variant="warning">{loadError}</Alert> : null}
+      {notice ? <Alert variant="info">{notice}</Alert> : null}
+
+      {demands.map((demand) => {
+        const active = (challans[demand.demand_id] || []).find((challan) => challan.status === "ACTIVE");
+        return (
+          <Card key={demand.demand_id} className="read-only-card">
+            <div className="read-card-header">
+              <p className="read-card-title">{t("challan.demand", { number: demand.demand_number || "—" })}</p>
+              <strong>{formatAmount(Number(demand.total_amount) - Number(demand.paid_amount))}</strong>
+            </div>
+            {active ? (
+              <div className="read-card-grid">
+                <div className="read-meta-row">
+                  <span className="read-meta-key">{t("challan.number")}</span>
+                  <span className="read-meta-value">{active.challan_number}</span>
+                </div>
+                <div className="read-meta-row">
+                  <span className="read-meta-key">{t("challan.valid_until")}</span>
+                  <span className="read-meta-value">{active.valid_until}</span>
+                </div>
+              </div>
+            ) : null}
+            <div className="challan-actions">
+              {active ? (
+                <Button type="button" size="sm" variant="secondary" onClick={() => void download(active)} disabled={isOffline}>
+                  {t("challan.download")}
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => void generate(demand)}
+                  disabled={isOffline || busyDemandId !== null}
+                >
+                  {busyDemandId === demand.demand_id ? t("challan.generating") : t("challan.generate")}
+                </Button>
+              )}
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
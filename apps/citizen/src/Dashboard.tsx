@@ -1,7 +1,7 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { useTranslation } from "react-i18next";
 import { useAuth } from "./AuthContext";
-import { Alert, Button, Card } from "@puda/shared";
+import { Alert, Button, Card, useLiveEvents } from "@puda/shared";
 import { getStatusBadgeClass, getStatusLabel, formatDate, getServiceDisplayName } from "@puda/shared/utils";
 import { readCached, writeCached } from "./cache";
 import { incrementCacheTelemetry } from "./cacheTelemetry";
@@ -10,6 +10,10 @@ import "./dashboard.css";
 import "./onboarding.css";
 
 const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+const POLL_INTERVAL_MS = 30_000;
+// While the live events stream is open it drives refreshes; polling is only a safety net
+const LIVE_POLL_INTERVAL_MS = 5 * 60_000;
+const LIVE_REFRESH_DEBOUNCE_MS = 500;
 
 interface Application {
   arn: string;
@@ -398,13 +402,30 @@ export default function Dashboard({
     recordCacheFallback
   ]);
 
+  // Live events: refresh when a notification arrives or an application changes state
+  const liveRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const liveStatus = useLiveEvents({
+    enabled: Boolean(user) && !isOffline,
+    url: `${apiBaseUrl}/api/v1/events/stream`,
+    headers: authHeaders,
+    onEvent: (type) => {
+      if (type !== "notification" && type !== "application") return;
+      clearTimeout(liveRefreshTimerRef.current);
+      liveRefreshTimerRef.current = setTimeout(() => void loadDashboardData(), LIVE_REFRESH_DEBOUNCE_MS);
+    },
+  });
+  useEffect(() => () => clearTimeout(liveRefreshTimerRef.current), []);
+
   useEffect(() => {
     loadDashboardData();
+  }, [loadDashboardData, isOffline]);
+
+  useEffect(() => {
     if (isOffline) return;
-    // Refresh every 30 seconds for real-time updates while online.
-    const interval = setInterval(loadDashboardData, 30000);
+    // Poll while online; slowly when live events are pushing changes.
+    const interval = setInterval(loadDashboardData, liveStatus === "live" ? LIVE_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [loadDashboardData, isOffline]);
+  }, [loadDashboardData, isOffline, liveStatus]);
 
   // M3: Utilities imported from @puda/shared/utils
 
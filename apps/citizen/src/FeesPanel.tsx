@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Card } from "@puda/shared";
+import { useAuth } from "./AuthContext";
+import { Bilingual } from "./Bilingual";
+
+const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+
+type FeeLineItem = {
+  line_item_id: string;
+  fee_head_code: string;
+  description: string | null;
+  calculation_inputs: Record<string, any>;
+  amount: number;
+};
+
+function formatAmount(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+/** The steps recorded in a line item's calculation_inputs, in the order they were applied */
+function derivationSteps(inputs: Record<string, any>, t: (key: string, values?: Record<string, unknown>) => string): string[] {
+  const steps: string[] = [];
+  if (inputs.method === "FLAT") {
+    steps.push(t("fees.derivation.flat", { amount: formatAmount(inputs.computedAmount) }));
+  } else if (inputs.method === "RATE") {
+    steps.push(t("fees.derivation.rate", { rate: formatAmount(inputs.rate), amount: formatAmount(inputs.computedAmount) }));
+  } else if (inputs.method === "SLAB") {
+    const slab = inputs.slab || {};
+    const bracket = slab.upTo === undefined ? t("fees.derivation.slab_open") : t("fees.derivation.slab_up_to", { upTo: slab.upTo });
+    steps.push(
+      slab.rate !== undefined
+        ? t("fees.derivation.slab_rate", { bracket, rate: formatAmount(slab.rate), amount: formatAmount(inputs.computedAmount) })
+        : t("fees.derivation.slab_flat", { bracket, amount: formatAmount(inputs.computedAmount) })
+    );
+  }
+  if (inputs.minimumApplied !== undefined) steps.push(t("fees.derivation.minimum", { amount: formatAmount(inputs.minimumApplied) }));
+  if (inputs.maximumApplied !== undefined) steps.push(t("fees.derivation.maximum", { amount: formatAmount(inputs.maximumApplied) }));
+  for (const surcharge of inputs.surcharges || []) {
+    steps.push(
+      t("fees.derivation.surcharge", { label: surcharge.label, percent: surcharge.percent, amount: formatAmount(surcharge.amount) })
+    );
+  }
+  if (inputs.gstPercent) steps.push(t("fees.derivation.gst", { percent: inputs.gstPercent, amount: formatAmount(inputs.gstAmount) }));
+  if (inputs.roundedFrom !== undefined) steps.push(t("fees.derivation.rounded", { amount: formatAmount(inputs.roundedFrom) }));
+  return steps;
+}
+
+interface FeesPanelProps {
+  arn: string;
+  isOffline?: boolean;
+}
+
+export default function FeesPanel({ arn, isOffline = false }: FeesPanelProps) {
+  const { t } = useTranslation();
+  const { authHeaders } = useAuth();
+  const [lineItems, setLineItems] = useState<FeeLineItem[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (isOffline) return;
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/line-items/${arn}`, { headers: authHeaders() });
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      setLineItems((await res.json()).lineItems || []);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load fees");
+    }
+  }, [arn, authHeaders, isOffline]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  if (lineItems.length === 0 && !loadError) return null;
+  const total = lineItems.reduce((sum, item) => sum + Number(item.amount), 0);
+
+  return (
+    <div className="detail-section" id="fees">
+      <h2 className="section-title"><Bilingual tKey="fees.title" /></h2>
+      {loadError ? <Alert variant="warning">{loadError}</Alert> : null}
+
+      {lineItems.map((item) => {
+        const inputs = Object.entries(item.calculation_inputs?.inputs || {});
+        return (
+          <Card key={item.line_item_id} className="read-only-card fee-line">
+            <div className="read-card-header">
+              <p className="read-card-title">{item.description || item.fee_head_code}</p>
+              <strong>{formatAmount(item.amount)}</strong>
+            </div>
+            {item.calculation_inputs?.method ? (
+              <details className="fee-line__derivation">
+                <summary>{t("fees.how_calculated")}</summary>
+                {inputs.length > 0 ? (
+                  <p className="timeline-note">
+                    {inputs.map(([path, value]) => `${path} = ${value === null ? "—" : String(value)}`).join(" · ")}
+                  </p>
+                ) : null}
+                <ol className="fee-line__steps">
+                  {derivationSteps(item.calculation_inputs, t).map((step, index) => (
+                    <li key={index}>{step}</li>
+                  ))}
+                </ol>
+              </details>
+            ) : null}
+          </Card>
+        );
+      })}
+      {lineItems.length > 0 ? <p className="fee-line__total">{t("fees.total", { amount: formatAmount(total) })}</p> : null}
+    </div>
+  );
+}
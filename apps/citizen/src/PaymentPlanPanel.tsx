@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Card } from "@puda/shared";
+import { useAuth } from "./AuthContext";
+import { Bilingual } from "./Bilingual";
+
+const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+
+type Installment = {
+  installment_id: string;
+  installment_number: number;
+  due_date: string;
+  principal_amount: number;
+  principal_paid: number;
+  interest_outstanding: number;
+  interest_paid: number;
+  balance: number;
+  status: "PENDING" | "PARTIALLY_PAID" | "PAID";
+  days_overdue: number;
+};
+
+type InstallmentPlan = {
+  plan_id: string;
+  demand_number: string | null;
+  annual_interest_rate_pct: number;
+  grace_days: number;
+  allocation_order: "INTEREST_FIRST" | "PRINCIPAL_FIRST";
+  status: "ACTIVE" | "COMPLETED" | "CANCELLED";
+  as_of: string;
+  installments: Installment[];
+  totals: {
+    principal_amount: number;
+    principal_paid: number;
+    interest_paid: number;
+    interest_outstanding: number;
+    total_outstanding: number;
+    payable_now: number;
+  };
+  next_due: { installment_number: number; due_date: string; amount: number } | null;
+};
+
+function formatAmount(value: number): string {
+  return `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+/** PAID, OVERDUE (unpaid principal past its due date), PARTIALLY_PAID or PENDING */
+function installmentStatusKey(installment: Installment): string {
+  if (installment.status !== "PAID" && installment.days_overdue > 0) return "overdue";
+  return installment.status.toLowerCase();
+}
+
+interface PaymentPlanPanelProps {
+  arn: string;
+  isOffline?: boolean;
+}
+
+export default function PaymentPlanPanel({ arn, isOffline = false }: PaymentPlanPanelProps) {
+  const { t } = useTranslation();
+  const { authHeaders } = useAuth();
+  const [plans, setPlans] = useState<InstallmentPlan[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (isOffline) return;
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/installment-plans/for-application/${arn}`, {
+        headers: authHeaders(),
+      });
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      setPlans((await res.json()).plans || []);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load payment plan");
+    }
+  }, [arn, authHeaders, isOffline]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  if (plans.length === 0 && !loadError) return null;
+
+  return (
+    <div className="detail-section" id="payment-plan">
+      <h2 className="section-title"><Bilingual tKey="payment_plan.title" /></h2>
+      {loadError ? <Alert variant="warning">{loadError}</Alert> : null}
+
+      {plans.map((plan) => (
+        <Card key={plan.plan_id} className="read-only-card payment-plan">
+          <div className="read-card-header">
+            <p className="read-card-title">
+              {t("payment_plan.demand", { number: plan.demand_number || "—" })}
+            </p>
+            <span className={`refund-status payment-plan-status--${plan.status.toLowerCase()}`}>
+              {t(`payment_plan.plan_status.${plan.status.toLowerCase()}`)}
+            </span>
+          </div>
+
+          <div className="ndc-summary-grid">
+            <Card className="ndc-summary-card">
+              <span className="ndc-summary-label">{t("payment_plan.payable_now")}</span>
+              <strong className="ndc-summary-value">{formatAmount(plan.totals.payable_now)}</strong>
+            </Card>
+            <Card className="ndc-summary-card">
+              <span className="ndc-summary-label">{t("payment_plan.total_outstanding")}</span>
+              <strong className="ndc-summary-value">{formatAmount(plan.totals.total_outstanding)}</strong>
+            </Card>
+            <Card className="ndc-summary-card">
+              <span className="ndc-summary-label">{t("payment_plan.paid_so_far")}</span>
+              <strong className="ndc-summary-value">
+                {formatAmount(plan.totals.principal_paid + plan.totals.interest_paid)}
+              </strong>
+            </Card>
+          </div>
+
+          {plan.next_due ? (
+            <Alert variant={plan.installments.some((installment) => installmentStatusKey(installment) === "overdue") ? "warning" : "info"}>
+              {t("payment_plan.next_due", {
+                number: plan.next_due.installment_number,
+                date: plan.next_due.due_date,
+                amount: formatAmount(plan.next_due.amount),
+              })}
+            </Alert>
+          ) : (
+            <Alert variant="success">{t("payment_plan.all_paid")}</Alert>
+          )}
+
+          <p className="timeline-note">
+            {t("payment_plan.terms", { rate: plan.annual_interest_rate_pct, days: plan.grace_days })}{" "}
+            {t(`payment_plan.allocation.${plan.allocation_order.toLowerCase()}`)}
+          </p>
+
+          <div className="ndc-ledger-table-wrap">
+            <table className="ndc-ledger-table">
+              <thead>
+                <tr>
+                  <th>{t("payment_plan.col.number")}</th>
+                  <th>{t("payment_plan.col.due_date")}</th>
+                  <th>{t("payment_plan.col.amount")}</th>
+                  <th>{t("payment_plan.col.paid")}</th>
+                  <th>{t("payment_plan.col.interest")}</th>
+                  <th>{t("payment_plan.col.balance")}</th>
+                  <th>{t("payment_plan.col.status")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.installments.map((installment) => {
+                  const statusKey = installmentStatusKey(installment);
+                  return (
+                    <tr key={installment.installment_id}>
+                      <td data-label={t("payment_plan.col.number")}>{installment.installment_number}</td>
+                      <td data-label={t("payment_plan.col.due_date")}>{installment.due_date}</td>
+                      <td data-label={t("payment_plan.col.amount")}>{formatAmount(installment.principal_amount)}</td>
+                      <td data-label={t("payment_plan.col.paid")}>
+                        {formatAmount(installment.principal_paid + installment.interest_paid)}
+                      </td>
+                      <td data-label={t("payment_plan.col.interest")}>{formatAmount(installment.interest_outstanding)}</td>
+                      <td data-label={t("payment_plan.col.balance")}>{formatAmount(installment.balance)}</td>
+                      <td data-label={t("payment_plan.col.status")}>
+                        <span className={`payment-plan-installment--${statusKey}`}>
+                          {statusKey === "overdue"
+                            ? t("payment_plan.status.overdue", { days: installment.days_overdue })
+                            : t(`payment_plan.status.${statusKey}`)}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="timeline-note">{t("payment_plan.as_of", { date: plan.as_of })}</p>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Card, Field, Input, Textarea } from "@puda/shared";
+import { useAuth } from "./AuthContext";
+import { Bilingual } from "./Bilingual";
+
+const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+
+type RefundStatus = "REQUESTED" | "RECOMMENDED" | "APPROVED" | "IN_PAYOUT" | "PROCESSED" | "REJECTED";
+
+type Payment = {
+  payment_id: string;
+  amount: number;
+  status: string;
+  mode: string | null;
+  receipt_number: string | null;
+  completed_at: string | null;
+  initiated_at: string;
+};
+
+type Refund = {
+  refund_id: string;
+  payment_id: string;
+  amount: number;
+  reason: string;
+  status: RefundStatus;
+  requested_at: string;
+  decision_remarks: string | null;
+  payout_reference: string | null;
+  processed_at: string | null;
+  bank_details_jsonb: { accountNumber?: string; ifsc?: string };
+};
+
+type Refundable = {
+  refundable: number;
+  paidTotal: number;
+  dueTotal: number;
+  waivedTotal: number;
+};
+
+/** Progress shown to the citizen; a rejected refund shows no steps. */
+const REFUND_STEPS: RefundStatus[] = ["REQUESTED", "RECOMMENDED", "APPROVED", "IN_PAYOUT", "PROCESSED"];
+
+const EMPTY_FORM = { amount: "", reason: "", accountName: "", accountNumber: "", ifsc: "", bankName: "" };
+
+function formatAmount(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+interface RefundsPanelProps {
+  arn: string;
+  isOffline?: boolean;
+}
+
+export default function RefundsPanel({ arn, isOffline = false }: RefundsPanelProps) {
+  const { t } = useTranslation();
+  const { authHeaders } = useAuth();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [requesting, setRequesting] = useState<{ payment: Payment; refundable: Refundable } | null>(null);
+  const [checkingPaymentId, setCheckingPaymentId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const load = useCallback(async () => {
+    if (isOffline) return;
+    try {
+      const [paymentsRes, refundsRes] = await Promise.all([
+        fetch(`${apiBaseUrl}/api/v1/payments/for-application/${arn}`, { headers: authHeaders() }),
+        fetch(`${apiBaseUrl}/api/v1/refunds/for-application/${arn}`, { headers: authHeaders() }),
+      ]);
+      if (!paymentsRes.ok || !refundsRes.ok) throw new Error(`API error ${paymentsRes.ok ? refundsRes.status : paymentsRes.status}`);
+      setPayments((await paymentsRes.json()).payments || []);
+      setRefunds((await refundsRes.json()).refunds || []);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load refunds");
+    }
+  }, [arn, authHeaders, isOffline]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const settledPayments = payments.filter((payment) => payment.status === "SUCCESS" || payment.status === "VERIFIED");
+  if (settledPayments.length === 0 && refunds.length === 0 && !loadError) return null;
+
+  const startRequest = async (payment: Payment) => {
+    setCheckingPaymentId(payment.payment_id);
+    setNotice(null);
+    setFormError(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/payments/${encodeURIComponent(payment.payment_id)}/refundable`, {
+        headers: authHeaders(),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.message || body?.error || `API error ${res.status}`);
+      const refundable = body.refundable as Refundable;
+      if (refundable.refundable <= 0) {
+        setNotice(t("refunds.nothing_refundable"));
+        return;
+      }
+      setForm({ ...EMPTY_FORM, amount: String(refundable.refundable) });
+      setRequesting({ payment, refundable });
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Failed to check refundable amount");
+    } finally {
+      setCheckingPaymentId(null);
+    }
+  };
+
+  const submitRequest = async () => {
+    if (!requesting || submitting) return;
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      const amount = Number(form.amount);
+      const res = await fetch(`${apiBaseUrl}/api/v1/refunds`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({
+          arn,
+          paymentId: requesting.payment.payment_id,
+          reason: form.reason.trim(),
+          ...(Number.isFinite(amount) && amount > 0 ? { amount } : {}),
+          bankDetails: {
+            accountName: form.accountName.trim(),
+            accountNumber: form.accountNumber.trim(),
+            ifsc: form.ifsc.trim(),
+            ...(form.bankName.trim() ? { bankName: form.bankName.trim() } : {}),
+          },
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const code = body?.error as string | undefined;
+        if (code === "REFUND_BANK_DETAILS_INVALID") {
+          throw new Error(t("refunds.bank_invalid", { detail: body?.message || "" }));
+        }
+        const known = code ? t(`refunds.error.${code}`, { defaultValue: "" }) : "";
+        throw new Error(known || body?.message || code || `API error ${res.status}`);
+      }
+      setRequesting(null);
+      setNotice(t("refunds.requested"));
+      void load();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to request refund");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const setFormField = (field: keyof typeof EMPTY_FORM) => (e: { target: { value: string } }) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const submitDisabled =
+    submitting ||
+    !form.reason.trim() ||
+    !form.accountName.trim() ||
+    !form.accountNumber.trim() ||
+    !form.ifsc.trim() ||
+    !(Number(form.amount) > 0) ||
+    Number(form.amount) > (requesting?.refundable.refundable ?? 0);
+
+  return (
+    <div className="detail-section" id="refunds">
+      <h2 className="section-title"><Bilingual tKey="refunds.title" /></h2>
+      {loadError ? <Alert variant="warning">{loadError}</Alert> : null}
+      {notice ? <Alert variant="info">{notice}</Alert> : null}
+
+      {refunds.length > 0 ? (
+        <div className="read-card-list">
+          {refunds.map((refund) => {
+            const stepIndex = REFUND_STEPS.indexOf(refund.status);
+            return (
+              <Card key={refund.refund_id} className="read-only-card">
+                <div className="read-card-header">
+                  <p className="read-card-title">{formatAmount(refund.amount)}</p>
+                  <span className={`refund-status refund-status--${refund.status.toLowerCase()}`}>
+                    {t(`refunds.status.${refund.status.toLowerCase()}`)}
+                  </span>
+                </div>
+                {refund.status !== "REJECTED" ? (
+                  <ol className="refund-steps" aria-label={t("refunds.progress")}>
+                    {REFUND_STEPS.map((step, index) => (
+                      <li
+                        key={step}
+                        className={index <= stepIndex ? "refund-steps__item refund-steps__item--done" : "refund-steps__item"}
+                        aria-current={index === stepIndex ? "step" : undefined}
+                      >
+                        {t(`refunds.step.${step.toLowerCase()}`)}
+                      </li>
+                    ))}
+                  </ol>
+                ) : null}
+                <div className="read-card-grid">
+                  <div className="read-meta-row">
+                    <span className="read-meta-key">{t("refunds.reason")}</span>
+                    <span className="read-meta-value">{refund.reason}</span>
+                  </div>
+                  <div className="read-meta-row">
+                    <span className="read-meta-key">{t("refunds.requested_on")}</span>
+                    <span className="read-meta-value">{new Date(refund.requested_at).toLocaleDateString()}</span>
+                  </div>
+                  <div className="read-meta-row">
+                    <span className="read-meta-key">{t("refunds.account")}</span>
+                    <span className="read-meta-value">
+                      ••••{(refund.bank_details_jsonb.accountNumber || "").slice(-4)} · {refund.bank_details_jsonb.ifsc || "—"}
+                    </span>
+                  </div>
+                  {refund.payout_reference ? (
+                    <div className="read-meta-row">
+                      <span className="read-meta-key">{t("refunds.utr")}</span>
+                      <span className="read-meta-value">{refund.payout_reference}</span>
+                    </div>
+                  ) : null}
+                  {refund.status === "REJECTED" && refund.decision_remarks ? (
+                    <div className="read-meta-row">
+                      <span className="read-meta-key">{t("refunds.rejection_reason")}</span>
+                      <span className="read-meta-value">{refund.decision_remarks}</span>
+                    </div>
+                  ) : null}
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {requesting ? (
+        <form
+          className="refund-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submitRequest();
+          }}
+        >
+          <p className="refund-form__summary">
+            {t("refunds.refundable_summary", {
+              amount: formatAmount(requesting.refundable.refundable),
+              paid: formatAmount(requesting.refundable.paidTotal),
+              due: formatAmount(requesting.refundable.dueTotal),
+            })}
+          </p>
+          {formError ? <Alert variant="error">{formError}</Alert> : null}
+          <Field label={t("refunds.amount")} htmlFor="refund-amount" required>
+            <Input
+              id="refund-amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={String(requesting.refundable.refundable)}
+              value={form.amount}
+              onChange={setFormField("amount")}
+              disabled={submitting}
+            />
+          </Field>
+          <Field label={t("refunds.reason")} htmlFor="refund-reason" required>
+            <Textarea
+              id="refund-reason"
+              rows={2}
+              maxLength={1000}
+              value={form.reason}
+              onChange={setFormField("reason")}
+              disabled={submitting}
+            />
+          </Field>
+          <Field label={t("refunds.account_name")} htmlFor="refund-account-name" required>
+            <Input
+              id="refund-account-name"
+              autoComplete="name"
+              maxLength={100}
+              value={form.accountName}
+              onChange={setFormField("accountName")}
+              disabled={submitting}
+            />
+          </Field>
+          <Field label={t("refunds.account_number")} htmlFor="refund-account-number" required hint={t("refunds.account_number_hint")}>
+            <Input
+              id="refund-account-number"
+              inputMode="numeric"
+              pattern="[0-9 ]{9,22}"
+              maxLength={22}
+              value={form.accountNumber}
+              onChange={setFormField("accountNumber")}
+              disabled={submitting}
+            />
+          </Field>
+          <Field label={t("refunds.ifsc")} htmlFor="refund-ifsc" required hint={t("refunds.ifsc_hint")}>
+            <Input
+              id="refund-ifsc"
+              pattern="[A-Za-z]{4}0[A-Za-z0-9]{6}"
+              maxLength={11}
+              value={form.ifsc}
+              onChange={setFormField("ifsc")}
+              disabled={submitting}
+            />
+          </Field>
+          <Field label={t("refunds.bank_name")} htmlFor="refund-bank-name">
+            <Input
+              id="refund-bank-name"
+              maxLength={100}
+              value={form.bankName}
+              onChange={setFormField("bankName")}
+              disabled={submitting}
+            />
+          </Field>
+          <div className="refund-form__actions">
+            <Button type="button" variant="ghost" onClick={() => setRequesting(null)} disabled={submitting}>
+              {t("refunds.cancel")}
+            </Button>
+            <Button type="submit" disabled={submitDisabled}>
+              {submitting ? t("refunds.submitting") : t("refunds.submit")}
+            </Button>
+          </div>
+        </form>
+      ) : settledPayments.length > 0 ? (
+        <div className="refund-payments">
+          {settledPayments.map((payment) => (
+            <div key={payment.payment_id} className="refund-payments__row">
+              <span>
+                {formatAmount(payment.amount)}
+                {payment.receipt_number ? ` · ${payment.receipt_number}` : ""}
+                {" · "}
+                {new Date(payment.completed_at || payment.initiated_at).toLocaleDateString()}
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                onClick={() => void startRequest(payment)}
+                disabled={isOffline || checkingPaymentId !== null}
+              >
+                {checkingPaymentId === payment.payment_id ? t("refunds.checking") : t("refunds.request")}
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
 import { useTranslation } from "react-i18next";
-import { Field, Select } from "@puda/shared";
+import { Field, Input, Select } from "@puda/shared";
 import { SECONDARY_LANGUAGES } from "./i18n";
 import { Bilingual } from "./Bilingual";
 import { CUSTOM_THEMES } from "./theme";
-import type { UserPreferences } from "./preferences";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type UserPreferences,
+} from "./preferences";
 import "./settings.css";
 
 type Props = {
@@ -13,6 +19,13 @@ type Props = {
 
 export default function Settings({ preferences, onUpdatePreference }: Props) {
   const { t } = useTranslation();
+  const notifications: NotificationPreferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences.notifications };
+  const updateNotifications = (patch: Partial<NotificationPreferences>) =>
+    onUpdatePreference("notifications", { ...notifications, ...patch });
+  const setChannel = (category: NotificationCategory, channel: "sms" | "email", enabled: boolean) =>
+    updateNotifications({
+      channels: { ...notifications.channels, [category]: { ...notifications.channels[category], [channel]: enabled } },
+    });
 
   return (
     <div className="page">
@@ -108,6 +121,83 @@ export default function Settings({ preferences, onUpdatePreference }: Props) {
           </div>
         </section>
 
+        {/* Notifications */}
+        <section className="settings-section">
+          <h2 className="settings-section__title"><Bilingual tKey="settings.notifications" /></h2>
+          <p className="settings-hint">{t("settings.notifications_hint")}</p>
+          <table className="settings-notify-table">
+            <thead>
+              <tr>
+                <th scope="col">{t("settings.notify_category")}</th>
+                <th scope="col">{t("settings.notify_sms")}</th>
+                <th scope="col">{t("settings.notify_email")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {NOTIFICATION_CATEGORIES.map((category) => (
+                <tr key={category}>
+                  <th scope="row">{t(`settings.notify_category_${category}`)}</th>
+                  {(["sms", "email"] as const).map((channel) => (
+                    <td key={channel}>
+                      <input
+                        type="checkbox"
+                        checked={notifications.channels[category]?.[channel] !== false}
+                        onChange={(e) => setChannel(category, channel, e.target.checked)}
+                        aria-label={`${t(`settings.notify_category_${category}`)} — ${t(`settings.notify_${channel}`)}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="settings-hint">{t("settings.notify_mandatory_hint")}</p>
+
+          <div className="settings-grid">
+            <Field label={<Bilingual tKey="settings.quiet_hours" />} htmlFor="pref-quiet-hours" hint={t("settings.quiet_hours_hint")}>
+              <Select
+                id="pref-quiet-hours"
+                value={notifications.quietHours.enabled ? "on" : "off"}
+                onChange={(e) => updateNotifications({ quietHours: { ...notifications.quietHours, enabled: e.target.value === "on" } })}
+              >
+                <option value="off">{t("settings.notify_off")}</option>
+                <option value="on">{t("settings.notify_on")}</option>
+              </Select>
+            </Field>
+            {notifications.quietHours.enabled && (
+              <div className="settings-time-range">
+                <Field label={t("settings.quiet_hours_start")} htmlFor="pref-quiet-start">
+                  <Input
+                    id="pref-quiet-start"
+                    type="time"
+                    value={notifications.quietHours.start}
+                    onChange={(e) => e.target.value && updateNotifications({ quietHours: { ...notifications.quietHours, start: e.target.value } })}
+                  />
+                </Field>
+                <Field label={t("settings.quiet_hours_end")} htmlFor="pref-quiet-end">
+                  <Input
+                    id="pref-quiet-end"
+                    type="time"
+                    value={notifications.quietHours.end}
+                    onChange={(e) => e.target.value && updateNotifications({ quietHours: { ...notifications.quietHours, end: e.target.value } })}
+                  />
+                </Field>
+              </div>
+            )}
+
+            <Field label={<Bilingual tKey="settings.digest" />} htmlFor="pref-digest" hint={t("settings.digest_hint")}>
+              <Select
+                id="pref-digest"
+                value={notifications.digest ? "on" : "off"}
+                onChange={(e) => updateNotifications({ digest: e.target.value === "on" })}
+              >
+                <option value="off">{t("settings.notify_off")}</option>
+                <option value="on">{t("settings.notify_on")}</option>
+              </Select>
+            </Field>
+          </div>
+        </section>
+
         {/* Navigation */}
         <section className="settings-section">
           <h2 className="settings-section__title"><Bilingual tKey="settings.navigation" /></h2>
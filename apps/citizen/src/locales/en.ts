@@ -259,6 +259,93 @@ const en = {
   "ndc.submit_dues_pending": "Submit (Dues Pending)",
   "ndc.clear_dues": "Clear all outstanding dues to submit",
   "ndc.ledger_title": "NDC Payment Ledger",
+  "refunds.title": "Refunds",
+  "refunds.request": "Request refund",
+  "refunds.checking": "Checking…",
+  "refunds.nothing_refundable": "Nothing is refundable on this payment: the amount paid is still due on the application or has already been refunded.",
+  "refunds.refundable_summary": "Up to {{amount}} can be refunded (paid {{paid}}, due {{due}}).",
+  "refunds.amount": "Refund amount (₹)",
+  "refunds.reason": "Reason",
+  "refunds.account_name": "Account holder name",
+  "refunds.account_number": "Account number",
+  "refunds.account_number_hint": "9 to 18 digits",
+  "refunds.ifsc": "IFSC",
+  "refunds.ifsc_hint": "11 characters, e.g. SBIN0001234",
+  "refunds.bank_name": "Bank name",
+  "refunds.submit": "Submit refund request",
+  "refunds.submitting": "Submitting…",
+  "refunds.cancel": "Cancel",
+  "refunds.requested": "Refund requested. You will be notified as it is reviewed and paid.",
+  "refunds.bank_invalid": "Please check the bank details: {{detail}}",
+  "refunds.error.REFUND_AMOUNT_EXCEEDS_REFUNDABLE": "The amount is more than can be refunded.",
+  "refunds.error.NOTHING_TO_REFUND": "Nothing is refundable on this payment.",
+  "refunds.progress": "Refund progress",
+  "refunds.step.requested": "Requested",
+  "refunds.step.recommended": "Verified",
+  "refunds.step.approved": "Approved",
+  "refunds.step.in_payout": "Sent to bank",
+  "refunds.step.processed": "Paid",
+  "refunds.status.requested": "Requested",
+  "refunds.status.recommended": "Under approval",
+  "refunds.status.approved": "Approved",
+  "refunds.status.in_payout": "Sent to bank",
+  "refunds.status.processed": "Paid",
+  "refunds.status.rejected": "Rejected",
+  "refunds.requested_on": "Requested on",
+  "refunds.account": "Bank account",
+  "refunds.utr": "UTR",
+  "refunds.rejection_reason": "Reason for rejection",
+  "payment_plan.title": "Payment Plan",
+  "payment_plan.demand": "Demand {{number}}",
+  "payment_plan.plan_status.active": "In progress",
+  "payment_plan.plan_status.completed": "Fully paid",
+  "payment_plan.plan_status.cancelled": "Cancelled",
+  "payment_plan.payable_now": "Payable now",
+  "payment_plan.total_outstanding": "Total outstanding",
+  "payment_plan.paid_so_far": "Paid so far",
+  "payment_plan.next_due": "Installment {{number}} of {{amount}} is due on {{date}}.",
+  "payment_plan.all_paid": "All installments have been paid.",
+  "payment_plan.terms": "Late payments attract simple interest at {{rate}}% a year after a grace period of {{days}} days.",
+  "payment_plan.allocation.interest_first": "Each payment clears interest first, then the oldest installment.",
+  "payment_plan.allocation.principal_first": "Each payment clears the oldest installment first, then interest.",
+  "payment_plan.col.number": "#",
+  "payment_plan.col.due_date": "Due date",
+  "payment_plan.col.amount": "Installment",
+  "payment_plan.col.paid": "Paid",
+  "payment_plan.col.interest": "Interest due",
+  "payment_plan.col.balance": "Balance",
+  "payment_plan.col.status": "Status",
+  "payment_plan.status.pending": "Upcoming",
+  "payment_plan.status.partially_paid": "Part paid",
+  "payment_plan.status.paid": "Paid",
+  "payment_plan.status.overdue": "Overdue by {{days}} days",
+  "payment_plan.as_of": "Interest calculated up to {{date}}.",
+  "fees.title": "Fees",
+  "fees.how_calculated": "How this amount was calculated",
+  "fees.total": "Total {{amount}}",
+  "fees.derivation.flat": "Flat fee {{amount}}",
+  "fees.derivation.rate": "{{rate}} per unit = {{amount}}",
+  "fees.derivation.slab_up_to": "up to {{upTo}}",
+  "fees.derivation.slab_open": "above the last limit",
+  "fees.derivation.slab_flat": "Slab {{bracket}}: {{amount}}",
+  "fees.derivation.slab_rate": "Slab {{bracket}}: {{rate}} per unit = {{amount}}",
+  "fees.derivation.minimum": "Raised to the minimum of {{amount}}",
+  "fees.derivation.maximum": "Capped at the maximum of {{amount}}",
+  "fees.derivation.surcharge": "{{label}} ({{percent}}%): {{amount}}",
+  "fees.derivation.gst": "GST {{percent}}%: {{amount}}",
+  "fees.derivation.rounded": "Rounded from {{amount}}",
+  "challan.title": "Pay at the bank",
+  "challan.hint": "Generate a challan for the balance due, print it and pay at any authorised bank branch. The payment is credited once the authority verifies it.",
+  "challan.demand": "Demand {{number}}",
+  "challan.number": "Challan number",
+  "challan.valid_until": "Valid until",
+  "challan.generate": "Generate challan",
+  "challan.generating": "Generating…",
+  "challan.download": "Download challan",
+  "challan.download_failed": "Could not download the challan. Please try again.",
+  "challan.error.DEMAND_NOT_PAYABLE": "This demand is not open for payment.",
+  "challan.error.DEMAND_ALREADY_PAID": "This demand has already been paid.",
+  "challan.error.CHALLAN_PAYMENT_PENDING": "A payment against the last challan is awaiting verification.",
 
   // Document Locker
   "locker.title": "My Document Locker",
@@ -502,6 +589,25 @@ const en = {
   "settings.landing_services": "New Application",
   "settings.landing_applications": "My Applications",
   "settings.landing_locker": "Document Locker",
+  "settings.notifications": "Notifications",
+  "settings.notifications_hint": "Choose how we reach you about your applications. In-app notifications are always shown.",
+  "settings.notify_category": "Updates about",
+  "settings.notify_sms": "SMS",
+  "settings.notify_email": "Email",
+  "settings.notify_category_application_status": "Application status",
+  "settings.notify_category_queries": "Queries and document requests",
+  "settings.notify_category_payments": "Payments and demands",
+  "settings.notify_category_inspections": "Inspections",
+  "settings.notify_category_updates": "Other updates",
+  "settings.notify_mandatory_hint": "Queries, document requests, payment demands and rejections are always sent, as they may have deadlines.",
+  "settings.notify_off": "Off",
+  "settings.notify_on": "On",
+  "settings.quiet_hours": "SMS Quiet Hours",
+  "settings.quiet_hours_hint": "SMS due in this period are sent when it ends.",
+  "settings.quiet_hours_start": "From",
+  "settings.quiet_hours_end": "Until",
+  "settings.digest": "Daily Summary",
+  "settings.digest_hint": "Send routine updates (acknowledgements, receipts) as one message each evening.",
 
   // Profile Editor
   "profile.title": "Update Personal Details",
@@ -609,6 +715,8 @@ const en = {
   "common.valid_until": "Valid until",
   "common.download_certificate": "Download Certificate",
   "common.download_order": "Download Order",
+  "app_detail.output_pending": "Your certificate or order is being prepared. It will be available to download here and in your document locker shortly.",
+  "app_detail.output_failed": "We could not prepare your certificate or order yet. The office has been notified and will reissue it.",
 
   // Legacy keys (backward compat aliases)
   app_title: "PUDA Citizen Portal",
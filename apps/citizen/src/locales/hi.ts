@@ -259,6 +259,93 @@ const hi: Record<string, string> = {
   "ndc.submit_dues_pending": "जमा करें (बकाया लंबित)",
   "ndc.clear_dues": "जमा करने के लिए सभी बकाया राशि चुकाएं",
   "ndc.ledger_title": "NDC भुगतान खाता-बही",
+  "refunds.title": "धनवापसी",
+  "refunds.request": "धनवापसी का अनुरोध करें",
+  "refunds.checking": "जाँच हो रही है…",
+  "refunds.nothing_refundable": "इस भुगतान पर कोई राशि वापसी योग्य नहीं है: भुगतान की गई राशि आवेदन पर अभी देय है या पहले ही वापस की जा चुकी है।",
+  "refunds.refundable_summary": "अधिकतम {{amount}} वापस किया जा सकता है (भुगतान {{paid}}, देय {{due}})।",
+  "refunds.amount": "धनवापसी राशि (₹)",
+  "refunds.reason": "कारण",
+  "refunds.account_name": "खाताधारक का नाम",
+  "refunds.account_number": "खाता संख्या",
+  "refunds.account_number_hint": "9 से 18 अंक",
+  "refunds.ifsc": "IFSC",
+  "refunds.ifsc_hint": "11 अक्षर, जैसे SBIN0001234",
+  "refunds.bank_name": "बैंक का नाम",
+  "refunds.submit": "धनवापसी अनुरोध जमा करें",
+  "refunds.submitting": "जमा हो रहा है…",
+  "refunds.cancel": "रद्द करें",
+  "refunds.requested": "धनवापसी का अनुरोध किया गया। समीक्षा और भुगतान होने पर आपको सूचित किया जाएगा।",
+  "refunds.bank_invalid": "कृपया बैंक विवरण जाँचें: {{detail}}",
+  "refunds.error.REFUND_AMOUNT_EXCEEDS_REFUNDABLE": "राशि वापसी योग्य राशि से अधिक है।",
+  "refunds.error.NOTHING_TO_REFUND": "इस भुगतान पर कोई राशि वापसी योग्य नहीं है।",
+  "refunds.progress": "धनवापसी की प्रगति",
+  "refunds.step.requested": "अनुरोधित",
+  "refunds.step.recommended": "सत्यापित",
+  "refunds.step.approved": "स्वीकृत",
+  "refunds.step.in_payout": "बैंक को भेजा गया",
+  "refunds.step.processed": "भुगतान किया गया",
+  "refunds.status.requested": "अनुरोधित",
+  "refunds.status.recommended": "स्वीकृति हेतु लंबित",
+  "refunds.status.approved": "स्वीकृत",
+  "refunds.status.in_payout": "बैंक को भेजा गया",
+  "refunds.status.processed": "भुगतान किया गया",
+  "refunds.status.rejected": "अस्वीकृत",
+  "refunds.requested_on": "अनुरोध की तिथि",
+  "refunds.account": "बैंक खाता",
+  "refunds.utr": "UTR",
+  "refunds.rejection_reason": "अस्वीकृति का कारण",
+  "payment_plan.title": "भुगतान योजना",
+  "payment_plan.demand": "मांग {{number}}",
+  "payment_plan.plan_status.active": "जारी",
+  "payment_plan.plan_status.completed": "पूर्ण भुगतान",
+  "payment_plan.plan_status.cancelled": "रद्द",
+  "payment_plan.payable_now": "अभी देय",
+  "payment_plan.total_outstanding": "कुल बकाया",
+  "payment_plan.paid_so_far": "अब तक भुगतान",
+  "payment_plan.next_due": "किस्त {{number}} ({{amount}}) {{date}} तक देय है।",
+  "payment_plan.all_paid": "सभी किस्तों का भुगतान हो गया है।",
+  "payment_plan.terms": "देर से भुगतान पर {{days}} दिनों की छूट अवधि के बाद {{rate}}% वार्षिक साधारण ब्याज लगता है।",
+  "payment_plan.allocation.interest_first": "प्रत्येक भुगतान पहले ब्याज और फिर सबसे पुरानी किस्त में समायोजित होता है।",
+  "payment_plan.allocation.principal_first": "प्रत्येक भुगतान पहले सबसे पुरानी किस्त और फिर ब्याज में समायोजित होता है।",
+  "payment_plan.col.number": "#",
+  "payment_plan.col.due_date": "देय तिथि",
+  "payment_plan.col.amount": "किस्त",
+  "payment_plan.col.paid": "भुगतान",
+  "payment_plan.col.interest": "देय ब्याज",
+  "payment_plan.col.balance": "शेष",
+  "payment_plan.col.status": "स्थिति",
+  "payment_plan.status.pending": "आगामी",
+  "payment_plan.status.partially_paid": "आंशिक भुगतान",
+  "payment_plan.status.paid": "भुगतान हो गया",
+  "payment_plan.status.overdue": "{{days}} दिन से अतिदेय",
+  "payment_plan.as_of": "ब्याज {{date}} तक गणना किया गया।",
+  "fees.title": "शुल्क",
+  "fees.how_calculated": "यह राशि कैसे गणना की गई",
+  "fees.total": "कुल {{amount}}",
+  "fees.derivation.flat": "निश्चित शुल्क {{amount}}",
+  "fees.derivation.rate": "{{rate}} प्रति इकाई = {{amount}}",
+  "fees.derivation.slab_up_to": "{{upTo}} तक",
+  "fees.derivation.slab_open": "अंतिम सीमा से ऊपर",
+  "fees.derivation.slab_flat": "स्लैब {{bracket}}: {{amount}}",
+  "fees.derivation.slab_rate": "स्लैब {{bracket}}: {{rate}} प्रति इकाई = {{amount}}",
+  "fees.derivation.minimum": "न्यूनतम {{amount}} तक बढ़ाया गया",
+  "fees.derivation.maximum": "अधिकतम {{amount}} पर सीमित",
+  "fees.derivation.surcharge": "{{label}} ({{percent}}%): {{amount}}",
+  "fees.derivation.gst": "जीएसटी {{percent}}%: {{amount}}",
+  "fees.derivation.rounded": "{{amount}} से पूर्णांकित",
+  "challan.title": "बैंक में भुगतान करें",
+  "challan.hint": "देय शेष राशि का चालान बनाएं, उसे प्रिंट करें और किसी भी अधिकृत बैंक शाखा में भुगतान करें। प्राधिकरण द्वारा सत्यापन के बाद भुगतान जमा किया जाता है।",
+  "challan.demand": "मांग {{number}}",
+  "challan.number": "चालान संख्या",
+  "challan.valid_until": "तक मान्य",
+  "challan.generate": "चालान बनाएं",
+  "challan.generating": "बनाया जा रहा है…",
+  "challan.download": "चालान डाउनलोड करें",
+  "challan.download_failed": "चालान डाउनलोड नहीं हो सका। कृपया पुनः प्रयास करें।",
+  "challan.error.DEMAND_NOT_PAYABLE": "यह मांग भुगतान के लिए खुली नहीं है।",
+  "challan.error.DEMAND_ALREADY_PAID": "इस मांग का भुगतान पहले ही हो चुका है।",
+  "challan.error.CHALLAN_PAYMENT_PENDING": "पिछले चालान के विरुद्ध भुगतान सत्यापन की प्रतीक्षा में है।",
 
   // Document Locker
   "locker.title": "मेरा दस्तावेज़ लॉकर",
@@ -502,6 +589,25 @@ const hi: Record<string, string> = {
   "settings.landing_services": "नया आवेदन",
   "settings.landing_applications": "मेरे आवेदन",
   "settings.landing_locker": "दस्तावेज़ लॉकर",
+  "settings.notifications": "सूचनाएं",
+  "settings.notifications_hint": "चुनें कि आपके आवेदनों के बारे में हम आपसे कैसे संपर्क करें। ऐप में सूचनाएं हमेशा दिखाई जाती हैं।",
+  "settings.notify_category": "किस बारे में",
+  "settings.notify_sms": "एसएमएस",
+  "settings.notify_email": "ईमेल",
+  "settings.notify_category_application_status": "आवेदन की स्थिति",
+  "settings.notify_category_queries": "प्रश्न और दस्तावेज़ अनुरोध",
+  "settings.notify_category_payments": "भुगतान और मांग",
+  "settings.notify_category_inspections": "निरीक्षण",
+  "settings.notify_category_updates": "अन्य अपडेट",
+  "settings.notify_mandatory_hint": "प्रश्न, दस्तावेज़ अनुरोध, भुगतान मांग और अस्वीकृति हमेशा भेजी जाती हैं, क्योंकि इनकी समय-सीमा हो सकती है।",
+  "settings.notify_off": "बंद",
+  "settings.notify_on": "चालू",
+  "settings.quiet_hours": "एसएमएस शांत समय",
+  "settings.quiet_hours_hint": "इस अवधि में आने वाले एसएमएस इसके समाप्त होने पर भेजे जाते हैं।",
+  "settings.quiet_hours_start": "से",
+  "settings.quiet_hours_end": "तक",
+  "settings.digest": "दैनिक सारांश",
+  "settings.digest_hint": "नियमित अपडेट (पावती, रसीदें) हर शाम एक संदेश में भेजें।",
 
   // Profile Editor
   "profile.title": "व्यक्तिगत विवरण अपडेट करें",
@@ -609,6 +715,8 @@ const hi: Record<string, string> = {
   "common.valid_until": "वैध तक",
   "common.download_certificate": "प्रमाणपत्र डाउनलोड करें",
   "common.download_order": "आदेश डाउनलोड करें",
+  "app_detail.output_pending": "Your certificate or order is being prepared. It will be available to download here and in your document locker shortly.",
+  "app_detail.output_failed": "We could not prepare your certificate or order yet. The office has been notified and will reissue it.",
 
   // Legacy keys
   app_title: "पूडा नागरिक पोर्टल",
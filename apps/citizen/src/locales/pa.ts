@@ -259,6 +259,93 @@ const pa: Record<string, string> = {
   "ndc.submit_dues_pending": "ਜਮ੍ਹਾਂ ਕਰੋ (ਬਕਾਇਆ ਲੰਬਿਤ)",
   "ndc.clear_dues": "ਜਮ੍ਹਾਂ ਕਰਨ ਲਈ ਸਾਰੀ ਬਕਾਇਆ ਰਾਸ਼ੀ ਚੁਕਾਓ",
   "ndc.ledger_title": "NDC ਭੁਗਤਾਨ ਖਾਤਾ-ਬਹੀ",
+  "refunds.title": "ਰਿਫੰਡ",
+  "refunds.request": "ਰਿਫੰਡ ਦੀ ਬੇਨਤੀ ਕਰੋ",
+  "refunds.checking": "ਜਾਂਚ ਹੋ ਰਹੀ ਹੈ…",
+  "refunds.nothing_refundable": "ਇਸ ਭੁਗਤਾਨ 'ਤੇ ਕੋਈ ਰਕਮ ਵਾਪਸੀਯੋਗ ਨਹੀਂ ਹੈ: ਭੁਗਤਾਨ ਕੀਤੀ ਰਕਮ ਅਰਜ਼ੀ 'ਤੇ ਅਜੇ ਬਕਾਇਆ ਹੈ ਜਾਂ ਪਹਿਲਾਂ ਹੀ ਵਾਪਸ ਕੀਤੀ ਜਾ ਚੁੱਕੀ ਹੈ।",
+  "refunds.refundable_summary": "ਵੱਧ ਤੋਂ ਵੱਧ {{amount}} ਵਾਪਸ ਕੀਤਾ ਜਾ ਸਕਦਾ ਹੈ (ਭੁਗਤਾਨ {{paid}}, ਬਕਾਇਆ {{due}})।",
+  "refunds.amount": "ਰਿਫੰਡ ਰਕਮ (₹)",
+  "refunds.reason": "ਕਾਰਨ",
+  "refunds.account_name": "ਖਾਤਾਧਾਰਕ ਦਾ ਨਾਮ",
+  "refunds.account_number": "ਖਾਤਾ ਨੰਬਰ",
+  "refunds.account_number_hint": "9 ਤੋਂ 18 ਅੰਕ",
+  "refunds.ifsc": "IFSC",
+  "refunds.ifsc_hint": "11 ਅੱਖਰ, ਜਿਵੇਂ SBIN0001234",
+  "refunds.bank_name": "ਬੈਂਕ ਦਾ ਨਾਮ",
+  "refunds.submit": "ਰਿਫੰਡ ਬੇਨਤੀ ਜਮ੍ਹਾਂ ਕਰੋ",
+  "refunds.submitting": "ਜਮ੍ਹਾਂ ਹੋ ਰਿਹਾ ਹੈ…",
+  "refunds.cancel": "ਰੱਦ ਕਰੋ",
+  "refunds.requested": "ਰਿਫੰਡ ਦੀ ਬੇਨਤੀ ਕੀਤੀ ਗਈ। ਸਮੀਖਿਆ ਅਤੇ ਭੁਗਤਾਨ ਹੋਣ 'ਤੇ ਤੁਹਾਨੂੰ ਸੂਚਿਤ ਕੀਤਾ ਜਾਵੇਗਾ।",
+  "refunds.bank_invalid": "ਕਿਰਪਾ ਕਰਕੇ ਬੈਂਕ ਵੇਰਵੇ ਜਾਂਚੋ: {{detail}}",
+  "refunds.error.REFUND_AMOUNT_EXCEEDS_REFUNDABLE": "ਰਕਮ ਵਾਪਸੀਯੋਗ ਰਕਮ ਤੋਂ ਵੱਧ ਹੈ।",
+  "refunds.error.NOTHING_TO_REFUND": "ਇਸ ਭੁਗਤਾਨ 'ਤੇ ਕੋਈ ਰਕਮ ਵਾਪਸੀਯੋਗ ਨਹੀਂ ਹੈ।",
+  "refunds.progress": "ਰਿਫੰਡ ਦੀ ਪ੍ਰਗਤੀ",
+  "refunds.step.requested": "ਬੇਨਤੀ ਕੀਤੀ",
+  "refunds.step.recommended": "ਤਸਦੀਕ ਕੀਤਾ",
+  "refunds.step.approved": "ਮਨਜ਼ੂਰ",
+  "refunds.step.in_payout": "ਬੈਂਕ ਨੂੰ ਭੇਜਿਆ",
+  "refunds.step.processed": "ਭੁਗਤਾਨ ਕੀਤਾ",
+  "refunds.status.requested": "ਬੇਨਤੀ ਕੀਤੀ",
+  "refunds.status.recommended": "ਮਨਜ਼ੂਰੀ ਅਧੀਨ",
+  "refunds.status.approved": "ਮਨਜ਼ੂਰ",
+  "refunds.status.in_payout": "ਬੈਂਕ ਨੂੰ ਭੇਜਿਆ",
+  "refunds.status.processed": "ਭੁਗਤਾਨ ਕੀਤਾ",
+  "refunds.status.rejected": "ਰੱਦ",
+  "refunds.requested_on": "ਬੇਨਤੀ ਦੀ ਮਿਤੀ",
+  "refunds.account": "ਬੈਂਕ ਖਾਤਾ",
+  "refunds.utr": "UTR",
+  "refunds.rejection_reason": "ਰੱਦ ਕਰਨ ਦਾ ਕਾਰਨ",
+  "payment_plan.title": "ਭੁਗਤਾਨ ਯੋਜਨਾ",
+  "payment_plan.demand": "ਮੰਗ {{number}}",
+  "payment_plan.plan_status.active": "ਜਾਰੀ",
+  "payment_plan.plan_status.completed": "ਪੂਰਾ ਭੁਗਤਾਨ",
+  "payment_plan.plan_status.cancelled": "ਰੱਦ",
+  "payment_plan.payable_now": "ਹੁਣ ਦੇਣਯੋਗ",
+  "payment_plan.total_outstanding": "ਕੁੱਲ ਬਕਾਇਆ",
+  "payment_plan.paid_so_far": "ਹੁਣ ਤੱਕ ਭੁਗਤਾਨ",
+  "payment_plan.next_due": "ਕਿਸ਼ਤ {{number}} ({{amount}}) {{date}} ਤੱਕ ਦੇਣਯੋਗ ਹੈ।",
+  "payment_plan.all_paid": "ਸਾਰੀਆਂ ਕਿਸ਼ਤਾਂ ਦਾ ਭੁਗਤਾਨ ਹੋ ਗਿਆ ਹੈ।",
+  "payment_plan.terms": "ਦੇਰੀ ਨਾਲ ਭੁਗਤਾਨ 'ਤੇ {{days}} ਦਿਨਾਂ ਦੀ ਛੋਟ ਮਿਆਦ ਤੋਂ ਬਾਅਦ {{rate}}% ਸਾਲਾਨਾ ਸਧਾਰਨ ਵਿਆਜ ਲੱਗਦਾ ਹੈ।",
+  "payment_plan.allocation.interest_first": "ਹਰ ਭੁਗਤਾਨ ਪਹਿਲਾਂ ਵਿਆਜ ਅਤੇ ਫਿਰ ਸਭ ਤੋਂ ਪੁਰਾਣੀ ਕਿਸ਼ਤ ਵਿੱਚ ਐਡਜਸਟ ਹੁੰਦਾ ਹੈ।",
+  "payment_plan.allocation.principal_first": "ਹਰ ਭੁਗਤਾਨ ਪਹਿਲਾਂ ਸਭ ਤੋਂ ਪੁਰਾਣੀ ਕਿਸ਼ਤ ਅਤੇ ਫਿਰ ਵਿਆਜ ਵਿੱਚ ਐਡਜਸਟ ਹੁੰਦਾ ਹੈ।",
+  "payment_plan.col.number": "#",
+  "payment_plan.col.due_date": "ਦੇਣ ਦੀ ਮਿਤੀ",
+  "payment_plan.col.amount": "ਕਿਸ਼ਤ",
+  "payment_plan.col.paid": "ਭੁਗਤਾਨ",
+  "payment_plan.col.interest": "ਦੇਣਯੋਗ ਵਿਆਜ",
+  "payment_plan.col.balance": "ਬਕਾਇਆ",
+  "payment_plan.col.status": "ਸਥਿਤੀ",
+  "payment_plan.status.pending": "ਆਉਣ ਵਾਲੀ",
+  "payment_plan.status.partially_paid": "ਅੰਸ਼ਕ ਭੁਗਤਾਨ",
+  "payment_plan.status.paid": "ਭੁਗਤਾਨ ਹੋ ਗਿਆ",
+  "payment_plan.status.overdue": "{{days}} ਦਿਨਾਂ ਤੋਂ ਬਕਾਇਆ",
+  "payment_plan.as_of": "ਵਿਆਜ {{date}} ਤੱਕ ਗਿਣਿਆ ਗਿਆ।",
+  "fees.title": "ਫੀਸ",
+  "fees.how_calculated": "ਇਹ ਰਕਮ ਕਿਵੇਂ ਗਿਣੀ ਗਈ",
+  "fees.total": "ਕੁੱਲ {{amount}}",
+  "fees.derivation.flat": "ਨਿਸ਼ਚਿਤ ਫੀਸ {{amount}}",
+  "fees.derivation.rate": "{{rate}} ਪ੍ਰਤੀ ਇਕਾਈ = {{amount}}",
+  "fees.derivation.slab_up_to": "{{upTo}} ਤੱਕ",
+  "fees.derivation.slab_open": "ਆਖਰੀ ਸੀਮਾ ਤੋਂ ਉੱਪਰ",
+  "fees.derivation.slab_flat": "ਸਲੈਬ {{bracket}}: {{amount}}",
+  "fees.derivation.slab_rate": "ਸਲੈਬ {{bracket}}: {{rate}} ਪ੍ਰਤੀ ਇਕਾਈ = {{amount}}",
+  "fees.derivation.minimum": "ਘੱਟੋ-ਘੱਟ {{amount}} ਤੱਕ ਵਧਾਇਆ ਗਿਆ",
+  "fees.derivation.maximum": "ਵੱਧ ਤੋਂ ਵੱਧ {{amount}} ਤੱਕ ਸੀਮਤ",
+  "fees.derivation.surcharge": "{{label}} ({{percent}}%): {{amount}}",
+  "fees.derivation.gst": "ਜੀਐਸਟੀ {{percent}}%: {{amount}}",
+  "fees.derivation.rounded": "{{amount}} ਤੋਂ ਪੂਰਨ ਅੰਕ ਕੀਤਾ",
+  "challan.title": "ਬੈਂਕ ਵਿੱਚ ਭੁਗਤਾਨ ਕਰੋ",
+  "challan.hint": "ਬਕਾਇਆ ਰਕਮ ਲਈ ਚਲਾਨ ਬਣਾਓ, ਇਸਨੂੰ ਪ੍ਰਿੰਟ ਕਰੋ ਅਤੇ ਕਿਸੇ ਵੀ ਅਧਿਕਾਰਤ ਬੈਂਕ ਸ਼ਾਖਾ ਵਿੱਚ ਭੁਗਤਾਨ ਕਰੋ। ਅਥਾਰਟੀ ਵੱਲੋਂ ਤਸਦੀਕ ਤੋਂ ਬਾਅਦ ਭੁਗਤਾਨ ਜਮ੍ਹਾਂ ਕੀਤਾ ਜਾਂਦਾ ਹੈ।",
+  "challan.demand": "ਮੰਗ {{number}}",
+  "challan.number": "ਚਲਾਨ ਨੰਬਰ",
+  "challan.valid_until": "ਤੱਕ ਵੈਧ",
+  "challan.generate": "ਚਲਾਨ ਬਣਾਓ",
+  "challan.generating": "ਬਣਾਇਆ ਜਾ ਰਿਹਾ ਹੈ…",
+  "challan.download": "ਚਲਾਨ ਡਾਊਨਲੋਡ ਕਰੋ",
+  "challan.download_failed": "ਚਲਾਨ ਡਾਊਨਲੋਡ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  "challan.error.DEMAND_NOT_PAYABLE": "ਇਹ ਮੰਗ ਭੁਗਤਾਨ ਲਈ ਖੁੱਲ੍ਹੀ ਨਹੀਂ ਹੈ।",
+  "challan.error.DEMAND_ALREADY_PAID": "ਇਸ ਮੰਗ ਦਾ ਭੁਗਤਾਨ ਪਹਿਲਾਂ ਹੀ ਹੋ ਚੁੱਕਾ ਹੈ।",
+  "challan.error.CHALLAN_PAYMENT_PENDING": "ਪਿਛਲੇ ਚਲਾਨ ਵਿਰੁੱਧ ਭੁਗਤਾਨ ਤਸਦੀਕ ਦੀ ਉਡੀਕ ਵਿੱਚ ਹੈ।",
 
   // Document Locker
   "locker.title": "ਮੇਰਾ ਦਸਤਾਵੇਜ਼ ਲੌਕਰ",
@@ -502,6 +589,25 @@ const pa: Record<string, string> = {
   "settings.landing_services": "ਨਵੀਂ ਅਰਜ਼ੀ",
   "settings.landing_applications": "ਮੇਰੀਆਂ ਅਰਜ਼ੀਆਂ",
   "settings.landing_locker": "ਦਸਤਾਵੇਜ਼ ਲੌਕਰ",
+  "settings.notifications": "ਸੂਚਨਾਵਾਂ",
+  "settings.notifications_hint": "ਚੁਣੋ ਕਿ ਤੁਹਾਡੀਆਂ ਅਰਜ਼ੀਆਂ ਬਾਰੇ ਅਸੀਂ ਤੁਹਾਡੇ ਨਾਲ ਕਿਵੇਂ ਸੰਪਰਕ ਕਰੀਏ। ਐਪ ਵਿੱਚ ਸੂਚਨਾਵਾਂ ਹਮੇਸ਼ਾ ਦਿਖਾਈਆਂ ਜਾਂਦੀਆਂ ਹਨ।",
+  "settings.notify_category": "ਕਿਸ ਬਾਰੇ",
+  "settings.notify_sms": "ਐਸਐਮਐਸ",
+  "settings.notify_email": "ਈਮੇਲ",
+  "settings.notify_category_application_status": "ਅਰਜ਼ੀ ਦੀ ਸਥਿਤੀ",
+  "settings.notify_category_queries": "ਸਵਾਲ ਅਤੇ ਦਸਤਾਵੇਜ਼ ਬੇਨਤੀਆਂ",
+  "settings.notify_category_payments": "ਭੁਗਤਾਨ ਅਤੇ ਮੰਗ",
+  "settings.notify_category_inspections": "ਨਿਰੀਖਣ",
+  "settings.notify_category_updates": "ਹੋਰ ਅੱਪਡੇਟ",
+  "settings.notify_mandatory_hint": "ਸਵਾਲ, ਦਸਤਾਵੇਜ਼ ਬੇਨਤੀਆਂ, ਭੁਗਤਾਨ ਮੰਗਾਂ ਅਤੇ ਅਸਵੀਕਾਰ ਹਮੇਸ਼ਾ ਭੇਜੇ ਜਾਂਦੇ ਹਨ, ਕਿਉਂਕਿ ਇਨ੍ਹਾਂ ਦੀ ਸਮਾਂ-ਸੀਮਾ ਹੋ ਸਕਦੀ ਹੈ।",
+  "settings.notify_off": "ਬੰਦ",
+  "settings.notify_on": "ਚਾਲੂ",
+  "settings.quiet_hours": "ਐਸਐਮਐਸ ਸ਼ਾਂਤ ਸਮਾਂ",
+  "settings.quiet_hours_hint": "ਇਸ ਸਮੇਂ ਦੌਰਾਨ ਆਉਣ ਵਾਲੇ ਐਸਐਮਐਸ ਇਸਦੇ ਖਤਮ ਹੋਣ 'ਤੇ ਭੇਜੇ ਜਾਂਦੇ ਹਨ।",
+  "settings.quiet_hours_start": "ਤੋਂ",
+  "settings.quiet_hours_end": "ਤੱਕ",
+  "settings.digest": "ਰੋਜ਼ਾਨਾ ਸਾਰ",
+  "settings.digest_hint": "ਰੁਟੀਨ ਅੱਪਡੇਟ (ਪ੍ਰਾਪਤੀ, ਰਸੀਦਾਂ) ਹਰ ਸ਼ਾਮ ਇੱਕ ਸੁਨੇਹੇ ਵਿੱਚ ਭੇਜੋ।",
 
   // Profile Editor
   "profile.title": "ਨਿੱਜੀ ਵੇਰਵੇ ਅੱਪਡੇਟ ਕਰੋ",
@@ -609,6 +715,8 @@ const pa: Record<string, string> = {
   "common.valid_until": "ਵੈਧ ਤੱਕ",
   "common.download_certificate": "ਸਰਟੀਫਿਕੇਟ ਡਾਊਨਲੋਡ ਕਰੋ",
   "common.download_order": "ਆਰਡਰ ਡਾਊਨਲੋਡ ਕਰੋ",
+  "app_detail.output_pending": "Your certificate or order is being prepared. It will be available to download here and in your document locker shortly.",
+  "app_detail.output_failed": "We could not prepare your certificate or order yet. The office has been notified and will reissue it.",
 
   // Legacy keys
   app_title: "ਪੁਡਾ ਨਾਗਰਿਕ ਪੋਰਟਲ",
@@ -1,5 +1,27 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 
+export const NOTIFICATION_CATEGORIES = [
+  "application_status",
+  "queries",
+  "payments",
+  "inspections",
+  "updates",
+] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+/** Stored server-side as preferences.notifications; a channel left out is on. */
+export type NotificationPreferences = {
+  channels: Partial<Record<NotificationCategory, { sms?: boolean; email?: boolean }>>;
+  quietHours: { enabled: boolean; start: string; end: string };
+  digest: boolean;
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: {},
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  digest: false,
+};
+
 export type UserPreferences = {
   theme: string; // "light" | "dark" | "system" | custom theme names
   sidebarCollapsed: boolean;
@@ -8,6 +30,7 @@ export type UserPreferences = {
   contrastMode: "normal" | "high";
   language: "hi" | "pa" | "none";
   dateFormat: "DD/MM/YYYY" | "YYYY-MM-DD";
+  notifications: NotificationPreferences;
 };
 
 export const DEFAULT_PREFERENCES: UserPreferences = {
@@ -18,6 +41,7 @@ export const DEFAULT_PREFERENCES: UserPreferences = {
   contrastMode: "normal",
   language: "none",
   dateFormat: "DD/MM/YYYY",
+  notifications: DEFAULT_NOTIFICATION_PREFERENCES,
 };
 
 const STORAGE_KEY = "puda_citizen_preferences";
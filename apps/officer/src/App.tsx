@@ -4,8 +4,8 @@
 import { useState, useCallback, useEffect, useRef, lazy, Suspense } from "react";
 import { useTranslation } from "react-i18next";
 import "./app.css";
-import { Alert, Button, Drawer, useToast, SkeletonBlock, parseHash, buildHash, pushHash, replaceHash, isSuppressed, validateView } from "@puda/shared";
-import { Task, Application, apiBaseUrl } from "./types";
+import { Alert, Button, Drawer, useToast, SkeletonBlock, parseHash, buildHash, pushHash, replaceHash, isSuppressed, validateView, useLiveEvents } from "@puda/shared";
+import { Task, Application, InboxQuery, apiBaseUrl } from "./types";
 import { useOfficerAuth } from "./useOfficerAuth";
 import OfficerLogin from "./OfficerLogin";
 import { useTheme } from "./theme";
@@ -20,12 +20,36 @@ const SearchPanel = lazy(() => import("./SearchPanel"));
 const ComplaintManagement = lazy(() => import("./ComplaintManagement"));
 const ServiceConfigView = lazy(() => import("./ServiceConfigView"));
 const Settings = lazy(() => import("./Settings"));
+const EscalatedTasks = lazy(() => import("./EscalatedTasks"));
+const Delegations = lazy(() => import("./Delegations"));
+const PerformanceDashboard = lazy(() => import("./PerformanceDashboard"));
+const Reconciliation = lazy(() => import("./Reconciliation"));
+const Refunds = lazy(() => import("./Refunds"));
+const CounterPayments = lazy(() => import("./CounterPayments"));
 
-type View = "inbox" | "task" | "search" | "complaints" | "service-config" | "settings";
+const INBOX_PAGE_SIZE = 25;
+const DEFAULT_INBOX_QUERY: InboxQuery = { filters: {}, sort: { key: "sla_due_at", direction: "asc" }, page: 0 };
+
+function isDefaultInboxQuery(query: InboxQuery): boolean {
+  return (
+    query.page === 0 &&
+    Object.keys(query.filters).length === 0 &&
+    query.sort.key === DEFAULT_INBOX_QUERY.sort.key &&
+    query.sort.direction === DEFAULT_INBOX_QUERY.sort.direction
+  );
+}
+
+type View = "inbox" | "task" | "search" | "escalated" | "delegations" | "performance" | "reconciliation" | "refunds" | "counter" | "complaints" | "service-config" | "settings";
 
 const PAGE_TITLE_KEYS: Record<View, string> = {
   inbox: "app.page_inbox",
   search: "app.page_search",
+  escalated: "app.page_escalated",
+  delegations: "app.page_delegations",
+  performance: "app.page_performance",
+  reconciliation: "app.page_reconciliation",
+  refunds: "app.page_refunds",
+  counter: "app.page_counter",
   task: "app.page_task",
   complaints: "app.page_complaints",
   "service-config": "app.page_service_config",
@@ -43,6 +67,10 @@ export default function App() {
 
   const [view, setView] = useState<View>("inbox");
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [inboxTotal, setInboxTotal] = useState(0);
+  const [inboxQuery, setInboxQuery] = useState<InboxQuery>(DEFAULT_INBOX_QUERY);
+  // Read by loadInbox so refreshes (polling, live events) keep the current filters
+  const inboxQueryRef = useRef<InboxQuery>(DEFAULT_INBOX_QUERY);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [application, setApplication] = useState<Application | null>(null);
   const [serviceConfig, setServiceConfig] = useState<any>(null);
@@ -71,9 +99,14 @@ export default function App() {
   const INBOX_CACHE_KEY = "puda_officer_cache_inbox";
   const INBOX_CACHE_SCHEMA = "officer_inbox_v1";
   const CACHE_5_MIN = 5 * 60 * 1000;
+  // Inbox refresh: pushed by live events, polled only while the stream is down
+  const INBOX_POLL_MS = 60 * 1000;
+  const LIVE_REFRESH_DEBOUNCE_MS = 500;
 
   const handleLogout = useCallback(() => {
     clearOfficerCachedState();
+    inboxQueryRef.current = DEFAULT_INBOX_QUERY;
+    setInboxQuery(DEFAULT_INBOX_QUERY);
     logout();
   }, [logout]);
 
@@ -144,10 +177,14 @@ export default function App() {
 
   const loadInbox = useCallback(async () => {
     if (!officerUserId) return;
+    const inboxQuery = inboxQueryRef.current;
+    // Only the unfiltered first page is cached for offline use
+    const cacheable = isDefaultInboxQuery(inboxQuery);
     if (isOffline) {
-      const cached = readCached<Task[]>(INBOX_CACHE_KEY, { schema: INBOX_CACHE_SCHEMA });
+      const cached = cacheable ? readCached<Task[]>(INBOX_CACHE_KEY, { schema: INBOX_CACHE_SCHEMA }) : null;
       if (cached) {
         setTasks(cached.data);
+        setInboxTotal(cached.data.length);
         setLoading(false);
         return;
       }
@@ -156,7 +193,9 @@ export default function App() {
       return;
     }
     // Show cached data immediately if available
-    const cached = readCached<Task[]>(INBOX_CACHE_KEY, { schema: INBOX_CACHE_SCHEMA, maxAgeMs: CACHE_5_MIN });
+    const cached = cacheable
+      ? readCached<Task[]>(INBOX_CACHE_KEY, { schema: INBOX_CACHE_SCHEMA, maxAgeMs: CACHE_5_MIN })
+      : null;
     if (cached) {
       setTasks(cached.data);
       setLoading(false);
@@ -165,16 +204,33 @@ export default function App() {
     }
     setError(null);
     try {
-      const authorityParam = authorities.length > 0 ? `&authorityId=${authorities[0]}` : "";
-      const res = await fetch(
-        `${apiBaseUrl}/api/v1/tasks/inbox?status=PENDING${authorityParam}`,
-        { headers: authHeaders() }
-      );
+      const params = new URLSearchParams({
+        status: "PENDING",
+        limit: String(INBOX_PAGE_SIZE),
+        offset: String(inboxQuery.page * INBOX_PAGE_SIZE),
+        sortBy: inboxQuery.sort.key,
+        sortDir: inboxQuery.sort.direction,
+      });
+      if (authorities.length > 0) params.set("authorityId", authorities[0]);
+      Object.entries(inboxQuery.filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== "" && value !== false) params.set(key, String(value));
+      });
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/inbox?${params}`, { headers: authHeaders() });
       if (!res.ok) throw new Error(`API error ${res.status}`);
       const data = await res.json();
       const freshTasks = data.tasks || [];
+      const total = data.total ?? freshTasks.length;
+      if (freshTasks.length === 0 && total > 0 && inboxQuery.page > 0) {
+        // The page emptied (tasks completed elsewhere); step back to the last page
+        const lastPage = Math.max(0, Math.ceil(total / INBOX_PAGE_SIZE) - 1);
+        inboxQueryRef.current = { ...inboxQuery, page: lastPage };
+        setInboxQuery(inboxQueryRef.current);
+        void loadInboxRef.current();
+        return;
+      }
       setTasks(freshTasks);
-      writeCached(INBOX_CACHE_KEY, freshTasks, { schema: INBOX_CACHE_SCHEMA });
+      setInboxTotal(total);
+      if (cacheable) writeCached(INBOX_CACHE_KEY, freshTasks, { schema: INBOX_CACHE_SCHEMA });
     } catch (err) {
       if (!cached) {
         setError(err instanceof Error ? err.message : "Unknown error");
@@ -183,6 +239,14 @@ export default function App() {
       setLoading(false);
     }
   }, [officerUserId, authorities, authHeaders, isOffline]);
+  const loadInboxRef = useRef(loadInbox);
+  loadInboxRef.current = loadInbox;
+
+  const handleInboxQueryChange = (next: InboxQuery) => {
+    inboxQueryRef.current = next;
+    setInboxQuery(next);
+    void loadInbox();
+  };
 
   const loadApplication = async (arn: string) => {
     if (isOffline) {
@@ -244,6 +308,24 @@ export default function App() {
     setView("task");
   };
 
+  const handleEscalatedSelect = async (task: Task) => {
+    if (roles.includes(task.system_role_id)) {
+      await handleTaskClick(task);
+      return;
+    }
+    // Escalated for visibility only (notify / raise to head): open read-only
+    if (isOffline) {
+      setInboxFeedback({ variant: "warning", text: t("offline.search_readonly") });
+      return;
+    }
+    navDirectionRef.current = "push";
+    navStackRef.current.push({ view, fromSearch });
+    setFromSearch(true);
+    await loadApplication(task.arn);
+    setSelectedTask({ ...task, task_id: "" });
+    setView("task");
+  };
+
   const handleActionComplete = (feedback?: { variant: "info" | "success" | "warning" | "error"; text: string }) => {
     navDirectionRef.current = "replace";
     setInboxFeedback(feedback ?? null);
@@ -255,6 +337,12 @@ export default function App() {
     loadInbox();
   };
 
+  const handleBulkComplete = (feedback: { variant: "info" | "success" | "warning" | "error"; text: string }) => {
+    setInboxFeedback(feedback);
+    showToast(feedback.variant, feedback.text);
+    loadInbox();
+  };
+
   useEffect(() => {
     if (!inboxFeedback) return;
     const timeout = window.setTimeout(() => setInboxFeedback(null), 6000);
@@ -284,6 +372,32 @@ export default function App() {
     }
   }, [auth, tasks.length, loading, loadInbox]);
 
+  const liveRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const liveStatus = useLiveEvents({
+    enabled: Boolean(auth) && !isOffline,
+    url: `${apiBaseUrl}/api/v1/events/stream`,
+    headers: authHeaders,
+    onEvent: (type, data) => {
+      if (type !== "task" && type !== "application") return;
+      if (
+        type === "task" &&
+        data.assigneeUserId === officerUserId &&
+        (data.action === "CREATED" || data.action === "REASSIGNED")
+      ) {
+        showToast("info", t("inbox.live_task_assigned", { arn: String(data.arn ?? "") }));
+      }
+      clearTimeout(liveRefreshTimerRef.current);
+      liveRefreshTimerRef.current = setTimeout(() => void loadInbox(), LIVE_REFRESH_DEBOUNCE_MS);
+    },
+  });
+  useEffect(() => () => clearTimeout(liveRefreshTimerRef.current), []);
+
+  useEffect(() => {
+    if (!auth || isOffline || liveStatus === "live") return;
+    const interval = window.setInterval(() => void loadInbox(), INBOX_POLL_MS);
+    return () => window.clearInterval(interval);
+  }, [auth, isOffline, liveStatus, loadInbox]);
+
   useEffect(() => {
     const handleOnline = () => setIsOffline(false);
     const handleOffline = () => setIsOffline(true);
@@ -311,7 +425,7 @@ export default function App() {
 
   // --- Hash-based routing ---
 
-  const OFFICER_VALID_VIEWS = ["", "task", "search", "complaints", "service-config", "settings"] as const;
+  const OFFICER_VALID_VIEWS = ["", "task", "search", "escalated", "delegations", "performance", "reconciliation", "refunds", "counter", "complaints", "service-config", "settings"] as const;
 
   /** Map current officer state → hash string */
   const officerViewToHash = useCallback((): string => {
@@ -322,6 +436,12 @@ export default function App() {
     }
     if (view === "inbox") return buildHash("");
     if (view === "search") return buildHash("search");
+    if (view === "escalated") return buildHash("escalated");
+    if (view === "delegations") return buildHash("delegations");
+    if (view === "performance") return buildHash("performance");
+    if (view === "reconciliation") return buildHash("reconciliation");
+    if (view === "refunds") return buildHash("refunds");
+    if (view === "counter") return buildHash("counter");
     if (view === "complaints") return buildHash("complaints");
     if (view === "service-config") return buildHash("service-config");
     if (view === "settings") return buildHash("settings");
@@ -373,6 +493,12 @@ export default function App() {
     }
     const simpleMap: Record<string, View> = {
       search: "search",
+      escalated: "escalated",
+      delegations: "delegations",
+      performance: "performance",
+      reconciliation: "reconciliation",
+      refunds: "refunds",
+      counter: "counter",
       complaints: "complaints",
       "service-config": "service-config",
       settings: "settings"
@@ -402,8 +528,8 @@ export default function App() {
       const validView = validateView(parsed.view, OFFICER_VALID_VIEWS, "");
       navDirectionRef.current = "none";
       navStackRef.current.pop();
-      if (validView === "" || validView === "search" || validView === "complaints" || validView === "service-config" || validView === "settings") {
-        const viewMap: Record<string, View> = { "": "inbox", search: "search", complaints: "complaints", "service-config": "service-config", settings: "settings" };
+      if (validView === "" || validView === "search" || validView === "escalated" || validView === "delegations" || validView === "performance" || validView === "reconciliation" || validView === "refunds" || validView === "counter" || validView === "complaints" || validView === "service-config" || validView === "settings") {
+        const viewMap: Record<string, View> = { "": "inbox", search: "search", escalated: "escalated", delegations: "delegations", performance: "performance", reconciliation: "reconciliation", refunds: "refunds", counter: "counter", complaints: "complaints", "service-config": "service-config", settings: "settings" };
         setView(viewMap[validView] || "inbox");
         setSelectedTask(null);
         setApplication(null);
@@ -486,6 +612,78 @@ export default function App() {
             <span>{t("nav.search")}</span>
           </button>
         </li>
+        <li>
+          <button
+            className={`sidebar__item ${view === "escalated" ? "sidebar__item--active" : ""}`}
+            onClick={() => navigate("escalated")}
+            title={t("nav.escalated")}
+          >
+            <span className="sidebar__item-icon" aria-hidden="true">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="17 11 12 6 7 11"/><polyline points="17 18 12 13 7 18"/></svg>
+            </span>
+            <span>{t("nav.escalated")}</span>
+          </button>
+        </li>
+        <li>
+          <button
+            className={`sidebar__item ${view === "delegations" ? "sidebar__item--active" : ""}`}
+            onClick={() => navigate("delegations")}
+            title={t("nav.delegations")}
+          >
+            <span className="sidebar__item-icon" aria-hidden="true">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/><polyline points="17 11 19 13 23 9"/></svg>
+            </span>
+            <span>{t("nav.delegations")}</span>
+          </button>
+        </li>
+        <li>
+          <button
+            className={`sidebar__item ${view === "performance" ? "sidebar__item--active" : ""}`}
+            onClick={() => navigate("performance")}
+            title={t("nav.performance")}
+          >
+            <span className="sidebar__item-icon" aria-hidden="true">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="20" x2="18" y2="10"/><line x1="12" y1="20" x2="12" y2="4"/><line x1="6" y1="20" x2="6" y2="14"/></svg>
+            </span>
+            <span>{t("nav.performance")}</span>
+          </button>
+        </li>
+        <li>
+          <button
+            className={`sidebar__item ${view === "reconciliation" ? "sidebar__item--active" : ""}`}
+            onClick={() => navigate("reconciliation")}
+            title={t("nav.reconciliation")}
+          >
+            <span className="sidebar__item-icon" aria-hidden="true">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="2" y="5" width="20" height="14" rx="2"/><line x1="2" y1="10" x2="22" y2="10"/><polyline points="9 15 11 17 15 13"/></svg>
+            </span>
+            <span>{t("nav.reconciliation")}</span>
+          </button>
+        </li>
+        <li>
+          <button
+            className={`sidebar__item ${view === "refunds" ? "sidebar__item--active" : ""}`}
+            onClick={() => navigate("refunds")}
+            title={t("nav.refunds")}
+          >
+            <span className="sidebar__item-icon" aria-hidden="true">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="1 4 1 10 7 10"/><path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"/></svg>
+            </span>
+            <span>{t("nav.refunds")}</span>
+          </button>
+        </li>
+        <li>
+          <button
+            className={`sidebar__item ${view === "counter" ? "sidebar__item--active" : ""}`}
+            onClick={() => navigate("counter")}
+            title={t("nav.counter")}
+          >
+            <span className="sidebar__item-icon" aria-hidden="true">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><line x1="8" y1="13" x2="16" y2="13"/><line x1="8" y1="17" x2="13" y2="17"/></svg>
+            </span>
+            <span>{t("nav.counter")}</span>
+          </button>
+        </li>
         <li>
           <button
             className={`sidebar__item ${view === "complaints" ? "sidebar__item--active" : ""}`}
@@ -694,7 +892,20 @@ export default function App() {
                   {inboxFeedback && (
                     <Alert variant={inboxFeedback.variant} className="view-feedback">{inboxFeedback.text}</Alert>
                   )}
-                  <Inbox tasks={tasks} loading={loading} error={error} feedback={inboxFeedback} onTaskClick={handleTaskClick} />
+                  <Inbox
+                    tasks={tasks}
+                    loading={loading}
+                    error={error}
+                    feedback={inboxFeedback}
+                    onTaskClick={handleTaskClick}
+                    authHeaders={authHeaders}
+                    isOffline={isOffline}
+                    onBulkComplete={handleBulkComplete}
+                    query={inboxQuery}
+                    total={inboxTotal}
+                    pageSize={INBOX_PAGE_SIZE}
+                    onQueryChange={handleInboxQueryChange}
+                  />
                 </>
               )}
 
@@ -706,6 +917,58 @@ export default function App() {
                 />
               )}
 
+              {view === "escalated" && (
+                <EscalatedTasks
+                  authHeaders={authHeaders}
+                  authorities={authorities}
+                  isOffline={isOffline}
+                  onTaskClick={handleEscalatedSelect}
+                />
+              )}
+
+              {view === "delegations" && (
+                <Delegations
+                  authHeaders={authHeaders}
+                  authorities={authorities}
+                  officerUserId={officerUserId}
+                  isOffline={isOffline}
+                />
+              )}
+
+              {view === "performance" && (
+                <PerformanceDashboard
+                  authHeaders={authHeaders}
+                  authorities={authorities}
+                  isOffline={isOffline}
+                />
+              )}
+
+              {view === "reconciliation" && (
+                <Reconciliation
+                  authHeaders={authHeaders}
+                  authorities={authorities}
+                  isOffline={isOffline}
+                />
+              )}
+
+              {view === "refunds" && (
+                <Refunds
+                  authHeaders={authHeaders}
+                  authorities={authorities}
+                  officerUserId={officerUserId}
+                  isOffline={isOffline}
+                />
+              )}
+
+              {view === "counter" && (
+                <CounterPayments
+                  authHeaders={authHeaders}
+                  authorities={authorities}
+                  officerUserId={officerUserId}
+                  isOffline={isOffline}
+                />
+              )}
+
               {view === "task" && selectedTask && application && (
                 <TaskDetail
                   task={selectedTask}
@@ -0,0 +1,489 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Field, Input, Modal, Select, SkeletonBlock, Textarea } from "@puda/shared";
+import { apiBaseUrl } from "./types";
+
+type OfflineMode = "CHALLAN" | "NEFT" | "COUNTER";
+type VerificationOutcome = "VERIFIED" | "DISHONOURED";
+
+const PAGE_SIZE = 25;
+const MODES: OfflineMode[] = ["CHALLAN", "NEFT", "COUNTER"];
+
+type Demand = {
+  demand_id: string;
+  demand_number: string | null;
+  total_amount: number;
+  paid_amount: number;
+  status: "PENDING" | "PARTIALLY_PAID" | "PAID" | "WAIVED" | "CANCELLED";
+};
+
+type PendingPayment = {
+  payment_id: string;
+  arn: string;
+  public_arn: string | null;
+  demand_number: string | null;
+  mode: OfflineMode;
+  amount: number;
+  receipt_number: string | null;
+  instrument_number: string | null;
+  instrument_bank: string | null;
+  instrument_date: string | null;
+  posted_by_user_id: string | null;
+  initiated_at: string;
+};
+
+interface CounterPaymentsProps {
+  authHeaders: () => Record<string, string>;
+  authorities: string[];
+  officerUserId: string;
+  isOffline: boolean;
+}
+
+function formatAmount(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  return data.message || data.error || fallback;
+}
+
+const emptyPosting = {
+  mode: "CHALLAN" as OfflineMode,
+  amount: "",
+  challanNumber: "",
+  instrumentNumber: "",
+  instrumentBank: "",
+  instrumentDate: "",
+  receiptNumber: "",
+};
+
+export default function CounterPayments({ authHeaders, authorities, officerUserId, isOffline }: CounterPaymentsProps) {
+  const { t } = useTranslation();
+  const authorityId = authorities[0];
+
+  const [payments, setPayments] = useState<PendingPayment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [arn, setArn] = useState("");
+  const [demands, setDemands] = useState<Demand[] | null>(null);
+  const [demandId, setDemandId] = useState("");
+  const [posting, setPosting] = useState(emptyPosting);
+  const [postError, setPostError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [verifying, setVerifying] = useState<{ payment: PendingPayment; outcome: VerificationOutcome } | null>(null);
+  const [remarks, setRemarks] = useState("");
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const load = useCallback(async () => {
+    if (isOffline) {
+      setError(t("counter.offline"));
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (authorityId) params.set("authorityId", authorityId);
+      const res = await fetch(`${apiBaseUrl}/api/v1/payments/offline/pending?${params}`, { headers: authHeaders() });
+      if (res.status === 403) throw new Error(t("counter.forbidden"));
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      const data = await res.json();
+      setPayments(data.payments || []);
+      setTotal(data.total || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, authorityId, isOffline, offset, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const findDemands = async () => {
+    const lookup = arn.trim();
+    if (!lookup || busy) return;
+    setBusy(true);
+    setPostError(null);
+    setDemands(null);
+    setDemandId("");
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/demands/for-application/${lookup}`, { headers: authHeaders() });
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      const payable = ((await res.json()).demands || []).filter(
+        (demand: Demand) => demand.status === "PENDING" || demand.status === "PARTIALLY_PAID"
+      );
+      setDemands(payable);
+      if (payable.length > 0) {
+        setDemandId(payable[0].demand_id);
+        setPosting({ ...emptyPosting, amount: String(Number(payable[0].total_amount) - Number(payable[0].paid_amount)) });
+      }
+    } catch (err) {
+      setPostError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectDemand = (id: string) => {
+    setDemandId(id);
+    const demand = demands?.find((entry) => entry.demand_id === id);
+    if (demand) setPosting({ ...posting, amount: String(Number(demand.total_amount) - Number(demand.paid_amount)) });
+  };
+
+  const postPayment = async () => {
+    if (!demandId || busy) return;
+    setBusy(true);
+    setPostError(null);
+    setNotice(null);
+    try {
+      const body: Record<string, unknown> = { demandId, mode: posting.mode, amount: Number(posting.amount) };
+      if (posting.mode === "CHALLAN") body.challanNumber = posting.challanNumber.trim();
+      else {
+        if (posting.instrumentNumber.trim()) body.instrumentNumber = posting.instrumentNumber.trim();
+        if (posting.instrumentBank.trim()) body.instrumentBank = posting.instrumentBank.trim();
+        if (posting.instrumentDate) body.instrumentDate = posting.instrumentDate;
+      }
+      if (posting.receiptNumber.trim()) body.receiptNumber = posting.receiptNumber.trim();
+      const res = await fetch(`${apiBaseUrl}/api/v1/payments/offline`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      setNotice(t("counter.posted", { arn: arn.trim(), amount: formatAmount(Number(posting.amount)) }));
+      setArn("");
+      setDemands(null);
+      setDemandId("");
+      setPosting(emptyPosting);
+      void load();
+    } catch (err) {
+      setPostError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openVerification = (payment: PendingPayment, outcome: VerificationOutcome) => {
+    setVerifying({ payment, outcome });
+    setRemarks("");
+    setVerifyError(null);
+  };
+
+  const closeVerification = () => {
+    if (submitting) return;
+    setVerifying(null);
+  };
+
+  const submitVerification = async () => {
+    if (!verifying || submitting) return;
+    setSubmitting(true);
+    setVerifyError(null);
+    try {
+      const { payment, outcome } = verifying;
+      const body: Record<string, string> = { outcome };
+      if (remarks.trim()) body.remarks = remarks.trim();
+      const res = await fetch(`${apiBaseUrl}/api/v1/payments/${encodeURIComponent(payment.payment_id)}/verify-offline`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      setVerifying(null);
+      setNotice(t(`counter.done.${outcome.toLowerCase()}`, { arn: payment.public_arn || payment.arn }));
+      void load();
+    } catch (err) {
+      setVerifyError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const postDisabled =
+    isOffline ||
+    busy ||
+    !demandId ||
+    !(Number(posting.amount) > 0) ||
+    (posting.mode === "CHALLAN" ? !posting.challanNumber.trim() : !posting.instrumentNumber.trim());
+
+  return (
+    <>
+      <div className="page__header">
+        <h1>{t("app.page_counter")}</h1>
+        <p className="subtitle">{t("counter.subtitle")}</p>
+      </div>
+
+      {error ? <Alert variant="error">{error}</Alert> : null}
+      {notice ? <Alert variant="success">{notice}</Alert> : null}
+
+      <section className="panel">
+        <h2 className="reconciliation-heading">{t("counter.post_title")}</h2>
+        {postError ? <Alert variant="error">{postError}</Alert> : null}
+        <div className="counter-lookup">
+          <Field label={t("counter.arn")} htmlFor="counter-arn">
+            <Input
+              id="counter-arn"
+              value={arn}
+              onChange={(e) => setArn(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") void findDemands();
+              }}
+              disabled={isOffline || busy}
+            />
+          </Field>
+          <Button type="button" variant="secondary" onClick={() => void findDemands()} disabled={isOffline || busy || !arn.trim()}>
+            {t("counter.find_demands")}
+          </Button>
+        </div>
+
+        {demands && demands.length === 0 ? <p className="performance-empty">{t("counter.no_demands")}</p> : null}
+        {demands && demands.length > 0 ? (
+          <div className="counter-form">
+            <Field label={t("counter.demand")} htmlFor="counter-demand">
+              <Select id="counter-demand" value={demandId} onChange={(e) => selectDemand(e.target.value)} disabled={busy}>
+                {demands.map((demand) => (
+                  <option key={demand.demand_id} value={demand.demand_id}>
+                    {t("counter.demand_option", {
+                      number: demand.demand_number || demand.demand_id,
+                      balance: formatAmount(Number(demand.total_amount) - Number(demand.paid_amount)),
+                    })}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+            <Field label={t("counter.mode")} htmlFor="counter-mode">
+              <Select
+                id="counter-mode"
+                value={posting.mode}
+                onChange={(e) => setPosting({ ...posting, mode: e.target.value as OfflineMode })}
+                disabled={busy}
+              >
+                {MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {t(`counter.mode_${mode.toLowerCase()}`)}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+            <Field label={t("counter.amount")} htmlFor="counter-amount">
+              <Input
+                id="counter-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={posting.amount}
+                onChange={(e) => setPosting({ ...posting, amount: e.target.value })}
+                disabled={busy}
+              />
+            </Field>
+            {posting.mode === "CHALLAN" ? (
+              <Field label={t("counter.challan_number")} htmlFor="counter-challan">
+                <Input
+                  id="counter-challan"
+                  value={posting.challanNumber}
+                  onChange={(e) => setPosting({ ...posting, challanNumber: e.target.value })}
+                  disabled={busy}
+                />
+              </Field>
+            ) : (
+              <>
+                <Field label={t(posting.mode === "NEFT" ? "counter.utr" : "counter.instrument_number")} htmlFor="counter-instrument">
+                  <Input
+                    id="counter-instrument"
+                    value={posting.instrumentNumber}
+                    onChange={(e) => setPosting({ ...posting, instrumentNumber: e.target.value })}
+                    disabled={busy}
+                  />
+                </Field>
+                <Field label={t("counter.instrument_bank")} htmlFor="counter-bank">
+                  <Input
+                    id="counter-bank"
+                    value={posting.instrumentBank}
+                    onChange={(e) => setPosting({ ...posting, instrumentBank: e.target.value })}
+                    disabled={busy}
+                  />
+                </Field>
+                <Field label={t("counter.instrument_date")} htmlFor="counter-date">
+                  <Input
+                    id="counter-date"
+                    type="date"
+                    value={posting.instrumentDate}
+                    onChange={(e) => setPosting({ ...posting, instrumentDate: e.target.value })}
+                    disabled={busy}
+                  />
+                </Field>
+              </>
+            )}
+            <Field label={t("counter.receipt_number")} htmlFor="counter-receipt">
+              <Input
+                id="counter-receipt"
+                value={posting.receiptNumber}
+                onChange={(e) => setPosting({ ...posting, receiptNumber: e.target.value })}
+                disabled={busy}
+              />
+            </Field>
+            <div className="action-buttons">
+              <Button type="button" onClick={() => void postPayment()} disabled={postDisabled}>
+                {t("counter.post")}
+              </Button>
+            </div>
+            <p className="reconciliation-format">{t("counter.post_hint")}</p>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="panel">
+        <div className="reconciliation-exceptions__header">
+          <h2 className="reconciliation-heading">{t("counter.queue_title")}</h2>
+        </div>
+
+        {loading ? (
+          <SkeletonBlock height="8rem" />
+        ) : payments.length === 0 ? (
+          <p className="performance-empty">{t("counter.empty")}</p>
+        ) : (
+          <div className="performance-table-wrap">
+            <table className="performance-table reconciliation-table">
+              <caption className="sr-only">{t("counter.queue_caption", { count: total })}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">{t("counter.application")}</th>
+                  <th scope="col">{t("counter.amount")}</th>
+                  <th scope="col">{t("counter.mode")}</th>
+                  <th scope="col">{t("counter.instrument")}</th>
+                  <th scope="col"><span className="sr-only">{t("counter.actions")}</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {payments.map((payment) => {
+                  const postedByMe = payment.posted_by_user_id === officerUserId;
+                  return (
+                    <tr key={payment.payment_id}>
+                      <th scope="row">
+                        {payment.public_arn || payment.arn}
+                        <br />
+                        <span className="reconciliation-format">
+                          {new Date(payment.initiated_at).toLocaleDateString()}
+                          {payment.demand_number ? ` · ${payment.demand_number}` : ""}
+                        </span>
+                      </th>
+                      <td>{formatAmount(payment.amount)}</td>
+                      <td>{t(`counter.mode_${payment.mode.toLowerCase()}`)}</td>
+                      <td>
+                        {payment.instrument_number || payment.receipt_number || "—"}
+                        {payment.instrument_bank || payment.instrument_date ? (
+                          <>
+                            <br />
+                            <span className="reconciliation-format">
+                              {[payment.instrument_bank, payment.instrument_date].filter(Boolean).join(" · ")}
+                            </span>
+                          </>
+                        ) : null}
+                      </td>
+                      <td className="refunds-actions">
+                        <Button
+                          type="button"
+                          size="sm"
+                          onClick={() => openVerification(payment, "VERIFIED")}
+                          disabled={isOffline || postedByMe}
+                          title={postedByMe ? t("counter.own_posting") : undefined}
+                        >
+                          {t("counter.action.verify")}
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openVerification(payment, "DISHONOURED")}
+                          disabled={isOffline || postedByMe}
+                          title={postedByMe ? t("counter.own_posting") : undefined}
+                        >
+                          {t("counter.action.dishonour")}
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {total > PAGE_SIZE ? (
+          <nav
+            className="inbox-pagination"
+            aria-label={t("inbox.page_summary", { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+          >
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={loading || offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              {t("inbox.page_prev")}
+            </Button>
+            <span>
+              {t("inbox.page_summary", { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={loading || offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              {t("inbox.page_next")}
+            </Button>
+          </nav>
+        ) : null}
+      </section>
+
+      <Modal
+        open={verifying !== null}
+        onClose={closeVerification}
+        title={verifying ? t(`counter.modal.${verifying.outcome.toLowerCase()}`) : ""}
+        description={
+          verifying
+            ? t("counter.modal_desc", {
+                arn: verifying.payment.public_arn || verifying.payment.arn,
+                amount: formatAmount(verifying.payment.amount),
+              })
+            : undefined
+        }
+        actions={
+          <>
+            <Button type="button" variant="ghost" onClick={closeVerification} disabled={submitting}>
+              {t("action.cancel")}
+            </Button>
+            <Button
+              type="button"
+              variant={verifying?.outcome === "DISHONOURED" ? "warning" : "primary"}
+              onClick={() => void submitVerification()}
+              disabled={submitting || (verifying?.outcome === "DISHONOURED" && !remarks.trim())}
+            >
+              {submitting ? t("task.submitting") : t("action.submit")}
+            </Button>
+          </>
+        }
+      >
+        {verifyError ? <Alert variant="error">{verifyError}</Alert> : null}
+        <Field
+          label={t(verifying?.outcome === "DISHONOURED" ? "counter.modal.reason" : "counter.modal.remarks")}
+          htmlFor="counter-remarks"
+        >
+          <Textarea id="counter-remarks" value={remarks} onChange={(e) => setRemarks(e.target.value)} rows={3} />
+        </Field>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Card, Field, Input, Select, SkeletonBlock, Textarea } from "@puda/shared";
+import { apiBaseUrl } from "./types";
+
+type Delegation = {
+  delegation_id: string;
+  authority_id: string;
+  delegator_user_id: string;
+  delegator_name?: string;
+  delegate_user_id: string;
+  delegate_name?: string;
+  valid_from: string;
+  valid_to: string;
+  reason?: string;
+};
+
+type OfficerOption = { user_id: string; name: string; login: string };
+
+interface DelegationsProps {
+  authHeaders: () => Record<string, string>;
+  authorities: string[];
+  officerUserId: string;
+  isOffline: boolean;
+}
+
+export default function Delegations({ authHeaders, authorities, officerUserId, isOffline }: DelegationsProps) {
+  const { t } = useTranslation();
+  const authorityId = authorities[0];
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [canManageOthers, setCanManageOthers] = useState(false);
+  const [officers, setOfficers] = useState<OfficerOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const [delegatorUserId, setDelegatorUserId] = useState("");
+  const [delegateUserId, setDelegateUserId] = useState("");
+  const [validFrom, setValidFrom] = useState("");
+  const [validTo, setValidTo] = useState("");
+  const [reason, setReason] = useState("");
+
+  const load = useCallback(async () => {
+    if (isOffline) {
+      setError(t("offline.inbox_unavailable"));
+      setLoading(false);
+      return;
+    }
+    if (!authorityId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [delegationRes, officerRes] = await Promise.all([
+        fetch(`${apiBaseUrl}/api/v1/tasks/delegations?authorityId=${authorityId}`, { headers: authHeaders() }),
+        fetch(`${apiBaseUrl}/api/v1/admin/users?authorityId=${authorityId}&userType=OFFICER&limit=200`, {
+          headers: authHeaders(),
+        }),
+      ]);
+      if (!delegationRes.ok) throw new Error(`API error ${delegationRes.status}`);
+      const delegationData = await delegationRes.json();
+      setDelegations(delegationData.delegations || []);
+      setCanManageOthers(Boolean(delegationData.canManageOthers));
+      if (officerRes.ok) {
+        const officerData = await officerRes.json();
+        setOfficers(officerData.users || []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, authorityId, isOffline, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleCreate = async () => {
+    if (!authorityId || !delegateUserId || !validFrom || !validTo) return;
+    setSaving(true);
+    setError(null);
+    setFeedback(null);
+    try {
+      const body: Record<string, string> = {
+        authorityId,
+        delegateUserId,
+        validFrom: new Date(validFrom).toISOString(),
+        validTo: new Date(validTo).toISOString(),
+      };
+      if (delegatorUserId) body.delegatorUserId = delegatorUserId;
+      if (reason.trim()) body.reason = reason.trim();
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/delegations`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Delegation failed");
+      }
+      setFeedback(t("delegations.created"));
+      setDelegateUserId("");
+      setDelegatorUserId("");
+      setValidFrom("");
+      setValidTo("");
+      setReason("");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (delegationId: string) => {
+    setSaving(true);
+    setError(null);
+    setFeedback(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/delegations/${delegationId}/revoke`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Revoke failed");
+      }
+      setFeedback(t("delegations.revoked"));
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const otherOfficers = officers.filter((officer) => officer.user_id !== officerUserId);
+
+  return (
+    <>
+      <div className="page__header">
+        <h1>{t("app.page_delegations")}</h1>
+        <p className="subtitle">{t("delegations.subtitle")}</p>
+      </div>
+      <section className="panel">
+        {error ? <Alert variant="error">{error}</Alert> : null}
+        {feedback ? <Alert variant="success">{feedback}</Alert> : null}
+
+        <h2>{t("delegations.new")}</h2>
+        <div className="action-form">
+          {canManageOthers && (
+            <Field label={t("delegations.delegator")} htmlFor="delegation-delegator">
+              <Select
+                id="delegation-delegator"
+                value={delegatorUserId}
+                onChange={(e) => setDelegatorUserId(e.target.value)}
+                disabled={isOffline || saving}
+              >
+                <option value="">{t("delegations.myself")}</option>
+                {otherOfficers.map((officer) => (
+                  <option key={officer.user_id} value={officer.user_id}>
+                    {officer.name} ({officer.login})
+                  </option>
+                ))}
+              </Select>
+            </Field>
+          )}
+          <Field label={t("delegations.delegate")} htmlFor="delegation-delegate" required>
+            <Select
+              id="delegation-delegate"
+              value={delegateUserId}
+              onChange={(e) => setDelegateUserId(e.target.value)}
+              disabled={isOffline || saving}
+            >
+              <option value="">{t("delegations.select_officer")}</option>
+              {officers
+                .filter((officer) => officer.user_id !== (delegatorUserId || officerUserId))
+                .map((officer) => (
+                  <option key={officer.user_id} value={officer.user_id}>
+                    {officer.name} ({officer.login})
+                  </option>
+                ))}
+            </Select>
+          </Field>
+          <Field label={t("delegations.valid_from")} htmlFor="delegation-from" required>
+            <Input
+              id="delegation-from"
+              type="datetime-local"
+              value={validFrom}
+              onChange={(e) => setValidFrom(e.target.value)}
+              disabled={isOffline || saving}
+            />
+          </Field>
+          <Field label={t("delegations.valid_to")} htmlFor="delegation-to" required>
+            <Input
+              id="delegation-to"
+              type="datetime-local"
+              value={validTo}
+              onChange={(e) => setValidTo(e.target.value)}
+              disabled={isOffline || saving}
+            />
+          </Field>
+          <Field label={t("delegations.reason")} htmlFor="delegation-reason">
+            <Textarea
+              id="delegation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              disabled={isOffline || saving}
+            />
+          </Field>
+          <div className="action-form-buttons">
+            <Button
+              onClick={() => void handleCreate()}
+              disabled={isOffline || saving || !delegateUserId || !validFrom || !validTo}
+            >
+              {t("delegations.create")}
+            </Button>
+          </div>
+        </div>
+
+        <h2 style={{ marginTop: "var(--space-4)" }}>{t("delegations.active")}</h2>
+        {loading ? (
+          <div style={{ display: "grid", gap: "var(--space-3)" }}>
+            <SkeletonBlock height="4rem" />
+          </div>
+        ) : delegations.length === 0 ? (
+          <div className="empty-state">
+            <h3>{t("delegations.none")}</h3>
+          </div>
+        ) : (
+          <div className="detail-card-list">
+            {delegations.map((delegation) => (
+              <Card key={delegation.delegation_id} className="detail-read-card">
+                <p className="read-card-title">
+                  {t("delegations.summary", {
+                    delegator: delegation.delegator_name || delegation.delegator_user_id,
+                    delegate: delegation.delegate_name || delegation.delegate_user_id,
+                  })}
+                </p>
+                <p>
+                  {new Date(delegation.valid_from).toLocaleString()} &rarr; {new Date(delegation.valid_to).toLocaleString()}
+                </p>
+                {delegation.reason && <p>{delegation.reason}</p>}
+                {(canManageOthers || delegation.delegator_user_id === officerUserId) && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => void handleRevoke(delegation.delegation_id)}
+                    disabled={isOffline || saving}
+                  >
+                    {t("delegations.revoke")}
+                  </Button>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
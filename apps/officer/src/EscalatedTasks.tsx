@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Card, SkeletonBlock } from "@puda/shared";
+import { Task, apiBaseUrl } from "./types";
+
+export type EscalatedTask = Task & {
+  escalation_id: string;
+  escalation_level: number;
+  escalation_action: "NOTIFY" | "REASSIGN" | "RAISE_TO_HEAD";
+  from_system_role_id?: string;
+  hours_overdue: number;
+  escalated_at: string;
+};
+
+interface EscalatedTasksProps {
+  authHeaders: () => Record<string, string>;
+  authorities: string[];
+  isOffline: boolean;
+  onTaskClick: (task: EscalatedTask) => void;
+}
+
+const ACTION_KEY: Record<EscalatedTask["escalation_action"], string> = {
+  NOTIFY: "escalated.action_notify",
+  REASSIGN: "escalated.action_reassign",
+  RAISE_TO_HEAD: "escalated.action_raise",
+};
+
+export default function EscalatedTasks({ authHeaders, authorities, isOffline, onTaskClick }: EscalatedTasksProps) {
+  const { t } = useTranslation();
+  const [tasks, setTasks] = useState<EscalatedTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (isOffline) {
+      setError(t("offline.inbox_unavailable"));
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const authorityParam = authorities.length > 0 ? `?authorityId=${authorities[0]}` : "";
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/escalated${authorityParam}`, { headers: authHeaders() });
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      const data = await res.json();
+      setTasks(data.tasks || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, authorities, isOffline, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <>
+      <div className="page__header">
+        <h1>{t("app.page_escalated")}</h1>
+        <p className="subtitle">{t("escalated.subtitle")}</p>
+      </div>
+      <section className="panel">
+        {error ? <Alert variant="error">{error}</Alert> : null}
+        {loading ? (
+          <div style={{ display: "grid", gap: "var(--space-3)" }}>
+            <SkeletonBlock height="4rem" />
+            <SkeletonBlock height="4rem" />
+          </div>
+        ) : tasks.length === 0 && !error ? (
+          <div className="empty-state">
+            <h3>{t("escalated.none")}</h3>
+            <p>{t("escalated.none_desc")}</p>
+          </div>
+        ) : (
+          <ul className="task-list">
+            {tasks.map((task) => (
+              <li key={task.escalation_id}>
+                <Card className="task-card-wrap">
+                  <Button type="button" variant="ghost" className="task-card" onClick={() => onTaskClick(task)}>
+                    <div>
+                      <h2>{t("inbox.arn_label", { arn: task.arn })}</h2>
+                      {task.applicant_name && <p>{t("inbox.applicant")}: {task.applicant_name}</p>}
+                      <p>
+                        {t("inbox.stage")}: {task.state_id} | {t("inbox.required_role")}: {task.system_role_id}
+                      </p>
+                      <p>
+                        {t("escalated.level", { level: task.escalation_level })}: {t(ACTION_KEY[task.escalation_action])}
+                        {task.from_system_role_id && ` | ${t("escalated.from_role")}: ${task.from_system_role_id}`}
+                      </p>
+                      <p className="sla-overdue">
+                        {t("escalated.hours_overdue", { hours: Math.round(task.hours_overdue) })}
+                        {" | "}
+                        {t("escalated.escalated_at")}: {new Date(task.escalated_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <span className="badge">{task.status}</span>
+                  </Button>
+                </Card>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Card } from "@puda/shared";
+import { apiBaseUrl } from "./types";
+
+/** A fee line as previewed by /fees/calculate (and posted back to /fees/assess) */
+type FeeItem = {
+  feeHeadCode: string;
+  description: string;
+  baseAmount: number;
+  calculationInputs: Record<string, any>;
+  amount: number;
+  currency: string;
+};
+
+type FeeLineItem = {
+  line_item_id: string;
+  fee_head_code: string;
+  description: string | null;
+  calculation_inputs: Record<string, any>;
+  amount: number;
+};
+
+interface FeeAssessmentPanelProps {
+  arn: string;
+  authHeaders: () => Record<string, string>;
+  isOffline: boolean;
+  canAssess: boolean;
+}
+
+function formatAmount(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  return data.message || data.error || fallback;
+}
+
+/** One line per step of fee-formula.ts calculation_inputs, in the order they were applied */
+export function FeeDerivation({ inputs }: { inputs: Record<string, any> }) {
+  const { t } = useTranslation();
+  if (!inputs || !inputs.method) return null;
+  const steps: string[] = [];
+  if (inputs.method === "FLAT") {
+    steps.push(t("fees.derivation.flat", { amount: formatAmount(inputs.computedAmount) }));
+  } else if (inputs.method === "RATE") {
+    steps.push(t("fees.derivation.rate", { rate: formatAmount(inputs.rate), amount: formatAmount(inputs.computedAmount) }));
+  } else if (inputs.method === "SLAB") {
+    const slab = inputs.slab || {};
+    const bracket = slab.upTo === undefined ? t("fees.derivation.slab_open") : t("fees.derivation.slab_up_to", { upTo: slab.upTo });
+    steps.push(
+      slab.rate !== undefined
+        ? t("fees.derivation.slab_rate", { bracket, rate: formatAmount(slab.rate), amount: formatAmount(inputs.computedAmount) })
+        : t("fees.derivation.slab_flat", { bracket, amount: formatAmount(inputs.computedAmount) })
+    );
+  }
+  if (inputs.minimumApplied !== undefined) steps.push(t("fees.derivation.minimum", { amount: formatAmount(inputs.minimumApplied) }));
+  if (inputs.maximumApplied !== undefined) steps.push(t("fees.derivation.maximum", { amount: formatAmount(inputs.maximumApplied) }));
+  for (const surcharge of inputs.surcharges || []) {
+    steps.push(
+      t("fees.derivation.surcharge", { label: surcharge.label, percent: surcharge.percent, amount: formatAmount(surcharge.amount) })
+    );
+  }
+  if (inputs.gstPercent) steps.push(t("fees.derivation.gst", { percent: inputs.gstPercent, amount: formatAmount(inputs.gstAmount) }));
+  if (inputs.roundedFrom !== undefined) steps.push(t("fees.derivation.rounded", { amount: formatAmount(inputs.roundedFrom) }));
+  const values = Object.entries(inputs.inputs || {});
+
+  return (
+    <div className="fee-derivation">
+      {values.length > 0 ? (
+        <p className="reconciliation-format">
+          {values.map(([path, value]) => `${path} = ${value === null ? "—" : String(value)}`).join(" · ")}
+        </p>
+      ) : null}
+      <ol className="fee-derivation__steps">
+        {steps.map((step, index) => (
+          <li key={index}>{step}</li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default function FeeAssessmentPanel({ arn, authHeaders, isOffline, canAssess }: FeeAssessmentPanelProps) {
+  const { t } = useTranslation();
+  const [lineItems, setLineItems] = useState<FeeLineItem[]>([]);
+  const [preview, setPreview] = useState<FeeItem[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (isOffline) return;
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/line-items/${arn}`, { headers: authHeaders() });
+      if (!res.ok) throw new Error(await readError(res, t("fees.load_error")));
+      setLineItems((await res.json()).lineItems || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("fees.load_error"));
+    }
+  }, [arn, authHeaders, isOffline, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const calculate = async () => {
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/calculate`, {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ arn }),
+      });
+      if (!res.ok) throw new Error(await readError(res, t("fees.calculate_error")));
+      setPreview((await res.json()).items || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("fees.calculate_error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const assess = async () => {
+    if (!preview) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/fees/assess`, {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ arn, items: preview }),
+      });
+      if (!res.ok) throw new Error(await readError(res, t("fees.assess_error")));
+      setPreview(null);
+      setNotice(t("fees.assessed"));
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("fees.assess_error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rows = preview
+    ? preview.map((item) => ({ key: item.feeHeadCode, code: item.feeHeadCode, description: item.description, inputs: item.calculationInputs, amount: item.amount }))
+    : lineItems.map((item) => ({
+        key: item.line_item_id,
+        code: item.fee_head_code,
+        description: item.description,
+        inputs: item.calculation_inputs,
+        amount: item.amount,
+      }));
+  const total = rows.reduce((sum, row) => sum + Number(row.amount), 0);
+
+  return (
+    <div className="fees-section">
+      <h2>{t("fees.title")}</h2>
+      {error ? <Alert variant="error">{error}</Alert> : null}
+      {notice ? <Alert variant="success">{notice}</Alert> : null}
+      {preview ? <Alert variant="info">{t("fees.preview_hint")}</Alert> : null}
+
+      {rows.length > 0 ? (
+        <div className="detail-card-list">
+          {rows.map((row) => (
+            <Card key={row.key} className="detail-read-card">
+              <div className="fee-line__header">
+                <p className="read-card-title">{row.description || row.code}</p>
+                <strong>{formatAmount(row.amount)}</strong>
+              </div>
+              <FeeDerivation inputs={row.inputs} />
+            </Card>
+          ))}
+          <p className="fee-line__total">{t("fees.total", { amount: formatAmount(total) })}</p>
+        </div>
+      ) : (
+        <Alert variant="info" className="empty-read-alert">
+          {t("fees.none_assessed")}
+        </Alert>
+      )}
+
+      {canAssess && lineItems.length === 0 ? (
+        <div className="action-buttons">
+          <Button type="button" variant="secondary" onClick={calculate} disabled={isOffline || loading}>
+            {preview ? t("fees.recalculate") : t("fees.calculate")}
+          </Button>
+          {preview && preview.length > 0 ? (
+            <Button type="button" onClick={assess} disabled={isOffline || loading}>
+              {t("fees.assess")}
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,30 +1,207 @@
+import { useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { Alert, Button, Card } from "@puda/shared";
-import { Task } from "./types";
+import { Alert, Button, Card, Field, Input, Modal, Textarea } from "@puda/shared";
+import InboxFilterBar from "./InboxFilterBar";
+import { InboxQuery, Task, apiBaseUrl } from "./types";
+
+type Feedback = { variant: "info" | "success" | "warning" | "error"; text: string };
+type BulkAction = "FORWARD" | "APPROVE" | "REJECT";
+type BulkResult = { taskId: string; success: boolean; arn?: string; error?: string };
+
+/** Matches MAX_BULK_TASK_ACTIONS on the API */
+const MAX_BULK_SELECTION = 50;
 
 interface InboxProps {
   tasks: Task[];
   loading: boolean;
   error: string | null;
-  feedback?: { variant: "info" | "success" | "warning" | "error"; text: string } | null;
+  feedback?: Feedback | null;
   onTaskClick: (task: Task) => void;
+  authHeaders: () => Record<string, string>;
+  isOffline: boolean;
+  onBulkComplete: (feedback: Feedback) => void;
+  query: InboxQuery;
+  total: number;
+  pageSize: number;
+  onQueryChange: (query: InboxQuery) => void;
 }
 
-export default function Inbox({ tasks, loading, error, feedback, onTaskClick }: InboxProps) {
+export default function Inbox({
+  tasks,
+  loading,
+  error,
+  feedback,
+  onTaskClick,
+  authHeaders,
+  isOffline,
+  onBulkComplete,
+  query,
+  total,
+  pageSize,
+  onQueryChange,
+}: InboxProps) {
   const { t } = useTranslation();
   const skeletonItems = [0, 1, 2, 3];
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [remarks, setRemarks] = useState("");
+  const [mfa, setMfa] = useState<{ challengeId: string; code: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [failures, setFailures] = useState<BulkResult[]>([]);
+
+  // Drop selections for tasks that have left the inbox
+  useEffect(() => {
+    setSelected((current) => {
+      const present = new Set(tasks.map((task) => task.task_id));
+      const next = new Set([...current].filter((taskId) => present.has(taskId)));
+      return next.size === current.size ? current : next;
+    });
+  }, [tasks]);
+
+  const selectableIds = tasks.slice(0, MAX_BULK_SELECTION).map((task) => task.task_id);
+  const allSelected = selectableIds.length > 0 && selectableIds.every((taskId) => selected.has(taskId));
+
+  const toggleTask = (taskId: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(taskId)) next.delete(taskId);
+      else if (next.size < MAX_BULK_SELECTION) next.add(taskId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(selectableIds));
+
+  const closeBulkDialog = () => {
+    setBulkAction(null);
+    setMfa(null);
+    setBulkError(null);
+  };
+
+  const arnFor = (taskId: string) => tasks.find((task) => task.task_id === taskId)?.arn || taskId;
+
+  const requestMfaChallenge = async (taskIds: string[]) => {
+    const res = await fetch(`${apiBaseUrl}/api/v1/auth/mfa/challenge`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ purpose: "BULK_TASK_DECISION", taskIds }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || data.error || t("inbox.bulk_failed"));
+    setMfa({ challengeId: data.challengeId, code: "" });
+  };
+
+  const submitBulkAction = async () => {
+    if (!bulkAction || selected.size === 0 || isOffline) return;
+    const taskIds = [...selected];
+    setSubmitting(true);
+    setBulkError(null);
+    try {
+      const body: Record<string, unknown> = { taskIds, action: bulkAction };
+      if (remarks.trim()) body.remarks = remarks.trim();
+      if (mfa) {
+        body.mfaChallengeId = mfa.challengeId;
+        body.mfaCode = mfa.code;
+      }
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/bulk-actions`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 403 && data.error === "MFA_REQUIRED") {
+        await requestMfaChallenge(taskIds);
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(data.error?.startsWith("MFA_") ? t("inbox.bulk_mfa_invalid") : data.error || t("inbox.bulk_failed"));
+      }
+      const results = (data.results || []) as BulkResult[];
+      const failed = results.filter((result) => !result.success);
+      setFailures(failed);
+      setSelected(new Set(failed.map((result) => result.taskId)));
+      setRemarks("");
+      closeBulkDialog();
+      onBulkComplete({
+        variant: failed.length === 0 ? "success" : data.succeeded > 0 ? "warning" : "error",
+        text: t("inbox.bulk_summary", { succeeded: data.succeeded ?? 0, total: data.total ?? results.length }),
+      });
+    } catch (err) {
+      setBulkError(err instanceof Error ? err.message : t("inbox.bulk_failed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const filtered = Object.keys(query.filters).length > 0;
+  const pageStart = query.page * pageSize;
+  const hasNextPage = pageStart + tasks.length < total;
+
+  const remarksMissing = bulkAction === "REJECT" && !remarks.trim();
+  const mfaCodeIncomplete = mfa !== null && !/^\d{6}$/.test(mfa.code);
 
   return (
     <section className="panel">
+      <InboxFilterBar
+        query={query}
+        tasks={tasks}
+        onQueryChange={onQueryChange}
+        authHeaders={authHeaders}
+        isOffline={isOffline}
+      />
       {feedback ? <Alert variant={feedback.variant}>{feedback.text}</Alert> : null}
       {error ? <Alert variant="error">{error}</Alert> : null}
+      {failures.length > 0 ? (
+        <Alert variant="warning">
+          <p>{t("inbox.bulk_failures_title")}</p>
+          <ul className="bulk-failures">
+            {failures.map((failure) => (
+              <li key={failure.taskId}>
+                {t("inbox.arn_label", { arn: failure.arn || arnFor(failure.taskId) })}: {failure.error}
+              </li>
+            ))}
+          </ul>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setFailures([])}>
+            {t("action.close")}
+          </Button>
+        </Alert>
+      ) : null}
       {!loading && !error && tasks.length === 0 ? (
         <div className="empty-state">
           <div className="empty-icon" aria-hidden="true">
             <svg viewBox="0 0 24 24"><path d="M3 9l9-7 9 7v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/><polyline points="9 22 9 12 15 12 15 22"/></svg>
           </div>
-          <h3>{t("inbox.no_tasks")}</h3>
-          <p>{t("inbox.no_tasks_desc")}</p>
+          <h3>{t(filtered ? "inbox.no_matching_tasks" : "inbox.no_tasks")}</h3>
+          <p>{t(filtered ? "inbox.no_matching_tasks_desc" : "inbox.no_tasks_desc")}</p>
+        </div>
+      ) : null}
+
+      {!loading && tasks.length > 0 ? (
+        <div className="bulk-bar" role="toolbar" aria-label={t("inbox.bulk_toolbar")}>
+          <label className="bulk-select-all">
+            <input type="checkbox" checked={allSelected} disabled={isOffline} onChange={toggleAll} />
+            <span>{t("inbox.select_all")}</span>
+          </label>
+          {selected.size > 0 ? (
+            <>
+              <span className="bulk-count">{t("inbox.selected_count", { count: selected.size })}</span>
+              <div className="bulk-actions">
+                <Button type="button" size="sm" disabled={isOffline} onClick={() => setBulkAction("FORWARD")}>
+                  {t("action.forward")}
+                </Button>
+                <Button type="button" size="sm" variant="success" disabled={isOffline} onClick={() => setBulkAction("APPROVE")}>
+                  {t("action.approve")}
+                </Button>
+                <Button type="button" size="sm" variant="danger" disabled={isOffline} onClick={() => setBulkAction("REJECT")}>
+                  {t("action.reject")}
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setSelected(new Set())}>
+                  {t("inbox.clear_selection")}
+                </Button>
+              </div>
+            </>
+          ) : null}
         </div>
       ) : null}
 
@@ -43,7 +220,15 @@ export default function Inbox({ tasks, loading, error, feedback, onTaskClick }:
       ) : (
         <ul className="task-list">
           {tasks.map((task) => (
-            <li key={task.task_id}>
+            <li key={task.task_id} className="task-list-item">
+              <input
+                type="checkbox"
+                className="task-select"
+                aria-label={t("inbox.select_task", { arn: task.arn })}
+                checked={selected.has(task.task_id)}
+                disabled={isOffline || (!selected.has(task.task_id) && selected.size >= MAX_BULK_SELECTION)}
+                onChange={() => toggleTask(task.task_id)}
+              />
               <Card className="task-card-wrap">
                 <Button type="button" variant="ghost" className="task-card" onClick={() => onTaskClick(task)}>
                   <div>
@@ -57,6 +242,8 @@ export default function Inbox({ tasks, loading, error, feedback, onTaskClick }:
                     {task.applicant_name && <p>{t("inbox.applicant")}: {task.applicant_name}</p>}
                     <p>
                       {t("inbox.stage")}: {task.state_id} | {t("inbox.required_role")}: {task.system_role_id}
+                      {task.branch_id && ` | ${t("inbox.branch")}: ${task.branch_id}`}
+                      {task.assignee_user_id && ` | ${t("inbox.assigned_to_you")}`}
                     </p>
                     {task.sla_due_at && (
                       <p className={new Date(task.sla_due_at) < new Date() ? "sla-overdue" : ""}>
@@ -72,6 +259,81 @@ export default function Inbox({ tasks, loading, error, feedback, onTaskClick }:
           ))}
         </ul>
       )}
+
+      {!loading && total > 0 && (query.page > 0 || hasNextPage) ? (
+        <nav className="inbox-pagination" aria-label={t("inbox.page_summary", { from: pageStart + 1, to: pageStart + tasks.length, total })}>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            disabled={query.page === 0}
+            onClick={() => onQueryChange({ ...query, page: query.page - 1 })}
+          >
+            {t("inbox.page_prev")}
+          </Button>
+          <span>{t("inbox.page_summary", { from: pageStart + 1, to: pageStart + tasks.length, total })}</span>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            disabled={!hasNextPage}
+            onClick={() => onQueryChange({ ...query, page: query.page + 1 })}
+          >
+            {t("inbox.page_next")}
+          </Button>
+        </nav>
+      ) : null}
+
+      <Modal
+        open={bulkAction !== null}
+        onClose={closeBulkDialog}
+        title={t("inbox.bulk_confirm_title", { action: bulkAction ? t(`action.${bulkAction.toLowerCase()}`) : "" })}
+        description={t("inbox.bulk_confirm_desc", { count: selected.size })}
+        actions={
+          <>
+            <Button type="button" variant="ghost" onClick={closeBulkDialog} disabled={submitting}>
+              {t("action.cancel")}
+            </Button>
+            <Button
+              type="button"
+              variant={bulkAction === "REJECT" ? "danger" : bulkAction === "APPROVE" ? "success" : "primary"}
+              onClick={() => void submitBulkAction()}
+              disabled={submitting || remarksMissing || mfaCodeIncomplete}
+            >
+              {submitting ? t("task.submitting") : mfa ? t("action.verify") : t("action.submit")}
+            </Button>
+          </>
+        }
+      >
+        {bulkError ? <Alert variant="error">{bulkError}</Alert> : null}
+        <Field
+          label={t("task.remarks")}
+          htmlFor="bulk-remarks"
+          required={bulkAction === "REJECT"}
+          hint={t("inbox.bulk_remarks_hint")}
+        >
+          <Textarea
+            id="bulk-remarks"
+            value={remarks}
+            rows={3}
+            disabled={submitting || mfa !== null}
+            onChange={(e) => setRemarks(e.target.value)}
+          />
+        </Field>
+        {mfa ? (
+          <Field label={t("inbox.bulk_mfa_code")} htmlFor="bulk-mfa-code" hint={t("inbox.bulk_mfa_hint")}>
+            <Input
+              id="bulk-mfa-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={mfa.code}
+              disabled={submitting}
+              onChange={(e) => setMfa({ ...mfa, code: e.target.value.replace(/\D/g, "") })}
+            />
+          </Field>
+        ) : null}
+      </Modal>
     </section>
   );
 }
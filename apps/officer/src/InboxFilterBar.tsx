@@ -0,0 +1,327 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Field, Input, Modal, Select } from "@puda/shared";
+import {
+  InboxFilters,
+  InboxQuery,
+  InboxSavedView,
+  InboxSlaBucket,
+  InboxSortKey,
+  Task,
+  apiBaseUrl,
+} from "./types";
+
+const SLA_BUCKETS: InboxSlaBucket[] = ["OVERDUE", "DUE_TODAY", "DUE_THIS_WEEK"];
+const SORT_KEYS: InboxSortKey[] = ["sla_due_at", "created_at", "service_key", "state_id", "applicant_name"];
+
+interface InboxFilterBarProps {
+  query: InboxQuery;
+  tasks: Task[];
+  onQueryChange: (query: InboxQuery) => void;
+  authHeaders: () => Record<string, string>;
+  isOffline: boolean;
+}
+
+function humanize(value: string): string {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+export default function InboxFilterBar({ query, tasks, onQueryChange, authHeaders, isOffline }: InboxFilterBarProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<InboxFilters>(query.filters);
+  const [services, setServices] = useState<Array<{ serviceKey: string; name: string }>>([]);
+  const [knownStates, setKnownStates] = useState<string[]>([]);
+  const [views, setViews] = useState<InboxSavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState("");
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [viewIsDefault, setViewIsDefault] = useState(false);
+  const [viewError, setViewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const defaultApplied = useRef(false);
+
+  useEffect(() => setDraft(query.filters), [query.filters]);
+
+  // Stage options come from tasks seen so far; states differ per service
+  useEffect(() => {
+    setKnownStates((current) => {
+      const next = new Set(current);
+      tasks.forEach((task) => next.add(task.state_id));
+      return next.size === current.length ? current : [...next].sort();
+    });
+  }, [tasks]);
+
+  useEffect(() => {
+    if (isOffline) return;
+    fetch(`${apiBaseUrl}/api/v1/config/services`, { headers: authHeaders() })
+      .then((res) => (res.ok ? res.json() : { services: [] }))
+      .then((data) => setServices(data.services || []))
+      .catch(() => setServices([]));
+  }, [authHeaders, isOffline]);
+
+  const loadViews = async () => {
+    const res = await fetch(`${apiBaseUrl}/api/v1/tasks/inbox/views`, { headers: authHeaders() });
+    if (!res.ok) return [];
+    const data = await res.json();
+    const loaded = (data.views || []) as InboxSavedView[];
+    setViews(loaded);
+    return loaded;
+  };
+
+  // Open the inbox with the officer's default view, once per session
+  useEffect(() => {
+    if (isOffline) return;
+    loadViews()
+      .then((loaded) => {
+        if (defaultApplied.current) return;
+        defaultApplied.current = true;
+        const defaultView = loaded.find((view) => view.is_default);
+        if (defaultView) {
+          setActiveViewId(defaultView.view_id);
+          onQueryChange({ filters: defaultView.filters, sort: defaultView.sort, page: 0 });
+        }
+      })
+      .catch(() => undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOffline]);
+
+  const applyFilters = (filters: InboxFilters) => {
+    setActiveViewId("");
+    onQueryChange({ ...query, filters, page: 0 });
+  };
+
+  const applyView = (viewId: string) => {
+    setActiveViewId(viewId);
+    const view = views.find((candidate) => candidate.view_id === viewId);
+    if (view) onQueryChange({ filters: view.filters, sort: view.sort, page: 0 });
+  };
+
+  const updateDraft = (patch: Partial<InboxFilters>) => {
+    const next = { ...draft, ...patch };
+    (Object.keys(next) as Array<keyof InboxFilters>).forEach((key) => {
+      if (next[key] === undefined || next[key] === "" || next[key] === false) delete next[key];
+    });
+    setDraft(next);
+  };
+
+  const activeFilterCount = Object.keys(query.filters).length;
+
+  const saveView = async () => {
+    setSaving(true);
+    setViewError(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/inbox/views`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({
+          name: viewName.trim(),
+          filters: query.filters,
+          sort: query.sort,
+          isDefault: viewIsDefault,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          data.error === "INBOX_VIEW_NAME_TAKEN"
+            ? t("inbox.view_name_taken")
+            : data.error === "INBOX_VIEW_LIMIT_REACHED"
+              ? t("inbox.view_limit")
+              : data.message || data.error || t("inbox.view_save_failed")
+        );
+      }
+      await loadViews();
+      setActiveViewId(data.view.view_id);
+      setSaveOpen(false);
+      setViewName("");
+      setViewIsDefault(false);
+    } catch (err) {
+      setViewError(err instanceof Error ? err.message : t("inbox.view_save_failed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteView = async () => {
+    if (!activeViewId || !window.confirm(t("inbox.view_delete_confirm"))) return;
+    const res = await fetch(`${apiBaseUrl}/api/v1/tasks/inbox/views/${activeViewId}`, {
+      method: "DELETE",
+      headers: authHeaders(),
+      body: JSON.stringify({}),
+    });
+    if (res.ok) {
+      setActiveViewId("");
+      await loadViews();
+    }
+  };
+
+  return (
+    <div className="inbox-filters" role="search" aria-label={t("inbox.filters")}>
+      <div className="inbox-filters__views">
+        <label htmlFor="inbox-view" className="sr-only">{t("inbox.saved_views")}</label>
+        <Select
+          id="inbox-view"
+          value={activeViewId}
+          disabled={isOffline || views.length === 0}
+          onChange={(e) => (e.target.value ? applyView(e.target.value) : applyFilters({}))}
+        >
+          <option value="">{views.length === 0 ? t("inbox.no_saved_views") : t("inbox.saved_views")}</option>
+          {views.map((view) => (
+            <option key={view.view_id} value={view.view_id}>
+              {view.is_default ? t("inbox.view_default_label", { name: view.name }) : view.name}
+            </option>
+          ))}
+        </Select>
+        <Button type="button" size="sm" variant="secondary" disabled={isOffline} onClick={() => setSaveOpen(true)}>
+          {t("inbox.save_view")}
+        </Button>
+        {activeViewId ? (
+          <Button type="button" size="sm" variant="ghost" disabled={isOffline} onClick={() => void deleteView()}>
+            {t("inbox.delete_view")}
+          </Button>
+        ) : null}
+      </div>
+
+      <form
+        className="inbox-filters__fields"
+        onSubmit={(e) => {
+          e.preventDefault();
+          applyFilters(draft);
+        }}
+      >
+        <Field label={t("inbox.service")} htmlFor="inbox-filter-service">
+          <Select
+            id="inbox-filter-service"
+            value={draft.serviceKey || ""}
+            disabled={isOffline}
+            onChange={(e) => updateDraft({ serviceKey: e.target.value })}
+          >
+            <option value="">{t("inbox.filter_any")}</option>
+            {services.map((service) => (
+              <option key={service.serviceKey} value={service.serviceKey}>{service.name}</option>
+            ))}
+          </Select>
+        </Field>
+        <Field label={t("inbox.stage")} htmlFor="inbox-filter-state">
+          <Select
+            id="inbox-filter-state"
+            value={draft.stateId || ""}
+            disabled={isOffline}
+            onChange={(e) => updateDraft({ stateId: e.target.value })}
+          >
+            <option value="">{t("inbox.filter_any")}</option>
+            {[...new Set([...knownStates, ...(draft.stateId ? [draft.stateId] : [])])].map((stateId) => (
+              <option key={stateId} value={stateId}>{humanize(stateId)}</option>
+            ))}
+          </Select>
+        </Field>
+        <Field label={t("inbox.sla_due")} htmlFor="inbox-filter-sla">
+          <Select
+            id="inbox-filter-sla"
+            value={draft.slaBucket || ""}
+            disabled={isOffline}
+            onChange={(e) => updateDraft({ slaBucket: (e.target.value || undefined) as InboxSlaBucket | undefined })}
+          >
+            <option value="">{t("inbox.filter_any")}</option>
+            {SLA_BUCKETS.map((bucket) => (
+              <option key={bucket} value={bucket}>{t(`inbox.sla_bucket.${bucket.toLowerCase()}`)}</option>
+            ))}
+          </Select>
+        </Field>
+        <Field label={t("inbox.applicant")} htmlFor="inbox-filter-applicant">
+          <Input
+            id="inbox-filter-applicant"
+            value={draft.applicantName || ""}
+            maxLength={200}
+            disabled={isOffline}
+            onChange={(e) => updateDraft({ applicantName: e.target.value })}
+          />
+        </Field>
+        <Field label={t("inbox.locality")} htmlFor="inbox-filter-locality">
+          <Input
+            id="inbox-filter-locality"
+            value={draft.locality || ""}
+            maxLength={200}
+            disabled={isOffline}
+            onChange={(e) => updateDraft({ locality: e.target.value })}
+          />
+        </Field>
+        <label className="inbox-filters__check">
+          <input
+            type="checkbox"
+            checked={Boolean(draft.assignedToMe)}
+            disabled={isOffline}
+            onChange={(e) => updateDraft({ assignedToMe: e.target.checked })}
+          />
+          <span>{t("inbox.assigned_to_me")}</span>
+        </label>
+        <div className="inbox-filters__actions">
+          <Button type="submit" size="sm" disabled={isOffline}>
+            {t("inbox.apply_filters")}
+          </Button>
+          {activeFilterCount > 0 ? (
+            <Button type="button" size="sm" variant="ghost" disabled={isOffline} onClick={() => applyFilters({})}>
+              {t("inbox.clear_filters")}
+            </Button>
+          ) : null}
+        </div>
+      </form>
+
+      <div className="inbox-filters__sort">
+        <label htmlFor="inbox-sort">{t("inbox.sort_by")}</label>
+        <Select
+          id="inbox-sort"
+          value={query.sort.key}
+          disabled={isOffline}
+          onChange={(e) => onQueryChange({ ...query, sort: { ...query.sort, key: e.target.value as InboxSortKey }, page: 0 })}
+        >
+          {SORT_KEYS.map((key) => (
+            <option key={key} value={key}>{t(`inbox.sort.${key}`)}</option>
+          ))}
+        </Select>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={isOffline}
+          aria-label={t(query.sort.direction === "asc" ? "inbox.sort_asc" : "inbox.sort_desc")}
+          onClick={() =>
+            onQueryChange({
+              ...query,
+              sort: { ...query.sort, direction: query.sort.direction === "asc" ? "desc" : "asc" },
+              page: 0,
+            })
+          }
+        >
+          {query.sort.direction === "asc" ? "↑" : "↓"}
+        </Button>
+      </div>
+
+      <Modal
+        open={saveOpen}
+        onClose={() => setSaveOpen(false)}
+        title={t("inbox.save_view")}
+        description={t("inbox.save_view_desc")}
+        actions={
+          <>
+            <Button type="button" variant="ghost" onClick={() => setSaveOpen(false)} disabled={saving}>
+              {t("action.cancel")}
+            </Button>
+            <Button type="button" onClick={() => void saveView()} disabled={saving || !viewName.trim()}>
+              {saving ? t("task.submitting") : t("inbox.view_save")}
+            </Button>
+          </>
+        }
+      >
+        {viewError ? <Alert variant="error">{viewError}</Alert> : null}
+        <Field label={t("inbox.view_name")} htmlFor="inbox-view-name" required>
+          <Input id="inbox-view-name" value={viewName} maxLength={100} onChange={(e) => setViewName(e.target.value)} />
+        </Field>
+        <label className="inbox-filters__check">
+          <input type="checkbox" checked={viewIsDefault} onChange={(e) => setViewIsDefault(e.target.checked)} />
+          <span>{t("inbox.view_make_default")}</span>
+        </label>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Card, Field, Input, Select, SkeletonBlock } from "@puda/shared";
+import { apiBaseUrl } from "./types";
+
+type GroupBy = "officer" | "role" | "service";
+
+const AGE_BUCKETS = ["0_2_DAYS", "3_7_DAYS", "8_15_DAYS", "16_30_DAYS", "OVER_30_DAYS"] as const;
+
+type Metrics = {
+  tasksHandled: number;
+  medianHandlingMinutes: number | null;
+  slaComplianceRate: number | null;
+  queryRate: number | null;
+  rejectionRate: number | null;
+  pending: number;
+  pendencyAging: Record<(typeof AGE_BUCKETS)[number], number>;
+};
+
+type Report = {
+  groupBy: GroupBy;
+  from: string;
+  to: string;
+  rows: Array<Metrics & { key: string; label: string }>;
+  totals: Metrics;
+};
+
+interface PerformanceDashboardProps {
+  authHeaders: () => Record<string, string>;
+  authorities: string[];
+  isOffline: boolean;
+}
+
+function percent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatMinutes(value: number | null): string {
+  if (value === null) return "—";
+  if (value < 120) return `${Math.round(value)} min`;
+  return `${(value / 60).toFixed(1)} h`;
+}
+
+export default function PerformanceDashboard({ authHeaders, authorities, isOffline }: PerformanceDashboardProps) {
+  const { t } = useTranslation();
+  const authorityId = authorities[0];
+  const [groupBy, setGroupBy] = useState<GroupBy>("officer");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams({ groupBy });
+    if (authorityId) params.set("authorityId", authorityId);
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    return params;
+  }, [authorityId, groupBy, from, to]);
+
+  const load = useCallback(async () => {
+    if (isOffline) {
+      setError(t("performance.offline"));
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/admin/stats/productivity?${buildParams()}`, {
+        headers: authHeaders(),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 403) throw new Error(t("performance.forbidden"));
+      if (!res.ok) throw new Error(data.message || data.error || `API error ${res.status}`);
+      setReport(data);
+      setFrom((current) => current || data.from);
+      setTo((current) => current || data.to);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, buildParams, isOffline, t]);
+
+  useEffect(() => {
+    void load();
+    // Reload on grouping changes; dates apply with the button
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [groupBy, authorityId, isOffline]);
+
+  const handleExport = async () => {
+    if (isOffline || exporting) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/admin/stats/productivity/export?${buildParams()}`, {
+        headers: authHeaders(),
+      });
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      const blob = await res.blob();
+      const fileNameMatch = res.headers.get("content-disposition")?.match(/filename="?([^";]+)"?/i);
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = downloadUrl;
+      anchor.download = fileNameMatch?.[1] || "productivity.csv";
+      document.body.appendChild(anchor);
+      anchor.click();
+      anchor.remove();
+      window.URL.revokeObjectURL(downloadUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const rowLabel = (row: { key: string; label: string }) =>
+    row.key === "UNASSIGNED" ? t("performance.unassigned") : row.label.replace(/_/g, " ");
+
+  return (
+    <>
+      <div className="page__header">
+        <h1>{t("app.page_performance")}</h1>
+        <p className="subtitle">{t("performance.subtitle")}</p>
+      </div>
+      <section className="panel">
+        <form
+          className="performance-filters"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void load();
+          }}
+        >
+          <Field label={t("performance.group_by")} htmlFor="performance-group-by">
+            <Select
+              id="performance-group-by"
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+              disabled={isOffline || loading}
+            >
+              <option value="officer">{t("performance.group.officer")}</option>
+              <option value="role">{t("performance.group.role")}</option>
+              <option value="service">{t("performance.group.service")}</option>
+            </Select>
+          </Field>
+          <Field label={t("performance.from")} htmlFor="performance-from">
+            <Input id="performance-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} disabled={isOffline} />
+          </Field>
+          <Field label={t("performance.to")} htmlFor="performance-to">
+            <Input id="performance-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} disabled={isOffline} />
+          </Field>
+          <div className="performance-filters__actions">
+            <Button type="submit" size="sm" disabled={isOffline || loading}>
+              {t("performance.apply")}
+            </Button>
+            <Button type="button" size="sm" variant="success" onClick={() => void handleExport()} disabled={isOffline || exporting || !report}>
+              {t(exporting ? "search.exporting" : "search.export_csv")}
+            </Button>
+          </div>
+        </form>
+
+        {error ? <Alert variant="error">{error}</Alert> : null}
+
+        {loading ? (
+          <div className="performance-summary" aria-label={t("performance.loading")}>
+            {[0, 1, 2, 3].map((idx) => (
+              <SkeletonBlock key={idx} height="4.5rem" />
+            ))}
+          </div>
+        ) : report ? (
+          <>
+            <div className="performance-summary">
+              <Card className="performance-stat">
+                <span className="performance-stat__value">{report.totals.tasksHandled}</span>
+                <span className="performance-stat__label">{t("performance.tasks_handled")}</span>
+              </Card>
+              <Card className="performance-stat">
+                <span className="performance-stat__value">{formatMinutes(report.totals.medianHandlingMinutes)}</span>
+                <span className="performance-stat__label">{t("performance.median_handling")}</span>
+              </Card>
+              <Card className="performance-stat">
+                <span className="performance-stat__value">{percent(report.totals.slaComplianceRate)}</span>
+                <span className="performance-stat__label">{t("performance.sla_compliance")}</span>
+              </Card>
+              <Card className="performance-stat">
+                <span className="performance-stat__value">{report.totals.pending}</span>
+                <span className="performance-stat__label">{t("performance.pending")}</span>
+              </Card>
+            </div>
+
+            {report.rows.length === 0 ? (
+              <p className="performance-empty">{t("performance.empty")}</p>
+            ) : (
+              <div className="performance-table-wrap">
+                <table className="performance-table">
+                  <caption className="sr-only">
+                    {t("performance.table_caption", { from: report.from, to: report.to })}
+                  </caption>
+                  <thead>
+                    <tr>
+                      <th scope="col">{t(`performance.group.${report.groupBy}`)}</th>
+                      <th scope="col">{t("performance.tasks_handled")}</th>
+                      <th scope="col">{t("performance.median_handling")}</th>
+                      <th scope="col">{t("performance.sla_compliance")}</th>
+                      <th scope="col">{t("performance.query_rate")}</th>
+                      <th scope="col">{t("performance.rejection_rate")}</th>
+                      <th scope="col">{t("performance.pending")}</th>
+                      {AGE_BUCKETS.map((bucket) => (
+                        <th scope="col" key={bucket}>{t(`performance.age.${bucket.toLowerCase()}`)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map((row) => (
+                      <tr key={row.key}>
+                        <th scope="row">{rowLabel(row)}</th>
+                        <td>{row.tasksHandled}</td>
+                        <td>{formatMinutes(row.medianHandlingMinutes)}</td>
+                        <td className={row.slaComplianceRate !== null && row.slaComplianceRate < 0.8 ? "sla-overdue" : ""}>
+                          {percent(row.slaComplianceRate)}
+                        </td>
+                        <td>{percent(row.queryRate)}</td>
+                        <td>{percent(row.rejectionRate)}</td>
+                        <td>{row.pending}</td>
+                        {AGE_BUCKETS.map((bucket) => (
+                          <td key={bucket}>{row.pendencyAging[bucket]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr>
+                      <th scope="row">{t("performance.total")}</th>
+                      <td>{report.totals.tasksHandled}</td>
+                      <td>{formatMinutes(report.totals.medianHandlingMinutes)}</td>
+                      <td>{percent(report.totals.slaComplianceRate)}</td>
+                      <td>{percent(report.totals.queryRate)}</td>
+                      <td>{percent(report.totals.rejectionRate)}</td>
+                      <td>{report.totals.pending}</td>
+                      {AGE_BUCKETS.map((bucket) => (
+                        <td key={bucket}>{report.totals.pendencyAging[bucket]}</td>
+                      ))}
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+          </>
+        ) : null}
+      </section>
+    </>
+  );
+}
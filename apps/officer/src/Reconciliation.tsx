@@ -0,0 +1,461 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Card, Field, Input, Modal, Select, SkeletonBlock, Textarea } from "@puda/shared";
+import { apiBaseUrl } from "./types";
+
+type SourceType = "GATEWAY_SETTLEMENT" | "BANK_STATEMENT";
+type ExceptionStatus = "" | "MISMATCH" | "MANUAL_REVIEW" | "UNMATCHED";
+type Resolution = "ACCEPT" | "LINK" | "IGNORE";
+
+const PAGE_SIZE = 25;
+const SUMMARY_STATUSES = ["PENDING", "RECONCILED", "MISMATCH", "MANUAL_REVIEW"] as const;
+
+type ImportRow = {
+  import_id: string;
+  source_type: SourceType;
+  file_format: "CSV" | "MT940";
+  file_name: string;
+  line_count: number;
+  matched_count: number;
+  exception_count: number;
+  created_at: string;
+};
+
+type ExceptionItem = {
+  item_id: string;
+  import_id: string;
+  line_number: number;
+  reference_values: string[];
+  amount: number | null;
+  value_date: string | null;
+  payment_id: string | null;
+  status: Exclude<ExceptionStatus, "">;
+  reasons: string[];
+  file_name: string;
+  payment: {
+    arn: string;
+    public_arn: string | null;
+    amount: number;
+    status: string;
+    paid_at: string | null;
+  } | null;
+};
+
+interface ReconciliationProps {
+  authHeaders: () => Record<string, string>;
+  authorities: string[];
+  isOffline: boolean;
+}
+
+function formatAmount(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  return data.message || data.error || fallback;
+}
+
+export default function Reconciliation({ authHeaders, authorities, isOffline }: ReconciliationProps) {
+  const { t } = useTranslation();
+  const authorityId = authorities[0];
+
+  const [imports, setImports] = useState<ImportRow[]>([]);
+  const [summary, setSummary] = useState<Record<string, number> | null>(null);
+  const [items, setItems] = useState<ExceptionItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<ExceptionStatus>("");
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [sourceType, setSourceType] = useState<SourceType>("GATEWAY_SETTLEMENT");
+  const [file, setFile] = useState<File | null>(null);
+  // Bumped to clear the native file input after an import
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [uploading, setUploading] = useState(false);
+
+  const [resolving, setResolving] = useState<ExceptionItem | null>(null);
+  const [action, setAction] = useState<Resolution>("ACCEPT");
+  const [paymentId, setPaymentId] = useState("");
+  const [note, setNote] = useState("");
+  const [resolveError, setResolveError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const load = useCallback(async () => {
+    if (isOffline) {
+      setError(t("reconciliation.offline"));
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (authorityId) params.set("authorityId", authorityId);
+      if (statusFilter) params.set("status", statusFilter);
+      const importParams = authorityId ? `?${new URLSearchParams({ authorityId })}` : "";
+      const [importsRes, exceptionsRes] = await Promise.all([
+        fetch(`${apiBaseUrl}/api/v1/payments/reconciliation/imports${importParams}`, { headers: authHeaders() }),
+        fetch(`${apiBaseUrl}/api/v1/payments/reconciliation/exceptions?${params}`, { headers: authHeaders() }),
+      ]);
+      if (importsRes.status === 403 || exceptionsRes.status === 403) throw new Error(t("reconciliation.forbidden"));
+      if (!importsRes.ok) throw new Error(await readError(importsRes, `API error ${importsRes.status}`));
+      if (!exceptionsRes.ok) throw new Error(await readError(exceptionsRes, `API error ${exceptionsRes.status}`));
+      const importsData = await importsRes.json();
+      const exceptionsData = await exceptionsRes.json();
+      setImports(importsData.imports || []);
+      setSummary(importsData.summary || null);
+      setItems(exceptionsData.items || []);
+      setTotal(exceptionsData.total || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, authorityId, isOffline, offset, statusFilter, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleUpload = async () => {
+    if (!file || isOffline || uploading) return;
+    setUploading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      // Text fields must precede the file part so the API can read them
+      const form = new FormData();
+      if (authorityId) form.append("authorityId", authorityId);
+      form.append("sourceType", sourceType);
+      form.append("file", file);
+      // Let the browser set the multipart boundary
+      const { "Content-Type": _contentType, ...headers } = authHeaders();
+      const res = await fetch(`${apiBaseUrl}/api/v1/payments/reconciliation/imports`, {
+        method: "POST",
+        headers,
+        body: form,
+      });
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      const data = await res.json();
+      setNotice(
+        t("reconciliation.import_done", {
+          lines: data.import.line_count,
+          matched: data.import.matched_count,
+          exceptions: data.import.exception_count,
+        })
+      );
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      if (offset === 0) void load();
+      else setOffset(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const openResolve = (item: ExceptionItem) => {
+    setResolving(item);
+    setAction(item.payment_id ? "ACCEPT" : "LINK");
+    setPaymentId("");
+    setNote("");
+    setResolveError(null);
+  };
+
+  const closeResolve = () => {
+    if (submitting) return;
+    setResolving(null);
+  };
+
+  const submitResolve = async () => {
+    if (!resolving || submitting) return;
+    setSubmitting(true);
+    setResolveError(null);
+    try {
+      const body: Record<string, string> = { action, note: note.trim() };
+      if (action === "LINK") body.paymentId = paymentId.trim();
+      const res = await fetch(
+        `${apiBaseUrl}/api/v1/payments/reconciliation/items/${encodeURIComponent(resolving.item_id)}/resolve`,
+        { method: "POST", headers: authHeaders(), body: JSON.stringify(body) }
+      );
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      setResolving(null);
+      setNotice(t("reconciliation.resolved", { line: resolving.line_number, file: resolving.file_name }));
+      void load();
+    } catch (err) {
+      setResolveError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resolveDisabled = submitting || !note.trim() || (action === "LINK" && !paymentId.trim());
+
+  return (
+    <>
+      <div className="page__header">
+        <h1>{t("app.page_reconciliation")}</h1>
+        <p className="subtitle">{t("reconciliation.subtitle")}</p>
+      </div>
+
+      {error ? <Alert variant="error">{error}</Alert> : null}
+      {notice ? <Alert variant="success">{notice}</Alert> : null}
+
+      <section className="panel">
+        <h2 className="reconciliation-heading">{t("reconciliation.import_title")}</h2>
+        <form
+          className="reconciliation-upload"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleUpload();
+          }}
+        >
+          <Field label={t("reconciliation.source_type")} htmlFor="reconciliation-source">
+            <Select
+              id="reconciliation-source"
+              value={sourceType}
+              onChange={(e) => setSourceType(e.target.value as SourceType)}
+              disabled={isOffline || uploading}
+            >
+              <option value="GATEWAY_SETTLEMENT">{t("reconciliation.source.gateway_settlement")}</option>
+              <option value="BANK_STATEMENT">{t("reconciliation.source.bank_statement")}</option>
+            </Select>
+          </Field>
+          <Field label={t("reconciliation.file")} htmlFor="reconciliation-file" hint={t("reconciliation.file_hint")}>
+            <Input
+              id="reconciliation-file"
+              key={fileInputKey}
+              type="file"
+              accept=".csv,.txt,.sta,.mt940,text/csv,text/plain"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={isOffline || uploading}
+            />
+          </Field>
+          <div className="reconciliation-upload__actions">
+            <Button type="submit" size="sm" disabled={isOffline || uploading || !file}>
+              {t(uploading ? "reconciliation.importing" : "reconciliation.import")}
+            </Button>
+          </div>
+        </form>
+
+        {loading && !summary ? (
+          <div className="performance-summary" aria-label={t("reconciliation.loading")}>
+            {SUMMARY_STATUSES.map((status) => (
+              <SkeletonBlock key={status} height="4.5rem" />
+            ))}
+          </div>
+        ) : summary ? (
+          <div className="performance-summary">
+            {SUMMARY_STATUSES.map((status) => (
+              <Card key={status} className="performance-stat">
+                <span className="performance-stat__value">{summary[status] ?? 0}</span>
+                <span className="performance-stat__label">{t(`reconciliation.payment_status.${status.toLowerCase()}`)}</span>
+              </Card>
+            ))}
+          </div>
+        ) : null}
+
+        {imports.length > 0 ? (
+          <div className="performance-table-wrap">
+            <table className="performance-table reconciliation-table">
+              <caption className="sr-only">{t("reconciliation.imports_caption")}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">{t("reconciliation.file")}</th>
+                  <th scope="col">{t("reconciliation.source_type")}</th>
+                  <th scope="col">{t("reconciliation.imported_at")}</th>
+                  <th scope="col">{t("reconciliation.lines")}</th>
+                  <th scope="col">{t("reconciliation.matched")}</th>
+                  <th scope="col">{t("reconciliation.exceptions")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {imports.map((row) => (
+                  <tr key={row.import_id}>
+                    <th scope="row">
+                      {row.file_name} <span className="reconciliation-format">{row.file_format}</span>
+                    </th>
+                    <td>{t(`reconciliation.source.${row.source_type.toLowerCase()}`)}</td>
+                    <td>{new Date(row.created_at).toLocaleString()}</td>
+                    <td>{row.line_count}</td>
+                    <td>{row.matched_count}</td>
+                    <td className={row.exception_count > 0 ? "sla-overdue" : ""}>{row.exception_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="panel">
+        <div className="reconciliation-exceptions__header">
+          <h2 className="reconciliation-heading">{t("reconciliation.exceptions_title")}</h2>
+          <Field label={t("reconciliation.status_filter")} htmlFor="reconciliation-status">
+            <Select
+              id="reconciliation-status"
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as ExceptionStatus);
+                setOffset(0);
+              }}
+              disabled={isOffline || loading}
+            >
+              <option value="">{t("reconciliation.status.all")}</option>
+              <option value="MISMATCH">{t("reconciliation.status.mismatch")}</option>
+              <option value="MANUAL_REVIEW">{t("reconciliation.status.manual_review")}</option>
+              <option value="UNMATCHED">{t("reconciliation.status.unmatched")}</option>
+            </Select>
+          </Field>
+        </div>
+
+        {loading ? (
+          <SkeletonBlock height="8rem" />
+        ) : items.length === 0 ? (
+          <p className="performance-empty">{t("reconciliation.no_exceptions")}</p>
+        ) : (
+          <div className="performance-table-wrap">
+            <table className="performance-table reconciliation-table">
+              <caption className="sr-only">{t("reconciliation.exceptions_caption", { count: total })}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">{t("reconciliation.line")}</th>
+                  <th scope="col">{t("reconciliation.references")}</th>
+                  <th scope="col">{t("reconciliation.statement_amount")}</th>
+                  <th scope="col">{t("reconciliation.value_date")}</th>
+                  <th scope="col">{t("reconciliation.payment")}</th>
+                  <th scope="col">{t("reconciliation.status_label")}</th>
+                  <th scope="col">{t("reconciliation.reasons")}</th>
+                  <th scope="col"><span className="sr-only">{t("reconciliation.resolve")}</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.item_id}>
+                    <th scope="row">
+                      {item.file_name} #{item.line_number}
+                    </th>
+                    <td>{item.reference_values.join(", ") || "—"}</td>
+                    <td>{formatAmount(item.amount)}</td>
+                    <td>{item.value_date || "—"}</td>
+                    <td>
+                      {item.payment ? (
+                        <>
+                          {item.payment.public_arn || item.payment.arn}
+                          <br />
+                          <span className="reconciliation-format">{formatAmount(item.payment.amount)}</span>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td>{t(`reconciliation.status.${item.status.toLowerCase()}`)}</td>
+                    <td>{item.reasons.map((reason) => t(`reconciliation.reason.${reason.toLowerCase()}`)).join("; ")}</td>
+                    <td>
+                      <Button type="button" size="sm" variant="secondary" onClick={() => openResolve(item)} disabled={isOffline}>
+                        {t("reconciliation.resolve")}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {total > PAGE_SIZE ? (
+          <nav
+            className="inbox-pagination"
+            aria-label={t("inbox.page_summary", { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+          >
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={loading || offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              {t("inbox.page_prev")}
+            </Button>
+            <span>
+              {t("inbox.page_summary", { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={loading || offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              {t("inbox.page_next")}
+            </Button>
+          </nav>
+        ) : null}
+      </section>
+
+      <Modal
+        open={resolving !== null}
+        onClose={closeResolve}
+        title={t("reconciliation.resolve_title")}
+        description={
+          resolving ? t("reconciliation.resolve_desc", { line: resolving.line_number, file: resolving.file_name }) : undefined
+        }
+        actions={
+          <>
+            <Button type="button" variant="ghost" onClick={closeResolve} disabled={submitting}>
+              {t("action.cancel")}
+            </Button>
+            <Button
+              type="button"
+              variant={action === "IGNORE" ? "warning" : "primary"}
+              onClick={() => void submitResolve()}
+              disabled={resolveDisabled}
+            >
+              {submitting ? t("task.submitting") : t("action.submit")}
+            </Button>
+          </>
+        }
+      >
+        {resolveError ? <Alert variant="error">{resolveError}</Alert> : null}
+        <Field label={t("reconciliation.action")} htmlFor="reconciliation-action">
+          <Select
+            id="reconciliation-action"
+            value={action}
+            onChange={(e) => setAction(e.target.value as Resolution)}
+            disabled={submitting}
+          >
+            <option value="ACCEPT" disabled={!resolving?.payment_id}>
+              {t("reconciliation.resolution.accept")}
+            </option>
+            <option value="LINK">{t("reconciliation.resolution.link")}</option>
+            <option value="IGNORE">{t("reconciliation.resolution.ignore")}</option>
+          </Select>
+        </Field>
+        {action === "LINK" ? (
+          <Field label={t("reconciliation.payment_id")} htmlFor="reconciliation-payment-id" required hint={t("reconciliation.payment_id_hint")}>
+            <Input
+              id="reconciliation-payment-id"
+              value={paymentId}
+              disabled={submitting}
+              onChange={(e) => setPaymentId(e.target.value)}
+            />
+          </Field>
+        ) : null}
+        <Field label={t("reconciliation.note")} htmlFor="reconciliation-note" required>
+          <Textarea
+            id="reconciliation-note"
+            value={note}
+            rows={3}
+            maxLength={1000}
+            disabled={submitting}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </Field>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,524 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Field, Input, Modal, Select, SkeletonBlock, Textarea } from "@puda/shared";
+import { apiBaseUrl } from "./types";
+
+type RefundStatus = "REQUESTED" | "RECOMMENDED" | "APPROVED" | "IN_PAYOUT" | "PROCESSED" | "REJECTED";
+type StatusFilter = "" | RefundStatus;
+type Decision = "recommend" | "approve" | "reject" | "process";
+type PayoutOutcome = "PAID" | "FAILED";
+
+const PAGE_SIZE = 25;
+const STATUSES: RefundStatus[] = ["REQUESTED", "RECOMMENDED", "APPROVED", "IN_PAYOUT", "PROCESSED", "REJECTED"];
+
+type RefundRow = {
+  refund_id: string;
+  payment_id: string;
+  arn: string;
+  public_arn: string | null;
+  service_key: string | null;
+  payment_mode: string | null;
+  reason: string;
+  amount: number;
+  status: RefundStatus;
+  bank_details_jsonb: { accountName?: string; accountNumber?: string; ifsc?: string; bankName?: string };
+  refundable_jsonb: { refundable?: number; paidTotal?: number; dueTotal?: number; waivedTotal?: number };
+  requested_by: string | null;
+  requested_at: string;
+  recommended_by: string | null;
+  approved_by: string | null;
+  decision_remarks: string | null;
+  payout_failure_reason: string | null;
+  payout_reference: string | null;
+};
+
+type PayoutBatch = {
+  batch_id: string;
+  batch_number: string;
+  refund_count: number;
+  total_amount: number;
+  file_name: string;
+  created_at: string;
+};
+
+interface RefundsProps {
+  authHeaders: () => Record<string, string>;
+  authorities: string[];
+  officerUserId: string;
+  isOffline: boolean;
+}
+
+function formatAmount(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `₹${Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+}
+
+function maskAccount(accountNumber: string | undefined): string {
+  return accountNumber ? `••••${accountNumber.slice(-4)}` : "—";
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  return data.message || data.error || fallback;
+}
+
+export default function Refunds({ authHeaders, authorities, officerUserId, isOffline }: RefundsProps) {
+  const { t } = useTranslation();
+  const authorityId = authorities[0];
+
+  const [refunds, setRefunds] = useState<RefundRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("REQUESTED");
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const [deciding, setDeciding] = useState<{ refund: RefundRow; decision: Decision } | null>(null);
+  const [remarks, setRemarks] = useState("");
+  const [outcome, setOutcome] = useState<PayoutOutcome>("PAID");
+  const [payoutReference, setPayoutReference] = useState("");
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const load = useCallback(async () => {
+    if (isOffline) {
+      setError(t("refunds.offline"));
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (authorityId) params.set("authorityId", authorityId);
+      if (statusFilter) params.set("status", statusFilter);
+      const batchParams = authorityId ? `?${new URLSearchParams({ authorityId })}` : "";
+      const [refundsRes, batchesRes] = await Promise.all([
+        fetch(`${apiBaseUrl}/api/v1/refunds?${params}`, { headers: authHeaders() }),
+        fetch(`${apiBaseUrl}/api/v1/refunds/payout-batches${batchParams}`, { headers: authHeaders() }),
+      ]);
+      if (refundsRes.status === 403) throw new Error(t("refunds.forbidden"));
+      if (!refundsRes.ok) throw new Error(await readError(refundsRes, `API error ${refundsRes.status}`));
+      const refundsData = await refundsRes.json();
+      setRefunds(refundsData.refunds || []);
+      setTotal(refundsData.total || 0);
+      setBatches(batchesRes.ok ? (await batchesRes.json()).batches || [] : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, authorityId, isOffline, offset, statusFilter, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const downloadBatch = async (batch: PayoutBatch) => {
+    try {
+      const res = await fetch(
+        `${apiBaseUrl}/api/v1/refunds/payout-batches/${encodeURIComponent(batch.batch_id)}/file`,
+        { headers: authHeaders() }
+      );
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      const blob = await res.blob();
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = downloadUrl;
+      anchor.download = batch.file_name;
+      document.body.appendChild(anchor);
+      anchor.click();
+      anchor.remove();
+      window.URL.revokeObjectURL(downloadUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Download failed");
+    }
+  };
+
+  const generatePayout = async () => {
+    if (isOffline || generating) return;
+    setGenerating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/refunds/payout-batches`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify(authorityId ? { authorityId } : {}),
+      });
+      if (res.status === 403) throw new Error(t("refunds.payout_forbidden"));
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      const { batch } = (await res.json()) as { batch: PayoutBatch };
+      setNotice(t("refunds.payout_done", { batch: batch.batch_number, count: batch.refund_count, amount: formatAmount(batch.total_amount) }));
+      void downloadBatch(batch);
+      void load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const openDecision = (refund: RefundRow, decision: Decision) => {
+    setDeciding({ refund, decision });
+    setRemarks("");
+    setOutcome("PAID");
+    setPayoutReference("");
+    setDecisionError(null);
+  };
+
+  const closeDecision = () => {
+    if (submitting) return;
+    setDeciding(null);
+  };
+
+  const submitDecision = async () => {
+    if (!deciding || submitting) return;
+    setSubmitting(true);
+    setDecisionError(null);
+    try {
+      const { refund, decision } = deciding;
+      const body: Record<string, string> = {};
+      if (decision === "process") {
+        body.outcome = outcome;
+        if (outcome === "PAID") body.payoutReference = payoutReference.trim();
+        else body.remarks = remarks.trim();
+      } else if (remarks.trim()) {
+        body.remarks = remarks.trim();
+      }
+      const res = await fetch(`${apiBaseUrl}/api/v1/refunds/${encodeURIComponent(refund.refund_id)}/${decision}`, {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(await readError(res, `API error ${res.status}`));
+      setDeciding(null);
+      setNotice(t(`refunds.done.${decision}`, { arn: refund.public_arn || refund.arn }));
+      void load();
+    } catch (err) {
+      setDecisionError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const decisionDisabled =
+    submitting ||
+    (deciding?.decision === "reject" && !remarks.trim()) ||
+    (deciding?.decision === "process" && (outcome === "PAID" ? !payoutReference.trim() : !remarks.trim()));
+
+  const renderActions = (refund: RefundRow) => {
+    const raisedByMe = refund.requested_by === officerUserId;
+    switch (refund.status) {
+      case "REQUESTED":
+        return (
+          <>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => openDecision(refund, "recommend")}
+              disabled={isOffline || raisedByMe}
+              title={raisedByMe ? t("refunds.own_request") : undefined}
+            >
+              {t("refunds.action.recommend")}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => openDecision(refund, "reject")} disabled={isOffline}>
+              {t("refunds.action.reject")}
+            </Button>
+          </>
+        );
+      case "RECOMMENDED": {
+        const isMaker = refund.recommended_by === officerUserId || raisedByMe;
+        return (
+          <>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => openDecision(refund, "approve")}
+              disabled={isOffline || isMaker}
+              title={isMaker ? t("refunds.checker_hint") : undefined}
+            >
+              {t("refunds.action.approve")}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => openDecision(refund, "reject")} disabled={isOffline}>
+              {t("refunds.action.reject")}
+            </Button>
+          </>
+        );
+      }
+      case "APPROVED":
+        return refund.payout_failure_reason ? (
+          <Button type="button" size="sm" variant="ghost" onClick={() => openDecision(refund, "reject")} disabled={isOffline}>
+            {t("refunds.action.reject")}
+          </Button>
+        ) : (
+          <span className="reconciliation-format">{t("refunds.awaiting_payout")}</span>
+        );
+      case "IN_PAYOUT":
+        return (
+          <Button type="button" size="sm" variant="secondary" onClick={() => openDecision(refund, "process")} disabled={isOffline}>
+            {t("refunds.action.process")}
+          </Button>
+        );
+      default:
+        return refund.payout_reference ? <span className="reconciliation-format">{refund.payout_reference}</span> : null;
+    }
+  };
+
+  return (
+    <>
+      <div className="page__header">
+        <h1>{t("app.page_refunds")}</h1>
+        <p className="subtitle">{t("refunds.subtitle")}</p>
+      </div>
+
+      {error ? <Alert variant="error">{error}</Alert> : null}
+      {notice ? <Alert variant="success">{notice}</Alert> : null}
+
+      <section className="panel">
+        <div className="reconciliation-exceptions__header">
+          <h2 className="reconciliation-heading">{t("refunds.queue_title")}</h2>
+          <Field label={t("refunds.status_filter")} htmlFor="refunds-status">
+            <Select
+              id="refunds-status"
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as StatusFilter);
+                setOffset(0);
+              }}
+              disabled={isOffline || loading}
+            >
+              <option value="">{t("refunds.status.all")}</option>
+              {STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {t(`refunds.status.${status.toLowerCase()}`)}
+                </option>
+              ))}
+            </Select>
+          </Field>
+        </div>
+
+        {loading ? (
+          <SkeletonBlock height="8rem" />
+        ) : refunds.length === 0 ? (
+          <p className="performance-empty">{t("refunds.empty")}</p>
+        ) : (
+          <div className="performance-table-wrap">
+            <table className="performance-table reconciliation-table">
+              <caption className="sr-only">{t("refunds.queue_caption", { count: total })}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">{t("refunds.application")}</th>
+                  <th scope="col">{t("refunds.amount")}</th>
+                  <th scope="col">{t("refunds.refundable")}</th>
+                  <th scope="col">{t("refunds.reason")}</th>
+                  <th scope="col">{t("refunds.beneficiary")}</th>
+                  <th scope="col">{t("refunds.status_label")}</th>
+                  <th scope="col"><span className="sr-only">{t("refunds.actions")}</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {refunds.map((refund) => (
+                  <tr key={refund.refund_id}>
+                    <th scope="row">
+                      {refund.public_arn || refund.arn}
+                      <br />
+                      <span className="reconciliation-format">
+                        {new Date(refund.requested_at).toLocaleDateString()}
+                        {refund.payment_mode ? ` · ${refund.payment_mode}` : ""}
+                      </span>
+                    </th>
+                    <td>{formatAmount(refund.amount)}</td>
+                    <td>
+                      {formatAmount(refund.refundable_jsonb.refundable)}
+                      <br />
+                      <span className="reconciliation-format">
+                        {t("refunds.breakdown", {
+                          paid: formatAmount(refund.refundable_jsonb.paidTotal),
+                          due: formatAmount(refund.refundable_jsonb.dueTotal),
+                        })}
+                      </span>
+                    </td>
+                    <td>
+                      {refund.reason}
+                      {refund.decision_remarks ? (
+                        <>
+                          <br />
+                          <span className="reconciliation-format">{refund.decision_remarks}</span>
+                        </>
+                      ) : null}
+                    </td>
+                    <td>
+                      {refund.bank_details_jsonb.accountName || "—"}
+                      <br />
+                      <span className="reconciliation-format">
+                        {maskAccount(refund.bank_details_jsonb.accountNumber)} · {refund.bank_details_jsonb.ifsc || "—"}
+                      </span>
+                    </td>
+                    <td>
+                      {t(`refunds.status.${refund.status.toLowerCase()}`)}
+                      {refund.payout_failure_reason && refund.status === "APPROVED" ? (
+                        <>
+                          <br />
+                          <span className="sla-overdue">{t("refunds.payout_failed", { reason: refund.payout_failure_reason })}</span>
+                        </>
+                      ) : null}
+                    </td>
+                    <td className="refunds-actions">{renderActions(refund)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {total > PAGE_SIZE ? (
+          <nav
+            className="inbox-pagination"
+            aria-label={t("inbox.page_summary", { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+          >
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={loading || offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              {t("inbox.page_prev")}
+            </Button>
+            <span>
+              {t("inbox.page_summary", { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={loading || offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              {t("inbox.page_next")}
+            </Button>
+          </nav>
+        ) : null}
+      </section>
+
+      <section className="panel">
+        <div className="reconciliation-exceptions__header">
+          <h2 className="reconciliation-heading">{t("refunds.payout_title")}</h2>
+          <Button type="button" size="sm" onClick={() => void generatePayout()} disabled={isOffline || generating}>
+            {t(generating ? "refunds.generating" : "refunds.generate_payout")}
+          </Button>
+        </div>
+        <p className="subtitle">{t("refunds.payout_hint")}</p>
+        {batches.length === 0 ? (
+          <p className="performance-empty">{t("refunds.no_batches")}</p>
+        ) : (
+          <div className="performance-table-wrap">
+            <table className="performance-table reconciliation-table">
+              <caption className="sr-only">{t("refunds.batches_caption")}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">{t("refunds.batch")}</th>
+                  <th scope="col">{t("refunds.generated_at")}</th>
+                  <th scope="col">{t("refunds.batch_count")}</th>
+                  <th scope="col">{t("refunds.amount")}</th>
+                  <th scope="col"><span className="sr-only">{t("refunds.download")}</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((batch) => (
+                  <tr key={batch.batch_id}>
+                    <th scope="row">{batch.batch_number}</th>
+                    <td>{new Date(batch.created_at).toLocaleString()}</td>
+                    <td>{batch.refund_count}</td>
+                    <td>{formatAmount(batch.total_amount)}</td>
+                    <td>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => void downloadBatch(batch)} disabled={isOffline}>
+                        {t("refunds.download")}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <Modal
+        open={deciding !== null}
+        onClose={closeDecision}
+        title={deciding ? t(`refunds.modal.${deciding.decision}`) : ""}
+        description={
+          deciding
+            ? t("refunds.modal_desc", {
+                arn: deciding.refund.public_arn || deciding.refund.arn,
+                amount: formatAmount(deciding.refund.amount),
+              })
+            : undefined
+        }
+        actions={
+          <>
+            <Button type="button" variant="ghost" onClick={closeDecision} disabled={submitting}>
+              {t("action.cancel")}
+            </Button>
+            <Button
+              type="button"
+              variant={deciding?.decision === "reject" ? "warning" : "primary"}
+              onClick={() => void submitDecision()}
+              disabled={decisionDisabled}
+            >
+              {submitting ? t("task.submitting") : t("action.submit")}
+            </Button>
+          </>
+        }
+      >
+        {decisionError ? <Alert variant="error">{decisionError}</Alert> : null}
+        {deciding?.decision === "process" ? (
+          <>
+            <Field label={t("refunds.outcome")} htmlFor="refunds-outcome">
+              <Select
+                id="refunds-outcome"
+                value={outcome}
+                onChange={(e) => setOutcome(e.target.value as PayoutOutcome)}
+                disabled={submitting}
+              >
+                <option value="PAID">{t("refunds.outcome_paid")}</option>
+                <option value="FAILED">{t("refunds.outcome_failed")}</option>
+              </Select>
+            </Field>
+            {outcome === "PAID" ? (
+              <Field label={t("refunds.utr")} htmlFor="refunds-utr" required>
+                <Input
+                  id="refunds-utr"
+                  value={payoutReference}
+                  maxLength={64}
+                  disabled={submitting}
+                  onChange={(e) => setPayoutReference(e.target.value)}
+                />
+              </Field>
+            ) : null}
+          </>
+        ) : null}
+        {deciding?.decision !== "process" || outcome === "FAILED" ? (
+          <Field
+            label={t(deciding?.decision === "process" ? "refunds.failure_reason" : "refunds.remarks")}
+            htmlFor="refunds-remarks"
+            required={deciding?.decision === "reject" || deciding?.decision === "process"}
+          >
+            <Textarea
+              id="refunds-remarks"
+              value={remarks}
+              rows={3}
+              maxLength={1000}
+              disabled={submitting}
+              onChange={(e) => setRemarks(e.target.value)}
+            />
+          </Field>
+        ) : null}
+      </Modal>
+    </>
+  );
+}
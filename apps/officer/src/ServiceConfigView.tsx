@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from "react";
 import { useTranslation } from "react-i18next";
 import { Alert, Button, SkeletonBlock } from "@puda/shared";
 import { apiBaseUrl } from "./types";
+import WorkflowSimulator from "./WorkflowSimulator";
 import "./service-config.css";
 
 // ---- Types ----
@@ -93,7 +94,7 @@ interface ServiceConfigViewProps {
 }
 
 type SubView = "service-list" | "version-list" | "version-detail";
-type DetailTab = "workflow" | "documents" | "fees" | "compare";
+type DetailTab = "workflow" | "documents" | "fees" | "compare" | "simulate";
 
 export default function ServiceConfigView({ authHeaders, isOffline, onBack }: ServiceConfigViewProps) {
   const { t } = useTranslation();
@@ -704,7 +705,7 @@ export default function ServiceConfigView({ authHeaders, isOffline, onBack }: Se
         </div>
 
         <nav className="svc-tabs" aria-label="Version detail tabs">
-          {(["workflow", "documents", "fees", "compare"] as DetailTab[]).map(tab => (
+          {(["workflow", "documents", "fees", "compare", "simulate"] as DetailTab[]).map(tab => (
             <button
               key={tab}
               className={`svc-tab ${activeTab === tab ? "svc-tab--active" : ""}`}
@@ -721,6 +722,14 @@ export default function ServiceConfigView({ authHeaders, isOffline, onBack }: Se
         {activeTab === "documents" && renderDocumentsTab()}
         {activeTab === "fees" && renderFeesTab()}
         {activeTab === "compare" && renderCompareTab()}
+        {activeTab === "simulate" && (
+          <WorkflowSimulator
+            authHeaders={authHeaders}
+            isOffline={isOffline}
+            serviceKey={versionDetail.serviceKey}
+            version={versionDetail.version}
+          />
+        )}
       </>
     );
   };
@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { useTranslation } from "react-i18next";
-import { Alert, Button, Card, Field, Input, Modal, Textarea } from "@puda/shared";
+import { Alert, Button, Card, Field, Input, Modal, Select, Textarea } from "@puda/shared";
 import { Task, Application, apiBaseUrl } from "./types";
+import FeeAssessmentPanel from "./FeeAssessmentPanel";
 
 // Field label map for structured data display
 const FIELD_LABELS: Record<string, string> = {
@@ -136,6 +137,14 @@ export default function TaskDetail({
   const [actionLoading, setActionLoading] = useState(false);
   const [confirmOpen, setConfirmOpen] = useState(false);
 
+  // Assignment: self-release and supervisor reassignment
+  const [reassignOpen, setReassignOpen] = useState(false);
+  const [assignees, setAssignees] = useState<Array<{ user_id: string; name: string; login: string }>>([]);
+  const [reassignTarget, setReassignTarget] = useState("");
+  const [reassignReason, setReassignReason] = useState("");
+  const [assignmentLoading, setAssignmentLoading] = useState(false);
+  const [assignmentError, setAssignmentError] = useState<string | null>(null);
+
   // Per-document verification state
   const [docVerifications, setDocVerifications] = useState<Record<string, { status: string; remarks: string }>>({});
   const [docVerifyLoading, setDocVerifyLoading] = useState<string | null>(null);
@@ -323,6 +332,12 @@ export default function TaskDetail({
       });
       if (!res.ok) {
         const errData = await res.json();
+        if (errData.error === "GUARD_FAILED" && Array.isArray(errData.failedGuards)) {
+          const reasons = errData.failedGuards
+            .map((guard: { ruleId: string; description?: string }) => guard.description || guard.ruleId)
+            .join("; ");
+          throw new Error(t("task.guard_failed", { reasons }));
+        }
         throw new Error(errData.error || "Action failed");
       }
       onActionComplete({ variant: "success", text: `Action ${action} completed successfully.` });
@@ -334,6 +349,76 @@ export default function TaskDetail({
     }
   };
 
+  const handleRelease = async () => {
+    if (isOffline) return;
+    setAssignmentLoading(true);
+    setAssignmentError(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/${task.task_id}/release`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Release failed");
+      }
+      onActionComplete({ variant: "success", text: t("task.released") });
+    } catch (err) {
+      setAssignmentError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setAssignmentLoading(false);
+    }
+  };
+
+  const openReassign = async () => {
+    setReassignOpen(true);
+    setAssignmentError(null);
+    setAssignmentLoading(true);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/${task.task_id}/eligible-assignees`, {
+        headers: authHeaders(),
+      });
+      if (res.status === 403) {
+        setReassignOpen(false);
+        throw new Error(t("task.reassign_not_supervisor"));
+      }
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      const data = await res.json();
+      setAssignees(data.assignees || []);
+    } catch (err) {
+      setAssignmentError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setAssignmentLoading(false);
+    }
+  };
+
+  const handleReassign = async () => {
+    if (isOffline || !reassignReason.trim()) return;
+    setAssignmentLoading(true);
+    setAssignmentError(null);
+    try {
+      const body: { reason: string; targetUserId?: string } = { reason: reassignReason.trim() };
+      if (reassignTarget) body.targetUserId = reassignTarget;
+      const res = await fetch(`${apiBaseUrl}/api/v1/tasks/${task.task_id}/reassign`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Reassignment failed");
+      }
+      onActionComplete({ variant: "success", text: t("task.reassigned") });
+    } catch (err) {
+      setAssignmentError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setAssignmentLoading(false);
+    }
+  };
+
+  const isAssignedToMe = task.assignee_user_id === officerUserId && task.status === "IN_PROGRESS";
+
   return (
     <>
       <Button onClick={onBack} className="back-button" variant="ghost">
@@ -544,6 +629,12 @@ export default function TaskDetail({
                         {event.actor_id || event.actor_type || "System"}
                       </span>
                     </div>
+                    {event.payload_jsonb?.branchId && (
+                      <div className="read-meta-row">
+                        <span className="read-meta-key">{t("inbox.branch")}</span>
+                        <span className="read-meta-value">{event.payload_jsonb.branchId}</span>
+                      </div>
+                    )}
                   </div>
                 </Card>
               ))}
@@ -555,11 +646,24 @@ export default function TaskDetail({
           )}
         </div>
 
+        <FeeAssessmentPanel
+          arn={application.arn}
+          authHeaders={authHeaders}
+          isOffline={isOffline}
+          canAssess={!fromSearch && !["APPROVED", "REJECTED", "CLOSED"].includes(application.state_id) && Boolean(task.task_id)}
+        />
+
         {(application.disposal_type === "APPROVED" || application.disposal_type === "REJECTED") && (
           <div className="output-download">
-            <a href={`${apiBaseUrl}/api/v1/applications/${application.arn}/output/download`} target="_blank" rel="noopener noreferrer" className="download-link">
-              Download {application.disposal_type === "APPROVED" ? "Certificate" : "Order"}
-            </a>
+            {application.output_status === "PENDING" ? (
+              <Alert variant="info">{t("task.output_pending")}</Alert>
+            ) : application.output_status === "FAILED" ? (
+              <Alert variant="warning">{t("task.output_failed")}</Alert>
+            ) : (
+              <a href={`${apiBaseUrl}/api/v1/applications/${application.arn}/output/download`} target="_blank" rel="noopener noreferrer" className="download-link">
+                Download {application.disposal_type === "APPROVED" ? "Certificate" : "Order"}
+              </a>
+            )}
           </div>
         )}
 
@@ -568,10 +672,15 @@ export default function TaskDetail({
         {!fromSearch && !["APPROVED", "REJECTED", "CLOSED"].includes(application.state_id) && task.task_id && (
           <div className="action-panel">
             <h2>{t("task.take_action")}</h2>
+            {task.branch_id && (
+              <Alert variant="info">{t("task.parallel_branch_hint", { branch: task.branch_id })}</Alert>
+            )}
             <div className="action-buttons">
               <Button onClick={() => setAction("FORWARD")} className="action-btn forward" variant="secondary" disabled={isOffline || actionLoading}>{t("action.forward")}</Button>
               <Button onClick={() => setAction("QUERY")} className="action-btn query" variant="secondary" disabled={isOffline || actionLoading}>{t("action.query")}</Button>
-              <Button onClick={() => setAction("APPROVE")} className="action-btn approve" variant="secondary" disabled={isOffline || actionLoading}>{t("action.approve")}</Button>
+              {!task.branch_id && (
+                <Button onClick={() => setAction("APPROVE")} className="action-btn approve" variant="secondary" disabled={isOffline || actionLoading}>{t("action.approve")}</Button>
+              )}
               <Button onClick={() => setAction("REJECT")} className="action-btn reject" variant="secondary" disabled={isOffline || actionLoading}>{t("action.reject")}</Button>
             </div>
 
@@ -653,6 +762,85 @@ export default function TaskDetail({
             )}
           </div>
         )}
+
+        {!fromSearch && !["APPROVED", "REJECTED", "CLOSED"].includes(application.state_id) && task.task_id && (
+          <div className="action-panel">
+            <h2>{t("task.assignment")}</h2>
+            <p>
+              {task.assignee_user_id
+                ? isAssignedToMe
+                  ? t("task.assigned_to_you")
+                  : t("task.assigned_to", { user: task.assignee_user_id })
+                : t("task.unassigned", { role: task.system_role_id })}
+            </p>
+            {assignmentError ? <Alert variant="error">{assignmentError}</Alert> : null}
+            <div className="action-buttons">
+              {isAssignedToMe && (
+                <Button
+                  onClick={() => void handleRelease()}
+                  variant="secondary"
+                  disabled={isOffline || assignmentLoading}
+                >
+                  {t("task.release")}
+                </Button>
+              )}
+              {!reassignOpen && (
+                <Button
+                  onClick={() => void openReassign()}
+                  variant="secondary"
+                  disabled={isOffline || assignmentLoading}
+                >
+                  {t("task.reassign")}
+                </Button>
+              )}
+            </div>
+            {reassignOpen && (
+              <div className="action-form">
+                <Field label={t("task.reassign_to")} htmlFor="reassign-target">
+                  <Select
+                    id="reassign-target"
+                    value={reassignTarget}
+                    onChange={(e) => setReassignTarget(e.target.value)}
+                    disabled={isOffline || assignmentLoading}
+                  >
+                    <option value="">{t("task.reassign_pool")}</option>
+                    {assignees
+                      .filter((assignee) => assignee.user_id !== task.assignee_user_id)
+                      .map((assignee) => (
+                        <option key={assignee.user_id} value={assignee.user_id}>
+                          {assignee.name} ({assignee.login})
+                        </option>
+                      ))}
+                  </Select>
+                </Field>
+                <Field label={t("task.reassign_reason")} htmlFor="reassign-reason" required>
+                  <Textarea
+                    id="reassign-reason"
+                    value={reassignReason}
+                    onChange={(e) => setReassignReason(e.target.value)}
+                    rows={2}
+                    disabled={isOffline || assignmentLoading}
+                  />
+                </Field>
+                <div className="action-form-buttons">
+                  <Button
+                    onClick={() => void handleReassign()}
+                    disabled={isOffline || assignmentLoading || !reassignReason.trim()}
+                  >
+                    {t("task.reassign_submit")}
+                  </Button>
+                  <Button
+                    onClick={() => setReassignOpen(false)}
+                    variant="ghost"
+                    disabled={assignmentLoading}
+                  >
+                    {t("action.cancel")}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       <Modal
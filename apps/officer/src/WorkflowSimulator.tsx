@@ -0,0 +1,389 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Alert, Button, Field, Input, Select, SkeletonBlock, Textarea } from "@puda/shared";
+import { apiBaseUrl } from "./types";
+
+// ---- Types (mirror POST /api/v1/admin/workflow-simulations) ----
+
+type ActorType = "CITIZEN" | "OFFICER" | "SYSTEM";
+
+interface SimulationStep {
+  transitionId?: string;
+  action?: string;
+  actorType?: ActorType;
+  systemRoles?: string[];
+  branchId?: string;
+  afterHours?: number;
+  queryMessage?: string;
+}
+
+interface SimulatedTask {
+  taskId: string;
+  stateId: string;
+  systemRoleId: string;
+  branchId?: string;
+  slaDueAt: string | null;
+  assignmentStrategy: string;
+  status: string;
+}
+
+interface StepResult {
+  index: number;
+  success: boolean;
+  error?: string;
+  failedGuards?: { ruleId: string; description?: string; reason: string }[];
+  fromStateId: string;
+  stateId: string;
+  at: string;
+  transitions: { transitionId: string; fromStateId: string; toStateId: string; actorType: string; guards: { ruleId: string; passed: boolean }[] }[];
+  tasksCreated: SimulatedTask[];
+  tasksClosed: SimulatedTask[];
+  queries: { queryNumber: number; message: string; responseDueAt: string }[];
+  decisions: { decisionType: string; transitionId: string }[];
+  notices: { noticeType: string; templateCode: string }[];
+  outputs: { templateId: string | null; outputAction: string | null; decisionState: string }[];
+  notifications: { event: string; channels: string[]; recipients: string[] }[];
+  registeredActions: { transitionId: string; action: string; params: Record<string, unknown> }[];
+  warnings: string[];
+}
+
+interface AvailableTransition {
+  transitionId: string;
+  toStateId: string;
+  trigger: "manual" | "system" | "timer";
+  officerActions: string[];
+  allowedActorTypes?: string[];
+  allowedSystemRoleIds?: string[];
+  actions: string[];
+}
+
+interface SimulationResult {
+  success: boolean;
+  finalStateId: string;
+  steps: StepResult[];
+  openTasks: SimulatedTask[];
+  availableTransitions: AvailableTransition[];
+}
+
+/** A choice offered for the next step: a transition, or completing one branch task of a FORK. */
+interface StepOption {
+  key: string;
+  label: string;
+  transition?: AvailableTransition;
+  branchTask?: SimulatedTask;
+}
+
+interface WorkflowSimulatorProps {
+  authHeaders: () => Record<string, string>;
+  isOffline: boolean;
+  serviceKey: string;
+  version: string;
+}
+
+function defaultActor(transition: AvailableTransition): ActorType {
+  if (transition.trigger !== "manual") return "SYSTEM";
+  if (transition.officerActions.length > 0) return "OFFICER";
+  const allowed = transition.allowedActorTypes?.[0];
+  return allowed === "OFFICER" || allowed === "SYSTEM" ? allowed : "CITIZEN";
+}
+
+export default function WorkflowSimulator({ authHeaders, isOffline, serviceKey, version }: WorkflowSimulatorProps) {
+  const { t } = useTranslation();
+  const [useServicePack, setUseServicePack] = useState(false);
+  const [authorityId, setAuthorityId] = useState("");
+  const [startAt, setStartAt] = useState("");
+  const [steps, setSteps] = useState<SimulationStep[]>([]);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Next-step form
+  const [optionKey, setOptionKey] = useState("");
+  const [actorType, setActorType] = useState<ActorType>("CITIZEN");
+  const [roles, setRoles] = useState("");
+  const [queryMessage, setQueryMessage] = useState("");
+  const [afterHours, setAfterHours] = useState("");
+
+  const runSimulation = useCallback(async (nextSteps: SimulationStep[]) => {
+    if (isOffline) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/v1/admin/workflow-simulations`, {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({
+          serviceKey,
+          ...(useServicePack ? {} : { version }),
+          ...(authorityId.trim() ? { authorityId: authorityId.trim() } : {}),
+          ...(startAt ? { startAt: new Date(startAt).toISOString() } : {}),
+          steps: nextSteps,
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.message || body.error || `API error ${res.status}`);
+      const simulation = body as SimulationResult;
+      setResult(simulation);
+      // A failed step was rolled back; keep only the steps that ran
+      setSteps(simulation.success ? nextSteps : nextSteps.slice(0, simulation.steps.length - 1));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("sim.failed"));
+    } finally {
+      setRunning(false);
+    }
+  }, [authHeaders, authorityId, isOffline, serviceKey, startAt, t, useServicePack, version]);
+
+  useEffect(() => {
+    setSteps([]);
+    setResult(null);
+    void runSimulation([]);
+    // Restart whenever the simulated configuration changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [serviceKey, version, useServicePack]);
+
+  const options = useMemo<StepOption[]>(() => {
+    if (!result) return [];
+    const branchOptions = result.openTasks
+      .filter((task) => task.branchId && task.stateId === result.finalStateId)
+      .map((task) => ({
+        key: `branch:${task.taskId}`,
+        label: t("sim.complete_branch", { branch: task.branchId, role: task.systemRoleId }),
+        branchTask: task,
+      }));
+    const transitionOptions = result.availableTransitions.map((transition) => ({
+      key: `transition:${transition.transitionId}`,
+      label: `${transition.transitionId} → ${transition.toStateId} (${transition.trigger})`,
+      transition,
+    }));
+    return [...branchOptions, ...transitionOptions];
+  }, [result, t]);
+
+  const selected = options.find((option) => option.key === optionKey) || options[0];
+
+  useEffect(() => {
+    setOptionKey(options[0]?.key || "");
+  }, [options]);
+
+  useEffect(() => {
+    if (!selected) return;
+    if (selected.branchTask) {
+      setActorType("OFFICER");
+      setRoles(selected.branchTask.systemRoleId);
+      return;
+    }
+    const transition = selected.transition!;
+    setActorType(defaultActor(transition));
+    const openRoles = result?.openTasks
+      .filter((task) => task.stateId === result.finalStateId)
+      .map((task) => task.systemRoleId) || [];
+    setRoles((transition.allowedSystemRoleIds?.length ? transition.allowedSystemRoleIds : openRoles).join(", "));
+  }, [selected?.key]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const raisesQuery = selected?.transition?.actions.includes("RAISE_QUERY") ?? false;
+
+  const handleRunStep = () => {
+    if (!selected) return;
+    const systemRoles = roles.split(",").map((role) => role.trim()).filter(Boolean);
+    const hours = Number(afterHours);
+    const step: SimulationStep = {
+      ...(Number.isFinite(hours) && hours > 0 ? { afterHours: hours } : {}),
+    };
+    if (selected.branchTask) {
+      Object.assign(step, { action: "FORWARD", systemRoles, branchId: selected.branchTask.branchId });
+    } else {
+      const transition = selected.transition!;
+      if (actorType === "OFFICER" && transition.officerActions.length > 0) {
+        Object.assign(step, { action: transition.officerActions[0], systemRoles });
+      } else {
+        Object.assign(step, { transitionId: transition.transitionId, actorType, systemRoles });
+      }
+      if (raisesQuery && queryMessage.trim()) step.queryMessage = queryMessage.trim();
+    }
+    setQueryMessage("");
+    setAfterHours("");
+    void runSimulation([...steps, step]);
+  };
+
+  const formatDateTime = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleString("en-IN", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" })
+      : "—";
+
+  const renderStep = (step: StepResult) => (
+    <div key={step.index} className="wf-step">
+      <div className="wf-step__connector">
+        <div className={`wf-step__dot ${step.success ? "wf-step__dot--task" : ""}`} />
+        <div className="wf-step__line" />
+      </div>
+      <div className="wf-step__body">
+        <span className="wf-step__label">
+          {t("sim.step", { number: step.index + 1 })}: {step.fromStateId} → {step.stateId}
+        </span>
+        <div className="wf-step__meta">
+          <span>{formatDateTime(step.at)}</span>
+          {step.transitions.map((transition) => (
+            <span key={`${transition.transitionId}-${transition.fromStateId}`} className="wf-step__chip">
+              {transition.transitionId} ({transition.actorType})
+            </span>
+          ))}
+        </div>
+        {!step.success && (
+          <div className="diff-item diff-removed sim-detail">
+            {t("sim.step_failed", { error: step.error })}
+            {step.failedGuards?.map((guard) => (
+              <div key={guard.ruleId}>{guard.ruleId}: {guard.description || guard.reason}</div>
+            ))}
+          </div>
+        )}
+        <ul className="sim-details">
+          {step.transitions.flatMap((transition) =>
+            transition.guards.map((guard) => (
+              <li key={`${transition.transitionId}-${guard.ruleId}`}>
+                {t("sim.guard", { rule: guard.ruleId })}: {guard.passed ? t("sim.passed") : t("sim.not_passed")}
+              </li>
+            ))
+          )}
+          {step.tasksCreated.map((task) => (
+            <li key={task.taskId}>
+              {t("sim.task_created", { role: task.systemRoleId, state: task.stateId })}
+              {task.branchId ? ` [${task.branchId}]` : ""} — {t("sim.sla_due", { date: formatDateTime(task.slaDueAt) })} · {task.assignmentStrategy}
+            </li>
+          ))}
+          {step.tasksClosed.map((task) => (
+            <li key={`closed-${task.taskId}`}>
+              {t("sim.task_closed", { role: task.systemRoleId, status: task.status })}
+            </li>
+          ))}
+          {step.queries.map((query) => (
+            <li key={`query-${query.queryNumber}`}>
+              {t("sim.query", { number: query.queryNumber, date: formatDateTime(query.responseDueAt) })}
+            </li>
+          ))}
+          {step.decisions.map((decision) => (
+            <li key={`decision-${decision.transitionId}`}>{t("sim.decision", { decision: decision.decisionType })}</li>
+          ))}
+          {step.notices.map((notice) => (
+            <li key={`notice-${notice.templateCode}`}>{t("sim.notice", { type: notice.noticeType })}</li>
+          ))}
+          {step.outputs.map((output) => (
+            <li key={`output-${output.decisionState}`}>
+              {t("sim.output", { template: output.templateId || "—" })}
+            </li>
+          ))}
+          {step.registeredActions.map((entry, index) => (
+            <li key={`action-${entry.transitionId}-${index}`}>
+              {t("sim.registered_action", { action: entry.action })}
+              {Object.keys(entry.params).length > 0 ? ` ${JSON.stringify(entry.params)}` : ""}
+            </li>
+          ))}
+          {step.notifications.map((notification) => (
+            <li key={`notification-${notification.event}`}>
+              {t("sim.notification", { event: notification.event })}
+              {notification.channels.length > 0 ? ` (${notification.channels.join(", ")})` : ""}
+            </li>
+          ))}
+        </ul>
+        {step.warnings.map((warning) => (
+          <div key={warning} className="diff-item diff-changed sim-detail">{warning}</div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <p className="subtitle">{t("sim.intro")}</p>
+      <div className="action-form">
+        <Field label={t("sim.source")} htmlFor="sim-source">
+          <Select
+            id="sim-source"
+            value={useServicePack ? "pack" : "version"}
+            onChange={(e) => setUseServicePack(e.target.value === "pack")}
+            disabled={running}
+          >
+            <option value="version">{t("sim.source_version", { version })}</option>
+            <option value="pack">{t("sim.source_pack")}</option>
+          </Select>
+        </Field>
+        <Field label={t("sim.authority")} htmlFor="sim-authority" hint={t("sim.authority_hint")}>
+          <Input id="sim-authority" value={authorityId} onChange={(e) => setAuthorityId(e.target.value.toUpperCase())} />
+        </Field>
+        <Field label={t("sim.start_at")} htmlFor="sim-start">
+          <Input id="sim-start" type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} />
+        </Field>
+        <div className="action-form-buttons">
+          <Button variant="ghost" type="button" disabled={running || isOffline} onClick={() => void runSimulation([])}>
+            {t("sim.restart")}
+          </Button>
+          <Button
+            variant="ghost"
+            type="button"
+            disabled={running || isOffline || steps.length === 0}
+            onClick={() => void runSimulation(steps.slice(0, -1))}
+          >
+            {t("sim.undo")}
+          </Button>
+        </div>
+      </div>
+
+      {error && <Alert variant="error" className="view-feedback">{error}</Alert>}
+      {running && !result && <SkeletonBlock height="8rem" />}
+
+      {result && (
+        <>
+          <h3 style={{ margin: `var(--space-4) 0 var(--space-3) 0`, fontSize: "1rem" }}>
+            {t("sim.current_state", { state: result.finalStateId })}
+          </h3>
+          <div className="wf-flow">{result.steps.map(renderStep)}</div>
+
+          {result.openTasks.length > 0 && (
+            <p className="sim-open-tasks">
+              {t("sim.open_tasks")}: {result.openTasks.map((task) => task.branchId ? `${task.systemRoleId} [${task.branchId}]` : task.systemRoleId).join(", ")}
+            </p>
+          )}
+
+          {options.length === 0 ? (
+            <p className="svc-empty">{t("sim.finished")}</p>
+          ) : (
+            <div className="action-form">
+              <Field label={t("sim.next_step")} htmlFor="sim-option">
+                <Select id="sim-option" value={selected?.key || ""} onChange={(e) => setOptionKey(e.target.value)} disabled={running}>
+                  {options.map((option) => (
+                    <option key={option.key} value={option.key}>{option.label}</option>
+                  ))}
+                </Select>
+              </Field>
+              {!selected?.branchTask && (
+                <Field label={t("sim.actor")} htmlFor="sim-actor">
+                  <Select id="sim-actor" value={actorType} onChange={(e) => setActorType(e.target.value as ActorType)} disabled={running}>
+                    <option value="CITIZEN">CITIZEN</option>
+                    <option value="OFFICER">OFFICER</option>
+                    <option value="SYSTEM">SYSTEM</option>
+                  </Select>
+                </Field>
+              )}
+              {actorType === "OFFICER" && (
+                <Field label={t("sim.roles")} htmlFor="sim-roles" hint={t("sim.roles_hint")}>
+                  <Input id="sim-roles" value={roles} onChange={(e) => setRoles(e.target.value)} disabled={running} />
+                </Field>
+              )}
+              {raisesQuery && (
+                <Field label={t("sim.query_message")} htmlFor="sim-query">
+                  <Textarea id="sim-query" rows={2} value={queryMessage} onChange={(e) => setQueryMessage(e.target.value)} disabled={running} />
+                </Field>
+              )}
+              <Field label={t("sim.after_hours")} htmlFor="sim-hours">
+                <Input id="sim-hours" type="number" min={0} value={afterHours} onChange={(e) => setAfterHours(e.target.value)} disabled={running} />
+              </Field>
+              <div className="action-form-buttons">
+                <Button type="button" onClick={handleRunStep} disabled={running || isOffline || !selected}>
+                  {t("sim.run_step")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -3,6 +3,12 @@ export default {
   // Nav
   "nav.inbox": "My Inbox",
   "nav.search": "Search",
+  "nav.escalated": "Escalated to Me",
+  "nav.delegations": "Delegations",
+  "nav.performance": "Performance",
+  "nav.reconciliation": "Reconciliation",
+  "nav.refunds": "Refunds",
+  "nav.counter": "Counter",
   "nav.complaints": "Complaints",
   "nav.service_config": "Service Config",
   "nav.config_short": "Config",
@@ -14,6 +20,12 @@ export default {
   "app.brand": "PUDA Officer Workbench",
   "app.page_inbox": "My Inbox",
   "app.page_search": "Search Applications",
+  "app.page_escalated": "Escalated to Me",
+  "app.page_delegations": "Task Delegations",
+  "app.page_performance": "Productivity & SLA Performance",
+  "app.page_reconciliation": "Payment Reconciliation",
+  "app.page_refunds": "Refunds",
+  "app.page_counter": "Counter Payments",
   "app.page_task": "Application Review",
   "app.page_complaints": "Complaint Management",
   "app.page_service_config": "Service Configuration",
@@ -41,9 +53,266 @@ export default {
   "inbox.service": "Service",
   "inbox.stage": "Stage",
   "inbox.required_role": "Required Role",
+  "inbox.branch": "Branch",
+  "inbox.assigned_to_you": "Assigned to you",
+  "inbox.live_task_assigned": "New task assigned to you: {{arn}}",
   "inbox.sla_due": "SLA Due",
   "inbox.overdue": "Overdue",
   "inbox.arn_label": "ARN: {{arn}}",
+  "inbox.select_all": "Select all",
+  "inbox.select_task": "Select {{arn}}",
+  "inbox.selected_count": "{{count}} selected",
+  "inbox.clear_selection": "Clear selection",
+  "inbox.bulk_toolbar": "Bulk actions",
+  "inbox.bulk_confirm_title": "{{action}} selected tasks",
+  "inbox.bulk_confirm_desc": "The action runs on each of the {{count}} selected tasks separately; tasks that cannot move are reported and stay selected.",
+  "inbox.bulk_remarks_hint": "Recorded on every selected task. Required for rejection.",
+  "inbox.bulk_mfa_code": "Verification code",
+  "inbox.bulk_mfa_hint": "One code sent to your phone/email covers the whole batch.",
+  "inbox.bulk_mfa_invalid": "Verification failed. Check the code or request a new one by submitting again.",
+  "inbox.bulk_summary": "{{succeeded}} of {{total}} tasks completed",
+  "inbox.bulk_failures_title": "These tasks could not be completed:",
+  "inbox.bulk_failed": "Bulk action failed",
+  "inbox.filters": "Inbox filters",
+  "inbox.filter_any": "Any",
+  "inbox.locality": "Locality",
+  "inbox.assigned_to_me": "Assigned to me",
+  "inbox.apply_filters": "Apply",
+  "inbox.clear_filters": "Clear filters",
+  "inbox.sla_bucket.overdue": "Overdue",
+  "inbox.sla_bucket.due_today": "Due today",
+  "inbox.sla_bucket.due_this_week": "Due this week",
+  "inbox.sort_by": "Sort by",
+  "inbox.sort_asc": "Ascending; switch to descending",
+  "inbox.sort_desc": "Descending; switch to ascending",
+  "inbox.sort.sla_due_at": "SLA due date",
+  "inbox.sort.created_at": "Received",
+  "inbox.sort.service_key": "Service",
+  "inbox.sort.state_id": "Stage",
+  "inbox.sort.applicant_name": "Applicant",
+  "inbox.saved_views": "Saved views",
+  "inbox.no_saved_views": "No saved views",
+  "inbox.view_default_label": "{{name}} (default)",
+  "inbox.save_view": "Save view",
+  "inbox.save_view_desc": "Saves the current filters and sort order under a name only you can see.",
+  "inbox.view_name": "View name",
+  "inbox.view_make_default": "Open the inbox with this view",
+  "inbox.view_save": "Save",
+  "inbox.view_name_taken": "You already have a view with this name",
+  "inbox.view_limit": "You have reached the maximum number of saved views",
+  "inbox.view_save_failed": "Could not save the view",
+  "inbox.delete_view": "Delete view",
+  "inbox.view_delete_confirm": "Delete this saved view?",
+  "inbox.page_summary": "{{from}}–{{to}} of {{total}} tasks",
+  "inbox.page_prev": "Previous",
+  "inbox.page_next": "Next",
+  "inbox.no_matching_tasks": "No tasks match these filters",
+  "inbox.no_matching_tasks_desc": "Clear or change the filters to see more tasks.",
+  "escalated.subtitle": "Overdue tasks escalated to you or your role under the SLA escalation ladder",
+  "escalated.none": "Nothing escalated to you",
+  "escalated.none_desc": "Tasks appear here when an SLA escalation rule targets one of your roles or notifies you as the reporting officer.",
+  "escalated.level": "Level {{level}}",
+  "escalated.action_notify": "Reporting officer notified",
+  "escalated.action_reassign": "Reassigned to your role",
+  "escalated.action_raise": "Raised to authority head and assigned",
+  "escalated.from_role": "From role",
+  "escalated.hours_overdue": "{{hours}} hours overdue",
+  "escalated.escalated_at": "Escalated at",
+  "delegations.subtitle": "Let another officer act with your postings for a fixed period, e.g. while you are on leave.",
+  "delegations.new": "New delegation",
+  "delegations.delegator": "Delegate postings of",
+  "delegations.myself": "Myself",
+  "delegations.delegate": "Delegate to",
+  "delegations.select_officer": "Select an officer",
+  "delegations.valid_from": "From",
+  "delegations.valid_to": "Until",
+  "delegations.reason": "Reason",
+  "delegations.create": "Create delegation",
+  "delegations.created": "Delegation created.",
+  "delegations.active": "Current and upcoming delegations",
+  "delegations.none": "No active delegations",
+  "delegations.summary": "{{delegator}} → {{delegate}}",
+  "delegations.revoke": "Revoke",
+  "delegations.revoked": "Delegation revoked.",
+  "performance.subtitle": "Tasks handled, handling time, SLA compliance and pendency for your authority.",
+  "performance.offline": "Offline mode is active. Performance reports are unavailable.",
+  "performance.forbidden": "Only supervisors can view performance reports for this authority.",
+  "performance.loading": "Loading performance report",
+  "performance.group_by": "Group by",
+  "performance.group.officer": "Officer",
+  "performance.group.role": "Role",
+  "performance.group.service": "Service",
+  "performance.from": "From",
+  "performance.to": "To",
+  "performance.apply": "Apply",
+  "performance.tasks_handled": "Tasks handled",
+  "performance.median_handling": "Median handling time",
+  "performance.sla_compliance": "SLA compliance",
+  "performance.query_rate": "Query rate",
+  "performance.rejection_rate": "Rejection rate",
+  "performance.pending": "Pending now",
+  "performance.age.0_2_days": "0–2 days",
+  "performance.age.3_7_days": "3–7 days",
+  "performance.age.8_15_days": "8–15 days",
+  "performance.age.16_30_days": "16–30 days",
+  "performance.age.over_30_days": "Over 30 days",
+  "performance.unassigned": "Unassigned",
+  "performance.total": "Total",
+  "performance.empty": "No tasks were handled or are pending for this selection.",
+  "performance.table_caption": "Performance from {{from}} to {{to}}",
+  "reconciliation.subtitle": "Import gateway settlement reports and bank statements, then resolve the lines that did not match a payment.",
+  "reconciliation.offline": "Offline mode is active. Payment reconciliation is unavailable.",
+  "reconciliation.forbidden": "Only accounts officers can reconcile payments for this authority.",
+  "reconciliation.loading": "Loading reconciliation summary",
+  "reconciliation.import_title": "Import a statement",
+  "reconciliation.source_type": "Source",
+  "reconciliation.source.gateway_settlement": "Gateway settlement report",
+  "reconciliation.source.bank_statement": "Bank statement",
+  "reconciliation.file": "File",
+  "reconciliation.file_hint": "CSV or MT940, up to 5 MB.",
+  "reconciliation.import": "Import",
+  "reconciliation.importing": "Importing…",
+  "reconciliation.import_done": "Imported {{lines}} lines: {{matched}} matched, {{exceptions}} need attention.",
+  "reconciliation.payment_status.pending": "Awaiting settlement",
+  "reconciliation.payment_status.reconciled": "Reconciled",
+  "reconciliation.payment_status.mismatch": "Mismatched",
+  "reconciliation.payment_status.manual_review": "In manual review",
+  "reconciliation.imports_caption": "Recent statement imports",
+  "reconciliation.imported_at": "Imported",
+  "reconciliation.lines": "Lines",
+  "reconciliation.matched": "Matched",
+  "reconciliation.exceptions": "Exceptions",
+  "reconciliation.exceptions_title": "Open exceptions",
+  "reconciliation.exceptions_caption": "{{count}} open reconciliation exceptions",
+  "reconciliation.status_filter": "Status",
+  "reconciliation.status_label": "Status",
+  "reconciliation.status.all": "All open",
+  "reconciliation.status.mismatch": "Mismatch",
+  "reconciliation.status.manual_review": "Manual review",
+  "reconciliation.status.unmatched": "Unmatched",
+  "reconciliation.status.resolved": "Resolved",
+  "reconciliation.status.matched": "Matched",
+  "reconciliation.no_exceptions": "No open exceptions. Every imported line is reconciled.",
+  "reconciliation.line": "Line",
+  "reconciliation.references": "References",
+  "reconciliation.statement_amount": "Statement amount",
+  "reconciliation.value_date": "Value date",
+  "reconciliation.payment": "Payment",
+  "reconciliation.reasons": "Reasons",
+  "reconciliation.reason.amount_mismatch": "Amount differs from the payment",
+  "reconciliation.reason.date_mismatch": "Settled outside the date tolerance",
+  "reconciliation.reason.ambiguous_match": "References point to different payments",
+  "reconciliation.reason.duplicate_settlement": "Payment already settled",
+  "reconciliation.reason.payment_not_successful": "Payment is not marked successful",
+  "reconciliation.reason.no_matching_payment": "No payment with these references",
+  "reconciliation.reason.unreadable_line": "Line has no usable amount or reference",
+  "reconciliation.resolve": "Resolve",
+  "reconciliation.resolve_title": "Resolve exception",
+  "reconciliation.resolve_desc": "Line {{line}} of {{file}}. The resolution and note are recorded in the audit trail.",
+  "reconciliation.resolved": "Line {{line}} of {{file}} resolved.",
+  "reconciliation.action": "Resolution",
+  "reconciliation.resolution.accept": "Accept the matched payment as settled",
+  "reconciliation.resolution.link": "Link to another payment",
+  "reconciliation.resolution.ignore": "Ignore this line",
+  "reconciliation.payment_id": "Payment ID",
+  "reconciliation.payment_id_hint": "The payment this settlement belongs to, in the same authority.",
+  "reconciliation.note": "Note",
+  "refunds.subtitle": "Recommend, approve and pay out fee refunds. The officer who recommends a refund cannot approve it.",
+  "refunds.offline": "Refunds are not available offline.",
+  "refunds.forbidden": "You are not allowed to manage refunds in this authority.",
+  "refunds.payout_forbidden": "Generating payout files needs an accounts role in this authority.",
+  "refunds.queue_title": "Refund requests",
+  "refunds.queue_caption": "Refund requests ({{count}})",
+  "refunds.status_filter": "Status",
+  "refunds.status_label": "Status",
+  "refunds.status.all": "All",
+  "refunds.status.requested": "Requested",
+  "refunds.status.recommended": "Recommended",
+  "refunds.status.approved": "Approved",
+  "refunds.status.in_payout": "In payout",
+  "refunds.status.processed": "Paid",
+  "refunds.status.rejected": "Rejected",
+  "refunds.empty": "No refund requests in this status.",
+  "refunds.application": "Application",
+  "refunds.amount": "Amount",
+  "refunds.refundable": "Refundable",
+  "refunds.breakdown": "Paid {{paid}} · due {{due}}",
+  "refunds.reason": "Reason",
+  "refunds.beneficiary": "Beneficiary",
+  "refunds.actions": "Actions",
+  "refunds.action.recommend": "Recommend",
+  "refunds.action.approve": "Approve",
+  "refunds.action.reject": "Reject",
+  "refunds.action.process": "Record result",
+  "refunds.own_request": "You raised this refund; another officer must recommend it.",
+  "refunds.checker_hint": "A different officer from the maker must approve.",
+  "refunds.awaiting_payout": "Awaiting payout file",
+  "refunds.payout_failed": "Payout failed: {{reason}}",
+  "refunds.payout_title": "Payout files",
+  "refunds.payout_hint": "Bundles every approved refund into a bulk NEFT file for upload to the bank. Record each line's UTR once the bank confirms it.",
+  "refunds.generate_payout": "Generate payout file",
+  "refunds.generating": "Generating…",
+  "refunds.payout_done": "Payout file {{batch}} generated with {{count}} refunds totalling {{amount}}.",
+  "refunds.no_batches": "No payout files yet.",
+  "refunds.batches_caption": "Recent payout files",
+  "refunds.batch": "File",
+  "refunds.generated_at": "Generated",
+  "refunds.batch_count": "Refunds",
+  "refunds.download": "Download",
+  "refunds.modal.recommend": "Recommend refund",
+  "refunds.modal.approve": "Approve refund",
+  "refunds.modal.reject": "Reject refund",
+  "refunds.modal.process": "Record payout result",
+  "refunds.modal_desc": "{{amount}} for {{arn}}",
+  "refunds.remarks": "Remarks",
+  "refunds.outcome": "Bank result",
+  "refunds.outcome_paid": "Paid",
+  "refunds.outcome_failed": "Failed (return to approved)",
+  "refunds.utr": "UTR / bank reference",
+  "refunds.failure_reason": "Failure reason",
+  "refunds.done.recommend": "Refund for {{arn}} recommended.",
+  "refunds.done.approve": "Refund for {{arn}} approved.",
+  "refunds.done.reject": "Refund for {{arn}} rejected.",
+  "refunds.done.process": "Payout result recorded for {{arn}}.",
+  "counter.subtitle": "Post challan, NEFT and counter deposits and verify postings made by other officers. The officer who posts a deposit cannot verify it.",
+  "counter.offline": "The counter desk is not available offline.",
+  "counter.forbidden": "You are not allowed to verify counter payments in this authority.",
+  "counter.post_title": "Post an offline payment",
+  "counter.arn": "Application number",
+  "counter.find_demands": "Find demands",
+  "counter.no_demands": "This application has no demand awaiting payment.",
+  "counter.demand": "Demand",
+  "counter.demand_option": "{{number}} — balance {{balance}}",
+  "counter.mode": "Mode",
+  "counter.mode_challan": "Bank challan",
+  "counter.mode_neft": "NEFT / RTGS",
+  "counter.mode_counter": "Counter (cash / DD)",
+  "counter.amount": "Amount",
+  "counter.challan_number": "Challan number",
+  "counter.utr": "UTR number",
+  "counter.instrument_number": "Receipt / DD number",
+  "counter.instrument_bank": "Bank",
+  "counter.instrument_date": "Instrument date",
+  "counter.receipt_number": "Counter receipt number",
+  "counter.post": "Post for verification",
+  "counter.post_hint": "The payment stays pending until another officer verifies it.",
+  "counter.posted": "Payment of {{amount}} for {{arn}} posted for verification.",
+  "counter.queue_title": "Awaiting verification",
+  "counter.queue_caption": "{{count}} offline payments awaiting verification",
+  "counter.empty": "No offline payments are awaiting verification.",
+  "counter.application": "Application",
+  "counter.instrument": "Instrument",
+  "counter.actions": "Actions",
+  "counter.own_posting": "You posted this payment; another officer must verify it.",
+  "counter.action.verify": "Verify",
+  "counter.action.dishonour": "Dishonour",
+  "counter.modal.verified": "Verify payment",
+  "counter.modal.dishonoured": "Dishonour payment",
+  "counter.modal_desc": "{{amount}} for {{arn}}",
+  "counter.modal.remarks": "Remarks (optional)",
+  "counter.modal.reason": "Reason",
+  "counter.done.verified": "Payment for {{arn}} verified and credited.",
+  "counter.done.dishonoured": "Payment for {{arn}} marked dishonoured.",
 
   // Search
   "search.placeholder": "Search by ARN, applicant name, UPN, plot, or scheme...",
@@ -136,6 +405,42 @@ export default {
   "svc.tab_documents": "Documents",
   "svc.tab_fees": "Fees",
   "svc.tab_compare": "Compare",
+  "svc.tab_simulate": "Simulate",
+  "sim.intro": "Dry-run this workflow step by step. Nothing is saved: tasks, SLA dates, queries, outputs and notifications are computed in memory.",
+  "sim.failed": "Simulation failed",
+  "sim.source": "Configuration",
+  "sim.source_version": "Version {{version}}",
+  "sim.source_pack": "Service pack files",
+  "sim.authority": "Authority (optional)",
+  "sim.authority_hint": "Used for the holiday calendar in SLA dates",
+  "sim.start_at": "Start date (optional)",
+  "sim.restart": "Restart",
+  "sim.undo": "Undo last step",
+  "sim.current_state": "Current state: {{state}}",
+  "sim.step": "Step {{number}}",
+  "sim.step_failed": "Step rejected: {{error}}",
+  "sim.guard": "Guard {{rule}}",
+  "sim.passed": "passed",
+  "sim.not_passed": "not passed",
+  "sim.task_created": "Task for {{role}} at {{state}}",
+  "sim.sla_due": "SLA due {{date}}",
+  "sim.task_closed": "Task for {{role}} {{status}}",
+  "sim.query": "Query #{{number}} raised, response due {{date}}",
+  "sim.decision": "Decision: {{decision}}",
+  "sim.notice": "Notice: {{type}}",
+  "sim.output": "Output: {{template}}",
+  "sim.registered_action": "Action: {{action}}",
+  "sim.notification": "Notification: {{event}}",
+  "sim.open_tasks": "Open tasks",
+  "sim.finished": "No further transitions; the workflow has ended.",
+  "sim.next_step": "Next step",
+  "sim.complete_branch": "Complete branch {{branch}} ({{role}})",
+  "sim.actor": "Actor",
+  "sim.roles": "Officer roles",
+  "sim.roles_hint": "Comma-separated system roles",
+  "sim.query_message": "Query message",
+  "sim.after_hours": "Wait before this step (hours)",
+  "sim.run_step": "Run step",
 
   // Task Detail
   "task.back": "Back",
@@ -150,6 +455,20 @@ export default {
   "task.queries_section": "Queries ({{count}})",
   "task.timeline_section": "Timeline ({{count}})",
   "task.take_action": "Take Action",
+  "task.parallel_branch_hint": "Parallel review — {{branch}} branch. Forwarding completes your branch; the application moves on once the other branches finish.",
+  "task.assignment": "Assignment",
+  "task.assigned_to_you": "This task is assigned to you.",
+  "task.assigned_to": "Assigned to {{user}}.",
+  "task.unassigned": "Unassigned — in the {{role}} pool.",
+  "task.release": "Release to pool",
+  "task.released": "Task released to the role pool.",
+  "task.reassign": "Reassign",
+  "task.reassign_to": "Reassign to",
+  "task.reassign_pool": "Return to role pool",
+  "task.reassign_reason": "Reason for reassignment",
+  "task.reassign_submit": "Confirm reassignment",
+  "task.reassigned": "Task reassigned.",
+  "task.reassign_not_supervisor": "Only supervisors can reassign tasks in this authority.",
   "task.query_message": "Query Message",
   "task.unlock_fields": "Unlock Fields (comma-separated)",
   "task.unlock_fields_placeholder": "e.g., property.plot_no, applicant.full_name",
@@ -166,10 +485,35 @@ export default {
   "task.no_documents": "No documents uploaded yet for this application.",
   "task.no_queries": "No queries have been raised for this application.",
   "task.no_timeline": "Timeline events are not available yet.",
+  "task.output_pending": "The certificate/order is queued for generation and will be issued to the applicant shortly.",
+  "task.output_failed": "Certificate/order generation failed after repeated attempts. An administrator can requeue it from the output job queue.",
   "task.doc_verify_reason_placeholder": "Reason (required for reject/query)...",
   "task.loading_preview": "Loading preview...",
   "task.preview_unavailable": "Preview is not available for this file type.",
   "task.download_to_view": "Download to view",
+  "task.guard_failed": "This action is blocked until the following conditions are met: {{reasons}}",
+  "fees.title": "Fees",
+  "fees.none_assessed": "No fees have been assessed for this application yet.",
+  "fees.calculate": "Calculate fees",
+  "fees.recalculate": "Recalculate",
+  "fees.assess": "Assess these fees",
+  "fees.assessed": "Fees assessed.",
+  "fees.preview_hint": "Preview from the fee schedule and this application's data. Nothing is saved until you assess.",
+  "fees.total": "Total {{amount}}",
+  "fees.load_error": "Could not load fees.",
+  "fees.calculate_error": "Could not calculate fees.",
+  "fees.assess_error": "Could not assess fees.",
+  "fees.derivation.flat": "Flat fee {{amount}}",
+  "fees.derivation.rate": "{{rate}} per unit = {{amount}}",
+  "fees.derivation.slab_up_to": "up to {{upTo}}",
+  "fees.derivation.slab_open": "above the last limit",
+  "fees.derivation.slab_flat": "Slab {{bracket}}: {{amount}}",
+  "fees.derivation.slab_rate": "Slab {{bracket}}: {{rate}} per unit = {{amount}}",
+  "fees.derivation.minimum": "Raised to the minimum of {{amount}}",
+  "fees.derivation.maximum": "Capped at the maximum of {{amount}}",
+  "fees.derivation.surcharge": "{{label}} ({{percent}}%): {{amount}}",
+  "fees.derivation.gst": "GST {{percent}}%: {{amount}}",
+  "fees.derivation.rounded": "Rounded from {{amount}}",
 
   // Actions
   "action.forward": "Forward",
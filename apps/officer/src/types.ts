@@ -5,12 +5,40 @@ export type Task = {
   arn: string;
   state_id: string;
   system_role_id: string;
+  assignee_user_id?: string;
   status: string;
   sla_due_at?: string;
   created_at: string;
   service_key?: string;
   applicant_name?: string;
   authority_id?: string;
+  branch_id?: string;
+  parallel_group_id?: string;
+};
+
+export type InboxSlaBucket = "OVERDUE" | "DUE_TODAY" | "DUE_THIS_WEEK";
+export type InboxSortKey = "sla_due_at" | "created_at" | "service_key" | "state_id" | "applicant_name";
+
+export type InboxFilters = {
+  serviceKey?: string;
+  stateId?: string;
+  slaBucket?: InboxSlaBucket;
+  applicantName?: string;
+  locality?: string;
+  assignedToMe?: boolean;
+};
+
+export type InboxSort = { key: InboxSortKey; direction: "asc" | "desc" };
+
+/** Filters, sort and page currently applied to the inbox */
+export type InboxQuery = { filters: InboxFilters; sort: InboxSort; page: number };
+
+export type InboxSavedView = {
+  view_id: string;
+  name: string;
+  filters: InboxFilters;
+  sort: InboxSort;
+  is_default: boolean;
 };
 
 export type Application = {
@@ -25,6 +53,7 @@ export type Application = {
   tasks: any[];
   timeline: any[];
   disposal_type?: string;
+  output_status?: "PENDING" | "GENERATED" | "FAILED" | null;
 };
 
 export type OfficerUser = {
@@ -6,3 +6,4 @@ export * from "./ui";
 export * from "./validation";
 export * from "./india-data";
 export * from "./hash-router";
+export * from "./live-events";
@@ -0,0 +1,174 @@
+/**
+ * Live events client — shared by citizen + officer apps.
+ *
+ * Reads the API's Server-Sent Events stream (GET /api/v1/events/stream) with
+ * fetch rather than EventSource, so the Authorization header is sent as well
+ * as the auth cookie. Events are hints to refresh: while the stream is down
+ * (status "polling") the apps keep polling as before.
+ */
+import { useEffect, useRef, useState } from "react";
+
+export type LiveEventsStatus = "connecting" | "live" | "polling";
+
+export type LiveEventHandler = (type: string, data: Record<string, unknown>) => void;
+
+export interface LiveEventsOptions {
+  url: string;
+  headers?: () => Record<string, string>;
+  onEvent: LiveEventHandler;
+  onStatus?: (status: LiveEventsStatus) => void;
+}
+
+const DEFAULT_RETRY_MS = 10_000;
+const MAX_RETRY_MS = 5 * 60_000;
+/** The server sends a heartbeat every 25s; a silent stream is presumed dead */
+const IDLE_TIMEOUT_MS = 60_000;
+/** Statuses meaning "not now": disabled, too many streams, or an API without the endpoint */
+const BACKOFF_STATUSES = new Set([404, 429, 503]);
+
+type ParsedMessage = { type: string; data: string; retry?: number };
+
+/** Split buffered stream text into complete SSE messages, returning the unparsed remainder. */
+export function parseServerSentEvents(buffer: string): { messages: ParsedMessage[]; rest: string } {
+  const messages: ParsedMessage[] = [];
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  for (const block of blocks) {
+    const message: ParsedMessage = { type: "message", data: "" };
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (!line || line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon < 0 ? line : line.slice(0, colon);
+      const value = colon < 0 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "event") message.type = value;
+      else if (field === "data") data.push(value);
+      else if (field === "retry" && /^\d+$/.test(value)) message.retry = Number(value);
+    }
+    message.data = data.join("\n");
+    if (data.length > 0 || message.retry !== undefined) messages.push(message);
+  }
+  return { messages, rest };
+}
+
+/**
+ * Open the stream and keep it open, reconnecting with backoff. A 401 stops
+ * for good (the session is gone). Returns a function that closes the stream.
+ */
+export function connectLiveEvents(options: LiveEventsOptions): () => void {
+  let closed = false;
+  let controller: AbortController | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryMs = DEFAULT_RETRY_MS;
+  let failures = 0;
+
+  const setStatus = (status: LiveEventsStatus) => options.onStatus?.(status);
+
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => controller?.abort(), IDLE_TIMEOUT_MS);
+  };
+
+  const scheduleReconnect = (delayMs: number) => {
+    if (closed) return;
+    setStatus("polling");
+    reconnectTimer = setTimeout(() => void open(), delayMs);
+  };
+
+  async function open(): Promise<void> {
+    if (closed) return;
+    setStatus("connecting");
+    controller = new AbortController();
+    try {
+      const response = await fetch(options.url, {
+        headers: { ...options.headers?.(), Accept: "text/event-stream" },
+        credentials: "include",
+        signal: controller.signal,
+      });
+      if (response.status === 401 || response.status === 403) {
+        setStatus("polling");
+        return;
+      }
+      if (!response.ok || !response.body) {
+        failures += 1;
+        const backoff = BACKOFF_STATUSES.has(response.status) ? MAX_RETRY_MS : retryMs * 2 ** Math.min(failures, 5);
+        return scheduleReconnect(Math.min(backoff, MAX_RETRY_MS));
+      }
+
+      failures = 0;
+      setStatus("live");
+      resetIdleTimer();
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        resetIdleTimer();
+        buffer += decoder.decode(value, { stream: true });
+        const parsed = parseServerSentEvents(buffer);
+        buffer = parsed.rest;
+        for (const message of parsed.messages) {
+          if (message.retry !== undefined) retryMs = message.retry;
+          if (!message.data) continue;
+          try {
+            options.onEvent(message.type, JSON.parse(message.data));
+          } catch {
+            // Ignore malformed payloads and handler errors; the next poll catches up
+          }
+        }
+      }
+    } catch {
+      failures += 1;
+    } finally {
+      clearTimeout(idleTimer);
+    }
+    scheduleReconnect(Math.min(retryMs * 2 ** Math.min(failures, 5), MAX_RETRY_MS));
+  }
+
+  void open();
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    clearTimeout(idleTimer);
+    controller?.abort();
+  };
+}
+
+/**
+ * Keep a live events stream open while `enabled`. The latest `onEvent` is
+ * always used without reconnecting. Returns the stream status; anything but
+ * "live" means the caller should poll.
+ */
+export function useLiveEvents(options: {
+  enabled: boolean;
+  url: string;
+  headers?: () => Record<string, string>;
+  onEvent: LiveEventHandler;
+}): LiveEventsStatus {
+  const [status, setStatus] = useState<LiveEventsStatus>("polling");
+  const onEventRef = useRef(options.onEvent);
+  const headersRef = useRef(options.headers);
+  onEventRef.current = options.onEvent;
+  headersRef.current = options.headers;
+
+  useEffect(() => {
+    if (!options.enabled || typeof ReadableStream === "undefined") {
+      setStatus("polling");
+      return;
+    }
+    const close = connectLiveEvents({
+      url: options.url,
+      headers: () => headersRef.current?.() ?? {},
+      onEvent: (type, data) => onEventRef.current(type, data),
+      onStatus: setStatus,
+    });
+    return () => {
+      close();
+      setStatus("polling");
+    };
+  }, [options.enabled, options.url]);
+
+  return status;
+}
@@ -65,7 +65,7 @@ export const PaymentTransactionSchema = z.object({
   reconciliationStatus: ReconciliationStatusEnum.optional(),
 });
 
-export const RefundStatusEnum = z.enum(["REQUESTED", "APPROVED", "REJECTED", "PROCESSED"]);
+export const RefundStatusEnum = z.enum(["REQUESTED", "RECOMMENDED", "APPROVED", "IN_PAYOUT", "PROCESSED", "REJECTED"]);
 
 export const BankDetailsSchema = z.object({
   accountName: z.string().optional(),